@@ -3,9 +3,13 @@
  *
  * This module provides a foundation for making authenticated HTTP requests to SFCC APIs.
  * It handles common concerns like authentication, request/response formatting, and error handling.
+ * Requests are rate limited per host, time out after a configurable period and are retried
+ * with jittered exponential backoff when the API throttles or fails transiently.
  */
 
+import { HttpClientConfig, HttpErrorKind } from '../../types/types.js';
 import { Logger } from '../../utils/logger.js';
+import { getHostRateLimiter, sleep, TokenBucket } from '../../utils/rate-limiter.js';
 
 /**
  * HTTP request options interface
@@ -14,16 +18,100 @@ export interface HttpRequestOptions extends RequestInit {
   headers?: Record<string, string>;
 }
 
+/** Defaults for settings not given in the HTTP client configuration */
+export const DEFAULT_HTTP_CLIENT_CONFIG: Required<HttpClientConfig> = {
+  timeoutMs: 30000,
+  maxRetries: 3,
+  retryBaseDelayMs: 500,
+  retryMaxDelayMs: 30000,
+  requestsPerSecond: 10,
+};
+
+/** Status codes that are retried for idempotent requests */
+const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+
+/** Methods that can be repeated safely after a server error or a lost connection */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+/**
+ * Error thrown for failed SFCC API requests, classified by the kind of failure
+ */
+export class HttpRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: HttpErrorKind,
+    public readonly details: {
+      /** HTTP method of the request */
+      method: string;
+      /** Requested URL */
+      url: string;
+      /** HTTP status of the last response (missing for network errors and timeouts) */
+      status?: number;
+      /** Response body of the last response */
+      body?: string;
+      /** Number of requests made, including retries */
+      attempts: number;
+      /** Delay requested by the API before retrying, in milliseconds */
+      retryAfterMs?: number;
+    },
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+
+  /** HTTP status of the last response */
+  get status(): number | undefined {
+    return this.details.status;
+  }
+
+  /**
+   * Readable description of the failure for tool results
+   */
+  describe(): string {
+    return `(${this.kind}) ${this.message}`;
+  }
+
+  /**
+   * Machine-readable details of the failure for tool results
+   */
+  getDetails(): Record<string, unknown> {
+    const { method, url, status, attempts, retryAfterMs } = this.details;
+    return { kind: this.kind, message: this.message, method, url, status, attempts, retryAfterMs };
+  }
+
+  /** Whether the request may succeed when repeated later */
+  get retryable(): boolean {
+    return this.kind === 'throttling' || this.kind === 'network' || this.kind === 'timeout' ||
+      (this.kind === 'server' && RETRYABLE_STATUS_CODES.has(this.details.status!));
+  }
+}
+
+/**
+ * Raised internally when a request is aborted by its timeout
+ */
+class RequestTimeoutError extends Error {}
+
+/**
+ * Raised internally when the body of a successful response is not valid JSON
+ */
+class ResponseParseError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
 /**
  * Base HTTP client for SFCC API communication
  */
 export abstract class BaseHttpClient {
   protected baseUrl: string;
   protected logger: Logger;
+  protected httpConfig: Required<HttpClientConfig>;
 
-  constructor(baseUrl: string, loggerContext: string) {
+  constructor(baseUrl: string, loggerContext: string, httpConfig: HttpClientConfig = {}) {
     this.baseUrl = baseUrl;
     this.logger = Logger.getChildLogger(loggerContext);
+    this.httpConfig = { ...DEFAULT_HTTP_CLIENT_CONFIG, ...httpConfig };
   }
 
   /**
@@ -41,6 +129,12 @@ export abstract class BaseHttpClient {
 
   /**
    * Make an authenticated HTTP request
+   *
+   * A 401 response triggers one retry with fresh authentication. Throttling responses (429)
+   * are retried for all methods; server errors, timeouts and network errors only for
+   * idempotent methods, since the request may already have been processed.
+   *
+   * @throws HttpRequestError if the request fails after all retries
    */
   protected async makeRequest<T>(
     endpoint: string,
@@ -48,6 +142,7 @@ export abstract class BaseHttpClient {
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const method = options.method ?? 'GET';
+    const rateLimiter = this.getRateLimiter(url);
 
     this.logger.debug(`Making ${method} request to: ${endpoint}`);
 
@@ -63,46 +158,240 @@ export abstract class BaseHttpClient {
       },
     };
 
-    try {
-      const response = await fetch(url, requestOptions);
-
-      if (!response.ok) {
-        // Handle authentication errors
-        if (response.status === 401) {
-          this.logger.debug('Received 401, attempting to handle auth error');
-          await this.handleAuthError();
-
-          // Retry with fresh authentication
-          const newAuthHeaders = await this.getAuthHeaders();
-          requestOptions.headers = {
-            ...requestOptions.headers,
-            ...newAuthHeaders,
-          };
-
-          const retryResponse = await fetch(url, requestOptions);
-          if (!retryResponse.ok) {
-            const errorText = await retryResponse.text();
-            throw new Error(
-              `Request failed after retry: ${retryResponse.status} ${retryResponse.statusText} - ${errorText}`,
-            );
-          }
+    let authRetried = false;
+    let retries = 0;
+    for (let attempts = 1; ; attempts++) {
+      requestOptions.signal?.throwIfAborted();
+      await rateLimiter?.acquire();
 
-          this.logger.debug('Retry request successful');
-          return retryResponse.json();
+      let response: Response | undefined;
+      let body: any;
+      let fetchError: HttpRequestError | undefined;
+      try {
+        ({ response, body } = await this.fetchWithTimeout(url, requestOptions, async (response) => {
+          this.applyRateLimitHeaders(response, rateLimiter);
+          if (response.ok) {
+            return { response, body: await this.parseResponseBody(response) };
+          }
+          // The body of a 401 response is only needed once re-authentication has failed
+          return { response, body: response.status === 401 && !authRetried ? '' : await response.text() };
+        }));
+      } catch (error) {
+        // A request cancelled by the caller fails with the caller's reason and is not retried
+        if (requestOptions.signal?.aborted) {
+          this.logger.debug(`Request to ${endpoint} was cancelled`);
+          throw requestOptions.signal.reason;
         }
+        fetchError = this.createFetchError(error, endpoint, method, url, attempts);
+      }
+
+      if (response?.ok) {
+        this.logger.debug(`Request to ${endpoint} completed successfully`);
+        return body;
+      }
+
+      // Handle authentication errors
+      if (response?.status === 401 && !authRetried) {
+        this.logger.debug('Received 401, attempting to handle auth error');
+        await this.handleAuthError();
+
+        // Retry with fresh authentication
+        const newAuthHeaders = await this.getAuthHeaders();
+        requestOptions.headers = {
+          ...requestOptions.headers,
+          ...newAuthHeaders,
+        };
+        authRetried = true;
+        continue;
+      }
+
+      const error = fetchError ?? this.createResponseError(response!, body, method, url, attempts, authRetried);
+      const canRetry = error.kind === 'throttling' || IDEMPOTENT_METHODS.has(method.toUpperCase());
+      if (!error.retryable || !canRetry || retries >= this.httpConfig.maxRetries) {
+        this.logger.error(`Request to ${endpoint} failed (${error.kind}): ${error.message}`);
+        throw error;
+      }
 
-        const errorText = await response.text();
-        throw new Error(`Request failed: ${response.status} ${response.statusText} - ${errorText}`);
+      retries++;
+      const delayMs = this.getRetryDelay(retries, error.details.retryAfterMs);
+      if (error.details.retryAfterMs !== undefined) {
+        rateLimiter?.pauseUntil(Date.now() + delayMs);
       }
+      this.logger.warn(
+        `Request to ${endpoint} failed (${error.kind}${error.status ? ` ${error.status}` : ''}), ` +
+          `retry ${retries}/${this.httpConfig.maxRetries} in ${delayMs}ms`,
+      );
+      await sleep(delayMs);
+    }
+  }
+
+  /**
+   * Send a request and read its response before the configured timeout expires
+   */
+  private async fetchWithTimeout<R>(
+    url: string,
+    requestOptions: RequestInit,
+    readResponse: (response: Response) => Promise<R>,
+  ): Promise<R> {
+    if (this.httpConfig.timeoutMs <= 0) {
+      return readResponse(await fetch(url, requestOptions));
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.httpConfig.timeoutMs);
+    const callerSignal = requestOptions.signal;
+    const abortFromCaller = () => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener('abort', abortFromCaller);
 
-      this.logger.debug(`Request to ${endpoint} completed successfully`);
-      return response.json();
+    try {
+      return await readResponse(await fetch(url, { ...requestOptions, signal: controller.signal }));
     } catch (error) {
-      this.logger.error(`Network error during request to ${endpoint}: ${error}`);
-      throw error;
+      // Report timeouts rather than the generic AbortError raised by fetch
+      throw timedOut ? new RequestTimeoutError() : error;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', abortFromCaller);
     }
   }
 
+  /**
+   * Parse the JSON body of a successful response
+   *
+   * @returns The parsed body, or undefined for 204 and other empty responses (e.g. OCAPI DELETE)
+   * @throws ResponseParseError if the body is not valid JSON
+   */
+  private async parseResponseBody(response: Response): Promise<any> {
+    const text = response.status === 204 ? '' : await response.text();
+    if (!text.trim()) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new ResponseParseError(
+        `Invalid JSON in ${response.status} response: ${error instanceof Error ? error.message : error}`,
+        response.status,
+      );
+    }
+  }
+
+  /**
+   * Create the error for a request that did not receive a response
+   */
+  private createFetchError(
+    error: unknown,
+    endpoint: string,
+    method: string,
+    url: string,
+    attempts: number,
+  ): HttpRequestError {
+    if (error instanceof RequestTimeoutError) {
+      return new HttpRequestError(
+        `Request to ${endpoint} timed out after ${this.httpConfig.timeoutMs}ms`,
+        'timeout',
+        { method, url, attempts },
+      );
+    }
+
+    // The request was processed; repeating it would not change the response
+    if (error instanceof ResponseParseError) {
+      return new HttpRequestError(`Request to ${endpoint} returned ${error.message}`, 'parse', {
+        method,
+        url,
+        status: error.status,
+        attempts,
+      });
+    }
+
+    this.logger.debug(`Network error during request to ${endpoint}: ${error}`);
+    return new HttpRequestError(
+      error instanceof Error ? error.message : String(error),
+      'network',
+      { method, url, attempts },
+    );
+  }
+
+  /**
+   * Create the error for an unsuccessful response - can be overridden to parse API-specific error documents
+   */
+  protected createResponseError(
+    response: Response,
+    body: string,
+    method: string,
+    url: string,
+    attempts: number,
+    authRetried: boolean,
+  ): HttpRequestError {
+    const { status } = response;
+    let kind: HttpErrorKind = 'client';
+    if (status === 429) {
+      kind = 'throttling';
+    } else if (status === 401 || status === 403) {
+      kind = 'auth';
+    } else if (status >= 500) {
+      kind = 'server';
+    }
+
+    const prefix = authRetried ? 'Request failed after retry' : 'Request failed';
+    return new HttpRequestError(`${prefix}: ${status} ${response.statusText} - ${body}`, kind, {
+      method,
+      url,
+      status,
+      body,
+      attempts,
+      retryAfterMs: parseRetryAfter(response.headers?.get('retry-after') ?? null),
+    });
+  }
+
+  /**
+   * Pause the host's rate limiter when the API reports an exhausted rate limit or quota
+   */
+  private applyRateLimitHeaders(response: Response, rateLimiter: TokenBucket | undefined): void {
+    const remaining = response.headers?.get('ratelimit-remaining') ?? response.headers?.get('x-ratelimit-remaining');
+    if (!rateLimiter || remaining !== '0') {
+      return;
+    }
+
+    const reset = response.headers.get('ratelimit-reset') ?? response.headers.get('x-ratelimit-reset');
+    const resetMs = parseRetryAfter(reset);
+    if (resetMs !== undefined) {
+      this.logger.warn(`Rate limit exhausted, holding requests for ${resetMs}ms`);
+      rateLimiter.pauseUntil(Date.now() + Math.min(resetMs, this.httpConfig.retryMaxDelayMs));
+    }
+  }
+
+  /**
+   * Get the delay before a retry: the delay requested by the API, or full-jitter exponential backoff
+   */
+  private getRetryDelay(retry: number, retryAfterMs?: number): number {
+    const { retryBaseDelayMs, retryMaxDelayMs } = this.httpConfig;
+    if (retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, retryMaxDelayMs);
+    }
+    const backoff = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** (retry - 1));
+    return Math.round(Math.random() * backoff);
+  }
+
+  /**
+   * Get the shared rate limiter of the request's host (undefined when rate limiting is disabled)
+   */
+  private getRateLimiter(url: string): TokenBucket | undefined {
+    if (this.httpConfig.requestsPerSecond <= 0) {
+      return undefined;
+    }
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = this.baseUrl;
+    }
+    return getHostRateLimiter(host, this.httpConfig.requestsPerSecond);
+  }
+
   /**
    * GET request
    */
@@ -149,4 +438,45 @@ export abstract class BaseHttpClient {
   protected async delete<T>(endpoint: string): Promise<T> {
     return this.makeRequest<T>(endpoint, { method: 'DELETE' });
   }
+
+  /**
+   * Execute a request with the HTTP method given at runtime (e.g. from an endpoint definition)
+   */
+  async request<T>(method: string, endpoint: string, data?: any): Promise<T> {
+    switch (method) {
+      case 'GET':
+        return this.get<T>(endpoint);
+      case 'POST':
+        return this.post<T>(endpoint, data);
+      case 'PUT':
+        return this.put<T>(endpoint, data);
+      case 'PATCH':
+        return this.patch<T>(endpoint, data);
+      case 'DELETE':
+        return this.delete<T>(endpoint);
+      default:
+        throw new Error(`Unsupported HTTP method: ${method}`);
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After style header (delay in seconds, epoch seconds or an HTTP date)
+ *
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    // Rate limit reset headers may carry an epoch timestamp instead of a delay
+    const delaySeconds = seconds > 1e9 ? seconds - Date.now() / 1000 : seconds;
+    return Math.max(0, Math.ceil(delaySeconds * 1000));
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 }
@@ -2,10 +2,21 @@
  * OAuth Token Manager for SFCC OCAPI
  *
  * This module provides a singleton Token class that manages OAuth 2.0 access tokens
- * for SFCC OCAPI requests. It handles automatic token refresh when tokens expire.
+ * for SFCC OCAPI and SCAPI requests. It handles automatic token refresh when tokens expire.
+ * Tokens can optionally be persisted in an encrypted token store to survive server restarts.
  */
 
 import { OAuthToken, OAuthTokenResponse } from '../../types/types.js';
+import { Logger } from '../../utils/logger.js';
+import { TokenStore } from './token-store.js';
+
+/**
+ * Options for storing a token
+ */
+export interface StoreTokenOptions {
+  /** Whether the token is written to the token store when persistence is enabled (default: true) */
+  persist?: boolean;
+}
 
 /**
  * Singleton class for managing OAuth tokens
@@ -14,6 +25,7 @@ import { OAuthToken, OAuthTokenResponse } from '../../types/types.js';
 export class TokenManager {
   private static instance: TokenManager;
   private tokens: Map<string, OAuthToken> = new Map();
+  private store: TokenStore | null = null;
 
   private constructor() {}
 
@@ -28,41 +40,76 @@ export class TokenManager {
   }
 
   /**
-   * Generate a unique key for the token based on hostname and client ID
+   * Persist tokens in a token store
+   * Tokens already in the store are loaded; tokens of other processes are picked up when missing in memory
+   */
+  enablePersistence(store: TokenStore): void {
+    this.store = store;
+    for (const [key, token] of Object.entries(store.read())) {
+      this.tokens.set(key, token);
+    }
+  }
+
+  /**
+   * Stop persisting tokens (tokens in memory are kept)
    */
-  private getTokenKey(hostname: string, clientId: string): string {
-    return `${hostname}:${clientId}`;
+  disablePersistence(): void {
+    this.store = null;
+  }
+
+  /**
+   * Get the path of the token store, or null when tokens are only kept in memory
+   */
+  getPersistencePath(): string | null {
+    return this.store?.getPath() ?? null;
+  }
+
+  /**
+   * Generate a unique key for the token based on hostname, client ID and requested scope
+   */
+  private getTokenKey(hostname: string, clientId: string, scope?: string): string {
+    return scope ? `${hostname}:${clientId}:${scope}` : `${hostname}:${clientId}`;
   }
 
   /**
    * Check if a token is valid (exists and not expired)
    * Includes a 60-second buffer to avoid using tokens that are about to expire
    */
-  isTokenValid(hostname: string, clientId: string): boolean {
-    const key = this.getTokenKey(hostname, clientId);
-    const token = this.tokens.get(key);
+  isTokenValid(hostname: string, clientId: string, scope?: string): boolean {
+    const key = this.getTokenKey(hostname, clientId, scope);
+    const now = Date.now();
+    const expirationBuffer = 60 * 1000; // 60 seconds in milliseconds
+
+    // Another process may have stored a newer token
+    let token = this.tokens.get(key);
+    if (!token || token.expiresAt <= now + expirationBuffer) {
+      token = this.loadPersistedToken(key) ?? token;
+    }
 
     if (!token) {
       return false;
     }
 
-    // Add 60-second buffer to avoid using tokens that are about to expire
-    const now = Date.now();
-    const expirationBuffer = 60 * 1000; // 60 seconds in milliseconds
+    // Evict expired tokens
+    if (token.expiresAt <= now) {
+      this.tokens.delete(key);
+      return false;
+    }
 
+    // Add 60-second buffer to avoid using tokens that are about to expire
     return token.expiresAt > (now + expirationBuffer);
   }
 
   /**
-   * Get a valid token for the given hostname and client ID
+   * Get a valid token for the given hostname, client ID and optional scope
    * Returns null if no valid token exists
    */
-  getValidToken(hostname: string, clientId: string): string | null {
-    if (!this.isTokenValid(hostname, clientId)) {
+  getValidToken(hostname: string, clientId: string, scope?: string): string | null {
+    if (!this.isTokenValid(hostname, clientId, scope)) {
       return null;
     }
 
-    const key = this.getTokenKey(hostname, clientId);
+    const key = this.getTokenKey(hostname, clientId, scope);
     const token = this.tokens.get(key);
     return token?.accessToken ?? null;
   }
@@ -70,8 +117,14 @@ export class TokenManager {
   /**
    * Store a new token from the OAuth response
    */
-  storeToken(hostname: string, clientId: string, tokenResponse: OAuthTokenResponse): void {
-    const key = this.getTokenKey(hostname, clientId);
+  storeToken(
+    hostname: string,
+    clientId: string,
+    tokenResponse: OAuthTokenResponse,
+    scope?: string,
+    options: StoreTokenOptions = {},
+  ): void {
+    const key = this.getTokenKey(hostname, clientId, scope);
     const now = Date.now();
 
     const token: OAuthToken = {
@@ -81,28 +134,105 @@ export class TokenManager {
     };
 
     this.tokens.set(key, token);
+    if (options.persist !== false) {
+      this.updateStore(tokens => {
+        tokens[key] = token;
+      });
+    }
   }
 
   /**
    * Clear a token (useful for testing or when a token becomes invalid)
    */
-  clearToken(hostname: string, clientId: string): void {
-    const key = this.getTokenKey(hostname, clientId);
+  clearToken(hostname: string, clientId: string, scope?: string): void {
+    const key = this.getTokenKey(hostname, clientId, scope);
     this.tokens.delete(key);
+    this.updateStore(tokens => {
+      delete tokens[key];
+    });
   }
 
   /**
    * Clear all tokens
    */
   clearAllTokens(): void {
-    this.tokens.clear();
+    this.clearTokens();
+  }
+
+  /**
+   * Clear the tokens of a host, or all tokens, from memory and the token store
+   *
+   * @param hostname - Host whose tokens are cleared (all hosts if omitted)
+   * @returns Number of distinct tokens removed
+   */
+  clearTokens(hostname?: string): number {
+    const matches = (key: string) => !hostname || key.startsWith(`${hostname}:`);
+    const removed = new Set([...this.tokens.keys()].filter(matches));
+    for (const key of removed) {
+      this.tokens.delete(key);
+    }
+
+    this.updateStore(tokens => {
+      for (const key of Object.keys(tokens).filter(matches)) {
+        removed.add(key);
+        delete tokens[key];
+      }
+    });
+    return removed.size;
+  }
+
+  /**
+   * Apply a change to the token store
+   * If the store can no longer be written (e.g. its permissions were changed), tokens are kept in
+   * memory only, as when the token cache cannot be enabled at startup
+   */
+  private updateStore(change: (tokens: Record<string, OAuthToken>) => void): void {
+    try {
+      this.store?.update(change);
+    } catch (error) {
+      this.disableStoreAfterError(error);
+    }
+  }
+
+  /**
+   * Read the token store, falling back to memory only if it can no longer be read
+   */
+  private readStore(): Record<string, OAuthToken> {
+    try {
+      return this.store?.read() ?? {};
+    } catch (error) {
+      this.disableStoreAfterError(error);
+      return {};
+    }
+  }
+
+  private disableStoreAfterError(error: unknown): void {
+    Logger.getChildLogger('TokenManager').warn(
+      `OAuth token cache disabled: ${error instanceof Error ? error.message : error}`,
+    );
+    this.store = null;
+  }
+
+  /**
+   * Load a token written to the token store by another process
+   *
+   * @returns The stored token if it expires later than the token in memory
+   */
+  private loadPersistedToken(key: string): OAuthToken | undefined {
+    const token = this.readStore()[key];
+    const current = this.tokens.get(key);
+    if (!token || (current && current.expiresAt >= token.expiresAt)) {
+      return undefined;
+    }
+    this.tokens.set(key, token);
+    return token;
   }
 
   /**
    * Get token expiration time for debugging purposes
    */
-  getTokenExpiration(hostname: string, clientId: string): Date | null {
-    const key = this.getTokenKey(hostname, clientId);
+  getTokenExpiration(hostname: string, clientId: string, scope?: string): Date | null {
+    const key = this.getTokenKey(hostname, clientId, scope);
     const token = this.tokens.get(key);
 
     if (!token) {
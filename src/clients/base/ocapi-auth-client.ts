@@ -7,8 +7,10 @@
 
 import { OCAPIConfig, OAuthTokenResponse } from '../../types/types.js';
 import { TokenManager } from './oauth-token.js';
-import { BaseHttpClient } from './http-client.js';
+import { BaseHttpClient, HttpRequestError } from './http-client.js';
+import { getOCAPIRemediation, OCAPIFaultError, parseOCAPIFault } from './ocapi-fault.js';
 import { buildOCAPIAuthUrl } from '../../utils/ocapi-url-builder.js';
+import { OCAPI_CLIENT_RESOURCES } from '../ocapi/resources.js';
 
 // OCAPI authentication constants
 const OCAPI_AUTH_CONSTANTS = {
@@ -26,7 +28,7 @@ export class OCAPIAuthClient extends BaseHttpClient {
   private tokenManager: TokenManager;
 
   constructor(config: OCAPIConfig) {
-    super('', 'OCAPIAuthClient'); // Initialize BaseHttpClient with logger
+    super('', 'OCAPIAuthClient', config.http); // Initialize BaseHttpClient with logger
     this.config = config;
     this.tokenManager = TokenManager.getInstance();
   }
@@ -49,6 +51,41 @@ export class OCAPIAuthClient extends BaseHttpClient {
     this.tokenManager.clearToken(this.config.hostname, this.config.clientId);
   }
 
+  /**
+   * Parse OCAPI fault documents into OCAPIFaultErrors with remediation hints
+   */
+  protected createResponseError(
+    response: Response,
+    body: string,
+    method: string,
+    url: string,
+    attempts: number,
+    authRetried: boolean,
+  ): HttpRequestError {
+    const error = super.createResponseError(response, body, method, url, attempts, authRetried);
+    const fault = parseOCAPIFault(body);
+    if (!fault) {
+      return error;
+    }
+
+    const remediation = getOCAPIRemediation(fault, {
+      method,
+      url,
+      status: response.status,
+      clientId: this.config.clientId,
+      version: this.config.version ?? 'v23_2',
+      resourcePaths: this.getResourcePaths(),
+    });
+    return new OCAPIFaultError(error, fault, remediation);
+  }
+
+  /**
+   * Get the path templates of the Data API resources called by this client
+   */
+  protected getResourcePaths(): string[] {
+    return OCAPI_CLIENT_RESOURCES.map((resource) => resource.path);
+  }
+
   /**
    * Get the appropriate auth URL based on the hostname
    * Uses localhost-based auth for mock servers, production auth otherwise
@@ -110,7 +147,7 @@ export class OCAPIAuthClient extends BaseHttpClient {
       return tokenResponse.access_token;
     } catch (error) {
       this.logger.error(`Failed to get access token: ${error}`);
-      throw new Error(`Failed to get access token: ${error}`);
+      throw new Error(`Failed to get access token: ${error}`, { cause: error });
     }
   }
 
@@ -0,0 +1,228 @@
+/**
+ * OCAPI Fault Handling
+ *
+ * OCAPI reports errors as a `fault` document with a type, a message and optional arguments:
+ *
+ *   { "_v": "23.2", "fault": { "type": "ClientAccessForbiddenException", "message": "..." } }
+ *
+ * This module parses that document into an OCAPIFaultError and maps common faults to
+ * remediation hints, including the Business Manager OCAPI settings needed to grant a client
+ * access to a resource.
+ */
+
+import { HttpRequestError } from './http-client.js';
+
+/**
+ * Fault document returned by OCAPI
+ */
+export interface OCAPIFault {
+  type: string;
+  message: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * Resource entry of the OCAPI settings
+ */
+export interface OCAPIResourceSettings {
+  resource_id: string;
+  methods: string[];
+  read_attributes: string;
+  write_attributes: string;
+}
+
+/**
+ * OCAPI Data API settings document (Administration > Site Development > Open Commerce API Settings)
+ */
+export interface OCAPISettings {
+  _v: string;
+  clients: Array<{
+    client_id: string;
+    resources: OCAPIResourceSettings[];
+  }>;
+}
+
+/**
+ * Suggested fix for an OCAPI fault
+ */
+export interface OCAPIRemediation {
+  /** What to change to resolve the fault */
+  hint: string;
+  /** OCAPI settings to add in Business Manager (for missing resource permissions) */
+  settings?: OCAPISettings;
+}
+
+/**
+ * Request that produced a fault
+ */
+export interface OCAPIFaultRequest {
+  method: string;
+  url: string;
+  status: number;
+  clientId: string;
+  /** OCAPI version of the client (e.g. v23_2) */
+  version: string;
+  /** Path templates of the known resources, used to derive the resource ID */
+  resourcePaths?: string[];
+}
+
+/** Where the OCAPI Data API settings are edited in Business Manager */
+const OCAPI_SETTINGS_LOCATION =
+  'Business Manager > Administration > Site Development > Open Commerce API Settings (type "Data", context "Global")';
+
+/**
+ * Error thrown for OCAPI responses that contain a fault document
+ */
+export class OCAPIFaultError extends HttpRequestError {
+  constructor(
+    error: HttpRequestError,
+    public readonly fault: OCAPIFault,
+    public readonly remediation?: OCAPIRemediation,
+  ) {
+    super(`${fault.type} (${error.status}): ${fault.message}`, error.kind, error.details);
+    this.name = 'OCAPIFaultError';
+  }
+
+  describe(): string {
+    if (!this.remediation) {
+      return super.describe();
+    }
+    const settings = this.remediation.settings ? `\n\n${JSON.stringify(this.remediation.settings, null, 2)}` : '';
+    return `${super.describe()}\n\n${this.remediation.hint}${settings}`;
+  }
+
+  getDetails(): Record<string, unknown> {
+    return { ...super.getDetails(), fault: this.fault, remediation: this.remediation };
+  }
+}
+
+/**
+ * Parse the fault document of an OCAPI error response
+ *
+ * @param body - Response body
+ * @returns The fault, or undefined if the body is not an OCAPI fault document
+ */
+export function parseOCAPIFault(body: string): OCAPIFault | undefined {
+  let document: any;
+  try {
+    document = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+
+  const fault = document?.fault;
+  if (typeof fault?.type !== 'string') {
+    return undefined;
+  }
+  return {
+    type: fault.type,
+    message: typeof fault.message === 'string' ? fault.message : '',
+    ...(fault.arguments && typeof fault.arguments === 'object' ? { arguments: fault.arguments } : {}),
+  };
+}
+
+/**
+ * Get the remediation hint for a fault
+ *
+ * @returns Remediation, or undefined if the fault has no known fix
+ */
+export function getOCAPIRemediation(fault: OCAPIFault, request: OCAPIFaultRequest): OCAPIRemediation | undefined {
+  const path = getOCAPIRequestPath(request.url);
+
+  switch (fault.type) {
+    case 'InvalidAccessTokenException':
+      return {
+        hint: 'The access token was rejected. Check that "client-id" and "client-secret" in dw.json belong to an ' +
+          'API client in Account Manager that is assigned to the organization of this instance. A new token is ' +
+          'requested on the next call.',
+      };
+    case 'ResourcePathNotFoundException':
+      return {
+        hint: `The resource ${path ?? request.url} does not exist in OCAPI ${request.version}. ` +
+          'Check the resource path and the API version.',
+      };
+    case 'ClientAccessForbiddenException':
+      break;
+    default:
+      // Other 403 faults are also caused by missing resource permissions
+      if (request.status !== 403) {
+        return undefined;
+      }
+  }
+
+  if (!path) {
+    return undefined;
+  }
+  const resourceId = toOCAPIResourceId(path, request.resourcePaths);
+  const method = request.method.toLowerCase();
+  return {
+    hint: `The API client "${request.clientId}" is not allowed to call ${request.method.toUpperCase()} ${resourceId}. ` +
+      `Add the following resource to the client in ${OCAPI_SETTINGS_LOCATION}:`,
+    settings: buildOCAPISettings(request.clientId, request.version, [{ resourceId, methods: [method] }]),
+  };
+}
+
+/**
+ * Build the OCAPI settings that grant a client access to resources
+ *
+ * @param clientId - API client ID
+ * @param version - OCAPI version (e.g. v23_2)
+ * @param resources - Resource IDs and the lowercase HTTP methods to allow
+ */
+export function buildOCAPISettings(
+  clientId: string,
+  version: string,
+  resources: Array<{ resourceId: string; methods: string[] }>,
+): OCAPISettings {
+  return {
+    _v: version.replace(/^v/, '').replace('_', '.'),
+    clients: [
+      {
+        client_id: clientId,
+        resources: resources.map(({ resourceId, methods }) => ({
+          resource_id: resourceId,
+          methods,
+          read_attributes: '(**)',
+          write_attributes: '(**)',
+        })),
+      },
+    ],
+  };
+}
+
+/**
+ * Get the Data API resource path of a request URL (without the /s/-/dw/data/{version} prefix and query)
+ */
+export function getOCAPIRequestPath(url: string): string | undefined {
+  const match = /\/dw\/data\/v\d+_\d+(\/[^?#]*)/.exec(url);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Convert a request path into the resource ID used in the OCAPI settings
+ *
+ * Path templates of known resources are matched first (path parameters become `*`). Unknown
+ * paths are assumed to alternate between collections and IDs, so every second segment is
+ * replaced by `*`.
+ *
+ * @param path - Request path (e.g. /sites/RefArch/orders/00001)
+ * @param resourcePaths - Path templates of the known resources (e.g. /sites/{site_id}/orders/{order_no})
+ */
+export function toOCAPIResourceId(path: string, resourcePaths: string[] = []): string {
+  const templates = [...resourcePaths].sort((a, b) => countParams(a) - countParams(b));
+  for (const template of templates) {
+    const pattern = template.replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{\w+\}/g, '[^/]+');
+    if (new RegExp(`^${pattern}$`).test(path)) {
+      return template.replace(/\{\w+\}/g, '*');
+    }
+  }
+
+  return path
+    .split('/')
+    .map((segment, index) => (index > 0 && index % 2 === 0 ? '*' : segment))
+    .join('/');
+}
+
+function countParams(template: string): number {
+  return (template.match(/\{\w+\}/g) ?? []).length;
+}
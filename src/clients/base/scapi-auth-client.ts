@@ -0,0 +1,113 @@
+/**
+ * SCAPI Authentication Client
+ *
+ * This module handles OAuth 2.0 authentication for SCAPI Admin API requests.
+ * Tokens are obtained from Account Manager with the client credentials grant and
+ * the tenant and API scopes required by the endpoint being called.
+ */
+
+import { SCAPIConfig, OAuthTokenResponse } from '../../types/types.js';
+import { TokenManager } from './oauth-token.js';
+import { BaseHttpClient } from './http-client.js';
+import { buildOCAPIAuthUrl } from '../../utils/ocapi-url-builder.js';
+import { buildSCAPIBaseUrl, buildSCAPIAdminScope } from '../../utils/scapi-url-builder.js';
+
+// SCAPI authentication constants
+const SCAPI_AUTH_CONSTANTS = {
+  GRANT_TYPE: 'client_credentials',
+  FORM_CONTENT_TYPE: 'application/x-www-form-urlencoded',
+} as const;
+
+/**
+ * SCAPI Authentication Client
+ * Handles Account Manager client credentials flow with scopes for SCAPI Admin API access
+ */
+export class SCAPIAuthClient extends BaseHttpClient {
+  private config: SCAPIConfig;
+  private scope: string;
+  private tokenManager: TokenManager;
+
+  constructor(config: SCAPIConfig, scopes: string[]) {
+    super(buildSCAPIBaseUrl(config), 'SCAPIAuthClient', config.http);
+    this.config = config;
+    this.scope = buildSCAPIAdminScope(config, scopes);
+    this.tokenManager = TokenManager.getInstance();
+  }
+
+  /**
+   * Get the scope string requested from Account Manager
+   */
+  getScope(): string {
+    return this.scope;
+  }
+
+  /**
+   * Get authentication headers for SCAPI requests
+   */
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    const accessToken = await this.getAccessToken();
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+    };
+  }
+
+  /**
+   * Handle authentication errors by clearing the stored token
+   */
+  protected async handleAuthError(): Promise<void> {
+    this.logger.debug('Clearing SCAPI token due to authentication error');
+    this.tokenManager.clearToken(this.config.hostname, this.config.clientId, this.scope);
+  }
+
+  /**
+   * Get a valid OAuth access token for the configured scope
+   */
+  private async getAccessToken(): Promise<string> {
+    const existingToken = this.tokenManager.getValidToken(this.config.hostname, this.config.clientId, this.scope);
+    if (existingToken) {
+      this.logger.debug('Using existing valid SCAPI token');
+      return existingToken;
+    }
+
+    this.logger.debug(`No valid SCAPI token found, requesting new token with scope: ${this.scope}`);
+    return this.requestNewToken();
+  }
+
+  /**
+   * Request a new scoped OAuth token from Account Manager
+   */
+  private async requestNewToken(): Promise<string> {
+    const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
+    const encodedCredentials = Buffer.from(credentials).toString('base64');
+    const authUrl = buildOCAPIAuthUrl(this.config);
+
+    try {
+      const response = await fetch(authUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${encodedCredentials}`,
+          'Content-Type': SCAPI_AUTH_CONSTANTS.FORM_CONTENT_TYPE,
+        },
+        body: new URLSearchParams({
+          grant_type: SCAPI_AUTH_CONSTANTS.GRANT_TYPE,
+          scope: this.scope,
+        }).toString(),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`OAuth authentication failed: ${response.status} ${response.statusText} - ${errorText}`);
+      }
+
+      const tokenResponse: OAuthTokenResponse = await response.json();
+      this.logger.debug('Successfully obtained new SCAPI access token');
+
+      this.tokenManager.storeToken(this.config.hostname, this.config.clientId, tokenResponse, this.scope);
+
+      return tokenResponse.access_token;
+    } catch (error) {
+      this.logger.error(`Failed to get SCAPI access token: ${error}`);
+      throw new Error(`Failed to get SCAPI access token: ${error}`);
+    }
+  }
+}
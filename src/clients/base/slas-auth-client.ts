@@ -0,0 +1,275 @@
+/**
+ * SLAS Authentication Client
+ *
+ * This module handles Shopper Login and API Access Service (SLAS) authentication for
+ * SCAPI Shopper API requests. Guest shoppers are authorized with the client credentials
+ * grant (private clients) or the guest PKCE flow (public clients); registered shoppers
+ * log in with their credentials and exchange the resulting authorization code with PKCE.
+ * Refresh tokens are used to renew expired access tokens without logging in again.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { SLASConfig, SLASTokenResponse, ShopperType } from '../../types/types.js';
+import { TokenManager } from './oauth-token.js';
+import { BaseHttpClient } from './http-client.js';
+import { buildSCAPIBaseUrl, buildSLASUrl } from '../../utils/scapi-url-builder.js';
+
+// SLAS authentication constants
+const SLAS_AUTH_CONSTANTS = {
+  CLIENT_CREDENTIALS_GRANT: 'client_credentials',
+  AUTHORIZATION_CODE_PKCE_GRANT: 'authorization_code_pkce',
+  REFRESH_TOKEN_GRANT: 'refresh_token',
+  FORM_CONTENT_TYPE: 'application/x-www-form-urlencoded',
+} as const;
+
+/** Redirect URI used when none is configured (the redirect is never followed) */
+export const SLAS_DEFAULT_REDIRECT_URI = 'http://localhost:3000/callback';
+
+/**
+ * Authorization code returned by the SLAS login or guest authorization redirect
+ */
+interface SLASAuthorizationCode {
+  code: string;
+  usid?: string;
+}
+
+/**
+ * SLAS Authentication Client
+ * Handles guest and registered shopper token flows for SCAPI Shopper API access
+ */
+export class SLASAuthClient extends BaseHttpClient {
+  private config: SLASConfig;
+  private shopperType: ShopperType;
+  private tokenScope: string;
+  private tokenManager: TokenManager;
+  private refreshToken?: string;
+  private customerId?: string;
+
+  constructor(config: SLASConfig, shopperType: ShopperType) {
+    super(buildSCAPIBaseUrl(config), 'SLASAuthClient', config.http);
+
+    if (shopperType === 'registered' && !(config.shopperLogin && config.shopperPassword)) {
+      throw new Error(
+        'Registered shopper requests require shopper credentials (set "shopper-login" and "shopper-password" in dw.json)',
+      );
+    }
+
+    this.config = config;
+    this.shopperType = shopperType;
+    this.tokenScope = `slas:${config.siteId}:${shopperType}`;
+    this.tokenManager = TokenManager.getInstance();
+  }
+
+  /**
+   * Get the type of shopper this client authenticates as
+   */
+  getShopperType(): ShopperType {
+    return this.shopperType;
+  }
+
+  /**
+   * Get the customer ID of the authenticated shopper (available after the first request)
+   */
+  getCustomerId(): string | undefined {
+    return this.customerId;
+  }
+
+  /**
+   * Get authentication headers for Shopper API requests
+   */
+  protected async getAuthHeaders(): Promise<Record<string, string>> {
+    const accessToken = await this.getAccessToken();
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+    };
+  }
+
+  /**
+   * Handle authentication errors by clearing the stored token
+   * The refresh token is kept so the next request can renew the session
+   */
+  protected async handleAuthError(): Promise<void> {
+    this.logger.debug('Clearing SLAS token due to authentication error');
+    this.tokenManager.clearToken(this.config.hostname, this.config.clientId, this.tokenScope);
+  }
+
+  /**
+   * Get a valid shopper access token, refreshing or logging in when needed
+   */
+  private async getAccessToken(): Promise<string> {
+    const existingToken = this.tokenManager.getValidToken(this.config.hostname, this.config.clientId, this.tokenScope);
+    if (existingToken) {
+      this.logger.debug(`Using existing valid SLAS ${this.shopperType} token`);
+      return existingToken;
+    }
+
+    if (this.refreshToken) {
+      try {
+        this.logger.debug(`Refreshing SLAS ${this.shopperType} token`);
+        return this.storeTokenResponse(await this.requestToken({
+          grant_type: SLAS_AUTH_CONSTANTS.REFRESH_TOKEN_GRANT,
+          refresh_token: this.refreshToken,
+        }));
+      } catch (error) {
+        this.logger.debug(`SLAS token refresh failed, logging in again: ${error}`);
+        this.refreshToken = undefined;
+      }
+    }
+
+    return this.login();
+  }
+
+  /**
+   * Obtain a new shopper token with the flow matching the shopper and client type
+   */
+  private async login(): Promise<string> {
+    try {
+      // Private clients can authorize guests directly with their client credentials
+      if (this.shopperType === 'guest' && this.config.clientSecret) {
+        this.logger.debug('Requesting SLAS guest token with client credentials');
+        return this.storeTokenResponse(await this.requestToken({
+          grant_type: SLAS_AUTH_CONSTANTS.CLIENT_CREDENTIALS_GRANT,
+        }));
+      }
+
+      const codeVerifier = randomBytes(64).toString('base64url');
+      const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+      this.logger.debug(`Requesting SLAS ${this.shopperType} authorization code with PKCE`);
+      const { code, usid } = this.shopperType === 'registered'
+        ? await this.loginShopper(codeChallenge)
+        : await this.authorizeGuest(codeChallenge);
+
+      const params: Record<string, string> = {
+        grant_type: SLAS_AUTH_CONSTANTS.AUTHORIZATION_CODE_PKCE_GRANT,
+        code,
+        code_verifier: codeVerifier,
+        redirect_uri: this.getRedirectUri(),
+      };
+      if (usid) {
+        params.usid = usid;
+      }
+
+      return this.storeTokenResponse(await this.requestToken(params));
+    } catch (error) {
+      this.logger.error(`Failed to get SLAS ${this.shopperType} shopper token: ${error}`);
+      throw new Error(`Failed to get SLAS ${this.shopperType} shopper token: ${error}`);
+    }
+  }
+
+  /**
+   * Log in a registered shopper and return the authorization code from the redirect
+   */
+  private async loginShopper(codeChallenge: string): Promise<SLASAuthorizationCode> {
+    const credentials = `${this.config.shopperLogin}:${this.config.shopperPassword}`;
+    const response = await fetch(buildSLASUrl(this.config, 'login'), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(credentials).toString('base64')}`,
+        'Content-Type': SLAS_AUTH_CONSTANTS.FORM_CONTENT_TYPE,
+      },
+      body: new URLSearchParams({
+        client_id: this.config.clientId,
+        channel_id: this.config.siteId,
+        code_challenge: codeChallenge,
+        redirect_uri: this.getRedirectUri(),
+      }).toString(),
+      redirect: 'manual',
+    });
+
+    return this.readAuthorizationCode(response, 'Shopper login');
+  }
+
+  /**
+   * Authorize a guest shopper (public clients) and return the authorization code from the redirect
+   */
+  private async authorizeGuest(codeChallenge: string): Promise<SLASAuthorizationCode> {
+    const query = new URLSearchParams({
+      client_id: this.config.clientId,
+      channel_id: this.config.siteId,
+      code_challenge: codeChallenge,
+      redirect_uri: this.getRedirectUri(),
+      response_type: 'code',
+      hint: 'guest',
+    });
+    const response = await fetch(`${buildSLASUrl(this.config, 'authorize')}?${query.toString()}`, {
+      method: 'GET',
+      redirect: 'manual',
+    });
+
+    return this.readAuthorizationCode(response, 'Guest authorization');
+  }
+
+  /**
+   * Read the authorization code and USID from the Location header of a SLAS redirect
+   */
+  private async readAuthorizationCode(response: Response, action: string): Promise<SLASAuthorizationCode> {
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      const errorText = await response.text();
+      throw new Error(`${action} failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    const redirectParams = new URL(location, this.getRedirectUri()).searchParams;
+    const code = redirectParams.get('code');
+    if (!code) {
+      throw new Error(`${action} redirect did not contain an authorization code`);
+    }
+
+    return { code, usid: redirectParams.get('usid') ?? undefined };
+  }
+
+  /**
+   * Call the SLAS token endpoint
+   * Private clients authenticate with their credentials, public clients send their client ID
+   */
+  private async requestToken(params: Record<string, string>): Promise<SLASTokenResponse> {
+    const headers: Record<string, string> = {
+      'Content-Type': SLAS_AUTH_CONSTANTS.FORM_CONTENT_TYPE,
+    };
+    if (this.config.clientSecret) {
+      const credentials = `${this.config.clientId}:${this.config.clientSecret}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(buildSLASUrl(this.config, 'token'), {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        ...params,
+        client_id: this.config.clientId,
+        channel_id: this.config.siteId,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`SLAS token request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Store a token response and remember the refresh token and customer ID
+   */
+  private storeTokenResponse(tokenResponse: SLASTokenResponse): string {
+    // Shopper sessions are not persisted: the refresh token and customer ID only live in this client
+    this.tokenManager.storeToken(
+      this.config.hostname,
+      this.config.clientId,
+      tokenResponse,
+      this.tokenScope,
+      { persist: false },
+    );
+    this.refreshToken = tokenResponse.refresh_token;
+    this.customerId = tokenResponse.customer_id;
+    this.logger.debug(`Successfully obtained SLAS ${this.shopperType} token`);
+
+    return tokenResponse.access_token;
+  }
+
+  private getRedirectUri(): string {
+    return this.config.redirectUri ?? SLAS_DEFAULT_REDIRECT_URI;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Encrypted OAuth Token Store
+ *
+ * This module persists OAuth access tokens to disk so they survive server restarts and can be
+ * shared by several server processes. Tokens are keyed by hostname, client ID and scope, encrypted
+ * with AES-256-GCM, and expired tokens are evicted whenever the store is read or written.
+ */
+
+import { randomBytes, createCipheriv, createDecipheriv, scryptSync } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, statSync, unlinkSync, writeFileSync, chmodSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import { OAuthToken } from '../../types/types.js';
+import { Logger } from '../../utils/logger.js';
+
+/** Default location of the token store */
+export const DEFAULT_TOKEN_STORE_PATH = join(homedir(), '.sfcc-dev-mcp', 'token-cache.json');
+
+/** Environment variable with a passphrase used instead of the generated key file */
+export const TOKEN_STORE_KEY_ENV = 'SFCC_TOKEN_CACHE_KEY';
+
+const STORE_FORMAT_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+const KEY_SALT = 'sfcc-dev-mcp-token-cache';
+
+/**
+ * Encrypted file contents
+ */
+interface EncryptedStore {
+  version: number;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Error raised when the store or its key file cannot be used safely
+ */
+export class TokenStoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenStoreError';
+  }
+}
+
+/**
+ * Options for the token store
+ */
+export interface TokenStoreOptions {
+  /** Passphrase for the encryption key (default: SFCC_TOKEN_CACHE_KEY, else a generated key file) */
+  passphrase?: string;
+}
+
+/**
+ * Encrypted on-disk store of OAuth tokens
+ */
+export class TokenStore {
+  private logger: Logger;
+  private key: Buffer;
+
+  /**
+   * @param filePath - Path of the store file (the generated key file is stored next to it with a `.key` suffix)
+   * @param options - Store options
+   * @throws TokenStoreError if the store or key file is accessible by other users
+   */
+  constructor(private readonly filePath: string = DEFAULT_TOKEN_STORE_PATH, options: TokenStoreOptions = {}) {
+    this.logger = Logger.getChildLogger('TokenStore');
+    this.assertPrivate(filePath);
+
+    const passphrase = options.passphrase ?? process.env[TOKEN_STORE_KEY_ENV];
+    this.key = passphrase ? scryptSync(passphrase, KEY_SALT, 32) : this.loadOrCreateKey(`${filePath}.key`);
+  }
+
+  /**
+   * Get the path of the store file
+   */
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Read the tokens that have not expired
+   * Unreadable stores (corrupted, or encrypted with another key) are treated as empty
+   */
+  read(): Record<string, OAuthToken> {
+    if (!existsSync(this.filePath)) {
+      return {};
+    }
+
+    try {
+      this.assertPrivate(this.filePath);
+      const store: EncryptedStore = JSON.parse(readFileSync(this.filePath, 'utf8'));
+      if (store.version !== STORE_FORMAT_VERSION) {
+        this.logger.debug(`Ignoring token store with unsupported version ${store.version}`);
+        return {};
+      }
+
+      const decipher = createDecipheriv(CIPHER, this.key, Buffer.from(store.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(store.tag, 'base64'));
+      const json = Buffer.concat([decipher.update(Buffer.from(store.data, 'base64')), decipher.final()]).toString('utf8');
+      return this.evictExpired(JSON.parse(json));
+    } catch (error) {
+      if (error instanceof TokenStoreError) {
+        throw error;
+      }
+      this.logger.warn(`Ignoring unreadable token store ${this.filePath}: ${error}`);
+      return {};
+    }
+  }
+
+  /**
+   * Apply a change to the stored tokens
+   * The current file is re-read first so tokens written by other processes are kept
+   *
+   * @param change - Function modifying the tokens in place
+   */
+  update(change: (tokens: Record<string, OAuthToken>) => void): void {
+    const tokens = this.read();
+    change(tokens);
+    this.write(this.evictExpired(tokens));
+  }
+
+  /**
+   * Delete the store file
+   */
+  clear(): void {
+    if (existsSync(this.filePath)) {
+      unlinkSync(this.filePath);
+    }
+  }
+
+  /**
+   * Encrypt and write the tokens atomically with owner-only permissions
+   */
+  private write(tokens: Record<string, OAuthToken>): void {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()]);
+    const store: EncryptedStore = {
+      version: STORE_FORMAT_VERSION,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+
+    this.ensureDirectory();
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(store), { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+  }
+
+  /**
+   * Remove tokens that have expired
+   */
+  private evictExpired(tokens: Record<string, OAuthToken>): Record<string, OAuthToken> {
+    const now = Date.now();
+    return Object.fromEntries(Object.entries(tokens).filter(([, token]) => token.expiresAt > now));
+  }
+
+  /**
+   * Load the encryption key, generating a key file on first use
+   */
+  private loadOrCreateKey(keyPath: string): Buffer {
+    if (existsSync(keyPath)) {
+      return this.readKey(keyPath);
+    }
+
+    this.ensureDirectory();
+    const key = randomBytes(32);
+    try {
+      // Fails if another process created the key file in the meantime; its key is used instead
+      writeFileSync(keyPath, key.toString('hex'), { mode: 0o600, flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return this.readKey(keyPath);
+      }
+      throw error;
+    }
+    chmodSync(keyPath, 0o600);
+    this.logger.debug(`Created token store key file ${keyPath}`);
+    return key;
+  }
+
+  /**
+   * Read an existing key file
+   *
+   * @throws TokenStoreError if the key file is accessible by other users or invalid
+   */
+  private readKey(keyPath: string): Buffer {
+    this.assertPrivate(keyPath);
+    const key = Buffer.from(readFileSync(keyPath, 'utf8').trim(), 'hex');
+    if (key.length !== 32) {
+      throw new TokenStoreError(`${keyPath} does not contain a valid key. Delete it and the token cache to start over.`);
+    }
+    return key;
+  }
+
+  private ensureDirectory(): void {
+    mkdirSync(dirname(this.filePath), { recursive: true, mode: 0o700 });
+  }
+
+  /**
+   * Ensure a file is only accessible by its owner
+   * File modes are not enforced on Windows
+   *
+   * @throws TokenStoreError if group or other users have any permission
+   */
+  private assertPrivate(path: string): void {
+    if (process.platform === 'win32' || !existsSync(path)) {
+      return;
+    }
+
+    const mode = statSync(path).mode & 0o777;
+    if (mode & 0o077) {
+      throw new TokenStoreError(
+        `${path} is accessible by other users (mode ${mode.toString(8).padStart(4, '0')}). Run "chmod 600 ${path}" to use the token cache.`,
+      );
+    }
+  }
+}
@@ -0,0 +1,425 @@
+/**
+ * Connection Checker
+ *
+ * This module verifies that the configured SFCC instance can be reached: hostname resolution,
+ * the WebDAV log directory, the OAuth token grant and one request per configured Data API family.
+ * Each check reports its latency and, when it fails, the most likely cause.
+ */
+
+import { lookup } from 'dns/promises';
+import { SCAPIConfig, SFCCConfig } from '../types/types.js';
+import { ConfigurationFactory } from '../config/configuration-factory.js';
+import { Logger } from '../utils/logger.js';
+import { buildOCAPIAuthUrl, buildOCAPIBaseUrl } from '../utils/ocapi-url-builder.js';
+import { buildSCAPIBaseUrl } from '../utils/scapi-url-builder.js';
+import { WebDAVClientManager } from './logs/webdav-client-manager.js';
+import { OCAPIAuthClient } from './base/ocapi-auth-client.js';
+import { OCAPIFaultError } from './base/ocapi-fault.js';
+import { HttpRequestError } from './base/http-client.js';
+import { OCAPICodeVersionsClient } from './ocapi/code-versions-client.js';
+import { DataAPIClient } from './data-api-client.js';
+
+/**
+ * Checks run in order; later checks are skipped when the checks they depend on fail
+ * - dns: the instance hostname resolves
+ * - webdav: the log directory can be listed
+ * - oauth: Account Manager grants a client credentials token
+ * - ocapi: an OCAPI Data API request (GET /code_versions) succeeds
+ * - scapi: a SCAPI Admin API request succeeds
+ * - shopper: a SLAS shopper token is granted and a Shopper API request succeeds
+ */
+export type ConnectionCheckName = 'dns' | 'webdav' | 'oauth' | 'ocapi' | 'scapi' | 'shopper';
+
+/**
+ * Outcome of a connection check
+ * - ok: the check succeeded
+ * - failed: the check failed (see reason)
+ * - skipped: the check is not configured or a check it depends on failed
+ */
+export type ConnectionCheckStatus = 'ok' | 'failed' | 'skipped';
+
+/**
+ * Result of a single connection check
+ */
+export interface ConnectionCheckResult {
+  name: ConnectionCheckName;
+  status: ConnectionCheckStatus;
+  /** Host or URL that was checked */
+  target?: string;
+  /** Duration of the check in milliseconds (missing for skipped checks) */
+  latencyMs?: number;
+  /** Why the check failed or was skipped */
+  reason?: string;
+  /** Additional information (resolved address, HTTP status, number of entries) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Connection report of an SFCC instance
+ */
+export interface ConnectionReport {
+  hostname: string;
+  instance?: string;
+  /** True if no check failed */
+  ok: boolean;
+  checks: ConnectionCheckResult[];
+}
+
+/** Error thrown by a check together with the details to report */
+class CheckFailure extends Error {
+  constructor(message: string, public readonly details?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+/** Readable causes of common network error codes */
+const NETWORK_ERROR_REASONS: Record<string, string> = {
+  ENOTFOUND: 'The hostname could not be resolved',
+  EAI_AGAIN: 'DNS lookup timed out - check the network connection',
+  ECONNREFUSED: 'The connection was refused - check the hostname and port',
+  ECONNRESET: 'The connection was reset by the server or a proxy',
+  ETIMEDOUT: 'The connection timed out - check the network connection, VPN or IP allowlist',
+  CERT_HAS_EXPIRED: 'The TLS certificate of the server has expired',
+  DEPTH_ZERO_SELF_SIGNED_CERT: 'The server uses a self-signed TLS certificate',
+  UNABLE_TO_VERIFY_LEAF_SIGNATURE: 'The TLS certificate of the server could not be verified',
+};
+
+/**
+ * Connection Checker
+ * Runs the connection checks for one SFCC instance configuration
+ */
+export class ConnectionChecker {
+  private logger: Logger;
+
+  constructor(private readonly config: SFCCConfig, logger?: Logger) {
+    this.logger = logger ?? Logger.getChildLogger('ConnectionChecker');
+  }
+
+  /**
+   * Run all connection checks
+   *
+   * @returns Report with one result per check, in the order they were run
+   */
+  async checkAll(): Promise<ConnectionReport> {
+    const hostname = this.config.hostname ?? '';
+    // Capabilities of this instance only (the default instance configuration lists all named instances)
+    const capabilities = ConfigurationFactory.getCapabilities({ ...this.config, instances: undefined });
+    const checks: ConnectionCheckResult[] = [];
+
+    const dns = await this.checkHostname();
+    checks.push(dns);
+    const unreachable = dns.status === 'failed' ? 'Hostname resolution failed' : undefined;
+
+    checks.push(capabilities.canAccessLogs
+      ? unreachable ? this.skip('webdav', unreachable) : await this.checkWebDAV()
+      : this.skip('webdav', 'No WebDAV credentials configured (username/password or client-id/client-secret)'));
+
+    let oauth: ConnectionCheckResult;
+    if (!capabilities.canAccessOCAPI) {
+      oauth = this.skip('oauth', 'No API client configured (client-id/client-secret)');
+    } else {
+      oauth = unreachable ? this.skip('oauth', unreachable) : await this.checkOAuth();
+    }
+    checks.push(oauth);
+
+    // The Data API checks use the same client credentials as the OAuth check
+    const noToken = oauth.status === 'failed' ? 'OAuth token grant failed' : unreachable;
+    checks.push(!capabilities.canAccessOCAPI
+      ? this.skip('ocapi', 'No API client configured (client-id/client-secret)')
+      : noToken ? this.skip('ocapi', noToken) : await this.checkOCAPI());
+    checks.push(!capabilities.canAccessSCAPI
+      ? this.skip('scapi', 'SCAPI Admin API not configured (short-code and organization-id)')
+      : noToken ? this.skip('scapi', noToken) : await this.checkSCAPI());
+    checks.push(!capabilities.canAccessShopperAPI
+      ? this.skip('shopper', 'Shopper API not configured (slas-client-id, short-code and organization-id)')
+      : await this.checkShopperAPI());
+
+    return {
+      hostname,
+      instance: this.config.instanceName,
+      ok: checks.every((check) => check.status !== 'failed'),
+      checks,
+    };
+  }
+
+  /**
+   * Resolve the instance hostname
+   */
+  async checkHostname(): Promise<ConnectionCheckResult> {
+    const host = this.getHost();
+    return this.runCheck('dns', host, async () => {
+      try {
+        const { address, family } = await lookup(host);
+        return { address, family: `IPv${family}` };
+      } catch (error) {
+        throw new CheckFailure(`${this.describeError(error)} (${host})`);
+      }
+    });
+  }
+
+  /**
+   * List the WebDAV log directory
+   */
+  async checkWebDAV(): Promise<ConnectionCheckResult> {
+    const manager = new WebDAVClientManager(this.logger);
+    manager.setupClient({
+      hostname: this.config.hostname!,
+      username: this.config.username,
+      password: this.config.password,
+      clientId: this.config.clientId,
+      clientSecret: this.config.clientSecret,
+    });
+
+    return this.runCheck('webdav', `${this.config.hostname}/on/demandware.servlet/webdav/Sites/Logs/`, async () => {
+      try {
+        return { entries: await manager.checkConnection() };
+      } catch (error) {
+        const status = (error as { status?: number }).status;
+        switch (status) {
+          case 401:
+            throw new CheckFailure(
+              this.config.username
+                ? 'WebDAV credentials were rejected (401) - check username and password (use a WebDAV access key for Account Manager users)'
+                : 'WebDAV credentials were rejected (401) - check client-id and client-secret',
+              { status },
+            );
+          case 403:
+            throw new CheckFailure(
+              'Access to the log directory is forbidden (403) - grant read access to /Logs in Business Manager ' +
+              '(Administration > Organization > WebDAV Client Permissions for API clients)',
+              { status },
+            );
+          case 404:
+            throw new CheckFailure('The WebDAV log directory was not found (404) - check the hostname', { status });
+          default:
+            throw new CheckFailure(this.describeError(error), status ? { status } : undefined);
+        }
+      }
+    });
+  }
+
+  /**
+   * Request a new client credentials token from Account Manager
+   */
+  async checkOAuth(): Promise<ConnectionCheckResult> {
+    const ocapiConfig = this.getOCAPIConfig();
+    const client = new OCAPIAuthClient(ocapiConfig);
+
+    return this.runCheck('oauth', buildOCAPIAuthUrl(ocapiConfig), async () => {
+      try {
+        await client.refreshToken();
+      } catch (error) {
+        const status = Number(/OAuth authentication failed: (\d{3})/.exec(String(error))?.[1]) || undefined;
+        if (status === 401) {
+          throw new CheckFailure('The API client credentials were rejected (401) - check client-id and client-secret', { status });
+        }
+        if (status === 400) {
+          throw new CheckFailure(
+            'The token request was rejected (400) - check that the API client allows the client credentials grant',
+            { status },
+          );
+        }
+        throw new CheckFailure(this.describeError(error), status ? { status } : undefined);
+      }
+      const expiresAt = client.getTokenExpiration();
+      return expiresAt ? { expiresAt: expiresAt.toISOString() } : undefined;
+    });
+  }
+
+  /**
+   * Call the OCAPI Data API code versions resource
+   */
+  async checkOCAPI(): Promise<ConnectionCheckResult> {
+    const ocapiConfig = this.getOCAPIConfig();
+    const client = new OCAPICodeVersionsClient(ocapiConfig);
+
+    return this.runCheck('ocapi', `GET ${buildOCAPIBaseUrl(ocapiConfig)}/code_versions`, async () => {
+      try {
+        const result = await client.getCodeVersions();
+        return { codeVersions: result?.count ?? result?.data?.length };
+      } catch (error) {
+        if (!(error instanceof HttpRequestError)) {
+          throw error;
+        }
+        const fault = error instanceof OCAPIFaultError ? error.fault.type : undefined;
+        const details = { status: error.status, fault };
+        if (error.status === 403) {
+          throw new CheckFailure(
+            'The API client is not allowed to call GET /code_versions (403) - add the resource in the OCAPI Data API ' +
+            'settings or run diagnose_ocapi_access for the settings of all tools',
+            details,
+          );
+        }
+        const reason = error.kind === 'network' || error.kind === 'timeout' ? this.describeError(error) : error.message;
+        throw new CheckFailure(reason, details);
+      }
+    });
+  }
+
+  /**
+   * Call the SCAPI Products Admin API with a token for the sfcc.products scope
+   */
+  async checkSCAPI(): Promise<ConnectionCheckResult> {
+    const scapiConfig: SCAPIConfig = {
+      ...this.getOCAPIConfig(),
+      shortCode: this.config.shortCode,
+      organizationId: this.config.organizationId,
+    };
+    const client = new DataAPIClient(scapiConfig);
+
+    return this.runCheck('scapi', buildSCAPIBaseUrl(scapiConfig), async () => {
+      const response = await client.executeEndpoint('scapi_search_products', { body: { limit: 1 } });
+      if (!response.success) {
+        const details = { status: response.status };
+        if (String(response.error).includes('Failed to get SCAPI access token')) {
+          throw new CheckFailure(
+            `The SCAPI token request failed - check organization-id and that the API client has the tenant and sfcc.products scopes: ${response.error}`,
+            details,
+          );
+        }
+        if (response.status === 401 || response.status === 403) {
+          throw new CheckFailure(
+            `The SCAPI request was rejected (${response.status}) - check that the API client has the sfcc.products scope`,
+            details,
+          );
+        }
+        throw new CheckFailure(response.error ?? `Request failed with status ${response.status}`, details);
+      }
+      return { status: response.status };
+    });
+  }
+
+  /**
+   * Search products with a SLAS guest token
+   */
+  async checkShopperAPI(): Promise<ConnectionCheckResult> {
+    const { siteId } = this.config;
+    if (!siteId) {
+      return this.skip('shopper', 'Shopper API requests require a site ID (set "site-id" in dw.json)');
+    }
+
+    const shopperConfig: SCAPIConfig = {
+      hostname: this.config.hostname ?? '',
+      clientId: '',
+      clientSecret: '',
+      siteId,
+      shortCode: this.config.shortCode,
+      organizationId: this.config.organizationId,
+      slasClientId: this.config.slasClientId,
+      slasClientSecret: this.config.slasClientSecret,
+      slasRedirectUri: this.config.slasRedirectUri,
+      http: this.config.http,
+    };
+    const client = new DataAPIClient(shopperConfig);
+
+    return this.runCheck('shopper', buildSCAPIBaseUrl(shopperConfig), async () => {
+      const response = await client.executeEndpoint('shopper_search_products', {
+        queryParams: { siteId, limit: 1 },
+        shopperType: 'guest',
+      });
+      if (!response.success) {
+        const details = { status: response.status };
+        if (response.status === 401 || response.status === 403) {
+          throw new CheckFailure(
+            `The Shopper API request was rejected (${response.status}) - check slas-client-id, slas-client-secret and ` +
+            `that site "${siteId}" is assigned to the SLAS client`,
+            details,
+          );
+        }
+        throw new CheckFailure(response.error ?? `Request failed with status ${response.status}`, details);
+      }
+      return { status: response.status };
+    });
+  }
+
+  /**
+   * Run a check and measure its latency
+   */
+  private async runCheck(
+    name: ConnectionCheckName,
+    target: string,
+    check: () => Promise<Record<string, unknown> | undefined>,
+  ): Promise<ConnectionCheckResult> {
+    const startTime = Date.now();
+    try {
+      const details = await check();
+      return { name, status: 'ok', target, latencyMs: Date.now() - startTime, ...(details ? { details } : {}) };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      this.logger.debug(`Connection check ${name} failed: ${error}`);
+      if (error instanceof CheckFailure) {
+        return { name, status: 'failed', target, latencyMs, reason: error.message, ...(error.details ? { details: error.details } : {}) };
+      }
+      return { name, status: 'failed', target, latencyMs, reason: this.describeError(error) };
+    }
+  }
+
+  /**
+   * Create the result of a check that was not run
+   */
+  private skip(name: ConnectionCheckName, reason: string): ConnectionCheckResult {
+    return { name, status: 'skipped', reason };
+  }
+
+  /**
+   * Get the host name without port
+   */
+  private getHost(): string {
+    const hostname = this.config.hostname ?? '';
+    return hostname.replace(/^https?:\/\//, '').split('/')[0].replace(/:\d+$/, '');
+  }
+
+  /**
+   * Get the API client settings of the instance
+   */
+  private getOCAPIConfig(): SCAPIConfig {
+    return {
+      hostname: this.config.hostname!,
+      clientId: this.config.clientId!,
+      clientSecret: this.config.clientSecret!,
+      version: 'v23_2',
+      siteId: this.config.siteId,
+      http: this.config.http,
+    };
+  }
+
+  /**
+   * Describe an error by its network error code where available
+   */
+  private describeError(error: unknown): string {
+    const code = this.findErrorCode(error);
+    const message = error instanceof Error ? error.message : String(error);
+    return code && NETWORK_ERROR_REASONS[code] ? `${NETWORK_ERROR_REASONS[code]} (${code})` : message;
+  }
+
+  /**
+   * Find a Node.js error code on the error or its causes (fetch wraps network errors)
+   */
+  private findErrorCode(error: unknown): string | undefined {
+    for (let current = error as any, depth = 0; current && depth < 5; current = current.cause, depth++) {
+      if (typeof current.code === 'string') {
+        return current.code;
+      }
+    }
+    const match = /\b(E[A-Z_]{3,}|CERT_[A-Z_]+)\b/.exec(String(error));
+    return match?.[1];
+  }
+}
+
+/**
+ * Format a connection report as plain text (used by the --check CLI mode)
+ */
+export function formatConnectionReport(report: ConnectionReport): string {
+  const symbols: Record<ConnectionCheckStatus, string> = { ok: '✓', failed: '✗', skipped: '-' };
+  const lines = [`Connection check for ${report.instance ? `${report.instance} (${report.hostname})` : report.hostname}`];
+  for (const check of report.checks) {
+    const latency = check.latencyMs !== undefined ? ` ${check.latencyMs}ms` : '';
+    const target = check.target ? ` ${check.target}` : '';
+    lines.push(`  ${symbols[check.status]} ${check.name.padEnd(7)} ${check.status}${latency}${target}`);
+    if (check.reason) {
+      lines.push(`      ${check.reason}`);
+    }
+  }
+  lines.push(report.ok ? 'All checks passed' : 'Some checks failed');
+  return lines.join('\n');
+}
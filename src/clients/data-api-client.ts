@@ -2,13 +2,17 @@
  * Data API Client for OCAPI and SCAPI
  *
  * This module provides a unified client for making requests to SFCC Data APIs.
- * It supports both OCAPI (Open Commerce API) and SCAPI (Shopper Commerce API).
+ * It supports both OCAPI (Open Commerce API) and SCAPI (Salesforce Commerce API) endpoints.
  */
 
-import { OCAPIConfig, Endpoint, DataAPIRequestParams, DataAPIResponse } from '../types/types.js';
+import { SCAPIConfig, Endpoint, DataAPIRequestParams, DataAPIResponse, ShopperType } from '../types/types.js';
 import { OCAPIAuthClient } from './base/ocapi-auth-client.js';
+import { HttpRequestError } from './base/http-client.js';
+import { SCAPIAuthClient } from './base/scapi-auth-client.js';
+import { SLASAuthClient } from './base/slas-auth-client.js';
 import { buildOCAPIBaseUrl } from '../utils/ocapi-url-builder.js';
 import { EndpointLoader } from '../utils/endpoint-loader.js';
+import { fetchAllPages, getPageParamNames, DEFAULT_PAGE_SIZE, PaginationOptions } from '../utils/pagination.js';
 import { Logger } from '../utils/logger.js';
 
 /**
@@ -19,11 +23,15 @@ export class DataAPIClient extends OCAPIAuthClient {
   private endpointLoader: EndpointLoader;
   private clientLogger: Logger;
   private siteId?: string;
+  private scapiConfig: SCAPIConfig;
+  private scapiClients: Map<string, SCAPIAuthClient> = new Map();
+  private slasClients: Map<string, SLASAuthClient> = new Map();
 
-  constructor(config: OCAPIConfig) {
+  constructor(config: SCAPIConfig) {
     super(config);
     this.baseUrl = buildOCAPIBaseUrl(config);
     this.siteId = config.siteId;
+    this.scapiConfig = config;
     this.endpointLoader = EndpointLoader.getInstance();
     this.clientLogger = Logger.getChildLogger('DataAPIClient');
   }
@@ -47,6 +55,10 @@ export class DataAPIClient extends OCAPIAuthClient {
     }
 
     try {
+      if (endpoint.apiType === 'scapi') {
+        return await this.executeSCAPIEndpoint(endpoint, params);
+      }
+
       const url = this.buildUrl(endpoint, params);
       this.clientLogger.debug(`Executing ${endpoint.method} request to: ${url}`);
 
@@ -81,11 +93,174 @@ export class DataAPIClient extends OCAPIAuthClient {
       this.clientLogger.error(`Error executing endpoint ${toolName}: ${error}`);
       return {
         data: null,
-        status: 500,
+        status: error instanceof HttpRequestError ? error.status ?? 500 : 500,
         success: false,
         error: error instanceof Error ? error.message : String(error),
+        errorKind: error instanceof HttpRequestError ? error.kind : undefined,
+        cause: error instanceof Error ? error : undefined,
+      };
+    }
+  }
+
+  /**
+   * Execute a paginated endpoint and merge all pages into one result
+   * Paging parameters (start/count or offset/limit) are sent in the body of POST searches
+   * and in the query string of GET lists
+   */
+  async executePaginatedEndpoint(
+    toolName: string,
+    params: DataAPIRequestParams,
+    options: PaginationOptions,
+  ): Promise<DataAPIResponse> {
+    const endpoint = this.endpointLoader.getEndpoint(toolName);
+    const pageParams = endpoint ? getPageParamNames(endpoint) : undefined;
+
+    if (!endpoint || !pageParams) {
+      return {
+        data: null,
+        status: 400,
+        success: false,
+        error: `Endpoint does not support pagination: ${toolName}`,
       };
     }
+
+    const inBody = endpoint.method !== 'GET';
+    // Explicit start and page size from the caller (default bodies only carry the single-page size)
+    const source: Record<string, any> = (inBody ? params.body : params.queryParams) ?? {};
+    let failedPage: DataAPIResponse | undefined;
+    const fetchPage = async (page: { start: number; count: number }): Promise<any> => {
+      const paging = { [pageParams.start]: page.start, [pageParams.count]: page.count };
+      const response = await this.executeEndpoint(toolName, inBody
+        ? { ...params, body: { ...params.body, ...paging } }
+        : { ...params, queryParams: { ...params.queryParams, ...paging } });
+
+      if (!response.success) {
+        failedPage = response;
+        throw new Error(response.error ?? `Failed to fetch page at ${pageParams.start}=${page.start}`);
+      }
+      return response.data;
+    };
+
+    try {
+      const data = await fetchAllPages(
+        fetchPage,
+        {
+          start: Number(source[pageParams.start] ?? 0),
+          count: Number(source[pageParams.count] ?? DEFAULT_PAGE_SIZE),
+        },
+        options,
+        pageParams,
+      );
+
+      return {
+        data,
+        status: 200,
+        success: true,
+      };
+    } catch (error) {
+      this.clientLogger.error(`Error paginating endpoint ${toolName}: ${error}`);
+      return {
+        data: null,
+        status: failedPage?.status ?? 500,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        errorKind: failedPage?.errorKind,
+        cause: failedPage?.cause,
+      };
+    }
+  }
+
+  /**
+   * Execute a SCAPI endpoint
+   * Admin APIs use a token scoped to the endpoint, Shopper APIs use a SLAS shopper token
+   */
+  private async executeSCAPIEndpoint(
+    endpoint: Endpoint,
+    params: DataAPIRequestParams,
+  ): Promise<DataAPIResponse> {
+    // Site-specific endpoints default to the configured site
+    const queryParams = { ...params.queryParams };
+    if (endpoint.requiresSiteId && queryParams.siteId === undefined && this.siteId) {
+      queryParams.siteId = this.siteId;
+    }
+
+    const client = endpoint.apiFamily === 'shopper'
+      ? this.getSLASClient(String(queryParams.siteId ?? ''), params.shopperType ?? 'guest')
+      : this.getSCAPIClient(endpoint.scopes ?? []);
+    const url = this.buildUrl(endpoint, {
+      ...params,
+      pathParams: { organizationId: this.scapiConfig.organizationId ?? '', ...params.pathParams },
+      queryParams,
+    });
+    this.clientLogger.debug(`Executing SCAPI ${endpoint.method} request to: ${url}`);
+
+    let body: Record<string, any> | Record<string, any>[] | undefined;
+    if (['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
+      const requestBody = this.buildRequestBody(endpoint, params);
+      body = endpoint.arrayBody ? [requestBody] : requestBody;
+    }
+    const result = await client.request(endpoint.method, url, body);
+
+    return {
+      data: result,
+      status: 200,
+      success: true,
+    };
+  }
+
+  /**
+   * Include the OCAPI endpoints of the registry when deriving resource IDs for fault remediation
+   */
+  protected getResourcePaths(): string[] {
+    const endpointPaths = this.endpointLoader.getEndpoints()
+      .filter((endpoint) => endpoint.apiType === 'ocapi')
+      .map((endpoint) => endpoint.path);
+    return [...super.getResourcePaths(), ...endpointPaths];
+  }
+
+  /**
+   * Get the SCAPI client for a set of scopes (one token per scope combination)
+   */
+  private getSCAPIClient(scopes: string[]): SCAPIAuthClient {
+    const key = [...scopes].sort().join(' ');
+    let client = this.scapiClients.get(key);
+    if (!client) {
+      client = new SCAPIAuthClient(this.scapiConfig, scopes);
+      this.scapiClients.set(key, client);
+    }
+    return client;
+  }
+
+  /**
+   * Get the SLAS client for a site and shopper type (one shopper session per combination)
+   */
+  private getSLASClient(siteId: string, shopperType: ShopperType): SLASAuthClient {
+    const { slasClientId, organizationId } = this.scapiConfig;
+    if (!slasClientId || !organizationId) {
+      throw new Error('Shopper API requests require a SLAS client (set "slas-client-id" and "organization-id" in dw.json)');
+    }
+    if (!siteId) {
+      throw new Error('Shopper API requests require a site ID (pass siteId or set "site-id" in dw.json)');
+    }
+
+    const key = `${siteId}:${shopperType}`;
+    let client = this.slasClients.get(key);
+    if (!client) {
+      client = new SLASAuthClient({
+        hostname: this.scapiConfig.hostname,
+        shortCode: this.scapiConfig.shortCode,
+        organizationId,
+        clientId: slasClientId,
+        clientSecret: this.scapiConfig.slasClientSecret,
+        redirectUri: this.scapiConfig.slasRedirectUri,
+        siteId,
+        shopperLogin: this.scapiConfig.shopperLogin,
+        shopperPassword: this.scapiConfig.shopperPassword,
+        http: this.scapiConfig.http,
+      }, shopperType);
+      this.slasClients.set(key, client);
+    }
+    return client;
   }
 
   /**
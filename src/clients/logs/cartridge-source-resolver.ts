@@ -0,0 +1,130 @@
+/**
+ * Resolution of stack frames to the local cartridge sources
+ *
+ * Cartridges are found by name below the cartridges root: any directory containing a "cartridge"
+ * directory, e.g. "<root>/int_foo" or "<root>/cartridges/int_foo", is taken for the cartridge of
+ * the same name.
+ */
+
+import * as fs from 'fs/promises';
+import { basename, join, resolve, sep } from 'path';
+import { Logger } from '../../utils/logger.js';
+import { LOG_CONSTANTS } from './log-constants.js';
+import type { LogFrameSource, LogStackFrame } from './log-types.js';
+
+export class CartridgeSourceResolver {
+  private readonly root: string;
+  private logger: Logger;
+  private cartridges?: Promise<Map<string, string>>;
+
+  constructor(root: string, logger: Logger) {
+    this.root = resolve(root);
+    this.logger = logger;
+  }
+
+  /**
+   * Attach the local source to the frames that name a script of a cartridge found below the root
+   *
+   * @param contextLines - Number of source lines shown before and after the frame line
+   * @returns The names of the cartridges that were not found
+   */
+  async resolveFrames(frames: LogStackFrame[], contextLines: number): Promise<string[]> {
+    const cartridges = await this.getCartridges();
+    const missing = new Set<string>();
+
+    for (const frame of frames) {
+      if (!frame.cartridge || !frame.path || frame.line === undefined) {
+        continue;
+      }
+      const directory = cartridges.get(frame.cartridge);
+      if (!directory) {
+        missing.add(frame.cartridge);
+        continue;
+      }
+      frame.source = await this.readSource(directory, frame.path, frame.line, contextLines);
+    }
+
+    return [...missing];
+  }
+
+  /**
+   * Find the cartridge directories below the root, once per resolver
+   */
+  private getCartridges(): Promise<Map<string, string>> {
+    this.cartridges ??= this.findCartridges(this.root, 0, new Map());
+    return this.cartridges;
+  }
+
+  /**
+   * Search a directory for cartridges, without descending into the cartridges found
+   */
+  private async findCartridges(
+    directory: string,
+    depth: number,
+    found: Map<string, string>,
+  ): Promise<Map<string, string>> {
+    let entries;
+    try {
+      entries = await fs.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      this.logger.warn(`Cannot read cartridges directory ${directory}: ${(error as Error).message}`);
+      return found;
+    }
+
+    if (entries.some(entry => entry.isDirectory() && entry.name === 'cartridge')) {
+      const name = basename(directory);
+      if (!found.has(name)) {
+        found.set(name, directory);
+      }
+      return found;
+    }
+
+    if (depth < LOG_CONSTANTS.MAX_CARTRIDGE_SEARCH_DEPTH) {
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          await this.findCartridges(join(directory, entry.name), depth + 1, found);
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Read the lines around a line of a file of a cartridge
+   *
+   * @returns The source, or undefined if the file does not exist, is outside the cartridge
+   * or is shorter than the line
+   */
+  private async readSource(
+    cartridgeDirectory: string,
+    path: string,
+    line: number,
+    contextLines: number,
+  ): Promise<LogFrameSource | undefined> {
+    const file = resolve(cartridgeDirectory, path);
+    if (!file.startsWith(cartridgeDirectory + sep)) {
+      return undefined;
+    }
+
+    let lines: string[];
+    try {
+      lines = (await fs.readFile(file, 'utf-8')).split(/\r?\n/);
+    } catch {
+      this.logger.debug(`Source of stack frame not found: ${file}`);
+      return undefined;
+    }
+    if (line < 1 || line > lines.length) {
+      return undefined;
+    }
+
+    const first = Math.max(1, line - contextLines);
+    const last = Math.min(lines.length, line + contextLines);
+    const width = String(last).length;
+    const snippet = lines.slice(first - 1, last).map((text, index) => {
+      const number = first + index;
+      return `${number === line ? '>' : ' '} ${String(number).padStart(width)} | ${text}`;
+    });
+
+    return { file, line, snippet: snippet.join('\n') };
+  }
+}
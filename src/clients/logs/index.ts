@@ -12,6 +12,11 @@ export { LogFileDiscovery } from './log-file-discovery.js';
 export { LogProcessor } from './log-processor.js';
 export { LogAnalyzer } from './log-analyzer.js';
 export { LogFormatter } from './log-formatter.js';
+export { LogTailCursorStore } from './log-tail-cursors.js';
+export { LogQuery, LOG_QUERY_FIELDS } from './log-query.js';
+export { LogCategoryParser } from './log-category-parsers.js';
+export { LogFingerprint } from './log-fingerprint.js';
+export { CartridgeSourceResolver } from './cartridge-source-resolver.js';
 
 // Constants and types
 export { LOG_CONSTANTS, LOG_FILE_PATTERNS, LOG_MESSAGES, JOB_LOG_CONSTANTS } from './log-constants.js';
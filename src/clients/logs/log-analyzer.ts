@@ -5,7 +5,20 @@
 import { Logger } from '../../utils/logger.js';
 import { LogProcessor } from './log-processor.js';
 import { LogFormatter } from './log-formatter.js';
-import type { LogSummary, LogFileMetadata, ProcessedLogEntry } from './log-types.js';
+import { LogFingerprint } from './log-fingerprint.js';
+import { LOG_CONSTANTS } from './log-constants.js';
+import { extractTimestampFromLogEntry } from '../../utils/utils.js';
+import type {
+  LogSummary,
+  LogFileMetadata,
+  ProcessedLogEntry,
+  QuotaViolation,
+  QuotaViolationSummary,
+  ApiDeprecationUsage,
+  ApiDeprecationSummary,
+  LogErrorCluster,
+  ParsedLogEntry,
+} from './log-types.js';
 
 export class LogAnalyzer {
   private logger: Logger;
@@ -60,8 +73,15 @@ export class LogAnalyzer {
       }
     }
 
-    // Remove duplicate key issues
-    summary.keyIssues = [...new Set(summary.keyIssues)];
+    // Remove duplicate key issues, including those that only differ in IDs, numbers or quoted values
+    const issues = new Map<string, string>();
+    for (const issue of summary.keyIssues) {
+      const key = LogFingerprint.normalize(issue);
+      if (!issues.has(key)) {
+        issues.set(key, issue);
+      }
+    }
+    summary.keyIssues = [...issues.values()];
 
     return summary;
   }
@@ -229,6 +249,115 @@ export class LogAnalyzer {
     return recommendations;
   }
 
+  /**
+   * Aggregate quota violations by quota
+   * Quotas whose limit was exceeded come first, then the most frequently exceeded
+   */
+  summarizeQuotaViolations(violations: QuotaViolation[]): QuotaViolationSummary[] {
+    const byQuota = new Map<string, QuotaViolationSummary>();
+
+    for (const violation of violations) {
+      let summary = byQuota.get(violation.quota);
+      if (!summary) {
+        summary = {
+          quota: violation.quota,
+          enforcement: violation.enforcement,
+          limit: violation.limit,
+          limitExceeded: false,
+          entries: 0,
+          exceededCount: 0,
+          maxActual: 0,
+          locations: [],
+        };
+        byQuota.set(violation.quota, summary);
+      }
+
+      summary.limitExceeded ||= violation.exceeded === 'limit';
+      summary.entries++;
+      summary.exceededCount += violation.count;
+      summary.maxActual = Math.max(summary.maxActual, violation.maxActual);
+      summary.lastSeen = this.latest(summary.lastSeen, violation.timestamp);
+      this.addLocation(summary.locations, violation.location);
+    }
+
+    return [...byQuota.values()].sort((a, b) =>
+      Number(b.limitExceeded) - Number(a.limitExceeded) || b.exceededCount - a.exceededCount,
+    );
+  }
+
+  /**
+   * Aggregate deprecated API usages by API, most used first
+   */
+  summarizeApiDeprecations(usages: ApiDeprecationUsage[]): ApiDeprecationSummary[] {
+    const byApi = new Map<string, ApiDeprecationSummary>();
+
+    for (const usage of usages) {
+      let summary = byApi.get(usage.api);
+      if (!summary) {
+        summary = { api: usage.api, count: 0, locations: [] };
+        byApi.set(usage.api, summary);
+      }
+
+      summary.count++;
+      summary.lastSeen = this.latest(summary.lastSeen, usage.timestamp);
+      this.addLocation(summary.locations, usage.location);
+    }
+
+    return [...byApi.values()].sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Group entries by fingerprint, largest clusters first
+   */
+  clusterEntries(entries: ParsedLogEntry[]): LogErrorCluster[] {
+    const clusters = new Map<string, LogErrorCluster>();
+
+    for (const entry of entries) {
+      const fingerprint = LogFingerprint.fingerprint(entry);
+      let cluster = clusters.get(fingerprint);
+      if (!cluster) {
+        cluster = {
+          fingerprint,
+          signature: LogFingerprint.signature(entry),
+          level: entry.level ?? 'UNKNOWN',
+          category: entry.category,
+          script: entry.script,
+          count: 0,
+          files: [],
+          examples: [],
+        };
+        clusters.set(fingerprint, cluster);
+      }
+
+      const timestamp = extractTimestampFromLogEntry(entry.text)?.toISOString();
+      cluster.count++;
+      cluster.lastSeen = this.latest(cluster.lastSeen, timestamp);
+      if (timestamp && (!cluster.firstSeen || timestamp < cluster.firstSeen)) {
+        cluster.firstSeen = timestamp;
+      }
+      if (!cluster.files.includes(entry.file)) {
+        cluster.files.push(entry.file);
+      }
+      if (cluster.examples.length < LOG_CONSTANTS.MAX_CLUSTER_EXAMPLES) {
+        cluster.examples.push(entry.text);
+      }
+    }
+
+    return [...clusters.values()].sort((a, b) =>
+      b.count - a.count || (b.lastSeen ?? '').localeCompare(a.lastSeen ?? ''),
+    );
+  }
+
+  private latest(current: string | undefined, timestamp: string | undefined): string | undefined {
+    return timestamp && (!current || timestamp > current) ? timestamp : current;
+  }
+
+  private addLocation(locations: string[], location: string | undefined): void {
+    if (location && !locations.includes(location) && locations.length < LOG_CONSTANTS.MAX_CATEGORY_LOCATIONS) {
+      locations.push(location);
+    }
+  }
+
   /**
    * Extract error pattern for categorization
    */
@@ -244,7 +373,7 @@ export class LogAnalyzer {
     for (const pattern of patterns) {
       const match = errorContent.match(pattern);
       if (match) {
-        return match[1].trim();
+        return LogFingerprint.normalize(match[1]);
       }
     }
 
@@ -0,0 +1,182 @@
+/**
+ * Parsers for the entries of the quota, API deprecation, service, security and SQL log families
+ *
+ * The entries are split with LogProcessor.parseStructuredEntries; these parsers read the
+ * category-specific message of each entry.
+ */
+
+import { extractTimestampFromLogEntry } from '../../utils/utils.js';
+import type {
+  ApiDeprecationUsage,
+  ParsedLogEntry,
+  QuotaViolation,
+  SecurityLogEntry,
+  ServiceLogEntry,
+  SqlLogEntry,
+} from './log-types.js';
+
+/**
+ * Quota message, e.g. "Quota api.dw.util.Collection@SF (enforced, limit 20000): limit exceeded 1 time(s),
+ * max actual was 25000, current location: request/site Sites-RefArch-Site/top pipeline Search-Show"
+ */
+const QUOTA_MESSAGE = new RegExp(
+  '\\bQuota (\\S+) \\(([^,)]+), limit (\\d+)\\): (limit|warn threshold) exceeded (\\d+) time\\(s\\), ' +
+  'max actual was (\\d+)(?:, current location: ([^\\n]+))?',
+);
+
+/** Qualified script API name, e.g. "dw.catalog.Product.getAvailabilityModel(ProductInventoryList)" */
+const SCRIPT_API = /\b(dw\.[\w$]+(?:\.[\w$]+)+(?:\([^)]*\))?)/;
+
+/** Fallback for deprecation messages that do not name a dw.* API, e.g. "Deprecated method: 'importPackage'" */
+const DEPRECATED_NAME = /\bdeprecated (?:API|method|function|property)[:\s]+['"]?([^'"\s,]+)/i;
+
+/** Script path with an optional line number, e.g. "app_storefront/cartridge/scripts/cart.js:42" */
+const SCRIPT_LOCATION = /([\w$@~.-]*\/[\w$@~./-]*\.(?:js|ds|isml)(?::\d+)?)/;
+
+/** Logger category and message after the entry header: "[timestamp GMT] LEVEL thread category [] message" */
+const CATEGORY_MESSAGE = /^\[[^\]]+\] [A-Z]+ \S+ (\S+) \[[^\]]*\] ?(.*)$/;
+
+/** Service framework logger category: "service.<service ID>" with an optional HEAD or COMM suffix */
+const SERVICE_CATEGORY = /^service\.(.+?)(?:\.(HEAD|COMM))?$/;
+
+/** User named by a security message, e.g. "for user 'jdoe'", "customer \"jdoe\"" or "login: jdoe" */
+const SECURITY_USER = /\b(?:user(?:name)?|login|customer)(?:\s*[:=]\s*['"]?([^'"\s,;]+)|\s+['"]([^'"]+)['"])/i;
+
+/** IPv4 address, e.g. "from 192.168.0.1" */
+const IP_ADDRESS = /\b((?:\d{1,3}\.){3}\d{1,3})\b/;
+
+/** Execution time of a SQL entry, e.g. "took 1234 ms" or "duration: 2.5s" */
+const SQL_DURATION = /\b(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|sec|seconds?)\b/i;
+
+/** SQL statement, from its (upper-case) leading keyword to the end of the entry */
+const SQL_STATEMENT = /\b(?:SELECT|INSERT INTO|UPDATE|DELETE FROM|MERGE INTO|WITH)\s[\s\S]*/;
+
+export class LogCategoryParser {
+  /**
+   * Parse a quota log entry
+   *
+   * @returns The violation, or undefined when the entry is not a quota message
+   */
+  static parseQuotaViolation(entry: ParsedLogEntry): QuotaViolation | undefined {
+    const match = QUOTA_MESSAGE.exec(entry.text);
+    if (!match) {
+      return undefined;
+    }
+
+    return {
+      quota: match[1],
+      enforcement: match[2].trim(),
+      limit: Number(match[3]),
+      exceeded: match[4] as QuotaViolation['exceeded'],
+      count: Number(match[5]),
+      maxActual: Number(match[6]),
+      location: match[7]?.trim(),
+      timestamp: this.getTimestamp(entry),
+      file: entry.file,
+    };
+  }
+
+  /**
+   * Parse an API deprecation log entry
+   *
+   * @returns The usage, or undefined when the entry does not name a deprecated API
+   */
+  static parseApiDeprecation(entry: ParsedLogEntry): ApiDeprecationUsage | undefined {
+    const api = SCRIPT_API.exec(entry.text)?.[1] ?? DEPRECATED_NAME.exec(entry.text)?.[1];
+    if (!api) {
+      return undefined;
+    }
+
+    return {
+      api,
+      location: SCRIPT_LOCATION.exec(entry.text.replace(api, ''))?.[1],
+      timestamp: this.getTimestamp(entry),
+      file: entry.file,
+    };
+  }
+
+  /**
+   * Parse a service log entry
+   * Entries written by other loggers keep their logger category as service name
+   *
+   * @returns The entry, or undefined for lines without an entry header
+   */
+  static parseServiceEntry(entry: ParsedLogEntry): ServiceLogEntry | undefined {
+    const parsed = this.parseCategoryEntry(entry);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const { category, ...fields } = parsed;
+    const service = SERVICE_CATEGORY.exec(category);
+    return { service: service?.[1] ?? category, type: service?.[2], ...fields };
+  }
+
+  /**
+   * Parse a security log entry, reading the user and IP address named by the message
+   *
+   * @returns The entry, or undefined for lines without an entry header
+   */
+  static parseSecurityEntry(entry: ParsedLogEntry): SecurityLogEntry | undefined {
+    const parsed = this.parseCategoryEntry(entry);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const user = SECURITY_USER.exec(parsed.message);
+    return {
+      ...parsed,
+      user: user?.[1] ?? user?.[2],
+      ipAddress: IP_ADDRESS.exec(parsed.message)?.[1],
+    };
+  }
+
+  /**
+   * Parse a SQL log entry, reading the execution time and statement named by the message
+   *
+   * @returns The entry, or undefined for lines without an entry header
+   */
+  static parseSqlEntry(entry: ParsedLogEntry): SqlLogEntry | undefined {
+    const parsed = this.parseCategoryEntry(entry);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const duration = SQL_DURATION.exec(parsed.message);
+    const durationMs = duration && (duration[2].toLowerCase().startsWith('m') ? 1 : 1000) * Number(duration[1]);
+    return {
+      ...parsed,
+      durationMs: durationMs ?? undefined,
+      statement: SQL_STATEMENT.exec(parsed.message)?.[0].trim(),
+    };
+  }
+
+  /**
+   * Read the logger category, level, timestamp and message (with continuation lines) of an entry
+   */
+  private static parseCategoryEntry(entry: ParsedLogEntry): {
+    category: string;
+    level: string;
+    timestamp?: string;
+    file: string;
+    message: string;
+  } | undefined {
+    const [firstLine, ...continuation] = entry.text.split('\n');
+    const match = CATEGORY_MESSAGE.exec(firstLine);
+    if (!match || !entry.level) {
+      return undefined;
+    }
+
+    return {
+      category: match[1],
+      level: entry.level,
+      timestamp: this.getTimestamp(entry),
+      file: entry.file,
+      message: [match[2], ...continuation].join('\n').trim(),
+    };
+  }
+
+  private static getTimestamp(entry: ParsedLogEntry): string | undefined {
+    return extractTimestampFromLogEntry(entry.text)?.toISOString();
+  }
+}
@@ -3,18 +3,56 @@
  */
 
 import { Logger } from '../../utils/logger.js';
-import { getCurrentDate, normalizeFilePath } from '../../utils/utils.js';
+import { getCurrentDate, normalizeFilePath, parseLogEntries, extractTimestampFromLogEntry } from '../../utils/utils.js';
 import { WebDAVClientManager } from './webdav-client-manager.js';
 import { LogFileReader } from './log-file-reader.js';
 import { LogFileDiscovery } from './log-file-discovery.js';
 import { LogProcessor } from './log-processor.js';
 import { LogAnalyzer } from './log-analyzer.js';
 import { LogFormatter } from './log-formatter.js';
+import { LogQuery } from './log-query.js';
+import { LogCategoryParser } from './log-category-parsers.js';
+import { LogFingerprint } from './log-fingerprint.js';
+import { CartridgeSourceResolver } from './cartridge-source-resolver.js';
 import { LOG_CONSTANTS, LOG_MESSAGES, JOB_LOG_CONSTANTS } from './log-constants.js';
 import type {
   LogLevel,
+  LogCategory,
+  LogEntryFilter,
   LogSearchOptions,
+  LogTailOptions,
+  LogTailPoll,
+  LogTailState,
+  LogFileMetadata,
+  LogQueryRequest,
+  ParsedLogEntry,
+  JobLogInfo,
+  LogTimeWindow,
+  TailedLogEntry,
   WebDAVClientConfig,
+  QuotaViolation,
+  QuotaViolationReport,
+  ApiDeprecationUsage,
+  ApiDeprecationReport,
+  ServiceLogEntry,
+  ServiceLogOptions,
+  ServiceLogReport,
+  SecurityLogEntry,
+  SecurityLogOptions,
+  SecurityLogReport,
+  SqlLogEntry,
+  SqlLogOptions,
+  SqlLogReport,
+  LoggerCategoryCount,
+  LoggerCategoryReport,
+  ErrorClusterOptions,
+  ErrorClusterReport,
+  LogStackTrace,
+  StackTraceOptions,
+  StackTraceReport,
+  RequestTraceEntry,
+  RequestTraceOptions,
+  RequestTraceReport,
 } from './log-types.js';
 
 // Support for backward compatibility with SFCCConfig
@@ -33,6 +71,7 @@ export class SFCCLogClient {
   private fileDiscovery: LogFileDiscovery;
   private processor: LogProcessor;
   private analyzer: LogAnalyzer;
+  private sourceResolvers = new Map<string, CartridgeSourceResolver>();
 
   constructor(config: SFCCConfig | WebDAVClientConfig, logger?: Logger) {
     this.logger = logger ?? Logger.getChildLogger('LogClient');
@@ -57,20 +96,30 @@ export class SFCCLogClient {
 
   /**
    * Get the latest log entries for a specific log level
+   *
+   * @param window - Only return entries written within this time window (replaces date)
+   * @param filter - Only return entries of this logger category and cartridge
    */
-  async getLatestLogs(level: LogLevel, limit: number, date?: string): Promise<string> {
+  async getLatestLogs(
+    level: LogLevel,
+    limit: number,
+    date?: string,
+    window?: LogTimeWindow,
+    filter?: LogEntryFilter,
+  ): Promise<string> {
     const targetDate = date ?? getCurrentDate();
-    this.logger.methodEntry('getLatestLogs', { level, limit, date: targetDate });
+    const period = window ? LogFormatter.formatTimeWindow(window) : targetDate;
+    this.logger.methodEntry('getLatestLogs', { level, limit, date: period });
 
     const startTime = Date.now();
 
     // Get and filter log files
-    const levelFiles = await this.fileDiscovery.getLogFilesByLevel(level, targetDate);
+    const allFiles = await this.findLogFiles(targetDate, window);
+    const levelFiles = this.fileDiscovery.filterLogFiles(allFiles, { level, includeCustom: true });
 
     if (levelFiles.length === 0) {
-      const allFiles = await this.fileDiscovery.getLogFiles(targetDate);
       const availableFiles = allFiles.map(f => normalizeFilePath(f.filename));
-      const result = LogFormatter.formatNoFilesFound(level, targetDate, availableFiles);
+      const result = LogFormatter.formatNoFilesFound(level, period, availableFiles);
       this.logger.warn(result);
       this.logger.methodExit('getLatestLogs', { result: 'no_files' });
       return result;
@@ -80,10 +129,7 @@ export class SFCCLogClient {
     const sortedFiles = this.fileDiscovery.sortFilesByDate(levelFiles, true);
 
     // Read file contents
-    const fileContents = await this.fileReader.readMultipleFiles(
-      sortedFiles.map(f => f.filename),
-      { maxBytes: LOG_CONSTANTS.DEFAULT_TAIL_BYTES },
-    );
+    const fileContents = this.applyEntryFilter(await this.readLogFiles(sortedFiles, window), filter);
 
     // Process log entries
     const allLogEntries = await this.processor.processLogFiles(sortedFiles, level, fileContents);
@@ -108,6 +154,103 @@ export class SFCCLogClient {
     return result;
   }
 
+  /**
+   * Read the log entries appended since the previous poll
+   *
+   * Without a state, the current end of each of today's log files for the requested levels is
+   * recorded and no entries are returned. With a state, only the bytes appended after the recorded
+   * offsets are read with range requests; files created since the previous poll are read from the
+   * beginning, and files that are no longer listed for today (e.g. after midnight) are read until
+   * they disappear.
+   *
+   * @param options - Levels, text filter and entry limit
+   * @param state - State returned by the previous poll
+   * @returns The new entries and the state for the next poll
+   */
+  async tailLogs(options: LogTailOptions, state?: LogTailState): Promise<LogTailPoll> {
+    this.logger.methodEntry('tailLogs', { ...options, files: state ? Object.keys(state.offsets).length : 0 });
+
+    const listed = (await this.fileDiscovery.getLogFiles(getCurrentDate()))
+      .filter(file => this.getFileLevel(file.filename, options.levels));
+    const sizes = new Map(listed.map(file => [file.filename, file.size]));
+    const filenames = [...new Set([...Object.keys(state?.offsets ?? {}), ...listed.map(file => file.filename)])];
+
+    if (!state) {
+      const offsets = Object.fromEntries(listed.map(file => [file.filename, file.size ?? 0]));
+      this.logger.methodExit('tailLogs', { started: true, files: listed.length });
+      return {
+        state: { offsets },
+        entries: [],
+        files: filenames.map(normalizeFilePath),
+        droppedEntries: 0,
+        skippedBytes: 0,
+      };
+    }
+
+    const offsets: Record<string, number> = {};
+    const entries: TailedLogEntry[] = [];
+    let skippedBytes = 0;
+
+    for (const filename of filenames) {
+      const offset = state.offsets[filename] ?? 0;
+      const size = sizes.get(filename);
+      if (size === offset) {
+        offsets[filename] = offset;
+        continue;
+      }
+
+      try {
+        const appended = await this.fileReader.readAppended(filename, offset, { size });
+        offsets[filename] = appended.offset;
+        skippedBytes += appended.skippedBytes;
+        entries.push(...this.parseTailedEntries(filename, appended.content, options));
+      } catch (error) {
+        // Files that were deleted or rotated away are no longer followed
+        this.logger.warn(`Stopped following ${filename}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    entries.sort((a, b) => (a.timestamp ?? '').localeCompare(b.timestamp ?? ''));
+    const droppedEntries = Math.max(0, entries.length - options.limit);
+
+    this.logger.methodExit('tailLogs', { entries: entries.length, droppedEntries, skippedBytes });
+    return {
+      state: { offsets },
+      entries: entries.slice(droppedEntries),
+      files: Object.keys(offsets).map(normalizeFilePath),
+      droppedEntries,
+      skippedBytes,
+    };
+  }
+
+  /**
+   * Get the level of a standard or custom log file, if it is one of the given levels
+   */
+  private getFileLevel(filename: string, levels: LogLevel[]): LogLevel | undefined {
+    return levels.find(level => this.fileDiscovery.filterLogFiles([{ filename, lastmod: '' }], { level }).length > 0);
+  }
+
+  /**
+   * Parse the entries of appended log content and apply the text filter
+   */
+  private parseTailedEntries(filename: string, content: string, options: LogTailOptions): TailedLogEntry[] {
+    const level = this.getFileLevel(filename, options.levels);
+    if (!level || !content) {
+      return [];
+    }
+
+    const name = normalizeFilePath(filename);
+    const pattern = options.pattern?.toLowerCase();
+    return parseLogEntries(content, level.toUpperCase())
+      .filter(entry => !pattern || entry.toLowerCase().includes(pattern))
+      .map(entry => ({
+        file: name,
+        level,
+        timestamp: extractTimestampFromLogEntry(entry)?.toISOString(),
+        entry,
+      }));
+  }
+
   /**
    * Get list of log files for a specific date (backward compatibility)
    */
@@ -123,33 +266,513 @@ export class SFCCLogClient {
 
   /**
    * Generate a comprehensive summary of logs for a specific date
+   *
+   * @param window - Only count entries written within this time window (replaces date)
    */
-  async summarizeLogs(date?: string): Promise<string> {
+  async summarizeLogs(date?: string, window?: LogTimeWindow): Promise<string> {
     const targetDate = date ?? getCurrentDate();
-    this.logger.methodEntry('summarizeLogs', { date: targetDate });
+    const period = window ? LogFormatter.formatTimeWindow(window) : targetDate;
+    this.logger.methodEntry('summarizeLogs', { date: period });
 
-    const logFiles = await this.fileDiscovery.getLogFiles(targetDate);
+    const logFiles = await this.findLogFiles(targetDate, window);
 
     if (logFiles.length === 0) {
-      const result = `No log files found for date ${targetDate}`;
+      const result = `No log files found for date ${period}`;
       this.logger.methodExit('summarizeLogs', { result: 'no_files' });
       return result;
     }
 
     // Read file contents
-    const fileContents = await this.fileReader.readMultipleFiles(
-      logFiles.map(f => f.filename),
-      { maxBytes: LOG_CONSTANTS.DEFAULT_TAIL_BYTES },
-    );
+    const fileContents = await this.readLogFiles(logFiles, window);
 
     // Analyze logs
-    const summary = await this.analyzer.analyzeLogs(logFiles, fileContents, targetDate);
+    const summary = await this.analyzer.analyzeLogs(logFiles, fileContents, period);
     const result = LogFormatter.formatLogSummary(summary);
 
     this.logger.methodExit('summarizeLogs', { filesAnalyzed: logFiles.length });
     return result;
   }
 
+  /**
+   * Get the latest entries of a log category
+   * Levels are read like getLatestLogs; the files of the other categories contain entries of any level
+   *
+   * @param window - Only return entries written within this time window (replaces date)
+   * @param filter - Only return entries of this logger category and cartridge
+   */
+  async getLatestCategoryLogs(
+    category: LogCategory,
+    limit: number,
+    date?: string,
+    window?: LogTimeWindow,
+    filter?: LogEntryFilter,
+  ): Promise<string> {
+    if ((LOG_CONSTANTS.LOG_LEVELS as readonly string[]).includes(category)) {
+      return this.getLatestLogs(category as LogLevel, limit, date, window, filter);
+    }
+
+    const targetDate = date ?? getCurrentDate();
+    const period = window ? LogFormatter.formatTimeWindow(window) : targetDate;
+    this.logger.methodEntry('getLatestCategoryLogs', { category, limit, date: period });
+
+    const allFiles = await this.findLogFiles(targetDate, window);
+    const categoryFiles = this.fileDiscovery.sortFilesByDate(
+      this.fileDiscovery.filterLogFilesByCategory(allFiles, category),
+      true,
+    );
+
+    if (categoryFiles.length === 0) {
+      const availableFiles = allFiles.map(f => normalizeFilePath(f.filename));
+      const result = LogFormatter.formatNoFilesFound(category, period, availableFiles);
+      this.logger.methodExit('getLatestCategoryLogs', { result: 'no_files' });
+      return result;
+    }
+
+    const entries = (await this.readCategoryEntries(categoryFiles, window))
+      .filter(entry => !filter || this.processor.matchesEntryFilter(entry, filter))
+      .map(entry => ({ entry, time: extractTimestampFromLogEntry(entry.text)?.getTime() ?? 0 }))
+      .sort((a, b) => b.time - a.time)
+      .slice(0, limit)
+      .map(({ entry }) => `[${entry.file}] ${entry.text}`);
+
+    const fileList = categoryFiles.map(f => normalizeFilePath(f.filename));
+    this.logger.methodExit('getLatestCategoryLogs', {
+      entriesReturned: entries.length,
+      filesProcessed: fileList.length,
+    });
+    return LogFormatter.formatLatestLogs(entries, category, limit, fileList);
+  }
+
+  /**
+   * Get the quotas exceeded according to the quota logs, aggregated by quota
+   *
+   * @param limit - Maximum number of quotas to return
+   */
+  async getQuotaViolations(limit: number, date?: string, window?: LogTimeWindow): Promise<QuotaViolationReport> {
+    const { period, files, entries } = await this.readCategory('quota', date, window);
+    const violations = entries
+      .map(entry => LogCategoryParser.parseQuotaViolation(entry))
+      .filter((violation): violation is QuotaViolation => violation !== undefined);
+
+    this.logger.debug(`Parsed ${violations.length} quota violations from ${entries.length} entries`);
+    return {
+      period,
+      files,
+      totalEntries: violations.length,
+      quotas: this.analyzer.summarizeQuotaViolations(violations).slice(0, limit),
+    };
+  }
+
+  /**
+   * Get the deprecated script APIs called according to the API deprecation logs, aggregated by API
+   *
+   * @param limit - Maximum number of APIs to return
+   */
+  async getApiDeprecations(limit: number, date?: string, window?: LogTimeWindow): Promise<ApiDeprecationReport> {
+    const { period, files, entries } = await this.readCategory('api-deprecation', date, window);
+    const usages = entries
+      .map(entry => LogCategoryParser.parseApiDeprecation(entry))
+      .filter((usage): usage is ApiDeprecationUsage => usage !== undefined);
+
+    this.logger.debug(`Parsed ${usages.length} deprecated API usages from ${entries.length} entries`);
+    return {
+      period,
+      files,
+      totalUsages: usages.length,
+      apis: this.analyzer.summarizeApiDeprecations(usages).slice(0, limit),
+    };
+  }
+
+  /**
+   * Get the latest service log entries, optionally of one service and level, with counts by service
+   */
+  async getServiceLogEntries(options: ServiceLogOptions): Promise<ServiceLogReport> {
+    const { period, files, entries } = await this.readCategory('service', options.date, options.window);
+    const serviceName = options.serviceName?.toLowerCase();
+    const level = options.level?.toUpperCase();
+
+    const matching = entries
+      .map(entry => LogCategoryParser.parseServiceEntry(entry))
+      .filter((entry): entry is ServiceLogEntry =>
+        entry !== undefined &&
+        (!serviceName || entry.service.toLowerCase().includes(serviceName)) &&
+        (!level || entry.level === level),
+      )
+      .sort((a, b) => (b.timestamp ?? '').localeCompare(a.timestamp ?? ''));
+
+    return {
+      period,
+      files,
+      services: this.countEntriesAndErrors(matching, entry => entry.service),
+      omittedEntries: Math.max(0, matching.length - options.limit),
+      entries: matching.slice(0, options.limit),
+    };
+  }
+
+  /**
+   * Get the latest security log entries, optionally of one logger category and level,
+   * with counts by logger category, user and IP address
+   */
+  async getSecurityLogEntries(options: SecurityLogOptions): Promise<SecurityLogReport> {
+    const { period, files, entries } = await this.readCategory('security', options.date, options.window);
+    const category = options.category?.toLowerCase();
+    const level = options.level?.toUpperCase();
+
+    const matching = entries
+      .map(entry => LogCategoryParser.parseSecurityEntry(entry))
+      .filter((entry): entry is SecurityLogEntry =>
+        entry !== undefined &&
+        (!category || entry.category.toLowerCase().includes(category)) &&
+        (!level || entry.level === level),
+      )
+      .sort((a, b) => (b.timestamp ?? '').localeCompare(a.timestamp ?? ''));
+
+    const users: SecurityLogReport['users'] = {};
+    const ipAddresses: SecurityLogReport['ipAddresses'] = {};
+    for (const entry of matching) {
+      if (entry.user) {
+        users[entry.user] = (users[entry.user] ?? 0) + 1;
+      }
+      if (entry.ipAddress) {
+        ipAddresses[entry.ipAddress] = (ipAddresses[entry.ipAddress] ?? 0) + 1;
+      }
+    }
+
+    return {
+      period,
+      files,
+      categories: this.countEntriesAndErrors(matching, entry => entry.category),
+      users,
+      ipAddresses,
+      omittedEntries: Math.max(0, matching.length - options.limit),
+      entries: matching.slice(0, options.limit),
+    };
+  }
+
+  /**
+   * Get the SQL log entries, optionally of one level and above an execution time, slowest first
+   */
+  async getSqlLogEntries(options: SqlLogOptions): Promise<SqlLogReport> {
+    const { period, files, entries } = await this.readCategory('sql', options.date, options.window);
+    const level = options.level?.toUpperCase();
+    const minDurationMs = options.minDurationMs;
+
+    const matching = entries
+      .map(entry => LogCategoryParser.parseSqlEntry(entry))
+      .filter((entry): entry is SqlLogEntry =>
+        entry !== undefined &&
+        (!level || entry.level === level) &&
+        (minDurationMs === undefined || (entry.durationMs !== undefined && entry.durationMs >= minDurationMs)),
+      )
+      .sort((a, b) =>
+        (b.durationMs ?? -1) - (a.durationMs ?? -1) || (b.timestamp ?? '').localeCompare(a.timestamp ?? ''),
+      );
+
+    return {
+      period,
+      files,
+      omittedEntries: Math.max(0, matching.length - options.limit),
+      entries: matching.slice(0, options.limit),
+    };
+  }
+
+  /**
+   * Count the entries and the error and fatal entries by a key
+   */
+  private countEntriesAndErrors<T extends { level: string }>(
+    entries: T[],
+    key: (entry: T) => string,
+  ): Record<string, { entries: number; errors: number }> {
+    const counts: Record<string, { entries: number; errors: number }> = {};
+    for (const entry of entries) {
+      const count = counts[key(entry)] ??= { entries: 0, errors: 0 };
+      count.entries++;
+      if (entry.level === 'ERROR' || entry.level === 'FATAL') {
+        count.errors++;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Group the entries of the level logs into clusters of the same error
+   * Entries are fingerprinted by their message with IDs, numbers, URLs and quoted values normalized
+   */
+  async clusterErrors(options: ErrorClusterOptions): Promise<ErrorClusterReport> {
+    const levels = options.levels ?? ['error'];
+    const targetDate = options.date ?? getCurrentDate();
+    const period = options.window ? LogFormatter.formatTimeWindow(options.window) : targetDate;
+    this.logger.methodEntry('clusterErrors', { levels, limit: options.limit, date: period });
+
+    const allFiles = await this.findLogFiles(targetDate, options.window);
+    const files = this.fileDiscovery.sortFilesByDate(
+      levels.flatMap(level => this.fileDiscovery.filterLogFilesByCategory(allFiles, level)),
+      true,
+    );
+    const { filter } = options;
+    const entries = (await this.readCategoryEntries(files, options.window))
+      .filter(entry => !filter || this.processor.matchesEntryFilter(entry, filter));
+    const clusters = this.analyzer.clusterEntries(entries);
+
+    this.logger.methodExit('clusterErrors', { entries: entries.length, clusters: clusters.length });
+    return {
+      period,
+      files: files.map(f => normalizeFilePath(f.filename)),
+      totalEntries: entries.length,
+      clusters: clusters.slice(0, options.limit),
+      omittedClusters: Math.max(0, clusters.length - options.limit),
+    };
+  }
+
+  /**
+   * Get the stack traces of the level logs, grouped by error fingerprint, most frequent first
+   * With a cartridges root, the frames are resolved to the local source files with a code snippet
+   */
+  async getStackTraces(options: StackTraceOptions): Promise<StackTraceReport> {
+    const levels = options.levels ?? ['error'];
+    const targetDate = options.date ?? getCurrentDate();
+    const period = options.window ? LogFormatter.formatTimeWindow(options.window) : targetDate;
+    this.logger.methodEntry('getStackTraces', { levels, limit: options.limit, date: period });
+
+    const allFiles = await this.findLogFiles(targetDate, options.window);
+    const files = this.fileDiscovery.sortFilesByDate(
+      levels.flatMap(level => this.fileDiscovery.filterLogFilesByCategory(allFiles, level)),
+      true,
+    );
+    const { filter } = options;
+    const pattern = options.pattern?.toLowerCase();
+    const entries = (await this.readCategoryEntries(files, options.window))
+      .filter(entry =>
+        (!filter || this.processor.matchesEntryFilter(entry, filter)) &&
+        (!pattern || entry.text.toLowerCase().includes(pattern)),
+      )
+      .map(entry => ({ entry, frames: this.processor.parseStackFrames(entry.text) }))
+      .filter(({ frames }) => frames.length > 0);
+
+    const traces = new Map<string, LogStackTrace>();
+    for (const { entry, frames } of entries) {
+      const fingerprint = LogFingerprint.fingerprint(entry);
+      const timestamp = extractTimestampFromLogEntry(entry.text)?.toISOString();
+      let trace = traces.get(fingerprint);
+      if (!trace) {
+        trace = { fingerprint, message: '', level: entry.level!, category: entry.category, count: 0, files: [], frames };
+        traces.set(fingerprint, trace);
+      }
+
+      trace.count++;
+      if (!trace.files.includes(entry.file)) {
+        trace.files.push(entry.file);
+      }
+      if (timestamp && (!trace.firstSeen || timestamp < trace.firstSeen)) {
+        trace.firstSeen = timestamp;
+      }
+      if (!trace.message || (timestamp && (!trace.lastSeen || timestamp >= trace.lastSeen))) {
+        trace.lastSeen = timestamp ?? trace.lastSeen;
+        trace.message = LogFingerprint.message(entry);
+        trace.frames = frames;
+      }
+    }
+
+    const sorted = [...traces.values()]
+      .sort((a, b) => b.count - a.count || (b.lastSeen ?? '').localeCompare(a.lastSeen ?? ''));
+    const returned = sorted.slice(0, options.limit);
+
+    let unresolvedCartridges: string[] | undefined;
+    if (options.cartridgesRoot) {
+      const resolver = this.getSourceResolver(options.cartridgesRoot);
+      const contextLines = options.contextLines ?? LOG_CONSTANTS.DEFAULT_SNIPPET_CONTEXT_LINES;
+      const missing = new Set<string>();
+      for (const trace of returned) {
+        for (const cartridge of await resolver.resolveFrames(trace.frames, contextLines)) {
+          missing.add(cartridge);
+        }
+      }
+      unresolvedCartridges = [...missing];
+    }
+
+    this.logger.methodExit('getStackTraces', { entries: entries.length, traces: sorted.length });
+    return {
+      period,
+      files: files.map(f => normalizeFilePath(f.filename)),
+      cartridgesRoot: options.cartridgesRoot,
+      totalEntries: entries.length,
+      traces: returned,
+      omittedTraces: sorted.length - returned.length,
+      unresolvedCartridges,
+    };
+  }
+
+  /**
+   * Trace a session, request or order across the level, custom, service and API logs
+   * and return the matching entries as one timeline, oldest first
+   */
+  async traceRequest(options: RequestTraceOptions): Promise<RequestTraceReport> {
+    const targetDate = options.date ?? getCurrentDate();
+    const period = options.window ? LogFormatter.formatTimeWindow(options.window) : targetDate;
+    this.logger.methodEntry('traceRequest', { idType: options.idType, limit: options.limit, date: period });
+
+    const allFiles = await this.findLogFiles(targetDate, options.window);
+    const files = this.fileDiscovery.sortFilesByDate(
+      LOG_CONSTANTS.TRACE_LOG_CATEGORIES.flatMap(category =>
+        this.fileDiscovery.filterLogFilesByCategory(allFiles, category),
+      ),
+      true,
+    );
+    const entries = await this.readCategoryEntries(files, options.window);
+
+    const { id } = options;
+    const matched = new Set(entries.filter(entry =>
+      (options.idType === 'session' && entry.session === id) || this.processor.containsToken(entry.text, id),
+    ));
+    const followedSessions = new Set(
+      options.followSessions ? [...matched].map(entry => entry.session).filter(session => session !== undefined) : [],
+    );
+
+    const timeline: RequestTraceEntry[] = entries
+      .filter(entry => matched.has(entry) || (entry.session !== undefined && followedSessions.has(entry.session)))
+      .map(entry => ({
+        timestamp: extractTimestampFromLogEntry(entry.text)?.toISOString(),
+        file: entry.file,
+        line: entry.line,
+        level: entry.level!,
+        category: entry.category,
+        site: entry.site,
+        pipeline: entry.pipeline,
+        session: entry.session,
+        followed: matched.has(entry) ? undefined : true,
+        text: entry.text,
+      }))
+      .sort((a, b) =>
+        (a.timestamp ?? '').localeCompare(b.timestamp ?? '') || a.file.localeCompare(b.file) || a.line - b.line,
+      );
+
+    const distinct = (values: (string | undefined)[]) =>
+      [...new Set(values.filter((value): value is string => value !== undefined))];
+    const levels: Record<string, number> = {};
+    for (const entry of timeline) {
+      levels[entry.level] = (levels[entry.level] ?? 0) + 1;
+    }
+    const timestamps = timeline.map(entry => entry.timestamp).filter(timestamp => timestamp !== undefined);
+
+    this.logger.methodExit('traceRequest', { files: files.length, entries: timeline.length });
+    return {
+      period,
+      files: files.map(f => normalizeFilePath(f.filename)),
+      idType: options.idType,
+      id,
+      totalEntries: timeline.length,
+      levels,
+      sessions: distinct(timeline.map(entry => entry.session)),
+      sites: distinct(timeline.map(entry => entry.site)),
+      pipelines: distinct(timeline.map(entry => entry.pipeline)),
+      firstSeen: timestamps[0],
+      lastSeen: timestamps[timestamps.length - 1],
+      omittedEntries: Math.max(0, timeline.length - options.limit),
+      entries: timeline.slice(-options.limit),
+    };
+  }
+
+  /**
+   * Get the source resolver of a cartridges root, which keeps the cartridges it found
+   */
+  private getSourceResolver(root: string): CartridgeSourceResolver {
+    let resolver = this.sourceResolvers.get(root);
+    if (!resolver) {
+      resolver = new CartridgeSourceResolver(root, this.logger);
+      this.sourceResolvers.set(root, resolver);
+    }
+    return resolver;
+  }
+
+  /**
+   * Count the entries of each logger category in the level logs and custom-<prefix> logs
+   *
+   * @param limit - Maximum number of categories to return
+   * @param cartridge - Only count entries originating from this cartridge
+   */
+  async getLoggerCategories(
+    limit: number,
+    date?: string,
+    window?: LogTimeWindow,
+    cartridge?: string,
+  ): Promise<LoggerCategoryReport> {
+    const targetDate = date ?? getCurrentDate();
+    const period = window ? LogFormatter.formatTimeWindow(window) : targetDate;
+    this.logger.methodEntry('getLoggerCategories', { limit, date: period, cartridge });
+
+    const families = LOG_CONSTANTS.LOGGER_CATEGORY_LOG_CATEGORIES as readonly (LogCategory | undefined)[];
+    const files = this.fileDiscovery.sortFilesByDate(
+      (await this.findLogFiles(targetDate, window))
+        .filter(file => families.includes(this.fileDiscovery.getLogCategory(file.filename))),
+      true,
+    );
+    const entries = (await this.readCategoryEntries(files, window))
+      .filter(entry => entry.category !== undefined)
+      .filter(entry => !cartridge || this.processor.matchesEntryFilter(entry, { cartridge }));
+
+    const counts = new Map<string, LoggerCategoryCount>();
+    for (const entry of entries) {
+      const category = entry.category!;
+      let count = counts.get(category);
+      if (!count) {
+        count = { category, entries: 0, levels: {}, files: [], cartridges: [] };
+        counts.set(category, count);
+      }
+      count.entries++;
+      count.levels[entry.level!] = (count.levels[entry.level!] ?? 0) + 1;
+      if (!count.files.includes(entry.file)) {
+        count.files.push(entry.file);
+      }
+      if (entry.cartridge && !count.cartridges.includes(entry.cartridge)) {
+        count.cartridges.push(entry.cartridge);
+      }
+    }
+
+    const categories = [...counts.values()]
+      .sort((a, b) => b.entries - a.entries || a.category.localeCompare(b.category));
+
+    this.logger.methodExit('getLoggerCategories', { files: files.length, categories: categories.length });
+    return {
+      period,
+      files: files.map(f => normalizeFilePath(f.filename)),
+      categories: categories.slice(0, limit),
+      omittedCategories: Math.max(0, categories.length - limit),
+    };
+  }
+
+  /**
+   * Read the entries of the log files of a category for a date or time window
+   */
+  private async readCategory(category: LogCategory, date?: string, window?: LogTimeWindow): Promise<{
+    period: string;
+    files: string[];
+    entries: ParsedLogEntry[];
+  }> {
+    const targetDate = date ?? getCurrentDate();
+    const period = window ? LogFormatter.formatTimeWindow(window) : targetDate;
+    this.logger.methodEntry('readCategory', { category, date: period });
+
+    const files = this.fileDiscovery.sortFilesByDate(
+      this.fileDiscovery.filterLogFilesByCategory(await this.findLogFiles(targetDate, window), category),
+      true,
+    );
+    const entries = await this.readCategoryEntries(files, window);
+
+    this.logger.methodExit('readCategory', { files: files.length, entries: entries.length });
+    return { period, files: files.map(f => normalizeFilePath(f.filename)), entries };
+  }
+
+  /**
+   * Read log files and split them into entries at every entry header, whatever the level
+   */
+  private async readCategoryEntries(files: LogFileMetadata[], window?: LogTimeWindow): Promise<ParsedLogEntry[]> {
+    const fileContents = await this.readLogFiles(files, window);
+    return files.flatMap(file => this.processor.parseStructuredEntries(
+      normalizeFilePath(file.filename),
+      fileContents.get(file.filename) ?? '',
+    )).filter(entry => entry.level !== undefined);
+  }
+
   /**
    * Search for specific patterns across log files
    */
@@ -171,11 +794,13 @@ export class SFCCLogClient {
       }
       : optionsOrPattern;
 
-    const { pattern, logLevel: level, limit: searchLimit, date: searchDate } = options;
+    const { pattern, logLevel: level, limit: searchLimit, date: searchDate, window, filter } = options;
+    const searchText = typeof pattern === 'string' ? pattern : pattern.query;
     const targetDate = searchDate ?? getCurrentDate();
-    this.logger.methodEntry('searchLogs', { pattern, logLevel: level, limit: searchLimit, date: targetDate });
+    const period = window ? LogFormatter.formatTimeWindow(window) : targetDate;
+    this.logger.methodEntry('searchLogs', { pattern: searchText, logLevel: level, limit: searchLimit, date: period });
 
-    const logFiles = await this.fileDiscovery.getLogFiles(targetDate);
+    const logFiles = await this.findLogFiles(targetDate, window);
 
     // Filter by log level if specified
     const filesToSearch = level
@@ -183,25 +808,93 @@ export class SFCCLogClient {
       : logFiles;
 
     if (filesToSearch.length === 0) {
-      const result = LOG_MESSAGES.NO_SEARCH_MATCHES(pattern, targetDate);
+      const result = LOG_MESSAGES.NO_SEARCH_MATCHES(searchText, period);
       this.logger.methodExit('searchLogs', { result: 'no_files' });
       return result;
     }
 
     // Read file contents
-    const fileContents = await this.fileReader.readMultipleFiles(
-      filesToSearch.map(f => f.filename),
-      { maxBytes: LOG_CONSTANTS.DEFAULT_TAIL_BYTES },
-    );
-
-    // Search for patterns
-    const matches = this.processor.processSearchResults(filesToSearch, fileContents, pattern, searchLimit);
-    const result = LogFormatter.formatSearchResults(matches, pattern, targetDate);
+    const fileContents = await this.readLogFiles(filesToSearch, window);
+
+    // Search for patterns; query hits keep their line numbers, so the filter is applied per entry
+    const matches = typeof pattern === 'string'
+      ? this.processor.processSearchResults(
+        filesToSearch, this.applyEntryFilter(fileContents, filter), pattern, searchLimit,
+      )
+      : this.searchWithQuery(
+        filesToSearch.map(f => f.filename),
+        fileContents,
+        pattern,
+        searchLimit,
+        filter && (entry => this.processor.matchesEntryFilter(entry, filter)),
+      );
+    const result = LogFormatter.formatSearchResults(matches, searchText, period);
 
     this.logger.methodExit('searchLogs', { matchesFound: matches.length });
     return result;
   }
 
+  /**
+   * Find the entries matching a query and format them with highlighting and context lines
+   */
+  private searchWithQuery(
+    files: string[],
+    fileContents: Map<string, string>,
+    request: LogQueryRequest,
+    limit: number,
+    filter?: (entry: ParsedLogEntry) => boolean,
+  ): string[] {
+    const query = LogQuery.parse(request.query, request);
+    const hits = this.processor.findQueryMatches(files, fileContents, query, limit, request.contextLines, filter);
+    return LogFormatter.formatQueryHits(hits, query);
+  }
+
+  /**
+   * Keep only the entries of each file that match a logger category and cartridge filter
+   */
+  private applyEntryFilter(fileContents: Map<string, string>, filter?: LogEntryFilter): Map<string, string> {
+    if (!filter) {
+      return fileContents;
+    }
+
+    return new Map([...fileContents].map(([filename, content]) => [
+      filename,
+      this.processor.filterContentByEntries(normalizeFilePath(filename), content, filter),
+    ]));
+  }
+
+  /**
+   * Find the log files of a date, or of every day in a time window
+   */
+  private async findLogFiles(date: string, window?: LogTimeWindow): Promise<LogFileMetadata[]> {
+    return window
+      ? this.fileDiscovery.getLogFilesInWindow(window)
+      : this.fileDiscovery.getLogFiles(date);
+  }
+
+  /**
+   * Read the end of each log file, or the entries within the time window if one is given
+   */
+  private async readLogFiles(files: LogFileMetadata[], window?: LogTimeWindow): Promise<Map<string, string>> {
+    if (!window) {
+      return this.fileReader.readMultipleFiles(
+        files.map(f => f.filename),
+        { maxBytes: LOG_CONSTANTS.DEFAULT_TAIL_BYTES },
+      );
+    }
+
+    const fileContents = new Map<string, string>();
+    for (const file of files) {
+      try {
+        const content = await this.fileReader.getFileContentsInWindow(file.filename, window);
+        fileContents.set(file.filename, this.processor.filterContentByTimeWindow(content, window));
+      } catch (error) {
+        this.logger.error(`Error reading file ${file.filename}:`, error);
+      }
+    }
+    return fileContents;
+  }
+
   /**
    * List available log files with metadata
    */
@@ -440,14 +1133,17 @@ ${content}`;
 
   /**
    * Search for patterns in job logs
+   *
+   * @param pattern - Text to find (substring match), or a query in the LogQuery syntax
    */
   async searchJobLogs(
-    pattern: string,
+    pattern: string | LogQueryRequest,
     level?: LogLevel | 'all',
     limit: number = LOG_CONSTANTS.DEFAULT_SEARCH_LIMIT,
     jobName?: string,
   ): Promise<string> {
-    this.logger.methodEntry('searchJobLogs', { pattern, level, limit, jobName });
+    const searchText = typeof pattern === 'string' ? pattern : pattern.query;
+    this.logger.methodEntry('searchJobLogs', { pattern: searchText, level, limit, jobName });
 
     try {
       // Get job logs based on filter
@@ -470,30 +1166,19 @@ ${content}`;
       );
 
       // Search for patterns in job logs
-      const matches: string[] = [];
-      for (const jobLog of jobLogs) {
-        const content = fileContents.get(jobLog.logFile);
-        if (!content) {
-          continue;
-        }
-
-        const lines = content.split('\n');
-        for (const line of lines) {
-          if (line.toLowerCase().includes(pattern.toLowerCase()) && matches.length < limit) {
-            // Filter by level if specified
-            if (level && level !== 'all') {
-              const levelUpper = level.toUpperCase();
-              if (!line.includes(` ${levelUpper} `)) {
-                continue;
-              }
-            }
-            matches.push(`[${jobLog.jobName}] ${line.trim()}`);
-          }
-        }
-      }
+      const levelUpper = level && level !== 'all' ? level.toUpperCase() : undefined;
+      const matches = typeof pattern === 'string'
+        ? this.searchJobLogLines(jobLogs, fileContents, pattern, levelUpper, limit)
+        : this.searchWithQuery(
+          jobLogs.map(job => job.logFile),
+          fileContents,
+          pattern,
+          limit,
+          levelUpper ? entry => entry.level === levelUpper : undefined,
+        );
 
       const jobContext = jobName ? `job: ${jobName}` : 'job logs';
-      const result = LogFormatter.formatJobSearchResults(matches, pattern, jobContext);
+      const result = LogFormatter.formatJobSearchResults(matches, searchText, jobContext);
 
       this.logger.methodExit('searchJobLogs', { matchesFound: matches.length });
       return result;
@@ -505,6 +1190,37 @@ ${content}`;
     }
   }
 
+  /**
+   * Find the job log lines containing a text, optionally only lines of one level
+   */
+  private searchJobLogLines(
+    jobLogs: JobLogInfo[],
+    fileContents: Map<string, string>,
+    pattern: string,
+    levelUpper: string | undefined,
+    limit: number,
+  ): string[] {
+    const matches: string[] = [];
+    for (const jobLog of jobLogs) {
+      const content = fileContents.get(jobLog.logFile);
+      if (!content) {
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (const line of lines) {
+        if (line.toLowerCase().includes(pattern.toLowerCase()) && matches.length < limit) {
+          // Filter by level if specified
+          if (levelUpper && !line.includes(` ${levelUpper} `)) {
+            continue;
+          }
+          matches.push(`[${jobLog.jobName}] ${line.trim()}`);
+        }
+      }
+    }
+    return matches;
+  }
+
   /**
    * Get job execution summary for a specific job
    */
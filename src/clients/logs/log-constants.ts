@@ -6,6 +6,18 @@ export const LOG_CONSTANTS = {
   /** Default number of bytes to read from the end of large files */
   DEFAULT_TAIL_BYTES: 200 * 1024, // 200KB
 
+  /** Maximum bytes read from each file for time window queries (the last bytes of the window if it holds more) */
+  DEFAULT_WINDOW_BYTES: 1024 * 1024, // 1MB
+
+  /** Bytes read per range request while bisecting a large file for the start and end of a time window */
+  WINDOW_PROBE_BYTES: 16 * 1024, // 16KB
+
+  /** Maximum number of days a time window query may span */
+  MAX_TIME_WINDOW_DAYS: 7,
+
+  /** Maximum number of context lines shown before and after each query hit */
+  MAX_CONTEXT_LINES: 10,
+
   /** Maximum number of log files to show in listings */
   MAX_LOG_FILES_DISPLAY: 50,
 
@@ -17,6 +29,63 @@ export const LOG_CONSTANTS = {
 
   /** Supported log levels */
   LOG_LEVELS: ['error', 'warn', 'info', 'debug'] as const,
+
+  /** Supported log categories: the levels and the other log file families */
+  LOG_CATEGORIES: [
+    'error',
+    'warn',
+    'info',
+    'debug',
+    'fatal',
+    'api',
+    'api-deprecation',
+    'quota',
+    'security',
+    'service',
+    'sql',
+    'staging',
+    'syslog',
+    'custom',
+  ] as const,
+
+  /** Categories that are also written to custom* files by custom code (e.g. "customerror-", "customfatal-") */
+  CUSTOM_LOG_CATEGORIES: ['error', 'warn', 'info', 'debug', 'fatal'] as const,
+
+  /** Categories whose files contain the entries of logger categories (the level logs and custom-<prefix> logs) */
+  LOGGER_CATEGORY_LOG_CATEGORIES: ['error', 'warn', 'info', 'debug', 'fatal', 'custom'] as const,
+
+  /** Categories whose files are searched for the entries of a request trace */
+  TRACE_LOG_CATEGORIES: ['error', 'warn', 'info', 'debug', 'fatal', 'custom', 'service', 'api'] as const,
+
+  /** Maximum number of distinct locations reported per quota or deprecated API */
+  MAX_CATEGORY_LOCATIONS: 5,
+
+  /** Maximum number of example entries reported per error cluster */
+  MAX_CLUSTER_EXAMPLES: 3,
+
+  /** Maximum number of frames reported per stack trace */
+  MAX_STACK_FRAMES: 20,
+
+  /** Default number of source lines shown before and after a stack frame line */
+  DEFAULT_SNIPPET_CONTEXT_LINES: 3,
+
+  /** Maximum number of source lines shown before and after a stack frame line */
+  MAX_SNIPPET_CONTEXT_LINES: 10,
+
+  /** Directory levels below the cartridges root searched for cartridges */
+  MAX_CARTRIDGE_SEARCH_DEPTH: 4,
+
+  /** Interval between polls while tail_logs waits for new entries */
+  TAIL_POLL_INTERVAL_MS: 2000,
+
+  /** Maximum time tail_logs waits for new entries */
+  MAX_TAIL_WAIT_SECONDS: 120,
+
+  /** Tail cursors that have not been used for this long are discarded */
+  TAIL_CURSOR_TTL_MS: 30 * 60 * 1000,
+
+  /** Maximum number of tail cursors kept per handler (the least recently used are discarded) */
+  MAX_TAIL_CURSORS: 20,
 } as const;
 
 export const LOG_FILE_PATTERNS = {
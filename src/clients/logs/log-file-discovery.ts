@@ -4,9 +4,18 @@
 
 import type { WebDAVClient } from 'webdav';
 import { Logger } from '../../utils/logger.js';
-import { getCurrentDate, normalizeFilePath } from '../../utils/utils.js';
+import { getCurrentDate, getDatesInRange, normalizeFilePath } from '../../utils/utils.js';
 import { LOG_CONSTANTS, LOG_FILE_PATTERNS, JOB_LOG_CONSTANTS } from './log-constants.js';
-import type { LogFileMetadata, LogFileInfo, LogLevel, LogFileFilter, JobLogInfo, JobLogFilter } from './log-types.js';
+import type {
+  LogFileMetadata,
+  LogFileInfo,
+  LogLevel,
+  LogCategory,
+  LogFileFilter,
+  LogTimeWindow,
+  JobLogInfo,
+  JobLogFilter,
+} from './log-types.js';
 
 export class LogFileDiscovery {
   private logger: Logger;
@@ -24,24 +33,48 @@ export class LogFileDiscovery {
     const targetDate = date ?? getCurrentDate();
     this.logger.methodEntry('getLogFiles', { date: targetDate });
 
+    const logFiles = await this.listLogFilesForDates([targetDate]);
+
+    this.logger.debug(`Found ${logFiles.length} log files for date ${targetDate}:`, logFiles.map((f: LogFileMetadata) => f.filename));
+    this.logger.methodExit('getLogFiles', { count: logFiles.length });
+    return logFiles;
+  }
+
+  /**
+   * Get list of log files that may contain entries of a time window
+   * Lists the files of every GMT day in the window, skipping files last modified before the window starts
+   */
+  async getLogFilesInWindow(window: LogTimeWindow): Promise<LogFileMetadata[]> {
+    const dates = getDatesInRange(window.from, window.to);
+    this.logger.methodEntry('getLogFilesInWindow', { from: window.from, to: window.to, dates });
+
+    const logFiles = (await this.listLogFilesForDates(dates))
+      .filter(file => !(new Date(file.lastmod).getTime() < window.from.getTime()));
+
+    this.logger.debug(`Found ${logFiles.length} log files for dates ${dates.join(', ')}:`, logFiles.map(f => f.filename));
+    this.logger.methodExit('getLogFilesInWindow', { count: logFiles.length });
+    return logFiles;
+  }
+
+  /**
+   * List the log files whose name contains one of the given dates
+   */
+  private async listLogFilesForDates(dates: string[]): Promise<LogFileMetadata[]> {
     const startTime = Date.now();
     const contents = await this.webdavClient.getDirectoryContents('/');
     this.logger.timing('webdav_getDirectoryContents', startTime);
 
-    const logFiles = (contents as any[])
+    return (contents as any[])
       .filter((item: any) =>
         item.type === 'file' &&
-        item.filename.includes(targetDate) &&
+        dates.some(date => item.filename.includes(date)) &&
         item.filename.endsWith('.log'),
       )
       .map((item: any) => ({
         filename: item.filename,
         lastmod: item.lastmod ?? new Date().toISOString(), // Fallback to current time if no lastmod
+        size: item.size,
       }));
-
-    this.logger.debug(`Found ${logFiles.length} log files for date ${targetDate}:`, logFiles.map((f: LogFileMetadata) => f.filename));
-    this.logger.methodExit('getLogFiles', { count: logFiles.length });
-    return logFiles;
   }
 
   /**
@@ -71,6 +104,36 @@ export class LogFileDiscovery {
     });
   }
 
+  /**
+   * Get the category of a log file from its name
+   * The longest matching prefix wins, so that "api-deprecation-" files are not taken for "api-" files
+   */
+  getLogCategory(filename: string): LogCategory | undefined {
+    const name = normalizeFilePath(filename);
+    let match: { category: LogCategory; length: number } | undefined;
+
+    for (const category of LOG_CONSTANTS.LOG_CATEGORIES) {
+      const prefixes = [LOG_FILE_PATTERNS.STANDARD(category)];
+      if ((LOG_CONSTANTS.CUSTOM_LOG_CATEGORIES as readonly string[]).includes(category)) {
+        prefixes.push(LOG_FILE_PATTERNS.CUSTOM(category));
+      }
+      for (const prefix of prefixes) {
+        if (name.startsWith(prefix) && prefix.length > (match?.length ?? 0)) {
+          match = { category, length: prefix.length };
+        }
+      }
+    }
+
+    return match?.category;
+  }
+
+  /**
+   * Filter log files by category (including the custom* files of the levels and fatal)
+   */
+  filterLogFilesByCategory(files: LogFileMetadata[], category: LogCategory): LogFileMetadata[] {
+    return files.filter(file => this.getLogCategory(file.filename) === category);
+  }
+
   /**
    * Get log files filtered by level with detailed logging
    */
@@ -4,12 +4,24 @@
 
 import type { WebDAVClient } from 'webdav';
 import { Logger } from '../../utils/logger.js';
+import { extractTimestampFromLogEntry } from '../../utils/utils.js';
 import { LOG_CONSTANTS } from './log-constants.js';
-import type { FileReadOptions } from './log-types.js';
+import type { AppendedFileContent, FileReadOptions, LogTimeWindow } from './log-types.js';
+
+/**
+ * Raised internally when a probe of a file returned the whole file instead of the range requested
+ */
+class RangeNotSupportedError extends Error {
+  constructor(public readonly content: Buffer) {
+    super('Range requests are not supported');
+  }
+}
 
 export class LogFileReader {
   private logger: Logger;
   private webdavClient: WebDAVClient;
+  // Files whose range requests failed or returned the whole file, which are read in full from then on
+  private filesWithoutRanges = new Set<string>();
 
   constructor(webdavClient: WebDAVClient, logger: Logger) {
     this.webdavClient = webdavClient;
@@ -187,6 +199,214 @@ export class LogFileReader {
     });
   }
 
+  /**
+   * Read the bytes appended to a file since a byte offset using a range request
+   *
+   * Only complete lines are returned, so the returned offset points after the last newline and a
+   * line that is still being written is read again by the next call. If more than maxBytes were
+   * appended, only the last maxBytes are read (starting at the next complete line).
+   *
+   * @param filename - The file path to read
+   * @param offset - Byte offset returned by the previous read (0 to read from the beginning)
+   * @param options - Read options; size skips the stat request when the size is already known
+   * @returns The appended lines and the offset to continue from
+   */
+  async readAppended(
+    filename: string,
+    offset: number,
+    options: FileReadOptions & { size?: number } = {},
+  ): Promise<AppendedFileContent> {
+    const { maxBytes = LOG_CONSTANTS.DEFAULT_TAIL_BYTES } = options;
+    const size = options.size ?? (await this.webdavClient.stat(filename) as any).size ?? 0;
+
+    // A file smaller than the offset was truncated or replaced - start over
+    const rotated = size < offset;
+    const from = rotated ? 0 : offset;
+    if (size === from) {
+      return { content: '', offset: from, size, skippedBytes: 0, rotated };
+    }
+
+    const start = Math.max(from, size - maxBytes);
+    this.logger.debug(`Reading appended bytes of ${filename}: ${start}-${size - 1} (previous offset: ${offset})`);
+    let buffer = await this.getRangeBuffer(filename, start, size - 1);
+
+    // Servers that ignore the Range header return the whole file
+    if (buffer.length > size - start) {
+      buffer = buffer.subarray(start, size);
+    }
+
+    // When bytes were skipped the first line is incomplete
+    const firstLine = start > from ? buffer.indexOf(0x0a) + 1 : 0;
+    const lastNewline = buffer.lastIndexOf(0x0a);
+    if (lastNewline < firstLine) {
+      return { content: '', offset: start + firstLine, size, skippedBytes: start - from, rotated };
+    }
+
+    return {
+      content: buffer.subarray(firstLine, lastNewline + 1).toString('utf-8'),
+      offset: start + lastNewline + 1,
+      size,
+      skippedBytes: start - from,
+      rotated,
+    };
+  }
+
+  /**
+   * Read the part of a file written within a time window
+   *
+   * Large files are bisected on the entry timestamps with range requests, so a window anywhere in
+   * the file is found without reading up to it. Entries are assumed to be in chronological order.
+   * The returned content may start and end with a few lines outside the window, which callers
+   * filter by timestamp; if the window holds more than maxBytes, only its last maxBytes are read.
+   *
+   * @param filename - The file path to read
+   * @param window - Time window of the entries to read
+   * @param options - Read options including maxBytes
+   * @returns Promise<string> - The content around the window
+   */
+  async getFileContentsInWindow(
+    filename: string,
+    window: LogTimeWindow,
+    options: FileReadOptions = {},
+  ): Promise<string> {
+    const { maxBytes = LOG_CONSTANTS.DEFAULT_WINDOW_BYTES } = options;
+
+    let size: number | undefined;
+    try {
+      size = (await this.webdavClient.stat(filename) as any).size;
+    } catch (error) {
+      this.logger.warn(`Failed to get file stats for ${filename}, falling back to full file:`, error);
+    }
+    if (!size || size <= maxBytes || this.filesWithoutRanges.has(filename)) {
+      return await this.getFullFileContents(filename);
+    }
+
+    let start: number;
+    let end: number;
+    try {
+      start = await this.findEntryOffset(filename, size, timestamp => timestamp >= window.from, false);
+      end = await this.findEntryOffset(filename, size, timestamp => timestamp > window.to, true);
+    } catch (error) {
+      // The bisection stops at the first probe that read the whole file; callers filter its entries
+      if (error instanceof RangeNotSupportedError) {
+        return error.content.toString('utf-8');
+      }
+      throw error;
+    }
+    if (end <= start) {
+      return '';
+    }
+
+    const readStart = Math.max(start, end - maxBytes);
+    if (readStart > start) {
+      this.logger.warn(`Time window spans ${end - start} bytes of ${filename}, reading only the last ${maxBytes} bytes`);
+    }
+    this.logger.debug(`Reading time window of ${filename}: ${readStart}-${end - 1} (file size: ${size})`);
+    const buffer = await this.getRangeBuffer(filename, readStart, end - 1);
+
+    // Servers that ignore the Range header return the whole file
+    return (buffer.length > end - readStart ? buffer.subarray(readStart, end) : buffer).toString('utf-8');
+  }
+
+  /**
+   * Bisect a file for the first entry whose timestamp is past a point in time
+   *
+   * @param isPast - Whether an entry timestamp is past the point searched for
+   * @param upperBound - Return an offset at or after the entry (true) or at or before it (false);
+   *   probes without any entry header move the bisection towards the safe side
+   * @returns A byte offset near the entry (the file size if no entry is past the point)
+   */
+  private async findEntryOffset(
+    filename: string,
+    size: number,
+    isPast: (timestamp: Date) => boolean,
+    upperBound: boolean,
+  ): Promise<number> {
+    const probeBytes = LOG_CONSTANTS.WINDOW_PROBE_BYTES;
+    let low = 0;
+    let high = size;
+
+    while (high - low > 2 * probeBytes) {
+      const middle = Math.floor((low + high) / 2);
+      const entry = await this.findEntryTimestamp(filename, middle, probeBytes);
+      if (!entry) {
+        if (upperBound) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      } else if (isPast(entry.timestamp)) {
+        high = entry.offset;
+      } else {
+        low = entry.offset;
+      }
+    }
+
+    return upperBound ? high : low;
+  }
+
+  /**
+   * Find the first entry header starting within a range of a file
+   *
+   * @returns The byte offset and timestamp of the entry, or undefined if the range has no header
+   * @throws RangeNotSupportedError with the file contents if the whole file was read instead
+   */
+  private async findEntryTimestamp(
+    filename: string,
+    offset: number,
+    length: number,
+  ): Promise<{ offset: number; timestamp: Date } | undefined> {
+    const buffer = await this.getRangeBuffer(filename, offset, offset + length - 1);
+    if (buffer.length > length) {
+      throw new RangeNotSupportedError(buffer);
+    }
+
+    // The range starts within a line; only complete lines are checked
+    let lineStart = buffer.indexOf(0x0a) + 1;
+    while (lineStart > 0 && lineStart < buffer.length) {
+      const lineEnd = buffer.indexOf(0x0a, lineStart);
+      if (lineEnd === -1) {
+        break;
+      }
+      const timestamp = extractTimestampFromLogEntry(buffer.subarray(lineStart, lineEnd).toString('utf-8'));
+      if (timestamp) {
+        return { offset: offset + lineStart, timestamp };
+      }
+      lineStart = lineEnd + 1;
+    }
+    return undefined;
+  }
+
+  /**
+   * Read a range of bytes from a file, falling back to the full file if range requests fail
+   *
+   * Callers detect the fallback by the length of the buffer returned. Files whose range requests
+   * failed or returned the whole file are remembered and read in full without another range request.
+   */
+  private async getRangeBuffer(filename: string, start: number, end: number): Promise<Buffer> {
+    if (!this.filesWithoutRanges.has(filename)) {
+      try {
+        const buffer = await new Promise<Buffer>((resolve, reject) => {
+          const stream = this.webdavClient.createReadStream(filename, { range: { start, end } });
+          const chunks: Buffer[] = [];
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+          stream.on('end', () => resolve(Buffer.concat(chunks)));
+          stream.on('error', reject);
+        });
+        if (buffer.length > end - start + 1) {
+          this.logger.warn(`Range request for ${filename} returned the whole file, reading it in full from now on`);
+          this.filesWithoutRanges.add(filename);
+        }
+        return buffer;
+      } catch (error) {
+        this.logger.warn(`Failed to read range ${start}-${end} for ${filename}, falling back to full file:`, error);
+        this.filesWithoutRanges.add(filename);
+      }
+    }
+    const content = await this.webdavClient.getFileContents(filename, { format: 'binary' });
+    return Buffer.from(content as ArrayBuffer);
+  }
+
   /**
    * Read multiple files with tail optimization
    */
@@ -0,0 +1,65 @@
+/**
+ * Fingerprinting of log entries for error clustering
+ *
+ * Entries are grouped by the message they share once the variable tokens (URLs, quoted values,
+ * IDs, timestamps and numbers) are replaced with placeholders, so that the same error logged
+ * for different sessions, orders or requests ends up in one cluster.
+ */
+
+import { createHash } from 'crypto';
+import type { ParsedLogEntry } from './log-types.js';
+
+/** Entry header before the message: "[timestamp GMT] LEVEL thread" with an optional "category []" */
+const HEADER = /^\[[^\]]+\] [A-Z]+ \S+ (?:[^\s[\]]+ \[[^\]]*\] ?)?/;
+
+/** Variable tokens and their placeholders, applied in order */
+const VARIABLE_TOKENS: [RegExp, string][] = [
+  [/\b[a-z][a-z\d+.-]*:\/\/[^\s"'<>]+/gi, '<url>'],
+  [/\b[\w.+-]+@[\w-]+\.[\w.-]+\b/g, '<email>'],
+  [/"[^"\n]*"/g, '"<value>"'],
+  [/(^|[^\w])'[^'\n]*'(?!\w)/g, "$1'<value>'"],
+  [/\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2}| GMT)?)?/g, '<time>'],
+  [/\b[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}\b/gi, '<id>'],
+  [/\b(session[_-]?id|session|dwsid|sid|token|request[_-]?id)([=:]\s*|\s+)[\w-]{6,}/gi, '$1$2<id>'],
+  [/\b(?:0x[\da-f]+|(?=[\da-f]*\d)(?=[\da-f]*[a-f])[\da-f]{8,})\b/gi, '<id>'],
+  [/\b(?=[a-z\d]*\d)(?=[a-z\d]*[a-z])[a-z\d]{8,}\b/gi, '<id>'],
+  // Line numbers of scripts locate the code and are kept
+  [/(?<!\.(?:js|ds|isml):)\b\d+(?:\.\d+)?\b/g, '<n>'],
+];
+
+export class LogFingerprint {
+  /**
+   * Replace the variable tokens of a message with placeholders
+   */
+  static normalize(message: string): string {
+    return VARIABLE_TOKENS
+      .reduce((text, [pattern, placeholder]) => text.replace(pattern, placeholder), message)
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Get the message of an entry: the first line without the entry header
+   */
+  static message(entry: ParsedLogEntry): string {
+    return entry.text.split('\n')[0].replace(HEADER, '').trim();
+  }
+
+  /**
+   * Get the normalized message of an entry
+   */
+  static signature(entry: ParsedLogEntry): string {
+    return this.normalize(this.message(entry));
+  }
+
+  /**
+   * Get the fingerprint of an entry, shared by the entries with the same level, logger category,
+   * signature and originating script
+   */
+  static fingerprint(entry: ParsedLogEntry): string {
+    return createHash('sha1')
+      .update([entry.level, entry.category, this.signature(entry), entry.script].join('\n'))
+      .digest('hex')
+      .slice(0, 12);
+  }
+}
@@ -4,7 +4,16 @@
 
 import { formatBytes } from '../../utils/utils.js';
 import { LOG_CONSTANTS, LOG_MESSAGES } from './log-constants.js';
-import type { LogSummary, LogFileInfo, LogLevel, JobLogInfo } from './log-types.js';
+import type { LogQuery } from './log-query.js';
+import type {
+  LogSummary,
+  LogFileInfo,
+  LogLevel,
+  LogCategory,
+  LogQueryHit,
+  LogTimeWindow,
+  JobLogInfo,
+} from './log-types.js';
 
 export class LogFormatter {
   /**
@@ -12,7 +21,7 @@ export class LogFormatter {
    */
   static formatLatestLogs(
     entries: string[],
-    level: LogLevel,
+    level: LogCategory,
     limit: number,
     files: string[],
   ): string {
@@ -35,11 +44,36 @@ export class LogFormatter {
     return `${LOG_MESSAGES.SEARCH_RESULTS(matches.length, pattern)}\n\n${matches.join('\n\n')}`;
   }
 
+  /**
+   * Format query hits with the matched text highlighted
+   * Hits with context lines are shown with line numbers, marking the lines of the entry with ">"
+   */
+  static formatQueryHits(hits: LogQueryHit[], query: LogQuery): string[] {
+    return hits.map(({ entry, before, after }) => {
+      const text = query.highlight(entry.text);
+      if (before.length === 0 && after.length === 0) {
+        return `[${entry.file}:${entry.line}] ${text}`;
+      }
+
+      const width = String(entry.endLine + after.length).length;
+      const numbered = (line: number, marker: string, content: string) =>
+        `${marker} ${String(line).padStart(width)} | ${content}`;
+      const firstBefore = entry.line - before.length;
+
+      return [
+        `[${entry.file}:${entry.line}]`,
+        ...before.map((line, index) => numbered(firstBefore + index, ' ', line)),
+        ...text.split('\n').map((line, index) => numbered(entry.line + index, '>', line)),
+        ...after.map((line, index) => numbered(entry.endLine + 1 + index, ' ', line)),
+      ].join('\n');
+    });
+  }
+
   /**
    * Format "no files found" message
    */
   static formatNoFilesFound(
-    level: LogLevel,
+    level: LogCategory,
     date: string,
     availableFiles: string[],
   ): string {
@@ -122,6 +156,13 @@ export class LogFormatter {
     return files.map(f => `${prefix}${f}`).join(', ');
   }
 
+  /**
+   * Format a query time window for display
+   */
+  static formatTimeWindow(window: LogTimeWindow): string {
+    return `${this.formatTimestamp(window.from)} - ${this.formatTimestamp(window.to)} GMT`;
+  }
+
   /**
    * Format timestamp for display
    */
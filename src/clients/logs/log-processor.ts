@@ -5,7 +5,34 @@
 import { parseLogEntries, extractUniqueErrors, normalizeFilePath, extractTimestampFromLogEntry } from '../../utils/utils.js';
 import { Logger } from '../../utils/logger.js';
 import { LOG_CONSTANTS } from './log-constants.js';
-import type { LogEntry, LogLevel, LogFileMetadata, ProcessedLogEntry, JobLogInfo } from './log-types.js';
+import type { LogQuery } from './log-query.js';
+import type {
+  LogEntry,
+  LogEntryFilter,
+  LogLevel,
+  LogFileMetadata,
+  LogQueryHit,
+  LogStackFrame,
+  LogTimeWindow,
+  ParsedLogEntry,
+  ProcessedLogEntry,
+  JobLogInfo,
+} from './log-types.js';
+
+/** Entry header: [timestamp GMT] LEVEL thread|id|site|pipeline|type|session category [] message */
+const ENTRY_HEADER = /^\[\d{4}-\d{2}-\d{2}[T ][\d:.]+ GMT\] ([A-Z]+) (\S+)(?: ([^\s[\]]+)(?= \[))?/;
+
+/** Script in a cartridge, e.g. "int_mycartridge/cartridge/scripts/checkout.js:42" */
+const CARTRIDGE_SCRIPT = /\b([\w.-]+)\/cartridge\/[\w$@~./-]*?\.(?:js|ds|isml)\b(?::\d+)?/;
+
+/** Cartridge, path and line of a script location; Rhino messages use "#" before the line number */
+const SCRIPT_LOCATION = /\b([\w.-]+)\/(cartridge\/[\w$@~./-]*?\.(?:js|ds|isml))\b(?:[:#](\d+))?/;
+
+/** Stack trace line: "at location" */
+const STACK_LINE = /^\s*at\s+(.+?)\s*$/;
+
+/** Location with a name in parentheses: "name (location)" or "location (name)" */
+const NAMED_LOCATION = /^(.+?) \((.+)\)$/;
 
 export class LogProcessor {
   private logger: Logger;
@@ -228,6 +255,220 @@ export class LogProcessor {
     });
   }
 
+  /**
+   * Split log content into entries with the header fields used by queries
+   * Lines before the first entry header (e.g. the end of an entry cut off by a tail read) form an
+   * entry without fields
+   */
+  parseStructuredEntries(file: string, content: string): ParsedLogEntry[] {
+    const entries: ParsedLogEntry[] = [];
+    const lines = content.split('\n');
+    let current: ParsedLogEntry | undefined;
+
+    lines.forEach((line, index) => {
+      const header = ENTRY_HEADER.exec(line);
+      if (header) {
+        const segments = header[2].split('|');
+        current = {
+          file,
+          line: index + 1,
+          endLine: index + 1,
+          text: line,
+          level: header[1],
+          thread: header[2],
+          site: /\bSites-[\w-]+/.exec(line)?.[0],
+          pipeline: segments.length >= 6 ? segments[3] : undefined,
+          session: segments.length >= 6 ? segments[5] : undefined,
+          category: header[3] === '-' ? undefined : header[3],
+        };
+        entries.push(current);
+      } else if (line.trim()) {
+        if (current) {
+          // Keep blank lines inside the entry so that its lines match the file line numbers
+          current.text += `${'\n'.repeat(index + 1 - current.endLine)}${line}`;
+          current.endLine = index + 1;
+        } else {
+          current = { file, line: index + 1, endLine: index + 1, text: line };
+          entries.push(current);
+        }
+      }
+    });
+
+    // The script may only be named in a continuation line (e.g. the first stack frame)
+    for (const entry of entries) {
+      const script = CARTRIDGE_SCRIPT.exec(entry.text);
+      if (script) {
+        entry.script = script[0];
+        entry.cartridge = script[1];
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parse the stack trace of an entry into frames
+   * The script location named in the message (e.g. "(int_foo/cartridge/scripts/x.js#12)") comes first,
+   * followed by the "at" lines; consecutive duplicates are skipped
+   */
+  parseStackFrames(text: string): LogStackFrame[] {
+    const [message, ...continuation] = text.split('\n');
+    const frames: LogStackFrame[] = [];
+    const add = (frame: LogStackFrame) => {
+      const previous = frames[frames.length - 1];
+      if (frames.length < LOG_CONSTANTS.MAX_STACK_FRAMES &&
+        !(previous?.path && previous.cartridge === frame.cartridge && previous.path === frame.path &&
+          previous.line === frame.line)) {
+        frames.push(frame);
+      }
+    };
+
+    const thrownAt = SCRIPT_LOCATION.exec(message);
+    if (thrownAt) {
+      add(this.toStackFrame(thrownAt[0], thrownAt[0]));
+    }
+
+    for (const line of continuation) {
+      const location = STACK_LINE.exec(line)?.[1];
+      if (!location) {
+        continue;
+      }
+
+      const named = NAMED_LOCATION.exec(location);
+      if (!named) {
+        add(this.toStackFrame(location, location));
+      } else if (SCRIPT_LOCATION.test(named[1])) {
+        add(this.toStackFrame(location, named[1], named[2]));
+      } else {
+        add(this.toStackFrame(location, named[2], named[1]));
+      }
+    }
+
+    return frames;
+  }
+
+  /**
+   * @param location - Location as logged
+   * @param script - Part of the location naming the script
+   * @param name - Function name
+   */
+  private toStackFrame(location: string, script: string, name?: string): LogStackFrame {
+    const match = SCRIPT_LOCATION.exec(script);
+    return {
+      location,
+      function: name,
+      cartridge: match?.[1],
+      path: match?.[2],
+      line: match?.[3] ? Number(match[3]) : undefined,
+    };
+  }
+
+  /**
+   * Check whether a text contains a token that is not part of a longer word,
+   * e.g. the order number "00001234" but not "100001234"
+   */
+  containsToken(text: string, token: string): boolean {
+    for (let index = text.indexOf(token); index !== -1; index = text.indexOf(token, index + 1)) {
+      if (!/\w/.test(text[index - 1] ?? '') && !/\w/.test(text[index + token.length] ?? '')) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check whether an entry belongs to the logger category and cartridge of a filter
+   * A category also matches its "custom." form (Logger.getLogger('checkout') writes "custom.checkout")
+   * and its sub-categories
+   */
+  matchesEntryFilter(entry: ParsedLogEntry, filter: LogEntryFilter): boolean {
+    if (filter.cartridge && entry.cartridge?.toLowerCase() !== filter.cartridge.toLowerCase()) {
+      return false;
+    }
+    if (!filter.category) {
+      return true;
+    }
+
+    const category = entry.category?.toLowerCase();
+    const wanted = filter.category.toLowerCase();
+    return category !== undefined && [wanted, `custom.${wanted}`].some(name =>
+      category === name || category.startsWith(`${name}.`),
+    );
+  }
+
+  /**
+   * Keep only the entries of log content that match a logger category and cartridge filter
+   */
+  filterContentByEntries(file: string, content: string, filter: LogEntryFilter): string {
+    return this.parseStructuredEntries(file, content)
+      .filter(entry => this.matchesEntryFilter(entry, filter))
+      .map(entry => entry.text)
+      .join('\n');
+  }
+
+  /**
+   * Find the entries matching a query, with the given number of file lines around each entry
+   *
+   * @param files - Files to search, in the order in which hits are reported
+   * @param filter - Additional condition on each entry (e.g. the log level of a job log search)
+   */
+  findQueryMatches(
+    files: string[],
+    fileContents: Map<string, string>,
+    query: LogQuery,
+    limit: number,
+    contextLines = 0,
+    filter?: (entry: ParsedLogEntry) => boolean,
+  ): LogQueryHit[] {
+    const hits: LogQueryHit[] = [];
+
+    for (const filename of files) {
+      const content = fileContents.get(filename);
+      if (!content) {
+        continue;
+      }
+
+      const lines = content.split('\n');
+      for (const entry of this.parseStructuredEntries(normalizeFilePath(filename), content)) {
+        if (hits.length >= limit) {
+          return hits;
+        }
+        if ((filter && !filter(entry)) || !query.matches(entry)) {
+          continue;
+        }
+        hits.push({
+          entry,
+          before: lines.slice(Math.max(0, entry.line - 1 - contextLines), entry.line - 1),
+          after: lines.slice(entry.endLine, entry.endLine + contextLines),
+        });
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * Keep only the lines of entries written within a time window
+   * Continuation lines (e.g. stack traces) belong to the entry above them; lines before the
+   * first timestamped entry are dropped because their time is unknown
+   */
+  filterContentByTimeWindow(content: string, window: LogTimeWindow): string {
+    const lines: string[] = [];
+    let inWindow = false;
+
+    for (const line of content.split('\n')) {
+      const timestamp = extractTimestampFromLogEntry(line);
+      if (timestamp) {
+        inWindow = timestamp >= window.from && timestamp <= window.to;
+      }
+      if (inWindow) {
+        lines.push(line);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
   /**
    * Process job log files - handles all log levels in one file
    */
@@ -0,0 +1,319 @@
+/**
+ * Query language for log searches
+ *
+ * - `timeout`, `"connection refused"`: text terms, matched as substrings of the whole entry
+ * - `/time(d )?out/s`: regular expression terms, with optional flags after the closing slash; a word
+ *   starting with a slash is only taken for a regular expression if it ends with one (and the flags),
+ *   so paths such as `/Cart-Show` are text terms
+ * - `level:error`, `thread:`, `site:`, `session:`, `category:`, `cartridge:`, `file:`: field filters
+ *   whose value may be a word, a quoted phrase or a regular expression
+ * - `AND` (implied between terms), `OR`, `NOT` or `-term`, and parentheses; NOT binds tighter
+ *   than AND, and AND tighter than OR
+ *
+ * Terms are case-insensitive unless the query is created with `caseSensitive`.
+ */
+
+import type { ParsedLogEntry } from './log-types.js';
+
+export const LOG_QUERY_FIELDS = ['level', 'thread', 'site', 'session', 'category', 'cartridge', 'file'] as const;
+
+export type LogQueryField = typeof LOG_QUERY_FIELDS[number];
+
+type QueryToken =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT' }
+  | { type: 'term'; field?: LogQueryField; pattern: RegExp };
+
+type QueryNode =
+  | { type: 'term'; field?: LogQueryField; pattern: RegExp }
+  | { type: 'and' | 'or'; nodes: QueryNode[] }
+  | { type: 'not'; node: QueryNode };
+
+const FIELD_PREFIX = new RegExp(`^(${LOG_QUERY_FIELDS.join('|')}):(?=\\S)`);
+const SUPPORTED_REGEX_FLAGS = /^[imsu]*$/;
+
+export class LogQuery {
+  private constructor(
+    /** Query as written */
+    readonly text: string,
+    private readonly root: QueryNode,
+    /** Text terms outside NOT, used for highlighting */
+    private readonly highlightPatterns: RegExp[],
+  ) {}
+
+  /**
+   * Parse a query
+   *
+   * @throws Error describing the syntax error
+   */
+  static parse(text: string, options: { caseSensitive?: boolean } = {}): LogQuery {
+    const tokens = tokenize(text, options.caseSensitive ?? false);
+    if (tokens.length === 0) {
+      throw new Error('Query must not be empty');
+    }
+
+    const parser = new QueryParser(tokens);
+    const root = parser.parse();
+    return new LogQuery(text, root, collectHighlightPatterns(root));
+  }
+
+  /**
+   * Check whether an entry matches the query
+   */
+  matches(entry: ParsedLogEntry): boolean {
+    return evaluate(this.root, entry);
+  }
+
+  /**
+   * Wrap the text matched by the query's text terms in `**`
+   */
+  highlight(text: string): string {
+    const ranges: Array<[number, number]> = [];
+    for (const pattern of this.highlightPatterns) {
+      const global = new RegExp(pattern.source, `${pattern.flags}g`);
+      for (const match of text.matchAll(global)) {
+        if (match[0].length > 0) {
+          ranges.push([match.index, match.index + match[0].length]);
+        }
+      }
+    }
+    if (ranges.length === 0) {
+      return text;
+    }
+
+    // Merge overlapping matches so that markers are never nested
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged = [ranges[0]];
+    for (const [start, end] of ranges.slice(1)) {
+      const last = merged[merged.length - 1];
+      if (start <= last[1]) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    }
+
+    let result = '';
+    let position = 0;
+    for (const [start, end] of merged) {
+      result += `${text.slice(position, start)}**${text.slice(start, end)}**`;
+      position = end;
+    }
+    return result + text.slice(position);
+  }
+}
+
+class QueryParser {
+  private position = 0;
+
+  constructor(private readonly tokens: QueryToken[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const token = this.tokens[this.position];
+    if (token) {
+      throw new Error(`Unexpected "${token.type}" in query`);
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const nodes = [this.parseAnd()];
+    while (this.peek() === 'OR') {
+      this.position++;
+      nodes.push(this.parseAnd());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'or', nodes };
+  }
+
+  private parseAnd(): QueryNode {
+    const nodes = [this.parseNot()];
+    for (let next = this.peek(); next && next !== ')' && next !== 'OR'; next = this.peek()) {
+      if (next === 'AND') {
+        this.position++;
+      }
+      nodes.push(this.parseNot());
+    }
+    return nodes.length === 1 ? nodes[0] : { type: 'and', nodes };
+  }
+
+  private parseNot(): QueryNode {
+    if (this.peek() === 'NOT') {
+      this.position++;
+      return { type: 'not', node: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.tokens[this.position++];
+    if (!token) {
+      throw new Error('Query ends unexpectedly: expected a term after an operator');
+    }
+    if (token.type === 'term') {
+      return token;
+    }
+    if (token.type === '(') {
+      const node = this.parseOr();
+      if (this.tokens[this.position++]?.type !== ')') {
+        throw new Error('Missing ")" in query');
+      }
+      return node;
+    }
+    throw new Error(`Unexpected "${token.type}" in query: expected a term`);
+  }
+
+  private peek(): QueryToken['type'] | undefined {
+    return this.tokens[this.position]?.type;
+  }
+}
+
+/**
+ * Split a query into operators and compiled terms
+ */
+function tokenize(text: string, caseSensitive: boolean): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let position = 0;
+  let depth = 0;
+
+  while (position < text.length) {
+    const char = text[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+    if (char === '(' || char === ')') {
+      depth += char === '(' ? 1 : -1;
+      tokens.push({ type: char });
+      position++;
+      continue;
+    }
+    if (char === '-' && position + 1 < text.length && !/\s/.test(text[position + 1])) {
+      tokens.push({ type: 'NOT' });
+      position++;
+      continue;
+    }
+
+    const field = FIELD_PREFIX.exec(text.slice(position))?.[1] as LogQueryField | undefined;
+    if (field) {
+      position += field.length + 1;
+    }
+
+    const value = readValue(text, position, depth);
+    position = value.end;
+    if (!field && !value.quoted && !value.regex && ['AND', 'OR', 'NOT'].includes(value.text)) {
+      tokens.push({ type: value.text as 'AND' | 'OR' | 'NOT' });
+      continue;
+    }
+
+    tokens.push({
+      type: 'term',
+      field,
+      pattern: value.regex
+        ? compileRegex(value.text, value.flags, caseSensitive)
+        : new RegExp(escapeRegex(value.text), caseSensitive ? '' : 'i'),
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Read a quoted phrase, a /regex/flags literal or a bare word starting at the given position
+ *
+ * A slash starts a regular expression only if the closing slash and its flags end the word;
+ * otherwise the word is read as a bare word.
+ */
+function readValue(text: string, start: number, depth: number): {
+  text: string;
+  end: number;
+  quoted?: boolean;
+  regex?: boolean;
+  flags?: string;
+} {
+  const delimiter = text[start];
+  if (delimiter === '"' || delimiter === '/') {
+    let value = '';
+    for (let position = start + 1; position < text.length; position++) {
+      const char = text[position];
+      if (char === '\\' && position + 1 < text.length) {
+        // Keep escapes in regular expressions, unescape quotes in phrases
+        value += delimiter === '/' && text[position + 1] !== '/' ? char + text[position + 1] : text[position + 1];
+        position++;
+      } else if (char === delimiter) {
+        if (delimiter === '"') {
+          return { text: value, end: position + 1, quoted: true };
+        }
+        const flags = /^[a-z]*/.exec(text.slice(position + 1))![0];
+        const end = position + 1 + flags.length;
+        if (isWordEnd(text, end, depth)) {
+          return { text: value, end, regex: true, flags };
+        }
+        break;
+      } else {
+        value += char;
+      }
+    }
+    if (delimiter === '"') {
+      throw new Error(`Unterminated quoted phrase in query: ${text.slice(start)}`);
+    }
+  }
+
+  let end = start;
+  while (!isWordEnd(text, end, depth)) {
+    end++;
+  }
+  return { text: text.slice(start, end), end };
+}
+
+/**
+ * Bare words end at whitespace, or at a closing parenthesis inside a group
+ */
+function isWordEnd(text: string, position: number, depth: number): boolean {
+  return position >= text.length || /\s/.test(text[position]) || (depth > 0 && text[position] === ')');
+}
+
+function compileRegex(source: string, flags: string = '', caseSensitive: boolean): RegExp {
+  if (!SUPPORTED_REGEX_FLAGS.test(flags)) {
+    throw new Error(
+      `Unsupported flags "${flags}" in /${source}/${flags}: only i, m, s and u are allowed ` +
+        `(quote the term to search for a path such as "/${source}/${flags}")`,
+    );
+  }
+  const effectiveFlags = caseSensitive || flags.includes('i') ? flags : `${flags}i`;
+  try {
+    return new RegExp(source, effectiveFlags);
+  } catch (error) {
+    throw new Error(`Invalid regular expression /${source}/: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function evaluate(node: QueryNode, entry: ParsedLogEntry): boolean {
+  switch (node.type) {
+    case 'term': {
+      const value = node.field ? entry[node.field] : entry.text;
+      return value !== undefined && node.pattern.test(value);
+    }
+    case 'and':
+      return node.nodes.every(child => evaluate(child, entry));
+    case 'or':
+      return node.nodes.some(child => evaluate(child, entry));
+    case 'not':
+      return !evaluate(node.node, entry);
+  }
+}
+
+function collectHighlightPatterns(node: QueryNode): RegExp[] {
+  switch (node.type) {
+    case 'term':
+      return node.field ? [] : [node.pattern];
+    case 'and':
+    case 'or':
+      return node.nodes.flatMap(collectHighlightPatterns);
+    case 'not':
+      return [];
+  }
+}
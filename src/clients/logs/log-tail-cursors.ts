@@ -0,0 +1,106 @@
+/**
+ * Session cursors for live log tailing
+ *
+ * A cursor remembers the byte offset reached in each followed log file, so that every tail_logs
+ * call only returns the entries appended since the previous call. Cursors belong to the MCP
+ * session that created them: other sessions cannot resume them, and the cursor limit applies
+ * to each session separately.
+ */
+
+import { randomUUID } from 'crypto';
+import { LOG_CONSTANTS } from './log-constants.js';
+import type { LogLevel, LogTailState } from './log-types.js';
+
+export interface LogTailCursor {
+  id: string;
+  /** MCP session that created the cursor (undefined for stdio) */
+  sessionId?: string;
+  /** Client of the instance whose logs are followed */
+  owner: unknown;
+  /** Levels chosen when the cursor was created */
+  levels: LogLevel[];
+  state: LogTailState;
+  lastUsed: number;
+}
+
+export class LogTailCursorStore {
+  /** Cursors of each session ('' for stdio), ordered from least to most recently used */
+  private sessions = new Map<string, Map<string, LogTailCursor>>();
+
+  constructor(
+    private readonly ttlMs: number = LOG_CONSTANTS.TAIL_CURSOR_TTL_MS,
+    private readonly maxCursors: number = LOG_CONSTANTS.MAX_TAIL_CURSORS,
+  ) {}
+
+  /**
+   * Create a cursor, discarding the least recently used cursors of the session above the limit
+   *
+   * @param sessionId - MCP session of the call (undefined for stdio)
+   * @returns The cursor ID
+   */
+  create(sessionId: string | undefined, owner: unknown, levels: LogLevel[], state: LogTailState): string {
+    this.evictExpired();
+    const key = sessionId ?? '';
+    const cursors = this.sessions.get(key) ?? new Map<string, LogTailCursor>();
+    this.sessions.set(key, cursors);
+
+    const id = randomUUID();
+    cursors.set(id, { id, sessionId, owner, levels, state, lastUsed: Date.now() });
+    while (cursors.size > this.maxCursors) {
+      cursors.delete(cursors.keys().next().value!);
+    }
+    return id;
+  }
+
+  /**
+   * Get a cursor of a session and mark it as used
+   *
+   * @param sessionId - MCP session of the call (undefined for stdio)
+   * @throws Error if the session has no such cursor, it has expired, or it belongs to another instance
+   */
+  get(id: string, sessionId: string | undefined, owner: unknown): LogTailCursor {
+    this.evictExpired();
+    const cursors = this.sessions.get(sessionId ?? '');
+    const cursor = cursors?.get(id);
+    if (!cursors || !cursor) {
+      throw new Error(`Unknown or expired tail cursor "${id}". Call tail_logs without a cursor to start a new tail`);
+    }
+    if (cursor.owner !== owner) {
+      throw new Error(`Tail cursor "${id}" belongs to another instance`);
+    }
+
+    // Re-insert to keep the map ordered from least to most recently used
+    cursors.delete(id);
+    cursor.lastUsed = Date.now();
+    cursors.set(id, cursor);
+    return cursor;
+  }
+
+  /**
+   * Discard the cursors of a closed session
+   */
+  clearSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Discard all cursors
+   */
+  clear(): void {
+    this.sessions.clear();
+  }
+
+  private evictExpired(): void {
+    const expiredBefore = Date.now() - this.ttlMs;
+    for (const [key, cursors] of this.sessions) {
+      for (const [id, cursor] of cursors) {
+        if (cursor.lastUsed < expiredBefore) {
+          cursors.delete(id);
+        }
+      }
+      if (cursors.size === 0) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+}
@@ -4,6 +4,24 @@
 
 export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
 
+/**
+ * Log file families written by an instance, identified by their file name prefix
+ * (the levels also include their custom* variants, e.g. "customerror-"; "custom" is the family of the
+ * custom-<prefix>-* files written by loggers with their own file prefix)
+ */
+export type LogCategory =
+  | LogLevel
+  | 'fatal'
+  | 'api'
+  | 'api-deprecation'
+  | 'quota'
+  | 'security'
+  | 'service'
+  | 'sql'
+  | 'staging'
+  | 'syslog'
+  | 'custom';
+
 export interface LogFileInfo {
   name: string;
   size: number;
@@ -13,6 +31,7 @@ export interface LogFileInfo {
 export interface LogFileMetadata {
   filename: string;
   lastmod: string;
+  size?: number;
 }
 
 export interface LogSummary {
@@ -40,10 +59,458 @@ export interface ProcessedLogEntry {
 }
 
 export interface LogSearchOptions {
-  pattern: string;
+  /** Text to find (substring match), or a query in the LogQuery syntax */
+  pattern: string | LogQueryRequest;
   logLevel?: LogLevel;
   limit: number;
   date?: string;
+  /** Time window to search instead of a single date */
+  window?: LogTimeWindow;
+  /** Only search entries of this logger category and cartridge */
+  filter?: LogEntryFilter;
+}
+
+/**
+ * Filter on the logger category and cartridge of log entries
+ */
+export interface LogEntryFilter {
+  /** Logger category, also matching its "custom." form and its sub-categories (case-insensitive) */
+  category?: string;
+  /** Cartridge of the script the entry originates from (case-insensitive) */
+  cartridge?: string;
+}
+
+/**
+ * Search with a query in the LogQuery syntax
+ */
+export interface LogQueryRequest {
+  query: string;
+  /** Match text terms case-sensitively (default: false) */
+  caseSensitive?: boolean;
+  /** Number of raw file lines to show before and after each matching entry (default: 0) */
+  contextLines?: number;
+}
+
+/**
+ * Log entry with the header fields that queries can filter on
+ */
+export interface ParsedLogEntry {
+  file: string;
+  /** 1-based number of the first line of the entry */
+  line: number;
+  /** 1-based number of the last line of the entry (including continuation lines) */
+  endLine: number;
+  /** Entry text including continuation lines */
+  text: string;
+  level?: string;
+  thread?: string;
+  site?: string;
+  /** Pipeline or controller of a request thread, e.g. "Cart-AddProduct" */
+  pipeline?: string;
+  session?: string;
+  /** Logger category, e.g. "custom.checkout" for Logger.getLogger('checkout') */
+  category?: string;
+  /** First cartridge script named by the entry, e.g. "int_mycartridge/cartridge/scripts/checkout.js:42" */
+  script?: string;
+  /** Cartridge of the script */
+  cartridge?: string;
+}
+
+/**
+ * Entry matching a query, with the surrounding file lines
+ */
+export interface LogQueryHit {
+  entry: ParsedLogEntry;
+  before: string[];
+  after: string[];
+}
+
+/**
+ * Time window of a log query (log timestamps are GMT)
+ */
+export interface LogTimeWindow {
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Entry of a quota log: a quota whose limit or warn threshold was exceeded
+ */
+export interface QuotaViolation {
+  /** Quota name, e.g. "api.dw.util.Collection" */
+  quota: string;
+  /** How the quota is applied, e.g. "enforced" or "internal" */
+  enforcement: string;
+  limit: number;
+  /** Whether the limit itself or only the warn threshold was exceeded */
+  exceeded: 'limit' | 'warn threshold';
+  /** Number of times the quota was exceeded, as reported by the entry */
+  count: number;
+  /** Highest value reached */
+  maxActual: number;
+  /** Request, site and pipeline in which the quota was exceeded */
+  location?: string;
+  timestamp?: string;
+  file: string;
+}
+
+/**
+ * Quota violations aggregated by quota
+ */
+export interface QuotaViolationSummary {
+  quota: string;
+  enforcement: string;
+  limit: number;
+  /** Whether the limit (not only the warn threshold) was exceeded at least once */
+  limitExceeded: boolean;
+  /** Number of quota log entries */
+  entries: number;
+  /** Sum of the exceed counts of the entries */
+  exceededCount: number;
+  maxActual: number;
+  lastSeen?: string;
+  /** Distinct locations (at most MAX_CATEGORY_LOCATIONS) */
+  locations: string[];
+}
+
+/**
+ * Entry of an API deprecation log: a call to a deprecated script API
+ */
+export interface ApiDeprecationUsage {
+  /** Deprecated API, e.g. "dw.catalog.Product.getAvailabilityModel(ProductInventoryList)" */
+  api: string;
+  /** Script (with line number when logged) that called the API */
+  location?: string;
+  timestamp?: string;
+  file: string;
+}
+
+/**
+ * Deprecated API usages aggregated by API
+ */
+export interface ApiDeprecationSummary {
+  api: string;
+  /** Number of logged usages */
+  count: number;
+  lastSeen?: string;
+  /** Distinct calling scripts (at most MAX_CATEGORY_LOCATIONS) */
+  locations: string[];
+}
+
+/**
+ * Entry of a service log written by the service framework
+ */
+export interface ServiceLogEntry {
+  /** Service ID, e.g. "payment.adyen.authorize" */
+  service: string;
+  /** Logger suffix, e.g. "HEAD" (status line) or "COMM" (request and response) */
+  type?: string;
+  level: string;
+  timestamp?: string;
+  file: string;
+  message: string;
+}
+
+export interface QuotaViolationReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  /** Number of quota log entries */
+  totalEntries: number;
+  quotas: QuotaViolationSummary[];
+}
+
+export interface ApiDeprecationReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  /** Number of logged deprecated API usages */
+  totalUsages: number;
+  apis: ApiDeprecationSummary[];
+}
+
+export interface ServiceLogReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  /** Number of matching entries and errors by service, over all matching entries */
+  services: Record<string, { entries: number; errors: number }>;
+  /** Matching entries that were not returned because of the limit */
+  omittedEntries: number;
+  /** Latest matching entries, newest first */
+  entries: ServiceLogEntry[];
+}
+
+export interface ServiceLogOptions {
+  /** Only return entries of services whose ID contains this text (case-insensitive) */
+  serviceName?: string;
+  level?: LogLevel;
+  limit: number;
+  date?: string;
+  window?: LogTimeWindow;
+}
+
+export interface SecurityLogEntry {
+  /** Logger category, e.g. "security.login" */
+  category: string;
+  level: string;
+  timestamp?: string;
+  file: string;
+  message: string;
+  /** User or customer login named by the message */
+  user?: string;
+  /** IPv4 address named by the message */
+  ipAddress?: string;
+}
+
+export interface SecurityLogReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  /** Number of matching entries and errors by logger category, over all matching entries */
+  categories: Record<string, { entries: number; errors: number }>;
+  /** Number of matching entries by user, to spot repeated failed logins */
+  users: Record<string, number>;
+  /** Number of matching entries by IP address */
+  ipAddresses: Record<string, number>;
+  /** Matching entries that were not returned because of the limit */
+  omittedEntries: number;
+  /** Latest matching entries, newest first */
+  entries: SecurityLogEntry[];
+}
+
+export interface SecurityLogOptions {
+  /** Only return entries of logger categories containing this text (case-insensitive) */
+  category?: string;
+  level?: LogLevel;
+  limit: number;
+  date?: string;
+  window?: LogTimeWindow;
+}
+
+export interface SqlLogEntry {
+  /** Logger category */
+  category: string;
+  level: string;
+  timestamp?: string;
+  file: string;
+  message: string;
+  /** Execution time in milliseconds, when logged */
+  durationMs?: number;
+  /** SQL statement named by the message */
+  statement?: string;
+}
+
+export interface SqlLogReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  /** Matching entries that were not returned because of the limit */
+  omittedEntries: number;
+  /** Matching entries, slowest first (entries without a duration last, newest first) */
+  entries: SqlLogEntry[];
+}
+
+export interface SqlLogOptions {
+  /** Only return entries that took at least this many milliseconds */
+  minDurationMs?: number;
+  level?: LogLevel;
+  limit: number;
+  date?: string;
+  window?: LogTimeWindow;
+}
+
+/**
+ * Number of entries written by a logger category
+ */
+export interface LoggerCategoryCount {
+  category: string;
+  entries: number;
+  /** Number of entries by level */
+  levels: Record<string, number>;
+  /** Log files the entries were written to */
+  files: string[];
+  /** Cartridges of the scripts named by the entries */
+  cartridges: string[];
+}
+
+export interface LoggerCategoryReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  /** Categories with the most entries first */
+  categories: LoggerCategoryCount[];
+  /** Categories that were not returned because of the limit */
+  omittedCategories: number;
+}
+
+/**
+ * Entries that share a fingerprint: the same message once IDs, numbers, URLs and quoted values
+ * are replaced with placeholders
+ */
+export interface LogErrorCluster {
+  fingerprint: string;
+  /** Normalized message, e.g. 'Order <n> failed for session <id>: "<value>"' */
+  signature: string;
+  level: string;
+  category?: string;
+  /** Cartridge script the entries originate from */
+  script?: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  files: string[];
+  /** First entries of the cluster, with their stack traces */
+  examples: string[];
+}
+
+export interface ErrorClusterOptions {
+  /** Levels whose log files are clustered (default: error) */
+  levels?: LogLevel[];
+  /** Maximum number of clusters to return */
+  limit: number;
+  date?: string;
+  /** Time window to analyze instead of a single date */
+  window?: LogTimeWindow;
+  /** Only cluster entries of this logger category and cartridge */
+  filter?: LogEntryFilter;
+}
+
+export interface ErrorClusterReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  totalEntries: number;
+  /** Largest clusters first */
+  clusters: LogErrorCluster[];
+  /** Clusters that were not returned because of the limit */
+  omittedClusters: number;
+}
+
+/**
+ * Frame of a script stack trace, e.g. "at int_foo/cartridge/scripts/helpers/x.js:123 (getPrice)"
+ */
+export interface LogStackFrame {
+  /** Location as logged, without "at" */
+  location: string;
+  function?: string;
+  cartridge?: string;
+  /** Path within the cartridge, e.g. "cartridge/scripts/helpers/x.js" */
+  path?: string;
+  line?: number;
+  /** Local source of the frame, when it was found under the cartridges root */
+  source?: LogFrameSource;
+}
+
+export interface LogFrameSource {
+  /** Absolute path of the local file */
+  file: string;
+  line: number;
+  /** Numbered lines around the frame line, which is marked with ">" */
+  snippet: string;
+}
+
+/**
+ * Entries with the same fingerprint and their stack trace
+ */
+export interface LogStackTrace {
+  fingerprint: string;
+  /** First line of the latest entry without the entry header */
+  message: string;
+  level: string;
+  category?: string;
+  count: number;
+  firstSeen?: string;
+  lastSeen?: string;
+  files: string[];
+  /** Frames of the latest entry, the location named in the message first */
+  frames: LogStackFrame[];
+}
+
+export interface StackTraceOptions {
+  /** Levels whose log files are read (default: error) */
+  levels?: LogLevel[];
+  /** Only return entries containing this text (case-insensitive) */
+  pattern?: string;
+  /** Maximum number of stack traces to return */
+  limit: number;
+  date?: string;
+  /** Time window to analyze instead of a single date */
+  window?: LogTimeWindow;
+  filter?: LogEntryFilter;
+  /** Local directory containing the cartridges, to attach the source of the frames */
+  cartridgesRoot?: string;
+  /** Number of source lines shown before and after each frame line */
+  contextLines?: number;
+}
+
+export interface StackTraceReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  cartridgesRoot?: string;
+  /** Number of matching entries with a stack trace */
+  totalEntries: number;
+  /** Most frequent stack traces first */
+  traces: LogStackTrace[];
+  /** Stack traces that were not returned because of the limit */
+  omittedTraces: number;
+  /** Cartridges named by the returned frames that were not found under the cartridges root */
+  unresolvedCartridges?: string[];
+}
+
+/**
+ * Identifier a request trace follows across the log files
+ */
+export type RequestTraceIdType = 'session' | 'request' | 'order';
+
+export interface RequestTraceOptions {
+  idType: RequestTraceIdType;
+  id: string;
+  /** Also include the other entries of the sessions that logged the identifier */
+  followSessions?: boolean;
+  limit: number;
+  date?: string;
+  window?: LogTimeWindow;
+}
+
+/**
+ * Entry of a request trace timeline
+ */
+export interface RequestTraceEntry {
+  timestamp?: string;
+  file: string;
+  line: number;
+  level: string;
+  category?: string;
+  site?: string;
+  /** Pipeline or controller of the request, e.g. "Cart-AddProduct" */
+  pipeline?: string;
+  session?: string;
+  /** Whether the entry was only included as an entry of a followed session */
+  followed?: boolean;
+  text: string;
+}
+
+export interface RequestTraceReport {
+  /** Date or time window that was analyzed */
+  period: string;
+  files: string[];
+  idType: RequestTraceIdType;
+  id: string;
+  /** Number of matching entries, by level */
+  totalEntries: number;
+  levels: Record<string, number>;
+  /** Sessions, sites and pipelines of the matching entries, in order of appearance */
+  sessions: string[];
+  sites: string[];
+  pipelines: string[];
+  firstSeen?: string;
+  lastSeen?: string;
+  /** Earliest matching entries that were not returned because of the limit */
+  omittedEntries: number;
+  /** Latest matching entries, oldest first */
+  entries: RequestTraceEntry[];
 }
 
 export interface LogFileFilter {
@@ -78,3 +545,47 @@ export interface WebDAVClientConfig {
 export interface FileReadOptions {
   maxBytes?: number;
 }
+
+export interface AppendedFileContent {
+  /** Complete lines appended since the previous offset */
+  content: string;
+  /** Byte offset to continue reading from */
+  offset: number;
+  /** File size at the time of the read */
+  size: number;
+  /** Appended bytes that were not read because they exceeded maxBytes */
+  skippedBytes: number;
+  /** Whether the file was smaller than the previous offset and was read from the beginning */
+  rotated: boolean;
+}
+
+export interface LogTailOptions {
+  levels: LogLevel[];
+  /** Case-insensitive text that returned entries must contain */
+  pattern?: string;
+  /** Maximum number of entries to return (the newest are kept) */
+  limit: number;
+}
+
+export interface LogTailState {
+  /** Byte offset to continue reading from, by log file path */
+  offsets: Record<string, number>;
+}
+
+export interface TailedLogEntry {
+  file: string;
+  level: LogLevel;
+  timestamp?: string;
+  entry: string;
+}
+
+export interface LogTailPoll {
+  state: LogTailState;
+  entries: TailedLogEntry[];
+  /** Log files being followed */
+  files: string[];
+  /** Matching entries that were not returned because of the limit */
+  droppedEntries: number;
+  /** Appended bytes that were not read because too much was written between two polls */
+  skippedBytes: number;
+}
@@ -81,13 +81,24 @@ export class WebDAVClientManager {
    */
   async testConnection(): Promise<boolean> {
     try {
-      const client = this.getClient();
-      await client.getDirectoryContents('/');
-      this.logger.debug('WebDAV connection test successful');
+      await this.checkConnection();
       return true;
     } catch (error) {
       this.logger.error('WebDAV connection test failed:', error);
       return false;
     }
   }
+
+  /**
+   * List the log directory to verify the WebDAV connection
+   *
+   * @returns Number of entries in the log directory
+   * @throws Error with the HTTP status (`status`) or network error code of the failed listing
+   */
+  async checkConnection(): Promise<number> {
+    const client = this.getClient();
+    const contents = await client.getDirectoryContents('/');
+    this.logger.debug('WebDAV connection test successful');
+    return Array.isArray(contents) ? contents.length : contents.data.length;
+  }
 }
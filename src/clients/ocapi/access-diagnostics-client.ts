@@ -0,0 +1,229 @@
+/**
+ * OCAPI Access Diagnostics Client
+ *
+ * This module probes Data API resources with minimal requests to find out which resources
+ * and methods the configured API client may call, and builds the Business Manager OCAPI
+ * settings that grant the missing permissions.
+ */
+
+import { OCAPIConfig } from '../../types/types.js';
+import { OCAPIAuthClient } from '../base/ocapi-auth-client.js';
+import { HttpRequestError } from '../base/http-client.js';
+import { buildOCAPISettings, OCAPIFaultError, OCAPISettings } from '../base/ocapi-fault.js';
+import { buildOCAPIBaseUrl } from '../../utils/ocapi-url-builder.js';
+
+/** ID substituted for path parameters; no document with this ID exists, so nothing is changed */
+export const PROBE_PLACEHOLDER_ID = '__sfcc_mcp_access_probe__';
+
+/**
+ * Outcome of probing a resource method
+ * - allowed: the request passed the OCAPI permission check
+ * - denied: the API client lacks the resource permission
+ * - not_found: the resource does not exist in the OCAPI version
+ * - skipped: not probed because the request would create or modify data
+ * - error: the probe failed for another reason (network, timeout, server error)
+ */
+export type OCAPIAccessStatus = 'allowed' | 'denied' | 'not_found' | 'skipped' | 'error';
+
+/**
+ * Resource method to probe
+ */
+export interface OCAPIAccessProbe {
+  /** Path template of the resource (e.g. /sites/{site_id}/orders/{order_no}) */
+  path: string;
+  /** Lowercase HTTP method */
+  method: string;
+  /** Whether the method only reads data (GET and POST searches) */
+  readOnly: boolean;
+  /** Tools and clients calling the resource method */
+  usedBy: string[];
+  /** Query parameters of the probe request */
+  queryParams?: Record<string, string>;
+  /** Body of the probe request (POST searches) */
+  body?: Record<string, any>;
+}
+
+/**
+ * Probe result of a resource method
+ */
+export interface OCAPIAccessResult {
+  /** Resource ID used in the OCAPI settings (e.g. /code_versions/*) */
+  resourceId: string;
+  method: string;
+  access: OCAPIAccessStatus;
+  usedBy: string[];
+  /** HTTP status of the probe response */
+  status?: number;
+  /** OCAPI fault type of the probe response */
+  fault?: string;
+  /** Why the method was skipped or the probe failed */
+  reason?: string;
+}
+
+/**
+ * Access report of the configured API client
+ */
+export interface OCAPIAccessReport {
+  hostname: string;
+  clientId: string;
+  version: string;
+  summary: Record<OCAPIAccessStatus, number>;
+  results: OCAPIAccessResult[];
+  /** OCAPI settings granting the denied resource methods (undefined if nothing is denied) */
+  settings?: OCAPISettings;
+}
+
+/**
+ * Options for probing resources
+ */
+export interface OCAPIAccessProbeOptions {
+  /** Site ID used for the site_id parameter of read probes */
+  siteId?: string;
+  /** Probe PATCH and DELETE methods against placeholder documents (disable for read-only instances) */
+  probeWrites?: boolean;
+}
+
+/**
+ * OCAPI Access Diagnostics Client
+ * Probes resource permissions of the configured API client
+ */
+export class OCAPIAccessDiagnosticsClient extends OCAPIAuthClient {
+  private readonly version: string;
+
+  constructor(private readonly ocapiConfig: OCAPIConfig) {
+    super(ocapiConfig);
+    // Override the baseUrl for this specialized client
+    this.baseUrl = buildOCAPIBaseUrl(ocapiConfig);
+    this.version = ocapiConfig.version ?? 'v23_2';
+  }
+
+  /**
+   * Probe resource methods one at a time and report the allowed and denied ones
+   *
+   * @param probes - Resource methods to probe
+   * @param options - Probe options
+   * @returns Access report with the OCAPI settings for the denied resource methods
+   * @throws Error if the API client cannot authenticate
+   */
+  async diagnoseAccess(probes: OCAPIAccessProbe[], options: OCAPIAccessProbeOptions = {}): Promise<OCAPIAccessReport> {
+    const results: OCAPIAccessResult[] = [];
+    for (const probe of probes) {
+      results.push(await this.probeAccess(probe, options));
+    }
+
+    const summary: Record<OCAPIAccessStatus, number> = { allowed: 0, denied: 0, not_found: 0, skipped: 0, error: 0 };
+    for (const result of results) {
+      summary[result.access]++;
+    }
+
+    // Group the denied methods by resource ID
+    const denied = new Map<string, string[]>();
+    for (const result of results.filter((item) => item.access === 'denied')) {
+      denied.set(result.resourceId, [...(denied.get(result.resourceId) ?? []), result.method]);
+    }
+    const settings = denied.size > 0
+      ? buildOCAPISettings(
+        this.ocapiConfig.clientId,
+        this.version,
+        [...denied].map(([resourceId, methods]) => ({ resourceId, methods })),
+      )
+      : undefined;
+
+    return {
+      hostname: this.ocapiConfig.hostname,
+      clientId: this.ocapiConfig.clientId,
+      version: this.version,
+      summary,
+      results,
+      settings,
+    };
+  }
+
+  /**
+   * Probe a single resource method
+   *
+   * Read methods are called with the configured site and a page size of 1. PATCH and DELETE
+   * are called on a placeholder document: OCAPI checks the client permissions before looking
+   * up the document, so a "not found" response means the method is allowed. Methods that
+   * would create data (POST, PUT) are not probed.
+   */
+  async probeAccess(probe: OCAPIAccessProbe, options: OCAPIAccessProbeOptions = {}): Promise<OCAPIAccessResult> {
+    const resourceId = probe.path.replace(/\{\w+\}/g, '*');
+    const result = { resourceId, method: probe.method, usedBy: probe.usedBy };
+
+    const skipReason = this.getSkipReason(probe, options);
+    if (skipReason) {
+      return { ...result, access: 'skipped', reason: skipReason };
+    }
+
+    const url = this.buildProbeUrl(probe, options);
+    try {
+      switch (probe.method) {
+        case 'get':
+          await this.get(url);
+          break;
+        case 'post':
+          await this.post(url, probe.body ?? {});
+          break;
+        case 'patch':
+          await this.patch(url, {});
+          break;
+        case 'delete':
+          await this.delete(url);
+          break;
+      }
+      return { ...result, access: 'allowed', status: 200 };
+    } catch (error) {
+      // Token requests fail before any resource is called
+      if (!(error instanceof HttpRequestError)) {
+        throw error;
+      }
+      if (error.status === 401) {
+        throw error;
+      }
+
+      const fault = error instanceof OCAPIFaultError ? error.fault.type : undefined;
+      const response = { ...result, status: error.status, fault };
+      if (error.status === 403) {
+        return { ...response, access: 'denied' };
+      }
+      if (fault === 'ResourcePathNotFoundException') {
+        return { ...response, access: 'not_found', reason: `Resource does not exist in OCAPI ${this.version}` };
+      }
+      if (error.status !== undefined && error.status < 500) {
+        // The request passed the permission check and was rejected for its parameters
+        return { ...response, access: 'allowed' };
+      }
+      return { ...response, access: 'error', reason: error.message };
+    }
+  }
+
+  /**
+   * Get the reason for not probing a resource method
+   *
+   * @returns The reason, or undefined if the method can be probed safely
+   */
+  private getSkipReason(probe: OCAPIAccessProbe, options: OCAPIAccessProbeOptions): string | undefined {
+    if (probe.readOnly) {
+      return undefined;
+    }
+    if (!['patch', 'delete'].includes(probe.method) || !/\}$/.test(probe.path)) {
+      return 'The request would create or replace data';
+    }
+    if (options.probeWrites === false) {
+      return 'Write methods are not probed on read-only instances';
+    }
+    return undefined;
+  }
+
+  /**
+   * Build the probe URL with path parameters and query string
+   */
+  private buildProbeUrl(probe: OCAPIAccessProbe, options: OCAPIAccessProbeOptions): string {
+    const path = probe.path.replace(/\{(\w+)\}/g, (_match, name: string) =>
+      encodeURIComponent(name === 'site_id' && probe.readOnly && options.siteId ? options.siteId : PROBE_PLACEHOLDER_ID),
+    );
+    const query = new URLSearchParams(probe.queryParams).toString();
+    return query ? `${path}?${query}` : path;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * OCAPI Client Resources
+ *
+ * Data API resources called by the specialized OCAPI clients, as path templates with the
+ * HTTP methods used. Path parameters correspond to `*` in the resource IDs of the OCAPI settings.
+ */
+
+/**
+ * Data API resource called by an OCAPI client
+ */
+export interface OCAPIClientResource {
+  /** Name of the client calling the resource */
+  client: string;
+  /** Path template of the resource (e.g. /system_object_definitions/{object_type}) */
+  path: string;
+  /** Lowercase HTTP methods called on the resource */
+  methods: string[];
+  /** True for POST searches that do not modify data */
+  readOnly?: boolean;
+}
+
+export const OCAPI_CLIENT_RESOURCES: OCAPIClientResource[] = [
+  { client: 'OCAPISystemObjectsClient', path: '/system_object_definitions', methods: ['get'] },
+  { client: 'OCAPISystemObjectsClient', path: '/system_object_definitions/{object_type}', methods: ['get'] },
+  { client: 'OCAPISystemObjectsClient', path: '/system_object_definition_search', methods: ['post'], readOnly: true },
+  {
+    client: 'OCAPISystemObjectsClient',
+    path: '/system_object_definitions/{object_type}/attribute_definition_search',
+    methods: ['post'],
+    readOnly: true,
+  },
+  {
+    client: 'OCAPISystemObjectsClient',
+    path: '/system_object_definitions/{object_type}/attribute_group_search',
+    methods: ['post'],
+    readOnly: true,
+  },
+  {
+    client: 'OCAPISystemObjectsClient',
+    path: '/custom_object_definitions/{object_type}/attribute_definition_search',
+    methods: ['post'],
+    readOnly: true,
+  },
+  {
+    client: 'OCAPISitePreferencesClient',
+    path: '/site_preferences/preference_groups/{group_id}/{instance_type}/preference_search',
+    methods: ['post'],
+    readOnly: true,
+  },
+  { client: 'OCAPICodeVersionsClient', path: '/code_versions', methods: ['get'] },
+  { client: 'OCAPICodeVersionsClient', path: '/code_versions/{code_version_id}', methods: ['patch'] },
+];
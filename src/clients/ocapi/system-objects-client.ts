@@ -2,7 +2,8 @@
  * OCAPI System Objects Client
  *
  * This module handles all SFCC system object related operations including
- * object definitions, attribute definitions, and attribute groups.
+ * object definitions, attribute definitions, and attribute groups. List and search
+ * operations can aggregate all result pages when pagination options are passed.
  */
 
 import { OCAPIConfig } from '../../types/types.js';
@@ -10,6 +11,7 @@ import { OCAPIAuthClient } from '../base/ocapi-auth-client.js';
 import { QueryBuilder } from '../../utils/query-builder.js';
 import { Validator } from '../../utils/validator.js';
 import { buildOCAPIBaseUrl } from '../../utils/ocapi-url-builder.js';
+import { DEFAULT_PAGE_SIZE, fetchAllPages, PaginationOptions } from '../../utils/pagination.js';
 
 /**
  * Interface for common query parameters
@@ -68,17 +70,21 @@ export class OCAPISystemObjectsClient extends OCAPIAuthClient {
   /**
    * Get all system object definitions
    */
-  async getSystemObjectDefinitions(params?: BaseQueryParams): Promise<any> {
-    let endpoint = '/system_object_definitions';
-
-    if (params) {
-      const queryString = QueryBuilder.fromObject(params);
-      if (queryString) {
-        endpoint += `?${queryString}`;
-      }
+  async getSystemObjectDefinitions(params?: BaseQueryParams, pagination?: PaginationOptions): Promise<any> {
+    const buildEndpoint = (queryParams?: BaseQueryParams): string => {
+      const queryString = queryParams ? QueryBuilder.fromObject(queryParams) : '';
+      return queryString ? `/system_object_definitions?${queryString}` : '/system_object_definitions';
+    };
+
+    if (pagination) {
+      return fetchAllPages(
+        (page) => this.get(buildEndpoint({ ...params, ...page })),
+        { start: params?.start ?? 0, count: params?.count ?? DEFAULT_PAGE_SIZE },
+        pagination,
+      );
     }
 
-    return this.get(endpoint);
+    return this.get(buildEndpoint(params));
   }
 
   /**
@@ -95,11 +101,11 @@ export class OCAPISystemObjectsClient extends OCAPIAuthClient {
   /**
    * Search for system object definitions using complex queries
    */
-  async searchSystemObjectDefinitions(searchRequest: SearchRequest): Promise<any> {
+  async searchSystemObjectDefinitions(searchRequest: SearchRequest, pagination?: PaginationOptions): Promise<any> {
     Validator.validateSearchRequest(searchRequest);
 
     const endpoint = '/system_object_definition_search';
-    return this.post(endpoint, searchRequest);
+    return this.search(endpoint, searchRequest, pagination);
   }
 
   /**
@@ -108,13 +114,14 @@ export class OCAPISystemObjectsClient extends OCAPIAuthClient {
   async searchSystemObjectAttributeDefinitions(
     objectType: string,
     searchRequest: SearchRequest,
+    pagination?: PaginationOptions,
   ): Promise<any> {
     Validator.validateRequired({ objectType }, ['objectType']);
     Validator.validateObjectType(objectType);
     Validator.validateSearchRequest(searchRequest);
 
     const endpoint = `/system_object_definitions/${encodeURIComponent(objectType)}/attribute_definition_search`;
-    return this.post(endpoint, searchRequest);
+    return this.search(endpoint, searchRequest, pagination);
   }
 
   /**
@@ -123,13 +130,14 @@ export class OCAPISystemObjectsClient extends OCAPIAuthClient {
   async searchSystemObjectAttributeGroups(
     objectType: string,
     searchRequest: SearchRequest,
+    pagination?: PaginationOptions,
   ): Promise<any> {
     Validator.validateRequired({ objectType }, ['objectType']);
     Validator.validateObjectType(objectType);
     Validator.validateSearchRequest(searchRequest);
 
     const endpoint = `/system_object_definitions/${encodeURIComponent(objectType)}/attribute_group_search`;
-    return this.post(endpoint, searchRequest);
+    return this.search(endpoint, searchRequest, pagination);
   }
 
   /**
@@ -138,11 +146,27 @@ export class OCAPISystemObjectsClient extends OCAPIAuthClient {
   async searchCustomObjectAttributeDefinitions(
     objectType: string,
     searchRequest: SearchRequest,
+    pagination?: PaginationOptions,
   ): Promise<any> {
     Validator.validateRequired({ objectType }, ['objectType']);
     Validator.validateSearchRequest(searchRequest);
 
     const endpoint = `/custom_object_definitions/${encodeURIComponent(objectType)}/attribute_definition_search`;
-    return this.post(endpoint, searchRequest);
+    return this.search(endpoint, searchRequest, pagination);
+  }
+
+  /**
+   * Execute a search request, aggregating all result pages when pagination options are given
+   */
+  private async search(endpoint: string, searchRequest: SearchRequest, pagination?: PaginationOptions): Promise<any> {
+    if (!pagination) {
+      return this.post(endpoint, searchRequest);
+    }
+
+    return fetchAllPages(
+      (page) => this.post(endpoint, { ...searchRequest, ...page }),
+      { start: searchRequest.start ?? 0, count: searchRequest.count ?? DEFAULT_PAGE_SIZE },
+      pagination,
+    );
   }
 }
@@ -0,0 +1,480 @@
+/**
+ * SFCC MCPサーバーのコマンドラインと環境変数の解析
+ *
+ * すべての設定フィールドはコマンドラインフラグと環境変数の両方で指定でき、
+ * コマンドライン > 環境変数 > dw.json の順に優先されます。各値の指定元を記録し、
+ * --print-config で（機密情報を伏せて）表示します。
+ */
+
+import { resolve } from 'path';
+import { HttpClientConfig, SFCCConfig } from '../types/types.js';
+import { DEFAULT_TOKEN_STORE_PATH } from '../clients/base/token-store.js';
+import { ConfigurationFactory, ConfigurationOptions } from './configuration-factory.js';
+
+/** サーバーのバージョン（package.jsonと同期） */
+export const SERVER_VERSION = '1.1.0';
+
+/** --print-configで機密情報の代わりに表示する値 */
+const REDACTED = '<redacted>';
+
+/** 文字列の設定フィールド */
+type StringConfigKey = Exclude<
+  keyof ConfigurationOptions,
+  'dwJsonPath' | 'dwJsonDiscovered' | 'allowDwJsonSecrets' | 'http' | 'readOnly' | 'cartridgesRoot' | 'httpAuthToken'
+>;
+
+/**
+ * 設定フィールドに対応するコマンドラインフラグと環境変数
+ */
+export interface ConfigOptionDefinition {
+  /** ConfigurationOptionsのキー（HTTP設定は "http." + HttpClientConfigのキー） */
+  key: StringConfigKey | `http.${keyof HttpClientConfig}`;
+  /** dw.jsonのキー（--print-configの表示名） */
+  dwJsonKey: string;
+  flag: string;
+  env: string;
+  description: string;
+  /** --print-configで値を伏せるかどうか */
+  secret?: boolean;
+}
+
+/** すべての設定フィールドのフラグと環境変数 */
+export const CONFIG_OPTIONS: ConfigOptionDefinition[] = [
+  {
+    key: 'hostname', dwJsonKey: 'hostname', flag: '--hostname', env: 'SFCC_HOSTNAME',
+    description: 'SFCC instance hostname',
+  },
+  {
+    key: 'username', dwJsonKey: 'username', flag: '--username', env: 'SFCC_USERNAME',
+    description: 'Business Manager / WebDAV username',
+  },
+  {
+    key: 'password', dwJsonKey: 'password', flag: '--password', env: 'SFCC_PASSWORD',
+    description: 'Business Manager / WebDAV password or access key',
+    secret: true,
+  },
+  {
+    key: 'clientId', dwJsonKey: 'client-id', flag: '--client-id', env: 'SFCC_CLIENT_ID',
+    description: 'Account Manager API client ID',
+  },
+  {
+    key: 'clientSecret', dwJsonKey: 'client-secret', flag: '--client-secret', env: 'SFCC_CLIENT_SECRET',
+    description: 'Account Manager API client secret',
+    secret: true,
+  },
+  {
+    key: 'siteId', dwJsonKey: 'site-id', flag: '--site-id', env: 'SFCC_SITE_ID',
+    description: 'Default site ID',
+  },
+  {
+    key: 'shortCode', dwJsonKey: 'short-code', flag: '--short-code', env: 'SFCC_SHORT_CODE',
+    description: 'SCAPI short code',
+  },
+  {
+    key: 'organizationId', dwJsonKey: 'organization-id', flag: '--organization-id', env: 'SFCC_ORGANIZATION_ID',
+    description: 'SCAPI organization ID',
+  },
+  {
+    key: 'slasClientId', dwJsonKey: 'slas-client-id', flag: '--slas-client-id', env: 'SFCC_SLAS_CLIENT_ID',
+    description: 'SLAS client ID (Shopper APIs)',
+  },
+  {
+    key: 'slasClientSecret', dwJsonKey: 'slas-client-secret', flag: '--slas-client-secret', env: 'SFCC_SLAS_CLIENT_SECRET',
+    description: 'SLAS client secret (private clients)',
+    secret: true,
+  },
+  {
+    key: 'slasRedirectUri', dwJsonKey: 'slas-redirect-uri', flag: '--slas-redirect-uri', env: 'SFCC_SLAS_REDIRECT_URI',
+    description: 'SLAS redirect URI',
+  },
+  {
+    key: 'shopperLogin', dwJsonKey: 'shopper-login', flag: '--shopper-login', env: 'SFCC_SHOPPER_LOGIN',
+    description: 'Registered shopper login',
+    secret: true,
+  },
+  {
+    key: 'shopperPassword', dwJsonKey: 'shopper-password', flag: '--shopper-password', env: 'SFCC_SHOPPER_PASSWORD',
+    description: 'Registered shopper password',
+    secret: true,
+  },
+  {
+    key: 'http.timeoutMs', dwJsonKey: 'http.timeout', flag: '--http-timeout', env: 'SFCC_HTTP_TIMEOUT',
+    description: 'Request timeout in ms (0 disables)',
+  },
+  {
+    key: 'http.maxRetries', dwJsonKey: 'http.max-retries', flag: '--http-max-retries', env: 'SFCC_HTTP_MAX_RETRIES',
+    description: 'Maximum retries per request',
+  },
+  {
+    key: 'http.retryBaseDelayMs', dwJsonKey: 'http.retry-base-delay', flag: '--http-retry-base-delay', env: 'SFCC_HTTP_RETRY_BASE_DELAY',
+    description: 'Base retry delay in ms',
+  },
+  {
+    key: 'http.retryMaxDelayMs', dwJsonKey: 'http.retry-max-delay', flag: '--http-retry-max-delay', env: 'SFCC_HTTP_RETRY_MAX_DELAY',
+    description: 'Maximum retry delay in ms',
+  },
+  {
+    key: 'http.requestsPerSecond', dwJsonKey: 'http.requests-per-second', flag: '--http-requests-per-second', env: 'SFCC_HTTP_REQUESTS_PER_SECOND',
+    description: 'Requests per second per host (0 disables)',
+  },
+];
+
+/** 設定フィールド以外のサーバーオプション（--helpの表示用） */
+const SERVER_OPTIONS: Array<[string, string]> = [
+  ['--dw-json <path>', 'Path to dw.json (env: SFCC_DW_JSON; default: ./dw.json, ../dw.json, ../../dw.json, ~/dw.json)'],
+  ['--read-only', 'Disable tools that modify SFCC data on every instance (env: SFCC_READ_ONLY)'],
+  ['--allow-dw-json-secrets', 'Resolve secret references of an auto-detected dw.json (env: SFCC_ALLOW_DW_JSON_SECRETS)'],
+  ['--cartridges-root <dir>', 'Local cartridges directory to map stack trace frames to source (env: SFCC_CARTRIDGES_ROOT)'],
+  ['--debug [true|false]', 'Enable debug logging (env: SFCC_DEBUG)'],
+  ['--transport <stdio|http>', 'MCP transport (default: stdio)'],
+  ['--port <port>', 'Port of the HTTP transport'],
+  ['--host <host>', 'Host of the HTTP transport'],
+  ['--endpoints <file|dir>', 'Endpoint pack to merge into the Data API registry (repeatable)'],
+  ['--token-cache [path]', `Persist OAuth tokens in an encrypted file (default: ${DEFAULT_TOKEN_STORE_PATH})`],
+  ['--check', 'Check the connection to each configured instance and exit'],
+  ['--print-config', 'Print the effective configuration with the source of each value and exit'],
+  ['--help', 'Show this help and exit'],
+  ['--version', 'Show the version and exit'],
+];
+
+/**
+ * コマンドラインの解析エラー（使い方の誤り）
+ */
+export class CommandLineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandLineError';
+  }
+}
+
+/**
+ * コマンドラインオプション
+ */
+export interface CommandLineOptions {
+  dwJsonPath?: string;
+  debug?: boolean;
+  transport?: 'stdio' | 'http';
+  port?: number;
+  host?: string;
+  readOnly?: boolean;
+  allowDwJsonSecrets?: boolean;
+  cartridgesRoot?: string;
+  endpointPacks?: string[];
+  check?: boolean;
+  tokenCache?: string;
+  printConfig?: boolean;
+  help?: boolean;
+  version?: boolean;
+  /** コマンドラインで指定された設定フィールド */
+  config: ConfigurationOptions;
+}
+
+/**
+ * コマンドラインと環境変数を統合した起動設定
+ */
+export interface StartupSettings {
+  debug: boolean;
+  /** ConfigurationFactory.createに渡すオプション */
+  configOptions: ConfigurationOptions;
+  /** 設定フィールドのキー（dwJsonPath、readOnly、allowDwJsonSecrets、cartridgesRoot、httpAuthTokenを含む）ごとの指定元（フラグ名または環境変数名） */
+  sources: Map<string, string>;
+}
+
+/**
+ * 真偽値の文字列を解析
+ */
+function parseBoolean(value: string): boolean {
+  return ['true', '1', 'yes'].includes(value.toLowerCase());
+}
+
+/**
+ * 設定フィールドに値を設定
+ *
+ * @param target - 設定先のオプション
+ * @param definition - 設定フィールドの定義
+ * @param value - 文字列の値
+ * @param source - エラーメッセージ用の指定元（フラグ名または環境変数名）
+ * @throws CommandLineError HTTP設定が0以上の数値でない場合
+ */
+function setConfigOption(
+  target: ConfigurationOptions,
+  definition: ConfigOptionDefinition,
+  value: string,
+  source: string,
+): void {
+  if (!definition.key.startsWith('http.')) {
+    target[definition.key as StringConfigKey] = value;
+    return;
+  }
+
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+    throw new CommandLineError(`Invalid value "${value}" for ${source}: must be a non-negative number`);
+  }
+  const httpKey = definition.key.slice('http.'.length) as keyof HttpClientConfig;
+  target.http = { ...target.http, [httpKey]: number };
+}
+
+/**
+ * 設定フィールドの値を取得
+ *
+ * @param config - 設定またはConfigurationOptions
+ * @param definition - 設定フィールドの定義
+ */
+function getConfigValue(config: ConfigurationOptions, definition: ConfigOptionDefinition): string | number | undefined {
+  if (definition.key.startsWith('http.')) {
+    return config.http?.[definition.key.slice('http.'.length) as keyof HttpClientConfig];
+  }
+  return config[definition.key as StringConfigKey];
+}
+
+/**
+ * コマンドライン引数を解析
+ *
+ * 値は "--flag value" と "--flag=value" のどちらの形式でも指定できます。
+ *
+ * @param args - 解析する引数（process.argv.slice(2)）
+ * @returns コマンドラインオプション
+ * @throws CommandLineError 未知のオプション、値の欠落、不正な値の場合
+ */
+export function parseCommandLineArgs(args: string[]): CommandLineOptions {
+  const options: CommandLineOptions = { config: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].startsWith('--') && args[i].includes('=')
+      ? [args[i].slice(0, args[i].indexOf('=')), args[i].slice(args[i].indexOf('=') + 1)]
+      : [args[i], undefined];
+
+    // 必須の値を取得（インライン指定がなければ次の引数を消費）
+    const requireValue = (): string => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      if (i + 1 >= args.length || args[i + 1].startsWith('--')) {
+        throw new CommandLineError(`Option ${flag} requires a value`);
+      }
+      return args[++i];
+    };
+
+    // 省略可能な値を取得（次の引数がオプションでなければ消費）
+    const optionalValue = (): string | undefined => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      return i + 1 < args.length && !args[i + 1].startsWith('--') ? args[++i] : undefined;
+    };
+
+    const definition = CONFIG_OPTIONS.find(option => option.flag === flag);
+    if (definition) {
+      setConfigOption(options.config, definition, requireValue(), flag);
+      continue;
+    }
+
+    switch (flag) {
+      case '--dw-json':
+        options.dwJsonPath = requireValue();
+        break;
+      case '--debug': {
+        // 値なしの --debug をデフォルトで true に設定
+        const value = optionalValue();
+        options.debug = value === undefined || parseBoolean(value);
+        break;
+      }
+      case '--transport': {
+        const value = requireValue();
+        const transport = value.toLowerCase();
+        if (transport !== 'stdio' && transport !== 'http') {
+          throw new CommandLineError(`Invalid transport "${value}". Supported transports: stdio, http`);
+        }
+        options.transport = transport;
+        break;
+      }
+      case '--port': {
+        const value = requireValue();
+        const port = Number(value);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new CommandLineError(`Invalid port "${value}". Must be an integer between 0 and 65535`);
+        }
+        options.port = port;
+        break;
+      }
+      case '--host':
+        options.host = requireValue();
+        break;
+      case '--read-only':
+        options.readOnly = true;
+        break;
+      case '--allow-dw-json-secrets':
+        options.allowDwJsonSecrets = true;
+        break;
+      case '--cartridges-root':
+        options.cartridgesRoot = resolve(requireValue());
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--print-config':
+        options.printConfig = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      case '--version':
+      case '-v':
+        options.version = true;
+        break;
+      case '--token-cache': {
+        // パスは省略可能（省略時はホームディレクトリのデフォルトパス）
+        const value = optionalValue();
+        options.tokenCache = value ? resolve(value) : DEFAULT_TOKEN_STORE_PATH;
+        break;
+      }
+      case '--endpoints':
+        // 複数指定可能（ファイルまたはパックを含むディレクトリ）
+        options.endpointPacks = [...(options.endpointPacks ?? []), resolve(requireValue())];
+        break;
+      default:
+        throw new CommandLineError(
+          flag.startsWith('-')
+            ? `Unknown option "${flag}". Run with --help to see the available options`
+            : `Unexpected argument "${flag}". Run with --help to see the available options`,
+        );
+    }
+  }
+
+  return options;
+}
+
+/**
+ * コマンドラインオプションと環境変数を統合
+ *
+ * コマンドラインの値が環境変数より優先されます。dw.jsonの値はConfigurationFactoryで
+ * これらの値により上書きされます。
+ *
+ * @param options - 解析済みのコマンドラインオプション
+ * @param env - 環境変数
+ * @returns 起動設定
+ * @throws CommandLineError 環境変数の値が不正な場合
+ */
+export function resolveStartupSettings(options: CommandLineOptions, env: NodeJS.ProcessEnv): StartupSettings {
+  const sources = new Map<string, string>();
+  const configOptions: ConfigurationOptions = {};
+
+  for (const definition of CONFIG_OPTIONS) {
+    const cliValue = getConfigValue(options.config, definition);
+    if (cliValue !== undefined) {
+      setConfigOption(configOptions, definition, String(cliValue), definition.flag);
+      sources.set(definition.key, definition.flag);
+    } else if (env[definition.env]) {
+      setConfigOption(configOptions, definition, env[definition.env]!, definition.env);
+      sources.set(definition.key, definition.env);
+    }
+  }
+
+  if (options.dwJsonPath) {
+    configOptions.dwJsonPath = options.dwJsonPath;
+    sources.set('dwJsonPath', '--dw-json');
+  } else if (env.SFCC_DW_JSON) {
+    configOptions.dwJsonPath = env.SFCC_DW_JSON;
+    sources.set('dwJsonPath', 'SFCC_DW_JSON');
+  }
+
+  if (options.readOnly) {
+    configOptions.readOnly = true;
+    sources.set('readOnly', '--read-only');
+  } else if (env.SFCC_READ_ONLY && parseBoolean(env.SFCC_READ_ONLY)) {
+    configOptions.readOnly = true;
+    sources.set('readOnly', 'SFCC_READ_ONLY');
+  }
+
+  if (options.allowDwJsonSecrets) {
+    configOptions.allowDwJsonSecrets = true;
+    sources.set('allowDwJsonSecrets', '--allow-dw-json-secrets');
+  } else if (env.SFCC_ALLOW_DW_JSON_SECRETS && parseBoolean(env.SFCC_ALLOW_DW_JSON_SECRETS)) {
+    configOptions.allowDwJsonSecrets = true;
+    sources.set('allowDwJsonSecrets', 'SFCC_ALLOW_DW_JSON_SECRETS');
+  }
+
+  if (options.cartridgesRoot) {
+    configOptions.cartridgesRoot = options.cartridgesRoot;
+    sources.set('cartridgesRoot', '--cartridges-root');
+  } else if (env.SFCC_CARTRIDGES_ROOT) {
+    configOptions.cartridgesRoot = resolve(env.SFCC_CARTRIDGES_ROOT);
+    sources.set('cartridgesRoot', 'SFCC_CARTRIDGES_ROOT');
+  }
+
+  // ps やシェルの履歴に残らないよう、トークンは環境変数でのみ受け付けます
+  if (env.SFCC_HTTP_AUTH_TOKEN) {
+    configOptions.httpAuthToken = env.SFCC_HTTP_AUTH_TOKEN;
+    sources.set('httpAuthToken', 'SFCC_HTTP_AUTH_TOKEN');
+  }
+
+  const debug = options.debug ?? (env.SFCC_DEBUG ? parseBoolean(env.SFCC_DEBUG) : false);
+  return { debug, configOptions, sources };
+}
+
+/**
+ * --helpの表示内容を作成
+ */
+export function formatHelp(): string {
+  const row = (name: string, description: string) => `  ${name.padEnd(34)} ${description}`;
+
+  return [
+    `SFCC Development MCP Server ${SERVER_VERSION}`,
+    '',
+    'Usage: sfcc-dev-mcp [options]',
+    '',
+    'Configuration (command line > environment variable > dw.json):',
+    ...CONFIG_OPTIONS.map(option => row(`${option.flag} <value>`, `${option.description} (env: ${option.env})`)),
+    '',
+    'Options:',
+    ...SERVER_OPTIONS.map(([name, description]) => row(name, description)),
+    '',
+    'Credential values may be secret references such as env:NAME, file:/path, cmd:command or keychain:service/account.',
+    'Set SFCC_HTTP_AUTH_TOKEN (e.g. SFCC_HTTP_AUTH_TOKEN=file:/path/to/token) to require a bearer token on the HTTP transport.',
+    '',
+  ].join('\n');
+}
+
+/**
+ * 有効な設定と各値の指定元を表示用に整形（機密情報は伏せる）
+ *
+ * @param config - ConfigurationFactory.createで作成された設定
+ * @param settings - 設定の作成に使用した起動設定
+ * @returns 表示用のテキスト
+ */
+export function formatConfigReport(config: SFCCConfig, settings: StartupSettings): string {
+  const row = (name: string, value: string, source?: string) =>
+    `  ${name.padEnd(26)} ${value.padEnd(44)} ${source ?? ''}`.trimEnd();
+
+  const lines = [
+    'Effective configuration (precedence: command line > environment variable > dw.json)',
+    '',
+    row('dw.json', settings.configOptions.dwJsonPath ?? '-', settings.sources.get('dwJsonPath')),
+    row('readOnly', String(config.readOnly ?? false), config.readOnly ? settings.sources.get('readOnly') ?? 'dw.json' : undefined),
+    row('cartridgesRoot', config.cartridgesRoot ?? '-', settings.sources.get('cartridgesRoot')),
+    row('httpAuthToken', config.httpAuthToken ? REDACTED : '-', settings.sources.get('httpAuthToken')),
+  ];
+
+  for (const definition of CONFIG_OPTIONS) {
+    const value = getConfigValue(config, definition);
+    if (value === undefined || value === '') {
+      lines.push(row(definition.dwJsonKey, '-'));
+    } else {
+      const source = settings.sources.get(definition.key) ?? 'dw.json';
+      lines.push(row(definition.dwJsonKey, definition.secret ? REDACTED : String(value), source));
+    }
+  }
+
+  // 名前付きインスタンスの値はdw.jsonのみから読み込まれます
+  if (config.instances) {
+    lines.push('', 'Instances:');
+    for (const [index, name] of ConfigurationFactory.getInstanceNames(config).entries()) {
+      const instance = ConfigurationFactory.resolveInstance(config, name);
+      lines.push(row(name, instance.hostname ?? '-', index === 0 ? 'default' : undefined));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
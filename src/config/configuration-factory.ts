@@ -8,30 +8,72 @@
 
 import { existsSync } from 'fs';
 import { resolve } from 'path';
-import { SFCCConfig, DwJsonConfig } from '../types/types.js';
+import { SFCCConfig, DwJsonConfig, HttpClientConfig } from '../types/types.js';
 import { loadSecureDwJson } from './dw-json-loader.js';
+import { isSecretReference, resolveSecret, SecretResolutionError } from './secret-providers.js';
+
+/** dw.jsonで名前が指定されていないインスタンスのデフォルト名 */
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+/** シークレットプロバイダーの参照を解決する認証情報フィールド（エラーメッセージ用のdw.jsonキー） */
+const SECRET_FIELDS = {
+  username: 'username',
+  password: 'password',
+  clientId: 'client-id',
+  clientSecret: 'client-secret',
+  slasClientSecret: 'slas-client-secret',
+  shopperLogin: 'shopper-login',
+  shopperPassword: 'shopper-password',
+} as const satisfies Partial<Record<keyof SFCCConfig, string>>;
+
+/**
+ * 設定の作成オプション
+ * dw.jsonの値より優先されます（dwJsonPath、readOnly、cartridgesRoot、httpAuthToken以外はデフォルトインスタンスのみに適用）
+ */
+export interface ConfigurationOptions {
+  dwJsonPath?: string;
+  /** dwJsonPathが明示的に指定されず自動検出されたパスかどうか */
+  dwJsonDiscovered?: boolean;
+  /** 自動検出されたdw.jsonのシークレット参照（"env:"、"file:"、"cmd:"など）の解決を許可 */
+  allowDwJsonSecrets?: boolean;
+  hostname?: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+  siteId?: string;
+  shortCode?: string;
+  organizationId?: string;
+  slasClientId?: string;
+  slasClientSecret?: string;
+  slasRedirectUri?: string;
+  shopperLogin?: string;
+  shopperPassword?: string;
+  /** HTTPリクエスト設定（指定された項目のみ、すべてのインスタンスに適用） */
+  http?: HttpClientConfig;
+  readOnly?: boolean;
+  /** ローカルのカートリッジのルートディレクトリ（サーバー全体の設定） */
+  cartridgesRoot?: string;
+  /** HTTPトランスポートのベアラートークン（サーバー全体の設定、シークレット参照を指定可能） */
+  httpAuthToken?: string;
+}
 
 export class ConfigurationFactory {
   /**
    * 適切なバリデーションを行いながら様々なソースから設定を作成
    */
-  static create(options: {
-    dwJsonPath?: string;
-    hostname?: string;
-    username?: string;
-    password?: string;
-    clientId?: string;
-    clientSecret?: string;
-    siteId?: string;
-    shortCode?: string;
-    organizationId?: string;
-  }): SFCCConfig {
+  static create(options: ConfigurationOptions): SFCCConfig {
     let config: SFCCConfig;
 
     // パスが提供されている場合はdw.jsonからロード
     if (options.dwJsonPath) {
       const dwConfig = this.loadFromDwJson(options.dwJsonPath);
-      config = this.mapDwJsonToConfig(dwConfig);
+      config = this.mapDwJsonToProfiles(dwConfig);
+
+      // 親ディレクトリなどから自動検出されたdw.jsonのシークレット参照は明示的な許可なしに解決しない
+      if (options.dwJsonDiscovered && !options.allowDwJsonSecrets) {
+        this.rejectSecretReferences(config, options.dwJsonPath);
+      }
     } else {
       // 提供されたオプションから作成
       config = {
@@ -43,6 +85,11 @@ export class ConfigurationFactory {
         siteId: options.siteId,
         shortCode: options.shortCode,
         organizationId: options.organizationId,
+        slasClientId: options.slasClientId,
+        slasClientSecret: options.slasClientSecret,
+        slasRedirectUri: options.slasRedirectUri,
+        shopperLogin: options.shopperLogin,
+        shopperPassword: options.shopperPassword,
       };
     }
 
@@ -55,8 +102,42 @@ export class ConfigurationFactory {
     if (options.siteId) {config.siteId = options.siteId;}
     if (options.shortCode) {config.shortCode = options.shortCode;}
     if (options.organizationId) {config.organizationId = options.organizationId;}
+    if (options.slasClientId) {config.slasClientId = options.slasClientId;}
+    if (options.slasClientSecret) {config.slasClientSecret = options.slasClientSecret;}
+    if (options.slasRedirectUri) {config.slasRedirectUri = options.slasRedirectUri;}
+    if (options.shopperLogin) {config.shopperLogin = options.shopperLogin;}
+    if (options.shopperPassword) {config.shopperPassword = options.shopperPassword;}
+
+    // HTTP設定は指定された項目のみすべてのインスタンスに上書き
+    if (options.http) {
+      for (const instance of [config, ...Object.values(config.instances ?? {})]) {
+        instance.http = { ...instance.http, ...options.http };
+      }
+    }
+
+    // "env:"や"cmd:"などのシークレット参照を実際の値に解決
+    this.resolveSecrets(config);
+
+    // 読み取り専用フラグはすべてのインスタンスに適用
+    if (options.readOnly) {
+      config.readOnly = true;
+      for (const instance of Object.values(config.instances ?? {})) {
+        instance.readOnly = true;
+      }
+    }
+
+    if (options.cartridgesRoot) {
+      config.cartridgesRoot = options.cartridgesRoot;
+    }
+
+    if (options.httpAuthToken) {
+      config.httpAuthToken = resolveSecret(options.httpAuthToken, 'SFCC_HTTP_AUTH_TOKEN');
+    }
 
     this.validate(config);
+    for (const instance of Object.values(config.instances ?? {})) {
+      this.validate(instance);
+    }
     return config;
   }
 
@@ -79,6 +160,58 @@ export class ConfigurationFactory {
     return loadSecureDwJson(dwJsonPath);
   }
 
+  /**
+   * 認証情報フィールドのシークレット参照を解決
+   *
+   * デフォルト設定とすべての名前付きインスタンスが対象です。同じ参照は一度だけ
+   * 解決されます（"cmd:"などのコマンドが繰り返し実行されないようにするため）。
+   * 解決された値はログやエラーメッセージに出力しません。
+   *
+   * @param config - 解決対象の設定（その場で更新されます）
+   * @throws SecretResolutionError 参照を解決できない場合
+   */
+  private static resolveSecrets(config: SFCCConfig): void {
+    const resolved = new Map<string, string>();
+    for (const instance of [config, ...Object.values(config.instances ?? {})]) {
+      for (const [key, field] of Object.entries(SECRET_FIELDS) as [keyof typeof SECRET_FIELDS, string][]) {
+        const value = instance[key];
+        if (!value || !isSecretReference(value)) {
+          continue;
+        }
+        if (!resolved.has(value)) {
+          resolved.set(value, resolveSecret(value, field));
+        }
+        instance[key] = resolved.get(value);
+      }
+    }
+  }
+
+  /**
+   * 自動検出されたdw.jsonのシークレット参照を拒否
+   *
+   * チェックアウトしたリポジトリの親ディレクトリなどにあるdw.jsonが、起動しただけで
+   * 任意のシェルコマンドを実行したり、ローカルのファイル・環境変数・キーチェーンの値を
+   * 同じファイルが指定するホストへ認証情報として送信したりできないようにします。
+   *
+   * @param config - dw.jsonから作成した設定
+   * @param dwJsonPath - 自動検出されたdw.jsonのパス
+   * @throws SecretResolutionError シークレット参照がある場合
+   */
+  private static rejectSecretReferences(config: SFCCConfig, dwJsonPath: string): void {
+    for (const instance of [config, ...Object.values(config.instances ?? {})]) {
+      for (const [key, field] of Object.entries(SECRET_FIELDS) as [keyof typeof SECRET_FIELDS, string][]) {
+        const value = instance[key];
+        if (value && isSecretReference(value)) {
+          const scheme = value.slice(0, value.indexOf(':') + 1);
+          throw new SecretResolutionError(
+            `"${field}" in the auto-detected ${resolve(dwJsonPath)} is a "${scheme}" secret reference, which is not `
+            + 'resolved unless the file is passed with --dw-json (or SFCC_DW_JSON) or --allow-dw-json-secrets is set',
+          );
+        }
+      }
+    }
+  }
+
   /**
    * dw.json構造をSFCCConfigにマッピング
    *
@@ -115,9 +248,134 @@ export class ConfigurationFactory {
       config.organizationId = dwConfig['organization-id'];
     }
 
+    // SLAS（Shopper API）認証情報が存在する場合はマッピング
+    if (dwConfig['slas-client-id']) {
+      config.slasClientId = dwConfig['slas-client-id'];
+      config.slasClientSecret = dwConfig['slas-client-secret'];
+      config.slasRedirectUri = dwConfig['slas-redirect-uri'];
+    }
+
+    if (dwConfig['shopper-login'] && dwConfig['shopper-password']) {
+      config.shopperLogin = dwConfig['shopper-login'];
+      config.shopperPassword = dwConfig['shopper-password'];
+    }
+
+    // 読み取り専用設定が存在する場合はマッピング
+    if (dwConfig.readOnly === true) {
+      config.readOnly = true;
+    }
+
+    // HTTPリクエスト設定が存在する場合はマッピング
+    if (dwConfig.http) {
+      config.http = this.mapHttpConfig(dwConfig.http);
+    }
+
+    return config;
+  }
+
+  /**
+   * dw.jsonの"http"設定をHttpClientConfigにマッピング
+   *
+   * @param http - dw.jsonの"http"設定
+   * @returns 指定された項目のみを含むHTTPクライアント設定
+   * @throws 値が0以上の数値でない場合はエラー
+   */
+  private static mapHttpConfig(http: NonNullable<DwJsonConfig['http']>): HttpClientConfig {
+    const keys: Record<string, keyof HttpClientConfig> = {
+      'timeout': 'timeoutMs',
+      'max-retries': 'maxRetries',
+      'retry-base-delay': 'retryBaseDelayMs',
+      'retry-max-delay': 'retryMaxDelayMs',
+      'requests-per-second': 'requestsPerSecond',
+    };
+
+    const config: HttpClientConfig = {};
+    for (const [dwKey, configKey] of Object.entries(keys)) {
+      const value = http[dwKey as keyof typeof http];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid "http.${dwKey}" in dw.json: must be a non-negative number`);
+      }
+      config[configKey] = value;
+    }
     return config;
   }
 
+  /**
+   * 複数インスタンスに対応したdw.jsonをSFCCConfigにマッピング
+   *
+   * "configs"配列がない場合はmapDwJsonToConfigと同じ結果を返します。
+   * "configs"がある場合は、トップレベル設定（ホスト名がある場合）と各configを
+   * 名前付きインスタンスとしてinstancesに格納し、"active": trueのインスタンス
+   * （なければ最初のインスタンス）をデフォルトとして返します。
+   *
+   * @param dwConfig - パースされたdw.json設定
+   * @returns デフォルトインスタンスの設定（名前付きインスタンスを含む）
+   */
+  static mapDwJsonToProfiles(dwConfig: DwJsonConfig): SFCCConfig {
+    if (!dwConfig.configs?.length) {
+      return this.mapDwJsonToConfig(dwConfig);
+    }
+
+    const profiles = [
+      ...(dwConfig.hostname ? [dwConfig] : []),
+      ...dwConfig.configs,
+    ];
+
+    const instances: Record<string, SFCCConfig> = {};
+    for (const profile of profiles) {
+      const instanceName = profile.name ?? DEFAULT_INSTANCE_NAME;
+      instances[instanceName] = { ...this.mapDwJsonToConfig(profile), instanceName };
+    }
+
+    const active = profiles.find(profile => profile.active) ?? profiles[0];
+    const activeName = active.name ?? DEFAULT_INSTANCE_NAME;
+
+    return { ...instances[activeName], instances };
+  }
+
+  /**
+   * 設定されているインスタンス名の一覧を取得
+   *
+   * @param config - デフォルトインスタンスの設定
+   * @returns インスタンス名（デフォルトインスタンスが先頭）
+   */
+  static getInstanceNames(config: SFCCConfig): string[] {
+    const defaultName = config.instanceName ?? DEFAULT_INSTANCE_NAME;
+    const names = Object.keys(config.instances ?? {}).filter(name => name !== defaultName);
+    return [defaultName, ...names];
+  }
+
+  /**
+   * 名前でインスタンス設定を解決
+   *
+   * 名前が省略された場合やデフォルトインスタンスの名前が指定された場合は、
+   * コマンドライン引数や環境変数による上書きが反映されたデフォルト設定を返します。
+   *
+   * @param config - デフォルトインスタンスの設定
+   * @param instanceName - 解決するインスタンス名（省略時はデフォルト）
+   * @returns 名前付きインスタンスを含まない単一インスタンスの設定
+   * @throws 未知のインスタンス名が指定された場合はエラー
+   */
+  static resolveInstance(config: SFCCConfig, instanceName?: string): SFCCConfig {
+    const defaultName = config.instanceName ?? DEFAULT_INSTANCE_NAME;
+    if (!instanceName || instanceName === defaultName) {
+      const defaultConfig = { ...config };
+      delete defaultConfig.instances;
+      return defaultConfig;
+    }
+
+    const instance = config.instances?.[instanceName];
+    if (!instance) {
+      throw new Error(
+        `Unknown instance "${instanceName}". Available instances: ${this.getInstanceNames(config).join(', ')}`,
+      );
+    }
+    return instance;
+  }
+
   /**
    * 異なる動作モードに対する設定のバリデーション
    *
@@ -160,15 +418,33 @@ export class ConfigurationFactory {
    * このメソッドは提供された設定を分析し、認証情報とホスト名に基づいて
    * どの機能が利用可能かを判断します。
    *
+   * 名前付きインスタンスが設定されている場合は、いずれかのインスタンスで
+   * 利用可能な機能を有効とみなします。
+   *
    * @param config - 分析する設定
    * @returns 利用可能な機能を説明するオブジェクト
    */
   static getCapabilities(config: SFCCConfig): {
     canAccessLogs: boolean;
     canAccessOCAPI: boolean;
+    canAccessSCAPI: boolean;
+    canAccessShopperAPI: boolean;
     canAccessWebDAV: boolean;
     isLocalMode: boolean;
   } {
+    if (config.instances) {
+      const all = [this.resolveInstance(config), ...Object.values(config.instances)]
+        .map(instance => this.getCapabilities(instance));
+      return {
+        canAccessLogs: all.some(capabilities => capabilities.canAccessLogs),
+        canAccessOCAPI: all.some(capabilities => capabilities.canAccessOCAPI),
+        canAccessSCAPI: all.some(capabilities => capabilities.canAccessSCAPI),
+        canAccessShopperAPI: all.some(capabilities => capabilities.canAccessShopperAPI),
+        canAccessWebDAV: all.some(capabilities => capabilities.canAccessWebDAV),
+        isLocalMode: all.every(capabilities => capabilities.isLocalMode),
+      };
+    }
+
     // WebDAV/ログは基本認証またはOAuth認証のいずれかで動作可能
     const hasWebDAVCredentials = !!(config.username && config.password) ||
       !!(config.clientId && config.clientSecret);
@@ -176,6 +452,12 @@ export class ConfigurationFactory {
     // OCAPIは特にOAuth認証情報を必要とします
     const hasOAuthCredentials = !!(config.clientId && config.clientSecret);
 
+    // SCAPI Admin APIはOAuth認証情報に加えてショートコードと組織IDを必要とします
+    const hasSCAPISettings = !!(config.shortCode && config.organizationId);
+
+    // Shopper APIはOCAPI認証情報ではなくSLASクライアントIDを使用します
+    const hasSLASClient = !!config.slasClientId;
+
     // ホスト名や認証情報が提供されていない場合はローカルモード
     const hasHostname = !!(config.hostname && config.hostname.trim() !== '');
     const isLocalMode = !hasHostname && !hasWebDAVCredentials;
@@ -183,6 +465,8 @@ export class ConfigurationFactory {
     return {
       canAccessLogs: hasWebDAVCredentials && hasHostname,
       canAccessOCAPI: hasOAuthCredentials && hasHostname,
+      canAccessSCAPI: hasOAuthCredentials && hasHostname && hasSCAPISettings,
+      canAccessShopperAPI: hasSLASClient && hasHostname && hasSCAPISettings,
       canAccessWebDAV: hasWebDAVCredentials && hasHostname,
       isLocalMode,
     };
@@ -90,18 +90,78 @@ function validateFileSize(filePath: string): void {
  * @throws Error if required fields are missing or invalid
  */
 function validateDwJsonContent(dwConfig: DwJsonConfig): void {
+  if (dwConfig.configs !== undefined && !Array.isArray(dwConfig.configs)) {
+    throw new Error('The "configs" field in the configuration file must be an array');
+  }
+
+  const hasProfiles = (dwConfig.configs?.length ?? 0) > 0;
+
+  // With named configs the top-level instance is optional, but must be complete if present
+  if (!hasProfiles || dwConfig.hostname) {
+    validateInstanceFields(dwConfig, 'Configuration file');
+  }
+
+  if (hasProfiles) {
+    validateProfiles(dwConfig);
+  }
+}
+
+/**
+ * Validates the connection fields of a single instance
+ *
+ * @param instance - The instance configuration to validate
+ * @param label - Label used in error messages
+ * @throws Error if required fields are missing or invalid
+ */
+function validateInstanceFields(instance: DwJsonConfig, label: string): void {
   // Validate required fields
-  if (!dwConfig.hostname || !dwConfig.username || !dwConfig.password) {
-    throw new Error('Configuration file must contain hostname, username, and password fields');
+  if (!instance.hostname || !instance.username || !instance.password) {
+    throw new Error(`${label} must contain hostname, username, and password fields`);
   }
 
   // Additional validation for hostname format (trim whitespace first)
-  const trimmedHostname = dwConfig.hostname.trim();
+  const trimmedHostname = instance.hostname.trim();
   if (!trimmedHostname?.match(/^[a-zA-Z0-9.-]+(?::[0-9]+)?$/)) {
     throw new Error('Invalid hostname format in configuration');
   }
 }
 
+/**
+ * Validates the named instance configs of a multi-instance dw.json
+ *
+ * @param dwConfig - The parsed dw.json configuration containing "configs"
+ * @throws Error if a config is unnamed, duplicated, nested, or incomplete
+ */
+function validateProfiles(dwConfig: DwJsonConfig): void {
+  const names = new Set<string>();
+  if (dwConfig.hostname && dwConfig.name) {
+    names.add(dwConfig.name);
+  }
+
+  for (const [index, profile] of dwConfig.configs!.entries()) {
+    if (!profile || typeof profile !== 'object') {
+      throw new Error(`Config at index ${index} must be an object`);
+    }
+    if (typeof profile.name !== 'string' || !profile.name.trim()) {
+      throw new Error(`Config at index ${index} must have a name`);
+    }
+    if (names.has(profile.name)) {
+      throw new Error(`Duplicate config name: ${profile.name}`);
+    }
+    if (profile.configs !== undefined) {
+      throw new Error(`Config "${profile.name}" must not contain nested configs`);
+    }
+
+    validateInstanceFields(profile, `Config "${profile.name}"`);
+    names.add(profile.name);
+  }
+
+  const activeCount = [dwConfig, ...dwConfig.configs!].filter(profile => profile.active === true).length;
+  if (activeCount > 1) {
+    throw new Error('Only one config can be marked as active');
+  }
+}
+
 /**
  * Securely loads and parses a dw.json file with comprehensive validation
  *
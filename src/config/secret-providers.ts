@@ -0,0 +1,221 @@
+/**
+ * Secret providers for SFCC MCP Server
+ *
+ * Credentials in dw.json, command-line arguments and SFCC_* environment variables can be
+ * references to a secret provider instead of plaintext values, for example:
+ *
+ *   "client-secret": "env:SFCC_CLIENT_SECRET"
+ *   "password": "file:/run/secrets/sfcc-password"
+ *   "client-secret": "cmd:pass show sfcc/dev"
+ *   "password": "keychain:sfcc-dev/webdav"
+ *
+ * Only values starting with a registered scheme are treated as references; any other value is
+ * used as-is. Resolved values are never included in error messages.
+ */
+
+import { execFileSync, execSync } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+
+/** Maximum time a "cmd:" or "keychain:" lookup may take */
+const COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * A source of secret values addressed by "<scheme>:<reference>" strings
+ */
+export interface SecretProvider {
+  /** Scheme handled by this provider, without the trailing colon (e.g. "env") */
+  scheme: string;
+
+  /**
+   * Resolve a reference to its secret value
+   *
+   * @param reference - The part of the value after "<scheme>:"
+   * @returns The secret value
+   * @throws Error describing why the secret could not be resolved (must not contain the secret)
+   */
+  resolve(reference: string): string;
+}
+
+/**
+ * Error raised when a secret reference cannot be resolved
+ */
+export class SecretResolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretResolutionError';
+  }
+}
+
+/**
+ * Get the message of a failed command without its output
+ */
+function describeCommandFailure(error: unknown): string {
+  const failure = error as { code?: string; signal?: string; status?: number | null; stderr?: string | Buffer };
+  if (failure.code === 'ETIMEDOUT' || failure.signal === 'SIGTERM') {
+    return `timed out after ${COMMAND_TIMEOUT_MS / 1000}s`;
+  }
+  if (failure.code === 'ENOENT') {
+    return 'command not found';
+  }
+
+  const stderr = failure.stderr?.toString().trim().split('\n')[0];
+  return `exited with status ${failure.status ?? 'unknown'}${stderr ? ` (${stderr})` : ''}`;
+}
+
+/**
+ * Use the first line of a command's output, as password managers print metadata after it
+ */
+function firstLine(output: string): string {
+  return output.split(/\r?\n/)[0];
+}
+
+/** "env:NAME" - reads an environment variable */
+const envProvider: SecretProvider = {
+  scheme: 'env',
+  resolve(name: string): string {
+    const value = process.env[name];
+    if (!value) {
+      throw new Error(`environment variable ${name} is not set`);
+    }
+    return value;
+  },
+};
+
+/** "file:/path" - reads a file such as a Docker or Kubernetes secret, without trailing newlines */
+const fileProvider: SecretProvider = {
+  scheme: 'file',
+  resolve(path: string): string {
+    const resolvedPath = resolve(path);
+    if (!existsSync(resolvedPath)) {
+      throw new Error(`file ${resolvedPath} does not exist`);
+    }
+    return readFileSync(resolvedPath, 'utf8').replace(/[\r\n]+$/, '');
+  },
+};
+
+/** "cmd:command" - runs a shell command and uses the first line of its output */
+const commandProvider: SecretProvider = {
+  scheme: 'cmd',
+  resolve(command: string): string {
+    try {
+      return firstLine(execSync(command, {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: COMMAND_TIMEOUT_MS,
+      }));
+    } catch (error) {
+      throw new Error(`command ${describeCommandFailure(error)}`);
+    }
+  },
+};
+
+/**
+ * "keychain:service/account" - reads a generic password from the OS keychain
+ * Uses `security` on macOS and `secret-tool` (libsecret) on Linux; the account is optional
+ */
+const keychainProvider: SecretProvider = {
+  scheme: 'keychain',
+  resolve(reference: string): string {
+    const separator = reference.indexOf('/');
+    const service = separator === -1 ? reference : reference.slice(0, separator);
+    const account = separator === -1 ? undefined : reference.slice(separator + 1);
+    if (!service) {
+      throw new Error('a service name is required (keychain:service/account)');
+    }
+
+    let command: string;
+    let args: string[];
+    if (process.platform === 'darwin') {
+      command = 'security';
+      args = ['find-generic-password', '-s', service, ...(account ? ['-a', account] : []), '-w'];
+    } else if (process.platform === 'linux') {
+      command = 'secret-tool';
+      args = ['lookup', 'service', service, ...(account ? ['account', account] : [])];
+    } else {
+      throw new Error(`the OS keychain is not supported on ${process.platform}; use a "cmd:" reference instead`);
+    }
+
+    try {
+      return firstLine(execFileSync(command, args, {
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+        timeout: COMMAND_TIMEOUT_MS,
+      }));
+    } catch (error) {
+      throw new Error(`${command} ${describeCommandFailure(error)}`);
+    }
+  },
+};
+
+const providers = new Map<string, SecretProvider>(
+  [envProvider, fileProvider, commandProvider, keychainProvider].map(provider => [provider.scheme, provider]),
+);
+
+/**
+ * Register a secret provider, replacing any provider with the same scheme
+ *
+ * @param provider - The provider to register
+ */
+export function registerSecretProvider(provider: SecretProvider): void {
+  if (!/^[a-z][a-z0-9-]*$/.test(provider.scheme)) {
+    throw new Error(`Invalid secret provider scheme: ${provider.scheme}`);
+  }
+  providers.set(provider.scheme, provider);
+}
+
+/**
+ * Get the schemes of the registered secret providers
+ */
+export function getSecretProviderSchemes(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Get the provider a value refers to
+ *
+ * @param value - A configuration value
+ * @returns The provider, or undefined if the value is not a secret reference
+ */
+function findProvider(value: string): SecretProvider | undefined {
+  const separator = value.indexOf(':');
+  return separator > 0 ? providers.get(value.slice(0, separator)) : undefined;
+}
+
+/**
+ * Check whether a value is a reference to a registered secret provider
+ *
+ * @param value - A configuration value
+ */
+export function isSecretReference(value: string): boolean {
+  return findProvider(value) !== undefined;
+}
+
+/**
+ * Resolve a configuration value that may be a secret reference
+ *
+ * @param value - A plaintext value or "<scheme>:<reference>"
+ * @param field - Name of the configuration field, used in error messages
+ * @returns The secret value, or the value itself if it is not a reference
+ * @throws SecretResolutionError if the provider fails or returns an empty value
+ */
+export function resolveSecret(value: string, field: string): string {
+  const provider = findProvider(value);
+  if (!provider) {
+    return value;
+  }
+
+  const reference = value.slice(provider.scheme.length + 1);
+  let secret: string;
+  try {
+    secret = provider.resolve(reference);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    throw new SecretResolutionError(`Failed to resolve "${field}" from ${provider.scheme} provider: ${reason}`);
+  }
+
+  if (!secret) {
+    throw new SecretResolutionError(`Failed to resolve "${field}" from ${provider.scheme} provider: the secret is empty`);
+  }
+  return secret;
+}
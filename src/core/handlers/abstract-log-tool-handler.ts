@@ -1,6 +1,12 @@
-import { BaseToolHandler, GenericToolSpec, ToolExecutionContext, HandlerContext } from './base-handler.js';
+import {
+  BaseToolHandler,
+  GenericToolSpec,
+  ToolExecutionContext,
+  HandlerContext,
+  ToolArguments,
+} from './base-handler.js';
 import { SFCCLogClient } from '../../clients/logs/index.js';
-import { ClientFactory } from './client-factory.js';
+import { ClientFactory, InstanceClientCache } from './client-factory.js';
 
 /**
  * Abstract base class for log-related tool handlers
@@ -9,10 +15,12 @@ import { ClientFactory } from './client-factory.js';
 export abstract class AbstractLogToolHandler<TToolName extends string = string> extends BaseToolHandler<TToolName> {
   protected logClient: SFCCLogClient | null = null;
   protected clientFactory: ClientFactory;
+  private instanceLogClients: InstanceClientCache<SFCCLogClient>;
 
   constructor(context: HandlerContext, subLoggerName: string) {
     super(context, subLoggerName);
     this.clientFactory = new ClientFactory(context, this.logger);
+    this.instanceLogClients = new InstanceClientCache(name => this.clientFactory.createLogClient(name));
   }
 
   protected async onInitialize(): Promise<void> {
@@ -24,29 +32,32 @@ export abstract class AbstractLogToolHandler<TToolName extends string = string>
 
   protected async onDispose(): Promise<void> {
     this.logClient = null;
+    this.instanceLogClients.clear();
     this.logger.debug('Log client disposed');
   }
 
   /**
-   * Get the log client with proper error handling
+   * Get the log client for the default or a named instance with proper error handling
    * Eliminates repetitive null checks in handlers
    */
-  protected getLogClient(): SFCCLogClient {
-    if (!this.logClient) {
+  protected getLogClient(instanceName?: string): SFCCLogClient {
+    const instance = this.clientFactory.resolveInstanceName(instanceName);
+    const client = instance ? this.instanceLogClients.get(instance) : this.logClient;
+    if (!client) {
       throw new Error(ClientFactory.getClientRequiredError('Log'));
     }
-    return this.logClient;
+    return client;
   }
 
   /**
    * Create execution context for log tools
    * Provides access to log client and handler context
    */
-  protected async createExecutionContext(): Promise<ToolExecutionContext> {
+  protected async createExecutionContext(args?: ToolArguments): Promise<ToolExecutionContext> {
     return {
       handlerContext: this.context,
       logger: this.logger,
-      logClient: this.getLogClient(),
+      logClient: this.getLogClient(args?.instance as string | undefined),
     };
   }
 
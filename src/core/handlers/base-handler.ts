@@ -1,5 +1,6 @@
 import { Logger } from '../../utils/logger.js';
 import { SFCCConfig } from '../../types/types.js';
+import { HttpRequestError } from '../../clients/base/http-client.js';
 
 export interface HandlerContext {
   logger: Logger;
@@ -12,6 +13,8 @@ export interface HandlerContext {
 
 export interface ToolExecutionResult {
   content: Array<{ type: 'text'; text: string }>;
+  /** Machine-readable result data (error details for failed API requests) */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -34,6 +37,20 @@ export interface GenericToolSpec<TArgs = ToolArguments, TResult = any> {
   logMessage: (args: TArgs) => string;
 }
 
+/**
+ * Notifications a tool can send to the MCP client while it runs
+ */
+export interface ToolNotifier {
+  /** MCP session of the tool call (undefined for stdio) */
+  sessionId?: string;
+  /** Aborted when the client cancels the tool call */
+  signal?: AbortSignal;
+  /** Report progress (ignored when the client did not request progress notifications) */
+  progress(progress: number, total?: number, message?: string): Promise<void>;
+  /** Send a logging message notification */
+  log(level: 'debug' | 'info' | 'warning' | 'error', data: unknown): Promise<void>;
+}
+
 /**
  * Context provided to tool execution functions
  * Allows tools to access clients and other resources
@@ -43,6 +60,8 @@ export interface ToolExecutionContext {
   handlerContext: HandlerContext;
   /** Logger instance for the handler */
   logger: any;
+  /** Notifications to the client, when the tool was called by an MCP client */
+  notifier?: ToolNotifier;
   /** Additional context data that can be provided by concrete handlers */
   [key: string]: any;
 }
@@ -84,8 +103,9 @@ export abstract class BaseToolHandler<TToolName extends string = string> {
   /**
    * Abstract method to create execution context
    * Each concrete handler can provide specialized context
+   * (e.g., clients for the SFCC instance selected by the `instance` argument)
    */
-  protected abstract createExecutionContext(): Promise<ToolExecutionContext>;
+  protected abstract createExecutionContext(args?: ToolArguments): Promise<ToolExecutionContext>;
 
   /**
    * Check if this handler can handle the given tool
@@ -98,7 +118,12 @@ export abstract class BaseToolHandler<TToolName extends string = string> {
    * Config-driven tool execution
    * Handles validation, defaults, execution, and logging uniformly
    */
-  async handle(toolName: string, args: ToolArguments, startTime: number): Promise<ToolExecutionResult> {
+  async handle(
+    toolName: string,
+    args: ToolArguments,
+    startTime: number,
+    notifier?: ToolNotifier,
+  ): Promise<ToolExecutionResult> {
     if (!this.canHandle(toolName)) {
       throw new Error(`Unsupported tool: ${toolName}`);
     }
@@ -113,7 +138,7 @@ export abstract class BaseToolHandler<TToolName extends string = string> {
     return this.executeWithLogging(
       toolName,
       startTime,
-      () => this.dispatchTool(spec, args),
+      () => this.dispatchTool(spec, args, notifier),
       spec.logMessage(this.applyDefaults(spec, args)),
     );
   }
@@ -122,9 +147,12 @@ export abstract class BaseToolHandler<TToolName extends string = string> {
    * Generic tool dispatch using configuration
    * Handles validation, defaults, and execution
    */
-  private async dispatchTool(spec: GenericToolSpec, args: ToolArguments): Promise<any> {
-    const context = await this.createExecutionContext();
+  private async dispatchTool(spec: GenericToolSpec, args: ToolArguments, notifier?: ToolNotifier): Promise<any> {
     const processedArgs = this.createValidatedArgs(spec, args, 'tool');
+    const context = await this.createExecutionContext(processedArgs);
+    if (notifier) {
+      context.notifier = notifier;
+    }
 
     return spec.exec(processedArgs, context);
   }
@@ -189,6 +217,20 @@ export abstract class BaseToolHandler<TToolName extends string = string> {
     // Default: no-op
   }
 
+  /**
+   * Release the state kept for an MCP session that has closed
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    await this.onSessionClose(sessionId);
+  }
+
+  /**
+   * Override this method to release per-session state
+   */
+  protected async onSessionClose(_sessionId: string): Promise<void> {
+    // Default: no-op
+  }
+
   /**
    * Validate required arguments
    */
@@ -222,13 +264,19 @@ export abstract class BaseToolHandler<TToolName extends string = string> {
    */
   protected createErrorResponse(error: Error, toolName: string): ToolExecutionResult {
     this.logger.error(`Error in ${toolName}:`, error);
+    if (error instanceof HttpRequestError) {
+      return {
+        content: [{ type: 'text', text: `Error: ${error.describe()}` }],
+        structuredContent: { error: error.getDetails() },
+        isError: true,
+      };
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: error instanceof HandlerError
-            ? `Error: ${error.message}`
-            : `Error: ${error.message}`,
+          text: `Error: ${error.message}`,
         },
       ],
       isError: true,
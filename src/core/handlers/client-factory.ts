@@ -2,8 +2,40 @@ import { HandlerContext } from './base-handler.js';
 import { SFCCLogClient } from '../../clients/log-client.js';
 import { OCAPIClient } from '../../clients/ocapi-client.js';
 import { OCAPICodeVersionsClient } from '../../clients/ocapi/code-versions-client.js';
+import { OCAPIAccessDiagnosticsClient } from '../../clients/ocapi/access-diagnostics-client.js';
+import { ConfigurationFactory } from '../../config/configuration-factory.js';
+import { SCAPIConfig, SFCCConfig } from '../../types/types.js';
 import { Logger } from '../../utils/logger.js';
 
+/**
+ * Connection settings and capabilities of the instance a client is created for
+ */
+interface ResolvedInstance {
+  config: SFCCConfig | undefined;
+  capabilities: HandlerContext['capabilities'] | undefined;
+}
+
+/**
+ * Caches clients per named SFCC instance so OAuth tokens and WebDAV connections
+ * are reused across tool calls targeting the same instance
+ */
+export class InstanceClientCache<T> {
+  private clients: Map<string, T | null> = new Map();
+
+  constructor(private readonly create: (instanceName: string) => T | null) {}
+
+  get(instanceName: string): T | null {
+    if (!this.clients.has(instanceName)) {
+      this.clients.set(instanceName, this.create(instanceName));
+    }
+    return this.clients.get(instanceName)!;
+  }
+
+  clear(): void {
+    this.clients.clear();
+  }
+}
+
 /**
  * Centralized client factory that handles complex initialization logic
  * and encapsulates the requirements for different client types.
@@ -17,64 +49,169 @@ export class ClientFactory {
     this.logger = logger;
   }
 
+  /**
+   * Resolve the instance a tool call targets
+   *
+   * @returns The instance name, or undefined when the default instance is targeted
+   * @throws Error if the instance name is unknown
+   */
+  resolveInstanceName(instanceName?: string): string | undefined {
+    if (!instanceName || !this.context.config) {
+      return undefined;
+    }
+
+    const instance = ConfigurationFactory.resolveInstance(this.context.config, instanceName);
+    const defaultName = ConfigurationFactory.getInstanceNames(this.context.config)[0];
+    return instance.instanceName && instance.instanceName !== defaultName ? instance.instanceName : undefined;
+  }
+
   /**
    * Create an SFCC Log Client if log access is available
    */
-  createLogClient(): SFCCLogClient | null {
-    if (!this.context.capabilities?.canAccessLogs || !this.context.config) {
+  createLogClient(instanceName?: string): SFCCLogClient | null {
+    const { config, capabilities } = this.resolveInstance(instanceName);
+    if (!capabilities?.canAccessLogs || !config) {
       this.logger.debug('Log client not created: missing log access capability or config');
       return null;
     }
 
     this.logger.debug('Creating SFCC Log Client');
-    return new SFCCLogClient(this.context.config);
+    return new SFCCLogClient(config);
   }
 
   /**
    * Create an OCAPI Client if OCAPI access is available
    */
-  createOCAPIClient(): OCAPIClient | null {
-    if (!this.hasOCAPICredentials()) {
+  createOCAPIClient(instanceName?: string): OCAPIClient | null {
+    const { config, capabilities } = this.resolveInstance(instanceName);
+    if (!this.hasOCAPICredentials(config, capabilities)) {
       this.logger.debug('OCAPI client not created: missing OCAPI credentials or capability');
       return null;
     }
 
     this.logger.debug('Creating OCAPI Client');
     return new OCAPIClient({
-      hostname: this.context.config!.hostname!,
-      clientId: this.context.config!.clientId!,
-      clientSecret: this.context.config!.clientSecret!,
+      hostname: config!.hostname!,
+      clientId: config!.clientId!,
+      clientSecret: config!.clientSecret!,
       version: 'v23_2',
+      http: config!.http,
     });
   }
 
   /**
    * Create an OCAPI Code Versions Client if OCAPI access is available
    */
-  createCodeVersionsClient(): OCAPICodeVersionsClient | null {
-    if (!this.hasOCAPICredentials()) {
+  createCodeVersionsClient(instanceName?: string): OCAPICodeVersionsClient | null {
+    const { config, capabilities } = this.resolveInstance(instanceName);
+    if (!this.hasOCAPICredentials(config, capabilities)) {
       this.logger.debug('Code versions client not created: missing OCAPI credentials or capability');
       return null;
     }
 
     this.logger.debug('Creating OCAPI Code Versions Client');
     return new OCAPICodeVersionsClient({
-      hostname: this.context.config!.hostname!,
-      clientId: this.context.config!.clientId!,
-      clientSecret: this.context.config!.clientSecret!,
+      hostname: config!.hostname!,
+      clientId: config!.clientId!,
+      clientSecret: config!.clientSecret!,
+      version: 'v23_2',
+      http: config!.http,
+    });
+  }
+
+  /**
+   * Create an OCAPI Access Diagnostics Client if OCAPI access is available
+   */
+  createAccessDiagnosticsClient(instanceName?: string): OCAPIAccessDiagnosticsClient | null {
+    const { config, capabilities } = this.resolveInstance(instanceName);
+    if (!this.hasOCAPICredentials(config, capabilities)) {
+      this.logger.debug('Access diagnostics client not created: missing OCAPI credentials or capability');
+      return null;
+    }
+
+    this.logger.debug('Creating OCAPI Access Diagnostics Client');
+    return new OCAPIAccessDiagnosticsClient({
+      hostname: config!.hostname!,
+      clientId: config!.clientId!,
+      clientSecret: config!.clientSecret!,
       version: 'v23_2',
+      http: config!.http,
     });
   }
 
+  /**
+   * Get the configuration of the targeted instance
+   */
+  getInstanceConfig(instanceName?: string): SFCCConfig | undefined {
+    return this.resolveInstance(instanceName).config;
+  }
+
+  /**
+   * Get the site ID and read-only flag of the targeted instance
+   */
+  getInstanceSettings(instanceName?: string): { siteId?: string; readOnly: boolean } {
+    const { config } = this.resolveInstance(instanceName);
+    return { siteId: config?.siteId, readOnly: config?.readOnly === true };
+  }
+
+  /**
+   * Get the Data API connection settings of an instance if OCAPI or Shopper API access is available
+   * OCAPI credentials are empty when only SLAS is configured; SCAPI settings (short code,
+   * organization ID) and SLAS client settings are included when configured
+   */
+  getDataAPIConfig(instanceName?: string): SCAPIConfig | null {
+    const { config, capabilities } = this.resolveInstance(instanceName);
+    const hasOCAPI = this.hasOCAPICredentials(config, capabilities);
+    const hasShopperAPI = !!config && ConfigurationFactory.getCapabilities(config).canAccessShopperAPI;
+    if (!hasOCAPI && !hasShopperAPI) {
+      return null;
+    }
+
+    return {
+      hostname: config!.hostname!,
+      clientId: hasOCAPI ? config!.clientId! : '',
+      clientSecret: hasOCAPI ? config!.clientSecret! : '',
+      siteId: config!.siteId,
+      shortCode: config!.shortCode,
+      organizationId: config!.organizationId,
+      slasClientId: config!.slasClientId,
+      slasClientSecret: config!.slasClientSecret,
+      slasRedirectUri: config!.slasRedirectUri,
+      shopperLogin: config!.shopperLogin,
+      shopperPassword: config!.shopperPassword,
+      http: config!.http,
+    };
+  }
+
+  /**
+   * Resolve the configuration and capabilities of the targeted instance
+   * Without named instances, the handler context is used as-is
+   */
+  private resolveInstance(instanceName?: string): ResolvedInstance {
+    if (!this.context.config?.instances) {
+      if (instanceName && this.context.config) {
+        // Validates the name even when only the default instance exists
+        ConfigurationFactory.resolveInstance(this.context.config, instanceName);
+      }
+      return { config: this.context.config, capabilities: this.context.capabilities };
+    }
+
+    const config = ConfigurationFactory.resolveInstance(this.context.config, instanceName);
+    return { config, capabilities: ConfigurationFactory.getCapabilities(config) };
+  }
+
   /**
    * Check if OCAPI credentials and capability are available
    */
-  private hasOCAPICredentials(): boolean {
+  private hasOCAPICredentials(
+    config: SFCCConfig | undefined,
+    capabilities: HandlerContext['capabilities'] | undefined,
+  ): boolean {
     return !!(
-      this.context.capabilities?.canAccessOCAPI &&
-      this.context.config?.hostname &&
-      this.context.config?.clientId &&
-      this.context.config?.clientSecret
+      capabilities?.canAccessOCAPI &&
+      config?.hostname &&
+      config?.clientId &&
+      config?.clientSecret
     );
   }
 
@@ -1,6 +1,6 @@
 import { BaseToolHandler, ToolExecutionContext, GenericToolSpec, HandlerContext, ToolArguments } from './base-handler.js';
 import { OCAPICodeVersionsClient } from '../../clients/ocapi/code-versions-client.js';
-import { ClientFactory } from './client-factory.js';
+import { ClientFactory, InstanceClientCache } from './client-factory.js';
 import {
   CODE_VERSION_TOOL_CONFIG,
   CodeVersionToolName,
@@ -14,10 +14,14 @@ import {
 export class CodeVersionToolHandler extends BaseToolHandler<CodeVersionToolName> {
   private codeVersionsClient: OCAPICodeVersionsClient | null = null;
   private clientFactory: ClientFactory;
+  private instanceCodeVersionsClients: InstanceClientCache<OCAPICodeVersionsClient>;
 
   constructor(context: HandlerContext, subLoggerName: string) {
     super(context, subLoggerName);
     this.clientFactory = new ClientFactory(context, this.logger);
+    this.instanceCodeVersionsClients = new InstanceClientCache(
+      name => this.clientFactory.createCodeVersionsClient(name),
+    );
   }
 
   protected async onInitialize(): Promise<void> {
@@ -29,6 +33,7 @@ export class CodeVersionToolHandler extends BaseToolHandler<CodeVersionToolName>
 
   protected async onDispose(): Promise<void> {
     this.codeVersionsClient = null;
+    this.instanceCodeVersionsClients.clear();
     this.logger.debug('Code versions client disposed');
   }
 
@@ -44,15 +49,17 @@ export class CodeVersionToolHandler extends BaseToolHandler<CodeVersionToolName>
     return CODE_VERSION_TOOL_CONFIG;
   }
 
-  protected async createExecutionContext(): Promise<ToolExecutionContext> {
-    if (!this.codeVersionsClient) {
+  protected async createExecutionContext(args?: ToolArguments): Promise<ToolExecutionContext> {
+    const instance = this.clientFactory.resolveInstanceName(args?.instance as string | undefined);
+    const codeVersionsClient = instance ? this.instanceCodeVersionsClients.get(instance) : this.codeVersionsClient;
+    if (!codeVersionsClient) {
       throw new Error(ClientFactory.getClientRequiredError('OCAPI'));
     }
 
     return {
       handlerContext: this.context,
       logger: this.logger,
-      codeVersionsClient: this.codeVersionsClient,
+      codeVersionsClient,
     };
   }
 }
@@ -3,7 +3,9 @@
  *
  * This module handles all Data API (OCAPI/SCAPI) related tool requests.
  * It provides access to products, catalogs, customers, orders, and other
- * SFCC data through the OCAPI endpoints.
+ * SFCC data through the OCAPI endpoints, and to storefront data through the
+ * SCAPI Shopper APIs as a guest or registered shopper. Endpoints imported from
+ * OCAPI/SCAPI API specs or endpoint packs are handled with a generic tool configuration.
  */
 
 import {
@@ -14,10 +16,14 @@ import {
   ToolArguments,
 } from './base-handler.js';
 import { DataAPIClient } from '../../clients/data-api-client.js';
-import { OCAPIConfig, DataAPIRequestParams } from '../../types/types.js';
+import { ClientFactory, InstanceClientCache } from './client-factory.js';
+import { DataAPIRequestParams, Endpoint } from '../../types/types.js';
 import { EndpointLoader } from '../../utils/endpoint-loader.js';
+import { getPaginationOptions } from '../../utils/pagination.js';
+import { HttpRequestError } from '../../clients/base/http-client.js';
 
-// Tool name type for Data API tools
+// Tool name type for the hand-written Data API tools
+// Keep in sync with endpoints.json and tool-definitions.ts; tools imported from API specs are not listed here
 type DataAPIToolName =
   | 'search_products'
   | 'get_product'
@@ -46,7 +52,19 @@ type DataAPIToolName =
   | 'get_price_books'
   | 'get_price_book'
   | 'get_content_assets'
-  | 'get_content_asset';
+  | 'get_content_asset'
+  | 'scapi_search_products'
+  | 'scapi_get_product'
+  | 'scapi_get_orders'
+  | 'scapi_get_order'
+  | 'scapi_search_customers'
+  | 'scapi_get_customer'
+  | 'scapi_get_inventory_availability'
+  | 'shopper_get_product'
+  | 'shopper_search_products'
+  | 'shopper_create_basket'
+  | 'shopper_add_item'
+  | 'shopper_get_basket';
 
 /**
  * Execution context for Data API tools
@@ -58,15 +76,19 @@ interface DataAPIExecutionContext extends ToolExecutionContext {
 /**
  * Data API Tool Handler
  */
-export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
+export class DataAPIToolHandler extends BaseToolHandler {
   private dataAPIClient: DataAPIClient | null = null;
   private toolNameSet: Set<string>;
   private endpointLoader: EndpointLoader;
+  private clientFactory: ClientFactory;
+  private instanceDataAPIClients: InstanceClientCache<DataAPIClient>;
 
   constructor(context: HandlerContext, subLoggerName: string) {
     super(context, subLoggerName);
     this.endpointLoader = EndpointLoader.getInstance();
     this.toolNameSet = this.endpointLoader.getToolNameSet();
+    this.clientFactory = new ClientFactory(context, this.logger);
+    this.instanceDataAPIClients = new InstanceClientCache(name => this.createDataAPIClient(name));
   }
 
   /**
@@ -77,14 +99,15 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
   }
 
   /**
-   * Create execution context with Data API client
+   * Create execution context with the Data API client for the selected instance
    */
-  protected async createExecutionContext(): Promise<DataAPIExecutionContext> {
+  protected async createExecutionContext(args?: ToolArguments): Promise<DataAPIExecutionContext> {
     await this.initialize();
+    const instance = this.clientFactory.resolveInstanceName(args?.instance as string | undefined);
     return {
       handlerContext: this.context,
       logger: this.logger,
-      dataAPIClient: this.dataAPIClient!,
+      dataAPIClient: (instance ? this.instanceDataAPIClients.get(instance) : this.dataAPIClient)!,
     };
   }
 
@@ -92,26 +115,56 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
    * Initialize the Data API client
    */
   protected async onInitialize(): Promise<void> {
-    if (!this.context.capabilities.canAccessOCAPI) {
-      this.logger.warn('OCAPI access not available - Data API handler will not be functional');
+    this.dataAPIClient = this.createDataAPIClient();
+    if (!this.dataAPIClient) {
+      this.logger.warn('OCAPI and Shopper API access not available - Data API handler will not be functional');
       return;
     }
 
-    const config: OCAPIConfig = {
-      hostname: this.context.config.hostname!,
-      clientId: this.context.config.clientId!,
-      clientSecret: this.context.config.clientSecret!,
-      siteId: this.context.config.siteId,
-    };
-
-    this.dataAPIClient = new DataAPIClient(config);
     this.logger.debug('Data API client initialized');
   }
 
+  /**
+   * Create a Data API client for the default or a named instance
+   */
+  private createDataAPIClient(instanceName?: string): DataAPIClient | null {
+    const config = this.clientFactory.getDataAPIConfig(instanceName);
+    return config ? new DataAPIClient(config) : null;
+  }
+
   /**
    * Get tool configuration
+   * Hand-written tool configurations take precedence over the generated ones
    */
-  protected getToolConfig(): Record<DataAPIToolName, GenericToolSpec> {
+  protected getToolConfig(): Record<string, GenericToolSpec> {
+    return {
+      ...this.getImportedToolConfig(),
+      ...this.getEndpointToolConfig(),
+    };
+  }
+
+  /**
+   * Get the generated tool configuration of the endpoints imported from API specs and endpoint packs
+   */
+  private getImportedToolConfig(): Record<string, GenericToolSpec> {
+    const config: Record<string, GenericToolSpec> = {};
+
+    for (const endpoint of this.endpointLoader.getImportedEndpoints()) {
+      const required = endpoint.parameters.filter((param) => param.required).map((param) => param.name);
+      config[endpoint.toolName] = {
+        validate: (args, toolName) => this.validateArgs(args, required, toolName),
+        exec: async (args, ctx) => this.executeEndpoint(endpoint.toolName, args, ctx),
+        logMessage: () => `Calling ${endpoint.method} ${endpoint.path} (${endpoint.source})`,
+      };
+    }
+
+    return config;
+  }
+
+  /**
+   * Get the tool configuration of the hand-written Data API tools
+   */
+  private getEndpointToolConfig(): Record<DataAPIToolName, GenericToolSpec> {
     return {
       // Product Tools
       search_products: {
@@ -265,6 +318,67 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
         exec: async (args, ctx) => this.executeEndpoint('get_content_asset', args, ctx),
         logMessage: (args) => `Getting content asset: ${args.content_id} from library: ${args.library_id}`,
       },
+
+      // SCAPI Admin Tools
+      scapi_search_products: {
+        exec: async (args, ctx) => this.executeEndpoint('scapi_search_products', args, ctx),
+        logMessage: (args) => `Searching products via SCAPI${args.query ? `: ${args.query}` : ''}`,
+      },
+      scapi_get_product: {
+        validate: (args, toolName) => this.validateArgs(args, ['productId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('scapi_get_product', args, ctx),
+        logMessage: (args) => `Getting product via SCAPI: ${args.productId}`,
+      },
+      scapi_get_orders: {
+        validate: (args, toolName) => this.validateArgs(args, ['siteId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('scapi_get_orders', args, ctx),
+        logMessage: (args) => `Getting orders via SCAPI in site: ${args.siteId}`,
+      },
+      scapi_get_order: {
+        validate: (args, toolName) => this.validateArgs(args, ['orderNo', 'siteId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('scapi_get_order', args, ctx),
+        logMessage: (args) => `Getting order via SCAPI: ${args.orderNo} in site: ${args.siteId}`,
+      },
+      scapi_search_customers: {
+        validate: (args, toolName) => this.validateArgs(args, ['listId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('scapi_search_customers', args, ctx),
+        logMessage: (args) => `Searching customers via SCAPI in list: ${args.listId}`,
+      },
+      scapi_get_customer: {
+        validate: (args, toolName) => this.validateArgs(args, ['listId', 'customerNo'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('scapi_get_customer', args, ctx),
+        logMessage: (args) => `Getting customer via SCAPI: ${args.customerNo} in list: ${args.listId}`,
+      },
+      scapi_get_inventory_availability: {
+        validate: (args, toolName) => this.validateArgs(args, ['skus', 'locations'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('scapi_get_inventory_availability', args, ctx),
+        logMessage: (args) => `Getting inventory availability via SCAPI for: ${args.skus}`,
+      },
+
+      // Shopper API Tools
+      shopper_get_product: {
+        validate: (args, toolName) => this.validateArgs(args, ['productId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('shopper_get_product', args, ctx),
+        logMessage: (args) => `Getting product as ${args.shopper ?? 'guest'} shopper: ${args.productId}`,
+      },
+      shopper_search_products: {
+        exec: async (args, ctx) => this.executeEndpoint('shopper_search_products', args, ctx),
+        logMessage: (args) => `Searching products as ${args.shopper ?? 'guest'} shopper${args.q ? `: ${args.q}` : ''}`,
+      },
+      shopper_create_basket: {
+        exec: async (args, ctx) => this.executeEndpoint('shopper_create_basket', args, ctx),
+        logMessage: (args) => `Creating basket as ${args.shopper ?? 'guest'} shopper`,
+      },
+      shopper_add_item: {
+        validate: (args, toolName) => this.validateArgs(args, ['basketId', 'productId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('shopper_add_item', args, ctx),
+        logMessage: (args) => `Adding ${args.productId} to basket: ${args.basketId}`,
+      },
+      shopper_get_basket: {
+        validate: (args, toolName) => this.validateArgs(args, ['basketId'], toolName),
+        exec: async (args, ctx) => this.executeEndpoint('shopper_get_basket', args, ctx),
+        logMessage: (args) => `Getting basket as ${args.shopper ?? 'guest'} shopper: ${args.basketId}`,
+      },
     };
   }
 
@@ -279,16 +393,23 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
     const dataCtx = ctx as DataAPIExecutionContext;
 
     if (!dataCtx.dataAPIClient) {
-      throw new Error('Data API client not initialized. Check OCAPI credentials.');
+      throw new Error('Data API client not initialized. Check OCAPI or SLAS credentials.');
     }
 
     // Build request parameters from args
     const params = this.buildRequestParams(toolName, args);
 
-    // Execute the endpoint
-    const response = await dataCtx.dataAPIClient.executeEndpoint(toolName, params);
+    // Execute the endpoint, aggregating all pages when `all` or `maxResults` is requested
+    const pagination = getPaginationOptions(args);
+    const response = pagination
+      ? await dataCtx.dataAPIClient.executePaginatedEndpoint(toolName, params, pagination)
+      : await dataCtx.dataAPIClient.executeEndpoint(toolName, params);
 
     if (!response.success) {
+      // Rethrow HTTP errors so that tool results carry their classification and fault details
+      if (response.cause instanceof HttpRequestError) {
+        throw response.cause;
+      }
       throw new Error(response.error ?? 'Unknown error occurred');
     }
 
@@ -317,17 +438,27 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
         continue;
       }
 
+      // Body parameters are applied when building the request body
+      if (param.in === 'body') {
+        continue;
+      }
+
       // Check if this is a path parameter (appears in the path)
-      if (endpoint.path.includes(`{${param.name}}`)) {
+      if (param.in === 'path' || (param.in === undefined && endpoint.path.includes(`{${param.name}}`))) {
         pathParams[param.name] = String(value);
-      } else if (param.name !== 'query') {
-        // Query parameters (except 'query' which goes in body)
+      } else if (param.in === 'query' || param.name !== 'query') {
+        // Query parameters (except an undeclared 'query' which goes in body)
         queryParams[param.name] = value;
       }
     }
 
-    // Handle search requests with query parameter
-    if (endpoint.method === 'POST' && endpoint.defaultBody) {
+    if (endpoint.apiType === 'scapi') {
+      body = this.buildSCAPIBody(toolName, endpoint, args);
+    } else if (endpoint.parameters.some((param) => param.in === 'body')) {
+      // OCAPI endpoints with declared body parameters (e.g. imported from an API spec)
+      body = this.applyBodyParams(endpoint, args, { ...endpoint.defaultBody });
+    } else if (endpoint.method === 'POST' && endpoint.defaultBody) {
+      // Handle search requests with query parameter
       body = { ...endpoint.defaultBody };
 
       // Handle text query if provided
@@ -365,9 +496,65 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
       }
     }
 
+    // Shopper APIs run as a guest unless a registered shopper is requested
+    if (endpoint.apiFamily === 'shopper') {
+      return { pathParams, queryParams, body, shopperType: args.shopper === 'registered' ? 'registered' : 'guest' };
+    }
+
     return { pathParams, queryParams, body };
   }
 
+  /**
+   * Build the request body of a SCAPI endpoint from its body parameters
+   * SCAPI search endpoints use camelCase query objects instead of the OCAPI format
+   */
+  private buildSCAPIBody(
+    toolName: string,
+    endpoint: Endpoint,
+    args: ToolArguments,
+  ): Record<string, any> | undefined {
+    if (!['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
+      return undefined;
+    }
+
+    const body = this.applyBodyParams(endpoint, args, { ...endpoint.defaultBody });
+
+    // A plain search phrase is converted to a text query (declared query objects are sent as-is)
+    if (typeof args.query === 'string' && args.query) {
+      body.query = {
+        textQuery: {
+          fields: this.getSearchFieldsForTool(toolName),
+          searchPhrase: args.query,
+        },
+      };
+    }
+
+    return body;
+  }
+
+  /**
+   * Apply the body parameters of an endpoint to a request body
+   * Comma-separated strings are accepted for array parameters
+   */
+  private applyBodyParams(
+    endpoint: Endpoint,
+    args: ToolArguments,
+    body: Record<string, any>,
+  ): Record<string, any> {
+    for (const param of endpoint.parameters) {
+      const value = args[param.name];
+      if (param.in !== 'body' || value === undefined || value === null || value === '') {
+        continue;
+      }
+
+      body[param.name] = param.type === 'array' && !Array.isArray(value)
+        ? String(value).split(',').map((s: string) => s.trim()).filter(Boolean)
+        : value;
+    }
+
+    return body;
+  }
+
   /**
    * Get search fields for a specific tool
    */
@@ -376,6 +563,8 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
       search_products: ['id', 'name'],
       search_customers: ['email', 'first_name', 'last_name'],
       search_orders: ['order_no', 'customer_email'],
+      scapi_search_products: ['id', 'name'],
+      scapi_search_customers: ['email', 'firstName', 'lastName'],
     };
 
     return fieldMap[toolName] || ['id', 'name'];
@@ -386,6 +575,7 @@ export class DataAPIToolHandler extends BaseToolHandler<DataAPIToolName> {
    */
   protected async onDispose(): Promise<void> {
     this.dataAPIClient = null;
+    this.instanceDataAPIClients.clear();
     this.logger.debug('Data API handler disposed');
   }
 }
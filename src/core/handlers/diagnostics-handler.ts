@@ -0,0 +1,80 @@
+import { BaseToolHandler, ToolExecutionContext, GenericToolSpec, HandlerContext, ToolArguments } from './base-handler.js';
+import { OCAPIAccessDiagnosticsClient } from '../../clients/ocapi/access-diagnostics-client.js';
+import { ConnectionChecker } from '../../clients/connection-checker.js';
+import { ClientFactory, InstanceClientCache } from './client-factory.js';
+import { EndpointLoader } from '../../utils/endpoint-loader.js';
+import {
+  DIAGNOSTICS_TOOL_CONFIG,
+  DiagnosticsToolName,
+  DIAGNOSTICS_TOOL_NAMES_SET,
+} from '../../tool-configs/diagnostics-tool-config.js';
+
+/**
+ * Handler for diagnostics tools using config-driven dispatch
+ * Checks the connection to the instance and the OCAPI permissions of the configured API client
+ */
+export class DiagnosticsToolHandler extends BaseToolHandler<DiagnosticsToolName> {
+  private accessDiagnosticsClient: OCAPIAccessDiagnosticsClient | null = null;
+  private clientFactory: ClientFactory;
+  private instanceAccessDiagnosticsClients: InstanceClientCache<OCAPIAccessDiagnosticsClient>;
+
+  constructor(context: HandlerContext, subLoggerName: string) {
+    super(context, subLoggerName);
+    this.clientFactory = new ClientFactory(context, this.logger);
+    this.instanceAccessDiagnosticsClients = new InstanceClientCache(
+      name => this.clientFactory.createAccessDiagnosticsClient(name),
+    );
+  }
+
+  protected async onInitialize(): Promise<void> {
+    this.accessDiagnosticsClient = this.clientFactory.createAccessDiagnosticsClient();
+    if (this.accessDiagnosticsClient) {
+      this.logger.debug('Access diagnostics client initialized');
+    }
+  }
+
+  protected async onDispose(): Promise<void> {
+    this.accessDiagnosticsClient = null;
+    this.instanceAccessDiagnosticsClients.clear();
+    this.logger.debug('Access diagnostics client disposed');
+  }
+
+  canHandle(toolName: string): boolean {
+    return DIAGNOSTICS_TOOL_NAMES_SET.has(toolName as DiagnosticsToolName);
+  }
+
+  protected getToolNameSet(): Set<DiagnosticsToolName> {
+    return DIAGNOSTICS_TOOL_NAMES_SET;
+  }
+
+  protected getToolConfig(): Record<string, GenericToolSpec<ToolArguments, any>> {
+    return DIAGNOSTICS_TOOL_CONFIG;
+  }
+
+  protected async createExecutionContext(args?: ToolArguments): Promise<ToolExecutionContext> {
+    const instance = this.clientFactory.resolveInstanceName(args?.instance as string | undefined);
+    const accessDiagnosticsClient = instance
+      ? this.instanceAccessDiagnosticsClients.get(instance)
+      : this.accessDiagnosticsClient;
+
+    // Write methods are only probed on instances that allow changes
+    const { siteId, readOnly } = this.clientFactory.getInstanceSettings(instance);
+    return {
+      handlerContext: this.context,
+      logger: this.logger,
+      accessDiagnosticsClient,
+      // Connection checks create fresh clients so cached tokens and connections are verified again
+      connectionChecker: this.createConnectionChecker(instance),
+      endpoints: EndpointLoader.getInstance().getEndpoints(),
+      probeOptions: { siteId, probeWrites: !readOnly },
+    };
+  }
+
+  /**
+   * Create a connection checker if an instance hostname is configured
+   */
+  private createConnectionChecker(instanceName?: string): ConnectionChecker | null {
+    const config = this.clientFactory.getInstanceConfig(instanceName);
+    return config?.hostname ? new ConnectionChecker(config) : null;
+  }
+}
@@ -0,0 +1,35 @@
+import { BaseToolHandler, ToolExecutionContext, GenericToolSpec, ToolArguments, HandlerContext } from './base-handler.js';
+import {
+  INSTANCE_TOOL_CONFIG,
+  InstanceToolName,
+  INSTANCE_TOOL_NAMES_SET,
+} from '../../tool-configs/instance-tool-config.js';
+
+/**
+ * Handler for instance management tools using config-driven dispatch
+ * Describes the SFCC instances configured through dw.json profiles
+ */
+export class InstanceToolHandler extends BaseToolHandler<InstanceToolName> {
+  constructor(context: HandlerContext, subLoggerName: string) {
+    super(context, subLoggerName);
+  }
+
+  canHandle(toolName: string): boolean {
+    return INSTANCE_TOOL_NAMES_SET.has(toolName as InstanceToolName);
+  }
+
+  protected getToolNameSet(): Set<InstanceToolName> {
+    return INSTANCE_TOOL_NAMES_SET;
+  }
+
+  protected getToolConfig(): Record<string, GenericToolSpec<ToolArguments, any>> {
+    return INSTANCE_TOOL_CONFIG;
+  }
+
+  protected async createExecutionContext(): Promise<ToolExecutionContext> {
+    return {
+      handlerContext: this.context,
+      logger: this.logger,
+    };
+  }
+}
@@ -1,7 +1,8 @@
 import { AbstractLogToolHandler } from './abstract-log-tool-handler.js';
 import { HandlerContext } from './base-handler.js';
 import { GenericToolSpec } from './base-handler.js';
-import { ToolArguments } from './base-handler.js';
+import { ToolArguments, ToolExecutionContext } from './base-handler.js';
+import { LogTailCursorStore } from '../../clients/logs/index.js';
 import { LOG_TOOL_CONFIG } from '../../tool-configs/log-tool-config.js';
 import { LOG_TOOL_NAMES_SET, LogToolName } from '../../utils/log-tool-constants.js';
 
@@ -10,6 +11,9 @@ import { LOG_TOOL_NAMES_SET, LogToolName } from '../../utils/log-tool-constants.
  * Handles log reading, searching, and analysis operations
  */
 export class LogToolHandler extends AbstractLogToolHandler<LogToolName> {
+  /** Cursors of the tail_logs sessions started through this handler, kept per MCP session */
+  private tailCursors = new LogTailCursorStore();
+
   constructor(context: HandlerContext, subLoggerName: string) {
     super(context, subLoggerName);
   }
@@ -25,4 +29,20 @@ export class LogToolHandler extends AbstractLogToolHandler<LogToolName> {
   protected getToolConfig(): Record<string, GenericToolSpec<ToolArguments, any>> {
     return LOG_TOOL_CONFIG;
   }
+
+  protected async createExecutionContext(args?: ToolArguments): Promise<ToolExecutionContext> {
+    return {
+      ...await super.createExecutionContext(args),
+      tailCursors: this.tailCursors,
+    };
+  }
+
+  protected async onSessionClose(sessionId: string): Promise<void> {
+    this.tailCursors.clearSession(sessionId);
+  }
+
+  protected async onDispose(): Promise<void> {
+    this.tailCursors.clear();
+    await super.onDispose();
+  }
 }
@@ -1,6 +1,6 @@
 import { BaseToolHandler, ToolExecutionContext, GenericToolSpec, HandlerContext, ToolArguments } from './base-handler.js';
 import { OCAPIClient } from '../../clients/ocapi-client.js';
-import { ClientFactory } from './client-factory.js';
+import { ClientFactory, InstanceClientCache } from './client-factory.js';
 import {
   SYSTEM_OBJECT_TOOL_CONFIG,
   SystemObjectToolName,
@@ -14,10 +14,12 @@ import {
 export class SystemObjectToolHandler extends BaseToolHandler<SystemObjectToolName> {
   private ocapiClient: OCAPIClient | null = null;
   private clientFactory: ClientFactory;
+  private instanceOCAPIClients: InstanceClientCache<OCAPIClient>;
 
   constructor(context: HandlerContext, subLoggerName: string) {
     super(context, subLoggerName);
     this.clientFactory = new ClientFactory(context, this.logger);
+    this.instanceOCAPIClients = new InstanceClientCache(name => this.clientFactory.createOCAPIClient(name));
   }
 
   protected async onInitialize(): Promise<void> {
@@ -29,6 +31,7 @@ export class SystemObjectToolHandler extends BaseToolHandler<SystemObjectToolNam
 
   protected async onDispose(): Promise<void> {
     this.ocapiClient = null;
+    this.instanceOCAPIClients.clear();
     this.logger.debug('OCAPI client disposed');
   }
 
@@ -44,15 +47,17 @@ export class SystemObjectToolHandler extends BaseToolHandler<SystemObjectToolNam
     return SYSTEM_OBJECT_TOOL_CONFIG;
   }
 
-  protected async createExecutionContext(): Promise<ToolExecutionContext> {
-    if (!this.ocapiClient) {
+  protected async createExecutionContext(args?: ToolArguments): Promise<ToolExecutionContext> {
+    const instance = this.clientFactory.resolveInstanceName(args?.instance as string | undefined);
+    const ocapiClient = instance ? this.instanceOCAPIClients.get(instance) : this.ocapiClient;
+    if (!ocapiClient) {
       throw new Error(ClientFactory.getClientRequiredError('OCAPI'));
     }
 
     return {
       handlerContext: this.context,
       logger: this.logger,
-      ocapiClient: this.ocapiClient,
+      ocapiClient,
     };
   }
 }
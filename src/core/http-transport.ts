@@ -0,0 +1,344 @@
+/**
+ * HTTP Transport Host
+ *
+ * Serves the MCP server over Streamable HTTP (with a legacy SSE fallback) so a single
+ * SFCC-connected process can back several IDEs and agents at once. Every client session
+ * gets its own MCP Server/transport pair. The tool registry behind it is shared and keys its
+ * per-session state (confirmation tokens, tail cursors) by session ID, releasing it when the
+ * host reports that the session has closed.
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../utils/logger.js';
+
+export const HTTP_TRANSPORT_PATHS = {
+  /** Streamable HTTP endpoint (POST/GET/DELETE) */
+  MCP: '/mcp',
+  /** Legacy SSE stream endpoint (GET) */
+  SSE: '/sse',
+  /** Legacy SSE message endpoint (POST) */
+  MESSAGES: '/messages',
+  /** Liveness probe */
+  HEALTH: '/health',
+} as const;
+
+/** Maximum accepted JSON-RPC request body size */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Host names that all refer to the loopback interface */
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/** Bind addresses that listen on every interface, for which no Host header can be pinned */
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+export interface HttpTransportOptions {
+  /** Port to listen on (0 picks a free port) */
+  port: number;
+  /** Interface to bind to (default: 127.0.0.1) */
+  host?: string;
+  /** Bearer token required on every request except the health check (default: none) */
+  authToken?: string;
+}
+
+/**
+ * Host and Origin header values accepted for DNS rebinding protection
+ */
+interface AllowedHeaders {
+  hosts: string[];
+  origins: string[];
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+}
+
+/**
+ * Hosts MCP sessions over HTTP, creating a fresh MCP Server per session
+ */
+export class HttpTransportHost {
+  private httpServer: HttpServer | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+  private allowed: AllowedHeaders | null = null;
+  private authTokenDigest: Buffer | null = null;
+  private logger: Logger;
+
+  /**
+   * @param serverFactory - Creates the MCP Server of a new session
+   * @param onSessionClosed - Called with the session ID after a session has closed
+   */
+  constructor(
+    private readonly serverFactory: () => Server,
+    private readonly onSessionClosed?: (sessionId: string) => void,
+  ) {
+    this.logger = Logger.getChildLogger('HttpTransport');
+  }
+
+  /**
+   * Start listening for HTTP connections
+   *
+   * @returns The address the server is bound to
+   */
+  async start(options: HttpTransportOptions): Promise<{ host: string; port: number }> {
+    const host = options.host ?? '127.0.0.1';
+    this.authTokenDigest = options.authToken ? this.digest(options.authToken) : null;
+    this.httpServer = createServer((req, res) => {
+      this.route(req, res).catch((error) => {
+        this.logger.error('Unhandled error while processing HTTP request:', error);
+        this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(options.port, host, () => {
+        this.httpServer!.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+    this.allowed = this.getAllowedHeaders(host, port);
+    if (!this.allowed) {
+      const hint = this.authTokenDigest ? '' : ' - set an auth token to restrict access';
+      this.logger.warn(`DNS rebinding protection is disabled because ${host} listens on every interface${hint}`);
+    }
+    return { host, port };
+  }
+
+  /**
+   * Close all active sessions and stop the HTTP server
+   */
+  async stop(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close().catch(() => undefined)));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Number of currently open MCP sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== HTTP_TRANSPORT_PATHS.HEALTH) {
+      if (!this.isAuthorized(req)) {
+        res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32001, message: 'Unauthorized' }, id: null }));
+        return;
+      }
+      // The transports only check the Origin header when it is present; browsers always send it
+      const origin = this.getHeader(req, 'origin');
+      if (origin && this.allowed && !this.allowed.origins.includes(origin)) {
+        this.sendJsonRpcError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+        return;
+      }
+    }
+
+    switch (url.pathname) {
+      case HTTP_TRANSPORT_PATHS.MCP:
+        return this.handleStreamableRequest(req, res);
+      case HTTP_TRANSPORT_PATHS.SSE:
+        return this.handleSseStream(req, res);
+      case HTTP_TRANSPORT_PATHS.MESSAGES:
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      case HTTP_TRANSPORT_PATHS.HEALTH:
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+        return;
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+    }
+  }
+
+  /**
+   * Handle Streamable HTTP requests, creating a new session on initialize
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = this.getHeader(req, 'mcp-session-id');
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined;
+    if (body === null) {
+      return;
+    }
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!(session?.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const server = this.serverFactory();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport });
+        this.logger.debug(`Streamable HTTP session initialized: ${id}`);
+      },
+      ...this.getDnsRebindingOptions(),
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+        this.onSessionClosed?.(transport.sessionId);
+        this.logger.debug(`Streamable HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize never registers the session, so nothing else would close its server
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        await server.close().catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Open a legacy SSE stream (protocol version 2024-11-05 clients)
+   */
+  private async handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' });
+      res.end();
+      return;
+    }
+
+    const server = this.serverFactory();
+    const transport = new SSEServerTransport(HTTP_TRANSPORT_PATHS.MESSAGES, res, this.getDnsRebindingOptions());
+    this.sessions.set(transport.sessionId, { server, transport });
+    this.logger.debug(`SSE session opened: ${transport.sessionId}`);
+
+    res.on('close', () => {
+      if (this.sessions.delete(transport.sessionId)) {
+        server.close().catch(() => undefined);
+        this.onSessionClosed?.(transport.sessionId);
+      }
+      this.logger.debug(`SSE session closed: ${transport.sessionId}`);
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Route a message posted by a legacy SSE client to its session
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null,
+  ): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!(session?.transport instanceof SSEServerTransport)) {
+      this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === null) {
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Read and parse a JSON request body
+   * Returns null (after responding) when the body is too large or malformed
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32600, 'Request body too large');
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+      return null;
+    }
+  }
+
+  /**
+   * Compute the Host and Origin headers that address the bound interface
+   * Returns null for wildcard binds, where the names the server is reached by are unknown
+   */
+  private getAllowedHeaders(host: string, port: number): AllowedHeaders | null {
+    if (WILDCARD_HOSTS.includes(host)) {
+      return null;
+    }
+    const names = LOOPBACK_HOSTS.includes(host) ? LOOPBACK_HOSTS : [host];
+    const hosts = names.map(name => `${name.includes(':') ? `[${name}]` : name}:${port}`);
+    return { hosts, origins: hosts.map(value => `http://${value}`) };
+  }
+
+  private getDnsRebindingOptions(): { enableDnsRebindingProtection: boolean; allowedHosts?: string[] } {
+    if (!this.allowed) {
+      return { enableDnsRebindingProtection: false };
+    }
+    return { enableDnsRebindingProtection: true, allowedHosts: this.allowed.hosts };
+  }
+
+  /**
+   * Check the bearer token when one is configured (compared in constant time)
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.authTokenDigest) {
+      return true;
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(this.getHeader(req, 'authorization') ?? '');
+    return match !== null && timingSafeEqual(this.digest(match[1].trim()), this.authTokenDigest);
+  }
+
+  private digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+  }
+
+  private getHeader(req: IncomingMessage, name: string): string | undefined {
+    const value = req.headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    if (res.headersSent) {
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Prompt Provider
+ *
+ * Exposes a catalog of MCP prompts that bundle the existing tools and documentation
+ * resources into repeatable SFCC workflows (log triage, SFRA scaffolding, hook authoring,
+ * job debugging). Prompts validate their arguments and embed the relevant documentation
+ * as resource content so the client does not need a separate round trip.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { DocumentationResourceProvider } from './resource-provider.js';
+import { getCurrentDate } from '../utils/utils.js';
+import { Logger } from '../utils/logger.js';
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+  /** Allowed values (enforced when the argument is supplied) */
+  enum?: readonly string[];
+  /** Pattern the value must match (enforced when the argument is supplied) */
+  pattern?: RegExp;
+  /** Value used when the argument is omitted (functions are evaluated at render time) */
+  default?: string | (() => string);
+}
+
+/**
+ * Capabilities a prompt depends on; prompts whose requirements are not met are hidden
+ */
+export interface PromptCapabilities {
+  canAccessLogs: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  /** Capability that must be available for the prompt to be listed */
+  requires?: keyof PromptCapabilities;
+  /** Resource URIs to embed, derived from the resolved arguments */
+  resources: (args: Record<string, string>) => string[];
+  /** Instruction text, derived from the resolved arguments */
+  instructions: (args: Record<string, string>) => string;
+}
+
+type PromptMessage =
+  | { role: 'user'; content: { type: 'text'; text: string } }
+  | { role: 'user'; content: { type: 'resource'; resource: { uri: string; mimeType: string; text: string } } };
+
+export type PromptResult = {
+  description: string;
+  messages: PromptMessage[];
+};
+
+const DATE_PATTERN = /^\d{8}$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+export const SFCC_PROMPTS: PromptDefinition[] = [
+  {
+    name: 'triage_errors',
+    title: 'Triage Errors',
+    description: 'Triage the error activity on the instance for a given day and propose fixes',
+    requires: 'canAccessLogs',
+    arguments: [
+      {
+        name: 'date',
+        description: 'Date in YYYYMMDD format (default: today)',
+        pattern: DATE_PATTERN,
+        default: getCurrentDate,
+      },
+      {
+        name: 'limit',
+        description: 'Number of latest error entries to inspect (default: 20)',
+        pattern: /^\d+$/,
+        default: '20',
+      },
+    ],
+    resources: () => ['best-practice://performance'],
+    instructions: (args) => `Triage the SFCC error activity for ${args.date}.
+
+1. Call \`summarize_logs\` with date "${args.date}" to get an overview of error, warning and info counts.
+2. Call \`get_latest_error\` with date "${args.date}" and limit ${args.limit} to fetch the most recent errors.
+3. Group the errors by root cause (same message, script or cartridge), ordered by frequency and impact.
+4. For each group, use \`search_logs\` to check whether it recurs, then explain the likely cause
+   and propose a concrete fix. Use the SFCC class documentation tools when an API is involved.
+
+Finish with a prioritized list of issues and recommended next steps.`,
+  },
+  {
+    name: 'scaffold_sfra_controller',
+    title: 'Scaffold SFRA Controller',
+    description: 'Generate an SFRA controller following the bundled controller best practices',
+    arguments: [
+      {
+        name: 'controllerName',
+        description: 'Controller name (e.g., "Wishlist")',
+        required: true,
+        pattern: IDENTIFIER_PATTERN,
+      },
+      {
+        name: 'routes',
+        description: 'Comma-separated route names to create (default: "Show")',
+        default: 'Show',
+      },
+      {
+        name: 'cartridge',
+        description: 'Target cartridge name (default: "app_custom")',
+        pattern: IDENTIFIER_PATTERN,
+        default: 'app_custom',
+      },
+    ],
+    resources: () => ['best-practice://sfra_controllers', 'sfra://class/server'],
+    instructions: (args) => `Scaffold an SFRA controller named "${args.controllerName}" in the "${args.cartridge}" cartridge.
+
+Create \`${args.cartridge}/cartridge/controllers/${args.controllerName}.js\` with these routes: ${formatList(args.routes)}.
+
+Follow the attached SFRA controller best practices and \`server\` module documentation:
+- Use \`server.get\`/\`server.post\` with the appropriate middleware (cache, consentTracking, csrfProtection, userLoggedIn).
+- Keep business logic in models or scripts, not in the controller.
+- Render ISML templates or return JSON via \`res.render\`/\`res.json\` and always call \`next()\`.
+- Export with \`module.exports = server.exports();\`.
+
+Use \`get_sfra_document\` or \`get_sfcc_class_info\` if you need details on additional SFRA models or dw.* APIs.`,
+  },
+  {
+    name: 'write_ocapi_hook',
+    title: 'Write OCAPI Hook',
+    description: 'Implement an OCAPI or SCAPI hook using the hook reference and best practices',
+    arguments: [
+      {
+        name: 'requirement',
+        description: 'What the hook should do (e.g., "validate basket before order creation")',
+        required: true,
+      },
+      {
+        name: 'apiType',
+        description: 'Hook family: "ocapi" or "scapi" (default: "ocapi")',
+        enum: ['ocapi', 'scapi'],
+        default: 'ocapi',
+      },
+      {
+        name: 'cartridge',
+        description: 'Target cartridge name (default: "app_custom")',
+        pattern: IDENTIFIER_PATTERN,
+        default: 'app_custom',
+      },
+    ],
+    resources: (args) => [`best-practice://${args.apiType}_hooks`],
+    instructions: (args) => `Implement a ${args.apiType.toUpperCase()} hook in the "${args.cartridge}" cartridge that will:
+${args.requirement}
+
+1. Call \`get_hook_reference\` with guideName "${args.apiType}_hooks" and pick the extension point that matches.
+2. Register the hook in \`${args.cartridge}/hooks.json\` (and reference it from \`package.json\`).
+3. Implement the hook script with the documented signature, returning a \`dw.system.Status\`
+   and handling errors without breaking the API response.
+4. Explain how to test the hook and which OCAPI/SCAPI settings it depends on.
+
+Follow the attached hook guide for conventions and pitfalls.`,
+  },
+  {
+    name: 'debug_job',
+    title: 'Debug Job',
+    description: 'Investigate a job execution using its logs and the job framework guide',
+    requires: 'canAccessLogs',
+    arguments: [
+      {
+        name: 'jobName',
+        description: 'Name of the job to debug',
+        required: true,
+      },
+    ],
+    resources: () => ['best-practice://job_framework'],
+    instructions: (args) => `Debug the SFCC job "${args.jobName}".
+
+1. Call \`get_job_execution_summary\` with jobName "${args.jobName}" to get status, timing and step information.
+2. Call \`get_job_log_entries\` with jobName "${args.jobName}" and level "error" (then "warn") to inspect failures.
+3. Use \`search_job_logs\` to follow specific error messages or step IDs across executions.
+4. Identify the failing step, explain the root cause and propose a fix using the attached job framework guide
+   (chunk-oriented vs task-oriented steps, transaction handling, status codes).`,
+  },
+];
+
+/**
+ * Lists and renders the SFCC workflow prompts
+ */
+export class PromptProvider {
+  private logger: Logger;
+
+  constructor(
+    private readonly resourceProvider: DocumentationResourceProvider,
+    private readonly capabilities: PromptCapabilities,
+  ) {
+    this.logger = Logger.getChildLogger('Prompts');
+  }
+
+  /**
+   * List prompts whose required capabilities are available
+   */
+  listPrompts(): Array<Pick<PromptDefinition, 'name' | 'title' | 'description'> & {
+    arguments: Array<{ name: string; description: string; required: boolean }>;
+  }> {
+    return this.getAvailablePrompts().map(prompt => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments.map(arg => ({
+        name: arg.name,
+        description: arg.description,
+        required: arg.required ?? false,
+      })),
+    }));
+  }
+
+  /**
+   * Render a prompt with the given arguments
+   *
+   * @throws McpError when the prompt is unknown or an argument is invalid
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<PromptResult> {
+    const prompt = this.getAvailablePrompts().find(candidate => candidate.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const resolvedArgs = this.resolveArguments(prompt, args);
+    this.logger.debug(`Rendering prompt: ${name}`, resolvedArgs);
+
+    const resources = await Promise.all(
+      prompt.resources(resolvedArgs).map(uri => this.resourceProvider.readResource(uri)),
+    );
+
+    const messages: PromptMessage[] = [
+      { role: 'user', content: { type: 'text', text: prompt.instructions(resolvedArgs) } },
+      ...resources.flatMap(resource => resource.contents.map(contents => ({
+        role: 'user' as const,
+        content: { type: 'resource' as const, resource: contents },
+      }))),
+    ];
+
+    return { description: prompt.description, messages };
+  }
+
+  private getAvailablePrompts(): PromptDefinition[] {
+    return SFCC_PROMPTS.filter(prompt => !prompt.requires || this.capabilities[prompt.requires]);
+  }
+
+  /**
+   * Validate supplied arguments and fill in defaults
+   */
+  private resolveArguments(prompt: PromptDefinition, args: Record<string, string>): Record<string, string> {
+    const resolved: Record<string, string> = {};
+
+    for (const definition of prompt.arguments) {
+      const value = args[definition.name]?.trim();
+
+      if (!value) {
+        if (definition.required) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Missing required argument "${definition.name}" for prompt ${prompt.name}`,
+          );
+        }
+        resolved[definition.name] = typeof definition.default === 'function'
+          ? definition.default()
+          : definition.default ?? '';
+        continue;
+      }
+
+      if (definition.enum && !definition.enum.includes(value)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Argument "${definition.name}" must be one of: ${definition.enum.join(', ')}`,
+        );
+      }
+      if (definition.pattern && !definition.pattern.test(value)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid value for argument "${definition.name}": ${definition.description}`,
+        );
+      }
+
+      resolved[definition.name] = value;
+    }
+
+    return resolved;
+  }
+}
+
+function formatList(value: string): string {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0)
+    .map(item => `\`${item}\``)
+    .join(', ');
+}
@@ -0,0 +1,222 @@
+/**
+ * Documentation Resource Provider
+ *
+ * Exposes the bundled SFCC class documentation, SFRA documentation and best practice
+ * guides as MCP resources so clients can attach them as context without calling a tool.
+ *
+ * URI schemes:
+ * - sfcc://class/{className}        e.g. sfcc://class/dw.catalog.Product
+ * - sfra://{type}/{name}            e.g. sfra://model/cart, sfra://class/server
+ * - best-practice://{guideName}     e.g. best-practice://security
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SFCCDocumentationClient } from '../clients/docs-client.js';
+import { SFRAClient } from '../clients/sfra-client.js';
+import { SFCCBestPracticesClient } from '../clients/best-practices-client.js';
+import { Logger } from '../utils/logger.js';
+
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+export const RESOURCE_SCHEMES = {
+  SFCC_CLASS: 'sfcc',
+  SFRA: 'sfra',
+  BEST_PRACTICE: 'best-practice',
+} as const;
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  title?: string;
+  description: string;
+  mimeType: string;
+}
+
+export type ResourceContents = {
+  contents: Array<{ uri: string; mimeType: string; text: string }>;
+};
+
+export const DOCUMENTATION_RESOURCE_TEMPLATES: ResourceTemplateDescriptor[] = [
+  {
+    uriTemplate: 'sfcc://class/{className}',
+    name: 'sfcc-class',
+    title: 'SFCC Class Documentation',
+    description: 'Raw documentation for an SFCC Script API class (e.g., sfcc://class/dw.catalog.Product)',
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'sfra://{type}/{name}',
+    name: 'sfra-document',
+    title: 'SFRA Documentation',
+    description: 'SFRA class, module or model documentation (e.g., sfra://class/server, sfra://model/cart)',
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+  {
+    uriTemplate: 'best-practice://{guideName}',
+    name: 'best-practice-guide',
+    title: 'SFCC Best Practice Guide',
+    description: 'Complete best practice guide (e.g., best-practice://security, best-practice://sfra_controllers)',
+    mimeType: MARKDOWN_MIME_TYPE,
+  },
+];
+
+/**
+ * Resolves documentation resources from the docs, SFRA and best practices clients
+ */
+export class DocumentationResourceProvider {
+  private docsClient: SFCCDocumentationClient | null = null;
+  private sfraClient: SFRAClient | null = null;
+  private bestPracticesClient: SFCCBestPracticesClient | null = null;
+  private logger: Logger;
+
+  constructor() {
+    this.logger = Logger.getChildLogger('Resources');
+  }
+
+  /**
+   * List all concrete documentation resources
+   */
+  async listResources(): Promise<ResourceDescriptor[]> {
+    const [classes, sfraDocuments, guides] = await Promise.all([
+      this.getDocsClient().getAvailableClasses(),
+      this.getSFRAClient().getAvailableDocuments(),
+      this.getBestPracticesClient().getAvailableGuides(),
+    ]);
+
+    return [
+      ...guides.map(guide => ({
+        uri: `best-practice://${guide.name}`,
+        name: guide.name,
+        title: guide.title,
+        description: guide.description,
+        mimeType: MARKDOWN_MIME_TYPE,
+      })),
+      ...sfraDocuments.map(doc => ({
+        uri: `sfra://${doc.type}/${doc.name}`,
+        name: doc.name,
+        title: doc.title,
+        description: doc.description,
+        mimeType: MARKDOWN_MIME_TYPE,
+      })),
+      ...classes.map(className => ({
+        uri: `sfcc://class/${className}`,
+        name: className,
+        mimeType: MARKDOWN_MIME_TYPE,
+      })),
+    ];
+  }
+
+  /**
+   * List the URI templates clients can use to address documentation
+   */
+  listResourceTemplates(): ResourceTemplateDescriptor[] {
+    return DOCUMENTATION_RESOURCE_TEMPLATES;
+  }
+
+  /**
+   * Read a documentation resource by URI
+   *
+   * @throws McpError when the URI is malformed or the document does not exist
+   */
+  async readResource(uri: string): Promise<ResourceContents> {
+    const { scheme, segments } = this.parseUri(uri);
+    this.logger.debug(`Reading resource: ${uri}`);
+
+    let text: string | null;
+    switch (scheme) {
+      case RESOURCE_SCHEMES.SFCC_CLASS:
+        text = await this.readClassDocumentation(uri, segments);
+        break;
+      case RESOURCE_SCHEMES.SFRA:
+        text = await this.readSFRADocument(uri, segments);
+        break;
+      case RESOURCE_SCHEMES.BEST_PRACTICE:
+        text = await this.readBestPracticeGuide(uri, segments);
+        break;
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported resource scheme: ${scheme}`);
+    }
+
+    if (text === null) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [{ uri, mimeType: MARKDOWN_MIME_TYPE, text }],
+    };
+  }
+
+  private async readClassDocumentation(uri: string, segments: string[]): Promise<string | null> {
+    if (segments.length !== 2 || segments[0] !== 'class') {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid SFCC class resource URI: ${uri}`);
+    }
+    return this.getDocsClient().getClassDocumentation(segments[1]);
+  }
+
+  private async readSFRADocument(uri: string, segments: string[]): Promise<string | null> {
+    if (segments.length !== 2) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid SFRA resource URI: ${uri}`);
+    }
+
+    const [type, name] = segments;
+    const document = await this.getSFRAClient().getSFRADocument(name);
+    if (document?.type !== type) {
+      return null;
+    }
+    return document.content;
+  }
+
+  private async readBestPracticeGuide(uri: string, segments: string[]): Promise<string | null> {
+    if (segments.length !== 1) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid best practice resource URI: ${uri}`);
+    }
+
+    const guide = await this.getBestPracticesClient().getBestPracticeGuide(segments[0]);
+    return guide?.content ?? null;
+  }
+
+  /**
+   * Split a resource URI into its scheme and decoded path segments
+   * (the host part of e.g. sfcc://class/... is treated as the first segment)
+   */
+  private parseUri(uri: string): { scheme: string; segments: string[] } {
+    const match = uri.match(/^([a-z][a-z0-9+.-]*):\/\/(.+)$/i);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+
+    try {
+      const segments = match[2]
+        .split('/')
+        .filter(segment => segment.length > 0)
+        .map(segment => decodeURIComponent(segment));
+
+      return { scheme: match[1].toLowerCase(), segments };
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+  }
+
+  private getDocsClient(): SFCCDocumentationClient {
+    this.docsClient ??= new SFCCDocumentationClient();
+    return this.docsClient;
+  }
+
+  private getSFRAClient(): SFRAClient {
+    this.sfraClient ??= new SFRAClient();
+    return this.sfraClient;
+  }
+
+  private getBestPracticesClient(): SFCCBestPracticesClient {
+    this.bestPracticesClient ??= new SFCCBestPracticesClient();
+    return this.bestPracticesClient;
+  }
+}
@@ -7,13 +7,23 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  ProgressToken,
+  ServerNotification,
+  ServerRequest,
 } from '@modelcontextprotocol/sdk/types.js';
-import { SFCCConfig } from '../types/types.js';
+import { Endpoint, SFCCConfig } from '../types/types.js';
 import { Logger } from '../utils/logger.js';
+import { SERVER_VERSION } from '../config/command-line.js';
 import { ConfigurationFactory } from '../config/configuration-factory.js';
 import {
   SFCC_DOCUMENTATION_TOOLS,
@@ -23,11 +33,20 @@ import {
   JOB_LOG_TOOLS,
   SYSTEM_OBJECT_TOOLS,
   CODE_VERSION_TOOLS,
+  DIAGNOSTICS_TOOLS,
+  CONNECTION_TOOLS,
+  MAINTENANCE_TOOLS,
   DATA_API_TOOLS,
+  SCAPI_ADMIN_TOOLS,
+  SHOPPER_API_TOOLS,
+  INSTANCE_TOOLS,
+  withInstanceArgument,
+  withPaginationArguments,
+  buildEndpointTools,
 } from './tool-definitions.js';
 
 // モジュラーツールハンドラー
-import { BaseToolHandler, HandlerContext } from './handlers/base-handler.js';
+import { BaseToolHandler, HandlerContext, ToolNotifier } from './handlers/base-handler.js';
 import { LogToolHandler } from './handlers/log-handler.js';
 import { JobLogToolHandler } from './handlers/job-log-handler.js';
 import { DocsToolHandler } from './handlers/docs-handler.js';
@@ -35,7 +54,31 @@ import { BestPracticesToolHandler } from './handlers/best-practices-handler.js';
 import { SFRAToolHandler } from './handlers/sfra-handler.js';
 import { SystemObjectToolHandler } from './handlers/system-object-handler.js';
 import { CodeVersionToolHandler } from './handlers/code-version-handler.js';
+import { DiagnosticsToolHandler } from './handlers/diagnostics-handler.js';
 import { DataAPIToolHandler } from './handlers/data-api-handler.js';
+import { InstanceToolHandler } from './handlers/instance-handler.js';
+import { HttpTransportHost } from './http-transport.js';
+import { DocumentationResourceProvider } from './resource-provider.js';
+import { PromptProvider } from './prompt-provider.js';
+import { WriteGuard, MUTATING_TOOL_NAMES, isMutatingEndpoint } from './write-guard.js';
+import { EndpointLoader } from '../utils/endpoint-loader.js';
+import { getPageParamNames } from '../utils/pagination.js';
+import { PAGINATED_SYSTEM_OBJECT_TOOL_NAMES } from '../tool-configs/system-object-tool-config.js';
+
+/**
+ * サーバー起動オプション
+ */
+export interface ServerRunOptions {
+  /** 使用するトランスポート（デフォルト: stdio） */
+  transport?: 'stdio' | 'http';
+  /** HTTPトランスポートのポート（デフォルト: 3000） */
+  port?: number;
+  /** HTTPトランスポートのバインドアドレス（デフォルト: 127.0.0.1） */
+  host?: string;
+  /** HTTPトランスポートで要求するBearerトークン（デフォルト: なし） */
+  authToken?: string;
+}
+
 /**
  * SFCC開発支援用MCPサーバー実装
  *
@@ -45,10 +88,14 @@ import { DataAPIToolHandler } from './handlers/data-api-handler.js';
  */
 export class SFCCDevServer {
   private server!: Server;
+  private httpHost: HttpTransportHost | null = null;
   private logger: Logger;
   private config: SFCCConfig;
   private capabilities: ReturnType<typeof ConfigurationFactory.getCapabilities>;
   private handlers: BaseToolHandler[] = [];
+  private resourceProvider: DocumentationResourceProvider;
+  private promptProvider: PromptProvider;
+  private writeGuard: WriteGuard;
 
   /**
    * SFCC開発MCPサーバーを初期化
@@ -60,25 +107,41 @@ export class SFCCDevServer {
     this.config = config;
     this.logMethodEntry('constructor', { hostname: config.hostname });
     this.capabilities = ConfigurationFactory.getCapabilities(config);
-    this.initializeServer();
+    this.resourceProvider = new DocumentationResourceProvider();
+    this.promptProvider = new PromptProvider(this.resourceProvider, this.capabilities);
+    this.writeGuard = new WriteGuard((toolName) => {
+      const endpoint = EndpointLoader.getInstance().getEndpoint(toolName);
+      return MUTATING_TOOL_NAMES.has(toolName) || (!!endpoint && isMutatingEndpoint(endpoint));
+    });
     this.registerHandlers();
-    this.setupToolHandlers();
+    this.server = this.createMcpServer();
 
     this.logMethodExit('constructor');
   }
 
-  private initializeServer(): void {
-    this.server = new Server(
+  /**
+   * MCPサーバーインスタンスを作成し、共有ツールハンドラーを登録
+   * HTTPトランスポートではセッションごとに新しいインスタンスが作成されます
+   */
+  private createMcpServer(): Server {
+    const server = new Server(
       {
         name: 'SFCC Development MCP Server',
-        version: '1.1.0', // synced with package.json
+        version: SERVER_VERSION,
       },
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
+          logging: {},
         },
       },
     );
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+    return server;
   }
 
   private logMethodEntry(methodName: string, params?: any): void {
@@ -104,38 +167,80 @@ export class SFCCDevServer {
       new SFRAToolHandler(context, 'SFRA'),
       new SystemObjectToolHandler(context, 'SystemObjects'),
       new CodeVersionToolHandler(context, 'CodeVersions'),
+      new DiagnosticsToolHandler(context, 'Diagnostics'),
       new DataAPIToolHandler(context, 'DataAPI'),
+      new InstanceToolHandler(context, 'Instances'),
     ];
   }
 
   /**
    * SFCC操作用のMCPツールハンドラーをセットアップ
    */
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupToolHandlers(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools = [];
 
+      // 複数インスタンス構成時はインスタンス依存ツールに`instance`引数を追加
+      // ページング対応ツールには`all`/`maxResults`引数を追加
+      const instanceNames = ConfigurationFactory.getInstanceNames(this.config);
+      const endpointLoader = EndpointLoader.getInstance();
+      const paginatedToolNames = new Set<string>([
+        ...endpointLoader.getEndpoints()
+          .filter(endpoint => getPageParamNames(endpoint))
+          .map(endpoint => endpoint.toolName),
+        ...PAGINATED_SYSTEM_OBJECT_TOOL_NAMES,
+      ]);
+      type ToolDefinition = { name: string; inputSchema: { properties: Record<string, unknown> } };
+      const scoped = <T extends ToolDefinition>(defs: T[]): T[] => {
+        const paginated = withPaginationArguments(defs, paginatedToolNames);
+        return instanceNames.length > 1 ? withInstanceArgument(paginated, instanceNames) : paginated;
+      };
+
+      // API仕様・エンドポイントパックからインポートしたエンドポイントのツール定義（APIファミリーごとに機能で判定）
+      const importedEndpoints = endpointLoader.getImportedEndpoints();
+      const importedTools = (predicate: (endpoint: Endpoint) => boolean) =>
+        scoped(buildEndpointTools(importedEndpoints.filter(predicate)));
+
       // 常に利用可能なツール
       tools.push(...SFCC_DOCUMENTATION_TOOLS);
       tools.push(...BEST_PRACTICES_TOOLS);
       tools.push(...SFRA_DOCUMENTATION_TOOLS);
 
       // 利用可能な機能に基づく条件付きツール
+      if (!this.capabilities.isLocalMode) {
+        tools.push(...INSTANCE_TOOLS);
+        tools.push(...scoped(CONNECTION_TOOLS));
+        tools.push(...scoped(MAINTENANCE_TOOLS));
+      }
+
       if (this.capabilities.canAccessLogs) {
-        tools.push(...LOG_TOOLS);
-        tools.push(...JOB_LOG_TOOLS);
+        tools.push(...scoped(LOG_TOOLS));
+        tools.push(...scoped(JOB_LOG_TOOLS));
       }
 
       if (this.capabilities.canAccessOCAPI) {
-        tools.push(...SYSTEM_OBJECT_TOOLS);
-        tools.push(...CODE_VERSION_TOOLS);
-        tools.push(...DATA_API_TOOLS);
+        tools.push(...scoped(SYSTEM_OBJECT_TOOLS));
+        tools.push(...scoped(CODE_VERSION_TOOLS));
+        tools.push(...scoped(DIAGNOSTICS_TOOLS));
+        tools.push(...scoped(DATA_API_TOOLS));
+        tools.push(...importedTools(endpoint => endpoint.apiType === 'ocapi'));
+      }
+
+      if (this.capabilities.canAccessSCAPI) {
+        tools.push(...scoped(SCAPI_ADMIN_TOOLS));
+        tools.push(...importedTools(endpoint => endpoint.apiType === 'scapi' && endpoint.apiFamily !== 'shopper'));
+      }
+
+      if (this.capabilities.canAccessShopperAPI) {
+        tools.push(...scoped(SHOPPER_API_TOOLS));
+        tools.push(...importedTools(endpoint => endpoint.apiFamily === 'shopper'));
       }
 
-      return { tools };
+      // 読み取り専用インスタンスのみの場合は変更操作ツールを非表示
+      return { tools: this.writeGuard.filterToolDefinitions(tools, this.config) };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request): Promise<any> => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra): Promise<any> => {
       const { name, arguments: args } = request.params;
       const startTime = Date.now();
 
@@ -147,7 +252,14 @@ export class SFCCDevServer {
           this.logger.error(`Unknown tool requested: ${name}`);
           throw new Error(`Unknown tool: ${name}`);
         }
-        const result = await handler.handle(name, args ?? {}, startTime);
+
+        // 変更操作ツールは読み取り専用チェックと確認トークンによるゲートを通過させる
+        const decision = this.writeGuard.check(name, args ?? {}, this.config, extra.sessionId);
+        if (decision.action === 'confirm') {
+          return decision.result as any;
+        }
+        const notifier = this.createToolNotifier(name, request.params._meta?.progressToken, extra);
+        const result = await handler.handle(name, decision.args, startTime, notifier);
 
         // デバッグモードで完全なレスポンスをログ出力
         this.logger.debug(`Full response for ${name}:`, {
@@ -182,25 +294,128 @@ export class SFCCDevServer {
   }
 
   /**
-   * MCPサーバーを起動
+   * ツール実行中にクライアントへ進捗とログメッセージを送信する通知オブジェクトを作成
+   * 進捗通知はクライアントがprogressTokenを指定した場合のみ送信されます
    */
-  async run(): Promise<void> {
-    const transport = new StdioServerTransport();
+  private createToolNotifier(
+    toolName: string,
+    progressToken: ProgressToken | undefined,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): ToolNotifier {
+    return {
+      sessionId: extra.sessionId,
+      signal: extra.signal,
+      progress: async (progress, total, message) => {
+        if (progressToken === undefined) {
+          return;
+        }
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress, total, message },
+        });
+      },
+      log: async (level, data) => {
+        await extra.sendNotification({
+          method: 'notifications/message',
+          params: { level, logger: toolName, data },
+        });
+      },
+    };
+  }
+
+  /**
+   * ドキュメントをMCPリソースとして公開するハンドラーをセットアップ
+   */
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: await this.resourceProvider.listResources(),
+    }));
 
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resourceProvider.listResourceTemplates(),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.logger.methodEntry('handleReadResource', { uri });
+      try {
+        return await this.resourceProvider.readResource(uri);
+      } finally {
+        this.logger.methodExit('handleReadResource');
+      }
+    });
+  }
+
+  /**
+   * SFCCワークフロー用のプロンプトハンドラーをセットアップ
+   */
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.promptProvider.listPrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      this.logger.methodEntry('handleGetPrompt', { name });
+      try {
+        return await this.promptProvider.getPrompt(name, args);
+      } finally {
+        this.logger.methodExit('handleGetPrompt');
+      }
+    });
+  }
+
+  /**
+   * MCPサーバーを起動
+   *
+   * @param options - トランスポート設定（デフォルトはstdio）
+   */
+  async run(options: ServerRunOptions = {}): Promise<void> {
     // グレースフルシャットダウンをセットアップ
     process.on('SIGINT', () => this.shutdown());
     process.on('SIGTERM', () => this.shutdown());
 
+    if (options.transport === 'http') {
+      this.httpHost = new HttpTransportHost(
+        () => this.createMcpServer(),
+        (sessionId) => this.closeSession(sessionId),
+      );
+      const address = await this.httpHost.start({
+        port: options.port ?? 3000,
+        host: options.host,
+        authToken: options.authToken,
+      });
+      this.logger.log(`SFCC Development MCP server listening on http://${address.host}:${address.port} (Streamable HTTP: /mcp, SSE: /sse)`);
+      return;
+    }
+
+    const transport = new StdioServerTransport();
     await this.server.connect(transport);
     this.logger.log('SFCC Development MCP server running on stdio');
   }
 
+  /**
+   * 閉じたHTTPセッションの確認トークンとハンドラーのセッション状態を解放
+   */
+  private closeSession(sessionId: string): void {
+    this.writeGuard.clearSession(sessionId);
+    Promise.all(this.handlers.map(handler => handler.closeSession(sessionId))).catch((error) => {
+      this.logger.error(`Failed to release the state of session ${sessionId}:`, error);
+    });
+  }
+
   /**
    * サーバーをグレースフルにシャットダウンしリソースを解放
    */
   private async shutdown(): Promise<void> {
     this.logger.log('Shutting down SFCC Development MCP server...');
 
+    // HTTPセッションを閉じる
+    if (this.httpHost) {
+      await this.httpHost.stop();
+      this.httpHost = null;
+    }
+
     // すべてのハンドラーを解放
     await Promise.all(this.handlers.map(handler => handler.dispose()));
 
@@ -5,6 +5,10 @@
  * メインサーバーファイルをクリーンで保守しやすく保ちます。
  */
 
+import { Endpoint } from '../types/types.js';
+import { buildEndpointInputSchema } from '../utils/api-spec-importer.js';
+import { MAX_PAGINATED_RESULTS } from '../utils/pagination.js';
+
 export const SFCC_DOCUMENTATION_TOOLS = [
   {
     name: 'get_sfcc_class_info',
@@ -230,10 +234,26 @@ export const LOG_TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
+        category: {
+          type: 'string',
+          description: 'Only return entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only return entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
         date: {
           type: 'string',
           description: 'Date in YYYYMMDD format (default: today)',
         },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
         limit: {
           type: 'number',
           description: 'Number of error entries to return (default: 20)',
@@ -248,10 +268,26 @@ export const LOG_TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
+        category: {
+          type: 'string',
+          description: 'Only return entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only return entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
         date: {
           type: 'string',
           description: 'Date in YYYYMMDD format (default: today)',
         },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
         limit: {
           type: 'number',
           description: 'Number of warning entries to return (default: 20)',
@@ -266,10 +302,26 @@ export const LOG_TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
+        category: {
+          type: 'string',
+          description: 'Only return entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only return entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
         date: {
           type: 'string',
           description: 'Date in YYYYMMDD format (default: today)',
         },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
         limit: {
           type: 'number',
           description: 'Number of info entries to return (default: 20)',
@@ -284,10 +336,26 @@ export const LOG_TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
+        category: {
+          type: 'string',
+          description: 'Only return entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only return entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
         date: {
           type: 'string',
           description: 'Date in YYYYMMDD format (default: today)',
         },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
         limit: {
           type: 'number',
           description: 'Number of debug entries to return (default: 20)',
@@ -306,6 +374,14 @@ export const LOG_TOOLS = [
           type: 'string',
           description: 'Date in YYYYMMDD format (default: today)',
         },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
       },
     },
   },
@@ -317,24 +393,53 @@ export const LOG_TOOLS = [
       properties: {
         pattern: {
           type: 'string',
-          description: 'Search pattern or keyword to find in logs',
+          description: 'Search pattern or keyword to find in logs (case-insensitive substring). Either pattern or query is required',
+        },
+        query: {
+          type: 'string',
+          description: 'Query to use instead of pattern. Terms are matched against whole entries (including stack traces) and are ANDed by default; combine them with AND, OR, NOT (or -term) and parentheses. Use "quoted phrases", /regular expressions/ and field filters level:, thread:, site:, session:, category: (logger category), cartridge: and file: (e.g., \'level:error AND (/timeout|refused/ OR "connection reset") -session:abc123\'). Matches are highlighted with **',
+        },
+        caseSensitive: {
+          type: 'boolean',
+          description: 'Match query terms case-sensitively (default: false). Only used with query',
+          default: false,
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Number of log lines to show before and after each matching entry (0-10, default: 0). Only used with query',
+          default: 0,
         },
         logLevel: {
           type: 'string',
           enum: ['error', 'warn', 'info', 'debug'],
           description: 'Restrict search to specific log level for more focused results',
         },
+        category: {
+          type: 'string',
+          description: 'Only return entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only return entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
         date: {
           type: 'string',
           description: 'Date in YYYYMMDD format (default: today)',
         },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
         limit: {
           type: 'number',
           description: 'Number of matching entries to return (default: 20)',
           default: 20,
         },
       },
-      required: ['pattern'],
     },
   },
   {
@@ -369,193 +474,724 @@ export const LOG_TOOLS = [
       required: ['filename'],
     },
   },
-];
-
-export const JOB_LOG_TOOLS = [
   {
-    name: 'get_latest_job_log_files',
-    description: 'Get the latest job log files from the SFCC jobs folder. Use this to discover recent job executions, identify available job logs, and understand which jobs have run recently. Job logs are stored in a deeper folder structure (/Logs/jobs/[job name ID]/Job-*.log) and contain all log levels (error, warn, info, debug) in single files. Essential for debugging custom job steps and monitoring job execution.',
+    name: 'tail_logs',
+    description: 'Follow the log files live while you reproduce an issue. The first call (without cursor) starts following the current day\'s log files at their current end and returns a cursor. Each following call with that cursor returns only the entries appended since the previous call, read with byte-range requests instead of downloading whole files. Use waitSeconds to wait for new entries; while waiting the server sends progress notifications, and each new entry is also sent as a logging notification.',
     inputSchema: {
       type: 'object',
       properties: {
+        cursor: {
+          type: 'string',
+          description: 'Cursor returned by the previous tail_logs call. Omit to start a new tail.',
+        },
+        levels: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['error', 'warn', 'info', 'debug'],
+          },
+          description: 'Log levels to follow (default: all). Only used when starting a new tail; the cursor keeps the levels it was created with.',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Only return entries containing this text (case-insensitive)',
+        },
         limit: {
           type: 'number',
-          description: 'Number of job log files to return (default: 10)',
-          default: 10,
+          description: 'Maximum number of entries to return per call; the newest entries are kept (default: 50)',
+          default: 50,
+        },
+        waitSeconds: {
+          type: 'number',
+          description: 'Seconds to wait for new entries when none have been written yet (0-120, default: 0 returns immediately)',
+          default: 0,
         },
       },
     },
   },
   {
-    name: 'search_job_logs_by_name',
-    description: 'Search for job log files by job name. Use this when you want to find logs for a specific job to debug custom job steps or understand job execution patterns. Job names are typically the system ID or custom-configured names for jobs.',
+    name: 'get_latest_logs',
+    description: 'Get the latest entries of any SFCC log family, not only the error/warn/info/debug levels. Use this for the api, api-deprecation, quota, security, service, sql, staging, syslog and fatal (including customfatal) logs as well as the custom-<prefix> logs of custom code, e.g. to review failed logins in the security log, slow or failing queries in the sql log, replication problems in the staging log or fatal errors. Entries are returned newest first with the file they come from.',
     inputSchema: {
       type: 'object',
       properties: {
-        jobName: {
+        category: {
           type: 'string',
-          description: 'The job name to search for (partial matches supported)',
+          enum: ['error', 'warn', 'info', 'debug', 'fatal', 'api', 'api-deprecation', 'quota', 'security', 'service', 'sql', 'staging', 'syslog', 'custom'],
+          description: 'Log family, identified by the log file name prefix (e.g., "quota" for quota-blade1-20250815-000000.log). The levels and fatal include their custom* files; "custom" reads the custom-<prefix>-* files of loggers with their own file prefix',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only return entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
         },
         limit: {
           type: 'number',
-          description: 'Number of job log files to return (default: 10)',
+          description: 'Number of entries to return (default: 10)',
           default: 10,
         },
       },
-      required: ['jobName'],
+      required: ['category'],
     },
   },
   {
-    name: 'get_job_log_entries',
-    description: 'Get job log entries for a specific log level or all levels from recent job executions. Unlike standard logs, job logs contain all log levels in one file, making this tool perfect for debugging custom job code. Use this to see what happened during job execution, track errors in job steps, or monitor job performance.',
+    name: 'get_quota_violations',
+    description: 'Analyze the quota logs and list the quotas whose limit or warn threshold was exceeded, aggregated by quota with the number of violations, the highest value reached, the last occurrence and the requests or pipelines where it happened. Use this when a page or job fails with quota errors, before a release to catch code approaching enforced limits (e.g., collection sizes, object counts, string lengths), or when investigating performance problems caused by excessive API usage. Quotas whose enforced limit was exceeded are listed first.',
     inputSchema: {
       type: 'object',
       properties: {
-        level: {
+        date: {
           type: 'string',
-          enum: ['error', 'warn', 'info', 'debug', 'all'],
-          description: 'Log level to retrieve (default: all). Use "all" to see all log levels from job executions.',
-          default: 'all',
+          description: 'Date in YYYYMMDD format (default: today)',
         },
-        limit: {
-          type: 'number',
-          description: 'Number of job log entries to return (default: 10)',
-          default: 10,
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
         },
-        jobName: {
+        to: {
           type: 'string',
-          description: 'Optional job name to filter results to a specific job',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of quotas to return (default: 20)',
+          default: 20,
         },
       },
     },
   },
   {
-    name: 'search_job_logs',
-    description: 'Search for specific patterns, error messages, or keywords within job logs. Use this when debugging specific job issues, looking for custom logging messages in your job steps, tracking job variables, or finding specific execution patterns. Essential for troubleshooting custom job code.',
+    name: 'get_api_deprecations',
+    description: 'Analyze the API deprecation logs and list the deprecated script APIs that were called, aggregated by API with the number of calls, the last call and the calling scripts (with line numbers when logged). Use this to plan upgrades to newer compatibility modes, clean up technical debt, or verify that a refactoring removed all calls to a deprecated API. The most used APIs are listed first.',
     inputSchema: {
       type: 'object',
       properties: {
-        pattern: {
+        date: {
           type: 'string',
-          description: 'Search pattern or keyword to find in job logs',
+          description: 'Date in YYYYMMDD format (default: today)',
         },
-        level: {
+        from: {
           type: 'string',
-          enum: ['error', 'warn', 'info', 'debug', 'all'],
-          description: 'Restrict search to specific log level (default: all)',
-          default: 'all',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
         },
         limit: {
           type: 'number',
-          description: 'Number of matching entries to return (default: 20)',
+          description: 'Number of APIs to return (default: 20)',
           default: 20,
         },
-        jobName: {
+      },
+    },
+  },
+  {
+    name: 'get_service_log_entries',
+    description: 'Get the entries of the service logs written by the service framework (dw.svc) for calls to external services such as payment, tax, shipping or OMS integrations, with the number of entries and errors per service. Use this when an integration fails or times out, to inspect logged requests and responses, or to find which service is producing errors. Filter by service ID and log level; entries are returned newest first.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        serviceName: {
           type: 'string',
-          description: 'Optional job name to restrict search to a specific job',
+          description: 'Only return entries of services whose ID contains this text (case-insensitive, e.g., "payment")',
+        },
+        level: {
+          type: 'string',
+          enum: ['error', 'warn', 'info', 'debug'],
+          description: 'Only return entries of this log level',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of entries to return (default: 50)',
+          default: 50,
         },
       },
-      required: ['pattern'],
     },
   },
   {
-    name: 'get_job_execution_summary',
-    description: 'Get a comprehensive execution summary for a specific job including timing, status, error counts, and step information. Use this to understand job performance, identify bottlenecks, check execution status, or get an overview of what happened during job execution. Perfect for monitoring job health and debugging job step issues.',
+    name: 'get_security_log_entries',
+    description: 'Get the entries of the security logs, such as failed logins, locked accounts, CSRF validation failures and access to protected Business Manager functions, with the number of entries and errors per logger category and the number of entries per user and IP address. Use this to investigate suspicious login activity, account lockouts or blocked requests. Filter by logger category and log level; entries are returned newest first.',
     inputSchema: {
       type: 'object',
       properties: {
-        jobName: {
+        category: {
           type: 'string',
-          description: 'The job name to get execution summary for',
+          description: 'Only return entries of logger categories containing this text (case-insensitive, e.g., "login")',
+        },
+        level: {
+          type: 'string',
+          enum: ['error', 'warn', 'info', 'debug'],
+          description: 'Only return entries of this log level',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of entries to return (default: 50)',
+          default: 50,
         },
       },
-      required: ['jobName'],
     },
   },
-];
-
-export const SYSTEM_OBJECT_TOOLS = [
   {
-    name: 'get_system_object_definitions',
-    description: 'Get all system object definitions from SFCC with their main metadata, not including attributes. Use this to discover what system objects are available in the SFCC instance, understand the basic data model, or when you need to see all objects at once. Essential for understanding the complete SFCC data structure and identifying objects. You can also discover which objects are "Custom Objects" by looking at the _type field in the response.',
+    name: 'get_sql_log_entries',
+    description: 'Get the entries of the SQL logs with the execution time and SQL statement read from each message, slowest first. Use this to find slow or failing database queries, e.g. behind slow custom object searches or jobs. Filter by a minimum execution time and log level.',
     inputSchema: {
       type: 'object',
       properties: {
-        start: {
+        minDurationMs: {
           type: 'number',
-          description: 'Optional start index for retrieving items from a given index (default: 0)',
-          default: 0,
+          description: 'Only return entries that logged an execution time of at least this many milliseconds',
         },
-        count: {
-          type: 'number',
-          description: 'Optional count for retrieving only a subset of items (default: 200)',
-          default: 200,
+        level: {
+          type: 'string',
+          enum: ['error', 'warn', 'info', 'debug'],
+          description: 'Only return entries of this log level',
         },
-        select: {
+        date: {
           type: 'string',
-          description: "Property selector using OCAPI select syntax. Controls which fields are returned in the response. Examples: '(**)' for all properties, '(start, total)' for pagination info only, '(data.(object_type))' for only object_type in data array, '(data.(object_type, display_name))' for specific fields in data array, '(start, data.(**))' for pagination info plus all data properties. Use parentheses to group field selections and dot notation to traverse object hierarchies.",
-          default: '(**)',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of entries to return (default: 20)',
+          default: 20,
         },
       },
     },
   },
   {
-    name: 'get_system_object_definition',
-    description: 'Get basic metadata about a specific SFCC system object definition including counts and configuration flags. Returns information like attribute count, group count, display name, creation date, and object type flags (content_object, queryable, read_only). Use this when you need to understand the basic structure and configuration of system objects like Product, Customer, Order, Category, or Site. For detailed attribute information, use get_system_object_attribute_definitions instead. You can not fetch "Custom Objects" with this API.',
+    name: 'list_log_categories',
+    description: 'List the logger categories that wrote to the error, warn, info, debug, fatal and custom logs (including the customerror-* and custom-<prefix>-* files of custom code), with the number of entries per category and level, the files and the cartridges of the scripts named by the entries. Use this to find which custom loggers (Logger.getLogger(\'category\')) are noisy or failing before drilling down with the category filter of get_latest_error or search_logs. Categories with the most entries are listed first.',
     inputSchema: {
       type: 'object',
       properties: {
-        objectType: {
+        cartridge: {
           type: 'string',
-          description: "The system object type (e.g., 'Product', 'Customer', 'Order', 'Category', 'Site')",
+          description: 'Only count entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of categories to return (default: 50)',
+          default: 50,
         },
       },
-      required: ['objectType'],
     },
   },
   {
-    name: 'search_system_object_attribute_definitions',
-    description: 'Search for specific attribute definitions within a system object type using complex queries. Use this when you need to find attributes by name, type, or other properties rather than retrieving all attributes. Supports text search on id/display_name/description, filtering by properties like mandatory/searchable/system, and sorting. Essential for finding custom attributes or attributes with specific characteristics. To get all attributes, use a match_all_query.',
+    name: 'cluster_errors',
+    description: 'Group the entries of the error logs (or other levels) into clusters of the same problem over a date or time range. Entries are fingerprinted by their message after normalizing variable tokens such as IDs, order and session numbers, UUIDs, URLs, timestamps, numbers and quoted values, together with their level, logger category and originating cartridge script. Each cluster reports its count, first and last occurrence, affected files and example entries with stack traces. Use this instead of reading individual errors to find which problems occur most often, e.g. the same null pointer exception logged for many orders, after a deployment or during an incident. The largest clusters are listed first.',
     inputSchema: {
       type: 'object',
       properties: {
-        objectType: {
+        levels: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['error', 'warn', 'info', 'debug'],
+          },
+          description: 'Log levels whose files are clustered, including their custom* files (default: ["error"])',
+        },
+        category: {
           type: 'string',
-          description: "The system object type to search within (e.g., 'Product', 'Customer', 'Order', 'Category', 'Site')",
+          description: 'Only cluster entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
         },
-        searchRequest: {
-          type: 'object',
-          description: 'The search request with query, sorting, and pagination options',
-          properties: {
-            query: {
-              type: 'object',
-              description: 'Query to filter attribute definitions',
-              properties: {
-                text_query: {
-                  type: 'object',
-                  description: 'Search for text in specific fields',
-                  properties: {
-                    fields: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Fields to search in (e.g., ["id", "display_name", "description"])',
-                    },
-                    search_phrase: {
-                      type: 'string',
-                      description: 'Text to search for',
-                    },
-                  },
-                  required: ['fields', 'search_phrase'],
-                },
-                term_query: {
-                  type: 'object',
-                  description: 'Search for exact term matches',
-                  properties: {
-                    fields: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Fields to search in',
-                    },
+        cartridge: {
+          type: 'string',
+          description: 'Only cluster entries originating from a script of this cartridge, i.e. naming a path such as "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of clusters to return (default: 20)',
+          default: 20,
+        },
+      },
+    },
+  },  {
+    name: 'get_stack_traces',
+    description: 'Extract the stack traces of the error logs (or other levels) over a date or time range as structured frames: the function, cartridge, script path and line of each "at ..." line of the Rhino stack, starting with the script named in the message. Traces of the same problem are grouped by error fingerprint with their count, first and last occurrence and affected files, most frequent first. When the server is started with --cartridges-root (or SFCC_CARTRIDGES_ROOT) pointing at the local cartridges, each frame is mapped to the local source file with a code snippet around the failing line, so you can go straight from the log to the code. Cartridges that are not found locally are listed as unresolved.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        levels: {
+          type: 'array',
+          items: {
+            type: 'string',
+            enum: ['error', 'warn', 'info', 'debug'],
+          },
+          description: 'Log levels whose files are searched for stack traces, including their custom* files (default: ["error"])',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Only include entries containing this text, e.g. an exception type or function name (case-insensitive)',
+        },
+        category: {
+          type: 'string',
+          description: 'Only include entries of this logger category, e.g. "checkout" for Logger.getLogger(\'checkout\'). Also matches its "custom." form and sub-categories (e.g., "custom.checkout.payment"); case-insensitive',
+        },
+        cartridge: {
+          type: 'string',
+          description: 'Only include entries naming a script of this cartridge, e.g. "int_mycartridge/cartridge/scripts/..." in the message or stack trace (case-insensitive)',
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Number of source lines shown before and after the line of each frame when the frames are mapped to local sources (0-10, default: 3)',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of stack traces to return (default: 10)',
+          default: 10,
+        },
+      },
+    },
+  },  {
+    name: 'trace_request',
+    description: 'Follow one session, request or order end to end across the log files: gathers every entry mentioning the given session ID, request ID or order number from the error, warn, info, debug and fatal logs (including their custom* files), the custom-<prefix> logs and the service and API logs over a date or time range, and returns them as a single timeline ordered by log timestamp. Each entry carries its file, level, logger category, site, pipeline/controller and session; the report lists the sessions, sites and pipelines involved. Use followSessions with an order number or request ID to also include the other entries of the sessions that logged it, e.g. the whole checkout that ended in a failed order.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sessionId: {
+          type: 'string',
+          description: 'Session ID to trace, as logged in the entry header (e.g., "nYJXtqnEfz") or in the message',
+        },
+        requestId: {
+          type: 'string',
+          description: 'Request ID to trace, as logged in the message (e.g., by custom code or the service framework)',
+        },
+        orderNo: {
+          type: 'string',
+          description: 'Order number to trace (e.g., "00001234"). Matched as a whole word, so "00001234" does not match "100001234"',
+        },
+        followSessions: {
+          type: 'boolean',
+          description: 'Also include the other entries of the sessions of the matching entries (default: false)',
+        },
+        date: {
+          type: 'string',
+          description: 'Date in YYYYMMDD format (default: today)',
+        },
+        from: {
+          type: 'string',
+          description: 'Start of a time window as an ISO 8601 timestamp (e.g., "2025-08-15T14:05:00Z"; GMT when no offset is given). Use from/to instead of date to query a time range, including incidents that cross midnight (default: start of the GMT day of "to")',
+        },
+        to: {
+          type: 'string',
+          description: 'End of the time window as an ISO 8601 timestamp (default: now). The window may span up to 7 days',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of timeline entries to return; the latest entries are kept (default: 100)',
+          default: 100,
+        },
+      },
+    },
+  },
+];
+
+export const JOB_LOG_TOOLS = [
+  {
+    name: 'get_latest_job_log_files',
+    description: 'Get the latest job log files from the SFCC jobs folder. Use this to discover recent job executions, identify available job logs, and understand which jobs have run recently. Job logs are stored in a deeper folder structure (/Logs/jobs/[job name ID]/Job-*.log) and contain all log levels (error, warn, info, debug) in single files. Essential for debugging custom job steps and monitoring job execution.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: {
+          type: 'number',
+          description: 'Number of job log files to return (default: 10)',
+          default: 10,
+        },
+      },
+    },
+  },
+  {
+    name: 'search_job_logs_by_name',
+    description: 'Search for job log files by job name. Use this when you want to find logs for a specific job to debug custom job steps or understand job execution patterns. Job names are typically the system ID or custom-configured names for jobs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobName: {
+          type: 'string',
+          description: 'The job name to search for (partial matches supported)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of job log files to return (default: 10)',
+          default: 10,
+        },
+      },
+      required: ['jobName'],
+    },
+  },
+  {
+    name: 'get_job_log_entries',
+    description: 'Get job log entries for a specific log level or all levels from recent job executions. Unlike standard logs, job logs contain all log levels in one file, making this tool perfect for debugging custom job code. Use this to see what happened during job execution, track errors in job steps, or monitor job performance.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        level: {
+          type: 'string',
+          enum: ['error', 'warn', 'info', 'debug', 'all'],
+          description: 'Log level to retrieve (default: all). Use "all" to see all log levels from job executions.',
+          default: 'all',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of job log entries to return (default: 10)',
+          default: 10,
+        },
+        jobName: {
+          type: 'string',
+          description: 'Optional job name to filter results to a specific job',
+        },
+      },
+    },
+  },
+  {
+    name: 'search_job_logs',
+    description: 'Search for specific patterns, error messages, or keywords within job logs. Use this when debugging specific job issues, looking for custom logging messages in your job steps, tracking job variables, or finding specific execution patterns. Essential for troubleshooting custom job code.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        pattern: {
+          type: 'string',
+          description: 'Search pattern or keyword to find in job logs (case-insensitive substring). Either pattern or query is required',
+        },
+        query: {
+          type: 'string',
+          description: 'Query to use instead of pattern. Terms are matched against whole entries (including stack traces) and are ANDed by default; combine them with AND, OR, NOT (or -term) and parentheses. Use "quoted phrases", /regular expressions/ and field filters level:, thread:, site:, session:, category: (logger category), cartridge: and file: (e.g., \'level:error AND (/timeout|refused/ OR "connection reset") -session:abc123\'). Matches are highlighted with **',
+        },
+        caseSensitive: {
+          type: 'boolean',
+          description: 'Match query terms case-sensitively (default: false). Only used with query',
+          default: false,
+        },
+        contextLines: {
+          type: 'number',
+          description: 'Number of log lines to show before and after each matching entry (0-10, default: 0). Only used with query',
+          default: 0,
+        },
+        level: {
+          type: 'string',
+          enum: ['error', 'warn', 'info', 'debug', 'all'],
+          description: 'Restrict search to specific log level (default: all)',
+          default: 'all',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of matching entries to return (default: 20)',
+          default: 20,
+        },
+        jobName: {
+          type: 'string',
+          description: 'Optional job name to restrict search to a specific job',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_job_execution_summary',
+    description: 'Get a comprehensive execution summary for a specific job including timing, status, error counts, and step information. Use this to understand job performance, identify bottlenecks, check execution status, or get an overview of what happened during job execution. Perfect for monitoring job health and debugging job step issues.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobName: {
+          type: 'string',
+          description: 'The job name to get execution summary for',
+        },
+      },
+      required: ['jobName'],
+    },
+  },
+];
+
+export const SYSTEM_OBJECT_TOOLS = [
+  {
+    name: 'get_system_object_definitions',
+    description: 'Get all system object definitions from SFCC with their main metadata, not including attributes. Use this to discover what system objects are available in the SFCC instance, understand the basic data model, or when you need to see all objects at once. Essential for understanding the complete SFCC data structure and identifying objects. You can also discover which objects are "Custom Objects" by looking at the _type field in the response.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start: {
+          type: 'number',
+          description: 'Optional start index for retrieving items from a given index (default: 0)',
+          default: 0,
+        },
+        count: {
+          type: 'number',
+          description: 'Optional count for retrieving only a subset of items (default: 200)',
+          default: 200,
+        },
+        select: {
+          type: 'string',
+          description: "Property selector using OCAPI select syntax. Controls which fields are returned in the response. Examples: '(**)' for all properties, '(start, total)' for pagination info only, '(data.(object_type))' for only object_type in data array, '(data.(object_type, display_name))' for specific fields in data array, '(start, data.(**))' for pagination info plus all data properties. Use parentheses to group field selections and dot notation to traverse object hierarchies.",
+          default: '(**)',
+        },
+      },
+    },
+  },
+  {
+    name: 'get_system_object_definition',
+    description: 'Get basic metadata about a specific SFCC system object definition including counts and configuration flags. Returns information like attribute count, group count, display name, creation date, and object type flags (content_object, queryable, read_only). Use this when you need to understand the basic structure and configuration of system objects like Product, Customer, Order, Category, or Site. For detailed attribute information, use get_system_object_attribute_definitions instead. You can not fetch "Custom Objects" with this API.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        objectType: {
+          type: 'string',
+          description: "The system object type (e.g., 'Product', 'Customer', 'Order', 'Category', 'Site')",
+        },
+      },
+      required: ['objectType'],
+    },
+  },
+  {
+    name: 'search_system_object_attribute_definitions',
+    description: 'Search for specific attribute definitions within a system object type using complex queries. Use this when you need to find attributes by name, type, or other properties rather than retrieving all attributes. Supports text search on id/display_name/description, filtering by properties like mandatory/searchable/system, and sorting. Essential for finding custom attributes or attributes with specific characteristics. To get all attributes, use a match_all_query.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        objectType: {
+          type: 'string',
+          description: "The system object type to search within (e.g., 'Product', 'Customer', 'Order', 'Category', 'Site')",
+        },
+        searchRequest: {
+          type: 'object',
+          description: 'The search request with query, sorting, and pagination options',
+          properties: {
+            query: {
+              type: 'object',
+              description: 'Query to filter attribute definitions',
+              properties: {
+                text_query: {
+                  type: 'object',
+                  description: 'Search for text in specific fields',
+                  properties: {
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Fields to search in (e.g., ["id", "display_name", "description"])',
+                    },
+                    search_phrase: {
+                      type: 'string',
+                      description: 'Text to search for',
+                    },
+                  },
+                  required: ['fields', 'search_phrase'],
+                },
+                term_query: {
+                  type: 'object',
+                  description: 'Search for exact term matches',
+                  properties: {
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Fields to search in',
+                    },
+                    operator: {
+                      type: 'string',
+                      description: 'Query operator (e.g., "is", "one_of")',
+                    },
+                    values: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Values to match',
+                    },
+                  },
+                  required: ['fields', 'operator', 'values'],
+                },
+                bool_query: {
+                  type: 'object',
+                  description: 'Combine multiple queries with boolean logic',
+                  properties: {
+                    must: {
+                      type: 'array',
+                      items: { type: 'object' },
+                      description: 'Queries that must match (AND)',
+                    },
+                    must_not: {
+                      type: 'array',
+                      items: { type: 'object' },
+                      description: 'Queries that must not match',
+                    },
+                    should: {
+                      type: 'array',
+                      items: { type: 'object' },
+                      description: 'Queries that should match (OR)',
+                    },
+                  },
+                },
+                match_all_query: {
+                  type: 'object',
+                  description: 'Match all documents query - matches all documents in the namespace and document type. Useful when you just want to filter results or have no constraints.',
+                  properties: {},
+                },
+              },
+            },
+            sorts: {
+              type: 'array',
+              description: 'Sort criteria',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    description: 'Field to sort by',
+                  },
+                  sort_order: {
+                    type: 'string',
+                    enum: ['asc', 'desc'],
+                    description: 'Sort order (default: asc)',
+                  },
+                },
+                required: ['field'],
+              },
+            },
+            start: {
+              type: 'number',
+              description: 'Start index for pagination (default: 0)',
+              default: 0,
+            },
+            count: {
+              type: 'number',
+              description: 'Number of results to return (default: 200)',
+              default: 200,
+            },
+            select: {
+              type: 'string',
+              description: "Property selector (e.g., '(**)' for all properties)",
+            },
+          },
+        },
+      },
+      required: ['objectType', 'searchRequest'],
+    },
+  },
+  {
+    name: 'search_site_preferences',
+    description: 'Search site preferences across sites in the specified preference group and instance. Use this to find specific site preferences by name, description, or value type. Essential for discovering custom site preferences, understanding preference configurations, or when working with site-specific settings. Use this tool when generating or debugging code that accesses site preferences (e.g., dw.system.Site.current.preferences.custom.yourPreference, Site.getCurrent().getCustomPreferenceValue()) to validate preference names, understand their data types, discover available preferences in a group, or troubleshoot preference-related issues. Supports complex queries with text search, filtering, and sorting.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        groupId: {
+          type: 'string',
+          description: 'The ID of the preference group to search within',
+        },
+        instanceType: {
+          type: 'string',
+          enum: ['staging', 'development', 'sandbox', 'production'],
+          description: 'The instance type to search preferences for. Since this MCP server is aimed at development and testing, the default is "sandbox".',
+          default: 'sandbox',
+        },
+        searchRequest: {
+          type: 'object',
+          description: 'The search request with query, sorting, and pagination options',
+          properties: {
+            query: {
+              type: 'object',
+              description: 'Query to filter site preferences',
+              properties: {
+                text_query: {
+                  type: 'object',
+                  description: 'Search for text in specific fields',
+                  properties: {
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Fields to search in (e.g., ["id", "display_name", "description"])',
+                    },
+                    search_phrase: {
+                      type: 'string',
+                      description: 'Text to search for',
+                    },
+                  },
+                  required: ['fields', 'search_phrase'],
+                },
+                term_query: {
+                  type: 'object',
+                  description: 'Search for exact term matches',
+                  properties: {
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Fields to search in',
+                    },
                     operator: {
                       type: 'string',
                       description: 'Query operator (e.g., "is", "one_of")',
@@ -604,7 +1240,7 @@ export const SYSTEM_OBJECT_TOOLS = [
                 properties: {
                   field: {
                     type: 'string',
-                    description: 'Field to sort by',
+                    description: 'Field to sort by (id, display_name, description, value_type)',
                   },
                   sort_order: {
                     type: 'string',
@@ -631,25 +1267,156 @@ export const SYSTEM_OBJECT_TOOLS = [
             },
           },
         },
+        options: {
+          type: 'object',
+          description: 'Additional options for the search',
+          properties: {
+            maskPasswords: {
+              type: 'boolean',
+              description: 'Whether to mask password type preference values (default: true)',
+              default: true,
+            },
+            expand: {
+              type: 'string',
+              description: 'Expand options (use "value" to retrieve value definitions)',
+            },
+          },
+        },
       },
-      required: ['objectType', 'searchRequest'],
+      required: ['groupId', 'instanceType', 'searchRequest'],
     },
   },
   {
-    name: 'search_site_preferences',
-    description: 'Search site preferences across sites in the specified preference group and instance. Use this to find specific site preferences by name, description, or value type. Essential for discovering custom site preferences, understanding preference configurations, or when working with site-specific settings. Use this tool when generating or debugging code that accesses site preferences (e.g., dw.system.Site.current.preferences.custom.yourPreference, Site.getCurrent().getCustomPreferenceValue()) to validate preference names, understand their data types, discover available preferences in a group, or troubleshoot preference-related issues. Supports complex queries with text search, filtering, and sorting.',
+    name: 'search_system_object_attribute_groups',
+    description: 'Search attribute groups for a specific system object type. Use this to discover available attribute groups, which is essential for finding site preference groups (use "SitePreferences" as objectType) needed for the site preferences search API. Supports complex queries with text search, filtering, and sorting on group properties.',
     inputSchema: {
       type: 'object',
       properties: {
-        groupId: {
+        objectType: {
           type: 'string',
-          description: 'The ID of the preference group to search within',
+          description: 'The system object type to search attribute groups for (e.g., "Product", "Customer", "SitePreferences")',
         },
-        instanceType: {
+        searchRequest: {
+          type: 'object',
+          description: 'The search request with query, sorting, and pagination options',
+          properties: {
+            query: {
+              type: 'object',
+              description: 'Query to filter attribute groups',
+              properties: {
+                text_query: {
+                  type: 'object',
+                  description: 'Search for text in specific fields',
+                  properties: {
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Fields to search in (e.g., ["id", "display_name", "description"])',
+                    },
+                    search_phrase: {
+                      type: 'string',
+                      description: 'Text to search for',
+                    },
+                  },
+                  required: ['fields', 'search_phrase'],
+                },
+                term_query: {
+                  type: 'object',
+                  description: 'Search for exact term matches',
+                  properties: {
+                    fields: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Fields to search in',
+                    },
+                    operator: {
+                      type: 'string',
+                      description: 'Query operator (e.g., "is", "one_of")',
+                    },
+                    values: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Values to match',
+                    },
+                  },
+                  required: ['fields', 'operator', 'values'],
+                },
+                bool_query: {
+                  type: 'object',
+                  description: 'Combine multiple queries with boolean logic',
+                  properties: {
+                    must: {
+                      type: 'array',
+                      items: { type: 'object' },
+                      description: 'Queries that must match (AND)',
+                    },
+                    must_not: {
+                      type: 'array',
+                      items: { type: 'object' },
+                      description: 'Queries that must not match',
+                    },
+                    should: {
+                      type: 'array',
+                      items: { type: 'object' },
+                      description: 'Queries that should match (OR)',
+                    },
+                  },
+                },
+                match_all_query: {
+                  type: 'object',
+                  description: 'Match all documents query - matches all documents in the namespace and document type. Useful when you just want to filter results or have no constraints.',
+                  properties: {},
+                },
+              },
+            },
+            sorts: {
+              type: 'array',
+              description: 'Sort criteria',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    description: 'Field to sort by (id, display_name, description, position, internal)',
+                  },
+                  sort_order: {
+                    type: 'string',
+                    enum: ['asc', 'desc'],
+                    description: 'Sort order (default: asc)',
+                  },
+                },
+                required: ['field'],
+              },
+            },
+            start: {
+              type: 'number',
+              description: 'Start index for pagination (default: 0)',
+              default: 0,
+            },
+            count: {
+              type: 'number',
+              description: 'Number of results to return (default: 200)',
+              default: 200,
+            },
+            select: {
+              type: 'string',
+              description: "Property selector (e.g., '(**)' for all properties)",
+            },
+          },
+        },
+      },
+      required: ['objectType', 'searchRequest'],
+    },
+  },
+  {
+    name: 'search_custom_object_attribute_definitions',
+    description: 'Search for specific attribute definitions within a custom object type using complex queries. Use this when you need to find attributes by name, type, or other properties for custom objects rather than system objects. Supports text search on id/display_name/description, filtering by properties like mandatory/searchable/system, and sorting. Essential for finding custom attributes or attributes with specific characteristics in custom object definitions. Custom objects are user-defined data structures that extend SFCC functionality.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        objectType: {
           type: 'string',
-          enum: ['staging', 'development', 'sandbox', 'production'],
-          description: 'The instance type to search preferences for. Since this MCP server is aimed at development and testing, the default is "sandbox".',
-          default: 'sandbox',
+          description: "The custom object type to search within (e.g., 'Global_String', 'MyCustomObject')",
         },
         searchRequest: {
           type: 'object',
@@ -657,7 +1424,7 @@ export const SYSTEM_OBJECT_TOOLS = [
           properties: {
             query: {
               type: 'object',
-              description: 'Query to filter site preferences',
+              description: 'Query to filter attribute definitions',
               properties: {
                 text_query: {
                   type: 'object',
@@ -732,7 +1499,7 @@ export const SYSTEM_OBJECT_TOOLS = [
                 properties: {
                   field: {
                     type: 'string',
-                    description: 'Field to sort by (id, display_name, description, value_type)',
+                    description: 'Field to sort by',
                   },
                   sort_order: {
                     type: 'string',
@@ -759,315 +1526,377 @@ export const SYSTEM_OBJECT_TOOLS = [
             },
           },
         },
-        options: {
-          type: 'object',
-          description: 'Additional options for the search',
-          properties: {
-            maskPasswords: {
-              type: 'boolean',
-              description: 'Whether to mask password type preference values (default: true)',
-              default: true,
-            },
-            expand: {
-              type: 'string',
-              description: 'Expand options (use "value" to retrieve value definitions)',
-            },
-          },
+      },
+      required: ['objectType', 'searchRequest'],
+    },
+  },
+];
+
+export const CODE_VERSION_TOOLS = [
+  {
+    name: 'get_code_versions',
+    description: 'Get all code versions from an SFCC instance. Use this to view available code versions for deployment management and code-switch fixes. Essential for troubleshooting SCAPI endpoint registration issues, job deployment problems, and when you need to switch between different code versions to resolve deployment conflicts.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'activate_code_version',
+    description: 'Activate a specific code version on the SFCC instance. Use this to perform code-switch fixes for SCAPI endpoint registration issues, job deployment problems, and deployment conflicts. Only inactive code versions can be activated, and activating a version will automatically deactivate the currently active version.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        codeVersionId: {
+          type: 'string',
+          description: 'The ID of the code version to activate. Must be an existing inactive code version.',
+        },
+      },
+      required: ['codeVersionId'],
+    },
+  },
+];
+
+export const DATA_API_TOOLS = [
+  // 製品ツール
+  {
+    name: 'search_products',
+    description: 'Search for products in the SFCC catalog using various filters. Supports filtering by name, price range, category, and other attributes. Returns product data including ID, name, price, and availability. Use this to explore product catalog, find specific products, or analyze product data.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        site_id: {
+          type: 'string',
+          description: 'The site ID to search products in',
+        },
+        query: {
+          type: 'string',
+          description: 'Search query text to find products by name or description',
+        },
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25, max: 200)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
+        },
+        expand: {
+          type: 'string',
+          description: "Comma-separated list of fields to expand (e.g., 'prices,images,availability')",
+        },
+      },
+      required: ['site_id'],
+    },
+  },
+  {
+    name: 'get_product',
+    description: 'Get detailed information about a specific product by its ID. Returns full product data including variants, prices, images, and custom attributes. Use this when you need complete details about a specific product.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        site_id: {
+          type: 'string',
+          description: 'The site ID where the product exists',
+        },
+        product_id: {
+          type: 'string',
+          description: 'The unique product ID',
+        },
+        expand: {
+          type: 'string',
+          description: "Comma-separated list of fields to expand (e.g., 'prices,images,variations')",
+        },
+      },
+      required: ['site_id', 'product_id'],
+    },
+  },
+  // カタログツール
+  {
+    name: 'get_catalogs',
+    description: 'Get a list of all available catalogs in the SFCC instance. Returns catalog IDs, names, and basic metadata. Use this to discover available catalogs for product management.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_catalog',
+    description: 'Get detailed information about a specific catalog including its categories and configuration. Use this to understand catalog structure and settings.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalog_id: {
+          type: 'string',
+          description: 'The unique catalog ID',
+        },
+      },
+      required: ['catalog_id'],
+    },
+  },
+  {
+    name: 'get_categories',
+    description: 'Get all categories within a specific catalog. Returns category hierarchy with IDs, names, and parent relationships. Use this to understand category structure for navigation or product organization.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalog_id: {
+          type: 'string',
+          description: 'The catalog ID to get categories from',
+        },
+        levels: {
+          type: 'number',
+          description: 'Number of category levels to return (default: 1)',
+          default: 1,
+        },
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
+        },
+      },
+      required: ['catalog_id'],
+    },
+  },
+  {
+    name: 'get_category',
+    description: 'Get detailed information about a specific category including its subcategories and products. Use this to explore category details and structure.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        catalog_id: {
+          type: 'string',
+          description: 'The catalog ID containing the category',
+        },
+        category_id: {
+          type: 'string',
+          description: 'The unique category ID',
+        },
+        levels: {
+          type: 'number',
+          description: 'Number of subcategory levels to return',
+        },
+      },
+      required: ['catalog_id', 'category_id'],
+    },
+  },
+  // サイトツール
+  {
+    name: 'get_sites',
+    description: 'Get a list of all sites in the SFCC instance. Returns site IDs, names, and configuration details. Use this to discover available sites for multi-site management.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
+        },
+      },
+    },
+  },
+  {
+    name: 'get_site',
+    description: 'Get detailed information about a specific site including its configuration, locales, and currencies. Use this to understand site settings and capabilities.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        site_id: {
+          type: 'string',
+          description: 'The unique site ID',
+        },
+      },
+      required: ['site_id'],
+    },
+  },
+  // キャンペーンとプロモーションツール
+  {
+    name: 'search_campaigns',
+    description: 'Search for campaigns in the SFCC instance. Returns campaign data including status, dates, and associated promotions. Use this to find and analyze marketing campaigns.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        site_id: {
+          type: 'string',
+          description: 'The site ID to search campaigns in',
+        },
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
+        },
+      },
+      required: ['site_id'],
+    },
+  },
+  {
+    name: 'get_campaign',
+    description: 'Get detailed information about a specific campaign including its promotions and configuration. Use this to understand campaign setup and associated promotions.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        site_id: {
+          type: 'string',
+          description: 'The site ID containing the campaign',
+        },
+        campaign_id: {
+          type: 'string',
+          description: 'The unique campaign ID',
         },
       },
-      required: ['groupId', 'instanceType', 'searchRequest'],
+      required: ['site_id', 'campaign_id'],
     },
   },
   {
-    name: 'search_system_object_attribute_groups',
-    description: 'Search attribute groups for a specific system object type. Use this to discover available attribute groups, which is essential for finding site preference groups (use "SitePreferences" as objectType) needed for the site preferences search API. Supports complex queries with text search, filtering, and sorting on group properties.',
+    name: 'search_promotions',
+    description: 'Search for promotions in the SFCC instance. Returns promotion data including type, discounts, and qualifiers. Use this to find and analyze promotional offers.',
     inputSchema: {
       type: 'object',
       properties: {
-        objectType: {
+        site_id: {
           type: 'string',
-          description: 'The system object type to search attribute groups for (e.g., "Product", "Customer", "SitePreferences")',
+          description: 'The site ID to search promotions in',
         },
-        searchRequest: {
-          type: 'object',
-          description: 'The search request with query, sorting, and pagination options',
-          properties: {
-            query: {
-              type: 'object',
-              description: 'Query to filter attribute groups',
-              properties: {
-                text_query: {
-                  type: 'object',
-                  description: 'Search for text in specific fields',
-                  properties: {
-                    fields: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Fields to search in (e.g., ["id", "display_name", "description"])',
-                    },
-                    search_phrase: {
-                      type: 'string',
-                      description: 'Text to search for',
-                    },
-                  },
-                  required: ['fields', 'search_phrase'],
-                },
-                term_query: {
-                  type: 'object',
-                  description: 'Search for exact term matches',
-                  properties: {
-                    fields: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Fields to search in',
-                    },
-                    operator: {
-                      type: 'string',
-                      description: 'Query operator (e.g., "is", "one_of")',
-                    },
-                    values: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Values to match',
-                    },
-                  },
-                  required: ['fields', 'operator', 'values'],
-                },
-                bool_query: {
-                  type: 'object',
-                  description: 'Combine multiple queries with boolean logic',
-                  properties: {
-                    must: {
-                      type: 'array',
-                      items: { type: 'object' },
-                      description: 'Queries that must match (AND)',
-                    },
-                    must_not: {
-                      type: 'array',
-                      items: { type: 'object' },
-                      description: 'Queries that must not match',
-                    },
-                    should: {
-                      type: 'array',
-                      items: { type: 'object' },
-                      description: 'Queries that should match (OR)',
-                    },
-                  },
-                },
-                match_all_query: {
-                  type: 'object',
-                  description: 'Match all documents query - matches all documents in the namespace and document type. Useful when you just want to filter results or have no constraints.',
-                  properties: {},
-                },
-              },
-            },
-            sorts: {
-              type: 'array',
-              description: 'Sort criteria',
-              items: {
-                type: 'object',
-                properties: {
-                  field: {
-                    type: 'string',
-                    description: 'Field to sort by (id, display_name, description, position, internal)',
-                  },
-                  sort_order: {
-                    type: 'string',
-                    enum: ['asc', 'desc'],
-                    description: 'Sort order (default: asc)',
-                  },
-                },
-                required: ['field'],
-              },
-            },
-            start: {
-              type: 'number',
-              description: 'Start index for pagination (default: 0)',
-              default: 0,
-            },
-            count: {
-              type: 'number',
-              description: 'Number of results to return (default: 200)',
-              default: 200,
-            },
-            select: {
-              type: 'string',
-              description: "Property selector (e.g., '(**)' for all properties)",
-            },
-          },
+        campaign_id: {
+          type: 'string',
+          description: 'Filter promotions by campaign ID',
+        },
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
         },
       },
-      required: ['objectType', 'searchRequest'],
+      required: ['site_id'],
     },
   },
   {
-    name: 'search_custom_object_attribute_definitions',
-    description: 'Search for specific attribute definitions within a custom object type using complex queries. Use this when you need to find attributes by name, type, or other properties for custom objects rather than system objects. Supports text search on id/display_name/description, filtering by properties like mandatory/searchable/system, and sorting. Essential for finding custom attributes or attributes with specific characteristics in custom object definitions. Custom objects are user-defined data structures that extend SFCC functionality.',
+    name: 'search_coupons',
+    description: 'Search for coupons in the SFCC instance. Returns coupon codes, redemption limits, and associated promotions. Use this to find and manage coupon codes.',
     inputSchema: {
       type: 'object',
       properties: {
-        objectType: {
+        site_id: {
           type: 'string',
-          description: "The custom object type to search within (e.g., 'Global_String', 'MyCustomObject')",
+          description: 'The site ID to search coupons in',
         },
-        searchRequest: {
-          type: 'object',
-          description: 'The search request with query, sorting, and pagination options',
-          properties: {
-            query: {
-              type: 'object',
-              description: 'Query to filter attribute definitions',
-              properties: {
-                text_query: {
-                  type: 'object',
-                  description: 'Search for text in specific fields',
-                  properties: {
-                    fields: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Fields to search in (e.g., ["id", "display_name", "description"])',
-                    },
-                    search_phrase: {
-                      type: 'string',
-                      description: 'Text to search for',
-                    },
-                  },
-                  required: ['fields', 'search_phrase'],
-                },
-                term_query: {
-                  type: 'object',
-                  description: 'Search for exact term matches',
-                  properties: {
-                    fields: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Fields to search in',
-                    },
-                    operator: {
-                      type: 'string',
-                      description: 'Query operator (e.g., "is", "one_of")',
-                    },
-                    values: {
-                      type: 'array',
-                      items: { type: 'string' },
-                      description: 'Values to match',
-                    },
-                  },
-                  required: ['fields', 'operator', 'values'],
-                },
-                bool_query: {
-                  type: 'object',
-                  description: 'Combine multiple queries with boolean logic',
-                  properties: {
-                    must: {
-                      type: 'array',
-                      items: { type: 'object' },
-                      description: 'Queries that must match (AND)',
-                    },
-                    must_not: {
-                      type: 'array',
-                      items: { type: 'object' },
-                      description: 'Queries that must not match',
-                    },
-                    should: {
-                      type: 'array',
-                      items: { type: 'object' },
-                      description: 'Queries that should match (OR)',
-                    },
-                  },
-                },
-                match_all_query: {
-                  type: 'object',
-                  description: 'Match all documents query - matches all documents in the namespace and document type. Useful when you just want to filter results or have no constraints.',
-                  properties: {},
-                },
-              },
-            },
-            sorts: {
-              type: 'array',
-              description: 'Sort criteria',
-              items: {
-                type: 'object',
-                properties: {
-                  field: {
-                    type: 'string',
-                    description: 'Field to sort by',
-                  },
-                  sort_order: {
-                    type: 'string',
-                    enum: ['asc', 'desc'],
-                    description: 'Sort order (default: asc)',
-                  },
-                },
-                required: ['field'],
-              },
-            },
-            start: {
-              type: 'number',
-              description: 'Start index for pagination (default: 0)',
-              default: 0,
-            },
-            count: {
-              type: 'number',
-              description: 'Number of results to return (default: 200)',
-              default: 200,
-            },
-            select: {
-              type: 'string',
-              description: "Property selector (e.g., '(**)' for all properties)",
-            },
-          },
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
         },
       },
-      required: ['objectType', 'searchRequest'],
+      required: ['site_id'],
     },
   },
-];
-
-export const CODE_VERSION_TOOLS = [
+  // 在庫ツール
   {
-    name: 'get_code_versions',
-    description: 'Get all code versions from an SFCC instance. Use this to view available code versions for deployment management and code-switch fixes. Essential for troubleshooting SCAPI endpoint registration issues, job deployment problems, and when you need to switch between different code versions to resolve deployment conflicts.',
+    name: 'get_inventory_lists',
+    description: 'Get all inventory lists in the SFCC instance. Returns list IDs, names, and configuration. Use this to discover available inventory lists for stock management.',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        count: {
+          type: 'number',
+          description: 'Number of results to return (default: 25)',
+          default: 25,
+        },
+        start: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
+        },
+      },
     },
   },
   {
-    name: 'activate_code_version',
-    description: 'Activate a specific code version on the SFCC instance. Use this to perform code-switch fixes for SCAPI endpoint registration issues, job deployment problems, and deployment conflicts. Only inactive code versions can be activated, and activating a version will automatically deactivate the currently active version.',
+    name: 'get_inventory_list',
+    description: 'Get detailed information about a specific inventory list including its configuration. Use this to understand inventory list settings.',
     inputSchema: {
       type: 'object',
       properties: {
-        codeVersionId: {
+        inventory_list_id: {
           type: 'string',
-          description: 'The ID of the code version to activate. Must be an existing inactive code version.',
+          description: 'The unique inventory list ID',
         },
       },
-      required: ['codeVersionId'],
+      required: ['inventory_list_id'],
     },
   },
-];
-
-export const DATA_API_TOOLS = [
-  // 製品ツール
   {
-    name: 'search_products',
-    description: 'Search for products in the SFCC catalog using various filters. Supports filtering by name, price range, category, and other attributes. Returns product data including ID, name, price, and availability. Use this to explore product catalog, find specific products, or analyze product data.',
+    name: 'get_product_inventory',
+    description: 'Get inventory information for a specific product in an inventory list. Returns stock levels and availability status.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        inventory_list_id: {
+          type: 'string',
+          description: 'The inventory list ID',
+        },
+        product_id: {
+          type: 'string',
+          description: 'The product ID to get inventory for',
+        },
+      },
+      required: ['inventory_list_id', 'product_id'],
+    },
+  },
+  // 顧客ツール
+  {
+    name: 'search_customers',
+    description: 'Search for customers in the SFCC instance. Returns customer data including profiles, addresses, and order history references. Use this to find specific customers or analyze customer data.',
     inputSchema: {
       type: 'object',
       properties: {
         site_id: {
           type: 'string',
-          description: 'The site ID to search products in',
+          description: 'The site ID to search customers in',
         },
         query: {
           type: 'string',
-          description: 'Search query text to find products by name or description',
+          description: 'Search query text (email, name, customer number)',
         },
         count: {
           type: 'number',
-          description: 'Number of results to return (default: 25, max: 200)',
+          description: 'Number of results to return (default: 25)',
           default: 25,
         },
         start: {
@@ -1075,43 +1904,42 @@ export const DATA_API_TOOLS = [
           description: 'Starting index for pagination (default: 0)',
           default: 0,
         },
-        expand: {
-          type: 'string',
-          description: "Comma-separated list of fields to expand (e.g., 'prices,images,availability')",
-        },
       },
       required: ['site_id'],
     },
   },
   {
-    name: 'get_product',
-    description: 'Get detailed information about a specific product by its ID. Returns full product data including variants, prices, images, and custom attributes. Use this when you need complete details about a specific product.',
+    name: 'get_customer',
+    description: 'Get detailed information about a specific customer including profile, addresses, and payment instruments. Use this for customer support or analysis.',
     inputSchema: {
       type: 'object',
       properties: {
         site_id: {
           type: 'string',
-          description: 'The site ID where the product exists',
+          description: 'The site ID containing the customer',
         },
-        product_id: {
+        customer_id: {
           type: 'string',
-          description: 'The unique product ID',
+          description: 'The unique customer ID',
         },
         expand: {
           type: 'string',
-          description: "Comma-separated list of fields to expand (e.g., 'prices,images,variations')",
+          description: "Comma-separated list of fields to expand (e.g., 'addresses,payment_instruments')",
         },
       },
-      required: ['site_id', 'product_id'],
+      required: ['site_id', 'customer_id'],
     },
   },
-  // カタログツール
   {
-    name: 'get_catalogs',
-    description: 'Get a list of all available catalogs in the SFCC instance. Returns catalog IDs, names, and basic metadata. Use this to discover available catalogs for product management.',
+    name: 'get_customer_groups',
+    description: 'Get all customer groups for a specific site. Returns group IDs, names, and descriptions. Use this to understand customer segmentation.',
     inputSchema: {
       type: 'object',
       properties: {
+        site_id: {
+          type: 'string',
+          description: 'The site ID to get customer groups from',
+        },
         count: {
           type: 'number',
           description: 'Number of results to return (default: 25)',
@@ -1123,36 +1951,19 @@ export const DATA_API_TOOLS = [
           default: 0,
         },
       },
+      required: ['site_id'],
     },
   },
+  // カスタムオブジェクトツール
   {
-    name: 'get_catalog',
-    description: 'Get detailed information about a specific catalog including its categories and configuration. Use this to understand catalog structure and settings.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        catalog_id: {
-          type: 'string',
-          description: 'The unique catalog ID',
-        },
-      },
-      required: ['catalog_id'],
-    },
-  },
-  {
-    name: 'get_categories',
-    description: 'Get all categories within a specific catalog. Returns category hierarchy with IDs, names, and parent relationships. Use this to understand category structure for navigation or product organization.',
+    name: 'search_custom_objects',
+    description: 'Search for custom objects of a specific type. Returns custom object data based on the object definition. Use this to query custom data stored in SFCC custom objects.',
     inputSchema: {
       type: 'object',
       properties: {
-        catalog_id: {
+        object_type: {
           type: 'string',
-          description: 'The catalog ID to get categories from',
-        },
-        levels: {
-          type: 'number',
-          description: 'Number of category levels to return (default: 1)',
-          default: 1,
+          description: 'The custom object type ID',
         },
         count: {
           type: 'number',
@@ -1165,38 +1976,42 @@ export const DATA_API_TOOLS = [
           default: 0,
         },
       },
-      required: ['catalog_id'],
+      required: ['object_type'],
     },
   },
   {
-    name: 'get_category',
-    description: 'Get detailed information about a specific category including its subcategories and products. Use this to explore category details and structure.',
+    name: 'get_custom_object',
+    description: 'Get a specific custom object by its type and key. Returns the full custom object data. Use this to retrieve specific custom data records.',
     inputSchema: {
       type: 'object',
       properties: {
-        catalog_id: {
+        object_type: {
           type: 'string',
-          description: 'The catalog ID containing the category',
+          description: 'The custom object type ID',
         },
-        category_id: {
+        key: {
           type: 'string',
-          description: 'The unique category ID',
-        },
-        levels: {
-          type: 'number',
-          description: 'Number of subcategory levels to return',
+          description: 'The unique key of the custom object',
         },
       },
-      required: ['catalog_id', 'category_id'],
+      required: ['object_type', 'key'],
     },
   },
-  // サイトツール
+  // 注文ツール
   {
-    name: 'get_sites',
-    description: 'Get a list of all sites in the SFCC instance. Returns site IDs, names, and configuration details. Use this to discover available sites for multi-site management.',
+    name: 'search_orders',
+    description: 'Search for orders in the SFCC instance. Returns order data including status, totals, and customer information. Use this to find and analyze orders.',
     inputSchema: {
       type: 'object',
       properties: {
+        site_id: {
+          type: 'string',
+          description: 'The site ID to search orders in',
+        },
+        query: {
+          type: 'string',
+          description: 'Search query text (order number, customer email)',
+        },
         count: {
           type: 'number',
           description: 'Number of results to return (default: 25)',
@@ -1208,33 +2023,54 @@ export const DATA_API_TOOLS = [
           default: 0,
         },
       },
+      required: ['site_id'],
     },
   },
   {
-    name: 'get_site',
-    description: 'Get detailed information about a specific site including its configuration, locales, and currencies. Use this to understand site settings and capabilities.',
+    name: 'get_order',
+    description: 'Get detailed information about a specific order including line items, shipping, and payment details. Use this for order support or analysis.',
     inputSchema: {
       type: 'object',
       properties: {
         site_id: {
           type: 'string',
-          description: 'The unique site ID',
+          description: 'The site ID containing the order',
+        },
+        order_no: {
+          type: 'string',
+          description: 'The order number',
+        },
+        expand: {
+          type: 'string',
+          description: 'Comma-separated list of fields to expand',
         },
       },
-      required: ['site_id'],
+      required: ['site_id', 'order_no'],
     },
   },
-  // キャンペーンとプロモーションツール
+  // 価格とロケールツール
   {
-    name: 'search_campaigns',
-    description: 'Search for campaigns in the SFCC instance. Returns campaign data including status, dates, and associated promotions. Use this to find and analyze marketing campaigns.',
+    name: 'get_locales',
+    description: 'Get all available locales in the SFCC instance. Returns locale codes and display names. Use this to understand supported languages and regions.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_currencies',
+    description: 'Get all available currencies in the SFCC instance. Returns currency codes and symbols. Use this to understand supported currencies for pricing.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'get_price_books',
+    description: 'Get all price books in the SFCC instance. Returns price book IDs, names, and currency information. Use this to discover available price books.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
-          type: 'string',
-          description: 'The site ID to search campaigns in',
-        },
         count: {
           type: 'number',
           description: 'Number of results to return (default: 25)',
@@ -1246,40 +2082,32 @@ export const DATA_API_TOOLS = [
           default: 0,
         },
       },
-      required: ['site_id'],
     },
   },
   {
-    name: 'get_campaign',
-    description: 'Get detailed information about a specific campaign including its promotions and configuration. Use this to understand campaign setup and associated promotions.',
+    name: 'get_price_book',
+    description: 'Get detailed information about a specific price book including its prices. Use this to understand pricing configuration.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
-          type: 'string',
-          description: 'The site ID containing the campaign',
-        },
-        campaign_id: {
+        price_book_id: {
           type: 'string',
-          description: 'The unique campaign ID',
+          description: 'The unique price book ID',
         },
       },
-      required: ['site_id', 'campaign_id'],
+      required: ['price_book_id'],
     },
   },
+  // コンテンツツール
   {
-    name: 'search_promotions',
-    description: 'Search for promotions in the SFCC instance. Returns promotion data including type, discounts, and qualifiers. Use this to find and analyze promotional offers.',
+    name: 'get_content_assets',
+    description: 'Get content assets from a content library. Returns content asset IDs, names, and body content. Use this to explore content management.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
-          type: 'string',
-          description: 'The site ID to search promotions in',
-        },
-        campaign_id: {
+        library_id: {
           type: 'string',
-          description: 'Filter promotions by campaign ID',
+          description: 'The content library ID',
         },
         count: {
           type: 'number',
@@ -1292,345 +2120,498 @@ export const DATA_API_TOOLS = [
           default: 0,
         },
       },
-      required: ['site_id'],
+      required: ['library_id'],
     },
   },
   {
-    name: 'search_coupons',
-    description: 'Search for coupons in the SFCC instance. Returns coupon codes, redemption limits, and associated promotions. Use this to find and manage coupon codes.',
+    name: 'get_content_asset',
+    description: 'Get a specific content asset by its ID. Returns full content asset data including body and custom attributes.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        library_id: {
+          type: 'string',
+          description: 'The content library ID',
+        },
+        content_id: {
+          type: 'string',
+          description: 'The content asset ID',
+        },
+      },
+      required: ['library_id', 'content_id'],
+    },
+  },
+];
+
+export const SCAPI_ADMIN_TOOLS = [
+  // SCAPI製品ツール
+  {
+    name: 'scapi_search_products',
+    description: 'Search products with the SCAPI (Salesforce Commerce API) Products Admin API. Returns product IDs, names and basic attributes across catalogs. Requires short-code and organization-id plus an API client with the sfcc.products scope.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
+        query: {
           type: 'string',
-          description: 'The site ID to search coupons in',
+          description: 'Search phrase matched against product ID and name',
         },
-        count: {
+        limit: {
           type: 'number',
-          description: 'Number of results to return (default: 25)',
+          description: 'Number of results to return (default: 25, max: 200)',
           default: 25,
         },
-        start: {
+        offset: {
           type: 'number',
           description: 'Starting index for pagination (default: 0)',
           default: 0,
         },
       },
-      required: ['site_id'],
     },
   },
-  // 在庫ツール
   {
-    name: 'get_inventory_lists',
-    description: 'Get all inventory lists in the SFCC instance. Returns list IDs, names, and configuration. Use this to discover available inventory lists for stock management.',
+    name: 'scapi_get_product',
+    description: 'Get a product with the SCAPI Products Admin API, including variations, attributes and optionally site-specific data. Use this instead of get_product when the instance is managed through SCAPI.',
     inputSchema: {
       type: 'object',
       properties: {
-        count: {
-          type: 'number',
-          description: 'Number of results to return (default: 25)',
-          default: 25,
+        productId: {
+          type: 'string',
+          description: 'The product ID',
         },
-        start: {
-          type: 'number',
-          description: 'Starting index for pagination (default: 0)',
-          default: 0,
+        siteId: {
+          type: 'string',
+          description: 'Site ID for site-specific attribute values',
+        },
+        expand: {
+          type: 'string',
+          description: "Comma-separated list of sections to expand (e.g., 'all', 'images,prices')",
         },
       },
+      required: ['productId'],
     },
   },
+  // SCAPI注文ツール
   {
-    name: 'get_inventory_list',
-    description: 'Get detailed information about a specific inventory list including its configuration. Use this to understand inventory list settings.',
+    name: 'scapi_get_orders',
+    description: 'List orders of a site with the SCAPI Orders Admin API, optionally filtered by creation date range and status. Requires an API client with the sfcc.orders scope.',
     inputSchema: {
       type: 'object',
       properties: {
-        inventory_list_id: {
+        siteId: {
           type: 'string',
-          description: 'The unique inventory list ID',
+          description: 'The site ID to list orders for',
+        },
+        creationDateFrom: {
+          type: 'string',
+          description: 'Only return orders created at or after this ISO 8601 timestamp',
+        },
+        creationDateTo: {
+          type: 'string',
+          description: 'Only return orders created at or before this ISO 8601 timestamp',
+        },
+        status: {
+          type: 'string',
+          description: "Order status filter (e.g., 'new', 'open', 'completed', 'cancelled')",
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of results to return (default: 25, max: 200)',
+          default: 25,
+        },
+        offset: {
+          type: 'number',
+          description: 'Starting index for pagination (default: 0)',
+          default: 0,
         },
       },
-      required: ['inventory_list_id'],
+      required: ['siteId'],
     },
   },
   {
-    name: 'get_product_inventory',
-    description: 'Get inventory information for a specific product in an inventory list. Returns stock levels and availability status.',
+    name: 'scapi_get_order',
+    description: 'Get an order with the SCAPI Orders Admin API, including line items, payments, shipments and status.',
     inputSchema: {
       type: 'object',
       properties: {
-        inventory_list_id: {
+        orderNo: {
           type: 'string',
-          description: 'The inventory list ID',
+          description: 'The order number',
         },
-        product_id: {
+        siteId: {
           type: 'string',
-          description: 'The product ID to get inventory for',
+          description: 'The site ID the order belongs to',
         },
       },
-      required: ['inventory_list_id', 'product_id'],
+      required: ['orderNo', 'siteId'],
     },
   },
-  // 顧客ツール
+  // SCAPI顧客ツール
   {
-    name: 'search_customers',
-    description: 'Search for customers in the SFCC instance. Returns customer data including profiles, addresses, and order history references. Use this to find specific customers or analyze customer data.',
+    name: 'scapi_search_customers',
+    description: 'Search customers of a customer list with the SCAPI Customers Admin API by email, first name or last name. Requires an API client with the sfcc.customerlists scope.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
+        listId: {
           type: 'string',
-          description: 'The site ID to search customers in',
+          description: 'The customer list ID',
         },
         query: {
           type: 'string',
-          description: 'Search query text (email, name, customer number)',
+          description: 'Search phrase matched against email, first name and last name',
         },
-        count: {
+        limit: {
           type: 'number',
-          description: 'Number of results to return (default: 25)',
+          description: 'Number of results to return (default: 25, max: 200)',
           default: 25,
         },
-        start: {
+        offset: {
           type: 'number',
           description: 'Starting index for pagination (default: 0)',
           default: 0,
         },
       },
-      required: ['site_id'],
+      required: ['listId'],
     },
   },
   {
-    name: 'get_customer',
-    description: 'Get detailed information about a specific customer including profile, addresses, and payment instruments. Use this for customer support or analysis.',
+    name: 'scapi_get_customer',
+    description: 'Get a customer profile from a customer list with the SCAPI Customers Admin API.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
+        listId: {
           type: 'string',
-          description: 'The site ID containing the customer',
+          description: 'The customer list ID',
         },
-        customer_id: {
+        customerNo: {
           type: 'string',
-          description: 'The unique customer ID',
+          description: 'The customer number',
         },
-        expand: {
-          type: 'string',
-          description: "Comma-separated list of fields to expand (e.g., 'addresses,payment_instruments')",
+      },
+      required: ['listId', 'customerNo'],
+    },
+  },
+  // SCAPI在庫ツール
+  {
+    name: 'scapi_get_inventory_availability',
+    description: 'Get inventory availability records (ATO, ATF, on hand, reserved) for products at inventory locations with the SCAPI Inventory Availability API. Requires an API client with the sfcc.inventory.availability scope.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        skus: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Product SKUs to get availability for',
+        },
+        locations: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Inventory location IDs to get availability at',
         },
       },
-      required: ['site_id', 'customer_id'],
+      required: ['skus', 'locations'],
     },
   },
+];
+
+export const SHOPPER_API_TOOLS = [
+  // Shopper製品ツール
   {
-    name: 'get_customer_groups',
-    description: 'Get all customer groups for a specific site. Returns group IDs, names, and descriptions. Use this to understand customer segmentation.',
+    name: 'shopper_get_product',
+    description: 'Get a product as the storefront sees it with the SCAPI Shopper Products API (SLAS shopper token). Returns shopper-specific prices, availability and promotions, which makes it useful to debug what a guest or logged-in customer actually gets. Requires slas-client-id, short-code and organization-id.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
+        productId: {
           type: 'string',
-          description: 'The site ID to get customer groups from',
+          description: 'The product ID',
         },
-        count: {
-          type: 'number',
-          description: 'Number of results to return (default: 25)',
-          default: 25,
+        siteId: {
+          type: 'string',
+          description: 'The site (channel) ID the shopper is browsing (default: site-id from dw.json)',
         },
-        start: {
-          type: 'number',
-          description: 'Starting index for pagination (default: 0)',
-          default: 0,
+        expand: {
+          type: 'string',
+          description: "Comma-separated list of sections to expand (e.g., 'availability,prices,promotions,variations')",
+        },
+        currency: {
+          type: 'string',
+          description: "Currency code for prices (e.g., 'USD')",
+        },
+        locale: {
+          type: 'string',
+          description: "Locale for localized attributes (e.g., 'en-US')",
+        },
+        shopper: {
+          type: 'string',
+          enum: ['guest', 'registered'],
+          description: 'Call as a guest shopper or as the registered shopper configured with shopper-login/shopper-password (default: guest)',
+          default: 'guest',
         },
       },
-      required: ['site_id'],
+      required: ['productId'],
     },
   },
-  // カスタムオブジェクトツール
   {
-    name: 'search_custom_objects',
-    description: 'Search for custom objects of a specific type. Returns custom object data based on the object definition. Use this to query custom data stored in SFCC custom objects.',
+    name: 'shopper_search_products',
+    description: 'Search products as the storefront does with the SCAPI Shopper Search API (SLAS shopper token), including refinements and sorting. Use this to reproduce storefront search results for a guest or registered shopper.',
     inputSchema: {
       type: 'object',
       properties: {
-        object_type: {
+        q: {
           type: 'string',
-          description: 'The custom object type ID',
+          description: 'Search phrase',
         },
-        count: {
+        refine: {
+          type: 'string',
+          description: "Refinement (e.g., 'cgid=womens' or 'price=(0..100)')",
+        },
+        sort: {
+          type: 'string',
+          description: 'Sorting option ID',
+        },
+        limit: {
           type: 'number',
-          description: 'Number of results to return (default: 25)',
+          description: 'Number of results to return (default: 25, max: 200)',
           default: 25,
         },
-        start: {
+        offset: {
           type: 'number',
           description: 'Starting index for pagination (default: 0)',
           default: 0,
         },
+        siteId: {
+          type: 'string',
+          description: 'The site (channel) ID the shopper is browsing (default: site-id from dw.json)',
+        },
+        shopper: {
+          type: 'string',
+          enum: ['guest', 'registered'],
+          description: 'Call as a guest shopper or as the registered shopper configured with shopper-login/shopper-password (default: guest)',
+          default: 'guest',
+        },
       },
-      required: ['object_type'],
     },
   },
+  // Shopperバスケットツール
   {
-    name: 'get_custom_object',
-    description: 'Get a specific custom object by its type and key. Returns the full custom object data. Use this to retrieve specific custom data records.',
+    name: 'shopper_create_basket',
+    description: 'Create a basket for the guest or registered shopper with the SCAPI Shopper Baskets API. Returns the basket including its basketId for shopper_add_item and shopper_get_basket.',
     inputSchema: {
       type: 'object',
       properties: {
-        object_type: {
+        currency: {
           type: 'string',
-          description: 'The custom object type ID',
+          description: "Currency code of the basket (e.g., 'USD')",
         },
-        key: {
+        siteId: {
           type: 'string',
-          description: 'The unique key of the custom object',
+          description: 'The site (channel) ID the shopper is browsing (default: site-id from dw.json)',
+        },
+        shopper: {
+          type: 'string',
+          enum: ['guest', 'registered'],
+          description: 'Call as a guest shopper or as the registered shopper configured with shopper-login/shopper-password (default: guest)',
+          default: 'guest',
         },
       },
-      required: ['object_type', 'key'],
     },
   },
-  // 注文ツール
   {
-    name: 'search_orders',
-    description: 'Search for orders in the SFCC instance. Returns order data including status, totals, and customer information. Use this to find and analyze orders.',
+    name: 'shopper_add_item',
+    description: 'Add a product to a shopper basket with the SCAPI Shopper Baskets API. Returns the updated basket with recalculated prices and promotions. The basket must belong to the same shopper type it was created with.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
+        basketId: {
           type: 'string',
-          description: 'The site ID to search orders in',
+          description: 'The basket ID returned by shopper_create_basket',
         },
-        query: {
+        productId: {
           type: 'string',
-          description: 'Search query text (order number, customer email)',
+          description: 'The product ID to add',
         },
-        count: {
+        quantity: {
           type: 'number',
-          description: 'Number of results to return (default: 25)',
-          default: 25,
+          description: 'Quantity to add (default: 1)',
+          default: 1,
         },
-        start: {
-          type: 'number',
-          description: 'Starting index for pagination (default: 0)',
-          default: 0,
+        siteId: {
+          type: 'string',
+          description: 'The site (channel) ID the shopper is browsing (default: site-id from dw.json)',
+        },
+        shopper: {
+          type: 'string',
+          enum: ['guest', 'registered'],
+          description: 'Call as a guest shopper or as the registered shopper configured with shopper-login/shopper-password (default: guest)',
+          default: 'guest',
         },
       },
-      required: ['site_id'],
+      required: ['basketId', 'productId'],
     },
   },
   {
-    name: 'get_order',
-    description: 'Get detailed information about a specific order including line items, shipping, and payment details. Use this for order support or analysis.',
+    name: 'shopper_get_basket',
+    description: 'Get a shopper basket with the SCAPI Shopper Baskets API, including line items, totals and applied promotions.',
     inputSchema: {
       type: 'object',
       properties: {
-        site_id: {
+        basketId: {
           type: 'string',
-          description: 'The site ID containing the order',
+          description: 'The basket ID',
         },
-        order_no: {
+        siteId: {
           type: 'string',
-          description: 'The order number',
+          description: 'The site (channel) ID the shopper is browsing (default: site-id from dw.json)',
         },
-        expand: {
+        shopper: {
           type: 'string',
-          description: 'Comma-separated list of fields to expand',
+          enum: ['guest', 'registered'],
+          description: 'Call as a guest shopper or as the registered shopper configured with shopper-login/shopper-password (default: guest)',
+          default: 'guest',
         },
       },
-      required: ['site_id', 'order_no'],
+      required: ['basketId'],
     },
   },
-  // 価格とロケールツール
+];
+
+export const DIAGNOSTICS_TOOLS = [
   {
-    name: 'get_locales',
-    description: 'Get all available locales in the SFCC instance. Returns locale codes and display names. Use this to understand supported languages and regions.',
+    name: 'diagnose_ocapi_access',
+    description: 'Check which OCAPI Data API resources and methods the configured API client (client-id) is allowed to call. Probes every OCAPI endpoint of the Data API tools and every resource used by the system object, site preference and code version tools with minimal requests (page size 1; write methods only against placeholder IDs, never on read-only instances; create requests are skipped) and reports each resource method as allowed, denied, not_found, skipped or error. For denied resources, returns the exact OCAPI settings JSON to add in Business Manager (Administration > Site Development > Open Commerce API Settings). Use this when tools fail with 403 ClientAccessForbiddenException or when setting up a new instance.',
     inputSchema: {
       type: 'object',
       properties: {},
     },
   },
+];
+
+export const CONNECTION_TOOLS = [
   {
-    name: 'get_currencies',
-    description: 'Get all available currencies in the SFCC instance. Returns currency codes and symbols. Use this to understand supported currencies for pricing.',
+    name: 'check_connection',
+    description: 'Check the connection to the SFCC instance. Runs each check in order and reports its status (ok, failed, skipped), latency and a specific failure reason: hostname resolution (dns), WebDAV log directory listing (webdav), OAuth client credentials token grant (oauth), an OCAPI Data API request (ocapi, GET /code_versions), and if configured a SCAPI Admin API request (scapi) and a SLAS guest Shopper API request (shopper). Checks that depend on a failed check are skipped. Use this first when log or API tools fail with authentication, network or timeout errors.',
     inputSchema: {
       type: 'object',
       properties: {},
     },
   },
+];
+
+export const INSTANCE_TOOLS = [
   {
-    name: 'get_price_books',
-    description: 'Get all price books in the SFCC instance. Returns price book IDs, names, and currency information. Use this to discover available price books.',
+    name: 'list_instances',
+    description: 'List the SFCC instances (sandbox, development, staging, production, ...) configured in the dw.json "configs" profiles, including which one is the default and which capabilities (logs, OCAPI, SCAPI, Shopper API) each instance supports. Use this before passing the `instance` argument to log, OCAPI, or Data API tools to target a specific environment.',
     inputSchema: {
       type: 'object',
-      properties: {
-        count: {
-          type: 'number',
-          description: 'Number of results to return (default: 25)',
-          default: 25,
-        },
-        start: {
-          type: 'number',
-          description: 'Starting index for pagination (default: 0)',
-          default: 0,
-        },
-      },
+      properties: {},
     },
   },
+];
+
+export const MAINTENANCE_TOOLS = [
   {
-    name: 'get_price_book',
-    description: 'Get detailed information about a specific price book including its prices. Use this to understand pricing configuration.',
+    name: 'clear_tokens',
+    description: 'Clear cached OAuth access tokens (OCAPI, SCAPI Admin and SLAS shopper tokens) from memory and, when the persistent token cache is enabled with --token-cache, from the encrypted token cache file. Without `instance`, the tokens of all hosts are cleared; with `instance`, only the tokens of that instance\'s host. The next API call requests a new token. Use this after rotating client credentials or changing API client permissions or scopes.',
     inputSchema: {
       type: 'object',
-      properties: {
-        price_book_id: {
-          type: 'string',
-          description: 'The unique price book ID',
-        },
-      },
-      required: ['price_book_id'],
+      properties: {},
     },
   },
-  // コンテンツツール
-  {
-    name: 'get_content_assets',
-    description: 'Get content assets from a content library. Returns content asset IDs, names, and body content. Use this to explore content management.',
+];
+
+/**
+ * ツール定義にオプションの`instance`引数を追加
+ *
+ * 複数インスタンスが設定されている場合に、ログ・OCAPI・Data APIツールで
+ * 対象インスタンスを呼び出しごとに選択できるようにします。
+ *
+ * @param tools - 対象のツール定義
+ * @param instanceNames - 選択可能なインスタンス名（先頭がデフォルト）
+ * @returns `instance`引数を追加したツール定義のコピー
+ */
+export function withInstanceArgument<T extends { inputSchema: { properties: Record<string, unknown> } }>(
+  tools: T[],
+  instanceNames: string[],
+): T[] {
+  return tools.map(tool => ({
+    ...tool,
     inputSchema: {
-      type: 'object',
+      ...tool.inputSchema,
       properties: {
-        library_id: {
+        ...tool.inputSchema.properties,
+        instance: {
           type: 'string',
-          description: 'The content library ID',
-        },
-        count: {
-          type: 'number',
-          description: 'Number of results to return (default: 25)',
-          default: 25,
-        },
-        start: {
-          type: 'number',
-          description: 'Starting index for pagination (default: 0)',
-          default: 0,
+          enum: instanceNames,
+          description: `SFCC instance to run against (default: ${instanceNames[0]}). Use list_instances to see the available instances.`,
         },
       },
-      required: ['library_id'],
     },
-  },
-  {
-    name: 'get_content_asset',
-    description: 'Get a specific content asset by its ID. Returns full content asset data including body and custom attributes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        library_id: {
-          type: 'string',
-          description: 'The content library ID',
-        },
-        content_id: {
-          type: 'string',
-          description: 'The content asset ID',
+  }));
+}
+
+/**
+ * ページングに対応したツール定義に`all`と`maxResults`引数を追加
+ *
+ * 指定されたツールは、全ページを自動的に取得して1つの結果に統合できるようになります。
+ *
+ * @param tools - 対象のツール定義
+ * @param paginatedToolNames - ページングに対応したツール名
+ * @returns ページング引数を追加したツール定義のコピー（対象外のツールはそのまま）
+ */
+export function withPaginationArguments<
+  T extends { name: string; inputSchema: { properties: Record<string, unknown> } },
+>(
+  tools: T[],
+  paginatedToolNames: Set<string>,
+): T[] {
+  return tools.map(tool => (paginatedToolNames.has(tool.name)
+    ? {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          all: {
+            type: 'boolean',
+            description: 'Fetch all result pages and return them merged into one result with pagination metadata ' +
+              `(up to ${MAX_PAGINATED_RESULTS} results)`,
+          },
+          maxResults: {
+            type: 'number',
+            description: 'Fetch result pages until this many results are collected and return them merged into one result',
+          },
         },
       },
-      required: ['library_id', 'content_id'],
-    },
-  },
-];
+    }
+    : tool));
+}
+
+/**
+ * API仕様やエンドポイントパックからインポートしたエンドポイントのツール定義を生成
+ *
+ * 手書きのツール定義がないエンドポイントについて、パラメータ定義から
+ * JSON Schemaの`inputSchema`を生成します。
+ *
+ * @param endpoints - API仕様やエンドポイントパックからインポートしたエンドポイント
+ * @returns MCPツール定義
+ */
+export function buildEndpointTools(endpoints: Endpoint[]): Array<{
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties: Record<string, unknown>; required?: string[] };
+}> {
+  return endpoints.map(endpoint => {
+    const schema = buildEndpointInputSchema(endpoint);
+    return {
+      name: endpoint.toolName,
+      description: endpoint.description,
+      inputSchema: {
+        type: 'object',
+        properties: schema.properties ?? {},
+        ...(schema.required ? { required: schema.required } : {}),
+      },
+    };
+  });
+}
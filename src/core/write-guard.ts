@@ -0,0 +1,250 @@
+/**
+ * Write Guard
+ *
+ * Gates tools that modify SFCC data (code version activation and non-read-only Data API
+ * endpoints). Mutating tools are hidden and rejected for read-only instances, and every
+ * mutating call has to be confirmed with a single-use token issued by a first, non-executing
+ * call so a production instance can never be changed by accident. Tokens are only accepted in
+ * the MCP session they were issued to.
+ */
+
+import { randomUUID } from 'crypto';
+import { Endpoint, SFCCConfig } from '../types/types.js';
+import { ConfigurationFactory } from '../config/configuration-factory.js';
+import { HandlerError, ToolArguments, ToolExecutionResult } from './handlers/base-handler.js';
+import { Logger } from '../utils/logger.js';
+
+/** Argument carrying the confirmation token on the second call of a mutating tool */
+export const CONFIRMATION_TOKEN_ARGUMENT = 'confirmationToken';
+
+/** How long an issued confirmation token stays valid */
+const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/** Tools that modify data independently of the endpoint definitions */
+export const MUTATING_TOOL_NAMES = new Set<string>([
+  'activate_code_version',
+]);
+
+/**
+ * Check whether a Data API endpoint modifies data
+ * Endpoints without an explicit readOnly flag are mutating unless they use GET
+ */
+export function isMutatingEndpoint(endpoint: Pick<Endpoint, 'method' | 'readOnly'>): boolean {
+  return endpoint.readOnly === undefined ? endpoint.method !== 'GET' : !endpoint.readOnly;
+}
+
+/**
+ * Outcome of guarding a tool call
+ * - execute: run the tool with the given arguments (confirmation token removed)
+ * - confirm: return the confirmation request to the client without running the tool
+ */
+export type WriteGuardDecision =
+  | { action: 'execute'; args: ToolArguments }
+  | { action: 'confirm'; result: ToolExecutionResult };
+
+interface PendingConfirmation {
+  fingerprint: string;
+  /** MCP session the token was issued to (undefined for stdio) */
+  sessionId?: string;
+  expiresAt: number;
+}
+
+type ToolDefinition = { name: string; inputSchema: { properties: Record<string, unknown> } };
+
+export class WriteGuard {
+  private pending: Map<string, PendingConfirmation> = new Map();
+  private logger: Logger;
+
+  constructor(private readonly isMutatingTool: (toolName: string) => boolean) {
+    this.logger = Logger.getChildLogger('WriteGuard');
+  }
+
+  /**
+   * Check whether a tool modifies data
+   */
+  isMutating(toolName: string): boolean {
+    return this.isMutatingTool(toolName);
+  }
+
+  /**
+   * Check whether a tool can run on at least one configured instance
+   */
+  isAvailable(toolName: string, config: SFCCConfig): boolean {
+    if (!this.isMutating(toolName)) {
+      return true;
+    }
+    return ConfigurationFactory.getInstanceNames(config)
+      .some(name => !ConfigurationFactory.resolveInstance(config, name).readOnly);
+  }
+
+  /**
+   * Remove mutating tools that no instance may run and add the confirmation token
+   * argument to the remaining mutating tools
+   */
+  filterToolDefinitions<T extends ToolDefinition>(tools: T[], config: SFCCConfig): T[] {
+    return tools
+      .filter(tool => this.isAvailable(tool.name, config))
+      .map(tool => (this.isMutating(tool.name) ? this.withConfirmationArgument(tool) : tool));
+  }
+
+  /**
+   * Guard a tool call
+   *
+   * @param sessionId - MCP session of the call (undefined for stdio)
+   * @throws HandlerError when the target instance is read-only or the confirmation token is invalid
+   */
+  check(toolName: string, args: ToolArguments, config: SFCCConfig, sessionId?: string): WriteGuardDecision {
+    if (!this.isMutating(toolName)) {
+      return { action: 'execute', args };
+    }
+
+    const instance = ConfigurationFactory.resolveInstance(config, args.instance as string | undefined);
+    const instanceName = instance.instanceName ?? ConfigurationFactory.getInstanceNames(config)[0];
+    if (instance.readOnly) {
+      throw new HandlerError(
+        `Tool ${toolName} modifies data and is disabled because instance "${instanceName}" is read-only`,
+        toolName,
+        'READ_ONLY',
+        { instance: instanceName },
+      );
+    }
+
+    const token = args[CONFIRMATION_TOKEN_ARGUMENT];
+    const toolArgs = { ...args };
+    delete toolArgs[CONFIRMATION_TOKEN_ARGUMENT];
+    const fingerprint = this.fingerprint(toolName, instanceName, toolArgs);
+
+    if (token === undefined) {
+      return {
+        action: 'confirm',
+        result: this.requestConfirmation(toolName, instanceName, instance, toolArgs, fingerprint, sessionId),
+      };
+    }
+
+    this.consumeToken(toolName, String(token), fingerprint, sessionId);
+    this.logger.debug(`Confirmed ${toolName} on instance ${instanceName}`);
+    return { action: 'execute', args: toolArgs };
+  }
+
+  private requestConfirmation(
+    toolName: string,
+    instanceName: string,
+    instance: SFCCConfig,
+    toolArgs: ToolArguments,
+    fingerprint: string,
+    sessionId: string | undefined,
+  ): ToolExecutionResult {
+    this.pruneExpired();
+
+    const confirmationToken = randomUUID();
+    const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+    this.pending.set(confirmationToken, { fingerprint, sessionId, expiresAt });
+    this.logger.debug(`Issued confirmation token for ${toolName} on instance ${instanceName}`);
+
+    const confirmation = {
+      confirmationRequired: true,
+      tool: toolName,
+      instance: instanceName,
+      hostname: instance.hostname,
+      arguments: toolArgs,
+      confirmationToken,
+      expiresAt: new Date(expiresAt).toISOString(),
+      message: `${toolName} modifies data on instance "${instanceName}" and has NOT been executed. ` +
+        `Review the arguments and call ${toolName} again with the same arguments and ` +
+        `${CONFIRMATION_TOKEN_ARGUMENT} to proceed.`,
+    };
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(confirmation, null, 2) }],
+      isError: false,
+    };
+  }
+
+  /**
+   * Discard the pending confirmations issued to a closed session
+   */
+  clearSession(sessionId: string): void {
+    for (const [token, pending] of this.pending) {
+      if (pending.sessionId === sessionId) {
+        this.pending.delete(token);
+      }
+    }
+  }
+
+  private consumeToken(toolName: string, token: string, fingerprint: string, sessionId: string | undefined): void {
+    const pending = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!pending || pending.expiresAt <= Date.now()) {
+      throw new HandlerError(
+        `Invalid or expired confirmation token for ${toolName}. Call the tool without ${CONFIRMATION_TOKEN_ARGUMENT} ` +
+        'to request a new one.',
+        toolName,
+        'INVALID_CONFIRMATION_TOKEN',
+      );
+    }
+
+    if (pending.sessionId !== sessionId) {
+      throw new HandlerError(
+        `Confirmation token for ${toolName} was issued to another session`,
+        toolName,
+        'INVALID_CONFIRMATION_TOKEN',
+      );
+    }
+
+    if (pending.fingerprint !== fingerprint) {
+      throw new HandlerError(
+        `Confirmation token for ${toolName} was issued for different arguments or a different instance`,
+        toolName,
+        'INVALID_CONFIRMATION_TOKEN',
+      );
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+
+  /**
+   * Build a stable identifier for a tool call (argument order does not matter)
+   */
+  private fingerprint(toolName: string, instanceName: string, args: ToolArguments): string {
+    const rest = { ...args };
+    delete rest.instance;
+    return JSON.stringify([toolName, instanceName, this.sortKeys(rest)]);
+  }
+
+  private sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.sortKeys(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).sort().map(key => [key, this.sortKeys((value as Record<string, unknown>)[key])]),
+      );
+    }
+    return value;
+  }
+
+  private withConfirmationArgument<T extends ToolDefinition>(tool: T): T {
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          [CONFIRMATION_TOKEN_ARGUMENT]: {
+            type: 'string',
+            description: 'Token returned by a previous call of this tool. Mutating tools only execute ' +
+              'when called a second time with the same arguments and this token.',
+          },
+        },
+      },
+    };
+  }
+}
@@ -14,6 +14,9 @@ export { SFCCLogClient } from './clients/log-client.js';
 export { SFCCDocumentationClient } from './clients/docs-client.js';
 export { OCAPIClient } from './clients/ocapi-client.js';
 export { TokenManager } from './clients/base/oauth-token.js';
+export { TokenStore } from './clients/base/token-store.js';
+export { registerSecretProvider } from './config/secret-providers.js';
+export type { SecretProvider } from './config/secret-providers.js';
 export type { SFCCConfig, LogLevel, LogFileInfo, LogSummary, OCAPIConfig, OAuthToken, OAuthTokenResponse } from './types/types.js';
 
 // For direct execution, delegate to main.ts
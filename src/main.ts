@@ -7,35 +7,22 @@
 import { SFCCDevServer } from './core/server.js';
 import { ConfigurationFactory } from './config/configuration-factory.js';
 import { Logger } from './utils/logger.js';
+import { EndpointLoader } from './utils/endpoint-loader.js';
+import { ConnectionChecker, formatConnectionReport } from './clients/connection-checker.js';
+import { TokenManager } from './clients/base/oauth-token.js';
+import { TokenStore } from './clients/base/token-store.js';
+import {
+  CommandLineError,
+  formatConfigReport,
+  formatHelp,
+  parseCommandLineArgs,
+  resolveStartupSettings,
+  SERVER_VERSION,
+} from './config/command-line.js';
+import { SFCCConfig } from './types/types.js';
 import { existsSync } from 'fs';
 import { resolve } from 'path';
 
-/**
- * コマンドライン引数を解析して設定オプションを抽出
- */
-function parseCommandLineArgs(): { dwJsonPath?: string; debug?: boolean } {
-  const args = process.argv.slice(2);
-  const options: { dwJsonPath?: string; debug?: boolean } = {};
-
-  for (let i = 0; i < args.length; i++) {
-    const arg = args[i];
-
-    if (arg === '--dw-json' && i + 1 < args.length) {
-      options.dwJsonPath = args[i + 1];
-      i++; // Skip the next argument since we consumed it
-    } else if (arg === '--debug' && i + 1 < args.length) {
-      const debugValue = args[i + 1].toLowerCase();
-      options.debug = debugValue === 'true' || debugValue === '1' || debugValue === 'yes';
-      i++; // Skip the next argument since we consumed it
-    } else if (arg === '--debug') {
-      // 値なしの --debug をデフォルトで true に設定
-      options.debug = true;
-    }
-  }
-
-  return options;
-}
-
 /**
  * 一般的な場所でdw.jsonファイルを検索
  */
@@ -58,13 +45,48 @@ function findDwJsonFile(): string | undefined {
   return undefined;
 }
 
+/**
+ * 設定済みの各インスタンスに対して接続チェックを実行し、結果を標準出力に表示
+ *
+ * @returns すべてのチェックが失敗しなかった場合はtrue
+ */
+async function runConnectionCheck(config: SFCCConfig): Promise<boolean> {
+  const instances = ConfigurationFactory.getInstanceNames(config)
+    .map(name => ConfigurationFactory.resolveInstance(config, name))
+    .filter(instance => instance.hostname);
+
+  if (instances.length === 0) {
+    process.stdout.write('No SFCC instance configured - provide a hostname and credentials with dw.json or environment variables\n');
+    return false;
+  }
+
+  let ok = true;
+  for (const instance of instances) {
+    const report = await new ConnectionChecker(instance).checkAll();
+    process.stdout.write(`${formatConnectionReport(report)}\n\n`);
+    ok = ok && report.ok;
+  }
+  return ok;
+}
+
 /**
  * メインアプリケーションエントリーポイント
  */
 async function main(): Promise<void> {
   try {
-    const options = parseCommandLineArgs();
-    const debug = options.debug ?? false;
+    const options = parseCommandLineArgs(process.argv.slice(2));
+    if (options.help) {
+      process.stdout.write(formatHelp());
+      return;
+    }
+    if (options.version) {
+      process.stdout.write(`${SERVER_VERSION}\n`);
+      return;
+    }
+
+    // コマンドライン > 環境変数の優先順位で設定値を統合（dw.jsonはファクトリーで上書きされる）
+    const settings = resolveStartupSettings(options, process.env);
+    const debug = settings.debug;
 
     // デバッグ設定でグローバルロガーを初期化
     Logger.initialize('SFCC-MCP-Server', true, debug);
@@ -74,20 +96,37 @@ async function main(): Promise<void> {
     if (debug) {
       logger.log('Debug mode enabled');
     }
+    if (settings.configOptions.readOnly) {
+      logger.log('Read-only mode enabled - tools that modify SFCC data are disabled');
+    }
+
+    // OAuthトークンを暗号化してディスクに保存（権限が緩いファイルは使用せずメモリのみで継続）
+    if (options.tokenCache) {
+      try {
+        TokenManager.getInstance().enablePersistence(new TokenStore(options.tokenCache));
+        logger.log(`OAuth token cache enabled: ${options.tokenCache}`);
+      } catch (error) {
+        logger.warn(`OAuth token cache disabled: ${error instanceof Error ? error.message : error}`);
+      }
+    }
 
     // 明示的に指定されていない場合はdw.jsonを検索
-    const dwJsonPath = options.dwJsonPath ?? findDwJsonFile();
+    if (!settings.configOptions.dwJsonPath) {
+      settings.configOptions.dwJsonPath = findDwJsonFile();
+      if (settings.configOptions.dwJsonPath) {
+        settings.configOptions.dwJsonDiscovered = true;
+        settings.sources.set('dwJsonPath', 'auto-detected');
+      }
+    }
 
     // ファクトリーを使用して設定を作成
-    const config = ConfigurationFactory.create({
-      dwJsonPath,
-      // フォールバックとして環境変数をサポート
-      hostname: process.env.SFCC_HOSTNAME,
-      username: process.env.SFCC_USERNAME,
-      password: process.env.SFCC_PASSWORD,
-      clientId: process.env.SFCC_CLIENT_ID,
-      clientSecret: process.env.SFCC_CLIENT_SECRET,
-    });
+    const config = ConfigurationFactory.create(settings.configOptions);
+
+    // --print-config: 有効な設定と各値の指定元を表示して終了（機密情報は伏せる）
+    if (options.printConfig) {
+      process.stdout.write(formatConfigReport(config, settings));
+      process.exit(0);
+    }
 
     // 設定サマリーをログ出力（機密データを除く）
     const capabilities = ConfigurationFactory.getCapabilities(config);
@@ -97,15 +136,41 @@ async function main(): Promise<void> {
       logger.log('To access SFCC logs and OCAPI, provide hostname and credentials');
     } else {
       logger.log(`Configuration loaded - Hostname: ${config.hostname}`);
-      logger.log(`Available features: Logs=${capabilities.canAccessLogs}, OCAPI=${capabilities.canAccessOCAPI}, WebDAV=${capabilities.canAccessWebDAV}`);
+      if (config.instances) {
+        logger.log(`Configured instances: ${ConfigurationFactory.getInstanceNames(config).join(', ')} (default: ${config.instanceName})`);
+      }
+      logger.log(`Available features: Logs=${capabilities.canAccessLogs}, OCAPI=${capabilities.canAccessOCAPI}, SCAPI=${capabilities.canAccessSCAPI}, ShopperAPI=${capabilities.canAccessShopperAPI}, WebDAV=${capabilities.canAccessWebDAV}`);
+    }
+
+    // --check: サーバーを起動せずに各インスタンスへの接続を確認して終了
+    if (options.check) {
+      process.exit(await runConnectionCheck(config) ? 0 : 1);
+    }
+
+    // ユーザー定義のエンドポイントパックをレジストリにマージ（不正なパックは起動エラー）
+    if (options.endpointPacks) {
+      const loaded = EndpointLoader.getInstance().addEndpointPacks(options.endpointPacks);
+      logger.log(`Loaded ${loaded} endpoints from endpoint packs: ${options.endpointPacks.join(', ')}`);
     }
 
     // サーバーを作成して起動
     const server = new SFCCDevServer(config);
-    await server.run();
+    await server.run({
+      transport: options.transport,
+      port: options.port,
+      host: options.host,
+      authToken: config.httpAuthToken,
+    });
   } catch (error) {
+    // 使い方の誤りはログファイルではなく端末に表示
+    if (error instanceof CommandLineError) {
+      process.stderr.write(`${error.message}\n`);
+      process.exit(2);
+    }
+
     const logger = Logger.getInstance();
     logger.error('Failed to start SFCC Development MCP Server:', error);
+    process.stderr.write(`Failed to start SFCC Development MCP Server: ${error instanceof Error ? error.message : error}\n`);
 
     if (error instanceof Error) {
       if (error.message.includes('not found')) {
@@ -113,6 +178,7 @@ async function main(): Promise<void> {
         logger.log('1. Create a dw.json file with your SFCC credentials');
         logger.log('2. Use --dw-json /path/to/dw.json');
         logger.log('3. Set environment variables: SFCC_HOSTNAME, SFCC_USERNAME, SFCC_PASSWORD');
+        logger.log('4. Pass the values as options: --hostname, --username, --password (see --help)');
       }
     }
 
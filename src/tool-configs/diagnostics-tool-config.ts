@@ -0,0 +1,124 @@
+import { GenericToolSpec, ToolExecutionContext } from '../core/handlers/base-handler.js';
+import { ToolArguments } from '../core/handlers/base-handler.js';
+import { isMutatingEndpoint } from '../core/write-guard.js';
+import {
+  OCAPIAccessDiagnosticsClient,
+  OCAPIAccessProbe,
+  OCAPIAccessProbeOptions,
+  PROBE_PLACEHOLDER_ID,
+} from '../clients/ocapi/access-diagnostics-client.js';
+import { OCAPI_CLIENT_RESOURCES, OCAPIClientResource } from '../clients/ocapi/resources.js';
+import { ConnectionChecker } from '../clients/connection-checker.js';
+import { ClientFactory } from '../core/handlers/client-factory.js';
+import { Endpoint } from '../types/types.js';
+
+export const DIAGNOSTICS_TOOL_NAMES = [
+  'diagnose_ocapi_access',
+  'check_connection',
+] as const;
+
+export type DiagnosticsToolName = typeof DIAGNOSTICS_TOOL_NAMES[number];
+export const DIAGNOSTICS_TOOL_NAMES_SET = new Set<DiagnosticsToolName>(DIAGNOSTICS_TOOL_NAMES);
+
+/** Body of POST search probes without a default body */
+const MATCH_ALL_SEARCH = { query: { match_all_query: {} } };
+
+/**
+ * Collect the OCAPI resource methods called by the Data API endpoints and the OCAPI clients
+ * Methods used by several tools are probed once
+ *
+ * @param endpoints - Data API endpoints (SCAPI endpoints are ignored)
+ * @param siteId - Site ID sent as the site_id query parameter of read probes
+ * @param clientResources - Resources called by the specialized OCAPI clients
+ */
+export function collectOCAPIAccessProbes(
+  endpoints: Endpoint[],
+  siteId?: string,
+  clientResources: OCAPIClientResource[] = OCAPI_CLIENT_RESOURCES,
+): OCAPIAccessProbe[] {
+  const probes = new Map<string, OCAPIAccessProbe>();
+  const add = (probe: OCAPIAccessProbe) => {
+    const key = `${probe.method} ${probe.path.replace(/\{\w+\}/g, '*')}`;
+    const existing = probes.get(key);
+    if (existing) {
+      existing.usedBy.push(...probe.usedBy);
+    } else {
+      probes.set(key, probe);
+    }
+  };
+
+  for (const endpoint of endpoints.filter((item) => item.apiType === 'ocapi')) {
+    const readOnly = !isMutatingEndpoint(endpoint);
+    const names = new Set(endpoint.parameters.map((param) => param.name));
+    const queryParams: Record<string, string> = {};
+    if (readOnly && names.has('site_id') && !endpoint.path.includes('{site_id}')) {
+      queryParams.site_id = siteId ?? PROBE_PLACEHOLDER_ID;
+    }
+    if (endpoint.method === 'GET' && names.has('count')) {
+      queryParams.count = '1';
+    }
+
+    add({
+      path: endpoint.path,
+      method: endpoint.method.toLowerCase(),
+      readOnly,
+      usedBy: [endpoint.toolName],
+      queryParams,
+      body: endpoint.method === 'POST' && readOnly
+        ? { ...(endpoint.defaultBody ?? MATCH_ALL_SEARCH), count: 1 }
+        : undefined,
+    });
+  }
+
+  for (const resource of clientResources) {
+    for (const method of resource.methods) {
+      const readOnly = method === 'get' || (resource.readOnly ?? false);
+      add({
+        path: resource.path,
+        method,
+        readOnly,
+        usedBy: [resource.client],
+        body: method === 'post' && readOnly ? { ...MATCH_ALL_SEARCH, count: 1 } : undefined,
+      });
+    }
+  }
+
+  return [...probes.values()];
+}
+
+/**
+ * Configuration for diagnostics tools
+ * Maps each tool to its validation, execution, and messaging logic
+ */
+export const DIAGNOSTICS_TOOL_CONFIG: Record<DiagnosticsToolName, GenericToolSpec<ToolArguments, any>> = {
+  diagnose_ocapi_access: {
+    exec: async (_args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.accessDiagnosticsClient as OCAPIAccessDiagnosticsClient | null;
+      if (!client) {
+        throw new Error(ClientFactory.getClientRequiredError('OCAPI'));
+      }
+      const options = context.probeOptions as OCAPIAccessProbeOptions;
+      const probes = collectOCAPIAccessProbes(context.endpoints as Endpoint[], options.siteId);
+      const report = await client.diagnoseAccess(probes, options);
+
+      return {
+        ...report,
+        nextSteps: report.settings
+          ? 'Add the resources in "settings" to the client in Business Manager > Administration > Site Development > ' +
+            'Open Commerce API Settings (type "Data", context "Global"). Existing resources of the client must be kept.'
+          : 'No denied resources were found.',
+      };
+    },
+    logMessage: () => 'Diagnose OCAPI access',
+  },
+  check_connection: {
+    exec: async (_args: ToolArguments, context: ToolExecutionContext) => {
+      const checker = context.connectionChecker as ConnectionChecker | null;
+      if (!checker) {
+        throw new Error('No SFCC instance configured - set hostname and credentials in dw.json');
+      }
+      return checker.checkAll();
+    },
+    logMessage: () => 'Check connection',
+  },
+};
@@ -0,0 +1,57 @@
+import { GenericToolSpec, ToolExecutionContext } from '../core/handlers/base-handler.js';
+import { ToolArguments } from '../core/handlers/base-handler.js';
+import { ConfigurationFactory } from '../config/configuration-factory.js';
+import { TokenManager } from '../clients/base/oauth-token.js';
+
+export const INSTANCE_TOOL_NAMES = [
+  'list_instances',
+  'clear_tokens',
+] as const;
+
+export type InstanceToolName = typeof INSTANCE_TOOL_NAMES[number];
+export const INSTANCE_TOOL_NAMES_SET = new Set<InstanceToolName>(INSTANCE_TOOL_NAMES);
+
+/**
+ * Configuration for instance management and maintenance tools
+ * Maps each tool to its validation, execution, and messaging logic
+ */
+export const INSTANCE_TOOL_CONFIG: Record<InstanceToolName, GenericToolSpec<ToolArguments, any>> = {
+  list_instances: {
+    exec: async (_args: ToolArguments, context: ToolExecutionContext) => {
+      const { config } = context.handlerContext;
+      const [defaultName, ...names] = ConfigurationFactory.getInstanceNames(config);
+
+      // Only expose non-sensitive connection details
+      return [defaultName, ...names].map(name => {
+        const instance = ConfigurationFactory.resolveInstance(config, name);
+        const capabilities = ConfigurationFactory.getCapabilities(instance);
+        return {
+          name,
+          hostname: instance.hostname ?? null,
+          siteId: instance.siteId ?? null,
+          isDefault: name === defaultName,
+          capabilities: {
+            logs: capabilities.canAccessLogs,
+            ocapi: capabilities.canAccessOCAPI,
+            scapi: capabilities.canAccessSCAPI,
+            shopper: capabilities.canAccessShopperAPI,
+          },
+        };
+      });
+    },
+    logMessage: () => 'List configured instances',
+  },
+  clear_tokens: {
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const tokenManager = TokenManager.getInstance();
+      const tokenCache = tokenManager.getPersistencePath();
+      if (!args.instance) {
+        return { cleared: tokenManager.clearTokens(), hostname: 'all', tokenCache };
+      }
+
+      const { hostname } = ConfigurationFactory.resolveInstance(context.handlerContext.config, args.instance as string);
+      return { cleared: hostname ? tokenManager.clearTokens(hostname) : 0, hostname: hostname ?? null, tokenCache };
+    },
+    logMessage: (args) => `Clear OAuth tokens ${args.instance ? `of instance ${args.instance}` : 'of all instances'}`,
+  },
+};
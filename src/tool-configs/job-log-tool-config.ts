@@ -1,6 +1,6 @@
 import { GenericToolSpec, ToolExecutionContext } from '../core/handlers/base-handler.js';
 import { ToolArguments } from '../core/handlers/base-handler.js';
-import { LogToolValidators } from '../utils/log-tool-utils.js';
+import { LogToolValidators, LogToolUtils } from '../utils/log-tool-utils.js';
 import { ValidationHelpers, CommonValidations } from '../core/handlers/validation-helpers.js';
 import { JobLogToolName, getLimit } from '../utils/log-tool-constants.js';
 import { JobLogValidators, JobLogFormatters } from '../utils/job-log-utils.js';
@@ -74,7 +74,7 @@ export const JOB_LOG_TOOL_CONFIG: Record<JobLogToolName, GenericToolSpec<ToolArg
       limit: getLimit(args.limit as number, 'jobSearch'),
     }),
     validate: (args: ToolArguments, toolName: string) => {
-      ValidationHelpers.validateArguments(args, CommonValidations.requiredString('pattern'), toolName);
+      LogToolValidators.validateSearchArgs(args, toolName);
       JobLogValidators.validateJobLogLevel(args.level as string, toolName);
       LogToolValidators.validateLimit(args.limit as number, toolName);
       // Validate optional jobName parameter - must be string if provided
@@ -90,7 +90,7 @@ export const JOB_LOG_TOOL_CONFIG: Record<JobLogToolName, GenericToolSpec<ToolArg
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
       return client.searchJobLogs(
-        args.pattern as string,
+        LogToolUtils.toSearchPattern(args),
         args.level as any,
         args.limit as number,
         args.jobName as string,
@@ -98,6 +98,7 @@ export const JOB_LOG_TOOL_CONFIG: Record<JobLogToolName, GenericToolSpec<ToolArg
     },
     logMessage: (args: ToolArguments) => JobLogFormatters.formatJobLogMessage('Searching job logs', {
       pattern: args.pattern as string,
+      query: args.query as string,
       level: args.level as string,
       limit: args.limit as number,
       jobName: args.jobName as string,
@@ -1,9 +1,105 @@
 import { GenericToolSpec, ToolExecutionContext } from '../core/handlers/base-handler.js';
 import { ToolArguments } from '../core/handlers/base-handler.js';
-import { LogToolValidators, LogMessageFormatter } from '../utils/log-tool-utils.js';
+import { LogToolValidators, LogMessageFormatter, LogToolUtils } from '../utils/log-tool-utils.js';
 import { ValidationHelpers, CommonValidations } from '../core/handlers/validation-helpers.js';
 import { LogToolName, getLimit } from '../utils/log-tool-constants.js';
 import { SFCCLogClient } from '../clients/log-client.js';
+import { LOG_CONSTANTS, LogTailCursorStore } from '../clients/logs/index.js';
+import type { LogCategory, LogLevel, LogTailPoll, TailedLogEntry } from '../clients/logs/index.js';
+
+/** Logging notification level for each log level */
+const NOTIFICATION_LEVELS: Record<LogLevel, 'debug' | 'info' | 'warning' | 'error'> = {
+  error: 'error',
+  warn: 'warning',
+  info: 'info',
+  debug: 'debug',
+};
+
+/**
+ * Wait before the next poll, returning early when the tool call is cancelled
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+/**
+ * Start a tail or return the entries appended since the previous call with the same cursor
+ *
+ * With waitSeconds, polls until new entries arrive, the time is up or the call is cancelled,
+ * reporting progress after each empty poll. New entries are also sent as logging notifications.
+ */
+async function tailLogs(args: ToolArguments, context: ToolExecutionContext) {
+  const client = context.logClient as SFCCLogClient;
+  const cursors = context.tailCursors as LogTailCursorStore;
+  const { notifier } = context;
+  const sessionId = notifier?.sessionId;
+  const limit = args.limit as number;
+  const waitSeconds = args.waitSeconds as number;
+
+  if (!args.cursor) {
+    const levels = (args.levels as LogLevel[] | undefined) ?? [...LOG_CONSTANTS.LOG_LEVELS];
+    const poll = await client.tailLogs({ levels, limit });
+    return {
+      cursor: cursors.create(sessionId, client, levels, poll.state),
+      levels,
+      files: poll.files,
+      entries: [],
+      message: 'Started following the log files at their current end. Reproduce the issue, then call tail_logs ' +
+        'with this cursor (and optionally waitSeconds) to get the entries written since this call.',
+    };
+  }
+
+  const cursor = cursors.get(args.cursor as string, sessionId, client);
+  const deadline = Date.now() + waitSeconds * 1000;
+  const entries: TailedLogEntry[] = [];
+  let poll: LogTailPoll;
+  let droppedEntries = 0;
+  let skippedBytes = 0;
+  let polls = 0;
+  const options = { levels: cursor.levels, pattern: args.pattern as string | undefined, limit };
+
+  for (;;) {
+    poll = await client.tailLogs(options, cursor.state);
+    cursor.state = poll.state;
+    polls++;
+    entries.push(...poll.entries);
+    droppedEntries += poll.droppedEntries;
+    skippedBytes += poll.skippedBytes;
+
+    for (const entry of poll.entries) {
+      await notifier?.log(NOTIFICATION_LEVELS[entry.level], `[${entry.file}] ${entry.entry}`);
+    }
+
+    const remaining = deadline - Date.now();
+    if (entries.length > 0 || remaining <= 0 || notifier?.signal?.aborted) {
+      break;
+    }
+    await notifier?.progress(
+      Math.min(waitSeconds, Math.round((waitSeconds * 1000 - remaining) / 1000)),
+      waitSeconds,
+      `No new log entries after ${polls} poll(s), waiting...`,
+    );
+    await delay(Math.min(LOG_CONSTANTS.TAIL_POLL_INTERVAL_MS, remaining), notifier?.signal);
+  }
+
+  return {
+    cursor: cursor.id,
+    levels: cursor.levels,
+    files: poll.files,
+    entries,
+    ...(droppedEntries > 0 && { droppedEntries }),
+    ...(skippedBytes > 0 && { skippedBytes }),
+    polls,
+  };
+}
 
 /**
  * Configuration for standard log tools
@@ -14,56 +110,129 @@ export const LOG_TOOL_CONFIG: Record<LogToolName, GenericToolSpec<ToolArguments,
     defaults: (args: ToolArguments) => ({
       limit: getLimit(args.limit as number, 'latest'),
     }),
-    validate: (args: ToolArguments) => LogToolValidators.validateLimit(args.limit as number, 'get_latest_error'),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'get_latest_error');
+      LogToolValidators.validateTimeWindow(args, 'get_latest_error');
+      LogToolValidators.validateEntryFilter(args, 'get_latest_error');
+    },
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
-      return client.getLatestLogs('error', args.limit as number, args.date as string);
+      const window = LogToolUtils.toTimeWindow(args, 'get_latest_error');
+      return client.getLatestLogs(
+        'error',
+        args.limit as number,
+        args.date as string,
+        window,
+        LogToolUtils.toEntryFilter(args),
+      );
     },
-    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs('error', args.limit as number, args.date as string),
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs(
+      'error',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
   },
 
   get_latest_warn: {
     defaults: (args: ToolArguments) => ({
       limit: getLimit(args.limit as number, 'latest'),
     }),
-    validate: (args: ToolArguments) => LogToolValidators.validateLimit(args.limit as number, 'get_latest_warn'),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'get_latest_warn');
+      LogToolValidators.validateTimeWindow(args, 'get_latest_warn');
+      LogToolValidators.validateEntryFilter(args, 'get_latest_warn');
+    },
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
-      return client.getLatestLogs('warn', args.limit as number, args.date as string);
+      const window = LogToolUtils.toTimeWindow(args, 'get_latest_warn');
+      return client.getLatestLogs(
+        'warn',
+        args.limit as number,
+        args.date as string,
+        window,
+        LogToolUtils.toEntryFilter(args),
+      );
     },
-    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs('warn', args.limit as number, args.date as string),
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs(
+      'warn',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
   },
 
   get_latest_info: {
     defaults: (args: ToolArguments) => ({
       limit: getLimit(args.limit as number, 'latest'),
     }),
-    validate: (args: ToolArguments) => LogToolValidators.validateLimit(args.limit as number, 'get_latest_info'),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'get_latest_info');
+      LogToolValidators.validateTimeWindow(args, 'get_latest_info');
+      LogToolValidators.validateEntryFilter(args, 'get_latest_info');
+    },
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
-      return client.getLatestLogs('info', args.limit as number, args.date as string);
+      const window = LogToolUtils.toTimeWindow(args, 'get_latest_info');
+      return client.getLatestLogs(
+        'info',
+        args.limit as number,
+        args.date as string,
+        window,
+        LogToolUtils.toEntryFilter(args),
+      );
     },
-    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs('info', args.limit as number, args.date as string),
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs(
+      'info',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
   },
 
   get_latest_debug: {
     defaults: (args: ToolArguments) => ({
       limit: getLimit(args.limit as number, 'latest'),
     }),
-    validate: (args: ToolArguments) => LogToolValidators.validateLimit(args.limit as number, 'get_latest_debug'),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'get_latest_debug');
+      LogToolValidators.validateTimeWindow(args, 'get_latest_debug');
+      LogToolValidators.validateEntryFilter(args, 'get_latest_debug');
+    },
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
-      return client.getLatestLogs('debug', args.limit as number, args.date as string);
+      const window = LogToolUtils.toTimeWindow(args, 'get_latest_debug');
+      return client.getLatestLogs(
+        'debug',
+        args.limit as number,
+        args.date as string,
+        window,
+        LogToolUtils.toEntryFilter(args),
+      );
     },
-    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs('debug', args.limit as number, args.date as string),
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs(
+      'debug',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
   },
 
   summarize_logs: {
+    validate: (args: ToolArguments) => LogToolValidators.validateTimeWindow(args, 'summarize_logs'),
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
-      return client.summarizeLogs(args.date as string);
+      return client.summarizeLogs(args.date as string, LogToolUtils.toTimeWindow(args, 'summarize_logs'));
     },
-    logMessage: (args: ToolArguments) => LogMessageFormatter.formatSummarizeLogs(args.date as string),
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatSummarizeLogs(
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
   },
 
   search_logs: {
@@ -71,23 +240,27 @@ export const LOG_TOOL_CONFIG: Record<LogToolName, GenericToolSpec<ToolArguments,
       limit: getLimit(args.limit as number, 'search'),
     }),
     validate: (args: ToolArguments, toolName: string) => {
-      ValidationHelpers.validateArguments(args, CommonValidations.requiredString('pattern'), toolName);
+      LogToolValidators.validateSearchArgs(args, toolName);
       LogToolValidators.validateLimit(args.limit as number, toolName);
       if (args.logLevel) {
         LogToolValidators.validateLogLevel(args.logLevel as string, toolName);
       }
+      LogToolValidators.validateTimeWindow(args, toolName);
+      LogToolValidators.validateEntryFilter(args, toolName);
     },
     exec: async (args: ToolArguments, context: ToolExecutionContext) => {
       const client = context.logClient as SFCCLogClient;
-      return client.searchLogs(
-        args.pattern as string,
-        args.logLevel as any,
-        args.limit as number,
-        args.date as string,
-      );
+      return client.searchLogs({
+        pattern: LogToolUtils.toSearchPattern(args),
+        logLevel: args.logLevel as any,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'search_logs'),
+        filter: LogToolUtils.toEntryFilter(args),
+      });
     },
     logMessage: (args: ToolArguments) => LogMessageFormatter.formatSearchLogs(
-      args.pattern as string,
+      (args.query ?? args.pattern) as string,
       args.logLevel as string,
       args.limit as number,
       args.date as string,
@@ -122,4 +295,317 @@ export const LOG_TOOL_CONFIG: Record<LogToolName, GenericToolSpec<ToolArguments,
       args.tailOnly as boolean,
     ),
   },
+
+  tail_logs: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'tail'),
+      waitSeconds: args.waitSeconds ?? 0,
+    }),
+    validate: (args: ToolArguments, toolName: string) => {
+      LogToolValidators.validateLimit(args.limit as number, toolName);
+      LogToolValidators.validateWaitSeconds(args.waitSeconds as number, LOG_CONSTANTS.MAX_TAIL_WAIT_SECONDS, toolName);
+      LogToolValidators.validateLogLevels(args.levels, toolName);
+    },
+    exec: tailLogs,
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatTailLogs(
+      args.cursor as string,
+      args.levels as string[],
+      args.pattern as string,
+      args.waitSeconds as number,
+    ),
+  },
+
+  get_latest_logs: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'latest'),
+    }),
+    validate: (args: ToolArguments) => {
+      ValidationHelpers.validateArguments(args, CommonValidations.requiredString('category'), 'get_latest_logs');
+      LogToolValidators.validateLogCategory(args.category as string, 'get_latest_logs');
+      LogToolValidators.validateLimit(args.limit as number, 'get_latest_logs');
+      LogToolValidators.validateTimeWindow(args, 'get_latest_logs');
+      // category selects the log family here, so only the cartridge filter applies
+      LogToolValidators.validateEntryFilter(args, 'get_latest_logs', ['cartridge']);
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      const window = LogToolUtils.toTimeWindow(args, 'get_latest_logs');
+      return client.getLatestCategoryLogs(
+        args.category as LogCategory,
+        args.limit as number,
+        args.date as string,
+        window,
+        LogToolUtils.toEntryFilter(args, ['cartridge']),
+      );
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatLatestLogs(
+      args.category as string,
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  get_quota_violations: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'categorySummary'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'get_quota_violations');
+      LogToolValidators.validateTimeWindow(args, 'get_quota_violations');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      const window = LogToolUtils.toTimeWindow(args, 'get_quota_violations');
+      return client.getQuotaViolations(args.limit as number, args.date as string, window);
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatCategoryAnalysis(
+      'quota violations',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  get_api_deprecations: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'categorySummary'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'get_api_deprecations');
+      LogToolValidators.validateTimeWindow(args, 'get_api_deprecations');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      const window = LogToolUtils.toTimeWindow(args, 'get_api_deprecations');
+      return client.getApiDeprecations(args.limit as number, args.date as string, window);
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatCategoryAnalysis(
+      'deprecated API usage',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  get_service_log_entries: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'serviceEntries'),
+    }),
+    validate: (args: ToolArguments) => {
+      if (args.serviceName !== undefined && typeof args.serviceName !== 'string') {
+        throw new Error('serviceName must be a string for get_service_log_entries');
+      }
+      LogToolValidators.validateEntryLevel(args.level, 'get_service_log_entries');
+      LogToolValidators.validateLimit(args.limit as number, 'get_service_log_entries');
+      LogToolValidators.validateTimeWindow(args, 'get_service_log_entries');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.getServiceLogEntries({
+        serviceName: args.serviceName as string | undefined,
+        level: args.level as LogLevel | undefined,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'get_service_log_entries'),
+      });
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatServiceLogEntries(
+      args.serviceName as string | undefined,
+      args.level as string | undefined,
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  get_security_log_entries: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'securityEntries'),
+    }),
+    validate: (args: ToolArguments) => {
+      if (args.category !== undefined && typeof args.category !== 'string') {
+        throw new Error('category must be a string for get_security_log_entries');
+      }
+      LogToolValidators.validateEntryLevel(args.level, 'get_security_log_entries');
+      LogToolValidators.validateLimit(args.limit as number, 'get_security_log_entries');
+      LogToolValidators.validateTimeWindow(args, 'get_security_log_entries');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.getSecurityLogEntries({
+        category: args.category as string | undefined,
+        level: args.level as LogLevel | undefined,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'get_security_log_entries'),
+      });
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatSecurityLogEntries(
+      args.category as string | undefined,
+      args.level as string | undefined,
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  get_sql_log_entries: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'sqlEntries'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateMinDuration(args.minDurationMs, 'get_sql_log_entries');
+      LogToolValidators.validateEntryLevel(args.level, 'get_sql_log_entries');
+      LogToolValidators.validateLimit(args.limit as number, 'get_sql_log_entries');
+      LogToolValidators.validateTimeWindow(args, 'get_sql_log_entries');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.getSqlLogEntries({
+        minDurationMs: args.minDurationMs as number | undefined,
+        level: args.level as LogLevel | undefined,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'get_sql_log_entries'),
+      });
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatSqlLogEntries(
+      args.minDurationMs as number | undefined,
+      args.level as string | undefined,
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  list_log_categories: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'loggerCategories'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLimit(args.limit as number, 'list_log_categories');
+      LogToolValidators.validateTimeWindow(args, 'list_log_categories');
+      LogToolValidators.validateEntryFilter(args, 'list_log_categories', ['cartridge']);
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.getLoggerCategories(
+        args.limit as number,
+        args.date as string,
+        LogToolUtils.toTimeWindow(args, 'list_log_categories'),
+        LogToolUtils.toEntryFilter(args, ['cartridge'])?.cartridge,
+      );
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatCategoryAnalysis(
+      'logger categories',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  cluster_errors: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'clusters'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLogLevels(args.levels, 'cluster_errors');
+      LogToolValidators.validateLimit(args.limit as number, 'cluster_errors');
+      LogToolValidators.validateTimeWindow(args, 'cluster_errors');
+      LogToolValidators.validateEntryFilter(args, 'cluster_errors');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.clusterErrors({
+        levels: args.levels as LogLevel[] | undefined,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'cluster_errors'),
+        filter: LogToolUtils.toEntryFilter(args),
+      });
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatCategoryAnalysis(
+      'error clusters',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  get_stack_traces: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'stackTraces'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateLogLevels(args.levels, 'get_stack_traces');
+      LogToolValidators.validateLimit(args.limit as number, 'get_stack_traces');
+      LogToolValidators.validateTimeWindow(args, 'get_stack_traces');
+      LogToolValidators.validateEntryFilter(args, 'get_stack_traces');
+      LogToolValidators.validateContextLines(
+        args.contextLines as number | undefined,
+        LOG_CONSTANTS.MAX_SNIPPET_CONTEXT_LINES,
+        'get_stack_traces',
+      );
+      if (args.pattern !== undefined && (typeof args.pattern !== 'string' || !args.pattern.trim())) {
+        throw new Error('pattern must be a non-empty string for get_stack_traces');
+      }
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.getStackTraces({
+        levels: args.levels as LogLevel[] | undefined,
+        pattern: args.pattern as string | undefined,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'get_stack_traces'),
+        filter: LogToolUtils.toEntryFilter(args),
+        cartridgesRoot: context.handlerContext.config.cartridgesRoot,
+        contextLines: args.contextLines as number | undefined,
+      });
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatCategoryAnalysis(
+      'stack traces',
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
+
+  trace_request: {
+    defaults: (args: ToolArguments) => ({
+      limit: getLimit(args.limit as number, 'traceEntries'),
+    }),
+    validate: (args: ToolArguments) => {
+      LogToolValidators.validateTraceId(args, 'trace_request');
+      LogToolValidators.validateLimit(args.limit as number, 'trace_request');
+      LogToolValidators.validateTimeWindow(args, 'trace_request');
+    },
+    exec: async (args: ToolArguments, context: ToolExecutionContext) => {
+      const client = context.logClient as SFCCLogClient;
+      return client.traceRequest({
+        ...LogToolUtils.toTraceId(args),
+        followSessions: args.followSessions as boolean | undefined,
+        limit: args.limit as number,
+        date: args.date as string,
+        window: LogToolUtils.toTimeWindow(args, 'trace_request'),
+      });
+    },
+    logMessage: (args: ToolArguments) => LogMessageFormatter.formatTraceRequest(
+      { sessionId: args.sessionId, requestId: args.requestId, orderNo: args.orderNo },
+      args.limit as number,
+      args.date as string,
+      args.from as string,
+      args.to as string,
+    ),
+  },
 };
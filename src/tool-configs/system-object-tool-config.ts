@@ -2,6 +2,7 @@ import { GenericToolSpec, ToolExecutionContext } from '../core/handlers/base-han
 import { ToolArguments } from '../core/handlers/base-handler.js';
 import { ValidationHelpers, CommonValidations } from '../core/handlers/validation-helpers.js';
 import { OCAPIClient } from '../clients/ocapi-client.js';
+import { getPaginationOptions } from '../utils/pagination.js';
 
 export const SYSTEM_OBJECT_TOOL_NAMES = [
   'get_system_object_definitions',
@@ -15,6 +16,14 @@ export const SYSTEM_OBJECT_TOOL_NAMES = [
 export type SystemObjectToolName = typeof SYSTEM_OBJECT_TOOL_NAMES[number];
 export const SYSTEM_OBJECT_TOOL_NAMES_SET = new Set<SystemObjectToolName>(SYSTEM_OBJECT_TOOL_NAMES);
 
+/** System object tools that support automatic pagination (`all` / `maxResults`) */
+export const PAGINATED_SYSTEM_OBJECT_TOOL_NAMES: SystemObjectToolName[] = [
+  'get_system_object_definitions',
+  'search_system_object_attribute_definitions',
+  'search_custom_object_attribute_definitions',
+  'search_system_object_attribute_groups',
+];
+
 /**
  * Configuration for system object tools
  * Maps each tool to its validation, execution, and messaging logic
@@ -39,7 +48,10 @@ export const SYSTEM_OBJECT_TOOL_CONFIG: Record<SystemObjectToolName, GenericTool
           delete params[key as keyof typeof params];
         }
       });
-      return client.systemObjects.getSystemObjectDefinitions(Object.keys(params).length > 0 ? params : undefined);
+      return client.systemObjects.getSystemObjectDefinitions(
+        Object.keys(params).length > 0 ? params : undefined,
+        getPaginationOptions(args),
+      );
     },
     logMessage: (args: ToolArguments) => `Get system object definitions (start: ${args?.start ?? 0}, count: ${args?.count ?? 200})`,
   },
@@ -73,6 +85,7 @@ export const SYSTEM_OBJECT_TOOL_CONFIG: Record<SystemObjectToolName, GenericTool
       return client.systemObjects.searchSystemObjectAttributeDefinitions(
         args.objectType as string,
         args.searchRequest as any,
+        getPaginationOptions(args),
       );
     },
     logMessage: (args: ToolArguments) => `Search system object attributes for ${args?.objectType}`,
@@ -94,6 +107,7 @@ export const SYSTEM_OBJECT_TOOL_CONFIG: Record<SystemObjectToolName, GenericTool
       return client.systemObjects.searchCustomObjectAttributeDefinitions(
         args.objectType as string,
         args.searchRequest as any,
+        getPaginationOptions(args),
       );
     },
     logMessage: (args: ToolArguments) => `Search custom object attributes for ${args?.objectType}`,
@@ -140,6 +154,7 @@ export const SYSTEM_OBJECT_TOOL_CONFIG: Record<SystemObjectToolName, GenericTool
       return client.systemObjects.searchSystemObjectAttributeGroups(
         args.objectType as string,
         args.searchRequest as any,
+        getPaginationOptions(args),
       );
     },
     logMessage: (args: ToolArguments) => `Search attribute groups for ${args?.objectType}`,
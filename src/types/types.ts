@@ -26,6 +26,57 @@ export interface SFCCConfig {
   shortCode?: string;
   /** SCAPI用の組織ID */
   organizationId?: string;
+  /** Shopper API用のSLAS（Shopper Login and API Access Service）クライアントID */
+  slasClientId?: string;
+  /** SLASクライアントシークレット（プライベートクライアントの場合のみ） */
+  slasClientSecret?: string;
+  /** SLASクライアントに登録されたリダイレクトURI */
+  slasRedirectUri?: string;
+  /** 登録済み買い物客としてログインする際のログインID */
+  shopperLogin?: string;
+  /** 登録済み買い物客としてログインする際のパスワード */
+  shopperPassword?: string;
+  /** インスタンス名（dw.jsonの"name"、複数インスタンス構成時に使用） */
+  instanceName?: string;
+  /** dw.jsonの"configs"で定義された名前付きインスタンス（デフォルトインスタンスを含む） */
+  instances?: Record<string, SFCCConfig>;
+  /** 読み取り専用モード（trueの場合、変更操作を行うツールを無効化） */
+  readOnly?: boolean;
+  /** ローカルのカートリッジのルートディレクトリ（スタックトレースのフレームをソースに対応付ける） */
+  cartridgesRoot?: string;
+  /** HTTPトランスポートへのリクエストに必要なベアラートークン（サーバー全体の設定） */
+  httpAuthToken?: string;
+  /** SFCC APIへのHTTPリクエストの設定（タイムアウト、リトライ、レート制限） */
+  http?: HttpClientConfig;
+}
+
+/**
+ * 失敗したHTTPリクエストの分類
+ * - throttling: レート制限またはクォータによる拒否（429）
+ * - auth: 認証情報やトークンの拒否、権限不足（401、403）
+ * - network: サーバーに接続できない
+ * - timeout: タイムアウトまでにレスポンスがない
+ * - server: APIがリクエストを処理できなかった（5xx）
+ * - client: 不正なリクエスト（その他の4xx）
+ * - parse: 成功レスポンスの本文がJSONとして解析できない（リトライしない）
+ */
+export type HttpErrorKind = 'throttling' | 'auth' | 'network' | 'timeout' | 'server' | 'client' | 'parse';
+
+/**
+ * SFCC APIへのHTTPリクエストの設定
+ * 省略した項目にはデフォルト値が使用されます
+ */
+export interface HttpClientConfig {
+  /** リクエストのタイムアウト（ミリ秒、0で無効。デフォルト: 30000） */
+  timeoutMs?: number;
+  /** スロットリング、サーバーエラー、ネットワークエラー時の最大リトライ回数（デフォルト: 3） */
+  maxRetries?: number;
+  /** 指数バックオフの基準待機時間（ミリ秒、デフォルト: 500） */
+  retryBaseDelayMs?: number;
+  /** リトライ待機時間の上限（ミリ秒、デフォルト: 30000） */
+  retryMaxDelayMs?: number;
+  /** ホストごとの1秒あたりの最大リクエスト数（0で無効。デフォルト: 10） */
+  requestsPerSecond?: number;
 }
 
 /**
@@ -51,6 +102,37 @@ export interface DwJsonConfig {
   'short-code'?: string;
   /** オプションのSCAPI用組織ID */
   'organization-id'?: string;
+  /** オプションのSLASクライアントID（Shopper API用） */
+  'slas-client-id'?: string;
+  /** オプションのSLASクライアントシークレット（プライベートクライアントの場合） */
+  'slas-client-secret'?: string;
+  /** オプションのSLASリダイレクトURI */
+  'slas-redirect-uri'?: string;
+  /** オプションの登録済み買い物客のログインID */
+  'shopper-login'?: string;
+  /** オプションの登録済み買い物客のパスワード */
+  'shopper-password'?: string;
+  /** オプションのインスタンス名（複数インスタンス構成時の識別子） */
+  name?: string;
+  /** このインスタンスをデフォルトとして使用するかどうか */
+  active?: boolean;
+  /** このインスタンスへの変更操作を禁止するかどうか */
+  readOnly?: boolean;
+  /** オプションのHTTPリクエスト設定 */
+  http?: {
+    /** リクエストのタイムアウト（ミリ秒） */
+    timeout?: number;
+    /** 最大リトライ回数 */
+    'max-retries'?: number;
+    /** 指数バックオフの基準待機時間（ミリ秒） */
+    'retry-base-delay'?: number;
+    /** リトライ待機時間の上限（ミリ秒） */
+    'retry-max-delay'?: number;
+    /** ホストごとの1秒あたりの最大リクエスト数 */
+    'requests-per-second'?: number;
+  };
+  /** オプションの追加インスタンス設定（sandbox、development、staging、productionなど） */
+  configs?: DwJsonConfig[];
 }
 
 /**
@@ -128,6 +210,8 @@ export interface OCAPIConfig {
   siteId?: string;
   /** APIバージョン（デフォルト: v21_3） */
   version?: string;
+  /** HTTPリクエストの設定（タイムアウト、リトライ、レート制限） */
+  http?: HttpClientConfig;
 }
 
 /**
@@ -142,8 +226,30 @@ export interface EndpointParam {
   type: string;
   /** パラメータが必須かどうか */
   required: boolean;
+  /** パラメータの送信先（省略時はパスに含まれればpath、それ以外はquery） */
+  in?: 'path' | 'query' | 'body';
+  /** 許可される値の一覧 */
+  enum?: Array<string | number | boolean>;
+  /** 配列パラメータの要素スキーマ */
+  items?: JSONSchema;
+  /** デフォルト値 */
+  default?: unknown;
 }
 
+/**
+ * ツールの入力スキーマやリクエストボディに使用するJSON Schema
+ */
+export type JSONSchema = {
+  type?: string;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  items?: JSONSchema;
+  required?: string[];
+  enum?: Array<string | number | boolean>;
+  default?: unknown;
+  [keyword: string]: unknown;
+};
+
 /**
  * OCAPI/SCAPI用のAPIエンドポイント定義
  */
@@ -156,14 +262,49 @@ export interface Endpoint {
   description: string;
   /** HTTPメソッド（GET, POST, PUT, PATCH, DELETE） */
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** データを変更しないPOSTエンドポイント（検索など）の場合はtrue（省略時はGET以外を変更操作とみなす） */
+  readOnly?: boolean;
   /** パラメータ定義 */
   parameters: EndpointParam[];
   /** POST/PUT/PATCH用のデフォルトリクエストボディ */
   defaultBody?: Record<string, any>;
-  /** APIタイプ: Data APIは'ocapi'、Shopper APIは'scapi' */
+  /** APIタイプ: OCAPI Data APIは'ocapi'、SCAPI（Admin/Shopper API）は'scapi' */
   apiType: 'ocapi' | 'scapi';
   /** このエンドポイントがsite_idを必要とするかどうか */
   requiresSiteId?: boolean;
+  /** SCAPI Admin API呼び出し時にAccount Managerへ要求するOAuthスコープ（例: sfcc.products） */
+  scopes?: string[];
+  /** SCAPIのAPIファミリー: Admin APIは'admin'（デフォルト）、SLASトークンを使うShopper APIは'shopper' */
+  apiFamily?: 'admin' | 'shopper';
+  /** リクエストボディを単一要素の配列として送信するかどうか（例: バスケットへの商品追加） */
+  arrayBody?: boolean;
+  /** API仕様からインポートしたリクエストボディのJSON Schema */
+  requestBody?: JSONSchema;
+  /** インポート元のAPI仕様またはエンドポイントパックのファイル（endpoints.jsonの定義では省略） */
+  source?: string;
+}
+
+/**
+ * API仕様（OpenAPI 3.x、Swagger 2.0、RAML 1.0）からエンドポイントをインポートする際のオプション
+ * 仕様ファイルと同名の`.options.json`ファイルで指定します
+ */
+export interface ApiSpecImportOptions {
+  /** APIタイプ（省略時はSwagger 2.0（OCAPIメタAPI）が'ocapi'、それ以外は'scapi'） */
+  apiType?: 'ocapi' | 'scapi';
+  /** SCAPIのAPIファミリー（省略時はShopperTokenセキュリティスキームがあれば'shopper'） */
+  apiFamily?: 'admin' | 'shopper';
+  /** すべてのエンドポイントに適用するOAuthスコープ（省略時は仕様のsecurityから取得） */
+  scopes?: string[];
+  /** 生成するツール名のプレフィックス（省略時はSCAPI Adminが'scapi_'、Shopperが'shopper_'） */
+  toolPrefix?: string;
+  /** operationIdごとのツール名の上書き */
+  toolNames?: Record<string, string>;
+  /** インポートするoperationId（省略時はすべて） */
+  operations?: string[];
+  /** データを変更しないPOST操作のoperationId（検索APIなど） */
+  readOnlyOperations?: string[];
+  /** APIパスのプレフィックス（省略時はservers/basePath/baseUriから取得） */
+  basePath?: string;
 }
 
 /**
@@ -174,6 +315,59 @@ export interface SCAPIConfig extends OCAPIConfig {
   shortCode?: string;
   /** SCAPI用の組織ID */
   organizationId?: string;
+  /** Shopper API用のSLASクライアントID */
+  slasClientId?: string;
+  /** SLASクライアントシークレット（プライベートクライアントの場合のみ） */
+  slasClientSecret?: string;
+  /** SLASリダイレクトURI */
+  slasRedirectUri?: string;
+  /** 登録済み買い物客のログインID */
+  shopperLogin?: string;
+  /** 登録済み買い物客のパスワード */
+  shopperPassword?: string;
+}
+
+/**
+ * Shopper APIを呼び出す買い物客の種類
+ */
+export type ShopperType = 'guest' | 'registered';
+
+/**
+ * SLASクライアント設定（サイトごと）
+ */
+export interface SLASConfig {
+  /** SFCCホスト名（localhostの場合はモックサーバーを使用） */
+  hostname: string;
+  /** SCAPI用のショートコード */
+  shortCode?: string;
+  /** SCAPI用の組織ID */
+  organizationId: string;
+  /** SLASクライアントID */
+  clientId: string;
+  /** SLASクライアントシークレット（省略時はパブリッククライアントとしてPKCEを使用） */
+  clientSecret?: string;
+  /** SLASクライアントに登録されたリダイレクトURI（省略時はデフォルトを使用） */
+  redirectUri?: string;
+  /** チャネル（サイト）ID */
+  siteId: string;
+  /** 登録済み買い物客のログインID */
+  shopperLogin?: string;
+  /** 登録済み買い物客のパスワード */
+  shopperPassword?: string;
+  /** HTTPリクエストの設定（タイムアウト、リトライ、レート制限） */
+  http?: HttpClientConfig;
+}
+
+/**
+ * SLASトークンレスポンス
+ */
+export interface SLASTokenResponse extends OAuthTokenResponse {
+  /** リフレッシュトークン */
+  refresh_token?: string;
+  /** 買い物客の一意のセッションID */
+  usid?: string;
+  /** 買い物客の顧客ID */
+  customer_id?: string;
 }
 
 /**
@@ -186,6 +380,8 @@ export interface DataAPIRequestParams {
   queryParams?: Record<string, string | number | boolean>;
   /** POST/PUT/PATCH用のリクエストボディ */
   body?: Record<string, any>;
+  /** Shopper APIを呼び出す買い物客の種類（デフォルト: guest） */
+  shopperType?: ShopperType;
 }
 
 /**
@@ -200,4 +396,8 @@ export interface DataAPIResponse<T = any> {
   success: boolean;
   /** 失敗時のエラーメッセージ */
   error?: string;
+  /** 失敗時のエラー分類（HTTPリクエストが失敗した場合） */
+  errorKind?: HttpErrorKind;
+  /** 失敗の原因となったエラー（OCAPIの障害情報や対処方法を含む場合があります） */
+  cause?: Error;
 }
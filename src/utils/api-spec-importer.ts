@@ -0,0 +1,704 @@
+/**
+ * API Spec Importer Utility
+ *
+ * Converts OCAPI Data API and SCAPI API specifications into Endpoint definitions so that
+ * new Data API tools can be added by dropping a spec into src/config/specs instead of
+ * editing endpoints.json and the tool definitions by hand. The built-in Data API tools are
+ * not generated from specs and remain hand-maintained. Supported formats:
+ *
+ * - OpenAPI 3.x (SCAPI Admin and Shopper API specs)
+ * - Swagger 2.0 (OCAPI Data API meta specs)
+ * - RAML 1.0 (SCAPI specs, parsed from YAML)
+ *
+ * Only local references (#/...) are resolved. Header parameters are skipped because the
+ * Data API client sets the authorization headers itself.
+ */
+
+import { ApiSpecImportOptions, Endpoint, EndpointParam, JSONSchema } from '../types/types.js';
+
+/** Supported API specification formats */
+export type ApiSpecFormat = 'openapi' | 'swagger' | 'raml';
+
+/** Parser for YAML and RAML specs (e.g. js-yaml's load) */
+export type YamlParser = (content: string) => unknown;
+
+type SpecObject = Record<string, any>;
+type HttpMethod = Endpoint['method'];
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Maximum depth when inlining referenced schemas (recursive models are cut off here) */
+const MAX_SCHEMA_DEPTH = 8;
+
+/** Path parameter filled in by the Data API client for SCAPI endpoints */
+const ORGANIZATION_ID_PARAM = 'organizationId';
+
+/** RAML built-in types that map directly to JSON Schema types */
+const RAML_SCALAR_TYPES: Record<string, string> = {
+  string: 'string',
+  number: 'number',
+  integer: 'number',
+  boolean: 'boolean',
+  object: 'object',
+  array: 'array',
+  'date-only': 'string',
+  datetime: 'string',
+  'datetime-only': 'string',
+  'time-only': 'string',
+  file: 'string',
+  any: 'string',
+};
+
+/**
+ * Parse the content of a spec file
+ *
+ * @param content - File content
+ * @param fileName - File name, used to pick the parser (.json, .yaml, .yml, .raml)
+ * @param yamlParser - Parser used for YAML and RAML files
+ * @returns Parsed spec document
+ * @throws Error if the file type is unsupported or YAML parsing is unavailable
+ */
+export function parseApiSpec(content: string, fileName: string, yamlParser?: YamlParser): SpecObject {
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+  if (extension === '.json') {
+    return JSON.parse(content);
+  }
+
+  if (!['.yaml', '.yml', '.raml'].includes(extension)) {
+    throw new Error(`Unsupported API spec file type: ${fileName}`);
+  }
+  if (!yamlParser) {
+    throw new Error(`Cannot parse ${fileName}: YAML and RAML specs require the js-yaml package`);
+  }
+
+  const document = yamlParser(content);
+  if (!isObject(document)) {
+    throw new Error(`Invalid API spec: ${fileName} does not contain an object`);
+  }
+  return document;
+}
+
+/**
+ * Detect the format of a parsed spec document
+ *
+ * @throws Error if the document is not an OpenAPI 3.x, Swagger 2.0 or RAML 1.0 spec
+ */
+export function detectApiSpecFormat(document: SpecObject): ApiSpecFormat {
+  if (typeof document.openapi === 'string' && document.openapi.startsWith('3.')) {
+    return 'openapi';
+  }
+  if (String(document.swagger) === '2.0') {
+    return 'swagger';
+  }
+  if (typeof document.title === 'string' && Object.keys(document).some(key => key.startsWith('/'))) {
+    return 'raml';
+  }
+  throw new Error('Unsupported API spec: expected OpenAPI 3.x, Swagger 2.0 or RAML 1.0');
+}
+
+/**
+ * Import the operations of an API spec as Endpoint definitions
+ *
+ * @param document - Parsed spec document
+ * @param source - Spec file name, recorded on each endpoint
+ * @param options - Import options (API type, family, tool names, operation filter)
+ * @returns Endpoint definitions sorted in spec order
+ */
+export function importApiSpec(
+  document: SpecObject,
+  source: string,
+  options: ApiSpecImportOptions = {},
+): Endpoint[] {
+  const format = detectApiSpecFormat(document);
+  const operations = format === 'raml' ? collectRamlOperations(document) : collectOpenApiOperations(document, format);
+  const apiType = options.apiType ?? (format === 'swagger' ? 'ocapi' : 'scapi');
+  const basePath = normalizeBasePath(options.basePath ?? getSpecBasePath(document, format, apiType));
+  const apiFamily = apiType === 'scapi'
+    ? options.apiFamily ?? detectApiFamily(document, basePath, operations)
+    : undefined;
+  const toolPrefix = options.toolPrefix ?? getDefaultToolPrefix(apiType, apiFamily);
+
+  const endpoints: Endpoint[] = [];
+  for (const operation of operations) {
+    if (options.operations && !options.operations.includes(operation.operationId)) {
+      continue;
+    }
+
+    const endpoint: Endpoint = {
+      toolName: options.toolNames?.[operation.operationId] ?? `${toolPrefix}${toSnakeCase(operation.operationId)}`,
+      path: `${basePath}${operation.path}`,
+      description: operation.description,
+      method: operation.method,
+      parameters: [],
+      apiType,
+      requiresSiteId: false,
+      source,
+    };
+
+    for (const param of operation.parameters) {
+      // The Data API client fills in the organization ID of SCAPI endpoints
+      if (apiType === 'scapi' && param.in === 'path' && param.name === ORGANIZATION_ID_PARAM) {
+        continue;
+      }
+
+      if (isSiteIdParam(param)) {
+        endpoint.requiresSiteId = true;
+        // SCAPI endpoints default the siteId query parameter to the configured site
+        if (apiType === 'scapi' && param.in === 'query') {
+          param.required = false;
+        }
+      }
+      endpoint.parameters.push(param);
+    }
+
+    if (operation.requestBody) {
+      applyRequestBody(endpoint, operation.requestBody);
+    }
+
+    if (endpoint.method === 'POST' && isReadOnlyOperation(operation.operationId, options)) {
+      endpoint.readOnly = true;
+    }
+
+    if (apiFamily) {
+      endpoint.apiFamily = apiFamily;
+    }
+    const scopes = options.scopes ?? operation.scopes;
+    if (apiType === 'scapi' && apiFamily === 'admin' && scopes.length > 0) {
+      endpoint.scopes = scopes;
+    }
+
+    endpoints.push(endpoint);
+  }
+
+  return endpoints;
+}
+
+/**
+ * Build the JSON Schema inputSchema of the MCP tool for an endpoint
+ *
+ * @param endpoint - Endpoint definition
+ * @returns Input schema with one property per endpoint parameter
+ */
+export function buildEndpointInputSchema(endpoint: Endpoint): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+
+  for (const param of endpoint.parameters) {
+    const property: JSONSchema = { type: param.type, description: param.description };
+    if (param.enum) {
+      property.enum = param.enum;
+    }
+    if (param.items) {
+      property.items = param.items;
+    }
+    if (param.default !== undefined) {
+      property.default = param.default;
+    }
+    properties[param.name] = property;
+
+    if (param.required) {
+      required.push(param.name);
+    }
+  }
+
+  if (endpoint.apiFamily === 'shopper') {
+    properties.shopper = {
+      type: 'string',
+      enum: ['guest', 'registered'],
+      description: 'Run as a guest shopper (default) or as the registered shopper configured with shopper-login and shopper-password',
+    };
+  }
+
+  return required.length > 0
+    ? { type: 'object', properties, required }
+    : { type: 'object', properties };
+}
+
+/**
+ * Operation extracted from a spec, before it is turned into an Endpoint
+ */
+interface SpecOperation {
+  operationId: string;
+  method: HttpMethod;
+  path: string;
+  description: string;
+  parameters: EndpointParam[];
+  requestBody?: JSONSchema;
+  scopes: string[];
+  securitySchemes: string[];
+}
+
+/**
+ * Collect the operations of an OpenAPI 3.x or Swagger 2.0 spec
+ */
+function collectOpenApiOperations(document: SpecObject, format: ApiSpecFormat): SpecOperation[] {
+  const operations: SpecOperation[] = [];
+
+  for (const [path, pathItemOrRef] of Object.entries<SpecObject>(document.paths ?? {})) {
+    const pathItem = resolveRef(document, pathItemOrRef);
+
+    for (const method of HTTP_METHODS) {
+      const operation: SpecObject | undefined = pathItem[method.toLowerCase()];
+      if (!operation) {
+        continue;
+      }
+
+      // Operation parameters override path-level parameters with the same name and location
+      const parameterMap = new Map<string, SpecObject>();
+      for (const parameterOrRef of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+        const parameter = resolveRef(document, parameterOrRef);
+        parameterMap.set(`${parameter.in}:${parameter.name}`, parameter);
+      }
+
+      const parameters: EndpointParam[] = [];
+      let requestBody: JSONSchema | undefined;
+      for (const parameter of parameterMap.values()) {
+        if (parameter.in === 'body') {
+          // Swagger 2.0 body parameter
+          requestBody = toJsonSchema(document, parameter.schema ?? {});
+        } else if (parameter.in === 'path' || parameter.in === 'query') {
+          const schema = toJsonSchema(document, format === 'swagger' ? parameter : parameter.schema ?? {});
+          parameters.push(toEndpointParam(parameter.name, schema, parameter.in, parameter.in === 'path' || !!parameter.required, parameter.description));
+        }
+      }
+
+      if (operation.requestBody) {
+        const content = resolveRef(document, operation.requestBody).content ?? {};
+        const mediaType = content['application/json'] ?? Object.values<SpecObject>(content)[0];
+        if (mediaType?.schema) {
+          requestBody = toJsonSchema(document, mediaType.schema);
+        }
+      }
+
+      const security = getSecurityRequirements(operation.security ?? document.security);
+      operations.push({
+        operationId: operation.operationId ?? `${method.toLowerCase()}_${path}`,
+        method,
+        path,
+        description: getOperationDescription(operation.summary, operation.description, method, path),
+        parameters,
+        requestBody,
+        scopes: security.scopes,
+        securitySchemes: security.schemes,
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Collect the operations of a RAML 1.0 spec by walking its nested resources
+ */
+function collectRamlOperations(document: SpecObject): SpecOperation[] {
+  const operations: SpecOperation[] = [];
+
+  const walk = (resource: SpecObject, path: string, uriParameters: SpecObject, securedBy: unknown): void => {
+    const resourceUriParameters = { ...uriParameters, ...(resource.uriParameters ?? {}) };
+    const resourceSecuredBy = resource.securedBy ?? securedBy;
+
+    for (const method of HTTP_METHODS) {
+      const operation: SpecObject | undefined | null = resource[method.toLowerCase()];
+      if (operation === undefined) {
+        continue;
+      }
+      const methodDefinition = operation ?? {};
+
+      const parameters: EndpointParam[] = [];
+      for (const name of getPathParamNames(path)) {
+        const declaration = resourceUriParameters[name] ?? 'string';
+        const schema = ramlToJsonSchema(document, declaration);
+        parameters.push(toEndpointParam(name, schema, 'path', true, getRamlDescription(declaration)));
+      }
+      for (const [key, declaration] of Object.entries<unknown>(methodDefinition.queryParameters ?? {})) {
+        const schema = ramlToJsonSchema(document, declaration);
+        parameters.push(toEndpointParam(
+          key.replace(/\?$/, ''),
+          schema,
+          'query',
+          isRamlRequired(key, declaration),
+          getRamlDescription(declaration),
+        ));
+      }
+
+      const body = methodDefinition.body?.['application/json'] ?? methodDefinition.body;
+      const requestBody = body && ['POST', 'PUT', 'PATCH'].includes(method)
+        ? ramlToJsonSchema(document, body)
+        : undefined;
+
+      const security = getSecurityRequirements(methodDefinition.securedBy ?? resourceSecuredBy);
+      operations.push({
+        operationId: methodDefinition.displayName ?? `${method.toLowerCase()}_${path}`,
+        method,
+        path,
+        description: getOperationDescription(undefined, methodDefinition.description, method, path),
+        parameters,
+        requestBody,
+        scopes: security.scopes,
+        securitySchemes: security.schemes,
+      });
+    }
+
+    for (const [key, child] of Object.entries<SpecObject>(resource)) {
+      if (key.startsWith('/') && isObject(child)) {
+        walk(child, `${path}${key}`, resourceUriParameters, resourceSecuredBy);
+      }
+    }
+  };
+
+  walk(document, '', {}, document.securedBy);
+  return operations;
+}
+
+/**
+ * Flatten the request body schema into body parameters of the endpoint
+ * Array bodies are sent as a single-element array built from the item properties
+ */
+function applyRequestBody(endpoint: Endpoint, schema: JSONSchema): void {
+  endpoint.requestBody = schema;
+
+  let objectSchema = schema;
+  if (schema.type === 'array' && schema.items) {
+    endpoint.arrayBody = true;
+    objectSchema = schema.items;
+  }
+
+  const requiredProperties = new Set(objectSchema.required ?? []);
+  const parameterNames = new Set(endpoint.parameters.map(param => param.name));
+  for (const [name, propertySchema] of Object.entries(objectSchema.properties ?? {})) {
+    // Path and query parameters take precedence over body properties with the same name
+    if (parameterNames.has(name)) {
+      continue;
+    }
+    endpoint.parameters.push(toEndpointParam(name, propertySchema, 'body', requiredProperties.has(name), propertySchema.description));
+  }
+}
+
+/**
+ * Create an endpoint parameter from a JSON Schema
+ */
+function toEndpointParam(
+  name: string,
+  schema: JSONSchema,
+  location: 'path' | 'query' | 'body',
+  required: boolean,
+  description?: string,
+): EndpointParam {
+  const param: EndpointParam = {
+    name,
+    description: firstParagraph(description ?? schema.description ?? '') || name,
+    type: schema.type ?? 'string',
+    required,
+    in: location,
+  };
+  if (schema.enum) {
+    param.enum = schema.enum;
+  }
+  if (schema.items) {
+    param.items = schema.items;
+  }
+  if (schema.default !== undefined) {
+    param.default = schema.default;
+  }
+  return param;
+}
+
+/**
+ * Convert an OpenAPI/Swagger schema into a self-contained JSON Schema
+ * Local references are inlined; recursive references are cut off as plain objects
+ */
+function toJsonSchema(
+  document: SpecObject,
+  schemaOrRef: SpecObject,
+  seen: Set<string> = new Set(),
+  depth = 0,
+): JSONSchema {
+  if (typeof schemaOrRef.$ref === 'string') {
+    if (seen.has(schemaOrRef.$ref) || depth >= MAX_SCHEMA_DEPTH) {
+      return { type: 'object' };
+    }
+    return toJsonSchema(document, resolveRef(document, schemaOrRef), new Set([...seen, schemaOrRef.$ref]), depth + 1);
+  }
+
+  // Combined schemas are merged so that their properties become body parameters
+  const combined: SpecObject[] | undefined = schemaOrRef.allOf ?? schemaOrRef.oneOf ?? schemaOrRef.anyOf;
+  if (combined) {
+    const merged: JSONSchema = { type: 'object', properties: {} };
+    const required: string[] = [];
+    for (const part of combined) {
+      const partSchema = toJsonSchema(document, part, seen, depth + 1);
+      Object.assign(merged.properties!, partSchema.properties);
+      // Only allOf guarantees that the required properties of every part are required
+      if (schemaOrRef.allOf) {
+        required.push(...(partSchema.required ?? []));
+      }
+    }
+    if (schemaOrRef.description) {
+      merged.description = schemaOrRef.description;
+    }
+    return required.length > 0 ? { ...merged, required } : merged;
+  }
+
+  const schema: JSONSchema = {};
+  const type = schemaOrRef.type ?? (schemaOrRef.properties ? 'object' : undefined);
+  if (type) {
+    schema.type = type === 'integer' ? 'number' : type;
+  }
+  for (const keyword of ['description', 'enum', 'default', 'format', 'minimum', 'maximum', 'minLength', 'maxLength', 'pattern']) {
+    if (schemaOrRef[keyword] !== undefined) {
+      schema[keyword] = schemaOrRef[keyword];
+    }
+  }
+  if (schemaOrRef.items) {
+    schema.items = toJsonSchema(document, schemaOrRef.items, seen, depth + 1);
+  }
+  if (schemaOrRef.properties) {
+    schema.properties = {};
+    for (const [name, property] of Object.entries<SpecObject>(schemaOrRef.properties)) {
+      schema.properties[name] = toJsonSchema(document, property, seen, depth + 1);
+    }
+  }
+  if (Array.isArray(schemaOrRef.required)) {
+    schema.required = schemaOrRef.required;
+  }
+  return schema;
+}
+
+/**
+ * Convert a RAML type declaration (shorthand string or object) into a JSON Schema
+ * Types declared in the spec's `types` section are inlined
+ */
+function ramlToJsonSchema(
+  document: SpecObject,
+  declaration: unknown,
+  seen: Set<string> = new Set(),
+  depth = 0,
+): JSONSchema {
+  const typeDeclaration: SpecObject = typeof declaration === 'string' || Array.isArray(declaration)
+    ? { type: declaration }
+    : isObject(declaration) ? declaration : {};
+  const typeName: unknown = typeDeclaration.type ?? (typeDeclaration.properties ? 'object' : 'string');
+
+  let schema: JSONSchema;
+  if (typeof typeName === 'string' && typeName.endsWith('[]')) {
+    schema = { type: 'array', items: ramlToJsonSchema(document, typeName.slice(0, -2), seen, depth + 1) };
+  } else if (typeof typeName === 'string' && RAML_SCALAR_TYPES[typeName]) {
+    schema = { type: RAML_SCALAR_TYPES[typeName] };
+  } else if (typeof typeName === 'string' && document.types?.[typeName] !== undefined) {
+    schema = seen.has(typeName) || depth >= MAX_SCHEMA_DEPTH
+      ? { type: 'object' }
+      : ramlToJsonSchema(document, document.types[typeName], new Set([...seen, typeName]), depth + 1);
+  } else {
+    // Unions and library types that cannot be resolved locally
+    schema = { type: 'object' };
+  }
+
+  if (typeDeclaration.items) {
+    schema.items = ramlToJsonSchema(document, typeDeclaration.items, seen, depth + 1);
+  }
+  if (typeDeclaration.properties) {
+    const properties: Record<string, JSONSchema> = { ...schema.properties };
+    const required = new Set(schema.required ?? []);
+    for (const [key, property] of Object.entries<unknown>(typeDeclaration.properties)) {
+      const name = key.replace(/\?$/, '');
+      properties[name] = ramlToJsonSchema(document, property, seen, depth + 1);
+      if (isRamlRequired(key, property)) {
+        required.add(name);
+      }
+    }
+    schema.properties = properties;
+    if (required.size > 0) {
+      schema.required = [...required];
+    }
+  }
+  for (const keyword of ['enum', 'default', 'pattern', 'minimum', 'maximum', 'minLength', 'maxLength']) {
+    if (typeDeclaration[keyword] !== undefined) {
+      schema[keyword] = typeDeclaration[keyword];
+    }
+  }
+  if (typeof typeDeclaration.description === 'string') {
+    schema.description = typeDeclaration.description;
+  }
+  return schema;
+}
+
+/**
+ * Resolve a local reference (#/components/..., #/definitions/...)
+ *
+ * @throws Error for external or unresolvable references
+ */
+function resolveRef(document: SpecObject, value: SpecObject): SpecObject {
+  if (typeof value?.$ref !== 'string') {
+    return value;
+  }
+  if (!value.$ref.startsWith('#/')) {
+    throw new Error(`Unsupported external reference: ${value.$ref}`);
+  }
+
+  let target: any = document;
+  for (const segment of value.$ref.slice(2).split('/')) {
+    target = target?.[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+  }
+  if (target === undefined) {
+    throw new Error(`Unresolved reference: ${value.$ref}`);
+  }
+  return target;
+}
+
+/**
+ * Get the OAuth scopes and security scheme names of security requirements
+ * Handles OpenAPI ({ scheme: [scopes] }) and RAML ({ scheme: { scopes } } or scheme name) forms
+ */
+function getSecurityRequirements(security: unknown): { scopes: string[]; schemes: string[] } {
+  const scopes = new Set<string>();
+  const schemes: string[] = [];
+
+  for (const requirement of Array.isArray(security) ? security : []) {
+    if (typeof requirement === 'string') {
+      schemes.push(requirement);
+      continue;
+    }
+    for (const [scheme, value] of Object.entries<any>(requirement ?? {})) {
+      schemes.push(scheme);
+      const requirementScopes: unknown = Array.isArray(value) ? value : value?.scopes;
+      if (Array.isArray(requirementScopes)) {
+        requirementScopes.forEach(scope => scopes.add(String(scope)));
+      }
+    }
+  }
+
+  return { scopes: [...scopes], schemes };
+}
+
+/**
+ * Get the API path prefix of a spec
+ * OCAPI paths are relative to the Data API base URL, so the Swagger basePath is dropped
+ */
+function getSpecBasePath(document: SpecObject, format: ApiSpecFormat, apiType: 'ocapi' | 'scapi'): string {
+  if (apiType === 'ocapi') {
+    return '';
+  }
+
+  if (format === 'swagger') {
+    return document.basePath ?? '';
+  }
+
+  if (format === 'openapi') {
+    const server: SpecObject | undefined = document.servers?.[0];
+    if (!server?.url) {
+      return '';
+    }
+    const url = String(server.url).replace(/\{(\w+)\}/g, (match: string, name: string) =>
+      server.variables?.[name]?.default ?? match);
+    return getUrlPath(url);
+  }
+
+  const baseUri = String(document.baseUri ?? '').replace(/\{version\}/g, String(document.version ?? '{version}'));
+  return getUrlPath(baseUri);
+}
+
+/**
+ * Detect whether SCAPI operations belong to a Shopper API (SLAS shopper token) or an Admin API
+ */
+function detectApiFamily(document: SpecObject, basePath: string, operations: SpecOperation[]): 'admin' | 'shopper' {
+  const schemeNames = new Set(operations.flatMap(operation => operation.securitySchemes));
+  if ([...schemeNames].some(name => /shopper/i.test(name)) || /\/shopper-/.test(basePath)) {
+    return 'shopper';
+  }
+  return document.info?.title && /^shopper/i.test(String(document.info.title)) ? 'shopper' : 'admin';
+}
+
+/**
+ * Get the default tool name prefix, matching the hand-written SCAPI tools
+ */
+function getDefaultToolPrefix(apiType: 'ocapi' | 'scapi', apiFamily?: 'admin' | 'shopper'): string {
+  if (apiType === 'ocapi') {
+    return '';
+  }
+  return apiFamily === 'shopper' ? 'shopper_' : 'scapi_';
+}
+
+/**
+ * Check whether a POST operation only reads data (search endpoints)
+ */
+function isReadOnlyOperation(operationId: string, options: ApiSpecImportOptions): boolean {
+  return options.readOnlyOperations?.includes(operationId) ?? /^search/i.test(operationId);
+}
+
+/**
+ * Check whether a parameter is the site ID of a site-specific endpoint
+ */
+function isSiteIdParam(param: EndpointParam): boolean {
+  return (param.name === 'siteId' && param.in === 'query') || (param.name === 'site_id' && param.in === 'path');
+}
+
+/**
+ * Check whether a RAML parameter or property is required (required by default, `?` suffix is optional)
+ */
+function isRamlRequired(key: string, declaration: unknown): boolean {
+  if (isObject(declaration) && typeof declaration.required === 'boolean') {
+    return declaration.required;
+  }
+  return !key.endsWith('?');
+}
+
+/**
+ * Get the description of a RAML declaration
+ */
+function getRamlDescription(declaration: unknown): string | undefined {
+  return isObject(declaration) && typeof declaration.description === 'string' ? declaration.description : undefined;
+}
+
+/**
+ * Get the names of the path parameters in a path template
+ */
+function getPathParamNames(path: string): string[] {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+/**
+ * Build a tool description from the operation summary and description
+ */
+function getOperationDescription(summary: unknown, description: unknown, method: HttpMethod, path: string): string {
+  const text = [summary, description].find(value => typeof value === 'string' && value.trim());
+  return text ? firstParagraph(String(text)) : `${method} ${path}`;
+}
+
+/**
+ * Get the first paragraph of a (markdown) description
+ */
+function firstParagraph(text: string): string {
+  return text.trim().split(/\n\s*\n/)[0].replace(/\s+/g, ' ');
+}
+
+/**
+ * Get the path of a URL, ignoring the scheme and host (which may contain template variables)
+ */
+function getUrlPath(url: string): string {
+  return url.replace(/^[a-z][\w+.-]*:\/\/[^/]*/i, '');
+}
+
+/**
+ * Normalize a base path to start with a slash and have no trailing slash
+ */
+function normalizeBasePath(basePath: string): string {
+  const trimmed = basePath.replace(/\/+$/, '');
+  return trimmed && !trimmed.startsWith('/') ? `/${trimmed}` : trimmed;
+}
+
+/**
+ * Convert an operation ID or path to a snake_case tool name
+ */
+function toSnakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
+
+function isObject(value: unknown): value is SpecObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -2,19 +2,29 @@
  * Endpoint Loader Utility
  *
  * This module provides functionality to load and manage API endpoint definitions
- * from the endpoints.json configuration file.
+ * from the endpoints.json configuration file, from the OCAPI/SCAPI API specs
+ * in the config/specs directory and from user-defined endpoint packs.
  */
 
-import { readFileSync } from 'fs';
+import { existsSync, readdirSync, readFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
-import { Endpoint } from '../types/types.js';
+import { load as loadYaml } from 'js-yaml';
+import { ApiSpecImportOptions, Endpoint } from '../types/types.js';
+import { importApiSpec, parseApiSpec } from './api-spec-importer.js';
+import { assertNoDuplicateToolNames, readEndpointPacks } from './endpoint-pack.js';
 import { Logger } from './logger.js';
 
 // Get the directory of this module
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/** File extensions of API specs in the specs directory */
+const SPEC_FILE_PATTERN = /\.(json|ya?ml|raml)$/i;
+
+/** Suffix of the import options file next to a spec (e.g. shopper-products.yaml.options.json) */
+const SPEC_OPTIONS_SUFFIX = '.options.json';
+
 /**
  * Singleton class for loading and managing API endpoints
  */
@@ -22,6 +32,7 @@ export class EndpointLoader {
   private static instance: EndpointLoader;
   private endpoints: Endpoint[] = [];
   private endpointMap: Map<string, Endpoint> = new Map();
+  private packPaths: string[] = [];
   private logger: Logger;
 
   private constructor() {
@@ -67,6 +78,79 @@ export class EndpointLoader {
       this.logger.error(`Failed to load endpoints: ${error}`);
       this.endpoints = this.getDefaultEndpoints();
     }
+
+    this.loadSpecEndpoints(join(__dirname, '..', 'config', 'specs'));
+  }
+
+  /**
+   * Import endpoints from the API specs in the specs directory
+   * Endpoints defined in endpoints.json take precedence over imported endpoints with the same tool name
+   */
+  private loadSpecEndpoints(specsDir: string): void {
+    if (!existsSync(specsDir)) {
+      return;
+    }
+
+    const specFiles = readdirSync(specsDir)
+      .filter((file) => SPEC_FILE_PATTERN.test(file) && !file.endsWith(SPEC_OPTIONS_SUFFIX))
+      .sort();
+
+    for (const file of specFiles) {
+      try {
+        const specPath = join(specsDir, file);
+        const optionsPath = `${specPath}${SPEC_OPTIONS_SUFFIX}`;
+        const options: ApiSpecImportOptions = existsSync(optionsPath)
+          ? JSON.parse(readFileSync(optionsPath, 'utf-8'))
+          : {};
+
+        const document = parseApiSpec(readFileSync(specPath, 'utf-8'), file, loadYaml);
+        let imported = 0;
+        for (const endpoint of importApiSpec(document, file, options)) {
+          if (this.endpointMap.has(endpoint.toolName)) {
+            this.logger.warn(`Skipping ${endpoint.toolName} from ${file}: tool name is already defined`);
+            continue;
+          }
+          this.endpoints.push(endpoint);
+          this.endpointMap.set(endpoint.toolName, endpoint);
+          imported++;
+        }
+
+        this.logger.debug(`Imported ${imported} endpoints from API spec: ${file}`);
+      } catch (error) {
+        this.logger.error(`Failed to import API spec ${file}: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Load user-defined endpoint packs (pack files or directories of packs)
+   * Packs are kept across reloads
+   *
+   * @param packPaths - Paths of pack files or directories
+   * @returns Number of endpoints loaded from the packs
+   * @throws ValidationError if a pack is invalid or redefines an existing tool name
+   */
+  addEndpointPacks(packPaths: string[]): number {
+    let loaded = 0;
+
+    for (const packPath of packPaths) {
+      for (const pack of readEndpointPacks(packPath)) {
+        assertNoDuplicateToolNames(pack, this.endpointMap);
+        for (const endpoint of pack.endpoints) {
+          this.endpoints.push(endpoint);
+          this.endpointMap.set(endpoint.toolName, endpoint);
+        }
+
+        loaded += pack.endpoints.length;
+        this.logger.debug(`Loaded ${pack.endpoints.length} endpoints from endpoint pack: ${pack.source}`);
+      }
+
+      if (!this.packPaths.includes(packPath)) {
+        this.packPaths.push(packPath);
+      }
+    }
+
+    return loaded;
   }
 
   /**
@@ -114,6 +198,13 @@ export class EndpointLoader {
     return this.endpoints.filter((e) => e.apiType === 'scapi');
   }
 
+  /**
+   * Get all endpoints imported from API specs and endpoint packs
+   */
+  getImportedEndpoints(): Endpoint[] {
+    return this.endpoints.filter((e) => e.source !== undefined);
+  }
+
   /**
    * Get endpoint tool names
    */
@@ -142,5 +233,6 @@ export class EndpointLoader {
     this.endpoints = [];
     this.endpointMap.clear();
     this.loadEndpoints();
+    this.addEndpointPacks(this.packPaths);
   }
 }
@@ -0,0 +1,266 @@
+/**
+ * Endpoint Pack Utility
+ *
+ * Loads user-defined endpoint packs passed with `--endpoints` so that projects can expose
+ * their custom OCAPI resources and SCAPI endpoints as Data API tools without forking the
+ * server. A pack is a JSON file with the same shape as endpoints.json plus an optional
+ * namespace that is prepended to every tool name:
+ *
+ *   { "namespace": "acme", "endpoints": [{ "toolName": "get_loyalty_account", ... }] }
+ *
+ * Packs are validated against the Endpoint type and rejected as a whole when they contain
+ * invalid endpoints or tool names that are already registered.
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, join } from 'path';
+import { Endpoint } from '../types/types.js';
+import { ValidationError } from './validator.js';
+
+/**
+ * Endpoint pack loaded from a file
+ */
+export interface EndpointPack {
+  /** Path of the pack file */
+  source: string;
+  /** Namespace prepended to the tool names (namespace_toolName) */
+  namespace?: string;
+  /** Endpoints with namespaced tool names */
+  endpoints: Endpoint[];
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const PARAMETER_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array'];
+const PARAMETER_LOCATIONS = ['path', 'query', 'body'];
+
+/** MCP tool names are limited to 64 characters of letters, digits, underscores and hyphens */
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const NAMESPACE_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+/** Path parameter filled in by the Data API client for SCAPI endpoints */
+const ORGANIZATION_ID_PARAM = 'organizationId';
+
+const ENDPOINT_KEYS = new Set([
+  'toolName', 'path', 'description', 'method', 'readOnly', 'parameters', 'defaultBody', 'apiType',
+  'requiresSiteId', 'scopes', 'apiFamily', 'arrayBody', 'requestBody',
+]);
+const PARAMETER_KEYS = new Set(['name', 'description', 'type', 'required', 'in', 'enum', 'items', 'default']);
+
+/**
+ * Read endpoint packs from a pack file or from all .json files in a directory
+ *
+ * @param packPath - Path of a pack file or a directory of packs
+ * @returns Validated packs with namespaced tool names
+ * @throws ValidationError if a pack cannot be read or is invalid
+ */
+export function readEndpointPacks(packPath: string): EndpointPack[] {
+  if (!existsSync(packPath)) {
+    throw new ValidationError(`Endpoint pack does not exist: ${packPath}`);
+  }
+
+  const files = statSync(packPath).isDirectory()
+    ? readdirSync(packPath).filter((file) => file.endsWith('.json')).sort().map((file) => join(packPath, file))
+    : [packPath];
+
+  return files.map((file) => {
+    let content: unknown;
+    try {
+      content = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new ValidationError(`Invalid endpoint pack ${file}: ${error instanceof Error ? error.message : error}`);
+    }
+    return parseEndpointPack(content, file);
+  });
+}
+
+/**
+ * Validate the content of an endpoint pack and apply its namespace
+ *
+ * @param content - Parsed pack file content
+ * @param source - Pack file path, used in error messages and recorded on each endpoint
+ * @returns Validated pack
+ * @throws ValidationError listing every problem found in the pack
+ */
+export function parseEndpointPack(content: unknown, source: string): EndpointPack {
+  if (!isObject(content) || !Array.isArray(content.endpoints)) {
+    throw new ValidationError(`Invalid endpoint pack ${basename(source)}: expected an object with an "endpoints" array`);
+  }
+
+  const errors: string[] = [];
+  const namespace = content.namespace;
+  if (namespace !== undefined && (typeof namespace !== 'string' || !NAMESPACE_PATTERN.test(namespace))) {
+    errors.push('namespace must start with a letter and contain only letters, digits and underscores');
+  }
+
+  const toolNames = new Set<string>();
+  const endpoints: Endpoint[] = [];
+  content.endpoints.forEach((value: unknown, index: number) => {
+    const endpointErrors = validateEndpoint(value);
+    const label = isObject(value) && typeof value.toolName === 'string' ? value.toolName : `#${index}`;
+    errors.push(...endpointErrors.map((error) => `endpoints[${index}] (${label}): ${error}`));
+    if (endpointErrors.length > 0) {
+      return;
+    }
+
+    const endpoint = value as unknown as Endpoint;
+    const toolName = typeof namespace === 'string' ? `${namespace}_${endpoint.toolName}` : endpoint.toolName;
+    if (!TOOL_NAME_PATTERN.test(toolName)) {
+      errors.push(`endpoints[${index}] (${label}): namespaced tool name ${toolName} exceeds 64 characters`);
+    } else if (toolNames.has(toolName)) {
+      errors.push(`endpoints[${index}] (${label}): duplicate tool name ${toolName}`);
+    }
+    toolNames.add(toolName);
+    endpoints.push({ ...endpoint, toolName, source });
+  });
+
+  if (errors.length > 0) {
+    throw new ValidationError(`Invalid endpoint pack ${basename(source)}:\n  ${errors.join('\n  ')}`);
+  }
+
+  return { source, namespace: namespace as string | undefined, endpoints };
+}
+
+/**
+ * Check the tool names of a pack against the already registered endpoints
+ *
+ * @param pack - Validated endpoint pack
+ * @param registered - Registered endpoints by tool name
+ * @throws ValidationError if a tool name is already registered
+ */
+export function assertNoDuplicateToolNames(pack: EndpointPack, registered: Map<string, Endpoint>): void {
+  const duplicates = pack.endpoints
+    .filter((endpoint) => registered.has(endpoint.toolName))
+    .map((endpoint) => {
+      const existing = registered.get(endpoint.toolName)!;
+      return `${endpoint.toolName} (already defined by ${existing.source ? basename(existing.source) : 'endpoints.json'})`;
+    });
+
+  if (duplicates.length > 0) {
+    throw new ValidationError(
+      `Endpoint pack ${basename(pack.source)} redefines existing tools: ${duplicates.join(', ')}. ` +
+        'Set a "namespace" in the pack to prefix its tool names.',
+    );
+  }
+}
+
+/**
+ * Validate a value against the Endpoint type
+ *
+ * @returns Validation errors (empty when the endpoint is valid)
+ */
+export function validateEndpoint(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['endpoint must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!ENDPOINT_KEYS.has(key)) {
+      errors.push(`unknown property "${key}"`);
+    }
+  }
+
+  if (typeof value.toolName !== 'string' || !TOOL_NAME_PATTERN.test(value.toolName)) {
+    errors.push('toolName must be 1-64 letters, digits, underscores or hyphens');
+  }
+  if (typeof value.path !== 'string' || !value.path.startsWith('/')) {
+    errors.push('path must be a string starting with "/"');
+  }
+  if (typeof value.description !== 'string' || !value.description.trim()) {
+    errors.push('description must be a non-empty string');
+  }
+  if (!HTTP_METHODS.includes(value.method as string)) {
+    errors.push(`method must be one of ${HTTP_METHODS.join(', ')}`);
+  }
+  if (value.apiType !== 'ocapi' && value.apiType !== 'scapi') {
+    errors.push('apiType must be "ocapi" or "scapi"');
+  }
+  if (value.apiFamily !== undefined && value.apiFamily !== 'admin' && value.apiFamily !== 'shopper') {
+    errors.push('apiFamily must be "admin" or "shopper"');
+  }
+  if (value.apiFamily !== undefined && value.apiType !== 'scapi') {
+    errors.push('apiFamily is only supported for SCAPI endpoints');
+  }
+  for (const key of ['readOnly', 'requiresSiteId', 'arrayBody']) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+  for (const key of ['defaultBody', 'requestBody']) {
+    if (value[key] !== undefined && !isObject(value[key])) {
+      errors.push(`${key} must be an object`);
+    }
+  }
+  if (value.scopes !== undefined && !(Array.isArray(value.scopes) && value.scopes.every((s) => typeof s === 'string'))) {
+    errors.push('scopes must be an array of strings');
+  }
+
+  if (!Array.isArray(value.parameters)) {
+    errors.push('parameters must be an array');
+    return errors;
+  }
+
+  const parameterNames = new Set<string>();
+  value.parameters.forEach((param: unknown, index: number) => {
+    errors.push(...validateParameter(param).map((error) => `parameters[${index}]: ${error}`));
+    if (isObject(param) && typeof param.name === 'string') {
+      if (parameterNames.has(param.name)) {
+        errors.push(`parameters[${index}]: duplicate parameter ${param.name}`);
+      }
+      parameterNames.add(param.name);
+    }
+  });
+
+  // Every path placeholder needs a parameter (the SCAPI organization ID is filled in by the client)
+  if (typeof value.path === 'string') {
+    for (const [, name] of value.path.matchAll(/\{(\w+)\}/g)) {
+      if (!parameterNames.has(name) && !(value.apiType === 'scapi' && name === ORGANIZATION_ID_PARAM)) {
+        errors.push(`path parameter {${name}} is not declared in parameters`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a value against the EndpointParam type
+ */
+function validateParameter(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['parameter must be an object'];
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(value)) {
+    if (!PARAMETER_KEYS.has(key)) {
+      errors.push(`unknown property "${key}"`);
+    }
+  }
+  if (typeof value.name !== 'string' || !value.name) {
+    errors.push('name must be a non-empty string');
+  }
+  if (typeof value.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  if (!PARAMETER_TYPES.includes(value.type as string)) {
+    errors.push(`type must be one of ${PARAMETER_TYPES.join(', ')}`);
+  }
+  if (typeof value.required !== 'boolean') {
+    errors.push('required must be a boolean');
+  }
+  if (value.in !== undefined && !PARAMETER_LOCATIONS.includes(value.in as string)) {
+    errors.push(`in must be one of ${PARAMETER_LOCATIONS.join(', ')}`);
+  }
+  if (value.enum !== undefined && !Array.isArray(value.enum)) {
+    errors.push('enum must be an array');
+  }
+  if (value.items !== undefined && !isObject(value.items)) {
+    errors.push('items must be an object');
+  }
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
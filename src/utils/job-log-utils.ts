@@ -53,6 +53,7 @@ export class JobLogFormatters {
       level?: string;
       limit?: number;
       pattern?: string;
+      query?: string;
     },
   ): string {
     const parts = [operation];
@@ -73,6 +74,10 @@ export class JobLogFormatters {
       parts.push(`pattern="${params.pattern}"`);
     }
 
+    if (params.query) {
+      parts.push(`query="${params.query}"`);
+    }
+
     return parts.join(' ');
   }
 }
@@ -2,11 +2,27 @@ import { ToolSpec, LogToolValidators, LogMessageFormatter } from './log-tool-uti
 import { ValidationHelpers, CommonValidations } from '../core/handlers/validation-helpers.js';
 import { LogToolName, getLimit } from './log-tool-constants.js';
 
+/**
+ * Tools that are only available through LogToolHandler (see src/tool-configs/log-tool-config.ts)
+ */
+type HandlerLogToolName =
+  | 'tail_logs'
+  | 'get_latest_logs'
+  | 'get_quota_violations'
+  | 'get_api_deprecations'
+  | 'get_service_log_entries'
+  | 'get_security_log_entries'
+  | 'get_sql_log_entries'
+  | 'list_log_categories'
+  | 'cluster_errors'
+  | 'get_stack_traces'
+  | 'trace_request';
+
 /**
  * Configuration for standard log tools
  * Maps each tool to its validation, execution, and messaging logic
  */
-export const LOG_TOOL_CONFIG: Record<LogToolName, ToolSpec> = {
+export const LOG_TOOL_CONFIG: Record<Exclude<LogToolName, HandlerLogToolName>, ToolSpec> = {
   get_latest_error: {
     defaults: (args) => ({
       limit: getLimit(args.limit as number, 'latest'),
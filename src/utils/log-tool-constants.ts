@@ -3,6 +3,8 @@
  * Centralizes defaults, types, and configuration
  */
 
+import type { LogCategory } from '../clients/logs/log-types.js';
+
 // Log levels enum for type safety
 export enum LogLevel {
   ERROR = 'error',
@@ -19,6 +21,15 @@ export const DEFAULT_LIMITS = {
   jobEntries: 50,
   jobSearch: 20,
   jobFiles: 10,
+  tail: 50,
+  categorySummary: 20,
+  serviceEntries: 50,
+  securityEntries: 50,
+  sqlEntries: 20,
+  loggerCategories: 50,
+  clusters: 20,
+  stackTraces: 10,
+  traceEntries: 100,
 } as const;
 
 // Tool name sets for O(1) lookup
@@ -31,6 +42,17 @@ export const LOG_TOOL_NAMES_SET = new Set([
   'search_logs',
   'list_log_files',
   'get_log_file_contents',
+  'tail_logs',
+  'get_latest_logs',
+  'get_quota_violations',
+  'get_api_deprecations',
+  'get_service_log_entries',
+  'get_security_log_entries',
+  'get_sql_log_entries',
+  'list_log_categories',
+  'cluster_errors',
+  'get_stack_traces',
+  'trace_request',
 ] as const);
 
 export const JOB_LOG_TOOL_NAMES_SET = new Set([
@@ -43,18 +65,108 @@ export const JOB_LOG_TOOL_NAMES_SET = new Set([
 
 // Type definitions
 export type LogToolName = 'get_latest_error' | 'get_latest_warn' | 'get_latest_info' | 'get_latest_debug' |
-                         'summarize_logs' | 'search_logs' | 'list_log_files' | 'get_log_file_contents';
+                         'summarize_logs' | 'search_logs' | 'list_log_files' | 'get_log_file_contents' | 'tail_logs' |
+                         'get_latest_logs' | 'get_quota_violations' | 'get_api_deprecations' |
+                         'get_service_log_entries' | 'get_security_log_entries' | 'get_sql_log_entries' |
+                         'list_log_categories' | 'cluster_errors' |
+                         'get_stack_traces' | 'trace_request';
 
 export type JobLogToolName = 'get_latest_job_log_files' | 'search_job_logs_by_name' | 'get_job_log_entries' |
                             'search_job_logs' | 'get_job_execution_summary';
 
 // Typed argument interfaces for each tool
 export type LogToolArgs =
-  | { tool: 'get_latest_error' | 'get_latest_warn' | 'get_latest_info' | 'get_latest_debug'; limit?: number; date?: string }
+  | {
+    tool: 'get_latest_error' | 'get_latest_warn' | 'get_latest_info' | 'get_latest_debug';
+    limit?: number;
+    date?: string;
+    category?: string;
+    cartridge?: string;
+  }
   | { tool: 'summarize_logs'; date?: string }
-  | { tool: 'search_logs'; pattern: string; logLevel?: LogLevel; limit?: number; date?: string }
+  | {
+    tool: 'search_logs';
+    pattern: string;
+    logLevel?: LogLevel;
+    limit?: number;
+    date?: string;
+    category?: string;
+    cartridge?: string;
+  }
   | { tool: 'list_log_files' }
-  | { tool: 'get_log_file_contents'; filename: string; maxBytes?: number; tailOnly?: boolean };
+  | { tool: 'get_log_file_contents'; filename: string; maxBytes?: number; tailOnly?: boolean }
+  | { tool: 'tail_logs'; cursor?: string; levels?: LogLevel[]; pattern?: string; limit?: number; waitSeconds?: number }
+  | {
+    tool: 'get_latest_logs';
+    category: LogCategory;
+    cartridge?: string;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  }
+  | { tool: 'get_quota_violations' | 'get_api_deprecations'; limit?: number; date?: string; from?: string; to?: string }
+  | {
+    tool: 'get_service_log_entries';
+    serviceName?: string;
+    level?: LogLevel;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  }
+  | {
+    tool: 'get_security_log_entries';
+    category?: string;
+    level?: LogLevel;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  }
+  | {
+    tool: 'get_sql_log_entries';
+    minDurationMs?: number;
+    level?: LogLevel;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  }
+  | { tool: 'list_log_categories'; cartridge?: string; limit?: number; date?: string; from?: string; to?: string }
+  | {
+    tool: 'cluster_errors';
+    levels?: LogLevel[];
+    category?: string;
+    cartridge?: string;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  }
+  | {
+    tool: 'get_stack_traces';
+    levels?: LogLevel[];
+    pattern?: string;
+    category?: string;
+    cartridge?: string;
+    contextLines?: number;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  }
+  | {
+    tool: 'trace_request';
+    sessionId?: string;
+    requestId?: string;
+    orderNo?: string;
+    followSessions?: boolean;
+    limit?: number;
+    date?: string;
+    from?: string;
+    to?: string;
+  };
 
 export type JobLogToolArgs =
   | { tool: 'get_latest_job_log_files'; limit?: number }
@@ -1,7 +1,22 @@
 import { ToolArguments } from '../core/handlers/base-handler.js';
 import { SFCCLogClient } from '../clients/log-client.js';
+import { LOG_CONSTANTS } from '../clients/logs/log-constants.js';
+import { LogQuery } from '../clients/logs/log-query.js';
+import type {
+  LogEntryFilter,
+  LogQueryRequest,
+  LogTimeWindow,
+  RequestTraceIdType,
+} from '../clients/logs/log-types.js';
 import { LogLevel, isValidLogLevel } from './log-tool-constants.js';
 
+/** Arguments naming the identifier of a request trace */
+const TRACE_ID_ARGS: Record<string, RequestTraceIdType> = {
+  sessionId: 'session',
+  requestId: 'request',
+  orderNo: 'order',
+};
+
 /**
  * Configuration interface for tool dispatch
  */
@@ -22,6 +37,31 @@ export class LogToolValidators {
     }
   }
 
+  /**
+   * Validate an optional non-empty array of log levels
+   */
+  static validateLogLevels(levels: unknown, toolName: string): void {
+    if (levels === undefined) {
+      return;
+    }
+    if (!Array.isArray(levels) || levels.length === 0) {
+      throw new Error(`levels must be a non-empty array for ${toolName}`);
+    }
+    for (const level of levels) {
+      if (!(LOG_CONSTANTS.LOG_LEVELS as readonly string[]).includes(level)) {
+        throw new Error(`Invalid log level '${level}' for ${toolName}. Valid levels: ${LOG_CONSTANTS.LOG_LEVELS.join(', ')}`);
+      }
+    }
+  }
+
+  static validateLogCategory(category: string, toolName: string): void {
+    if (!(LOG_CONSTANTS.LOG_CATEGORIES as readonly string[]).includes(category)) {
+      throw new Error(
+        `Invalid log category '${category}' for ${toolName}. Valid categories: ${LOG_CONSTANTS.LOG_CATEGORIES.join(', ')}`,
+      );
+    }
+  }
+
   static validateLimit(limit: number | undefined, toolName: string): void {
     if (limit !== undefined) {
       // Validate type first
@@ -48,6 +88,129 @@ export class LogToolValidators {
     }
   }
 
+  static validateWaitSeconds(waitSeconds: number | undefined, maxSeconds: number, toolName: string): void {
+    if (waitSeconds !== undefined) {
+      if (typeof waitSeconds !== 'number' || isNaN(waitSeconds) || waitSeconds < 0 || waitSeconds > maxSeconds) {
+        throw new Error(`Invalid waitSeconds '${waitSeconds}' for ${toolName}. Must be between 0 and ${maxSeconds}`);
+      }
+    }
+  }
+
+  /**
+   * Validate an optional log level of the entries to return ('all' is not a level of an entry)
+   */
+  static validateEntryLevel(level: unknown, toolName: string): void {
+    if (level !== undefined && !(LOG_CONSTANTS.LOG_LEVELS as readonly string[]).includes(level as string)) {
+      throw new Error(`Invalid log level '${level}' for ${toolName}. Valid levels: ${LOG_CONSTANTS.LOG_LEVELS.join(', ')}`);
+    }
+  }
+
+  static validateMinDuration(minDurationMs: unknown, toolName: string): void {
+    if (minDurationMs !== undefined &&
+      (typeof minDurationMs !== 'number' || !Number.isFinite(minDurationMs) || minDurationMs < 0)) {
+      throw new Error(`Invalid minDurationMs '${minDurationMs}' for ${toolName}. Must be a non-negative number`);
+    }
+  }
+
+  static validateContextLines(contextLines: number | undefined, maxLines: number, toolName: string): void {
+    if (contextLines !== undefined &&
+      (!Number.isInteger(contextLines) || contextLines < 0 || contextLines > maxLines)) {
+      throw new Error(`Invalid contextLines '${contextLines}' for ${toolName}. Must be between 0 and ${maxLines}`);
+    }
+  }
+
+  /**
+   * Validate the from/to time window arguments of a log query
+   */
+  static validateTimeWindow(args: ToolArguments, toolName: string): void {
+    const window = LogToolUtils.toTimeWindow(args, toolName);
+    if (!window) {
+      return;
+    }
+
+    if (args.date) {
+      throw new Error(`Use either date or from/to for ${toolName}, not both`);
+    }
+    if (window.from > window.to) {
+      throw new Error(`Invalid time window for ${toolName}: from must not be after to`);
+    }
+    const maxMs = LOG_CONSTANTS.MAX_TIME_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+    if (window.to.getTime() - window.from.getTime() > maxMs) {
+      throw new Error(`Invalid time window for ${toolName}: must not span more than ${LOG_CONSTANTS.MAX_TIME_WINDOW_DAYS} days`);
+    }
+  }
+
+  /**
+   * Validate the logger category and cartridge filter arguments
+   *
+   * @param fields - The filter arguments the tool accepts
+   */
+  static validateEntryFilter(
+    args: ToolArguments,
+    toolName: string,
+    fields: readonly ('category' | 'cartridge')[] = ['category', 'cartridge'],
+  ): void {
+    for (const field of fields) {
+      const value = args[field];
+      if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+        throw new Error(`${field} must be a non-empty string for ${toolName}`);
+      }
+    }
+  }
+
+  /**
+   * Validate that exactly one of the sessionId, requestId and orderNo arguments is a non-empty string
+   */
+  static validateTraceId(args: ToolArguments, toolName: string): void {
+    const given = Object.keys(TRACE_ID_ARGS).filter(name => args[name] !== undefined);
+    if (given.length !== 1) {
+      throw new Error(`Exactly one of sessionId, requestId and orderNo is required for ${toolName}`);
+    }
+    const value = args[given[0]];
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(`${given[0]} must be a non-empty string for ${toolName}`);
+    }
+    if (args.followSessions !== undefined && typeof args.followSessions !== 'boolean') {
+      throw new Error(`followSessions must be a boolean for ${toolName}`);
+    }
+  }
+
+  /**
+   * Validate the pattern/query arguments of a log search
+   * Exactly one of pattern and query is required; caseSensitive and contextLines only apply to queries
+   */
+  static validateSearchArgs(args: ToolArguments, toolName: string): void {
+    if (args.query === undefined) {
+      if (typeof args.pattern !== 'string' || args.pattern.trim().length === 0) {
+        throw new Error('pattern must be a non-empty string (or use query)');
+      }
+      // Clients may send the advertised defaults (false, 0) with pattern
+      const caseSensitive = args.caseSensitive !== undefined && args.caseSensitive !== false;
+      const contextLines = args.contextLines !== undefined && args.contextLines !== 0;
+      if (caseSensitive || contextLines) {
+        throw new Error(`caseSensitive and contextLines require query for ${toolName}`);
+      }
+      return;
+    }
+
+    if (args.pattern !== undefined) {
+      throw new Error(`Use either pattern or query for ${toolName}, not both`);
+    }
+    if (typeof args.query !== 'string' || args.query.trim().length === 0) {
+      throw new Error('query must be a non-empty string');
+    }
+    if (args.caseSensitive !== undefined && typeof args.caseSensitive !== 'boolean') {
+      throw new Error(`caseSensitive must be a boolean for ${toolName}`);
+    }
+    this.validateContextLines(args.contextLines as number | undefined, LOG_CONSTANTS.MAX_CONTEXT_LINES, toolName);
+
+    try {
+      LogQuery.parse(args.query, { caseSensitive: args.caseSensitive as boolean | undefined });
+    } catch (error) {
+      throw new Error(`Invalid query for ${toolName}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   static validateFilename(filename: string, toolName: string): void {
     if (!filename || filename.trim().length === 0) {
       throw new Error(`Filename is required for ${toolName}`);
@@ -64,12 +227,71 @@ export class LogToolValidators {
  * Message formatting utilities for log tools
  */
 export class LogMessageFormatter {
-  static formatLatestLogs(level: string, limit: number, date?: string): string {
-    return `Fetching latest ${level} logs limit=${limit} date=${date ?? 'today'}`;
+  static formatLatestLogs(level: string, limit: number, date?: string, from?: string, to?: string): string {
+    return `Fetching latest ${level} logs limit=${limit} ${this.formatPeriod(date, from, to)}`;
+  }
+
+  static formatCategoryAnalysis(subject: string, limit: number, date?: string, from?: string, to?: string): string {
+    return `Analyzing ${subject} limit=${limit} ${this.formatPeriod(date, from, to)}`;
+  }
+
+  static formatTraceRequest(
+    ids: Record<string, unknown>,
+    limit: number,
+    date?: string,
+    from?: string,
+    to?: string,
+  ): string {
+    const traced = Object.entries(ids)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${name}=${value}`);
+    return `Tracing ${traced.join(' ')} limit=${limit} ${this.formatPeriod(date, from, to)}`;
+  }
+
+  static formatServiceLogEntries(
+    serviceName: string | undefined,
+    level: string | undefined,
+    limit: number,
+    date?: string,
+    from?: string,
+    to?: string,
+  ): string {
+    const period = this.formatPeriod(date, from, to);
+    return `Fetching service log entries service=${serviceName ?? 'all'} level=${level ?? 'all'} limit=${limit} ${period}`;
+  }
+
+  static formatSecurityLogEntries(
+    category: string | undefined,
+    level: string | undefined,
+    limit: number,
+    date?: string,
+    from?: string,
+    to?: string,
+  ): string {
+    const period = this.formatPeriod(date, from, to);
+    return `Fetching security log entries category=${category ?? 'all'} level=${level ?? 'all'} limit=${limit} ${period}`;
+  }
+
+  static formatSqlLogEntries(
+    minDurationMs: number | undefined,
+    level: string | undefined,
+    limit: number,
+    date?: string,
+    from?: string,
+    to?: string,
+  ): string {
+    const period = this.formatPeriod(date, from, to);
+    return `Fetching SQL log entries minDurationMs=${minDurationMs ?? 0} level=${level ?? 'all'} limit=${limit} ${period}`;
+  }
+
+  private static formatPeriod(date?: string, from?: string, to?: string): string {
+    return from ?? to ? `from=${from ?? 'start of day'} to=${to ?? 'now'}` : `date=${date ?? 'today'}`;
   }
 
-  static formatSummarizeLogs(date?: string): string {
-    return `Summarizing logs for date ${date ?? 'today'}`;
+  static formatSummarizeLogs(date?: string, from?: string, to?: string): string {
+    return from ?? to
+      ? `Summarizing logs from ${from ?? 'start of day'} to ${to ?? 'now'}`
+      : `Summarizing logs for date ${date ?? 'today'}`;
   }
 
   static formatSearchLogs(pattern: string, logLevel?: string, limit?: number, _date?: string): string {
@@ -77,6 +299,10 @@ export class LogMessageFormatter {
     return `Searching logs pattern="${pattern}" level=${logLevel ?? 'all'} limit=${limit ?? 20}`;
   }
 
+  static formatTailLogs(cursor?: string, levels?: string[], pattern?: string, waitSeconds?: number): string {
+    return `Tailing logs cursor=${cursor ?? 'new'} levels=${levels?.join(',') ?? 'all'} pattern="${pattern ?? ''}" wait=${waitSeconds ?? 0}s`;
+  }
+
   static formatListLogFiles(): string {
     return 'Listing log files';
   }
@@ -99,6 +325,82 @@ export class LogMessageFormatter {
  * Utility functions for argument processing
  */
 export class LogToolUtils {
+  /**
+   * Get the search pattern of a log search: the pattern text, or the query with its options
+   */
+  static toSearchPattern(args: ToolArguments): string | LogQueryRequest {
+    if (args.query === undefined) {
+      return args.pattern as string;
+    }
+    return {
+      query: args.query as string,
+      caseSensitive: args.caseSensitive as boolean | undefined,
+      contextLines: args.contextLines as number | undefined,
+    };
+  }
+
+  /**
+   * Get the logger category and cartridge filter of a log query
+   *
+   * @param fields - The filter arguments the tool accepts
+   * @returns The filter, or undefined if none of the arguments is given
+   */
+  static toEntryFilter(
+    args: ToolArguments,
+    fields: readonly ('category' | 'cartridge')[] = ['category', 'cartridge'],
+  ): LogEntryFilter | undefined {
+    const filter: LogEntryFilter = {};
+    for (const field of fields) {
+      if (typeof args[field] === 'string') {
+        filter[field] = (args[field] as string).trim();
+      }
+    }
+    return Object.keys(filter).length > 0 ? filter : undefined;
+  }
+
+  /**
+   * Get the identifier of a request trace from the sessionId, requestId or orderNo argument
+   */
+  static toTraceId(args: ToolArguments): { idType: RequestTraceIdType; id: string } {
+    const name = Object.keys(TRACE_ID_ARGS).find(key => typeof args[key] === 'string')!;
+    return { idType: TRACE_ID_ARGS[name], id: (args[name] as string).trim() };
+  }
+
+  /**
+   * Convert the from/to arguments of a log query into a time window
+   *
+   * Timestamps without a UTC offset are read as GMT like the log timestamps. A missing from
+   * defaults to the start of the GMT day of to, and a missing to defaults to now.
+   *
+   * @returns The time window, or undefined if neither from nor to is given
+   * @throws Error if a timestamp cannot be parsed
+   */
+  static toTimeWindow(args: ToolArguments, toolName: string, now: Date = new Date()): LogTimeWindow | undefined {
+    if (args.from === undefined && args.to === undefined) {
+      return undefined;
+    }
+
+    const to = args.to === undefined ? now : LogToolUtils.parseTimestamp(args.to, 'to', toolName);
+    const from = args.from === undefined
+      ? new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate()))
+      : LogToolUtils.parseTimestamp(args.from, 'from', toolName);
+    return { from, to };
+  }
+
+  private static parseTimestamp(value: unknown, name: string, toolName: string): Date {
+    const text = typeof value === 'string' ? value.trim().replace(' ', 'T') : '';
+    const hasTime = text.includes('T');
+    const hasOffset = /(Z|[+-]\d{2}:?\d{2})$/i.test(text);
+    const date = new Date(hasTime && !hasOffset ? `${text}Z` : text);
+
+    if (!text || isNaN(date.getTime())) {
+      throw new Error(
+        `Invalid ${name} '${value}' for ${toolName}. Must be an ISO 8601 timestamp such as 2025-08-15T14:05:00Z`,
+      );
+    }
+    return date;
+  }
+
   static applyDefaults(spec: ToolSpec, args: ToolArguments): ToolArguments {
     if (!spec.defaults) {
       return args;
@@ -0,0 +1,203 @@
+/**
+ * Pagination Utility
+ *
+ * Provides automatic pagination for OCAPI and SCAPI list and search requests. The first
+ * page is fetched to learn the total; the remaining pages are then requested with bounded
+ * concurrency by incrementing the start index. Responses without a total are paged by
+ * following their `next` link. All pages are merged into a single result with paging
+ * metadata.
+ */
+
+import { Endpoint } from '../types/types.js';
+import { ValidationError } from './validator.js';
+
+/** Maximum number of page requests in flight at the same time */
+export const DEFAULT_PAGE_CONCURRENCY = 4;
+
+/** Page size used when the caller does not specify one (OCAPI and SCAPI maximum) */
+export const DEFAULT_PAGE_SIZE = 200;
+
+/** Upper bound of aggregated results, also applied to `all: true` */
+export const MAX_PAGINATED_RESULTS = 10000;
+
+/**
+ * Options for automatic pagination
+ */
+export interface PaginationOptions {
+  /** Fetch all pages (up to MAX_PAGINATED_RESULTS) */
+  all?: boolean;
+  /** Maximum number of results to aggregate */
+  maxResults?: number;
+  /** Maximum number of concurrent page requests */
+  concurrency?: number;
+}
+
+/**
+ * Names of the paging parameters of an API (OCAPI: start/count, SCAPI: offset/limit)
+ */
+export interface PageParamNames {
+  start: 'start' | 'offset';
+  count: 'count' | 'limit';
+}
+
+/**
+ * Page request passed to the page fetcher
+ */
+export interface PageRequest {
+  start: number;
+  count: number;
+}
+
+/**
+ * Paging metadata of an aggregated result
+ */
+export interface PaginationInfo {
+  /** Start index of the first page */
+  start: number;
+  /** Number of aggregated results */
+  returned: number;
+  /** Total number of results reported by the API (if any) */
+  total?: number;
+  /** Number of page requests made */
+  pages: number;
+  /** Whether more results were available than were aggregated */
+  truncated: boolean;
+}
+
+/**
+ * Get the paging parameter names of an endpoint
+ *
+ * @returns Paging parameter names, or undefined if the endpoint is not paginated
+ */
+export function getPageParamNames(endpoint: Pick<Endpoint, 'parameters'>): PageParamNames | undefined {
+  const names = new Set(endpoint.parameters.map((param) => param.name));
+  if (names.has('start') && names.has('count')) {
+    return { start: 'start', count: 'count' };
+  }
+  if (names.has('offset') && names.has('limit')) {
+    return { start: 'offset', count: 'limit' };
+  }
+  return undefined;
+}
+
+/**
+ * Extract pagination options from tool arguments
+ *
+ * @returns Pagination options, or undefined if neither `all` nor `maxResults` is set
+ * @throws ValidationError if maxResults is not a positive integer
+ */
+export function getPaginationOptions(args: Record<string, any>): PaginationOptions | undefined {
+  const { all, maxResults } = args;
+  if (maxResults !== undefined && (!Number.isInteger(maxResults) || maxResults < 1)) {
+    throw new ValidationError('maxResults must be a positive integer');
+  }
+  if (all !== true && maxResults === undefined) {
+    return undefined;
+  }
+  return maxResults === undefined ? { all: true } : { all: all === true, maxResults };
+}
+
+/**
+ * Fetch pages until the total (or the result limit) is reached and merge them
+ *
+ * @param fetchPage - Fetches one page; must throw on errors
+ * @param firstPage - Start index and page size of the first page
+ * @param options - Pagination options
+ * @param pageParams - Names of the count field in the merged result
+ * @returns First page response with all items merged and a `pagination` metadata object
+ */
+export async function fetchAllPages(
+  fetchPage: (page: PageRequest) => Promise<any>,
+  firstPage: PageRequest,
+  options: PaginationOptions,
+  pageParams: PageParamNames = { start: 'start', count: 'count' },
+): Promise<Record<string, any>> {
+  const limit = Math.min(options.maxResults ?? MAX_PAGINATED_RESULTS, MAX_PAGINATED_RESULTS);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_PAGE_CONCURRENCY);
+  const start = firstPage.start;
+
+  const first = await fetchPage({ start, count: Math.min(firstPage.count, limit) });
+  const itemsKey = Array.isArray(first?.hits) || !Array.isArray(first?.data) ? 'hits' : 'data';
+  const items: any[] = [...(first?.[itemsKey] ?? [])];
+  const total: number | undefined = typeof first?.total === 'number' ? first.total : undefined;
+  // The API may cap the page size below the requested count
+  const pageSize = items.length;
+  let pages = 1;
+  let next = first?.next;
+
+  if (total !== undefined && pageSize > 0) {
+    const end = Math.min(start + limit, total);
+    const requests: PageRequest[] = [];
+    for (let pageStart = start + pageSize; pageStart < end; pageStart += pageSize) {
+      requests.push({ start: pageStart, count: Math.min(pageSize, end - pageStart) });
+    }
+
+    const results = await mapWithConcurrency(requests, concurrency, fetchPage);
+    for (const result of results) {
+      items.push(...(result?.[itemsKey] ?? []));
+    }
+    pages += results.length;
+  } else {
+    // Without a total, follow the next links one page at a time
+    while (next && items.length < limit && pageSize > 0) {
+      const nextStart = getNextStart(next, pageParams) ?? start + items.length;
+      const result = await fetchPage({ start: nextStart, count: Math.min(pageSize, limit - items.length) });
+      const pageItems: any[] = result?.[itemsKey] ?? [];
+      items.push(...pageItems);
+      pages++;
+      next = pageItems.length > 0 ? result?.next : undefined;
+    }
+  }
+
+  const merged = items.slice(0, limit);
+  const pagination: PaginationInfo = {
+    start,
+    returned: merged.length,
+    total,
+    pages,
+    truncated: total !== undefined ? start + merged.length < total : items.length > limit || !!next,
+  };
+
+  const result: Record<string, any> = { ...first, [itemsKey]: merged, [pageParams.count]: merged.length, pagination };
+  delete result.next;
+  delete result.previous;
+  return result;
+}
+
+/**
+ * Get the start index of the next page from a `next` link
+ * OCAPI search results return a result_page object, list results a URL with the start parameter
+ */
+function getNextStart(next: unknown, pageParams: PageParamNames): number | undefined {
+  if (typeof next === 'object' && next !== null) {
+    const value = (next as Record<string, unknown>)[pageParams.start];
+    return typeof value === 'number' ? value : undefined;
+  }
+  if (typeof next === 'string') {
+    const match = new RegExp(`[?&]${pageParams.start}=(\\d+)`).exec(next);
+    return match ? Number(match[1]) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Map items with at most `concurrency` promises in flight, preserving the order of results
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,95 @@
+/**
+ * Client-Side Rate Limiter
+ *
+ * Token buckets that keep the number of requests sent to a host below a configured rate.
+ * Buckets are shared per host so that all clients talking to the same SFCC instance
+ * (OCAPI modules, Data API clients, paginated requests) draw from the same budget, and a
+ * throttling response received by one client pauses the others until the host recovers.
+ */
+
+/**
+ * Token bucket allowing `requestsPerSecond` requests per second with bursts of the same size
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private readonly capacity: number;
+
+  constructor(private readonly requestsPerSecond: number) {
+    this.capacity = Math.max(1, requestsPerSecond);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait until a request may be sent and consume one token
+   */
+  async acquire(): Promise<void> {
+    for (;;) {
+      const waitMs = this.tryAcquire();
+      if (waitMs === 0) {
+        return;
+      }
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Hold all requests until the given time (e.g. from a Retry-After header)
+   */
+  pauseUntil(timestamp: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, timestamp);
+  }
+
+  /**
+   * Consume a token if one is available
+   *
+   * @returns 0 if a token was consumed, otherwise the milliseconds to wait before trying again
+   */
+  private tryAcquire(): number {
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      return this.pausedUntil - now;
+    }
+
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.requestsPerSecond);
+    this.lastRefill = now;
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+  }
+}
+
+const hostBuckets = new Map<string, TokenBucket>();
+
+/**
+ * Get the shared token bucket of a host
+ *
+ * @param host - Host name (with port) the requests are sent to
+ * @param requestsPerSecond - Rate used when the bucket is created
+ */
+export function getHostRateLimiter(host: string, requestsPerSecond: number): TokenBucket {
+  let bucket = hostBuckets.get(host);
+  if (!bucket) {
+    bucket = new TokenBucket(requestsPerSecond);
+    hostBuckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Remove all host buckets so that they are recreated with the current rate
+ */
+export function resetHostRateLimiters(): void {
+  hostBuckets.clear();
+}
+
+/**
+ * Resolve after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,75 @@
+/**
+ * SCAPI URL Builder Utility
+ *
+ * Provides centralized URL and scope construction for SCAPI (Salesforce Commerce API)
+ * endpoints. Localhost hostnames are routed to the mock server instead of the
+ * short-code based SCAPI host.
+ */
+
+import { SCAPIConfig, SLASConfig } from '../types/types.js';
+
+/** Prefix of SCAPI organization IDs (f_ecom_{realm}_{instance}) */
+const ORGANIZATION_ID_PREFIX = 'f_ecom_';
+
+/**
+ * Build the base URL for SCAPI endpoints
+ *
+ * @param config - SCAPI configuration object
+ * @returns Base URL for SCAPI endpoints (API family paths are appended by the endpoint)
+ * @throws Error if the short code is missing for a live instance
+ */
+export function buildSCAPIBaseUrl(config: Pick<SCAPIConfig, 'hostname' | 'shortCode'>): string {
+  const hostname = config.hostname;
+
+  // Check if hostname is localhost (with or without port) for the mock server
+  if (hostname === 'localhost' || hostname.startsWith('localhost:')) {
+    const protocol = hostname.includes('://') ? '' : 'http://';
+    return `${protocol}${hostname}`;
+  }
+
+  if (!config.shortCode) {
+    throw new Error('SCAPI requests require a short code (set "short-code" in dw.json)');
+  }
+
+  return `https://${config.shortCode}.api.commercecloud.salesforce.com`;
+}
+
+/**
+ * Get the tenant ID from a SCAPI organization ID
+ *
+ * @param organizationId - Organization ID (e.g., f_ecom_zzxy_prd)
+ * @returns Tenant ID (e.g., zzxy_prd)
+ */
+export function getSCAPITenantId(organizationId: string): string {
+  return organizationId.startsWith(ORGANIZATION_ID_PREFIX)
+    ? organizationId.slice(ORGANIZATION_ID_PREFIX.length)
+    : organizationId;
+}
+
+/**
+ * Build the Account Manager scope string for SCAPI Admin API access
+ *
+ * @param config - SCAPI configuration object
+ * @param scopes - API scopes required by the endpoint (e.g., sfcc.products)
+ * @returns Space-separated scope string including the tenant scope
+ * @throws Error if the organization ID is missing
+ */
+export function buildSCAPIAdminScope(config: SCAPIConfig, scopes: string[]): string {
+  if (!config.organizationId) {
+    throw new Error('SCAPI requests require an organization ID (set "organization-id" in dw.json)');
+  }
+
+  const tenantScope = `SALESFORCE_COMMERCE_API:${getSCAPITenantId(config.organizationId)}`;
+  return [tenantScope, ...[...scopes].sort()].join(' ');
+}
+
+/**
+ * Build the URL of a SLAS (Shopper Login and API Access Service) OAuth action
+ *
+ * @param config - SLAS configuration object
+ * @param action - OAuth action (token exchange, shopper login, or guest authorization)
+ * @returns Full URL of the SLAS action on the SCAPI host
+ */
+export function buildSLASUrl(config: SLASConfig, action: 'token' | 'login' | 'authorize'): string {
+  return `${buildSCAPIBaseUrl(config)}/shopper/auth/v1/organizations/${config.organizationId}/oauth2/${action}`;
+}
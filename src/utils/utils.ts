@@ -19,6 +19,25 @@ export function getCurrentDate(): string {
   return `${year}${month}${day}`;
 }
 
+/**
+ * Get every GMT date between two points in time in YYYYMMDD format
+ * Used for finding the log files of a time window (log file names use the GMT date)
+ *
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @returns Date strings in YYYYMMDD format, oldest first
+ */
+export function getDatesInRange(from: Date, to: Date): string[] {
+  const dates: string[] = [];
+  const day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate()));
+
+  while (day.getTime() <= to.getTime()) {
+    dates.push(day.toISOString().slice(0, 10).replace(/-/g, ''));
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  return dates;
+}
+
 /**
  * Convert bytes to human-readable format
  *
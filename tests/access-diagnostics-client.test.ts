@@ -0,0 +1,191 @@
+/**
+ * Tests for OCAPIAccessDiagnosticsClient
+ * Tests probing of resource permissions and the generated OCAPI settings
+ */
+
+import {
+  OCAPIAccessDiagnosticsClient,
+  OCAPIAccessProbe,
+  PROBE_PLACEHOLDER_ID,
+} from '../src/clients/ocapi/access-diagnostics-client.js';
+import { HttpRequestError } from '../src/clients/base/http-client.js';
+import { OCAPIFaultError } from '../src/clients/base/ocapi-fault.js';
+import { TokenManager } from '../src/clients/base/oauth-token.js';
+import { HttpErrorKind } from '../src/types/types.js';
+
+// Mock TokenManager
+jest.mock('../src/clients/base/oauth-token.js');
+
+// Mock Logger
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      methodEntry: jest.fn(),
+      methodExit: jest.fn(),
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      timing: jest.fn(),
+      log: jest.fn(),
+      info: jest.fn(),
+    })),
+  },
+}));
+
+/** Error thrown by the HTTP client for an unsuccessful response */
+function createError(status: number, kind: HttpErrorKind, faultType?: string): HttpRequestError {
+  const error = new HttpRequestError(`Request failed: ${status}`, kind, { method: 'GET', url: '/', status, attempts: 1 });
+  return faultType ? new OCAPIFaultError(error, { type: faultType, message: faultType }) : error;
+}
+
+describe('OCAPIAccessDiagnosticsClient', () => {
+  let client: OCAPIAccessDiagnosticsClient;
+  let request: { get: jest.SpyInstance; post: jest.SpyInstance; patch: jest.SpyInstance; delete: jest.SpyInstance };
+
+  const probe = (overrides: Partial<OCAPIAccessProbe>): OCAPIAccessProbe => ({
+    path: '/code_versions',
+    method: 'get',
+    readOnly: true,
+    usedBy: ['get_code_versions'],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (TokenManager.getInstance as jest.Mock).mockReturnValue({ getValidToken: jest.fn() });
+
+    client = new OCAPIAccessDiagnosticsClient({
+      hostname: 'test-instance.demandware.net',
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      version: 'v23_2',
+    });
+    request = {
+      get: jest.spyOn(client as any, 'get').mockResolvedValue({}),
+      post: jest.spyOn(client as any, 'post').mockResolvedValue({}),
+      patch: jest.spyOn(client as any, 'patch').mockResolvedValue({}),
+      delete: jest.spyOn(client as any, 'delete').mockResolvedValue({}),
+    };
+  });
+
+  describe('probeAccess', () => {
+    it('should report allowed resources', async () => {
+      const result = await client.probeAccess(probe({ queryParams: { count: '1' } }));
+
+      expect(request.get).toHaveBeenCalledWith('/code_versions?count=1');
+      expect(result).toEqual({
+        resourceId: '/code_versions',
+        method: 'get',
+        access: 'allowed',
+        usedBy: ['get_code_versions'],
+        status: 200,
+      });
+    });
+
+    it('should report denied resources', async () => {
+      request.post.mockRejectedValue(createError(403, 'auth', 'ClientAccessForbiddenException'));
+
+      const result = await client.probeAccess(probe({
+        path: '/sites/{site_id}/order_search',
+        method: 'post',
+        body: { query: { match_all_query: {} }, count: 1 },
+      }), { siteId: 'RefArch' });
+
+      expect(request.post).toHaveBeenCalledWith('/sites/RefArch/order_search', { query: { match_all_query: {} }, count: 1 });
+      expect(result).toMatchObject({
+        resourceId: '/sites/*/order_search',
+        access: 'denied',
+        status: 403,
+        fault: 'ClientAccessForbiddenException',
+      });
+    });
+
+    it('should treat rejected parameters as allowed and unknown resources as not found', async () => {
+      request.get
+        .mockRejectedValueOnce(createError(404, 'client', 'NotFoundException'))
+        .mockRejectedValueOnce(createError(404, 'client', 'ResourcePathNotFoundException'));
+
+      expect((await client.probeAccess(probe({ path: '/catalogs/{catalog_id}' }))).access).toBe('allowed');
+      expect((await client.probeAccess(probe({ path: '/unknown' }))).access).toBe('not_found');
+    });
+
+    it('should report server and network failures as errors', async () => {
+      request.get.mockRejectedValue(createError(503, 'server'));
+
+      const result = await client.probeAccess(probe({}));
+
+      expect(result).toMatchObject({ access: 'error', status: 503, reason: 'Request failed: 503' });
+    });
+
+    it('should abort when the API client cannot authenticate', async () => {
+      request.get.mockRejectedValueOnce(createError(401, 'auth', 'InvalidAccessTokenException'));
+      await expect(client.probeAccess(probe({}))).rejects.toThrow(OCAPIFaultError);
+
+      request.get.mockRejectedValueOnce(new Error('OAuth request failed'));
+      await expect(client.probeAccess(probe({}))).rejects.toThrow('OAuth request failed');
+    });
+
+    it('should probe PATCH and DELETE against placeholder documents', async () => {
+      request.patch.mockRejectedValue(createError(404, 'client', 'CodeVersionNotFoundException'));
+
+      const result = await client.probeAccess(
+        probe({ path: '/code_versions/{code_version_id}', method: 'patch', readOnly: false }),
+        { siteId: 'RefArch' },
+      );
+
+      expect(request.patch).toHaveBeenCalledWith(`/code_versions/${PROBE_PLACEHOLDER_ID}`, {});
+      expect(result.access).toBe('allowed');
+    });
+
+    it('should skip methods that would create data and writes on read-only instances', async () => {
+      const create = await client.probeAccess(probe({ path: '/sites/{site_id}/coupons', method: 'post', readOnly: false }));
+      const update = await client.probeAccess(
+        probe({ path: '/code_versions/{code_version_id}', method: 'patch', readOnly: false }),
+        { probeWrites: false },
+      );
+
+      expect(create).toMatchObject({ access: 'skipped', reason: 'The request would create or replace data' });
+      expect(update).toMatchObject({ access: 'skipped', reason: 'Write methods are not probed on read-only instances' });
+      expect(request.post).not.toHaveBeenCalled();
+      expect(request.patch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('diagnoseAccess', () => {
+    it('should summarize the results and build settings for the denied methods', async () => {
+      request.get.mockRejectedValueOnce(createError(403, 'auth', 'ClientAccessForbiddenException'));
+      request.patch.mockRejectedValueOnce(createError(403, 'auth', 'ClientAccessForbiddenException'));
+
+      const report = await client.diagnoseAccess([
+        probe({ path: '/code_versions/{code_version_id}' }),
+        probe({ path: '/code_versions/{code_version_id}', method: 'patch', readOnly: false }),
+        probe({ path: '/sites' }),
+      ]);
+
+      expect(report.summary).toEqual({ allowed: 1, denied: 2, not_found: 0, skipped: 0, error: 0 });
+      expect(report.settings).toEqual({
+        _v: '23.2',
+        clients: [
+          {
+            client_id: 'test-client-id',
+            resources: [
+              {
+                resource_id: '/code_versions/*',
+                methods: ['get', 'patch'],
+                read_attributes: '(**)',
+                write_attributes: '(**)',
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should not return settings when nothing is denied', async () => {
+      const report = await client.diagnoseAccess([probe({})]);
+
+      expect(report.settings).toBeUndefined();
+      expect(report.summary.allowed).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Tests for the API spec importer
+ * Tests Endpoint generation from OpenAPI 3.x, Swagger 2.0 and RAML 1.0 specs
+ */
+
+import {
+  buildEndpointInputSchema,
+  detectApiSpecFormat,
+  importApiSpec,
+  parseApiSpec,
+} from '../src/utils/api-spec-importer.js';
+import { load as loadYaml } from 'js-yaml';
+
+const shopperProductsSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Shopper Products', version: '1.0.0' },
+  servers: [
+    {
+      url: 'https://{shortCode}.api.commercecloud.salesforce.com/product/shopper-products/{version}',
+      variables: { shortCode: { default: 'shortCode' }, version: { default: 'v1' } },
+    },
+  ],
+  security: [{ ShopperToken: ['sfcc.shopper-products'] }],
+  paths: {
+    '/organizations/{organizationId}/products/{id}': {
+      parameters: [{ $ref: '#/components/parameters/organizationId' }],
+      get: {
+        operationId: 'getProduct',
+        summary: 'Get a product.',
+        description: 'Allows access to product details for a single product ID.\n\nOnly the first paragraph is used.',
+        parameters: [
+          { name: 'id', in: 'path', required: true, schema: { type: 'string' }, description: 'The product ID.' },
+          { $ref: '#/components/parameters/siteId' },
+          {
+            name: 'expand',
+            in: 'query',
+            schema: { type: 'array', items: { type: 'string', enum: ['availability', 'prices'] } },
+          },
+          { name: 'perPricebook', in: 'query', schema: { type: 'boolean', default: false } },
+          { name: 'x-request-id', in: 'header', schema: { type: 'string' } },
+        ],
+      },
+    },
+  },
+  components: {
+    parameters: {
+      organizationId: { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
+      siteId: { name: 'siteId', in: 'query', required: true, schema: { type: 'string' }, description: 'The site ID.' },
+    },
+  },
+};
+
+const shopperBasketsSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Shopper Baskets', version: '1.0.0' },
+  servers: [{ url: 'https://{shortCode}.api.commercecloud.salesforce.com/checkout/shopper-baskets/v1' }],
+  paths: {
+    '/organizations/{organizationId}/baskets/{basketId}/items': {
+      post: {
+        operationId: 'addItemToBasket',
+        summary: 'Add products to the basket.',
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'basketId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'siteId', in: 'query', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: { type: 'array', items: { $ref: '#/components/schemas/ProductItem' } },
+            },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      ProductItem: {
+        type: 'object',
+        required: ['productId'],
+        properties: {
+          productId: { type: 'string', description: 'The product ID.' },
+          quantity: { type: 'integer', minimum: 1 },
+          bundledProductItems: { type: 'array', items: { $ref: '#/components/schemas/ProductItem' } },
+        },
+      },
+    },
+  },
+};
+
+const ordersAdminSpec = {
+  openapi: '3.0.3',
+  info: { title: 'Orders', version: '1.0.0' },
+  servers: [{ url: 'https://{shortCode}.api.commercecloud.salesforce.com/checkout/orders/v1' }],
+  security: [{ AmOAuth2: ['sfcc.orders.rw'] }],
+  paths: {
+    '/organizations/{organizationId}/orders/{orderNo}/status': {
+      put: {
+        operationId: 'updateOrderStatus',
+        summary: 'Update the status of an order.',
+        parameters: [
+          { name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'orderNo', in: 'path', required: true, schema: { type: 'string' } },
+          { name: 'siteId', in: 'query', required: true, schema: { type: 'string' } },
+        ],
+        requestBody: {
+          content: {
+            'application/json': {
+              schema: {
+                allOf: [
+                  { $ref: '#/components/schemas/StatusRequest' },
+                  { type: 'object', properties: { note: { type: 'string' } } },
+                ],
+              },
+            },
+          },
+        },
+      },
+    },
+    '/organizations/{organizationId}/orders/search': {
+      post: {
+        operationId: 'searchOrders',
+        security: [{ AmOAuth2: ['sfcc.orders'] }],
+        parameters: [{ name: 'organizationId', in: 'path', required: true, schema: { type: 'string' } }],
+      },
+    },
+  },
+  components: {
+    schemas: {
+      StatusRequest: {
+        type: 'object',
+        required: ['status'],
+        properties: {
+          status: { type: 'string', enum: ['created', 'new', 'completed', 'cancelled'] },
+        },
+      },
+    },
+  },
+};
+
+const ocapiDataSpec = {
+  swagger: '2.0',
+  info: { title: 'OCAPI Data API', version: '23.2' },
+  basePath: '/s/-/dw/data/v23_2',
+  paths: {
+    '/sites/{site_id}/coupons/{coupon_id}/codes': {
+      get: {
+        operationId: 'getCouponCodes',
+        description: 'Gets the coupon codes of a coupon.',
+        parameters: [
+          { name: 'site_id', in: 'path', required: true, type: 'string' },
+          { name: 'coupon_id', in: 'path', required: true, type: 'string' },
+          { name: 'count', in: 'query', type: 'integer', default: 25 },
+        ],
+      },
+    },
+    '/catalogs/{catalog_id}/products': {
+      post: {
+        operationId: 'postCatalogProducts',
+        parameters: [
+          { name: 'catalog_id', in: 'path', required: true, type: 'string' },
+          {
+            name: 'body',
+            in: 'body',
+            schema: { $ref: '#/definitions/product_assignment' },
+          },
+        ],
+      },
+    },
+  },
+  definitions: {
+    product_assignment: {
+      type: 'object',
+      properties: {
+        product_id: { type: 'string' },
+        position: { type: 'number' },
+      },
+    },
+  },
+};
+
+const ramlSpec = {
+  title: 'Shopper Promotions',
+  version: 'v1',
+  baseUri: 'https://{shortCode}.api.commercecloud.salesforce.com/pricing/shopper-promotions/{version}',
+  securedBy: [{ ShopperToken: { scopes: ['sfcc.shopper-promotions'] } }],
+  types: {
+    PromotionRequest: {
+      type: 'object',
+      properties: {
+        ids: 'string[]',
+        'locale?': 'string',
+      },
+    },
+  },
+  '/organizations/{organizationId}': {
+    uriParameters: { organizationId: { type: 'string' } },
+    '/promotions': {
+      get: {
+        displayName: 'getPromotions',
+        description: 'Get promotions by ID.',
+        queryParameters: {
+          siteId: { type: 'string', description: 'The site ID.' },
+          ids: { type: 'string', description: 'Comma-separated promotion IDs.' },
+          'currency?': { type: 'string', enum: ['USD', 'EUR'] },
+        },
+      },
+      post: {
+        displayName: 'searchPromotions',
+        body: { 'application/json': { type: 'PromotionRequest' } },
+      },
+    },
+  },
+};
+
+describe('api-spec-importer', () => {
+  describe('detectApiSpecFormat', () => {
+    it('should detect OpenAPI, Swagger and RAML specs', () => {
+      expect(detectApiSpecFormat(shopperProductsSpec)).toBe('openapi');
+      expect(detectApiSpecFormat(ocapiDataSpec)).toBe('swagger');
+      expect(detectApiSpecFormat(ramlSpec)).toBe('raml');
+    });
+
+    it('should reject unknown documents', () => {
+      expect(() => detectApiSpecFormat({ endpoints: [] })).toThrow('Unsupported API spec');
+    });
+  });
+
+  describe('parseApiSpec', () => {
+    it('should parse JSON specs', () => {
+      expect(parseApiSpec(JSON.stringify(ocapiDataSpec), 'data-api.json')).toEqual(ocapiDataSpec);
+    });
+
+    it('should parse YAML and RAML specs with the given parser', () => {
+      const yamlParser = jest.fn().mockReturnValue(ramlSpec);
+
+      expect(parseApiSpec('#%RAML 1.0', 'shopper-promotions.raml', yamlParser)).toBe(ramlSpec);
+      expect(yamlParser).toHaveBeenCalledWith('#%RAML 1.0');
+    });
+
+    it('should parse YAML and RAML documents with js-yaml', () => {
+      expect(parseApiSpec('openapi: 3.0.3\ninfo:\n  title: Orders\n', 'orders.yaml', loadYaml))
+        .toEqual({ openapi: '3.0.3', info: { title: 'Orders' } });
+      expect(parseApiSpec('#%RAML 1.0\ntitle: Shopper Promotions\n/promotions:\n  get:\n', 'promotions.raml', loadYaml))
+        .toEqual({ title: 'Shopper Promotions', '/promotions': { get: null } });
+    });
+
+    it('should fail for YAML specs without a parser and for unsupported files', () => {
+      expect(() => parseApiSpec('openapi: 3.0.3', 'orders.yaml')).toThrow('require the js-yaml package');
+      expect(() => parseApiSpec('', 'notes.txt')).toThrow('Unsupported API spec file type: notes.txt');
+    });
+  });
+
+  describe('OpenAPI 3.x specs', () => {
+    it('should import a Shopper API operation with typed parameters and enums', () => {
+      const [endpoint] = importApiSpec(shopperProductsSpec, 'shopper-products.json');
+
+      expect(endpoint).toEqual({
+        toolName: 'shopper_get_product',
+        path: '/product/shopper-products/v1/organizations/{organizationId}/products/{id}',
+        description: 'Get a product.',
+        method: 'GET',
+        parameters: [
+          { name: 'id', description: 'The product ID.', type: 'string', required: true, in: 'path' },
+          { name: 'siteId', description: 'The site ID.', type: 'string', required: false, in: 'query' },
+          {
+            name: 'expand',
+            description: 'expand',
+            type: 'array',
+            required: false,
+            in: 'query',
+            items: { type: 'string', enum: ['availability', 'prices'] },
+          },
+          {
+            name: 'perPricebook',
+            description: 'perPricebook',
+            type: 'boolean',
+            required: false,
+            in: 'query',
+            default: false,
+          },
+        ],
+        apiType: 'scapi',
+        requiresSiteId: true,
+        apiFamily: 'shopper',
+        source: 'shopper-products.json',
+      });
+    });
+
+    it('should flatten array request bodies into body parameters', () => {
+      const [endpoint] = importApiSpec(shopperBasketsSpec, 'shopper-baskets.json');
+
+      expect(endpoint.toolName).toBe('shopper_add_item_to_basket');
+      expect(endpoint.arrayBody).toBe(true);
+      expect(endpoint.readOnly).toBeUndefined();
+      expect(endpoint.parameters.filter(param => param.in === 'body')).toEqual([
+        { name: 'productId', description: 'The product ID.', type: 'string', required: true, in: 'body' },
+        { name: 'quantity', description: 'quantity', type: 'number', required: false, in: 'body' },
+        {
+          name: 'bundledProductItems',
+          description: 'bundledProductItems',
+          type: 'array',
+          required: false,
+          in: 'body',
+          items: { type: 'object' },
+        },
+      ]);
+      expect(endpoint.requestBody?.type).toBe('array');
+    });
+
+    it('should import Admin API scopes, merged body schemas and read-only searches', () => {
+      const [updateStatus, searchOrders] = importApiSpec(ordersAdminSpec, 'orders.json');
+
+      expect(updateStatus.toolName).toBe('scapi_update_order_status');
+      expect(updateStatus.apiFamily).toBe('admin');
+      expect(updateStatus.scopes).toEqual(['sfcc.orders.rw']);
+      expect(updateStatus.parameters.find(param => param.name === 'status')).toEqual({
+        name: 'status',
+        description: 'status',
+        type: 'string',
+        required: true,
+        in: 'body',
+        enum: ['created', 'new', 'completed', 'cancelled'],
+      });
+      expect(updateStatus.parameters.find(param => param.name === 'note')?.required).toBe(false);
+
+      expect(searchOrders.scopes).toEqual(['sfcc.orders']);
+      expect(searchOrders.readOnly).toBe(true);
+      expect(searchOrders.description).toBe('POST /organizations/{organizationId}/orders/search');
+    });
+
+    it('should apply tool names, prefixes and operation filters from the options', () => {
+      const endpoints = importApiSpec(ordersAdminSpec, 'orders.json', {
+        operations: ['updateOrderStatus'],
+        toolNames: { updateOrderStatus: 'set_order_status' },
+        scopes: ['sfcc.orders.rw', 'sfcc.orders'],
+      });
+
+      expect(endpoints).toHaveLength(1);
+      expect(endpoints[0].toolName).toBe('set_order_status');
+      expect(endpoints[0].scopes).toEqual(['sfcc.orders.rw', 'sfcc.orders']);
+
+      const [prefixed] = importApiSpec(shopperProductsSpec, 'shopper-products.json', { toolPrefix: 'storefront_' });
+      expect(prefixed.toolName).toBe('storefront_get_product');
+    });
+  });
+
+  describe('Swagger 2.0 specs', () => {
+    it('should import OCAPI Data API operations relative to the Data API base path', () => {
+      const [getCodes, assignProduct] = importApiSpec(ocapiDataSpec, 'data-api.json');
+
+      expect(getCodes).toEqual({
+        toolName: 'get_coupon_codes',
+        path: '/sites/{site_id}/coupons/{coupon_id}/codes',
+        description: 'Gets the coupon codes of a coupon.',
+        method: 'GET',
+        parameters: [
+          { name: 'site_id', description: 'site_id', type: 'string', required: true, in: 'path' },
+          { name: 'coupon_id', description: 'coupon_id', type: 'string', required: true, in: 'path' },
+          { name: 'count', description: 'count', type: 'number', required: false, in: 'query', default: 25 },
+        ],
+        apiType: 'ocapi',
+        requiresSiteId: true,
+        source: 'data-api.json',
+      });
+
+      expect(assignProduct.toolName).toBe('post_catalog_products');
+      expect(assignProduct.parameters.map(param => `${param.in}:${param.name}`)).toEqual([
+        'path:catalog_id',
+        'body:product_id',
+        'body:position',
+      ]);
+      expect(assignProduct.scopes).toBeUndefined();
+    });
+  });
+
+  describe('RAML 1.0 specs', () => {
+    it('should import nested resources with uri and query parameters', () => {
+      const [getPromotions, searchPromotions] = importApiSpec(ramlSpec, 'shopper-promotions.raml');
+
+      expect(getPromotions).toMatchObject({
+        toolName: 'shopper_get_promotions',
+        path: '/pricing/shopper-promotions/v1/organizations/{organizationId}/promotions',
+        description: 'Get promotions by ID.',
+        method: 'GET',
+        apiFamily: 'shopper',
+        requiresSiteId: true,
+      });
+      expect(getPromotions.parameters).toEqual([
+        { name: 'siteId', description: 'The site ID.', type: 'string', required: false, in: 'query' },
+        { name: 'ids', description: 'Comma-separated promotion IDs.', type: 'string', required: true, in: 'query' },
+        { name: 'currency', description: 'currency', type: 'string', required: false, in: 'query', enum: ['USD', 'EUR'] },
+      ]);
+
+      expect(searchPromotions.readOnly).toBe(true);
+      expect(searchPromotions.parameters).toEqual([
+        { name: 'ids', description: 'ids', type: 'array', required: true, in: 'body', items: { type: 'string' } },
+        { name: 'locale', description: 'locale', type: 'string', required: false, in: 'body' },
+      ]);
+    });
+  });
+
+  describe('buildEndpointInputSchema', () => {
+    it('should build a JSON Schema with required parameters, enums and the shopper argument', () => {
+      const [endpoint] = importApiSpec(shopperProductsSpec, 'shopper-products.json');
+      const schema = buildEndpointInputSchema(endpoint);
+
+      expect(schema.required).toEqual(['id']);
+      expect(schema.properties?.expand).toEqual({
+        type: 'array',
+        description: 'expand',
+        items: { type: 'string', enum: ['availability', 'prices'] },
+      });
+      expect(schema.properties?.perPricebook.default).toBe(false);
+      expect(schema.properties?.shopper.enum).toEqual(['guest', 'registered']);
+    });
+
+    it('should omit required for endpoints without required parameters', () => {
+      const schema = buildEndpointInputSchema({
+        toolName: 'get_catalogs',
+        path: '/catalogs',
+        description: 'Get catalogs',
+        method: 'GET',
+        parameters: [],
+        apiType: 'ocapi',
+      });
+
+      expect(schema).toEqual({ type: 'object', properties: {} });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { BaseToolHandler, HandlerContext, ToolArguments, ToolExecutionResult, HandlerError, GenericToolSpec, ToolExecutionContext } from '../src/core/handlers/base-handler.js';
 import { Logger } from '../src/utils/logger.js';
+import { HttpRequestError } from '../src/clients/base/http-client.js';
 
 // Mock implementation for testing
 class TestHandler extends BaseToolHandler {
@@ -18,6 +19,18 @@ class TestHandler extends BaseToolHandler {
       },
       logMessage: () => 'Testing failing tool',
     },
+    'request_failing_tool': {
+      exec: async () => {
+        throw new HttpRequestError('Request failed: 429 Too Many Requests - ', 'throttling', {
+          method: 'GET',
+          url: 'https://test.demandware.net/s/-/dw/data/v23_2/sites',
+          status: 429,
+          attempts: 4,
+          retryAfterMs: 2000,
+        });
+      },
+      logMessage: () => 'Testing failing request',
+    },
     'validate_tool': {
       validate: (args, toolName) => {
         this.validateArgs(args, ['required_field'], toolName);
@@ -66,7 +79,7 @@ class TestHandler extends BaseToolHandler {
   }
 
   protected getToolNameSet(): Set<string> {
-    return new Set(['test_tool', 'failing_tool', 'validate_tool', 'defaults_tool', 'context_tool', 'complex_validation_tool']);
+    return new Set(['test_tool', 'failing_tool', 'request_failing_tool', 'validate_tool', 'defaults_tool', 'context_tool', 'complex_validation_tool']);
   }
 
   protected async createExecutionContext(): Promise<ToolExecutionContext> {
@@ -393,6 +406,24 @@ describe('BaseToolHandler', () => {
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('Test operation failed');
     });
+
+    it('should include the classification and details of HTTP request errors', async () => {
+      const result = await handler.handle('request_failing_tool', {}, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toBe('Error: (throttling) Request failed: 429 Too Many Requests - ');
+      expect(result.structuredContent).toEqual({
+        error: {
+          kind: 'throttling',
+          message: 'Request failed: 429 Too Many Requests - ',
+          method: 'GET',
+          url: 'https://test.demandware.net/s/-/dw/data/v23_2/sites',
+          status: 429,
+          attempts: 4,
+          retryAfterMs: 2000,
+        },
+      });
+    });
   });
 
   describe('config-driven functionality', () => {
@@ -3,8 +3,10 @@
  * Tests the foundation HTTP client functionality
  */
 
-import { BaseHttpClient } from '../src/clients/base/http-client.js';
+import { BaseHttpClient, HttpRequestError, parseRetryAfter } from '../src/clients/base/http-client.js';
 import { Logger } from '../src/utils/logger.js';
+import { resetHostRateLimiters } from '../src/utils/rate-limiter.js';
+import { HttpClientConfig } from '../src/types/types.js';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -41,8 +43,12 @@ class TestHttpClient extends BaseHttpClient {
   private authHeaders: Record<string, string> = {};
   private shouldFailAuth = false;
 
-  constructor(baseUrl: string = 'https://test-api.example.com') {
-    super(baseUrl, 'TestHttpClient');
+  // Retries and rate limiting are disabled unless a test enables them
+  constructor(
+    baseUrl: string = 'https://test-api.example.com',
+    httpConfig: HttpClientConfig = { maxRetries: 0, requestsPerSecond: 0 },
+  ) {
+    super(baseUrl, 'TestHttpClient', httpConfig);
   }
 
   // Implementation of abstract method
@@ -94,6 +100,7 @@ describe('BaseHttpClient', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    resetHostRateLimiters();
     mockFetch = fetch as jest.MockedFunction<typeof fetch>;
     client = new TestHttpClient();
   });
@@ -113,7 +120,7 @@ describe('BaseHttpClient', () => {
 
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => mockResponse,
+        text: async () => JSON.stringify(mockResponse),
       } as Response);
 
       const result = await client.testMakeRequest('/test-endpoint');
@@ -125,6 +132,7 @@ describe('BaseHttpClient', () => {
             'Content-Type': 'application/json',
             'Authorization': 'Bearer token123',
           },
+          signal: expect.any(AbortSignal),
         },
       );
       expect(result).toEqual(mockResponse);
@@ -142,7 +150,7 @@ describe('BaseHttpClient', () => {
         } as Response)
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => mockResponse,
+          text: async () => JSON.stringify(mockResponse),
         } as Response);
 
       const result = await client.testMakeRequest('/test-endpoint');
@@ -186,7 +194,7 @@ describe('BaseHttpClient', () => {
 
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => mockResponse,
+        text: async () => JSON.stringify(mockResponse),
       } as Response);
 
       await client.testMakeRequest('/test', {
@@ -201,6 +209,7 @@ describe('BaseHttpClient', () => {
             'Authorization': 'Bearer token',
             'Custom-Header': 'custom-value',
           },
+          signal: expect.any(AbortSignal),
         },
       );
     });
@@ -211,7 +220,7 @@ describe('BaseHttpClient', () => {
       client.setAuthHeaders({ 'Authorization': 'Bearer token' });
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => ({ success: true }),
+        text: async () => JSON.stringify({ success: true }),
       } as Response);
     });
 
@@ -285,6 +294,20 @@ describe('BaseHttpClient', () => {
         }),
       );
     });
+
+    it('should dispatch request() by method name', async () => {
+      const data = { name: 'dispatched' };
+      await client.request('PATCH', '/test/1', data);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-api.example.com/test/1',
+        expect.objectContaining({
+          method: 'PATCH',
+          body: JSON.stringify(data),
+        }),
+      );
+      await expect(client.request('TRACE', '/test')).rejects.toThrow('Unsupported HTTP method: TRACE');
+    });
   });
 
   describe('error handling during retry', () => {
@@ -308,4 +331,139 @@ describe('BaseHttpClient', () => {
       );
     });
   });
+
+  describe('retries and timeouts', () => {
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: `Status ${status}`,
+      headers: new Headers(headers),
+      text: async () => `error ${status}`,
+    } as Response);
+    const okResponse = { ok: true, text: async () => JSON.stringify({ success: true }) } as Response;
+    const catchError = (request: Promise<unknown>): Promise<HttpRequestError> =>
+      request.then(() => { throw new Error('Expected the request to fail'); }, (error: HttpRequestError) => error);
+
+    beforeEach(() => {
+      client = new TestHttpClient('https://test-api.example.com', { retryBaseDelayMs: 1, requestsPerSecond: 0 });
+    });
+
+    it('should retry throttled and failed idempotent requests with backoff', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429))
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(okResponse);
+
+      await expect(client.testGet('/test')).resolves.toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should retry non-idempotent requests only when throttled', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(429)).mockResolvedValueOnce(okResponse);
+      await expect(client.testPost('/test', { name: 'a' })).resolves.toEqual({ success: true });
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue(errorResponse(500));
+      await expect(client.testPost('/test', { name: 'a' })).rejects.toThrow('Request failed: 500 Status 500');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw a structured error once the retries are exhausted', async () => {
+      mockFetch.mockResolvedValue(errorResponse(429, { 'Retry-After': '0' }));
+
+      const error = await catchError(client.testGet('/test'));
+
+      expect(error).toBeInstanceOf(HttpRequestError);
+      expect(error.kind).toBe('throttling');
+      expect(error.status).toBe(429);
+      expect(error.details).toMatchObject({ method: 'GET', attempts: 4, retryAfterMs: 0, body: 'error 429' });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry client and authorization errors', async () => {
+      mockFetch.mockResolvedValue(errorResponse(403));
+
+      const error = await catchError(client.testGet('/test'));
+
+      expect(error.kind).toBe('auth');
+      expect(error.retryable).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort requests that exceed the timeout', async () => {
+      client = new TestHttpClient('https://test-api.example.com', { timeoutMs: 10, maxRetries: 1, retryBaseDelayMs: 1 });
+      mockFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason));
+      }));
+
+      const error = await catchError(client.testGet('/slow'));
+
+      expect(error).toBeInstanceOf(HttpRequestError);
+      expect(error.kind).toBe('timeout');
+      expect(error.message).toBe('Request to /slow timed out after 10ms');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry requests cancelled by the caller', async () => {
+      const controller = new AbortController();
+      const reason = new Error('Tool call cancelled');
+      mockFetch.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+        init!.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        controller.abort(reason);
+      }));
+
+      await expect(client.testMakeRequest('/test', { signal: controller.signal })).rejects.toBe(reason);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      client = new TestHttpClient('https://test-api.example.com', { timeoutMs: 0, retryBaseDelayMs: 1 });
+      await expect(client.testMakeRequest('/test', { signal: controller.signal })).rejects.toBe(reason);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should classify connection failures as network errors', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      const error = await catchError(client.testDelete('/test/1'));
+
+      expect(error.kind).toBe('network');
+      expect(error.message).toBe('fetch failed');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should return undefined for empty successful responses', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 204, text: async () => '' } as Response)
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => '' } as Response);
+
+      await expect(client.testDelete('/test/1')).resolves.toBeUndefined();
+      await expect(client.testPut('/test/1', { name: 'a' })).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry successful responses with an invalid JSON body', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, text: async () => '<html>' } as Response);
+
+      const error = await catchError(client.testDelete('/test/1'));
+
+      expect(error.kind).toBe('parse');
+      expect(error.retryable).toBe(false);
+      expect(error.status).toBe(200);
+      expect(error.message).toContain('Request to /test/1 returned Invalid JSON in 200 response');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delays in seconds, epoch timestamps and HTTP dates', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-01-01T00:00:00Z'));
+
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(String(Date.parse('2025-01-01T00:00:05Z') / 1000))).toBe(5000);
+      expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT')).toBe(30000);
+      expect(parseRetryAfter('soon')).toBeUndefined();
+      expect(parseRetryAfter(null)).toBeUndefined();
+
+      jest.restoreAllMocks();
+    });
+  });
 });
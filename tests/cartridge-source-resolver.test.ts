@@ -0,0 +1,98 @@
+/**
+ * Tests for the resolution of stack frames to local cartridge sources
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CartridgeSourceResolver } from '../src/clients/logs/cartridge-source-resolver.js';
+import type { LogStackFrame } from '../src/clients/logs/log-types.js';
+import { Logger } from '../src/utils/logger.js';
+
+const SOURCE = Array.from({ length: 12 }, (_, index) => `line ${index + 1}`).join('\n');
+
+describe('CartridgeSourceResolver', () => {
+  let root: string;
+  let logger: Logger;
+
+  const writeScript = (cartridgePath: string, script: string) => {
+    const file = join(root, cartridgePath, script);
+    mkdirSync(join(file, '..'), { recursive: true });
+    writeFileSync(file, SOURCE);
+  };
+
+  const frame = (cartridge: string, path: string, line?: number): LogStackFrame => ({
+    location: `${cartridge}/${path}:${line}`,
+    cartridge,
+    path,
+    line,
+  });
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'sfcc-cartridges-'));
+    logger = { debug: jest.fn(), warn: jest.fn() } as unknown as Logger;
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should find cartridges at any depth below the root', async () => {
+    writeScript('int_cart', 'cartridge/scripts/cart.js');
+    writeScript('storefront/cartridges/app_custom', 'cartridge/controllers/Cart.js');
+    const frames = [frame('int_cart', 'cartridge/scripts/cart.js', 6), frame('app_custom', 'cartridge/controllers/Cart.js', 1)];
+
+    const missing = await new CartridgeSourceResolver(root, logger).resolveFrames(frames, 2);
+
+    expect(missing).toEqual([]);
+    expect(frames[0].source).toEqual({
+      file: join(root, 'int_cart', 'cartridge', 'scripts', 'cart.js'),
+      line: 6,
+      snippet: ['  4 | line 4', '  5 | line 5', '> 6 | line 6', '  7 | line 7', '  8 | line 8'].join('\n'),
+    });
+    expect(frames[1].source?.snippet).toBe(['> 1 | line 1', '  2 | line 2', '  3 | line 3'].join('\n'));
+  });
+
+  it('should pad the line numbers of the snippet', async () => {
+    writeScript('int_cart', 'cartridge/scripts/cart.js');
+    const frames = [frame('int_cart', 'cartridge/scripts/cart.js', 10)];
+
+    await new CartridgeSourceResolver(root, logger).resolveFrames(frames, 1);
+
+    expect(frames[0].source?.snippet).toBe(['   9 | line 9', '> 10 | line 10', '  11 | line 11'].join('\n'));
+  });
+
+  it('should report missing cartridges and leave unresolvable frames without source', async () => {
+    writeScript('int_cart', 'cartridge/scripts/cart.js');
+    const frames = [
+      frame('int_missing', 'cartridge/scripts/missing.js', 1),
+      frame('int_cart', 'cartridge/scripts/other.js', 1),
+      frame('int_cart', 'cartridge/scripts/cart.js', 99),
+      frame('int_cart', 'cartridge/../../int_secret/cartridge/secret.js', 1),
+      frame('int_cart', 'cartridge/scripts/cart.js'),
+    ];
+
+    const missing = await new CartridgeSourceResolver(root, logger).resolveFrames(frames, 3);
+
+    expect(missing).toEqual(['int_missing']);
+    expect(frames.map(resolved => resolved.source)).toEqual([undefined, undefined, undefined, undefined, undefined]);
+  });
+
+  it('should not search dot directories and node_modules', async () => {
+    writeScript('node_modules/int_cart', 'cartridge/scripts/cart.js');
+    writeScript('.git/int_cart', 'cartridge/scripts/cart.js');
+
+    const missing = await new CartridgeSourceResolver(root, logger)
+      .resolveFrames([frame('int_cart', 'cartridge/scripts/cart.js', 1)], 0);
+
+    expect(missing).toEqual(['int_cart']);
+  });
+
+  it('should warn when the root cannot be read', async () => {
+    const missing = await new CartridgeSourceResolver(join(root, 'missing'), logger)
+      .resolveFrames([frame('int_cart', 'cartridge/scripts/cart.js', 1)], 0);
+
+    expect(missing).toEqual(['int_cart']);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Cannot read cartridges directory'));
+  });
+});
@@ -1,7 +1,9 @@
-import { ClientFactory } from '../src/core/handlers/client-factory.js';
+import { ClientFactory, InstanceClientCache } from '../src/core/handlers/client-factory.js';
 import { HandlerContext } from '../src/core/handlers/base-handler.js';
 import { Logger } from '../src/utils/logger.js';
 import { SFCCConfig } from '../src/types/types.js';
+import { SFCCLogClient } from '../src/clients/log-client.js';
+import { OCAPIClient } from '../src/clients/ocapi-client.js';
 
 // Mock the clients
 jest.mock('../src/clients/log-client.js');
@@ -237,4 +239,99 @@ describe('ClientFactory', () => {
       expect(error).toBe('Required client not configured.');
     });
   });
+
+  describe('named instances', () => {
+    const multiInstanceConfig: SFCCConfig = {
+      hostname: 'sandbox.demandware.net',
+      username: 'user',
+      password: 'pass',
+      instanceName: 'sandbox',
+      instances: {
+        sandbox: { hostname: 'sandbox.demandware.net', username: 'user', password: 'pass', instanceName: 'sandbox' },
+        staging: {
+          hostname: 'staging.demandware.net',
+          clientId: 'staging-client',
+          clientSecret: 'staging-secret',
+          instanceName: 'staging',
+        },
+      },
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      factory = new ClientFactory({
+        logger: mockLogger,
+        config: multiInstanceConfig,
+        capabilities: { canAccessLogs: true, canAccessOCAPI: true },
+      }, mockLogger);
+    });
+
+    it('should resolve the default instance to undefined', () => {
+      expect(factory.resolveInstanceName()).toBeUndefined();
+      expect(factory.resolveInstanceName('sandbox')).toBeUndefined();
+      expect(factory.resolveInstanceName('staging')).toBe('staging');
+    });
+
+    it('should reject unknown instance names', () => {
+      expect(() => factory.resolveInstanceName('production')).toThrow('Unknown instance "production"');
+    });
+
+    it('should create clients with the named instance configuration', () => {
+      factory.createLogClient('staging');
+      factory.createOCAPIClient('staging');
+
+      expect(SFCCLogClient).toHaveBeenCalledWith(expect.objectContaining({ hostname: 'staging.demandware.net' }));
+      expect(OCAPIClient).toHaveBeenCalledWith(expect.objectContaining({
+        hostname: 'staging.demandware.net',
+        clientId: 'staging-client',
+      }));
+    });
+
+    it('should use per-instance capabilities instead of the aggregated ones', () => {
+      expect(factory.createOCAPIClient()).toBeNull();
+      expect(factory.getDataAPIConfig('staging')).toEqual({
+        hostname: 'staging.demandware.net',
+        clientId: 'staging-client',
+        clientSecret: 'staging-secret',
+        siteId: undefined,
+      });
+    });
+
+    it('should return Data API settings for SLAS-only instances without OCAPI credentials', () => {
+      factory = new ClientFactory({
+        logger: mockLogger,
+        config: {
+          hostname: 'storefront.demandware.net',
+          shortCode: 'kv7kzm78',
+          organizationId: 'f_ecom_zzxy_001',
+          slasClientId: 'slas-client',
+          siteId: 'RefArch',
+        },
+        capabilities: { canAccessLogs: false, canAccessOCAPI: false },
+      }, mockLogger);
+
+      expect(factory.getDataAPIConfig()).toEqual(expect.objectContaining({
+        hostname: 'storefront.demandware.net',
+        clientId: '',
+        clientSecret: '',
+        slasClientId: 'slas-client',
+        siteId: 'RefArch',
+      }));
+    });
+  });
+
+  describe('InstanceClientCache', () => {
+    it('should create each instance client once', () => {
+      const create = jest.fn((name: string) => ({ name }));
+      const cache = new InstanceClientCache(create);
+
+      expect(cache.get('staging')).toBe(cache.get('staging'));
+      expect(cache.get('production')).toEqual({ name: 'production' });
+      expect(create).toHaveBeenCalledTimes(2);
+
+      cache.clear();
+      cache.get('staging');
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+  });
 });
@@ -0,0 +1,203 @@
+/**
+ * Tests for command line parsing
+ * Tests flag parsing, the command line > environment precedence and the redacted configuration report
+ */
+
+import {
+  CommandLineError,
+  CONFIG_OPTIONS,
+  formatConfigReport,
+  formatHelp,
+  parseCommandLineArgs,
+  resolveStartupSettings,
+} from '../src/config/command-line.js';
+import { resolve } from 'path';
+import { DEFAULT_TOKEN_STORE_PATH } from '../src/clients/base/token-store.js';
+import { SFCCConfig } from '../src/types/types.js';
+
+describe('command line', () => {
+  describe('parseCommandLineArgs', () => {
+    it('should parse configuration flags in both value forms', () => {
+      const options = parseCommandLineArgs([
+        '--hostname', 'sandbox.demandware.net',
+        '--site-id=RefArch',
+        '--short-code', 'kv7kzm78',
+        '--organization-id', 'f_ecom_zzxy_prd',
+        '--http-timeout', '60000',
+      ]);
+
+      expect(options.config).toEqual({
+        hostname: 'sandbox.demandware.net',
+        siteId: 'RefArch',
+        shortCode: 'kv7kzm78',
+        organizationId: 'f_ecom_zzxy_prd',
+        http: { timeoutMs: 60000 },
+      });
+    });
+
+    it('should parse server options', () => {
+      const options = parseCommandLineArgs([
+        '--dw-json', './dw.json', '--debug', '--read-only', '--transport', 'http', '--port', '8080',
+        '--token-cache', '--print-config',
+      ]);
+
+      expect(options).toMatchObject({
+        dwJsonPath: './dw.json',
+        debug: true,
+        readOnly: true,
+        transport: 'http',
+        port: 8080,
+        tokenCache: DEFAULT_TOKEN_STORE_PATH,
+        printConfig: true,
+      });
+      expect(parseCommandLineArgs(['--debug', 'false']).debug).toBe(false);
+      expect(parseCommandLineArgs(['-h']).help).toBe(true);
+      expect(parseCommandLineArgs(['--version']).version).toBe(true);
+    });
+
+    it('should reject unknown options, missing values and invalid values', () => {
+      expect(() => parseCommandLineArgs(['--hostnme', 'x'])).toThrow('Unknown option "--hostnme"');
+      expect(() => parseCommandLineArgs(['dw.json'])).toThrow('Unexpected argument "dw.json"');
+      expect(() => parseCommandLineArgs(['--hostname', '--debug'])).toThrow('Option --hostname requires a value');
+      expect(() => parseCommandLineArgs(['--http-max-retries', 'many'])).toThrow(
+        'Invalid value "many" for --http-max-retries: must be a non-negative number',
+      );
+      expect(() => parseCommandLineArgs(['--port', '70000'])).toThrow(CommandLineError);
+    });
+  });
+
+  describe('resolveStartupSettings', () => {
+    it('should prefer command line values over environment variables and record the source', () => {
+      const settings = resolveStartupSettings(parseCommandLineArgs(['--hostname', 'cli.demandware.net']), {
+        SFCC_HOSTNAME: 'env.demandware.net',
+        SFCC_CLIENT_ID: 'env-client',
+        SFCC_HTTP_MAX_RETRIES: '5',
+        SFCC_DW_JSON: '/config/dw.json',
+        SFCC_READ_ONLY: 'true',
+        SFCC_DEBUG: '1',
+      });
+
+      expect(settings.configOptions).toEqual({
+        hostname: 'cli.demandware.net',
+        clientId: 'env-client',
+        http: { maxRetries: 5 },
+        dwJsonPath: '/config/dw.json',
+        readOnly: true,
+      });
+      expect(Object.fromEntries(settings.sources)).toEqual({
+        hostname: '--hostname',
+        clientId: 'SFCC_CLIENT_ID',
+        'http.maxRetries': 'SFCC_HTTP_MAX_RETRIES',
+        dwJsonPath: 'SFCC_DW_JSON',
+        readOnly: 'SFCC_READ_ONLY',
+      });
+      expect(settings.debug).toBe(true);
+    });
+
+    it('should allow dw.json secrets from the flag or the environment', () => {
+      const cli = resolveStartupSettings(parseCommandLineArgs(['--allow-dw-json-secrets']), {});
+      const env = resolveStartupSettings(parseCommandLineArgs([]), { SFCC_ALLOW_DW_JSON_SECRETS: 'true' });
+      const none = resolveStartupSettings(parseCommandLineArgs([]), { SFCC_ALLOW_DW_JSON_SECRETS: 'false' });
+
+      expect(cli.configOptions.allowDwJsonSecrets).toBe(true);
+      expect(cli.sources.get('allowDwJsonSecrets')).toBe('--allow-dw-json-secrets');
+      expect(env.configOptions.allowDwJsonSecrets).toBe(true);
+      expect(env.sources.get('allowDwJsonSecrets')).toBe('SFCC_ALLOW_DW_JSON_SECRETS');
+      expect(none.configOptions.allowDwJsonSecrets).toBeUndefined();
+    });
+
+    it('should resolve the cartridges root to an absolute path', () => {
+      const cli = resolveStartupSettings(parseCommandLineArgs(['--cartridges-root', 'cartridges']), {
+        SFCC_CARTRIDGES_ROOT: '/env/cartridges',
+      });
+      const env = resolveStartupSettings(parseCommandLineArgs([]), { SFCC_CARTRIDGES_ROOT: 'env-cartridges' });
+
+      expect(cli.configOptions.cartridgesRoot).toBe(resolve('cartridges'));
+      expect(cli.sources.get('cartridgesRoot')).toBe('--cartridges-root');
+      expect(env.configOptions.cartridgesRoot).toBe(resolve('env-cartridges'));
+      expect(env.sources.get('cartridgesRoot')).toBe('SFCC_CARTRIDGES_ROOT');
+    });
+
+    it('should read the HTTP auth token from the environment only', () => {
+      const env = resolveStartupSettings(parseCommandLineArgs([]), { SFCC_HTTP_AUTH_TOKEN: 'file:/run/secrets/token' });
+
+      expect(env.configOptions.httpAuthToken).toBe('file:/run/secrets/token');
+      expect(env.sources.get('httpAuthToken')).toBe('SFCC_HTTP_AUTH_TOKEN');
+      expect(() => parseCommandLineArgs(['--auth-token', 'secret'])).toThrow('Unknown option "--auth-token"');
+    });
+
+    it('should name the environment variable with an invalid value', () => {
+      expect(() => resolveStartupSettings(parseCommandLineArgs([]), { SFCC_HTTP_TIMEOUT: '-1' })).toThrow(
+        'Invalid value "-1" for SFCC_HTTP_TIMEOUT',
+      );
+    });
+  });
+
+  describe('formatHelp', () => {
+    it('should list every configuration flag with its environment variable', () => {
+      const help = formatHelp();
+
+      for (const option of CONFIG_OPTIONS) {
+        expect(help).toContain(option.flag);
+        expect(help).toContain(`env: ${option.env}`);
+      }
+      expect(help).toContain('--print-config');
+    });
+  });
+
+  describe('formatConfigReport', () => {
+    it('should redact secrets and show the source of each value', () => {
+      const settings = resolveStartupSettings(parseCommandLineArgs(['--password', 'cli-password', '--dw-json', 'dw.json']), {
+        SFCC_CLIENT_SECRET: 'env-secret',
+        SFCC_HTTP_AUTH_TOKEN: 'file:/run/secrets/mcp-token',
+      });
+      const config: SFCCConfig = {
+        hostname: 'sandbox.demandware.net',
+        username: 'admin',
+        password: 'cli-password',
+        clientId: 'client',
+        clientSecret: 'env-secret',
+        httpAuthToken: 'http-token',
+        http: { timeoutMs: 60000 },
+      };
+
+      const report = formatConfigReport(config, settings);
+      const line = (name: string) => report.split('\n')
+        .find(text => text.startsWith(`  ${name} `))
+        ?.trim()
+        .split(/\s{2,}/)
+        .slice(1);
+
+      expect(report).not.toContain('cli-password');
+      expect(report).not.toContain('env-secret');
+      expect(report).not.toContain('http-token');
+      expect(line('dw.json')).toEqual(['dw.json', '--dw-json']);
+      expect(line('hostname')).toEqual(['sandbox.demandware.net', 'dw.json']);
+      expect(line('password')).toEqual(['<redacted>', '--password']);
+      expect(line('client-secret')).toEqual(['<redacted>', 'SFCC_CLIENT_SECRET']);
+      expect(line('http.timeout')).toEqual(['60000', 'dw.json']);
+      expect(line('httpAuthToken')).toEqual(['<redacted>', 'SFCC_HTTP_AUTH_TOKEN']);
+      expect(line('site-id')).toEqual(['-']);
+    });
+
+    it('should list the named instances', () => {
+      const production = { hostname: 'production.demandware.net', username: 'u', password: 'p', instanceName: 'production' };
+      const config: SFCCConfig = {
+        hostname: 'sandbox.demandware.net',
+        username: 'u',
+        password: 'p',
+        instanceName: 'sandbox',
+        instances: { sandbox: { hostname: 'sandbox.demandware.net', instanceName: 'sandbox' }, production },
+      };
+
+      const report = formatConfigReport(config, resolveStartupSettings(parseCommandLineArgs([]), {}));
+
+      expect(report.split('\n').slice(-4)).toEqual([
+        'Instances:',
+        expect.stringMatching(/^ {2}sandbox +sandbox\.demandware\.net +default$/),
+        expect.stringMatching(/^ {2}production +production\.demandware\.net$/),
+        '',
+      ]);
+    });
+  });
+});
@@ -123,6 +123,42 @@ describe('dw-json-loader.ts and configuration-factory.ts', () => {
       }).toThrow('Configuration file must contain hostname, username, and password fields');
     });
 
+    it('should load a dw.json with named configs', () => {
+      const testFile = join(testDir, 'profiles-dw.json');
+      writeFileSync(testFile, JSON.stringify({
+        configs: [
+          { name: 'sandbox', hostname: 'sandbox.demandware.net', username: 'user', password: 'pass' },
+          { name: 'staging', hostname: 'staging.demandware.net', username: 'user', password: 'pass' },
+        ],
+      }, null, 2));
+
+      const dwConfig = loadSecureDwJson(testFile);
+
+      expect(dwConfig.configs).toHaveLength(2);
+      unlinkSync(testFile);
+    });
+
+    it('should reject invalid named configs', () => {
+      const testFile = join(testDir, 'profiles-dw.json');
+      const base = { hostname: 'sandbox.demandware.net', username: 'user', password: 'pass' };
+      const cases: Array<[unknown, string]> = [
+        [{ configs: {} }, 'The "configs" field in the configuration file must be an array'],
+        [{ configs: [base] }, 'Config at index 0 must have a name'],
+        [{ configs: [{ ...base, name: 'a' }, { ...base, name: 'a' }] }, 'Duplicate config name: a'],
+        [{ configs: [{ name: 'a', hostname: 'a.demandware.net' }] }, 'Config "a" must contain hostname, username, and password'],
+        [
+          { configs: [{ ...base, name: 'a', active: true }, { ...base, name: 'b', active: true }] },
+          'Only one config can be marked as active',
+        ],
+      ];
+
+      for (const [content, message] of cases) {
+        writeFileSync(testFile, JSON.stringify(content));
+        expect(() => loadSecureDwJson(testFile)).toThrow(message);
+      }
+      unlinkSync(testFile);
+    });
+
     it('should throw error for invalid hostname format', () => {
       const invalidHostnameDwJson: DwJsonConfig = {
         hostname: 'invalid_hostname_with_underscores',
@@ -187,6 +187,34 @@ describe('ConfigurationFactory', () => {
       expect(capabilities.isLocalMode).toBe(false);
     });
 
+    it('should require short code and organization ID for SCAPI access', () => {
+      const config: SFCCConfig = {
+        hostname: 'test-instance.demandware.net',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        shortCode: 'kv7kzm78',
+      };
+
+      expect(ConfigurationFactory.getCapabilities(config).canAccessSCAPI).toBe(false);
+      expect(ConfigurationFactory.getCapabilities({ ...config, organizationId: 'f_ecom_zzxy_prd' }).canAccessSCAPI)
+        .toBe(true);
+    });
+
+    it('should enable Shopper API access with a SLAS client and no OCAPI credentials', () => {
+      const config: SFCCConfig = {
+        hostname: 'test-instance.demandware.net',
+        shortCode: 'kv7kzm78',
+        organizationId: 'f_ecom_zzxy_prd',
+      };
+
+      expect(ConfigurationFactory.getCapabilities(config).canAccessShopperAPI).toBe(false);
+
+      const capabilities = ConfigurationFactory.getCapabilities({ ...config, slasClientId: 'slas-client' });
+      expect(capabilities.canAccessShopperAPI).toBe(true);
+      expect(capabilities.canAccessOCAPI).toBe(false);
+      expect(capabilities.canAccessSCAPI).toBe(false);
+    });
+
     it('should return correct capabilities for both basic auth and OAuth', () => {
       const config: SFCCConfig = {
         hostname: 'test-instance.demandware.net',
@@ -230,4 +258,335 @@ describe('ConfigurationFactory', () => {
       expect(capabilities.isLocalMode).toBe(true);
     });
   });
+
+  describe('multi-instance profiles', () => {
+    const profilesDwJson = {
+      name: 'sandbox',
+      hostname: 'sandbox.demandware.net',
+      username: 'sandbox-user',
+      password: 'sandbox-pass',
+      configs: [
+        {
+          name: 'staging',
+          hostname: 'staging.demandware.net',
+          username: 'staging-user',
+          password: 'staging-pass',
+          'client-id': 'staging-client',
+          'client-secret': 'staging-secret',
+          active: true,
+        },
+        {
+          name: 'production',
+          hostname: 'production.demandware.net',
+          username: 'production-user',
+          password: 'production-pass',
+        },
+      ],
+    } as any;
+
+    it('should map configs to named instances with the active one as default', () => {
+      const config = ConfigurationFactory.mapDwJsonToProfiles(profilesDwJson);
+
+      expect(config.instanceName).toBe('staging');
+      expect(config.hostname).toBe('staging.demandware.net');
+      expect(config.clientId).toBe('staging-client');
+      expect(Object.keys(config.instances!)).toEqual(['sandbox', 'staging', 'production']);
+      expect(config.instances!.production.instanceName).toBe('production');
+    });
+
+    it('should default to the top-level config when none is active', () => {
+      const config = ConfigurationFactory.mapDwJsonToProfiles({
+        ...profilesDwJson,
+        configs: profilesDwJson.configs.map((profile: any) => ({ ...profile, active: undefined })),
+      });
+
+      expect(config.instanceName).toBe('sandbox');
+      expect(ConfigurationFactory.getInstanceNames(config)).toEqual(['sandbox', 'staging', 'production']);
+    });
+
+    it('should keep the single-instance shape when no configs are present', () => {
+      const config = ConfigurationFactory.mapDwJsonToProfiles({
+        hostname: 'test.demandware.net',
+        username: 'user',
+        password: 'pass',
+      });
+
+      expect(config.instances).toBeUndefined();
+      expect(ConfigurationFactory.getInstanceNames(config)).toEqual(['default']);
+    });
+
+    it('should map SLAS client and shopper credentials', () => {
+      const config = ConfigurationFactory.mapDwJsonToProfiles({
+        hostname: 'test.demandware.net',
+        username: 'user',
+        password: 'pass',
+        'slas-client-id': 'slas-client',
+        'slas-redirect-uri': 'https://example.com/callback',
+        'shopper-login': 'shopper@example.com',
+        'shopper-password': 'shopper-password',
+      });
+
+      expect(config).toMatchObject({
+        slasClientId: 'slas-client',
+        slasRedirectUri: 'https://example.com/callback',
+        shopperLogin: 'shopper@example.com',
+        shopperPassword: 'shopper-password',
+      });
+      expect(config.slasClientSecret).toBeUndefined();
+    });
+
+    it('should apply option overrides to the default instance only', () => {
+      const testFile = join(testDir, 'valid-dw.json');
+      writeFileSync(testFile, JSON.stringify(profilesDwJson, null, 2));
+
+      const config = ConfigurationFactory.create({ dwJsonPath: testFile, siteId: 'RefArch' });
+
+      expect(config.siteId).toBe('RefArch');
+      expect(ConfigurationFactory.resolveInstance(config, 'staging').siteId).toBe('RefArch');
+      expect(ConfigurationFactory.resolveInstance(config, 'production').siteId).toBeUndefined();
+    });
+
+    it('should resolve instances by name and reject unknown names', () => {
+      const config = ConfigurationFactory.mapDwJsonToProfiles(profilesDwJson);
+
+      expect(ConfigurationFactory.resolveInstance(config).hostname).toBe('staging.demandware.net');
+      expect(ConfigurationFactory.resolveInstance(config).instances).toBeUndefined();
+      expect(ConfigurationFactory.resolveInstance(config, 'production').hostname).toBe('production.demandware.net');
+      expect(() => ConfigurationFactory.resolveInstance(config, 'qa')).toThrow(
+        'Unknown instance "qa". Available instances: staging, sandbox, production',
+      );
+    });
+
+    it('should report capabilities available on any instance', () => {
+      const config: SFCCConfig = {
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        instanceName: 'sandbox',
+        instances: {
+          staging: {
+            hostname: 'staging.demandware.net',
+            clientId: 'client',
+            clientSecret: 'secret',
+            instanceName: 'staging',
+          },
+        },
+      };
+
+      const capabilities = ConfigurationFactory.getCapabilities(config);
+
+      expect(capabilities.canAccessLogs).toBe(true);
+      expect(capabilities.canAccessOCAPI).toBe(true);
+      expect(ConfigurationFactory.getCapabilities(ConfigurationFactory.resolveInstance(config)).canAccessOCAPI)
+        .toBe(false);
+    });
+  });
+
+  describe('read-only mode', () => {
+    it('should map per-instance readOnly flags from dw.json', () => {
+      const config = ConfigurationFactory.mapDwJsonToProfiles({
+        name: 'sandbox',
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        configs: [
+          {
+            name: 'production',
+            hostname: 'production.demandware.net',
+            username: 'user',
+            password: 'pass',
+            readOnly: true,
+          },
+        ],
+      });
+
+      expect(config.readOnly).toBeUndefined();
+      expect(ConfigurationFactory.resolveInstance(config, 'production').readOnly).toBe(true);
+    });
+
+    it('should apply the readOnly option to every instance', () => {
+      const testFile = join(testDir, 'valid-dw.json');
+      writeFileSync(testFile, JSON.stringify({
+        name: 'sandbox',
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        configs: [
+          { name: 'production', hostname: 'production.demandware.net', username: 'user', password: 'pass' },
+        ],
+      }, null, 2));
+
+      const config = ConfigurationFactory.create({ dwJsonPath: testFile, readOnly: true });
+
+      expect(config.readOnly).toBe(true);
+      expect(ConfigurationFactory.resolveInstance(config, 'sandbox').readOnly).toBe(true);
+      expect(ConfigurationFactory.resolveInstance(config, 'production').readOnly).toBe(true);
+    });
+  });
+
+  describe('cartridges root', () => {
+    it('should apply the cartridgesRoot option', () => {
+      const config = ConfigurationFactory.create({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        cartridgesRoot: '/work/storefront/cartridges',
+      });
+
+      expect(config.cartridgesRoot).toBe('/work/storefront/cartridges');
+    });
+  });
+
+  describe('HTTP auth token', () => {
+    afterEach(() => {
+      delete process.env.SFCC_TEST_HTTP_TOKEN;
+    });
+
+    it('should resolve a secret reference for the HTTP auth token', () => {
+      process.env.SFCC_TEST_HTTP_TOKEN = 'resolved-token';
+
+      const config = ConfigurationFactory.create({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        httpAuthToken: 'env:SFCC_TEST_HTTP_TOKEN',
+      });
+
+      expect(config.httpAuthToken).toBe('resolved-token');
+      expect(ConfigurationFactory.create({ httpAuthToken: 'plain-token' }).httpAuthToken).toBe('plain-token');
+    });
+  });
+
+  describe('HTTP settings', () => {
+    it('should map the http settings from dw.json', () => {
+      const config = ConfigurationFactory.mapDwJsonToConfig({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        http: { 'timeout': 60000, 'max-retries': 5, 'requests-per-second': 0 },
+      });
+
+      expect(config.http).toEqual({ timeoutMs: 60000, maxRetries: 5, requestsPerSecond: 0 });
+    });
+
+    it('should reject invalid http settings', () => {
+      expect(() => ConfigurationFactory.mapDwJsonToConfig({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'pass',
+        http: { 'max-retries': -1 },
+      })).toThrow('Invalid "http.max-retries" in dw.json: must be a non-negative number');
+    });
+  });
+
+  describe('secret references', () => {
+    afterEach(() => {
+      delete process.env.SFCC_TEST_PASSWORD;
+      delete process.env.SFCC_TEST_CLIENT_SECRET;
+    });
+
+    it('should resolve secret references in every instance', () => {
+      process.env.SFCC_TEST_PASSWORD = 'resolved-password';
+      process.env.SFCC_TEST_CLIENT_SECRET = 'resolved-client-secret';
+      const testFile = join(testDir, 'valid-dw.json');
+      writeFileSync(testFile, JSON.stringify({
+        name: 'sandbox',
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'env:SFCC_TEST_PASSWORD',
+        configs: [
+          {
+            name: 'production',
+            hostname: 'production.demandware.net',
+            username: 'user',
+            password: 'env:SFCC_TEST_PASSWORD',
+            'client-id': 'client',
+            'client-secret': 'env:SFCC_TEST_CLIENT_SECRET',
+          },
+        ],
+      }, null, 2));
+
+      const config = ConfigurationFactory.create({ dwJsonPath: testFile });
+
+      expect(config.password).toBe('resolved-password');
+      expect(ConfigurationFactory.resolveInstance(config, 'sandbox').password).toBe('resolved-password');
+      expect(ConfigurationFactory.resolveInstance(config, 'production')).toMatchObject({
+        password: 'resolved-password',
+        clientSecret: 'resolved-client-secret',
+      });
+    });
+
+    it('should resolve secret references passed as options', () => {
+      process.env.SFCC_TEST_CLIENT_SECRET = 'resolved-client-secret';
+
+      const config = ConfigurationFactory.create({
+        hostname: 'sandbox.demandware.net',
+        clientId: 'client',
+        clientSecret: 'env:SFCC_TEST_CLIENT_SECRET',
+      });
+
+      expect(config.clientSecret).toBe('resolved-client-secret');
+    });
+
+    it.each([
+      ['file:', `file:${join(tmpdir(), 'id_rsa')}`],
+      ['env:', 'env:SFCC_TEST_PASSWORD'],
+      ['keychain:', 'keychain:sfcc/user'],
+      ['cmd:', 'cmd:printf discovered-password'],
+    ])('should reject %s references of an auto-detected dw.json unless allowed', (scheme, reference) => {
+      const testFile = join(testDir, 'valid-dw.json');
+      writeFileSync(testFile, JSON.stringify({
+        name: 'default',
+        hostname: 'attacker.example.com',
+        username: 'user',
+        password: 'plain-password',
+        configs: [{ name: 'other', hostname: 'attacker.example.com', username: 'user', password: reference }],
+      }, null, 2));
+
+      expect(() => ConfigurationFactory.create({ dwJsonPath: testFile, dwJsonDiscovered: true }))
+        .toThrow(`"password" in the auto-detected ${testFile} is a "${scheme}" secret reference`);
+    });
+
+    it('should resolve secret references of an auto-detected dw.json when allowed or passed explicitly', () => {
+      process.env.SFCC_TEST_PASSWORD = 'resolved-password';
+      const testFile = join(testDir, 'valid-dw.json');
+      writeFileSync(testFile, JSON.stringify({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'env:SFCC_TEST_PASSWORD',
+        'client-id': 'client',
+        'client-secret': 'cmd:printf discovered-secret',
+      }, null, 2));
+
+      expect(ConfigurationFactory.create({ dwJsonPath: testFile })).toMatchObject({
+        password: 'resolved-password',
+        clientSecret: 'discovered-secret',
+      });
+      expect(ConfigurationFactory.create({
+        dwJsonPath: testFile,
+        dwJsonDiscovered: true,
+        allowDwJsonSecrets: true,
+      })).toMatchObject({ password: 'resolved-password', clientSecret: 'discovered-secret' });
+    });
+
+    it('should accept plaintext values of an auto-detected dw.json', () => {
+      const testFile = join(testDir, 'valid-dw.json');
+      writeFileSync(testFile, JSON.stringify({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'plain-password',
+      }, null, 2));
+
+      expect(ConfigurationFactory.create({ dwJsonPath: testFile, dwJsonDiscovered: true }).password)
+        .toBe('plain-password');
+    });
+
+    it('should name the field that could not be resolved', () => {
+      expect(() => ConfigurationFactory.create({
+        hostname: 'sandbox.demandware.net',
+        username: 'user',
+        password: 'env:SFCC_TEST_PASSWORD',
+      })).toThrow('Failed to resolve "password" from env provider: environment variable SFCC_TEST_PASSWORD is not set');
+    });
+  });
 });
@@ -0,0 +1,210 @@
+/**
+ * Tests for ConnectionChecker
+ * Tests the order, dependencies and failure reasons of the connection checks
+ */
+
+import { lookup } from 'dns/promises';
+import { ConnectionChecker, formatConnectionReport } from '../src/clients/connection-checker.js';
+import { WebDAVClientManager } from '../src/clients/logs/webdav-client-manager.js';
+import { OCAPIAuthClient } from '../src/clients/base/ocapi-auth-client.js';
+import { OCAPICodeVersionsClient } from '../src/clients/ocapi/code-versions-client.js';
+import { DataAPIClient } from '../src/clients/data-api-client.js';
+import { HttpRequestError } from '../src/clients/base/http-client.js';
+import { OCAPIFaultError } from '../src/clients/base/ocapi-fault.js';
+import { SFCCConfig } from '../src/types/types.js';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+jest.mock('../src/clients/logs/webdav-client-manager.js', () => ({ WebDAVClientManager: jest.fn() }));
+jest.mock('../src/clients/base/ocapi-auth-client.js', () => ({ OCAPIAuthClient: jest.fn() }));
+jest.mock('../src/clients/ocapi/code-versions-client.js', () => ({ OCAPICodeVersionsClient: jest.fn() }));
+jest.mock('../src/clients/data-api-client.js', () => ({ DataAPIClient: jest.fn() }));
+
+// Mock Logger
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      log: jest.fn(),
+    })),
+  },
+}));
+
+describe('ConnectionChecker', () => {
+  const config: SFCCConfig = {
+    hostname: 'test-instance.demandware.net',
+    username: 'test-user',
+    password: 'test-password',
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+  };
+
+  let checkConnection: jest.Mock;
+  let refreshToken: jest.Mock;
+  let getCodeVersions: jest.Mock;
+  let executeEndpoint: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (lookup as jest.Mock).mockResolvedValue({ address: '192.0.2.10', family: 4 });
+
+    checkConnection = jest.fn().mockResolvedValue(12);
+    (WebDAVClientManager as jest.Mock).mockImplementation(() => ({ setupClient: jest.fn(), checkConnection }));
+    refreshToken = jest.fn().mockResolvedValue(undefined);
+    (OCAPIAuthClient as jest.Mock).mockImplementation(() => ({ refreshToken, getTokenExpiration: () => null }));
+    getCodeVersions = jest.fn().mockResolvedValue({ count: 2, data: [] });
+    (OCAPICodeVersionsClient as jest.Mock).mockImplementation(() => ({ getCodeVersions }));
+    executeEndpoint = jest.fn().mockResolvedValue({ data: {}, status: 200, success: true });
+    (DataAPIClient as jest.Mock).mockImplementation(() => ({ executeEndpoint }));
+  });
+
+  describe('checkAll', () => {
+    it('should run the configured checks and skip unconfigured API families', async () => {
+      const report = await new ConnectionChecker(config).checkAll();
+
+      expect(report.ok).toBe(true);
+      expect(report.checks.map((check) => [check.name, check.status])).toEqual([
+        ['dns', 'ok'],
+        ['webdav', 'ok'],
+        ['oauth', 'ok'],
+        ['ocapi', 'ok'],
+        ['scapi', 'skipped'],
+        ['shopper', 'skipped'],
+      ]);
+      expect(report.checks[0]).toMatchObject({
+        target: 'test-instance.demandware.net',
+        details: { address: '192.0.2.10', family: 'IPv4' },
+      });
+      expect(report.checks[1].details).toEqual({ entries: 12 });
+      expect(report.checks[3].details).toEqual({ codeVersions: 2 });
+      expect(typeof report.checks[0].latencyMs).toBe('number');
+    });
+
+    it('should skip the remaining checks when the hostname does not resolve', async () => {
+      (lookup as jest.Mock).mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+      const report = await new ConnectionChecker(config).checkAll();
+
+      expect(report.ok).toBe(false);
+      expect(report.checks[0]).toMatchObject({
+        status: 'failed',
+        reason: 'The hostname could not be resolved (ENOTFOUND) (test-instance.demandware.net)',
+      });
+      expect(report.checks.slice(1, 4).map((check) => check.reason)).toEqual([
+        'Hostname resolution failed',
+        'Hostname resolution failed',
+        'Hostname resolution failed',
+      ]);
+      expect(checkConnection).not.toHaveBeenCalled();
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+
+    it('should skip the Data API checks when the token grant fails', async () => {
+      refreshToken.mockRejectedValue(new Error(
+        'Failed to get access token: Error: OAuth authentication failed: 401 Unauthorized - invalid_client',
+      ));
+
+      const report = await new ConnectionChecker({ ...config, shortCode: 'kv7kzm78', organizationId: 'f_ecom_zzxy_prd' }).checkAll();
+
+      expect(report.checks[2]).toMatchObject({
+        name: 'oauth',
+        status: 'failed',
+        reason: 'The API client credentials were rejected (401) - check client-id and client-secret',
+        details: { status: 401 },
+      });
+      expect(report.checks[3]).toMatchObject({ name: 'ocapi', status: 'skipped', reason: 'OAuth token grant failed' });
+      expect(report.checks[4]).toMatchObject({ name: 'scapi', status: 'skipped', reason: 'OAuth token grant failed' });
+      expect(getCodeVersions).not.toHaveBeenCalled();
+    });
+
+    it('should only check the instance it was created for', async () => {
+      const report = await new ConnectionChecker({
+        hostname: 'test-instance.demandware.net',
+        username: 'test-user',
+        password: 'test-password',
+        instances: { production: { ...config, shortCode: 'kv7kzm78', organizationId: 'f_ecom_zzxy_prd' } },
+      }).checkAll();
+
+      expect(report.checks.filter((check) => check.status === 'ok').map((check) => check.name)).toEqual(['dns', 'webdav']);
+    });
+  });
+
+  describe('failure reasons', () => {
+    it('should explain rejected WebDAV credentials and permissions', async () => {
+      checkConnection.mockRejectedValueOnce(Object.assign(new Error('Invalid response: 401 Unauthorized'), { status: 401 }));
+      const unauthorized = await new ConnectionChecker(config).checkWebDAV();
+      checkConnection.mockRejectedValueOnce(Object.assign(new Error('Invalid response: 403 Forbidden'), { status: 403 }));
+      const forbidden = await new ConnectionChecker(config).checkWebDAV();
+
+      expect(unauthorized.reason).toContain('check username and password');
+      expect(forbidden.reason).toContain('WebDAV Client Permissions');
+      expect(forbidden.details).toEqual({ status: 403 });
+    });
+
+    it('should describe network errors by their error code', async () => {
+      const cause = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:443'), { code: 'ECONNREFUSED' });
+      refreshToken.mockRejectedValue(new Error('Failed to get access token: TypeError: fetch failed', {
+        cause: new TypeError('fetch failed', { cause }),
+      }));
+
+      const result = await new ConnectionChecker(config).checkOAuth();
+
+      expect(result).toMatchObject({
+        status: 'failed',
+        target: 'https://account.demandware.com/dwsso/oauth2/access_token',
+        reason: 'The connection was refused - check the hostname and port (ECONNREFUSED)',
+      });
+    });
+
+    it('should point to the OCAPI settings when the Data API request is forbidden', async () => {
+      const error = new HttpRequestError('Request failed: 403', 'auth', { method: 'GET', url: '/', status: 403, attempts: 1 });
+      getCodeVersions.mockRejectedValue(new OCAPIFaultError(error, {
+        type: 'ClientAccessForbiddenException',
+        message: 'Access forbidden',
+      }));
+
+      const result = await new ConnectionChecker(config).checkOCAPI();
+
+      expect(result.reason).toContain('diagnose_ocapi_access');
+      expect(result.details).toEqual({ status: 403, fault: 'ClientAccessForbiddenException' });
+    });
+
+    it('should report missing SCAPI scopes and skip the Shopper API without a site', async () => {
+      executeEndpoint.mockResolvedValue({ data: null, status: 403, success: false, error: 'Request failed: 403' });
+      const scapiConfig = { ...config, shortCode: 'kv7kzm78', organizationId: 'f_ecom_zzxy_prd', slasClientId: 'slas-client' };
+
+      const scapi = await new ConnectionChecker(scapiConfig).checkSCAPI();
+      const shopper = await new ConnectionChecker(scapiConfig).checkShopperAPI();
+
+      expect(executeEndpoint).toHaveBeenCalledWith('scapi_search_products', { body: { limit: 1 } });
+      expect(scapi.reason).toContain('sfcc.products scope');
+      expect(shopper).toMatchObject({ status: 'skipped', reason: expect.stringContaining('site ID') });
+    });
+  });
+
+  describe('formatConnectionReport', () => {
+    it('should list each check with its latency and reason', () => {
+      const text = formatConnectionReport({
+        hostname: 'test-instance.demandware.net',
+        instance: 'staging',
+        ok: false,
+        checks: [
+          { name: 'dns', status: 'ok', target: 'test-instance.demandware.net', latencyMs: 5 },
+          { name: 'webdav', status: 'failed', latencyMs: 40, reason: 'Rejected' },
+          { name: 'scapi', status: 'skipped', reason: 'Not configured' },
+        ],
+      });
+
+      expect(text.split('\n')).toEqual([
+        'Connection check for staging (test-instance.demandware.net)',
+        '  ✓ dns     ok 5ms test-instance.demandware.net',
+        '  ✗ webdav  failed 40ms',
+        '      Rejected',
+        '  - scapi   skipped',
+        '      Not configured',
+        'Some checks failed',
+      ]);
+    });
+  });
+});
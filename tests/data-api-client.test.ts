@@ -6,6 +6,8 @@
 import { DataAPIClient } from '../src/clients/data-api-client.js';
 import { OCAPIConfig, Endpoint } from '../src/types/types.js';
 import { EndpointLoader } from '../src/utils/endpoint-loader.js';
+import { SCAPIAuthClient } from '../src/clients/base/scapi-auth-client.js';
+import { SLASAuthClient } from '../src/clients/base/slas-auth-client.js';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -54,6 +56,22 @@ jest.mock('../src/utils/logger.js', () => ({
 // Mock BaseHttpClient
 jest.mock('../src/clients/base/http-client.js');
 
+// Mock SCAPIAuthClient (one instance per scope set)
+const mockSCAPIRequest = jest.fn();
+jest.mock('../src/clients/base/scapi-auth-client.js', () => ({
+  SCAPIAuthClient: jest.fn().mockImplementation(() => ({
+    request: mockSCAPIRequest,
+  })),
+}));
+
+// Mock SLASAuthClient (one instance per site and shopper type)
+const mockSLASRequest = jest.fn();
+jest.mock('../src/clients/base/slas-auth-client.js', () => ({
+  SLASAuthClient: jest.fn().mockImplementation(() => ({
+    request: mockSLASRequest,
+  })),
+}));
+
 // Mock EndpointLoader
 const mockEndpointLoader = {
   getEndpoint: jest.fn(),
@@ -717,6 +735,65 @@ describe('DataAPIClient', () => {
     });
   });
 
+  describe('executePaginatedEndpoint', () => {
+    const mockSearchEndpoint: Endpoint = {
+      ...mockPostEndpoint,
+      toolName: 'search_catalogs',
+      parameters: [...mockPostEndpoint.parameters, { name: 'start', description: 'Start', type: 'number', required: false }],
+    };
+
+    it('should page GET endpoints through the query parameters', async () => {
+      const executeEndpoint = jest.spyOn(client, 'executeEndpoint')
+        .mockResolvedValueOnce({ data: { count: 2, data: [1, 2], total: 3, next: '/catalogs?start=2' }, status: 200, success: true })
+        .mockResolvedValueOnce({ data: { count: 1, data: [3], total: 3 }, status: 200, success: true });
+
+      const result = await client.executePaginatedEndpoint('get_catalogs', { queryParams: { count: 2 } }, { all: true });
+
+      expect(executeEndpoint).toHaveBeenNthCalledWith(1, 'get_catalogs', { queryParams: { count: 2, start: 0 } });
+      expect(executeEndpoint).toHaveBeenNthCalledWith(2, 'get_catalogs', { queryParams: { count: 1, start: 2 } });
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        count: 3,
+        data: [1, 2, 3],
+        total: 3,
+        pagination: { start: 0, returned: 3, total: 3, pages: 2, truncated: false },
+      });
+    });
+
+    it('should page POST endpoints through the request body', async () => {
+      mockEndpointLoader.getEndpoint.mockReturnValue(mockSearchEndpoint);
+      const executeEndpoint = jest.spyOn(client, 'executeEndpoint')
+        .mockResolvedValueOnce({ data: { count: 2, hits: ['a', 'b'], total: 10 }, status: 200, success: true })
+        .mockResolvedValueOnce({ data: { count: 1, hits: ['c'], total: 10 }, status: 200, success: true });
+
+      const body = { query: { text_query: { fields: ['id'], search_phrase: 'x' } }, count: 2 };
+      const result = await client.executePaginatedEndpoint('search_catalogs', { body }, { maxResults: 3 });
+
+      expect(executeEndpoint).toHaveBeenNthCalledWith(2, 'search_catalogs', { body: { ...body, start: 2, count: 1 } });
+      expect(result.data.hits).toEqual(['a', 'b', 'c']);
+      expect(result.data.pagination).toMatchObject({ returned: 3, total: 10, truncated: true });
+    });
+
+    it('should report page errors', async () => {
+      jest.spyOn(client, 'executeEndpoint')
+        .mockResolvedValueOnce({ data: { count: 1, data: [1], total: 2 }, status: 200, success: true })
+        .mockResolvedValueOnce({ data: null, status: 403, success: false, error: 'Access denied' });
+
+      const result = await client.executePaginatedEndpoint('get_catalogs', { queryParams: { count: 1 } }, { all: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Access denied');
+    });
+
+    it('should reject endpoints without paging parameters', async () => {
+      const result = await client.executePaginatedEndpoint('search_products', {}, { all: true });
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(400);
+      expect(result.error).toBe('Endpoint does not support pagination: search_products');
+    });
+  });
+
   describe('getAvailableEndpoints', () => {
     it('should return available endpoints from loader', () => {
       const endpoints = client.getAvailableEndpoints();
@@ -744,4 +821,188 @@ describe('DataAPIClient', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('SCAPI endpoints', () => {
+    const scapiConfig = {
+      ...mockConfig,
+      shortCode: 'kv7kzm78',
+      organizationId: 'f_ecom_zzxy_prd',
+    };
+
+    const scapiGetEndpoint: Endpoint = {
+      toolName: 'scapi_get_product',
+      path: '/product/products/v1/organizations/{organizationId}/products/{productId}',
+      description: 'Get product',
+      method: 'GET',
+      parameters: [
+        { name: 'productId', description: 'Product ID', type: 'string', required: true },
+      ],
+      apiType: 'scapi',
+      scopes: ['sfcc.products'],
+    };
+
+    const scapiSearchEndpoint: Endpoint = {
+      toolName: 'scapi_search_products',
+      path: '/product/products/v1/organizations/{organizationId}/product-search',
+      description: 'Search products',
+      method: 'POST',
+      readOnly: true,
+      parameters: [],
+      defaultBody: { query: { matchAllQuery: {} }, limit: 25, offset: 0 },
+      apiType: 'scapi',
+      scopes: ['sfcc.products'],
+    };
+
+    beforeEach(() => {
+      mockSCAPIRequest.mockResolvedValue({ id: 'PROD-123' });
+      mockEndpointLoader.getEndpoint.mockImplementation((name: string) => ({
+        scapi_get_product: scapiGetEndpoint,
+        scapi_search_products: scapiSearchEndpoint,
+      } as Record<string, Endpoint>)[name]);
+      client = new DataAPIClient(scapiConfig);
+    });
+
+    it('should route SCAPI endpoints through a scoped SCAPI client', async () => {
+      (client as any).get = jest.fn();
+
+      const result = await client.executeEndpoint('scapi_get_product', {
+        pathParams: { productId: 'PROD-123' },
+        queryParams: { siteId: 'RefArch' },
+      });
+
+      expect(result).toEqual({ data: { id: 'PROD-123' }, status: 200, success: true });
+      expect(SCAPIAuthClient).toHaveBeenCalledWith(scapiConfig, ['sfcc.products']);
+      expect(mockSCAPIRequest).toHaveBeenCalledWith(
+        'GET',
+        '/product/products/v1/organizations/f_ecom_zzxy_prd/products/PROD-123?siteId=RefArch',
+        undefined,
+      );
+      expect((client as any).get).not.toHaveBeenCalled();
+    });
+
+    it('should send the merged request body for SCAPI POST endpoints', async () => {
+      await client.executeEndpoint('scapi_search_products', { body: { limit: 5 } });
+
+      expect(mockSCAPIRequest).toHaveBeenCalledWith(
+        'POST',
+        '/product/products/v1/organizations/f_ecom_zzxy_prd/product-search',
+        { query: { matchAllQuery: {} }, limit: 5, offset: 0 },
+      );
+    });
+
+    it('should reuse the SCAPI client for the same scopes', async () => {
+      await client.executeEndpoint('scapi_get_product', { pathParams: { productId: 'A' } });
+      await client.executeEndpoint('scapi_search_products', {});
+
+      expect(SCAPIAuthClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report SCAPI errors in the response', async () => {
+      mockSCAPIRequest.mockRejectedValue(new Error('Request failed: 403 Forbidden'));
+
+      const result = await client.executeEndpoint('scapi_get_product', { pathParams: { productId: 'A' } });
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(500);
+      expect(result.error).toBe('Request failed: 403 Forbidden');
+    });
+  });
+
+  describe('Shopper API endpoints', () => {
+    const shopperConfig = {
+      ...mockConfig,
+      siteId: 'RefArch',
+      shortCode: 'kv7kzm78',
+      organizationId: 'f_ecom_zzxy_prd',
+      slasClientId: 'slas-client',
+      shopperLogin: 'shopper@example.com',
+      shopperPassword: 'shopper-password',
+    };
+
+    const getProductEndpoint: Endpoint = {
+      toolName: 'shopper_get_product',
+      path: '/product/shopper-products/v1/organizations/{organizationId}/products/{productId}',
+      description: 'Get product',
+      method: 'GET',
+      parameters: [],
+      apiType: 'scapi',
+      apiFamily: 'shopper',
+      requiresSiteId: true,
+    };
+
+    const addItemEndpoint: Endpoint = {
+      toolName: 'shopper_add_item',
+      path: '/checkout/shopper-baskets/v1/organizations/{organizationId}/baskets/{basketId}/items',
+      description: 'Add item',
+      method: 'POST',
+      parameters: [],
+      defaultBody: { quantity: 1 },
+      apiType: 'scapi',
+      apiFamily: 'shopper',
+      requiresSiteId: true,
+      arrayBody: true,
+    };
+
+    beforeEach(() => {
+      mockSLASRequest.mockResolvedValue({ id: 'PROD-123' });
+      mockEndpointLoader.getEndpoint.mockImplementation((name: string) => ({
+        shopper_get_product: getProductEndpoint,
+        shopper_add_item: addItemEndpoint,
+      } as Record<string, Endpoint>)[name]);
+      client = new DataAPIClient(shopperConfig);
+    });
+
+    it('should route Shopper API endpoints through a guest SLAS client with the configured site', async () => {
+      const result = await client.executeEndpoint('shopper_get_product', { pathParams: { productId: 'PROD-123' } });
+
+      expect(result).toEqual({ data: { id: 'PROD-123' }, status: 200, success: true });
+      expect(SLASAuthClient).toHaveBeenCalledWith(expect.objectContaining({
+        hostname: shopperConfig.hostname,
+        organizationId: 'f_ecom_zzxy_prd',
+        clientId: 'slas-client',
+        siteId: 'RefArch',
+      }), 'guest');
+      expect(mockSLASRequest).toHaveBeenCalledWith(
+        'GET',
+        '/product/shopper-products/v1/organizations/f_ecom_zzxy_prd/products/PROD-123?siteId=RefArch',
+        undefined,
+      );
+      expect(SCAPIAuthClient).not.toHaveBeenCalled();
+    });
+
+    it('should keep one SLAS client per site and shopper type', async () => {
+      await client.executeEndpoint('shopper_get_product', { pathParams: { productId: 'A' } });
+      await client.executeEndpoint('shopper_get_product', { pathParams: { productId: 'B' }, shopperType: 'guest' });
+      await client.executeEndpoint('shopper_get_product', { pathParams: { productId: 'C' }, shopperType: 'registered' });
+      await client.executeEndpoint('shopper_get_product', {
+        pathParams: { productId: 'D' },
+        queryParams: { siteId: 'SiteGenesis' },
+      });
+
+      expect(SLASAuthClient).toHaveBeenCalledTimes(3);
+      expect(SLASAuthClient).toHaveBeenLastCalledWith(expect.objectContaining({ siteId: 'SiteGenesis' }), 'guest');
+    });
+
+    it('should wrap array request bodies', async () => {
+      await client.executeEndpoint('shopper_add_item', {
+        pathParams: { basketId: 'b-1' },
+        body: { productId: 'PROD-123' },
+      });
+
+      expect(mockSLASRequest).toHaveBeenCalledWith(
+        'POST',
+        '/checkout/shopper-baskets/v1/organizations/f_ecom_zzxy_prd/baskets/b-1/items?siteId=RefArch',
+        [{ quantity: 1, productId: 'PROD-123' }],
+      );
+    });
+
+    it('should report a missing SLAS client', async () => {
+      client = new DataAPIClient({ ...shopperConfig, slasClientId: undefined });
+
+      const result = await client.executeEndpoint('shopper_get_product', { pathParams: { productId: 'A' } });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('require a SLAS client');
+    });
+  });
 });
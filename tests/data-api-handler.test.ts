@@ -10,6 +10,7 @@ import { Logger } from '../src/utils/logger.js';
 // Mock the DataAPIClient
 const mockDataAPIClient = {
   executeEndpoint: jest.fn(),
+  executePaginatedEndpoint: jest.fn(),
   getSiteId: jest.fn(),
   setSiteId: jest.fn(),
   hasEndpoint: jest.fn(),
@@ -27,6 +28,7 @@ const mockEndpointLoader = {
   hasEndpoint: jest.fn(),
   getToolNameSet: jest.fn(),
   getToolNames: jest.fn(),
+  getImportedEndpoints: jest.fn(),
 };
 
 jest.mock('../src/utils/endpoint-loader.js', () => ({
@@ -96,6 +98,18 @@ describe('DataAPIToolHandler', () => {
     'get_price_book',
     'get_content_assets',
     'get_content_asset',
+    'scapi_search_products',
+    'scapi_get_product',
+    'scapi_get_orders',
+    'scapi_get_order',
+    'scapi_search_customers',
+    'scapi_get_customer',
+    'scapi_get_inventory_availability',
+    'shopper_get_product',
+    'shopper_search_products',
+    'shopper_create_basket',
+    'shopper_add_item',
+    'shopper_get_basket',
   ];
 
   const mockEndpoints = [
@@ -168,6 +182,73 @@ describe('DataAPIToolHandler', () => {
       defaultBody: { query: { match_all_query: {} }, count: 25, start: 0 },
       apiType: 'ocapi',
     },
+    {
+      toolName: 'scapi_get_order',
+      path: '/checkout/orders/v1/organizations/{organizationId}/orders/{orderNo}',
+      method: 'GET',
+      parameters: [
+        { name: 'orderNo', type: 'string', required: true },
+        { name: 'siteId', type: 'string', required: true },
+      ],
+      apiType: 'scapi',
+      scopes: ['sfcc.orders'],
+    },
+    {
+      toolName: 'scapi_search_customers',
+      path: '/customer/customers/v1/organizations/{organizationId}/customer-lists/{listId}/customer-search',
+      method: 'POST',
+      readOnly: true,
+      parameters: [
+        { name: 'listId', type: 'string', required: true },
+        { name: 'query', type: 'string', required: false },
+        { name: 'limit', type: 'number', required: false, in: 'body' },
+        { name: 'offset', type: 'number', required: false, in: 'body' },
+      ],
+      defaultBody: { query: { matchAllQuery: {} }, limit: 25, offset: 0 },
+      apiType: 'scapi',
+      scopes: ['sfcc.customerlists'],
+    },
+    {
+      toolName: 'scapi_get_inventory_availability',
+      path: '/inventory/availability/v1/organizations/{organizationId}/availability-records/actions/get',
+      method: 'POST',
+      readOnly: true,
+      parameters: [
+        { name: 'skus', type: 'array', required: true, in: 'body' },
+        { name: 'locations', type: 'array', required: true, in: 'body' },
+      ],
+      defaultBody: {},
+      apiType: 'scapi',
+      scopes: ['sfcc.inventory.availability'],
+    },
+    {
+      toolName: 'shopper_get_product',
+      path: '/product/shopper-products/v1/organizations/{organizationId}/products/{productId}',
+      method: 'GET',
+      parameters: [
+        { name: 'productId', type: 'string', required: true, in: 'path' },
+        { name: 'siteId', type: 'string', required: false },
+      ],
+      apiType: 'scapi',
+      apiFamily: 'shopper',
+      requiresSiteId: true,
+    },
+    {
+      toolName: 'shopper_add_item',
+      path: '/checkout/shopper-baskets/v1/organizations/{organizationId}/baskets/{basketId}/items',
+      method: 'POST',
+      parameters: [
+        { name: 'basketId', type: 'string', required: true, in: 'path' },
+        { name: 'productId', type: 'string', required: true, in: 'body' },
+        { name: 'quantity', type: 'number', required: false, in: 'body' },
+        { name: 'siteId', type: 'string', required: false },
+      ],
+      defaultBody: { quantity: 1 },
+      apiType: 'scapi',
+      apiFamily: 'shopper',
+      requiresSiteId: true,
+      arrayBody: true,
+    },
   ];
 
   beforeEach(() => {
@@ -186,12 +267,14 @@ describe('DataAPIToolHandler', () => {
 
     // Reset mock client
     mockDataAPIClient.executeEndpoint.mockReset();
+    mockDataAPIClient.executePaginatedEndpoint.mockReset();
     mockDataAPIClient.getSiteId.mockReset();
     mockDataAPIClient.hasEndpoint.mockReset();
 
     // Setup endpoint loader mock
     mockEndpointLoader.getToolNameSet.mockReturnValue(new Set(toolNames));
     mockEndpointLoader.getToolNames.mockReturnValue(toolNames);
+    mockEndpointLoader.getImportedEndpoints.mockReturnValue([]);
     mockEndpointLoader.getEndpoint.mockImplementation((name: string) => {
       return mockEndpoints.find((e) => e.toolName === name);
     });
@@ -259,7 +342,7 @@ describe('DataAPIToolHandler', () => {
       await (handlerWithoutOCAPI as any).initialize();
 
       expect(mockLogger.warn).toHaveBeenCalledWith(
-        'OCAPI access not available - Data API handler will not be functional',
+        'OCAPI and Shopper API access not available - Data API handler will not be functional',
       );
     });
   });
@@ -305,6 +388,25 @@ describe('DataAPIToolHandler', () => {
       expect(result.isError).toBe(false);
     });
 
+    it('should aggregate all result pages of search_products', async () => {
+      mockDataAPIClient.executePaginatedEndpoint.mockResolvedValue({
+        success: true,
+        status: 200,
+        data: { hits: [], total: 0, pagination: { start: 0, returned: 0, total: 0, pages: 1, truncated: false } },
+      });
+
+      const args = { site_id: 'test-site', query: 'shoes', all: true, maxResults: 500 };
+      const result = await handler.handle('search_products', args, Date.now());
+
+      expect(mockDataAPIClient.executePaginatedEndpoint).toHaveBeenCalledWith(
+        'search_products',
+        expect.any(Object),
+        { all: true, maxResults: 500 },
+      );
+      expect(mockDataAPIClient.executeEndpoint).not.toHaveBeenCalled();
+      expect(result.isError).toBe(false);
+    });
+
     it('should fail get_product without required args', async () => {
       const args = { site_id: 'test-site' }; // Missing product_id
       const result = await handler.handle('get_product', args, Date.now());
@@ -845,4 +947,168 @@ describe('DataAPIToolHandler', () => {
       );
     });
   });
+
+  describe('SCAPI request building', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+      mockDataAPIClient.executeEndpoint.mockResolvedValue({
+        success: true,
+        status: 200,
+        data: {},
+      });
+    });
+
+    it('should send camelCase path and query parameters', async () => {
+      await handler.handle('scapi_get_order', { orderNo: '00001', siteId: 'RefArch' }, Date.now());
+
+      expect(mockDataAPIClient.executeEndpoint).toHaveBeenCalledWith('scapi_get_order', {
+        pathParams: { orderNo: '00001' },
+        queryParams: { siteId: 'RefArch' },
+        body: undefined,
+      });
+    });
+
+    it('should build a SCAPI search body with body parameters and a text query', async () => {
+      await handler.handle(
+        'scapi_search_customers',
+        { listId: 'RefArch', query: 'jane', limit: 10 },
+        Date.now(),
+      );
+
+      expect(mockDataAPIClient.executeEndpoint).toHaveBeenCalledWith('scapi_search_customers', {
+        pathParams: { listId: 'RefArch' },
+        queryParams: {},
+        body: {
+          query: { textQuery: { fields: ['email', 'firstName', 'lastName'], searchPhrase: 'jane' } },
+          limit: 10,
+          offset: 0,
+        },
+      });
+    });
+
+    it('should accept comma-separated values for array body parameters', async () => {
+      await handler.handle(
+        'scapi_get_inventory_availability',
+        { skus: 'sku-1, sku-2', locations: ['store-1'] },
+        Date.now(),
+      );
+
+      expect(mockDataAPIClient.executeEndpoint).toHaveBeenCalledWith(
+        'scapi_get_inventory_availability',
+        expect.objectContaining({
+          body: { skus: ['sku-1', 'sku-2'], locations: ['store-1'] },
+        }),
+      );
+    });
+
+    it('should require the SCAPI identifiers', async () => {
+      const result = await handler.handle('scapi_get_order', { orderNo: '00001' }, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('siteId is required');
+    });
+  });
+
+  describe('Shopper API request building', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+      mockDataAPIClient.executeEndpoint.mockResolvedValue({
+        success: true,
+        status: 200,
+        data: {},
+      });
+    });
+
+    it('should call Shopper APIs as a guest by default', async () => {
+      await handler.handle('shopper_get_product', { productId: 'PROD-1' }, Date.now());
+
+      expect(mockDataAPIClient.executeEndpoint).toHaveBeenCalledWith('shopper_get_product', {
+        pathParams: { productId: 'PROD-1' },
+        queryParams: {},
+        body: undefined,
+        shopperType: 'guest',
+      });
+    });
+
+    it('should pass the registered shopper type and build the item body', async () => {
+      await handler.handle(
+        'shopper_add_item',
+        { basketId: 'b-1', productId: 'PROD-1', quantity: 2, siteId: 'RefArch', shopper: 'registered' },
+        Date.now(),
+      );
+
+      expect(mockDataAPIClient.executeEndpoint).toHaveBeenCalledWith('shopper_add_item', {
+        pathParams: { basketId: 'b-1' },
+        queryParams: { siteId: 'RefArch' },
+        body: { productId: 'PROD-1', quantity: 2 },
+        shopperType: 'registered',
+      });
+    });
+
+    it('should not pass a shopper type to Admin API endpoints', async () => {
+      await handler.handle('scapi_get_order', { orderNo: '00001', siteId: 'RefArch', shopper: 'registered' }, Date.now());
+
+      expect(mockDataAPIClient.executeEndpoint.mock.calls[0][1]).not.toHaveProperty('shopperType');
+    });
+  });
+
+  describe('imported API spec tools', () => {
+    const importedEndpoint = {
+      toolName: 'get_product_variations',
+      path: '/sites/{site_id}/products/{id}/variations',
+      description: 'Get the variations of a product',
+      method: 'POST' as const,
+      parameters: [
+        { name: 'site_id', description: 'Site ID', type: 'string', required: true, in: 'path' as const },
+        { name: 'id', description: 'Product ID', type: 'string', required: true, in: 'path' as const },
+        { name: 'locale', description: 'Locale', type: 'string', required: false, in: 'query' as const },
+        { name: 'query', description: 'Variation query', type: 'object', required: false, in: 'body' as const },
+        { name: 'attributes', description: 'Attribute IDs', type: 'array', required: false, in: 'body' as const },
+      ],
+      apiType: 'ocapi' as const,
+      requiresSiteId: true,
+      source: 'data-api.json',
+    };
+
+    beforeEach(async () => {
+      mockEndpointLoader.getToolNameSet.mockReturnValue(new Set([...toolNames, importedEndpoint.toolName]));
+      mockEndpointLoader.getImportedEndpoints.mockReturnValue([importedEndpoint]);
+      mockEndpointLoader.getEndpoint.mockImplementation((name: string) =>
+        name === importedEndpoint.toolName ? importedEndpoint : mockEndpoints.find((e) => e.toolName === name),
+      );
+      mockDataAPIClient.executeEndpoint.mockResolvedValue({ success: true, status: 200, data: {} });
+
+      handler = new DataAPIToolHandler(context, 'DataAPI');
+      await initializeHandler();
+    });
+
+    it('should handle imported endpoints without a hand-written tool configuration', async () => {
+      expect(handler.canHandle('get_product_variations')).toBe(true);
+
+      await handler.handle(
+        'get_product_variations',
+        {
+          site_id: 'RefArch',
+          id: 'PROD-1',
+          locale: 'en-US',
+          query: { term_query: { fields: ['color'] } },
+          attributes: 'color, size',
+        },
+        Date.now(),
+      );
+
+      expect(mockDataAPIClient.executeEndpoint).toHaveBeenCalledWith('get_product_variations', {
+        pathParams: { site_id: 'RefArch', id: 'PROD-1' },
+        queryParams: { locale: 'en-US' },
+        body: { query: { term_query: { fields: ['color'] } }, attributes: ['color', 'size'] },
+      });
+    });
+
+    it('should validate the required parameters of imported endpoints', async () => {
+      const result = await handler.handle('get_product_variations', { site_id: 'RefArch' }, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(mockDataAPIClient.executeEndpoint).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,232 @@
+import { DiagnosticsToolHandler } from '../src/core/handlers/diagnostics-handler.js';
+import { HandlerContext } from '../src/core/handlers/base-handler.js';
+import { collectOCAPIAccessProbes } from '../src/tool-configs/diagnostics-tool-config.js';
+import { Endpoint } from '../src/types/types.js';
+import { Logger } from '../src/utils/logger.js';
+
+// Mock the OCAPIAccessDiagnosticsClient
+const mockAccessDiagnosticsClient = {
+  diagnoseAccess: jest.fn(),
+};
+
+// Mock the ConnectionChecker
+const mockConnectionChecker = {
+  checkAll: jest.fn(),
+};
+
+jest.mock('../src/clients/connection-checker.js', () => ({
+  ConnectionChecker: jest.fn(() => mockConnectionChecker),
+}));
+
+jest.mock('../src/clients/ocapi/access-diagnostics-client.js', () => ({
+  OCAPIAccessDiagnosticsClient: jest.fn(() => mockAccessDiagnosticsClient),
+  PROBE_PLACEHOLDER_ID: '__probe__',
+}));
+
+const mockEndpoints: Endpoint[] = [
+  {
+    toolName: 'search_products',
+    path: '/product_search',
+    description: 'Search products',
+    method: 'POST',
+    readOnly: true,
+    parameters: [
+      { name: 'site_id', description: 'Site', type: 'string', required: true },
+      { name: 'count', description: 'Count', type: 'number', required: false },
+    ],
+    defaultBody: { query: { match_all_query: {} }, count: 25, start: 0 },
+    apiType: 'ocapi',
+  },
+  {
+    toolName: 'get_catalogs',
+    path: '/catalogs',
+    description: 'Get catalogs',
+    method: 'GET',
+    parameters: [{ name: 'count', description: 'Count', type: 'number', required: false }],
+    apiType: 'ocapi',
+  },
+  {
+    toolName: 'delete_coupon',
+    path: '/sites/{site_id}/coupons/{coupon_id}',
+    description: 'Delete a coupon',
+    method: 'DELETE',
+    parameters: [],
+    apiType: 'ocapi',
+  },
+  {
+    toolName: 'scapi_get_product',
+    path: '/products/{productId}',
+    description: 'Get a product via SCAPI',
+    method: 'GET',
+    parameters: [],
+    apiType: 'scapi',
+  },
+];
+
+jest.mock('../src/utils/endpoint-loader.js', () => ({
+  EndpointLoader: {
+    getInstance: jest.fn(() => ({ getEndpoints: () => mockEndpoints })),
+  },
+}));
+
+describe('DiagnosticsToolHandler', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let context: HandlerContext;
+  let handler: DiagnosticsToolHandler;
+
+  beforeEach(() => {
+    mockLogger = {
+      debug: jest.fn(),
+      log: jest.fn(),
+      error: jest.fn(),
+      timing: jest.fn(),
+      methodEntry: jest.fn(),
+      methodExit: jest.fn(),
+    } as any;
+
+    jest.clearAllMocks();
+    mockAccessDiagnosticsClient.diagnoseAccess.mockReset();
+    mockConnectionChecker.checkAll.mockReset();
+    jest.spyOn(Logger, 'getChildLogger').mockReturnValue(mockLogger);
+
+    context = {
+      logger: mockLogger,
+      config: {
+        hostname: 'test.commercecloud.salesforce.com',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+        siteId: 'RefArch',
+      },
+      capabilities: { canAccessLogs: false, canAccessOCAPI: true },
+    };
+
+    handler = new DiagnosticsToolHandler(context, 'Diagnostics');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('canHandle', () => {
+    it('should handle diagnostics tools', () => {
+      expect(handler.canHandle('diagnose_ocapi_access')).toBe(true);
+      expect(handler.canHandle('check_connection')).toBe(true);
+      expect(handler.canHandle('get_code_versions')).toBe(false);
+    });
+  });
+
+  describe('diagnose_ocapi_access', () => {
+    it('should probe the OCAPI endpoints and client resources with the instance settings', async () => {
+      mockAccessDiagnosticsClient.diagnoseAccess.mockResolvedValue({
+        summary: { allowed: 1, denied: 1, not_found: 0, skipped: 0, error: 0 },
+        results: [],
+        settings: { _v: '23.2', clients: [] },
+      });
+
+      const result = await handler.handle('diagnose_ocapi_access', {}, Date.now());
+
+      expect(result.isError).toBe(false);
+      const [probes, options] = mockAccessDiagnosticsClient.diagnoseAccess.mock.calls[0];
+      expect(options).toEqual({ siteId: 'RefArch', probeWrites: true });
+      expect(probes.map((probe: any) => probe.usedBy[0])).toEqual(expect.arrayContaining([
+        'search_products',
+        'get_catalogs',
+        'OCAPISystemObjectsClient',
+        'OCAPICodeVersionsClient',
+      ]));
+      expect(JSON.parse(result.content[0].text).nextSteps).toContain('Open Commerce API Settings');
+    });
+
+    it('should not probe write methods on read-only instances', async () => {
+      context.config!.readOnly = true;
+      mockAccessDiagnosticsClient.diagnoseAccess.mockResolvedValue({ summary: {}, results: [] });
+
+      await handler.handle('diagnose_ocapi_access', {}, Date.now());
+
+      expect(mockAccessDiagnosticsClient.diagnoseAccess.mock.calls[0][1]).toEqual({ siteId: 'RefArch', probeWrites: false });
+    });
+
+    it('should return an error when OCAPI is not configured', async () => {
+      const handlerWithoutOCAPI = new DiagnosticsToolHandler(
+        { ...context, capabilities: { canAccessLogs: false, canAccessOCAPI: false } },
+        'Diagnostics',
+      );
+
+      const result = await handlerWithoutOCAPI.handle('diagnose_ocapi_access', {}, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('OCAPI client not configured');
+    });
+  });
+
+  describe('check_connection', () => {
+    it('should return the connection report', async () => {
+      const report = { hostname: 'test.commercecloud.salesforce.com', ok: true, checks: [{ name: 'dns', status: 'ok', latencyMs: 3 }] };
+      mockConnectionChecker.checkAll.mockResolvedValue(report);
+
+      const result = await handler.handle('check_connection', {}, Date.now());
+
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+    });
+
+    it('should return an error when no instance is configured', async () => {
+      const localHandler = new DiagnosticsToolHandler(
+        { ...context, config: {}, capabilities: { canAccessLogs: false, canAccessOCAPI: false } },
+        'Diagnostics',
+      );
+
+      const result = await localHandler.handle('check_connection', {}, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No SFCC instance configured');
+    });
+  });
+
+  describe('collectOCAPIAccessProbes', () => {
+    it('should build minimal probe requests for OCAPI endpoints', () => {
+      const probes = collectOCAPIAccessProbes(mockEndpoints, 'RefArch', []);
+
+      expect(probes).toEqual([
+        {
+          path: '/product_search',
+          method: 'post',
+          readOnly: true,
+          usedBy: ['search_products'],
+          queryParams: { site_id: 'RefArch' },
+          body: { query: { match_all_query: {} }, count: 1, start: 0 },
+        },
+        {
+          path: '/catalogs',
+          method: 'get',
+          readOnly: true,
+          usedBy: ['get_catalogs'],
+          queryParams: { count: '1' },
+          body: undefined,
+        },
+        {
+          path: '/sites/{site_id}/coupons/{coupon_id}',
+          method: 'delete',
+          readOnly: false,
+          usedBy: ['delete_coupon'],
+          queryParams: {},
+          body: undefined,
+        },
+      ]);
+    });
+
+    it('should probe resource methods shared by several tools once', () => {
+      const probes = collectOCAPIAccessProbes([], undefined, [
+        { client: 'ClientA', path: '/sites/{site_id}/coupon_search', methods: ['post'], readOnly: true },
+        { client: 'ClientB', path: '/sites/{id}/coupon_search', methods: ['post'], readOnly: true },
+        { client: 'ClientB', path: '/code_versions/{id}', methods: ['get', 'patch'] },
+      ]);
+
+      expect(probes.map((probe) => [probe.method, probe.path, probe.usedBy, probe.readOnly])).toEqual([
+        ['post', '/sites/{site_id}/coupon_search', ['ClientA', 'ClientB'], true],
+        ['get', '/code_versions/{id}', ['ClientB'], true],
+        ['patch', '/code_versions/{id}', ['ClientB'], false],
+      ]);
+    });
+  });
+});
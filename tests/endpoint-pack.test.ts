@@ -0,0 +1,177 @@
+/**
+ * Tests for endpoint packs
+ * Tests validation, namespacing and duplicate detection of user-defined endpoint packs
+ */
+
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  assertNoDuplicateToolNames,
+  parseEndpointPack,
+  readEndpointPacks,
+  validateEndpoint,
+} from '../src/utils/endpoint-pack.js';
+import { ValidationError } from '../src/utils/validator.js';
+import { Endpoint } from '../src/types/types.js';
+
+const loyaltyEndpoint = {
+  toolName: 'get_loyalty_account',
+  path: '/custom/loyalty/v1/organizations/{organizationId}/accounts/{customerId}',
+  description: 'Get the loyalty account of a customer',
+  method: 'GET',
+  parameters: [
+    { name: 'customerId', description: 'Customer ID', type: 'string', required: true, in: 'path' },
+    { name: 'siteId', description: 'Site ID', type: 'string', required: false },
+  ],
+  apiType: 'scapi',
+  requiresSiteId: true,
+  scopes: ['c_loyalty'],
+};
+
+const storeEndpoint = {
+  toolName: 'get_store_hours',
+  path: '/custom_objects/StoreHours/{key}',
+  description: 'Get the opening hours of a store',
+  method: 'GET',
+  parameters: [{ name: 'key', description: 'Store ID', type: 'string', required: true }],
+  apiType: 'ocapi',
+};
+
+describe('endpoint packs', () => {
+  describe('validateEndpoint', () => {
+    it('should accept valid endpoints', () => {
+      expect(validateEndpoint(loyaltyEndpoint)).toEqual([]);
+      expect(validateEndpoint(storeEndpoint)).toEqual([]);
+    });
+
+    it('should report type errors and unknown properties', () => {
+      const errors = validateEndpoint({
+        toolName: 'get store',
+        path: 'stores',
+        description: '',
+        method: 'FETCH',
+        parameters: [{ name: 'id', description: 'ID', type: 'text', required: 'yes', location: 'path' }],
+        apiType: 'ocapi',
+        apiFamily: 'shopper',
+        readOnly: 'true',
+        tags: [],
+      });
+
+      expect(errors).toEqual([
+        'unknown property "tags"',
+        'toolName must be 1-64 letters, digits, underscores or hyphens',
+        'path must be a string starting with "/"',
+        'description must be a non-empty string',
+        'method must be one of GET, POST, PUT, PATCH, DELETE',
+        'apiFamily is only supported for SCAPI endpoints',
+        'readOnly must be a boolean',
+        'parameters[0]: unknown property "location"',
+        'parameters[0]: type must be one of string, number, integer, boolean, object, array',
+        'parameters[0]: required must be a boolean',
+      ]);
+    });
+
+    it('should require a parameter for every path placeholder', () => {
+      const errors = validateEndpoint({ ...storeEndpoint, path: '/custom_objects/{object_type}/{key}' });
+
+      expect(errors).toEqual(['path parameter {object_type} is not declared in parameters']);
+    });
+  });
+
+  describe('parseEndpointPack', () => {
+    it('should namespace tool names and record the pack as source', () => {
+      const pack = parseEndpointPack({ namespace: 'acme', endpoints: [loyaltyEndpoint, storeEndpoint] }, '/packs/acme.json');
+
+      expect(pack.namespace).toBe('acme');
+      expect(pack.endpoints.map(endpoint => endpoint.toolName)).toEqual([
+        'acme_get_loyalty_account',
+        'acme_get_store_hours',
+      ]);
+      expect(pack.endpoints[0]).toMatchObject({ path: loyaltyEndpoint.path, source: '/packs/acme.json' });
+    });
+
+    it('should keep tool names without a namespace', () => {
+      const pack = parseEndpointPack({ endpoints: [storeEndpoint] }, 'stores.json');
+
+      expect(pack.endpoints[0].toolName).toBe('get_store_hours');
+    });
+
+    it('should reject the whole pack with every validation error', () => {
+      expect(() => parseEndpointPack(
+        { namespace: '1acme', endpoints: [storeEndpoint, storeEndpoint, { ...storeEndpoint, toolName: undefined }] },
+        '/packs/acme.json',
+      )).toThrow(new ValidationError([
+        'Invalid endpoint pack acme.json:',
+        '  namespace must start with a letter and contain only letters, digits and underscores',
+        '  endpoints[1] (get_store_hours): duplicate tool name 1acme_get_store_hours',
+        '  endpoints[2] (#2): toolName must be 1-64 letters, digits, underscores or hyphens',
+      ].join('\n')));
+    });
+
+    it('should reject files without an endpoints array', () => {
+      expect(() => parseEndpointPack([storeEndpoint], 'stores.json'))
+        .toThrow('Invalid endpoint pack stores.json: expected an object with an "endpoints" array');
+    });
+
+    it('should reject namespaced tool names longer than 64 characters', () => {
+      expect(() => parseEndpointPack({ namespace: 'a'.repeat(50), endpoints: [storeEndpoint] }, 'stores.json'))
+        .toThrow('exceeds 64 characters');
+    });
+  });
+
+  describe('assertNoDuplicateToolNames', () => {
+    it('should reject tool names that are already registered', () => {
+      const pack = parseEndpointPack({ endpoints: [storeEndpoint] }, '/packs/stores.json');
+      const registered = new Map<string, Endpoint>([
+        ['get_store_hours', { ...(storeEndpoint as Endpoint), source: '/other/retail.json' }],
+      ]);
+
+      expect(() => assertNoDuplicateToolNames(pack, registered)).toThrow(
+        'Endpoint pack stores.json redefines existing tools: get_store_hours (already defined by retail.json). ' +
+          'Set a "namespace" in the pack to prefix its tool names.',
+      );
+      expect(() => assertNoDuplicateToolNames(pack, new Map())).not.toThrow();
+    });
+  });
+
+  describe('readEndpointPacks', () => {
+    const testDir = join(tmpdir(), 'sfcc-endpoint-pack-tests');
+
+    beforeEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+      mkdirSync(testDir, { recursive: true });
+    });
+
+    afterAll(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should read a single pack file', () => {
+      const packFile = join(testDir, 'acme.json');
+      writeFileSync(packFile, JSON.stringify({ namespace: 'acme', endpoints: [storeEndpoint] }));
+
+      const packs = readEndpointPacks(packFile);
+
+      expect(packs).toHaveLength(1);
+      expect(packs[0].endpoints[0].toolName).toBe('acme_get_store_hours');
+    });
+
+    it('should read all JSON packs of a directory in name order', () => {
+      writeFileSync(join(testDir, 'b-stores.json'), JSON.stringify({ endpoints: [storeEndpoint] }));
+      writeFileSync(join(testDir, 'a-loyalty.json'), JSON.stringify({ endpoints: [loyaltyEndpoint] }));
+      writeFileSync(join(testDir, 'notes.txt'), 'not a pack');
+
+      const packs = readEndpointPacks(testDir);
+
+      expect(packs.map(pack => pack.source)).toEqual([join(testDir, 'a-loyalty.json'), join(testDir, 'b-stores.json')]);
+    });
+
+    it('should fail for missing paths and invalid JSON', () => {
+      writeFileSync(join(testDir, 'broken.json'), '{ "endpoints": [');
+
+      expect(() => readEndpointPacks(join(testDir, 'missing.json'))).toThrow('Endpoint pack does not exist');
+      expect(() => readEndpointPacks(join(testDir, 'broken.json'))).toThrow(/^Invalid endpoint pack .*broken\.json/);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Tests for HttpTransportHost
+ * Tests Streamable HTTP session handling and routing
+ */
+
+import { request } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportHost } from '../src/core/http-transport.js';
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-06-18',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const MCP_HEADERS = {
+  'Content-Type': 'application/json',
+  'Accept': 'application/json, text/event-stream',
+};
+
+function createTestServer(): Server {
+  const server = new Server(
+    { name: 'test-server', version: '1.0.0' },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'echo', inputSchema: { type: 'object', properties: {} } }],
+  }));
+  return server;
+}
+
+/**
+ * Extract the first JSON-RPC message from an SSE response body
+ */
+function parseSseMessage(body: string): any {
+  const dataLine = body.split('\n').find(line => line.startsWith('data: '));
+  return dataLine ? JSON.parse(dataLine.substring(6)) : null;
+}
+
+/**
+ * Send a request with headers that fetch does not let tests control (Host)
+ */
+function rawRequest(
+  url: string,
+  options: { method?: string; headers?: Record<string, string>; body?: string },
+): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: options.method ?? 'GET', headers: options.headers }, (res) => {
+      let body = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+    });
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+describe('HttpTransportHost', () => {
+  let host: HttpTransportHost;
+  let baseUrl: string;
+  let serverFactory: jest.Mock;
+  let onSessionClosed: jest.Mock;
+
+  beforeEach(async () => {
+    serverFactory = jest.fn(createTestServer);
+    onSessionClosed = jest.fn();
+    host = new HttpTransportHost(serverFactory, onSessionClosed);
+    const address = await host.start({ port: 0 });
+    baseUrl = `http://${address.host}:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  const initializeSession = async (): Promise<string> => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+    expect(response.status).toBe(200);
+    await response.text();
+    return response.headers.get('mcp-session-id')!;
+  };
+
+  it('should report health status', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should create a new session on initialize', async () => {
+    const sessionId = await initializeSession();
+
+    expect(sessionId).toBeTruthy();
+    expect(host.getSessionCount()).toBe(1);
+    expect(serverFactory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give each client its own session and server', async () => {
+    const first = await initializeSession();
+    const second = await initializeSession();
+
+    expect(first).not.toBe(second);
+    expect(host.getSessionCount()).toBe(2);
+    expect(serverFactory).toHaveBeenCalledTimes(2);
+  });
+
+  it('should route requests to the session identified by the header', async () => {
+    const sessionId = await initializeSession();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-06-18' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(200);
+    const message = parseSseMessage(await response.text());
+    expect(message.result.tools[0].name).toBe('echo');
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(serverFactory).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown session IDs', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, 'mcp-session-id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return a parse error for malformed JSON', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: MCP_HEADERS,
+      body: '{not json',
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('should remove the session on DELETE', async () => {
+    const sessionId = await initializeSession();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2025-06-18' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(host.getSessionCount()).toBe(0);
+    expect(onSessionClosed).toHaveBeenCalledWith(sessionId);
+  });
+
+  it('should return 404 for unknown paths', async () => {
+    const response = await fetch(`${baseUrl}/unknown`);
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject a foreign Host header and close the server of the failed session', async () => {
+    const response = await rawRequest(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, Host: 'attacker.example:80' },
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.body).toContain('Invalid Host header');
+    expect(host.getSessionCount()).toBe(0);
+    const server: Server = serverFactory.mock.results[0].value;
+    expect(server.transport).toBeUndefined();
+  });
+
+  it('should accept the loopback host names', async () => {
+    const port = new URL(baseUrl).port;
+    const response = await rawRequest(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, Host: `localhost:${port}`, Origin: `http://localhost:${port}` },
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    expect(response.status).toBe(200);
+    expect(host.getSessionCount()).toBe(1);
+  });
+
+  it('should reject a foreign Origin header', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...MCP_HEADERS, Origin: 'http://attacker.example' },
+      body: JSON.stringify(INITIALIZE_REQUEST),
+    });
+
+    expect(response.status).toBe(403);
+    expect(serverFactory).not.toHaveBeenCalled();
+  });
+
+  it('should close the server of an SSE session when the stream closes', async () => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+    expect(response.status).toBe(200);
+    expect(host.getSessionCount()).toBe(1);
+    const server: Server = serverFactory.mock.results[0].value;
+    const close = jest.spyOn(server, 'close');
+    const { sessionId } = server.transport as SSEServerTransport;
+
+    controller.abort();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(host.getSessionCount()).toBe(0);
+    expect(close).toHaveBeenCalled();
+    expect(onSessionClosed).toHaveBeenCalledWith(sessionId);
+  });
+});
+
+describe('HttpTransportHost with an auth token', () => {
+  let host: HttpTransportHost;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    host = new HttpTransportHost(createTestServer);
+    const address = await host.start({ port: 0, authToken: 'secret-token' });
+    baseUrl = `http://${address.host}:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  const initialize = (headers: Record<string, string> = {}) => fetch(`${baseUrl}/mcp`, {
+    method: 'POST',
+    headers: { ...MCP_HEADERS, ...headers },
+    body: JSON.stringify(INITIALIZE_REQUEST),
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const missing = await initialize();
+    const wrong = await initialize({ Authorization: 'Bearer other-token' });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(wrong.status).toBe(401);
+    expect(host.getSessionCount()).toBe(0);
+  });
+
+  it('should accept requests with the bearer token', async () => {
+    const response = await initialize({ Authorization: 'Bearer secret-token' });
+
+    expect(response.status).toBe(200);
+    await response.text();
+    expect(host.getSessionCount()).toBe(1);
+  });
+
+  it('should not require the token for the health check', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+  });
+});
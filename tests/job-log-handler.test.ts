@@ -205,6 +205,23 @@ describe('JobLogToolHandler', () => {
       expect(result.content[0].text).toContain(mockResult);
     });
 
+    it('should pass a query to the client', async () => {
+      mockLogClient.searchJobLogs.mockResolvedValue('Search job logs result');
+
+      await handler.handle('search_job_logs', {
+        query: 'failed -retry',
+        caseSensitive: true,
+        level: 'error',
+      }, Date.now());
+
+      expect(mockLogClient.searchJobLogs).toHaveBeenCalledWith(
+        { query: 'failed -retry', caseSensitive: true, contextLines: undefined },
+        'error',
+        20,
+        undefined,
+      );
+    });
+
     it('should validate required pattern parameter', async () => {
       const result = await handler.handle('search_job_logs', {}, Date.now());
 
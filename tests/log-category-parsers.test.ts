@@ -0,0 +1,186 @@
+/**
+ * Tests for the quota, API deprecation, service, security and SQL log parsers
+ */
+
+import { LogCategoryParser } from '../src/clients/logs/log-category-parsers.js';
+import type { ParsedLogEntry } from '../src/clients/logs/log-types.js';
+
+const THREAD = 'PipelineCallServlet|1645761595|Sites-RefArch-Site|Search-Show|PipelineCall|nYJXtqnEfz';
+
+const entry = (text: string, level = 'WARN'): ParsedLogEntry => ({
+  file: 'quota-blade1-20250815-000000.log',
+  line: 1,
+  endLine: text.split('\n').length,
+  text,
+  level,
+});
+
+describe('LogCategoryParser', () => {
+  describe('parseQuotaViolation', () => {
+    it('should parse a quota whose limit was exceeded', () => {
+      const violation = LogCategoryParser.parseQuotaViolation(entry(
+        `[2025-08-15 10:00:00.000 GMT] ERROR ${THREAD} quota [] Quota api.dw.util.Collection@SF (enforced, limit 20000): ` +
+        'limit exceeded 3 time(s), max actual was 24310, current location: request/site Sites-RefArch-Site/top pipeline Search-Show',
+      ));
+
+      expect(violation).toEqual({
+        quota: 'api.dw.util.Collection@SF',
+        enforcement: 'enforced',
+        limit: 20000,
+        exceeded: 'limit',
+        count: 3,
+        maxActual: 24310,
+        location: 'request/site Sites-RefArch-Site/top pipeline Search-Show',
+        timestamp: '2025-08-15T10:00:00.000Z',
+        file: 'quota-blade1-20250815-000000.log',
+      });
+    });
+
+    it('should parse a warn threshold without location', () => {
+      const violation = LogCategoryParser.parseQuotaViolation(entry(
+        `[2025-08-15 10:00:00.000 GMT] WARN ${THREAD} quota [] Quota api.jsStringLength (internal, limit 1000000): ` +
+        'warn threshold exceeded 1 time(s), max actual was 650000',
+      ));
+
+      expect(violation).toEqual(expect.objectContaining({
+        quota: 'api.jsStringLength',
+        enforcement: 'internal',
+        exceeded: 'warn threshold',
+        location: undefined,
+      }));
+    });
+
+    it('should ignore other messages', () => {
+      expect(LogCategoryParser.parseQuotaViolation(entry('[2025-08-15 10:00:00.000 GMT] WARN x quota [] Something else')))
+        .toBeUndefined();
+    });
+  });
+
+  describe('parseApiDeprecation', () => {
+    it('should parse the deprecated API and the calling script', () => {
+      const usage = LogCategoryParser.parseApiDeprecation(entry(
+        `[2025-08-15 10:00:00.000 GMT] WARN ${THREAD} api-deprecation [] Deprecated API ` +
+        'dw.catalog.Product.getAvailabilityModel(ProductInventoryList) called by ' +
+        'app_storefront_base/cartridge/scripts/helpers/productHelpers.js:120',
+      ));
+
+      expect(usage).toEqual({
+        api: 'dw.catalog.Product.getAvailabilityModel(ProductInventoryList)',
+        location: 'app_storefront_base/cartridge/scripts/helpers/productHelpers.js:120',
+        timestamp: '2025-08-15T10:00:00.000Z',
+        file: 'quota-blade1-20250815-000000.log',
+      });
+    });
+
+    it('should fall back to the name after "deprecated method" and read locations from stack lines', () => {
+      const usage = LogCategoryParser.parseApiDeprecation(entry([
+        `[2025-08-15 10:00:00.000 GMT] WARN ${THREAD} api-deprecation [] Deprecated method: 'importPackage'`,
+        '\tat int_custom/cartridge/scripts/legacy.ds:7',
+      ].join('\n')));
+
+      expect(usage).toEqual(expect.objectContaining({
+        api: 'importPackage',
+        location: 'int_custom/cartridge/scripts/legacy.ds:7',
+      }));
+    });
+
+    it('should ignore entries without an API name', () => {
+      expect(LogCategoryParser.parseApiDeprecation(entry('[2025-08-15 10:00:00.000 GMT] WARN x api [] Started')))
+        .toBeUndefined();
+    });
+  });
+
+  describe('parseServiceEntry', () => {
+    it('should read the service ID and logger type from the logger category', () => {
+      const parsed = LogCategoryParser.parseServiceEntry(entry([
+        `[2025-08-15 10:00:00.000 GMT] ERROR ${THREAD} service.payment.adyen.authorize.HEAD [] Call failed: timeout`,
+        '\tat dw.svc.HTTPService.call',
+      ].join('\n'), 'ERROR'));
+
+      expect(parsed).toEqual({
+        service: 'payment.adyen.authorize',
+        type: 'HEAD',
+        level: 'ERROR',
+        timestamp: '2025-08-15T10:00:00.000Z',
+        file: 'quota-blade1-20250815-000000.log',
+        message: 'Call failed: timeout\n\tat dw.svc.HTTPService.call',
+      });
+    });
+
+    it('should keep other logger categories as service name', () => {
+      const parsed = LogCategoryParser.parseServiceEntry(entry(
+        `[2025-08-15 10:00:00.000 GMT] INFO ${THREAD} custom.tax [] Tax calculated`,
+        'INFO',
+      ));
+
+      expect(parsed).toEqual(expect.objectContaining({ service: 'custom.tax', type: undefined, message: 'Tax calculated' }));
+    });
+
+    it('should ignore entries without a header', () => {
+      expect(LogCategoryParser.parseServiceEntry({ ...entry('\tat orphan'), level: undefined })).toBeUndefined();
+    });
+  });
+
+  describe('parseSecurityEntry', () => {
+    it('should read the user and IP address named by the message', () => {
+      const parsed = LogCategoryParser.parseSecurityEntry(entry(
+        `[2025-08-15 10:00:00.000 GMT] WARN ${THREAD} security.login [] Login failed for user 'jdoe' from 192.168.0.12`,
+      ));
+
+      expect(parsed).toEqual({
+        category: 'security.login',
+        level: 'WARN',
+        timestamp: '2025-08-15T10:00:00.000Z',
+        file: 'quota-blade1-20250815-000000.log',
+        message: "Login failed for user 'jdoe' from 192.168.0.12",
+        user: 'jdoe',
+        ipAddress: '192.168.0.12',
+      });
+    });
+
+    it.each([
+      ['Customer "jane@example.com" locked after 5 failed attempts', 'jane@example.com'],
+      ['CSRF validation failed, login: jdoe, site: RefArch', 'jdoe'],
+      ['Login failed', undefined],
+    ])('should read the user of %j', (message, user) => {
+      const parsed = LogCategoryParser.parseSecurityEntry(entry(
+        `[2025-08-15 10:00:00.000 GMT] WARN ${THREAD} security [] ${message}`,
+      ));
+
+      expect(parsed?.user).toBe(user);
+      expect(parsed?.ipAddress).toBeUndefined();
+    });
+  });
+
+  describe('parseSqlEntry', () => {
+    it('should read the execution time and the statement', () => {
+      const parsed = LogCategoryParser.parseSqlEntry(entry([
+        `[2025-08-15 10:00:00.000 GMT] WARN ${THREAD} sql [] Slow query took 2.5 s:`,
+        'SELECT * FROM custom_objects',
+        'WHERE type = ?',
+      ].join('\n')));
+
+      expect(parsed).toEqual({
+        category: 'sql',
+        level: 'WARN',
+        timestamp: '2025-08-15T10:00:00.000Z',
+        file: 'quota-blade1-20250815-000000.log',
+        message: 'Slow query took 2.5 s:\nSELECT * FROM custom_objects\nWHERE type = ?',
+        durationMs: 2500,
+        statement: 'SELECT * FROM custom_objects\nWHERE type = ?',
+      });
+    });
+
+    it('should read milliseconds and leave unknown values undefined', () => {
+      const timed = LogCategoryParser.parseSqlEntry(entry(
+        `[2025-08-15 10:00:00.000 GMT] INFO ${THREAD} sql [] Statement executed in 120ms`,
+      ));
+      const failed = LogCategoryParser.parseSqlEntry(entry(
+        `[2025-08-15 10:00:00.000 GMT] ERROR ${THREAD} sql [] Statement failed with a deadlock`,
+      ));
+
+      expect(timed).toEqual(expect.objectContaining({ durationMs: 120, statement: undefined }));
+      expect(failed).toEqual(expect.objectContaining({ durationMs: undefined, statement: undefined }));
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { SFCCLogClient } from '../src/clients/log-client';
 import { SFCCConfig, LogLevel } from '../src/types/types';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Use manual mock for webdav
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -36,6 +39,7 @@ jest.mock('../src/utils/logger', () => ({
 // Mock utils
 jest.mock('../src/utils/utils', () => ({
   getCurrentDate: jest.fn(() => '20250815'),
+  getDatesInRange: jest.requireActual('../src/utils/utils').getDatesInRange,
   formatBytes: jest.fn((bytes: number) => `${bytes} bytes`),
   parseLogEntries: jest.fn((content: string, level: string) => {
     // Better mock implementation - split by lines and filter by level, return the actual lines
@@ -46,6 +50,7 @@ jest.mock('../src/utils/utils', () => ({
     return [...new Set(errors.map(error => error.trim()))];
   }),
   normalizeFilePath: jest.fn((path: string) => path),
+  extractTimestampFromLogEntry: jest.requireActual('../src/utils/utils').extractTimestampFromLogEntry,
 }));
 
 describe('SFCCLogClient', () => {
@@ -518,6 +523,22 @@ describe('SFCCLogClient', () => {
       expect(result).toContain('Log Files (4)');
     });
 
+    it('should report key issues that only differ in IDs or numbers once', async () => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-20250815-blade1-001.log' },
+      ]);
+      mockWebdavClient.getFileContents.mockResolvedValue([
+        ' ERROR Order 1001 failed for session V5YDtxRLpL',
+        ' ERROR Order 1002 failed for session Qq38CuNXpX',
+        ' ERROR Payment declined',
+      ].join('\n'));
+
+      const result = await logClient.summarizeLogs('20250815');
+
+      expect(result).toContain('- ERROR Order 1001 failed for session V5YDtxRLpL\n- ERROR Payment declined');
+      expect(result).not.toContain('Order 1002');
+    });
+
     it('should handle file read errors gracefully', async () => {
       const mockContents = [
         { type: 'file', filename: 'error-20250815-blade1-001.log' },
@@ -743,6 +764,800 @@ describe('SFCCLogClient', () => {
     });
   });
 
+  describe('time window queries', () => {
+    const window = { from: new Date('2025-08-15T23:55:00Z'), to: new Date('2025-08-16T00:05:00Z') };
+    const contents: Record<string, string> = {
+      'error-blade1-20250815-000000.log': [
+        '[2025-08-15 23:50:00.000 GMT] ERROR too early',
+        '[2025-08-15 23:58:00.000 GMT] ERROR before midnight',
+        '\tat Cart.calculate (cart.js:42)',
+      ].join('\n'),
+      'error-blade1-20250816-000000.log': [
+        '[2025-08-16 00:02:00.000 GMT] ERROR after midnight',
+        '[2025-08-16 00:30:00.000 GMT] ERROR too late',
+      ].join('\n'),
+    };
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250814-000000.log', lastmod: '2025-08-14T23:59:59Z' },
+        { type: 'file', filename: 'error-blade1-20250815-000000.log', lastmod: '2025-08-15T23:59:00Z' },
+        { type: 'file', filename: 'error-blade1-20250816-000000.log', lastmod: '2025-08-16T00:30:00Z' },
+        { type: 'file', filename: 'warn-blade1-20250815-000000.log', lastmod: '2025-08-15T10:00:00Z' },
+      ]);
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) => contents[filename] ?? '');
+    });
+
+    it('should return the latest entries of every day in the window', async () => {
+      const result = await logClient.getLatestLogs('error' as LogLevel, 10, undefined, window);
+
+      expect(result).toContain('error-blade1-20250816-000000.log, error-blade1-20250815-000000.log');
+      expect(result).toContain('ERROR before midnight');
+      expect(result).toContain('ERROR after midnight');
+      expect(result).not.toContain('too early');
+      expect(result).not.toContain('too late');
+      expect(result.indexOf('after midnight')).toBeLessThan(result.indexOf('before midnight'));
+    });
+
+    it('should only search lines of entries within the window', async () => {
+      const result = await logClient.searchLogs({ pattern: 'cart', limit: 10, window });
+
+      expect(result).toContain('Found 1 matches for "cart"');
+
+      const outside = await logClient.searchLogs({ pattern: 'too', limit: 10, window });
+      expect(outside).toBe('No matches found for "too" in logs for 2025-08-15 23:55:00 - 2025-08-16 00:05:00 GMT');
+    });
+
+    it('should skip files last modified before the window starts', async () => {
+      await logClient.summarizeLogs(undefined, window);
+
+      const read = mockWebdavClient.getFileContents.mock.calls.map(([filename]: [string]) => filename);
+      expect(read).toEqual(['error-blade1-20250815-000000.log', 'error-blade1-20250816-000000.log']);
+    });
+
+    it('should find a window before the last megabyte of a large file with range requests', async () => {
+      // One entry per second from 00:00:00, about 2MB in total
+      const start = Date.parse('2025-08-16T00:00:00Z');
+      const lines = Array.from({ length: 20000 }, (_, index) => {
+        const timestamp = new Date(start + index * 1000).toISOString().replace('T', ' ').replace('Z', '');
+        return `[${timestamp} GMT] ERROR PipelineCallServlet|${index} entry-${index} ${'x'.repeat(40)}`;
+      });
+      const content = Buffer.from(`${lines.join('\n')}\n`);
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250816-000000.log', lastmod: '2025-08-16T06:00:00Z' },
+      ]);
+      mockWebdavClient.stat.mockResolvedValue({ size: content.length });
+      mockWebdavClient.createReadStream.mockImplementation((_filename: string, options: any) => ({
+        on: jest.fn((event, callback) => {
+          if (event === 'data') {
+            callback(content.subarray(options.range.start, options.range.end + 1));
+          } else if (event === 'end') {
+            callback();
+          }
+        }),
+      }));
+
+      const result = await logClient.getLatestLogs('error' as LogLevel, 100, undefined, {
+        from: new Date('2025-08-16T00:10:00Z'),
+        to: new Date('2025-08-16T00:10:09Z'),
+      });
+
+      expect(content.length).toBeGreaterThan(1024 * 1024);
+      expect(mockWebdavClient.getFileContents).not.toHaveBeenCalled();
+      expect(mockWebdavClient.createReadStream.mock.calls.length).toBeLessThan(30);
+      const entries = result.match(/entry-\d+/g);
+      expect(entries).toHaveLength(10);
+      expect(entries).toEqual(expect.arrayContaining(['entry-600', 'entry-609']));
+    });
+
+    it('should read a large file once when range requests are not supported', async () => {
+      const start = Date.parse('2025-08-16T00:00:00Z');
+      const lines = Array.from({ length: 20000 }, (_, index) => {
+        const timestamp = new Date(start + index * 1000).toISOString().replace('T', ' ').replace('Z', '');
+        return `[${timestamp} GMT] ERROR PipelineCallServlet|${index} entry-${index} ${'x'.repeat(40)}`;
+      });
+      const content = Buffer.from(`${lines.join('\n')}\n`);
+      const timeWindow = { from: new Date('2025-08-16T00:10:00Z'), to: new Date('2025-08-16T00:10:09Z') };
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250816-000000.log', lastmod: '2025-08-16T06:00:00Z' },
+      ]);
+      mockWebdavClient.stat.mockResolvedValue({ size: content.length });
+      mockWebdavClient.getFileContents.mockImplementation(async (_filename: string, options: any) =>
+        (options?.format === 'binary' ? content : content.toString('utf-8')));
+      // The server ignores the Range header and sends the whole file
+      mockWebdavClient.createReadStream.mockImplementation(() => ({
+        on: jest.fn((event, callback) => {
+          if (event === 'data') {
+            callback(content);
+          } else if (event === 'end') {
+            callback();
+          }
+        }),
+      }));
+
+      const result = await logClient.getLatestLogs('error' as LogLevel, 100, undefined, timeWindow);
+
+      expect(result.match(/entry-\d+/g)).toHaveLength(10);
+      expect(mockWebdavClient.createReadStream).toHaveBeenCalledTimes(1);
+      expect(mockWebdavClient.getFileContents).not.toHaveBeenCalled();
+
+      // The file is read in full from then on, without another range request
+      await logClient.getLatestLogs('error' as LogLevel, 100, undefined, timeWindow);
+
+      expect(mockWebdavClient.createReadStream).toHaveBeenCalledTimes(1);
+      expect(mockWebdavClient.getFileContents).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read a large file once when a range request fails', async () => {
+      const content = Buffer.from(`[2025-08-16 00:10:00.000 GMT] ERROR PipelineCallServlet|1 entry-1 ${'x'.repeat(2 * 1024 * 1024)}\n`);
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250816-000000.log', lastmod: '2025-08-16T06:00:00Z' },
+      ]);
+      mockWebdavClient.stat.mockResolvedValue({ size: content.length });
+      mockWebdavClient.getFileContents.mockResolvedValue(content);
+      mockWebdavClient.createReadStream.mockImplementation(() => ({
+        on: jest.fn((event, callback) => {
+          if (event === 'error') {
+            callback(new Error('416 Range Not Satisfiable'));
+          }
+        }),
+      }));
+
+      const result = await logClient.getLatestLogs('error' as LogLevel, 100, undefined, {
+        from: new Date('2025-08-16T00:10:00Z'),
+        to: new Date('2025-08-16T00:10:09Z'),
+      });
+
+      expect(result).toContain('entry-1');
+      expect(mockWebdavClient.createReadStream).toHaveBeenCalledTimes(1);
+      expect(mockWebdavClient.getFileContents).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('query searches', () => {
+    const errorLog = [
+      '[2025-08-15 10:00:00.000 GMT] INFO PipelineCallServlet|1|Sites-RefArch-Site|Cart-Show|PipelineCall|abc Cart shown',
+      '[2025-08-15 10:00:01.000 GMT] ERROR PipelineCallServlet|2|Sites-RefArch-Site|Cart-Add|PipelineCall|abc Cart timeout',
+      '\tat Cart.add (cart.js:42)',
+      '[2025-08-15 10:00:02.000 GMT] ERROR PipelineCallServlet|3|Sites-Other-Site|Cart-Add|PipelineCall|def Cart refused',
+    ].join('\n');
+    const jobLog = [
+      '[2025-08-15 02:00:00.000 GMT] INFO SystemJobThread|1|ImportCatalog|Import Step started',
+      '[2025-08-15 02:00:05.000 GMT] ERROR SystemJobThread|1|ImportCatalog|Import Import failed: timeout',
+      '[2025-08-15 02:00:06.000 GMT] WARN SystemJobThread|1|ImportCatalog|Import Retrying after timeout',
+    ].join('\n');
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockImplementation(async (path: string) => {
+        if (path === '/jobs/') {
+          return [{ type: 'directory', filename: '/jobs/ImportCatalog', lastmod: '2025-08-15T02:00:06Z' }];
+        }
+        if (path === '/jobs/ImportCatalog') {
+          return [{ type: 'file', filename: '/jobs/ImportCatalog/Job-ImportCatalog-1.log', size: 300 }];
+        }
+        return [{ type: 'file', filename: 'error-blade1-20250815-000000.log', size: 300 }];
+      });
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) =>
+        filename.startsWith('/jobs/') ? jobLog : errorLog,
+      );
+    });
+
+    it('should return the highlighted entries matching a query', async () => {
+      const result = await logClient.searchLogs({
+        pattern: { query: 'cart (timeout OR refused) site:RefArch' },
+        limit: 10,
+        date: '20250815',
+      });
+
+      expect(result).toBe([
+        'Found 1 matches for "cart (timeout OR refused) site:RefArch":',
+        '',
+        '[error-blade1-20250815-000000.log:2] [2025-08-15 10:00:01.000 GMT] ERROR ' +
+          'PipelineCallServlet|2|Sites-RefArch-Site|**Cart**-Add|PipelineCall|abc **Cart** **timeout**\n' +
+          '\tat **Cart**.add (**cart**.js:42)',
+      ].join('\n'));
+    });
+
+    it('should show numbered context lines around the entries', async () => {
+      const result = await logClient.searchLogs({
+        pattern: { query: 'session:def', contextLines: 1 },
+        limit: 10,
+        date: '20250815',
+      });
+
+      expect(result).toContain([
+        '[error-blade1-20250815-000000.log:4]',
+        '  3 | \tat Cart.add (cart.js:42)',
+        '> 4 | [2025-08-15 10:00:02.000 GMT] ERROR ' +
+          'PipelineCallServlet|3|Sites-Other-Site|Cart-Add|PipelineCall|def Cart refused',
+      ].join('\n'));
+    });
+
+    it('should search job logs with a query, keeping the level filter', async () => {
+      const result = await logClient.searchJobLogs({ query: '/time\\w+/' }, 'error', 10);
+
+      expect(result).toContain('[/jobs/ImportCatalog/Job-ImportCatalog-1.log:2]');
+      expect(result).toContain('Import failed: **timeout**');
+      expect(result).not.toContain('Retrying');
+    });
+  });
+
+  describe('log categories', () => {
+    const thread = 'PipelineCallServlet|1|Sites-RefArch-Site|Search-Show|PipelineCall|abc';
+    const contents: Record<string, string> = {
+      'quota-blade1-20250815-000000.log': [
+        `[2025-08-15 10:00:00.000 GMT] WARN ${thread} quota [] Quota api.jsStringLength (internal, limit 1000): ` +
+          'warn threshold exceeded 5 time(s), max actual was 900',
+        `[2025-08-15 10:01:00.000 GMT] ERROR ${thread} quota [] Quota api.dw.util.Collection (enforced, limit 20000): ` +
+          'limit exceeded 1 time(s), max actual was 24000, current location: pipeline Search-Show',
+        `[2025-08-15 10:02:00.000 GMT] ERROR ${thread} quota [] Quota api.dw.util.Collection (enforced, limit 20000): ` +
+          'limit exceeded 2 time(s), max actual was 26000, current location: pipeline Cart-Show',
+      ].join('\n'),
+      'api-deprecation-blade1-20250815-000000.log': [
+        `[2025-08-15 10:00:00.000 GMT] WARN ${thread} api [] Deprecated API dw.system.Site.getCurrent() called by a/b.js:1`,
+        `[2025-08-15 10:03:00.000 GMT] WARN ${thread} api [] Deprecated API dw.catalog.Product.getAvailabilityModel() ` +
+          'called by a/product.js:12',
+        `[2025-08-15 10:04:00.000 GMT] WARN ${thread} api [] Deprecated API dw.catalog.Product.getAvailabilityModel() ` +
+          'called by a/tile.js:8',
+      ].join('\n'),
+      'api-blade1-20250815-000000.log': `[2025-08-15 09:00:00.000 GMT] INFO ${thread} api [] API call`,
+      'service-blade1-20250815-000000.log': [
+        `[2025-08-15 10:00:00.000 GMT] INFO ${thread} service.payment.authorize.COMM [] Request: POST /payments`,
+        `[2025-08-15 10:00:10.000 GMT] ERROR ${thread} service.payment.authorize.HEAD [] Call failed: timeout`,
+        `[2025-08-15 10:00:20.000 GMT] INFO ${thread} service.tax.calculate.HEAD [] Call succeeded`,
+      ].join('\n'),
+      'security-blade1-20250815-000000.log': [
+        `[2025-08-15 10:00:00.000 GMT] WARN ${thread} security.login [] Login failed for user 'jdoe' from 10.0.0.1`,
+        `[2025-08-15 10:00:05.000 GMT] WARN ${thread} security.login [] Login failed for user 'jdoe' from 10.0.0.2`,
+        `[2025-08-15 10:01:00.000 GMT] ERROR ${thread} security.csrf [] CSRF token validation failed`,
+      ].join('\n'),
+      'sql-blade1-20250815-000000.log': [
+        `[2025-08-15 10:00:00.000 GMT] WARN ${thread} sql [] Query took 800 ms: SELECT * FROM orders`,
+        `[2025-08-15 10:01:00.000 GMT] WARN ${thread} sql [] Query took 3 s: SELECT * FROM products`,
+        `[2025-08-15 10:02:00.000 GMT] ERROR ${thread} sql [] Query failed: deadlock`,
+      ].join('\n'),
+      'customfatal-blade1-20250815-000000.log': `[2025-08-15 08:00:00.000 GMT] FATAL ${thread} custom [] Out of memory`,
+      'fatal-blade1-20250815-000000.log': `[2025-08-15 09:30:00.000 GMT] FATAL ${thread} system [] Cache failure`,
+    };
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        ...Object.keys(contents).map(filename => ({ type: 'file', filename, lastmod: '2025-08-15T12:00:00Z', size: 500 })),
+        { type: 'file', filename: 'error-blade1-20250815-000000.log', lastmod: '2025-08-15T12:00:00Z', size: 500 },
+      ]);
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) => contents[filename] ?? '');
+    });
+
+    it('should return the latest entries of a category, with its custom files', async () => {
+      const result = await logClient.getLatestCategoryLogs('fatal', 10, '20250815');
+
+      expect(result).toContain('Latest 10 fatal messages from files:');
+      expect(result).toContain('fatal-blade1-20250815-000000.log');
+      expect(result).toContain('customfatal-blade1-20250815-000000.log');
+      expect(result.indexOf('Cache failure')).toBeLessThan(result.indexOf('Out of memory'));
+      expect(result).not.toContain('API call');
+    });
+
+    it('should not take api-deprecation files for api files', async () => {
+      const result = await logClient.getLatestCategoryLogs('api', 10, '20250815');
+
+      expect(result).toContain('API call');
+      expect(result).not.toContain('Deprecated');
+    });
+
+    it('should report missing category files', async () => {
+      const result = await logClient.getLatestCategoryLogs('staging', 10, '20250815');
+
+      expect(result).toContain('No staging log files found for date 20250815');
+    });
+
+    it('should aggregate quota violations, enforced limits first', async () => {
+      const report = await logClient.getQuotaViolations(10, '20250815');
+
+      expect(report).toEqual({
+        period: '20250815',
+        files: ['quota-blade1-20250815-000000.log'],
+        totalEntries: 3,
+        quotas: [
+          {
+            quota: 'api.dw.util.Collection',
+            enforcement: 'enforced',
+            limit: 20000,
+            limitExceeded: true,
+            entries: 2,
+            exceededCount: 3,
+            maxActual: 26000,
+            lastSeen: '2025-08-15T10:02:00.000Z',
+            locations: ['pipeline Search-Show', 'pipeline Cart-Show'],
+          },
+          expect.objectContaining({ quota: 'api.jsStringLength', limitExceeded: false, exceededCount: 5 }),
+        ],
+      });
+    });
+
+    it('should aggregate deprecated API usages, most used first', async () => {
+      const report = await logClient.getApiDeprecations(1, '20250815');
+
+      expect(report.totalUsages).toBe(3);
+      expect(report.apis).toEqual([{
+        api: 'dw.catalog.Product.getAvailabilityModel()',
+        count: 2,
+        lastSeen: '2025-08-15T10:04:00.000Z',
+        locations: ['a/product.js:12', 'a/tile.js:8'],
+      }]);
+    });
+
+    it('should return service log entries newest first with counts by service', async () => {
+      const report = await logClient.getServiceLogEntries({ serviceName: 'PAYMENT', limit: 1, date: '20250815' });
+
+      expect(report.services).toEqual({ 'payment.authorize': { entries: 2, errors: 1 } });
+      expect(report.omittedEntries).toBe(1);
+      expect(report.entries).toEqual([{
+        service: 'payment.authorize',
+        type: 'HEAD',
+        level: 'ERROR',
+        timestamp: '2025-08-15T10:00:10.000Z',
+        file: 'service-blade1-20250815-000000.log',
+        message: 'Call failed: timeout',
+      }]);
+
+      const infos = await logClient.getServiceLogEntries({ level: 'info', limit: 10, date: '20250815' });
+      expect(infos.entries.map(entry => entry.service)).toEqual(['tax.calculate', 'payment.authorize']);
+    });
+
+    it('should return security log entries newest first with counts by category, user and IP address', async () => {
+      const report = await logClient.getSecurityLogEntries({ limit: 2, date: '20250815' });
+
+      expect(report.files).toEqual(['security-blade1-20250815-000000.log']);
+      expect(report.categories).toEqual({
+        'security.login': { entries: 2, errors: 0 },
+        'security.csrf': { entries: 1, errors: 1 },
+      });
+      expect(report.users).toEqual({ jdoe: 2 });
+      expect(report.ipAddresses).toEqual({ '10.0.0.1': 1, '10.0.0.2': 1 });
+      expect(report.omittedEntries).toBe(1);
+      expect(report.entries.map(entry => entry.message)).toEqual([
+        'CSRF token validation failed',
+        "Login failed for user 'jdoe' from 10.0.0.2",
+      ]);
+
+      const logins = await logClient.getSecurityLogEntries({ category: 'LOGIN', level: 'error', limit: 10, date: '20250815' });
+      expect(logins.entries).toEqual([]);
+    });
+
+    it('should return SQL log entries slowest first', async () => {
+      const report = await logClient.getSqlLogEntries({ limit: 10, date: '20250815' });
+
+      expect(report.entries.map(entry => [entry.durationMs, entry.statement])).toEqual([
+        [3000, 'SELECT * FROM products'],
+        [800, 'SELECT * FROM orders'],
+        [undefined, undefined],
+      ]);
+
+      const slow = await logClient.getSqlLogEntries({ minDurationMs: 1000, limit: 10, date: '20250815' });
+      expect(slow.entries.map(entry => entry.durationMs)).toEqual([3000]);
+    });
+  });
+
+  describe('logger categories and cartridges', () => {
+    const thread = 'PipelineCallServlet|1|Sites-RefArch-Site|Cart-Show|PipelineCall|abc';
+    const contents: Record<string, string> = {
+      'customerror-blade1-20250815-000000.log': [
+        `[2025-08-15 10:00:00.000 GMT] ERROR ${thread} custom.checkout [] Payment declined`,
+        '\tat int_payment/cartridge/scripts/hooks/authorize.js:42',
+        `[2025-08-15 10:01:00.000 GMT] ERROR ${thread} custom.tax [] Tax service unavailable`,
+        '\tat int_tax/cartridge/scripts/tax.js:7',
+      ].join('\n'),
+      'error-blade1-20250815-000000.log':
+        `[2025-08-15 10:02:00.000 GMT] ERROR ${thread} custom.checkout [] Basket error in app_custom/cartridge/scripts/cart.js:3`,
+      'custom-payments-blade1-appserver-20250815.log': [
+        `[2025-08-15 10:03:00.000 GMT] WARN ${thread} custom.checkout.payment [] Retry in int_payment/cartridge/scripts/retry.js:1`,
+        `[2025-08-15 10:04:00.000 GMT] INFO ${thread} custom.checkout.payment [] Authorized`,
+      ].join('\n'),
+      'service-blade1-20250815-000000.log': `[2025-08-15 10:05:00.000 GMT] ERROR ${thread} service.tax [] Call failed`,
+    };
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue(
+        Object.keys(contents).map(filename => ({ type: 'file', filename, lastmod: '2025-08-15T12:00:00Z', size: 500 })),
+      );
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) => contents[filename] ?? '');
+    });
+
+    it('should filter the latest entries by logger category and cartridge', async () => {
+      const checkout = await logClient.getLatestLogs('error', 10, '20250815', undefined, { category: 'checkout' });
+
+      expect(checkout).toContain('Payment declined');
+      expect(checkout).toContain('Basket error');
+      expect(checkout).not.toContain('Tax service unavailable');
+
+      const tax = await logClient.getLatestLogs('error', 10, '20250815', undefined, { cartridge: 'int_tax' });
+      expect(tax).toContain('Tax service unavailable');
+      expect(tax).not.toContain('Payment declined');
+    });
+
+    it('should read custom-<prefix> files as the custom family', async () => {
+      const result = await logClient.getLatestCategoryLogs('custom', 10, '20250815', undefined, { cartridge: 'int_payment' });
+
+      expect(result).toContain('custom-payments-blade1-appserver-20250815.log');
+      expect(result).toContain('Retry in');
+      expect(result).not.toContain('Authorized');
+    });
+
+    it('should search only the entries of the filtered category, keeping query line numbers', async () => {
+      const text = await logClient.searchLogs({
+        pattern: 'failed OR declined OR unavailable', limit: 10, date: '20250815', filter: { category: 'tax' },
+      });
+      expect(text).toContain('No matches found');
+
+      const query = await logClient.searchLogs({
+        pattern: { query: 'declined OR unavailable' }, limit: 10, date: '20250815', filter: { category: 'tax' },
+      });
+      expect(query).toContain('[customerror-blade1-20250815-000000.log:3]');
+      expect(query).toContain('Tax service **unavailable**');
+      expect(query).not.toContain('Payment declined');
+    });
+
+    it('should count the entries of each logger category', async () => {
+      const report = await logClient.getLoggerCategories(10, '20250815');
+
+      expect(report.files).toHaveLength(3);
+      expect(report.files).not.toContain('service-blade1-20250815-000000.log');
+      expect(report.omittedCategories).toBe(0);
+      expect(report.categories).toEqual([
+        {
+          category: 'custom.checkout',
+          entries: 2,
+          levels: { ERROR: 2 },
+          files: expect.arrayContaining(['customerror-blade1-20250815-000000.log', 'error-blade1-20250815-000000.log']),
+          cartridges: expect.arrayContaining(['int_payment', 'app_custom']),
+        },
+        {
+          category: 'custom.checkout.payment',
+          entries: 2,
+          levels: { WARN: 1, INFO: 1 },
+          files: ['custom-payments-blade1-appserver-20250815.log'],
+          cartridges: ['int_payment'],
+        },
+        expect.objectContaining({ category: 'custom.tax', entries: 1, cartridges: ['int_tax'] }),
+      ]);
+
+      const payment = await logClient.getLoggerCategories(1, '20250815', undefined, 'INT_PAYMENT');
+      expect(payment.categories.map(count => [count.category, count.entries])).toEqual([['custom.checkout', 1]]);
+      expect(payment.omittedCategories).toBe(1);
+    });
+  });
+
+  describe('clusterErrors', () => {
+    const header = (time: string, session: string) =>
+      `[2025-08-15 ${time}.000 GMT] ERROR PipelineCallServlet|1|Sites-RefArch-Site|Cart-Show|PipelineCall|${session}`;
+    const contents: Record<string, string> = {
+      'error-blade1-20250815-000000.log': [
+        `${header('10:00:00', 'abc')} custom.checkout [] NullPointerException for order 00001001`,
+        '\tat int_cart/cartridge/scripts/cart.js:42',
+        `${header('10:05:00', 'def')} custom.checkout [] NullPointerException for order 00001002`,
+        '\tat int_cart/cartridge/scripts/cart.js:42',
+        `${header('10:06:00', 'ghi')} custom.tax [] Tax service returned "HTTP 503"`,
+      ].join('\n'),
+      'customerror-blade2-20250815-000000.log':
+        `${header('09:00:00', 'jkl')} custom.checkout [] NullPointerException for order 00002001\n` +
+        '\tat int_cart/cartridge/scripts/cart.js:42',
+      'warn-blade1-20250815-000000.log': `${header('10:00:00', 'abc').replace('ERROR', 'WARN')} custom.tax [] Slow call`,
+    };
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue(
+        Object.keys(contents).map(filename => ({ type: 'file', filename, lastmod: '2025-08-15T12:00:00Z', size: 500 })),
+      );
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) => contents[filename] ?? '');
+    });
+
+    it('should group the same error across sessions, orders and files', async () => {
+      const report = await logClient.clusterErrors({ limit: 1, date: '20250815' });
+
+      expect(report.files).toEqual(expect.arrayContaining([
+        'error-blade1-20250815-000000.log',
+        'customerror-blade2-20250815-000000.log',
+      ]));
+      expect(report.totalEntries).toBe(4);
+      expect(report.omittedClusters).toBe(1);
+      expect(report.clusters).toEqual([{
+        fingerprint: expect.stringMatching(/^[\da-f]{12}$/),
+        signature: 'NullPointerException for order <n>',
+        level: 'ERROR',
+        category: 'custom.checkout',
+        script: 'int_cart/cartridge/scripts/cart.js:42',
+        count: 3,
+        firstSeen: '2025-08-15T09:00:00.000Z',
+        lastSeen: '2025-08-15T10:05:00.000Z',
+        files: expect.arrayContaining(['error-blade1-20250815-000000.log', 'customerror-blade2-20250815-000000.log']),
+        examples: expect.arrayContaining([expect.stringContaining('order 00001001\n\tat int_cart')]),
+      }]);
+    });
+
+    it('should cluster the requested levels and apply the entry filter', async () => {
+      const report = await logClient.clusterErrors({
+        levels: ['error', 'warn'], limit: 10, date: '20250815', filter: { category: 'tax' },
+      });
+
+      expect(report.clusters.map(cluster => [cluster.level, cluster.signature])).toEqual(expect.arrayContaining([
+        ['ERROR', 'Tax service returned "<value>"'],
+        ['WARN', 'Slow call'],
+      ]));
+      expect(report.totalEntries).toBe(2);
+    });
+  });
+
+  describe('getStackTraces', () => {
+    const header = (time: string) => `[2025-08-15 ${time}.000 GMT] ERROR PipelineCallServlet|1|Sites-RefArch-Site`;
+    const stack = [
+      '\tat authorize (int_payment/cartridge/scripts/hooks/authorize.js:3)',
+      '\tat app_storefront_base/cartridge/controllers/CheckoutServices.js:118',
+    ].join('\n');
+    const contents: Record<string, string> = {
+      'error-blade1-20250815-000000.log': [
+        `${header('10:00:00')} custom.checkout [] TypeError: Cannot read property "id" of null in order 1001`,
+        stack,
+        `${header('10:05:00')} custom.checkout [] TypeError: Cannot read property "id" of null in order 1002`,
+        stack,
+        `${header('10:06:00')} custom.tax [] Tax service unavailable`,
+      ].join('\n'),
+    };
+    let cartridgesRoot: string;
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue(
+        Object.keys(contents).map(filename => ({ type: 'file', filename, lastmod: '2025-08-15T12:00:00Z', size: 500 })),
+      );
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) => contents[filename] ?? '');
+
+      cartridgesRoot = mkdtempSync(join(tmpdir(), 'sfcc-cartridges-'));
+      mkdirSync(join(cartridgesRoot, 'int_payment', 'cartridge', 'scripts', 'hooks'), { recursive: true });
+      writeFileSync(
+        join(cartridgesRoot, 'int_payment', 'cartridge', 'scripts', 'hooks', 'authorize.js'),
+        ['function authorize(order) {', '  var payment = order.paymentInstrument;', '  return payment.id;', '}'].join('\n'),
+      );
+    });
+
+    afterEach(() => {
+      rmSync(cartridgesRoot, { recursive: true, force: true });
+    });
+
+    it('should group the stack traces by fingerprint with structured frames', async () => {
+      const report = await logClient.getStackTraces({ limit: 10, date: '20250815' });
+
+      expect(report.totalEntries).toBe(2);
+      expect(report.omittedTraces).toBe(0);
+      expect(report.unresolvedCartridges).toBeUndefined();
+      expect(report.traces).toEqual([{
+        fingerprint: expect.stringMatching(/^[\da-f]{12}$/),
+        message: 'TypeError: Cannot read property "id" of null in order 1002',
+        level: 'ERROR',
+        category: 'custom.checkout',
+        count: 2,
+        firstSeen: '2025-08-15T10:00:00.000Z',
+        lastSeen: '2025-08-15T10:05:00.000Z',
+        files: ['error-blade1-20250815-000000.log'],
+        frames: [
+          expect.objectContaining({ function: 'authorize', cartridge: 'int_payment', line: 3 }),
+          expect.objectContaining({ cartridge: 'app_storefront_base', path: 'cartridge/controllers/CheckoutServices.js' }),
+        ],
+      }]);
+    });
+
+    it('should map the frames to the local cartridge sources', async () => {
+      const report = await logClient.getStackTraces({ limit: 10, date: '20250815', cartridgesRoot, contextLines: 1 });
+
+      const [resolved, unresolved] = report.traces[0].frames;
+      expect(resolved.source).toEqual({
+        file: join(cartridgesRoot, 'int_payment', 'cartridge', 'scripts', 'hooks', 'authorize.js'),
+        line: 3,
+        snippet: ['  2 |   var payment = order.paymentInstrument;', '> 3 |   return payment.id;', '  4 | }'].join('\n'),
+      });
+      expect(unresolved.source).toBeUndefined();
+      expect(report.unresolvedCartridges).toEqual(['app_storefront_base']);
+    });
+
+    it('should only include entries matching the pattern', async () => {
+      const report = await logClient.getStackTraces({ limit: 10, date: '20250815', pattern: 'ORDER 1001' });
+
+      expect(report.totalEntries).toBe(1);
+      expect(report.traces.map(trace => [trace.count, trace.message])).toEqual([
+        [1, 'TypeError: Cannot read property "id" of null in order 1001'],
+      ]);
+    });
+  });
+
+  describe('traceRequest', () => {
+    const header = (time: string, level: string, pipeline: string, session: string) =>
+      `[2025-08-15 ${time}.000 GMT] ${level} PipelineCallServlet|1|Sites-RefArch-Site|${pipeline}|PipelineCall|${session}`;
+    const contents: Record<string, string> = {
+      'info-blade1-20250815-000000.log': [
+        `${header('10:00:00', 'INFO', 'Cart-Show', 'sessA')} custom.cart [] Basket loaded`,
+        `${header('10:00:05', 'INFO', 'Cart-Show', 'sessB')} custom.cart [] Basket loaded`,
+      ].join('\n'),
+      'error-blade2-20250815-000000.log': [
+        `${header('10:02:00', 'ERROR', 'CheckoutServices-PlaceOrder', 'sessA')} custom.checkout [] ` +
+          'Payment authorization failed for order 00001234',
+        '\tat int_payment/cartridge/scripts/hooks/authorize.js:42',
+      ].join('\n'),
+      'service-blade1-20250815-000000.log':
+        `${header('10:01:30', 'INFO', 'CheckoutServices-PlaceOrder', 'sessA')} service.payment.authorize.COMM [] ` +
+        'Request for order 00001234 requestId=req-77',
+      'custom-payments-blade1-20250815-000000.log':
+        `${header('10:03:00', 'WARN', 'Order-Confirm', 'sessB')} custom.payments [] Order 100001234 confirmed`,
+      'sql-blade1-20250815-000000.log': `${header('10:02:30', 'INFO', 'Job', 'sessA')} sql [] order 00001234`,
+    };
+
+    beforeEach(() => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue(
+        Object.keys(contents).map(filename => ({ type: 'file', filename, lastmod: '2025-08-15T12:00:00Z', size: 500 })),
+      );
+      mockWebdavClient.getFileContents.mockImplementation(async (filename: string) => contents[filename] ?? '');
+    });
+
+    it('should return the entries naming an order as one timeline across files', async () => {
+      const report = await logClient.traceRequest({ idType: 'order', id: '00001234', limit: 10, date: '20250815' });
+
+      expect(report.files).not.toContain('sql-blade1-20250815-000000.log');
+      expect(report.entries).toEqual([
+        expect.objectContaining({
+          timestamp: '2025-08-15T10:01:30.000Z',
+          file: 'service-blade1-20250815-000000.log',
+          level: 'INFO',
+          category: 'service.payment.authorize.COMM',
+          pipeline: 'CheckoutServices-PlaceOrder',
+          session: 'sessA',
+          followed: undefined,
+        }),
+        expect.objectContaining({
+          timestamp: '2025-08-15T10:02:00.000Z',
+          file: 'error-blade2-20250815-000000.log',
+          level: 'ERROR',
+          text: expect.stringContaining('\tat int_payment/cartridge/scripts/hooks/authorize.js:42'),
+        }),
+      ]);
+      expect(report).toEqual(expect.objectContaining({
+        idType: 'order',
+        id: '00001234',
+        totalEntries: 2,
+        levels: { INFO: 1, ERROR: 1 },
+        sessions: ['sessA'],
+        sites: ['Sites-RefArch-Site'],
+        pipelines: ['CheckoutServices-PlaceOrder'],
+        firstSeen: '2025-08-15T10:01:30.000Z',
+        lastSeen: '2025-08-15T10:02:00.000Z',
+        omittedEntries: 0,
+      }));
+    });
+
+    it('should follow the sessions of the matching entries', async () => {
+      const report = await logClient.traceRequest({
+        idType: 'request', id: 'req-77', followSessions: true, limit: 10, date: '20250815',
+      });
+
+      expect(report.entries.map(entry => [entry.timestamp, entry.followed])).toEqual([
+        ['2025-08-15T10:00:00.000Z', true],
+        ['2025-08-15T10:01:30.000Z', undefined],
+        ['2025-08-15T10:02:00.000Z', true],
+      ]);
+      expect(report.pipelines).toEqual(['Cart-Show', 'CheckoutServices-PlaceOrder']);
+    });
+
+    it('should match sessions in the entry header and keep the latest entries', async () => {
+      const report = await logClient.traceRequest({ idType: 'session', id: 'sessB', limit: 1, date: '20250815' });
+
+      expect(report.totalEntries).toBe(2);
+      expect(report.omittedEntries).toBe(1);
+      expect(report.entries).toEqual([expect.objectContaining({
+        file: 'custom-payments-blade1-20250815-000000.log',
+        pipeline: 'Order-Confirm',
+      })]);
+    });
+  });
+
+  describe('tailLogs', () => {
+    const mockRangeStream = (content: string) => ({
+      on: jest.fn((event, callback) => {
+        if (event === 'data') {
+          callback(Buffer.from(content));
+        } else if (event === 'end') {
+          callback();
+        }
+      }),
+    });
+
+    it('should start at the current end of the files without returning entries', async () => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250815-000000.log', size: 100 },
+        { type: 'file', filename: 'warn-blade1-20250815-000000.log', size: 50 },
+        { type: 'file', filename: 'info-blade1-20250815-000000.log', size: 70 },
+      ]);
+
+      const poll = await logClient.tailLogs({ levels: ['error', 'warn'], limit: 10 });
+
+      expect(poll.state.offsets).toEqual({
+        'error-blade1-20250815-000000.log': 100,
+        'warn-blade1-20250815-000000.log': 50,
+      });
+      expect(poll.entries).toEqual([]);
+      expect(mockWebdavClient.createReadStream).not.toHaveBeenCalled();
+    });
+
+    it('should read only the appended bytes and return the entries in chronological order', async () => {
+      const appended = '[2025-08-15 10:00:02.000 GMT] ERROR second\n[2025-08-15 10:00:00.000 GMT] ERROR first\n';
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250815-000000.log', size: 100 + appended.length },
+        { type: 'file', filename: 'warn-blade1-20250815-000000.log', size: 50 },
+      ]);
+      mockWebdavClient.createReadStream.mockReturnValue(mockRangeStream(appended));
+
+      const poll = await logClient.tailLogs({ levels: ['error', 'warn'], limit: 10 }, {
+        offsets: { 'error-blade1-20250815-000000.log': 100, 'warn-blade1-20250815-000000.log': 50 },
+      });
+
+      expect(mockWebdavClient.createReadStream).toHaveBeenCalledTimes(1);
+      expect(mockWebdavClient.createReadStream).toHaveBeenCalledWith('error-blade1-20250815-000000.log', {
+        range: { start: 100, end: 99 + appended.length },
+      });
+      expect(poll.entries.map(entry => entry.entry)).toEqual([
+        '[2025-08-15 10:00:00.000 GMT] ERROR first',
+        '[2025-08-15 10:00:02.000 GMT] ERROR second',
+      ]);
+      expect(poll.entries[0]).toMatchObject({
+        file: 'error-blade1-20250815-000000.log',
+        level: 'error',
+        timestamp: '2025-08-15T10:00:00.000Z',
+      });
+      expect(poll.state.offsets['error-blade1-20250815-000000.log']).toBe(100 + appended.length);
+    });
+
+    it('should keep an incomplete last line for the next poll and apply the text filter', async () => {
+      const appended = '[2025-08-15 10:00:00.000 GMT] ERROR Timeout\n[2025-08-15 10:00:01.000 GMT] ERROR other\n[2025';
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250815-000000.log', size: appended.length },
+      ]);
+      mockWebdavClient.createReadStream.mockReturnValue(mockRangeStream(appended));
+
+      const poll = await logClient.tailLogs({ levels: ['error'], pattern: 'timeout', limit: 10 }, {
+        offsets: { 'error-blade1-20250815-000000.log': 0 },
+      });
+
+      expect(poll.entries.map(entry => entry.entry)).toEqual(['[2025-08-15 10:00:00.000 GMT] ERROR Timeout']);
+      expect(poll.state.offsets['error-blade1-20250815-000000.log']).toBe(appended.length - '[2025'.length);
+    });
+
+    it('should read a file from the beginning when it shrank and keep only the newest entries', async () => {
+      const content = '[2025-08-15 10:00:00.000 GMT] ERROR a\n[2025-08-15 10:00:01.000 GMT] ERROR b\n';
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([
+        { type: 'file', filename: 'error-blade1-20250815-000000.log', size: content.length },
+      ]);
+      mockWebdavClient.createReadStream.mockReturnValue(mockRangeStream(content));
+
+      const poll = await logClient.tailLogs({ levels: ['error'], limit: 1 }, {
+        offsets: { 'error-blade1-20250815-000000.log': 5000 },
+      });
+
+      expect(mockWebdavClient.createReadStream).toHaveBeenCalledWith('error-blade1-20250815-000000.log', {
+        range: { start: 0, end: content.length - 1 },
+      });
+      expect(poll.entries.map(entry => entry.entry)).toEqual(['[2025-08-15 10:00:01.000 GMT] ERROR b']);
+      expect(poll.droppedEntries).toBe(1);
+    });
+
+    it('should stop following files that can no longer be read', async () => {
+      mockWebdavClient.getDirectoryContents.mockResolvedValue([]);
+      mockWebdavClient.stat.mockRejectedValue(new Error('Not found'));
+
+      const poll = await logClient.tailLogs({ levels: ['error'], limit: 10 }, {
+        offsets: { 'error-blade1-20250814-000000.log': 100 },
+      });
+
+      expect(poll.entries).toEqual([]);
+      expect(poll.state.offsets).toEqual({});
+    });
+  });
+
   describe('error handling', () => {
     it('should handle WebDAV connection errors in getLogFiles', async () => {
       mockWebdavClient.getDirectoryContents.mockRejectedValue(new Error('Connection failed'));
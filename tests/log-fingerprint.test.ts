@@ -0,0 +1,77 @@
+/**
+ * Tests for the fingerprinting of log entries used by error clustering
+ */
+
+import { LogFingerprint } from '../src/clients/logs/log-fingerprint.js';
+import type { ParsedLogEntry } from '../src/clients/logs/log-types.js';
+
+const entry = (text: string, fields: Partial<ParsedLogEntry> = {}): ParsedLogEntry => ({
+  file: 'error-blade1-20250815-000000.log',
+  line: 1,
+  endLine: text.split('\n').length,
+  text,
+  level: 'ERROR',
+  ...fields,
+});
+
+describe('LogFingerprint', () => {
+  describe('normalize', () => {
+    it.each([
+      ['Order 00012345 failed after 3 retries', 'Order <n> failed after <n> retries'],
+      ['GET https://api.example.com/v1/orders?id=7 timed out', 'GET <url> timed out'],
+      ['Customer jane.doe@example.com not found', 'Customer <email> not found'],
+      ['Invalid value "ABC-1" for attribute \'color\'', 'Invalid value "<value>" for attribute \'<value>\''],
+      ['Basket 3f2b8c1e-9a4d-4e21-8f3a-1b2c3d4e5f60 is locked', 'Basket <id> is locked'],
+      ['Invalid session nYJXtqnEfzAB, sid=Qq38CuNXpX', 'Invalid session <id>, sid=<id>'],
+      ['Product V5YDtxRLpL2 has no price book 0a1b2c3d4e', 'Product <id> has no price book <id>'],
+      ['Expired at 2025-08-15T10:00:00.000Z', 'Expired at <time>'],
+      ['at int_cart/cartridge/scripts/cart.js:42 (line 42)', 'at int_cart/cartridge/scripts/cart.js:42 (line <n>)'],
+    ])('should normalize %j', (message, expected) => {
+      expect(LogFingerprint.normalize(message)).toBe(expected);
+    });
+
+    it('should keep apostrophes within words', () => {
+      expect(LogFingerprint.normalize("Can't load 'basket' and don't retry")).toBe("Can't load '<value>' and don't retry");
+    });
+  });
+
+  describe('signature', () => {
+    it('should normalize the first line without the entry header', () => {
+      expect(LogFingerprint.signature(entry([
+        '[2025-08-15 10:00:00.000 GMT] ERROR PipelineCallServlet|1|Sites-RefArch-Site|Cart-Show|PipelineCall|abc ' +
+          'custom.checkout [] Order 1001 failed',
+        '\tat int_cart/cartridge/scripts/cart.js:42',
+      ].join('\n')))).toBe('Order <n> failed');
+      expect(LogFingerprint.signature(entry('[2025-08-15 10:00:00.000 GMT] ERROR JobThread|123 Step 2 failed')))
+        .toBe('Step <n> failed');
+    });
+  });
+
+  describe('fingerprint', () => {
+    const header = (session: string) =>
+      `[2025-08-15 10:00:00.000 GMT] ERROR PipelineCallServlet|1|Sites-RefArch-Site|Cart-Show|PipelineCall|${session}`;
+
+    it('should be shared by entries that only differ in variable tokens', () => {
+      const first = entry(`${header('abc')} NullPointerException for order 1001 in "basket-1"`);
+      const second = entry(`${header('xyz')} NullPointerException for order 2002 in "basket-2"`);
+
+      expect(LogFingerprint.fingerprint(first)).toBe(LogFingerprint.fingerprint(second));
+      expect(LogFingerprint.fingerprint(first)).toMatch(/^[\da-f]{12}$/);
+    });
+
+    it('should differ by level, logger category and originating script', () => {
+      const base = entry(`${header('abc')} custom.checkout [] Payment failed`, {
+        category: 'custom.checkout',
+        script: 'int_payment/cartridge/scripts/pay.js:10',
+      });
+      const fingerprints = new Set([
+        base,
+        { ...base, level: 'WARN' },
+        { ...base, category: 'custom.tax' },
+        { ...base, script: 'int_payment/cartridge/scripts/pay.js:20' },
+      ].map(candidate => LogFingerprint.fingerprint(candidate)));
+
+      expect(fingerprints.size).toBe(4);
+    });
+  });
+});
@@ -28,6 +28,17 @@ describe('LogToolHandler', () => {
       searchLogs: jest.fn(),
       listLogFiles: jest.fn(),
       getLogFileContents: jest.fn(),
+      tailLogs: jest.fn(),
+      getLatestCategoryLogs: jest.fn(),
+      getQuotaViolations: jest.fn(),
+      getApiDeprecations: jest.fn(),
+      getServiceLogEntries: jest.fn(),
+      getSecurityLogEntries: jest.fn(),
+      getSqlLogEntries: jest.fn(),
+      getLoggerCategories: jest.fn(),
+      clusterErrors: jest.fn(),
+      getStackTraces: jest.fn(),
+      traceRequest: jest.fn(),
     } as any;
 
     (SFCCLogClient as jest.MockedClass<typeof SFCCLogClient>).mockImplementation(() => mockLogClient);
@@ -63,6 +74,17 @@ describe('LogToolHandler', () => {
       expect(handler.canHandle('search_logs')).toBe(true);
       expect(handler.canHandle('list_log_files')).toBe(true);
       expect(handler.canHandle('get_log_file_contents')).toBe(true);
+      expect(handler.canHandle('tail_logs')).toBe(true);
+      expect(handler.canHandle('get_latest_logs')).toBe(true);
+      expect(handler.canHandle('get_quota_violations')).toBe(true);
+      expect(handler.canHandle('get_api_deprecations')).toBe(true);
+      expect(handler.canHandle('get_service_log_entries')).toBe(true);
+      expect(handler.canHandle('get_security_log_entries')).toBe(true);
+      expect(handler.canHandle('get_sql_log_entries')).toBe(true);
+      expect(handler.canHandle('list_log_categories')).toBe(true);
+      expect(handler.canHandle('cluster_errors')).toBe(true);
+      expect(handler.canHandle('get_stack_traces')).toBe(true);
+      expect(handler.canHandle('trace_request')).toBe(true);
     });
 
     it('should not handle non-log tools', () => {
@@ -139,7 +161,7 @@ describe('LogToolHandler', () => {
     it('should handle get_latest_error', async () => {
       const result = await handler.handle('get_latest_error', { limit: 5, date: '20230101' }, Date.now());
 
-      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('error', 5, '20230101');
+      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('error', 5, '20230101', undefined, undefined);
       expect(result.content[0].text).toContain('Test log entry');
       expect(mockLogger.debug).toHaveBeenCalledWith('Fetching latest error logs limit=5 date=20230101');
     });
@@ -147,20 +169,20 @@ describe('LogToolHandler', () => {
     it('should handle get_latest_warn with default parameters', async () => {
       await handler.handle('get_latest_warn', {}, Date.now());
 
-      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('warn', 10, undefined);
+      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('warn', 10, undefined, undefined, undefined);
       expect(mockLogger.debug).toHaveBeenCalledWith('Fetching latest warn logs limit=10 date=today');
     });
 
     it('should handle get_latest_info', async () => {
       await handler.handle('get_latest_info', { limit: 15 }, Date.now());
 
-      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('info', 15, undefined);
+      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('info', 15, undefined, undefined, undefined);
     });
 
     it('should handle get_latest_debug', async () => {
       await handler.handle('get_latest_debug', { date: '20230101' }, Date.now());
 
-      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('debug', 10, '20230101');
+      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('debug', 10, '20230101', undefined, undefined);
     });
   });
 
@@ -180,7 +202,7 @@ describe('LogToolHandler', () => {
 
       await handler.handle('summarize_logs', { date: '20230101' }, Date.now());
 
-      expect(mockLogClient.summarizeLogs).toHaveBeenCalledWith('20230101');
+      expect(mockLogClient.summarizeLogs).toHaveBeenCalledWith('20230101', undefined);
       expect(mockLogger.debug).toHaveBeenCalledWith('Summarizing logs for date 20230101');
     });
 
@@ -190,7 +212,7 @@ describe('LogToolHandler', () => {
 
       await handler.handle('summarize_logs', {}, Date.now());
 
-      expect(mockLogClient.summarizeLogs).toHaveBeenCalledWith(undefined);
+      expect(mockLogClient.summarizeLogs).toHaveBeenCalledWith(undefined, undefined);
       expect(mockLogger.debug).toHaveBeenCalledWith('Summarizing logs for date today');
     });
   });
@@ -209,7 +231,13 @@ describe('LogToolHandler', () => {
       const args = { pattern: 'error', logLevel: 'error', limit: 25, date: '20230101' };
       const result = await handler.handle('search_logs', args, Date.now());
 
-      expect(mockLogClient.searchLogs).toHaveBeenCalledWith('error', 'error', 25, '20230101');
+      expect(mockLogClient.searchLogs).toHaveBeenCalledWith({
+        pattern: 'error',
+        logLevel: 'error',
+        limit: 25,
+        date: '20230101',
+        window: undefined,
+      });
       expect(result.content[0].text).toContain('Error occurred');
       expect(mockLogger.debug).toHaveBeenCalledWith('Searching logs pattern="error" level=error limit=25');
     });
@@ -220,7 +248,7 @@ describe('LogToolHandler', () => {
 
       await handler.handle('search_logs', { pattern: 'test' }, Date.now());
 
-      expect(mockLogClient.searchLogs).toHaveBeenCalledWith('test', undefined, 20, undefined);
+      expect(mockLogClient.searchLogs).toHaveBeenCalledWith({ pattern: 'test', limit: 20 });
       expect(mockLogger.debug).toHaveBeenCalledWith('Searching logs pattern="test" level=all limit=20');
     });
 
@@ -235,6 +263,407 @@ describe('LogToolHandler', () => {
       expect(result.isError).toBe(true);
       expect(result.content[0].text).toContain('pattern must be a non-empty string');
     });
+
+    it('should pass a query with its options to the client', async () => {
+      mockLogClient.searchLogs.mockResolvedValue('matches');
+
+      await handler.handle('search_logs', { query: 'level:error /time(d )?out/', contextLines: 2 }, Date.now());
+
+      expect(mockLogClient.searchLogs).toHaveBeenCalledWith(expect.objectContaining({
+        pattern: { query: 'level:error /time(d )?out/', caseSensitive: undefined, contextLines: 2 },
+      }));
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Searching logs pattern="level:error /time(d )?out/" level=all limit=20',
+      );
+    });
+
+    it('should accept the default caseSensitive and contextLines with pattern', async () => {
+      const result = await handler.handle('search_logs', {
+        pattern: 'error',
+        caseSensitive: false,
+        contextLines: 0,
+      }, Date.now());
+
+      expect(result.isError).toBeFalsy();
+      expect(mockLogClient.searchLogs).toHaveBeenCalledWith(expect.objectContaining({ pattern: 'error' }));
+    });
+
+    it.each([
+      [{ pattern: 'error', query: 'error' }, 'Use either pattern or query'],
+      [{ pattern: 'error', contextLines: 2 }, 'caseSensitive and contextLines require query'],
+      [{ query: 'error', contextLines: 11 }, "Invalid contextLines '11'"],
+      [{ query: 'error', caseSensitive: 'yes' }, 'caseSensitive must be a boolean'],
+      [{ query: '(error OR' }, 'Invalid query for tool: Query ends unexpectedly'],
+    ])('should reject invalid query arguments %j', async (args, message) => {
+      const result = await handler.handle('search_logs', args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+      expect(mockLogClient.searchLogs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('time windows', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+      mockLogClient.getLatestLogs.mockResolvedValue('entries');
+      mockLogClient.searchLogs.mockResolvedValue('matches');
+      mockLogClient.summarizeLogs.mockResolvedValue('summary');
+    });
+
+    it('should pass from/to as a time window, reading timestamps without offset as GMT', async () => {
+      await handler.handle('get_latest_error', { from: '2025-08-15T23:55:00', to: '2025-08-16T02:05:00+02:00' }, Date.now());
+
+      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('error', 10, undefined, {
+        from: new Date('2025-08-15T23:55:00Z'),
+        to: new Date('2025-08-16T00:05:00Z'),
+      }, undefined);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Fetching latest error logs limit=10 from=2025-08-15T23:55:00 to=2025-08-16T02:05:00+02:00',
+      );
+    });
+
+    it('should default from to the start of the GMT day of to', async () => {
+      await handler.handle('search_logs', { pattern: 'timeout', to: '2025-08-16 14:20:00' }, Date.now());
+
+      expect(mockLogClient.searchLogs).toHaveBeenCalledWith(expect.objectContaining({
+        window: { from: new Date('2025-08-16T00:00:00Z'), to: new Date('2025-08-16T14:20:00Z') },
+      }));
+    });
+
+    it('should default to to now', async () => {
+      const before = Date.now();
+      const from = new Date(before - 60 * 60 * 1000).toISOString();
+      await handler.handle('summarize_logs', { from }, Date.now());
+
+      const window = mockLogClient.summarizeLogs.mock.calls[0][1]!;
+      expect(window.from).toEqual(new Date(from));
+      expect(window.to.getTime()).toBeGreaterThanOrEqual(before);
+    });
+
+    it.each([
+      [{ from: 'yesterday' }, "Invalid from 'yesterday' for get_latest_warn"],
+      [{ date: '20250815', from: '2025-08-15T10:00:00Z' }, 'Use either date or from/to for get_latest_warn, not both'],
+      [{ from: '2025-08-15T10:00:00Z', to: '2025-08-15T09:00:00Z' }, 'from must not be after to'],
+      [{ from: '2025-08-01T00:00:00Z', to: '2025-08-15T00:00:00Z' }, 'must not span more than 7 days'],
+    ])('should reject invalid time windows %j', async (args, message) => {
+      const result = await handler.handle('get_latest_warn', args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+      expect(mockLogClient.getLatestLogs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('log category tools', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+    });
+
+    it('should get the latest entries of a category', async () => {
+      mockLogClient.getLatestCategoryLogs.mockResolvedValue('Latest 10 quota messages');
+
+      const result = await handler.handle('get_latest_logs', { category: 'quota', date: '20250815' }, Date.now());
+
+      expect(mockLogClient.getLatestCategoryLogs).toHaveBeenCalledWith('quota', 10, '20250815', undefined, undefined);
+      expect(result.content[0].text).toContain('Latest 10 quota messages');
+      expect(mockLogger.debug).toHaveBeenCalledWith('Fetching latest quota logs limit=10 date=20250815');
+    });
+
+    it.each([
+      [{}, 'category must be a non-empty string'],
+      [{ category: 'audit' }, "Invalid log category 'audit' for get_latest_logs"],
+    ])('should reject invalid get_latest_logs arguments %j', async (args, message) => {
+      const result = await handler.handle('get_latest_logs', args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+    });
+
+    it('should return the quota violation report as JSON', async () => {
+      const report = { period: '20250815', files: ['quota.log'], totalEntries: 0, quotas: [] };
+      mockLogClient.getQuotaViolations.mockResolvedValue(report);
+
+      const result = await handler.handle('get_quota_violations', { date: '20250815' }, Date.now());
+
+      expect(mockLogClient.getQuotaViolations).toHaveBeenCalledWith(20, '20250815', undefined);
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Analyzing quota violations limit=20 date=20250815');
+    });
+
+    it('should pass time windows to get_api_deprecations', async () => {
+      mockLogClient.getApiDeprecations.mockResolvedValue({ period: '', files: [], totalUsages: 0, apis: [] });
+
+      await handler.handle('get_api_deprecations', { from: '2025-08-15 10:00:00', to: '2025-08-15 12:00:00', limit: 5 }, Date.now());
+
+      expect(mockLogClient.getApiDeprecations).toHaveBeenCalledWith(5, undefined, {
+        from: new Date('2025-08-15T10:00:00Z'),
+        to: new Date('2025-08-15T12:00:00Z'),
+      });
+    });
+
+    it('should filter service log entries by service and level', async () => {
+      mockLogClient.getServiceLogEntries.mockResolvedValue({
+        period: '20250815', files: [], services: {}, omittedEntries: 0, entries: [],
+      });
+
+      await handler.handle('get_service_log_entries', { serviceName: 'payment', level: 'error' }, Date.now());
+
+      expect(mockLogClient.getServiceLogEntries).toHaveBeenCalledWith({
+        serviceName: 'payment',
+        level: 'error',
+        limit: 50,
+        date: undefined,
+        window: undefined,
+      });
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Fetching service log entries service=payment level=error limit=50 date=today',
+      );
+    });
+
+    it('should reject an invalid service log level', async () => {
+      const result = await handler.handle('get_service_log_entries', { level: 'all' }, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Invalid log level 'all' for get_service_log_entries");
+    });
+
+    it('should filter security log entries by category and level', async () => {
+      mockLogClient.getSecurityLogEntries.mockResolvedValue({
+        period: '20250815', files: [], categories: {}, users: {}, ipAddresses: {}, omittedEntries: 0, entries: [],
+      });
+
+      await handler.handle('get_security_log_entries', { category: 'login', level: 'warn' }, Date.now());
+
+      expect(mockLogClient.getSecurityLogEntries).toHaveBeenCalledWith({
+        category: 'login',
+        level: 'warn',
+        limit: 50,
+        date: undefined,
+        window: undefined,
+      });
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Fetching security log entries category=login level=warn limit=50 date=today',
+      );
+    });
+
+    it('should filter SQL log entries by execution time', async () => {
+      mockLogClient.getSqlLogEntries.mockResolvedValue({ period: '20250815', files: [], omittedEntries: 0, entries: [] });
+
+      await handler.handle('get_sql_log_entries', { minDurationMs: 500, date: '20250815' }, Date.now());
+
+      expect(mockLogClient.getSqlLogEntries).toHaveBeenCalledWith({
+        minDurationMs: 500,
+        level: undefined,
+        limit: 20,
+        date: '20250815',
+        window: undefined,
+      });
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Fetching SQL log entries minDurationMs=500 level=all limit=20 date=20250815',
+      );
+    });
+
+    it('should reject an invalid minimum SQL execution time', async () => {
+      const result = await handler.handle('get_sql_log_entries', { minDurationMs: -1 }, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Invalid minDurationMs '-1' for get_sql_log_entries");
+    });
+  });
+
+  describe('logger category and cartridge filters', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+    });
+
+    it('should pass category and cartridge filters to get_latest_* tools', async () => {
+      mockLogClient.getLatestLogs.mockResolvedValue('Latest entries');
+
+      await handler.handle('get_latest_error', { category: 'checkout', cartridge: ' int_payment ' }, Date.now());
+
+      expect(mockLogClient.getLatestLogs).toHaveBeenCalledWith('error', 10, undefined, undefined, {
+        category: 'checkout',
+        cartridge: 'int_payment',
+      });
+    });
+
+    it('should pass the filters to search_logs', async () => {
+      mockLogClient.searchLogs.mockResolvedValue('Found matches');
+
+      await handler.handle('search_logs', { pattern: 'timeout', category: 'custom.checkout' }, Date.now());
+
+      expect(mockLogClient.searchLogs).toHaveBeenCalledWith(expect.objectContaining({
+        pattern: 'timeout',
+        filter: { category: 'custom.checkout' },
+      }));
+    });
+
+    it('should only pass the cartridge filter to get_latest_logs', async () => {
+      mockLogClient.getLatestCategoryLogs.mockResolvedValue('Latest entries');
+
+      await handler.handle('get_latest_logs', { category: 'custom', cartridge: 'int_tax' }, Date.now());
+
+      expect(mockLogClient.getLatestCategoryLogs).toHaveBeenCalledWith('custom', 10, undefined, undefined, {
+        cartridge: 'int_tax',
+      });
+    });
+
+    it.each([
+      ['get_latest_warn', { category: '' }, 'category must be a non-empty string for get_latest_warn'],
+      ['search_logs', { pattern: 'x', cartridge: 42 }, 'cartridge must be a non-empty string'],
+      ['list_log_categories', { cartridge: ' ' }, 'cartridge must be a non-empty string for list_log_categories'],
+    ])('should reject invalid filters for %s', async (toolName, args, message) => {
+      const result = await handler.handle(toolName, args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+    });
+
+    it('should return the logger category counts as JSON', async () => {
+      const report = { period: '20250815', files: ['customerror.log'], categories: [], omittedCategories: 0 };
+      mockLogClient.getLoggerCategories.mockResolvedValue(report);
+
+      const result = await handler.handle('list_log_categories', { date: '20250815', cartridge: 'int_tax' }, Date.now());
+
+      expect(mockLogClient.getLoggerCategories).toHaveBeenCalledWith(50, '20250815', undefined, 'int_tax');
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Analyzing logger categories limit=50 date=20250815');
+    });
+  });
+
+  describe('cluster_errors tool', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+    });
+
+    it('should cluster errors over a time window and return the report as JSON', async () => {
+      const report = { period: '', files: [], totalEntries: 0, clusters: [], omittedClusters: 0 };
+      mockLogClient.clusterErrors.mockResolvedValue(report);
+
+      const result = await handler.handle('cluster_errors', {
+        levels: ['error', 'warn'],
+        cartridge: 'int_cart',
+        from: '2025-08-14',
+        to: '2025-08-16',
+      }, Date.now());
+
+      expect(mockLogClient.clusterErrors).toHaveBeenCalledWith({
+        levels: ['error', 'warn'],
+        limit: 20,
+        date: undefined,
+        window: { from: new Date('2025-08-14T00:00:00Z'), to: new Date('2025-08-16T00:00:00Z') },
+        filter: { cartridge: 'int_cart' },
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Analyzing error clusters limit=20 from=2025-08-14 to=2025-08-16',
+      );
+    });
+
+    it.each([
+      [{ levels: [] }, 'levels must be a non-empty array for cluster_errors'],
+      [{ levels: ['fatal'] }, "Invalid log level 'fatal' for cluster_errors"],
+      [{ limit: 0 }, "Invalid limit '0' for cluster_errors"],
+    ])('should reject invalid arguments %j', async (args, message) => {
+      const result = await handler.handle('cluster_errors', args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+      expect(mockLogClient.clusterErrors).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('get_stack_traces tool', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+    });
+
+    it('should pass the configured cartridges root and return the report as JSON', async () => {
+      const report = { period: '20250815', files: [], totalEntries: 0, traces: [], omittedTraces: 0 };
+      mockLogClient.getStackTraces.mockResolvedValue(report);
+      context.config.cartridgesRoot = '/work/cartridges';
+
+      const result = await handler.handle('get_stack_traces', {
+        pattern: 'TypeError',
+        category: 'checkout',
+        contextLines: 5,
+        date: '20250815',
+      }, Date.now());
+
+      expect(mockLogClient.getStackTraces).toHaveBeenCalledWith({
+        levels: undefined,
+        pattern: 'TypeError',
+        limit: 10,
+        date: '20250815',
+        window: undefined,
+        filter: { category: 'checkout' },
+        cartridgesRoot: '/work/cartridges',
+        contextLines: 5,
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Analyzing stack traces limit=10 date=20250815');
+    });
+
+    it.each([
+      [{ contextLines: 11 }, "Invalid contextLines '11' for get_stack_traces. Must be between 0 and 10"],
+      [{ pattern: ' ' }, 'pattern must be a non-empty string for get_stack_traces'],
+      [{ levels: ['fatal'] }, "Invalid log level 'fatal' for get_stack_traces"],
+    ])('should reject invalid arguments %j', async (args, message) => {
+      const result = await handler.handle('get_stack_traces', args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+      expect(mockLogClient.getStackTraces).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trace_request tool', () => {
+    beforeEach(async () => {
+      await initializeHandler();
+    });
+
+    it('should trace an order number over a time window', async () => {
+      const report = {
+        period: '', files: [], idType: 'order' as const, id: '00001234', totalEntries: 0, levels: {},
+        sessions: [], sites: [], pipelines: [], omittedEntries: 0, entries: [],
+      };
+      mockLogClient.traceRequest.mockResolvedValue(report);
+
+      const result = await handler.handle('trace_request', {
+        orderNo: '00001234',
+        followSessions: true,
+        from: '2025-08-15T10:00:00Z',
+        to: '2025-08-15T11:00:00Z',
+      }, Date.now());
+
+      expect(mockLogClient.traceRequest).toHaveBeenCalledWith({
+        idType: 'order',
+        id: '00001234',
+        followSessions: true,
+        limit: 100,
+        date: undefined,
+        window: { from: new Date('2025-08-15T10:00:00Z'), to: new Date('2025-08-15T11:00:00Z') },
+      });
+      expect(JSON.parse(result.content[0].text)).toEqual(report);
+      expect(mockLogger.debug).toHaveBeenCalledWith(
+        'Tracing orderNo=00001234 limit=100 from=2025-08-15T10:00:00Z to=2025-08-15T11:00:00Z',
+      );
+    });
+
+    it.each([
+      [{}, 'Exactly one of sessionId, requestId and orderNo is required for trace_request'],
+      [{ sessionId: 'a', orderNo: '1' }, 'Exactly one of sessionId, requestId and orderNo is required for trace_request'],
+      [{ requestId: ' ' }, 'requestId must be a non-empty string for trace_request'],
+      [{ sessionId: 'a', followSessions: 'yes' }, 'followSessions must be a boolean for trace_request'],
+      [{ sessionId: 'a', date: '20250815', from: '2025-08-15' }, 'Use either date or from/to for trace_request'],
+    ])('should reject invalid arguments %j', async (args, message) => {
+      const result = await handler.handle('trace_request', args, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(message);
+      expect(mockLogClient.traceRequest).not.toHaveBeenCalled();
+    });
   });
 
   describe('get_log_file_contents tool', () => {
@@ -318,6 +747,131 @@ describe('LogToolHandler', () => {
     });
   });
 
+  describe('tail_logs tool', () => {
+    const entry = {
+      file: 'error-blade1-20250815-000000.log',
+      level: 'error' as const,
+      timestamp: '2025-08-15T10:00:00.000Z',
+      entry: '[2025-08-15 10:00:00.000 GMT] ERROR boom',
+    };
+    const poll = (offset: number, entries: typeof entry[] = []) => ({
+      state: { offsets: { [entry.file]: offset } },
+      entries,
+      files: [entry.file],
+      droppedEntries: 0,
+      skippedBytes: 0,
+    });
+    const notifier = () => ({
+      progress: jest.fn().mockResolvedValue(undefined),
+      log: jest.fn().mockResolvedValue(undefined),
+    });
+    const startTail = async (args: Record<string, unknown> = {}) => {
+      mockLogClient.tailLogs.mockResolvedValueOnce(poll(100));
+      const result = await handler.handle('tail_logs', args, Date.now());
+      return JSON.parse(result.content[0].text).cursor as string;
+    };
+
+    beforeEach(async () => {
+      await initializeHandler();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should start a tail and return a cursor', async () => {
+      mockLogClient.tailLogs.mockResolvedValue(poll(100));
+
+      const result = await handler.handle('tail_logs', { levels: ['error'] }, Date.now());
+
+      expect(mockLogClient.tailLogs).toHaveBeenCalledWith({ levels: ['error'], limit: 50 });
+      expect(JSON.parse(result.content[0].text)).toMatchObject({
+        cursor: expect.any(String),
+        levels: ['error'],
+        files: [entry.file],
+        entries: [],
+      });
+    });
+
+    it('should continue from the cursor state and send new entries as logging notifications', async () => {
+      const cursor = await startTail();
+      const notifications = notifier();
+      mockLogClient.tailLogs.mockResolvedValueOnce(poll(150, [entry]));
+
+      const result = await handler.handle('tail_logs', { cursor, pattern: 'boom' }, Date.now(), notifications);
+
+      expect(mockLogClient.tailLogs).toHaveBeenLastCalledWith(
+        { levels: ['error', 'warn', 'info', 'debug'], pattern: 'boom', limit: 50 },
+        { offsets: { [entry.file]: 100 } },
+      );
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ cursor, entries: [entry], polls: 1 });
+      expect(notifications.log).toHaveBeenCalledWith('error', `[${entry.file}] ${entry.entry}`);
+
+      mockLogClient.tailLogs.mockResolvedValueOnce(poll(150));
+      await handler.handle('tail_logs', { cursor }, Date.now());
+      expect(mockLogClient.tailLogs).toHaveBeenLastCalledWith(expect.any(Object), { offsets: { [entry.file]: 150 } });
+    });
+
+    it('should poll until new entries arrive and report progress while waiting', async () => {
+      const cursor = await startTail();
+      const notifications = notifier();
+      jest.useFakeTimers();
+      mockLogClient.tailLogs.mockResolvedValueOnce(poll(100)).mockResolvedValueOnce(poll(150, [entry]));
+
+      const pending = handler.handle('tail_logs', { cursor, waitSeconds: 10 }, Date.now(), notifications);
+      await jest.advanceTimersByTimeAsync(2000);
+      const result = await pending;
+
+      expect(mockLogClient.tailLogs).toHaveBeenCalledTimes(3);
+      expect(notifications.progress).toHaveBeenCalledWith(0, 10, 'No new log entries after 1 poll(s), waiting...');
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ entries: [entry], polls: 2 });
+    });
+
+    it('should reject unknown cursors and invalid arguments', async () => {
+      const unknown = await handler.handle('tail_logs', { cursor: 'missing' }, Date.now());
+      expect(unknown.isError).toBe(true);
+      expect(unknown.content[0].text).toContain('Unknown or expired tail cursor "missing"');
+
+      const level = await handler.handle('tail_logs', { levels: ['fatal'] }, Date.now());
+      expect(level.content[0].text).toContain("Invalid log level 'fatal'");
+
+      const wait = await handler.handle('tail_logs', { waitSeconds: 600 }, Date.now());
+      expect(wait.isError).toBe(true);
+    });
+
+    it('should not resume cursors started by another session', async () => {
+      mockLogClient.tailLogs.mockResolvedValueOnce(poll(100));
+      const started = await handler.handle('tail_logs', {}, Date.now(), { ...notifier(), sessionId: 'session-a' });
+      const { cursor } = JSON.parse(started.content[0].text);
+
+      const result = await handler.handle('tail_logs', { cursor }, Date.now(), { ...notifier(), sessionId: 'session-b' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(`Unknown or expired tail cursor "${cursor}"`);
+      expect(mockLogClient.tailLogs).toHaveBeenCalledTimes(1);
+    });
+
+    it('should forget the cursors of a closed session', async () => {
+      mockLogClient.tailLogs.mockResolvedValueOnce(poll(100));
+      const started = await handler.handle('tail_logs', {}, Date.now(), { ...notifier(), sessionId: 'session-a' });
+      const { cursor } = JSON.parse(started.content[0].text);
+
+      await handler.closeSession('session-a');
+      const result = await handler.handle('tail_logs', { cursor }, Date.now(), { ...notifier(), sessionId: 'session-a' });
+
+      expect(result.content[0].text).toContain('Unknown or expired tail cursor');
+    });
+
+    it('should forget cursors when disposed', async () => {
+      const cursor = await startTail();
+
+      await handler.dispose();
+      const result = await handler.handle('tail_logs', { cursor }, Date.now());
+
+      expect(result.content[0].text).toContain('Unknown or expired tail cursor');
+    });
+  });
+
   describe('error handling', () => {
     beforeEach(async () => {
       await initializeHandler();
@@ -362,4 +916,41 @@ describe('LogToolHandler', () => {
       );
     });
   });
+
+  describe('instance selection', () => {
+    beforeEach(() => {
+      context.config = {
+        ...context.config,
+        instanceName: 'sandbox',
+        instances: {
+          staging: { hostname: 'staging.demandware.net', username: 'u', password: 'p', instanceName: 'staging' },
+        },
+      };
+      handler = new LogToolHandler(context, 'Log');
+      mockLogClient.getLatestLogs.mockResolvedValue('staging logs');
+    });
+
+    it('should run against the instance given in the instance argument', async () => {
+      const result = await handler.handle('get_latest_error', { instance: 'staging' }, Date.now());
+
+      expect(result.isError).toBe(false);
+      expect(SFCCLogClient).toHaveBeenCalledWith(expect.objectContaining({ hostname: 'staging.demandware.net' }));
+    });
+
+    it('should reuse the log client for repeated calls to the same instance', async () => {
+      await handler.handle('get_latest_error', { instance: 'staging' }, Date.now());
+      (SFCCLogClient as jest.MockedClass<typeof SFCCLogClient>).mockClear();
+
+      await handler.handle('get_latest_warn', { instance: 'staging' }, Date.now());
+
+      expect(SFCCLogClient).not.toHaveBeenCalled();
+    });
+
+    it('should return an error for unknown instances', async () => {
+      const result = await handler.handle('get_latest_error', { instance: 'production' }, Date.now());
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unknown instance "production"');
+    });
+  });
 });
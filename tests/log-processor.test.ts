@@ -1,4 +1,5 @@
 import { LogProcessor } from '../src/clients/logs/log-processor';
+import { LogQuery } from '../src/clients/logs/log-query';
 import { LogEntry, LogFileMetadata, LogLevel } from '../src/clients/logs/log-types';
 import { Logger } from '../src/utils/logger';
 
@@ -240,4 +241,197 @@ describe('LogProcessor', () => {
       expect(result).toEqual([]);
     });
   });
+
+  describe('parseStructuredEntries', () => {
+    it('should extract the header fields of each entry', () => {
+      const content = [
+        '\tat cut.off (tail.js:1)',
+        '[2025-08-15 10:00:00.000 GMT] ERROR PipelineCallServlet|1645761595|Sites-RefArchGlobal-Site|Cart-AddProduct|PipelineCall|nYJXtqnEfz custom [] Cart failed',
+        '\tat Cart.calculate (cart.js:42)',
+        '',
+        '\tat Cart.add (cart.js:10)',
+        '[2025-08-15 10:00:01.000 GMT] WARN JobThread|123 Slow job step',
+      ].join('\n');
+
+      const entries = logProcessor.parseStructuredEntries('error.log', content);
+
+      expect(entries).toEqual([
+        { file: 'error.log', line: 1, endLine: 1, text: '\tat cut.off (tail.js:1)' },
+        expect.objectContaining({
+          line: 2,
+          endLine: 5,
+          level: 'ERROR',
+          thread: 'PipelineCallServlet|1645761595|Sites-RefArchGlobal-Site|Cart-AddProduct|PipelineCall|nYJXtqnEfz',
+          site: 'Sites-RefArchGlobal-Site',
+          pipeline: 'Cart-AddProduct',
+          session: 'nYJXtqnEfz',
+          category: 'custom',
+        }),
+        expect.objectContaining({
+          line: 6, level: 'WARN', thread: 'JobThread|123', site: undefined, pipeline: undefined, session: undefined,
+        }),
+      ]);
+      expect(entries[1].text.split('\n')).toHaveLength(4);
+    });
+  });
+
+  describe('containsToken', () => {
+    it.each([
+      ['Payment failed for order 00001234', true],
+      ['Payment failed for order #00001234.', true],
+      ['Payment failed for order ORDER-00001234', true],
+      ['Payment failed for order 100001234', false],
+      ['Payment failed for order 00001234567', false],
+      ['Payment failed', false],
+    ])('should check %j for a whole token', (text, expected) => {
+      expect(logProcessor.containsToken(text, '00001234')).toBe(expected);
+    });
+  });
+
+  describe('logger categories and cartridges', () => {
+    const content = [
+      '[2025-08-15 10:00:00.000 GMT] ERROR Thread|1 custom.checkout [] Order failed',
+      '\tat int_payment/cartridge/scripts/hooks/authorize.js:42',
+      '[2025-08-15 10:00:01.000 GMT] ERROR Thread|1 custom.checkout.tax [] Tax failed in int_tax/cartridge/scripts/tax.ds:7',
+      '[2025-08-15 10:00:02.000 GMT] ERROR Thread|1 custom.checkoutLegacy [] Legacy failure',
+      '[2025-08-15 10:00:03.000 GMT] ERROR Thread|1 - [] No category',
+    ].join('\n');
+
+    it('should parse the logger category and the first cartridge script of each entry', () => {
+      const entries = logProcessor.parseStructuredEntries('customerror.log', content);
+
+      expect(entries.map(({ category, script, cartridge }) => ({ category, script, cartridge }))).toEqual([
+        {
+          category: 'custom.checkout',
+          script: 'int_payment/cartridge/scripts/hooks/authorize.js:42',
+          cartridge: 'int_payment',
+        },
+        { category: 'custom.checkout.tax', script: 'int_tax/cartridge/scripts/tax.ds:7', cartridge: 'int_tax' },
+        { category: 'custom.checkoutLegacy', script: undefined, cartridge: undefined },
+        { category: undefined, script: undefined, cartridge: undefined },
+      ]);
+    });
+
+    it('should match categories with or without the custom prefix, including sub-categories', () => {
+      const entries = logProcessor.parseStructuredEntries('customerror.log', content);
+      const matching = (filter: { category?: string; cartridge?: string }) =>
+        entries.filter(entry => logProcessor.matchesEntryFilter(entry, filter)).map(entry => entry.line);
+
+      expect(matching({ category: 'checkout' })).toEqual([1, 3]);
+      expect(matching({ category: 'Custom.Checkout.Tax' })).toEqual([3]);
+      expect(matching({ cartridge: 'INT_PAYMENT' })).toEqual([1]);
+      expect(matching({ category: 'checkout', cartridge: 'int_tax' })).toEqual([3]);
+      expect(matching({})).toEqual([1, 3, 4, 5]);
+    });
+
+    it('should keep only the matching entries of log content', () => {
+      expect(logProcessor.filterContentByEntries('customerror.log', content, { cartridge: 'int_payment' })).toBe([
+        '[2025-08-15 10:00:00.000 GMT] ERROR Thread|1 custom.checkout [] Order failed',
+        '\tat int_payment/cartridge/scripts/hooks/authorize.js:42',
+      ].join('\n'));
+    });
+  });
+
+  describe('parseStackFrames', () => {
+    it('should start with the script named in the message, followed by the stack lines', () => {
+      const frames = logProcessor.parseStackFrames([
+        '[2025-08-15 10:00:00.000 GMT] ERROR Thread|1 custom.checkout [] TypeError: Cannot read property "id" ' +
+          'of null (int_payment/cartridge/scripts/hooks/authorize.js#42)',
+        '\tat int_payment/cartridge/scripts/hooks/authorize.js:42 (authorize)',
+        '\tat validatePayment (app_storefront_base/cartridge/controllers/CheckoutServices.js:118)',
+        '\tat dw.system.HookMgr.callHook',
+      ].join('\n'));
+
+      expect(frames).toEqual([
+        {
+          location: 'int_payment/cartridge/scripts/hooks/authorize.js#42',
+          function: undefined,
+          cartridge: 'int_payment',
+          path: 'cartridge/scripts/hooks/authorize.js',
+          line: 42,
+        },
+        {
+          location: 'validatePayment (app_storefront_base/cartridge/controllers/CheckoutServices.js:118)',
+          function: 'validatePayment',
+          cartridge: 'app_storefront_base',
+          path: 'cartridge/controllers/CheckoutServices.js',
+          line: 118,
+        },
+        {
+          location: 'dw.system.HookMgr.callHook',
+          function: undefined,
+          cartridge: undefined,
+          path: undefined,
+          line: undefined,
+        },
+      ]);
+    });
+
+    it('should return no frames for entries without script locations or stack lines', () => {
+      expect(logProcessor.parseStackFrames('[2025-08-15 10:00:00.000 GMT] ERROR Thread|1 Payment declined')).toEqual([]);
+    });
+
+    it('should limit the number of frames', () => {
+      const stack = Array.from({ length: 30 }, (_, index) => `\tat int_deep/cartridge/scripts/deep.js:${index + 1}`);
+      const frames = logProcessor.parseStackFrames(['[2025-08-15 10:00:00.000 GMT] ERROR Thread|1 Too deep', ...stack].join('\n'));
+
+      expect(frames).toHaveLength(20);
+      expect(frames[19].line).toBe(20);
+    });
+  });
+
+  describe('findQueryMatches', () => {
+    const content = [
+      '[2025-08-15 10:00:00.000 GMT] INFO Thread|1 Starting checkout',
+      '[2025-08-15 10:00:01.000 GMT] ERROR Thread|1 Payment timeout',
+      '\tat Payment.authorize (payment.js:5)',
+      '[2025-08-15 10:00:02.000 GMT] INFO Thread|1 Checkout aborted',
+      '[2025-08-15 10:00:03.000 GMT] ERROR Thread|1 Inventory timeout',
+    ].join('\n');
+    const fileContents = new Map([['error.log', content]]);
+
+    it('should return matching entries with the requested context lines', () => {
+      const hits = logProcessor.findQueryMatches(['error.log'], fileContents, LogQuery.parse('timeout'), 10, 1);
+
+      expect(hits).toHaveLength(2);
+      expect(hits[0]).toEqual({
+        entry: expect.objectContaining({ file: 'error.log', line: 2, endLine: 3 }),
+        before: ['[2025-08-15 10:00:00.000 GMT] INFO Thread|1 Starting checkout'],
+        after: ['[2025-08-15 10:00:02.000 GMT] INFO Thread|1 Checkout aborted'],
+      });
+      expect(hits[1].after).toEqual([]);
+    });
+
+    it('should apply the limit and the additional filter', () => {
+      const query = LogQuery.parse('checkout OR timeout');
+
+      expect(logProcessor.findQueryMatches(['error.log'], fileContents, query, 1)).toHaveLength(1);
+      const errors = logProcessor.findQueryMatches(
+        ['error.log'], fileContents, query, 10, 0, entry => entry.level === 'ERROR',
+      );
+      expect(errors.map(hit => hit.entry.line)).toEqual([2, 5]);
+    });
+  });
+
+  describe('filterContentByTimeWindow', () => {
+    it('should keep the entries within the window together with their continuation lines', () => {
+      const actual = jest.requireActual('../src/utils/utils');
+      mockExtractTimestamp.mockImplementation(actual.extractTimestampFromLogEntry);
+      const content = [
+        '\tat orphan continuation line',
+        '[2025-08-15 23:59:00.000 GMT] ERROR before',
+        '[2025-08-16 00:01:00.000 GMT] ERROR inside',
+        '\tat Stack.trace (script.js:10)',
+        '[2025-08-16 00:10:00.000 GMT] ERROR after',
+        '\tat Other.trace (script.js:20)',
+      ].join('\n');
+
+      const result = logProcessor.filterContentByTimeWindow(content, {
+        from: new Date('2025-08-16T00:00:00Z'),
+        to: new Date('2025-08-16T00:05:00Z'),
+      });
+
+      expect(result).toBe('[2025-08-16 00:01:00.000 GMT] ERROR inside\n\tat Stack.trace (script.js:10)');
+    });
+  });
 });
@@ -0,0 +1,103 @@
+/**
+ * Tests for the log search query language
+ * Tests operators and precedence, field filters, regular expressions, case sensitivity,
+ * syntax errors and highlighting
+ */
+
+import { LogQuery } from '../src/clients/logs/log-query.js';
+import type { ParsedLogEntry } from '../src/clients/logs/log-types.js';
+
+const entry = (text: string, fields: Partial<ParsedLogEntry> = {}): ParsedLogEntry => ({
+  file: 'error-blade1-20250815-000000.log',
+  line: 1,
+  endLine: 1,
+  text,
+  ...fields,
+});
+
+const matching = (query: string, entries: ParsedLogEntry[], caseSensitive?: boolean) =>
+  entries.filter(candidate => LogQuery.parse(query, { caseSensitive }).matches(candidate)).map(match => match.text);
+
+describe('LogQuery', () => {
+  const timeout = entry('Service call failed: Timeout after 30s', { level: 'ERROR', session: 'abc123' });
+  const refused = entry('Service call failed: connection refused', { level: 'ERROR', session: 'def456' });
+  const slow = entry('Slow service call: 12000ms', { level: 'WARN', session: 'abc123' });
+  const entries = [timeout, refused, slow];
+
+  it('should AND terms by default and support OR, NOT, -term and parentheses', () => {
+    expect(matching('service failed', entries)).toEqual([timeout.text, refused.text]);
+    expect(matching('timeout OR slow', entries)).toEqual([timeout.text, slow.text]);
+    expect(matching('service NOT refused', entries)).toEqual([timeout.text, slow.text]);
+    expect(matching('service -refused -slow', entries)).toEqual([timeout.text]);
+    expect(matching('failed AND (timeout OR slow)', entries)).toEqual([timeout.text]);
+  });
+
+  it('should bind AND tighter than OR', () => {
+    expect(matching('slow OR failed timeout', entries)).toEqual([timeout.text, slow.text]);
+  });
+
+  it('should match quoted phrases and regular expressions', () => {
+    expect(matching('"connection refused"', entries)).toEqual([refused.text]);
+    expect(matching('/\\d{5}ms/', entries)).toEqual([slow.text]);
+    expect(matching('/timeout|refused/', entries)).toEqual([timeout.text, refused.text]);
+  });
+
+  it('should filter on entry fields', () => {
+    expect(matching('level:warn', entries)).toEqual([slow.text]);
+    expect(matching('session:abc123 level:error', entries)).toEqual([timeout.text]);
+    expect(matching('file:/blade1-\\d+/', [timeout])).toEqual([timeout.text]);
+    expect(matching('site:RefArch', entries)).toEqual([]);
+
+    const custom = entry('Order failed', { category: 'custom.checkout', cartridge: 'int_payment' });
+    expect(matching('category:checkout cartridge:int_payment', [custom, timeout])).toEqual([custom.text]);
+  });
+
+  it('should treat words starting with a slash as text unless they end with a slash', () => {
+    const entries = [
+      entry('Request /Cart-Show failed', { site: 'RefArch' }),
+      entry('Request /on/demandware.store/Sites-RefArch-Site/default/Cart-Show failed'),
+    ];
+
+    expect(matching('/Cart-Show', entries)).toEqual([entries[0].text, entries[1].text]);
+    expect(matching('/on/demandware.store/Sites-RefArch-Site', entries)).toEqual([entries[1].text]);
+    expect(matching('(failed /Cart-Show)', entries)).toEqual([entries[0].text, entries[1].text]);
+    expect(matching('/cart-show/ -/demandware', entries)).toEqual([entries[0].text]);
+  });
+
+  it('should treat unknown prefixes and lowercase operators as text', () => {
+    const entries = [entry('Error: timeout or retry')];
+
+    expect(matching('Error:', entries)).toHaveLength(1);
+    expect(matching('timeout or retry', entries)).toHaveLength(1);
+    expect(matching('Cart.calculate(cart.js:42)', [entry('at Cart.calculate(cart.js:42)')])).toHaveLength(1);
+  });
+
+  it('should be case-insensitive unless caseSensitive is set', () => {
+    expect(matching('TIMEOUT', entries)).toEqual([timeout.text]);
+    expect(matching('TIMEOUT', entries, true)).toEqual([]);
+    expect(matching('/timeout/', entries, true)).toEqual([]);
+    expect(matching('/timeout/i', entries, true)).toEqual([timeout.text]);
+  });
+
+  it.each([
+    ['', 'Query must not be empty'],
+    ['timeout AND', 'Query ends unexpectedly'],
+    ['(timeout OR slow', 'Missing ")"'],
+    ['timeout AND )', 'Unexpected ")"'],
+    ['"unterminated', 'Unterminated quoted phrase'],
+    ['/(unclosed/', 'Invalid regular expression /(unclosed/'],
+    ['/x/g', 'Unsupported flags "g"'],
+    ['/cart/show', 'quote the term to search for a path such as "/cart/show"'],
+  ])('should reject the invalid query %j', (query, message) => {
+    expect(() => LogQuery.parse(query)).toThrow(message);
+  });
+
+  it('should highlight the text terms outside NOT', () => {
+    const query = LogQuery.parse('(service OR "call failed") /\\d+s\\b/ -refused level:error');
+    const overlapping = LogQuery.parse('"call failed" OR "failed: Timeout"');
+
+    expect(query.highlight(timeout.text)).toBe('**Service** **call failed**: Timeout after **30s**');
+    expect(overlapping.highlight(timeout.text)).toBe('Service **call failed: Timeout** after 30s');
+    expect(query.highlight('nothing to see')).toBe('nothing to see');
+  });
+});
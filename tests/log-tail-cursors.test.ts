@@ -0,0 +1,70 @@
+/**
+ * Tests for the tail_logs session cursors
+ * Tests session and instance ownership, expiry and the per-session cursor limit
+ */
+
+import { LogTailCursorStore } from '../src/clients/logs/log-tail-cursors.js';
+
+describe('LogTailCursorStore', () => {
+  const owner = {};
+  const state = { offsets: { 'error-blade1-20250815-000000.log': 100 } };
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return the cursor for the instance that created it', () => {
+    const store = new LogTailCursorStore();
+    const id = store.create(undefined, owner, ['error'], state);
+
+    expect(store.get(id, undefined, owner)).toMatchObject({ id, levels: ['error'], state });
+    expect(() => store.get(id, undefined, {})).toThrow(`Tail cursor "${id}" belongs to another instance`);
+  });
+
+  it('should only return cursors to the session that created them', () => {
+    const store = new LogTailCursorStore();
+    const id = store.create('session-a', owner, ['error'], state);
+
+    expect(store.get(id, 'session-a', owner)).toMatchObject({ id, sessionId: 'session-a' });
+    expect(() => store.get(id, 'session-b', owner)).toThrow(`Unknown or expired tail cursor "${id}"`);
+    expect(() => store.get(id, undefined, owner)).toThrow(`Unknown or expired tail cursor "${id}"`);
+
+    store.clearSession('session-a');
+    expect(() => store.get(id, 'session-a', owner)).toThrow(`Unknown or expired tail cursor "${id}"`);
+  });
+
+  it('should expire cursors that were not used within the TTL', () => {
+    jest.useFakeTimers();
+    const store = new LogTailCursorStore(1000);
+    const id = store.create(undefined, owner, ['error'], state);
+
+    jest.advanceTimersByTime(800);
+    store.get(id, undefined, owner);
+    jest.advanceTimersByTime(800);
+    expect(store.get(id, undefined, owner).id).toBe(id);
+
+    jest.advanceTimersByTime(1001);
+    expect(() => store.get(id, undefined, owner)).toThrow('Unknown or expired tail cursor');
+  });
+
+  it('should discard the least recently used cursor above the limit', () => {
+    const store = new LogTailCursorStore(60000, 2);
+    const first = store.create(undefined, owner, ['error'], state);
+    const second = store.create(undefined, owner, ['error'], state);
+    store.get(first, undefined, owner);
+    store.create(undefined, owner, ['error'], state);
+
+    expect(store.get(first, undefined, owner).id).toBe(first);
+    expect(() => store.get(second, undefined, owner)).toThrow('Unknown or expired tail cursor');
+  });
+
+  it('should apply the limit to each session separately', () => {
+    const store = new LogTailCursorStore(60000, 2);
+    const other = store.create('session-a', owner, ['error'], state);
+    for (let i = 0; i < 3; i++) {
+      store.create('session-b', owner, ['error'], state);
+    }
+
+    expect(store.get(other, 'session-a', owner).id).toBe(other);
+  });
+});
@@ -1,4 +1,8 @@
+import { chmodSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 import { TokenManager } from '../src/clients/base/oauth-token.js';
+import { TokenStore } from '../src/clients/base/token-store.js';
 import { OAuthTokenResponse } from '../src/types/types';
 
 describe('TokenManager', () => {
@@ -627,4 +631,83 @@ describe('TokenManager', () => {
       }
     });
   });
+
+  describe('clearTokens()', () => {
+    it('should clear the tokens of a host and return the number removed', () => {
+      const tokenResponse: OAuthTokenResponse = { access_token: 'token', token_type: 'bearer', expires_in: 3600 };
+      tokenManager.storeToken(testHostname, testClientId, tokenResponse);
+      tokenManager.storeToken(testHostname, testClientId, tokenResponse, 'sfcc.products');
+      tokenManager.storeToken(testHostname2, testClientId, tokenResponse);
+
+      expect(tokenManager.clearTokens(testHostname)).toBe(2);
+      expect(tokenManager.getValidToken(testHostname, testClientId)).toBeNull();
+      expect(tokenManager.getValidToken(testHostname2, testClientId)).toBe('token');
+      expect(tokenManager.clearTokens()).toBe(1);
+    });
+  });
+
+  describe('Persistence', () => {
+    let dir: string;
+    let store: TokenStore;
+    const tokenResponse: OAuthTokenResponse = { access_token: 'persisted-token', token_type: 'bearer', expires_in: 3600 };
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'token-manager-test-'));
+      store = new TokenStore(join(dir, 'tokens.json'));
+      tokenManager.enablePersistence(store);
+    });
+
+    afterEach(() => {
+      tokenManager.clearAllTokens();
+      tokenManager.disablePersistence();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write tokens to the store and load them on restart', () => {
+      tokenManager.storeToken(testHostname, testClientId, tokenResponse);
+      tokenManager.disablePersistence();
+      tokenManager.clearAllTokens();
+
+      tokenManager.enablePersistence(new TokenStore(join(dir, 'tokens.json')));
+
+      expect(tokenManager.getPersistencePath()).toBe(join(dir, 'tokens.json'));
+      expect(tokenManager.getValidToken(testHostname, testClientId)).toBe('persisted-token');
+    });
+
+    it('should pick up tokens stored by other processes', () => {
+      store.update(tokens => {
+        tokens[`${testHostname}:${testClientId}`] = { accessToken: 'other-process', tokenType: 'bearer', expiresAt: Date.now() + 3600000 };
+      });
+
+      expect(tokenManager.getValidToken(testHostname, testClientId)).toBe('other-process');
+    });
+
+    it('should not persist tokens stored with persist: false', () => {
+      tokenManager.storeToken(testHostname, testClientId, tokenResponse, 'slas:RefArch:guest', { persist: false });
+
+      expect(store.read()).toEqual({});
+      expect(tokenManager.getValidToken(testHostname, testClientId, 'slas:RefArch:guest')).toBe('persisted-token');
+    });
+
+    (process.platform === 'win32' ? it.skip : it)('should keep tokens in memory when the store cannot be written', () => {
+      tokenManager.storeToken(testHostname, testClientId, tokenResponse);
+      chmodSync(join(dir, 'tokens.json'), 0o644);
+
+      expect(() => tokenManager.storeToken(testHostname2, testClientId, tokenResponse)).not.toThrow();
+
+      expect(tokenManager.getPersistencePath()).toBeNull();
+      expect(tokenManager.getValidToken(testHostname2, testClientId)).toBe('persisted-token');
+    });
+
+    it('should remove cleared tokens from the store', () => {
+      tokenManager.storeToken(testHostname, testClientId, tokenResponse);
+      tokenManager.storeToken(testHostname2, testClientId, tokenResponse);
+
+      tokenManager.clearToken(testHostname, testClientId);
+      expect(Object.keys(store.read())).toEqual([`${testHostname2}:${testClientId}`]);
+
+      expect(tokenManager.clearTokens()).toBe(1);
+      expect(store.read()).toEqual({});
+    });
+  });
 });
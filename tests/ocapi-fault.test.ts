@@ -0,0 +1,192 @@
+/**
+ * Tests for OCAPI fault handling
+ * Tests fault parsing, remediation hints and resource ID derivation
+ */
+
+import {
+  buildOCAPISettings,
+  getOCAPIRemediation,
+  getOCAPIRequestPath,
+  OCAPIFaultError,
+  OCAPIFaultRequest,
+  parseOCAPIFault,
+  toOCAPIResourceId,
+} from '../src/clients/base/ocapi-fault.js';
+import { HttpRequestError } from '../src/clients/base/http-client.js';
+import { OCAPIAuthClient } from '../src/clients/base/ocapi-auth-client.js';
+
+// Mock Logger
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      methodEntry: jest.fn(),
+      methodExit: jest.fn(),
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      timing: jest.fn(),
+      log: jest.fn(),
+      info: jest.fn(),
+    })),
+  },
+}));
+
+const BASE_URL = 'https://zzxy-001.dx.commercecloud.salesforce.com/s/-/dw/data/v23_2';
+
+const faultBody = (type: string, message: string) =>
+  JSON.stringify({ _v: '23.2', fault: { type, message } });
+
+const createRequest = (overrides: Partial<OCAPIFaultRequest> = {}): OCAPIFaultRequest => ({
+  method: 'GET',
+  url: `${BASE_URL}/sites/RefArch/orders/00001?select=(**)`,
+  status: 403,
+  clientId: 'test-client-id',
+  version: 'v23_2',
+  resourcePaths: ['/sites/{site_id}/orders/{order_no}'],
+  ...overrides,
+});
+
+describe('OCAPI faults', () => {
+  describe('parseOCAPIFault', () => {
+    it('should parse the fault document', () => {
+      const body = JSON.stringify({
+        _v: '23.2',
+        fault: { type: 'ResourcePathNotFoundException', message: 'Unknown path', arguments: { path: '/foo' } },
+      });
+
+      expect(parseOCAPIFault(body)).toEqual({
+        type: 'ResourcePathNotFoundException',
+        message: 'Unknown path',
+        arguments: { path: '/foo' },
+      });
+    });
+
+    it('should return undefined for bodies without a fault', () => {
+      expect(parseOCAPIFault('Service Unavailable')).toBeUndefined();
+      expect(parseOCAPIFault(JSON.stringify({ error: 'invalid_client' }))).toBeUndefined();
+    });
+  });
+
+  describe('getOCAPIRemediation', () => {
+    it('should generate the settings snippet for forbidden resources', () => {
+      const fault = { type: 'ClientAccessForbiddenException', message: 'Access forbidden' };
+
+      const remediation = getOCAPIRemediation(fault, createRequest());
+
+      expect(remediation?.hint).toContain('"test-client-id" is not allowed to call GET /sites/*/orders/*');
+      expect(remediation?.settings).toEqual({
+        _v: '23.2',
+        clients: [
+          {
+            client_id: 'test-client-id',
+            resources: [
+              { resource_id: '/sites/*/orders/*', methods: ['get'], read_attributes: '(**)', write_attributes: '(**)' },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should treat other 403 faults as missing permissions', () => {
+      const fault = { type: 'UnauthorizedException', message: 'Not allowed' };
+
+      const remediation = getOCAPIRemediation(fault, createRequest({ method: 'PATCH' }));
+
+      expect(remediation?.settings?.clients[0].resources[0].methods).toEqual(['patch']);
+    });
+
+    it('should point to the API client credentials for invalid tokens', () => {
+      const fault = { type: 'InvalidAccessTokenException', message: 'Invalid token' };
+
+      const remediation = getOCAPIRemediation(fault, createRequest({ status: 401 }));
+
+      expect(remediation?.hint).toContain('Account Manager');
+      expect(remediation?.settings).toBeUndefined();
+    });
+
+    it('should point to the path and version for unknown resources', () => {
+      const fault = { type: 'ResourcePathNotFoundException', message: 'Unknown path' };
+
+      const remediation = getOCAPIRemediation(fault, createRequest({ status: 404, url: `${BASE_URL}/sites/RefArch/foo` }));
+
+      expect(remediation?.hint).toContain('/sites/RefArch/foo does not exist in OCAPI v23_2');
+    });
+
+    it('should return undefined for faults without a known fix', () => {
+      const fault = { type: 'InvalidQueryException', message: 'Bad query' };
+
+      expect(getOCAPIRemediation(fault, createRequest({ status: 400 }))).toBeUndefined();
+    });
+  });
+
+  describe('buildOCAPISettings', () => {
+    it('should convert the version and list every resource', () => {
+      const settings = buildOCAPISettings('client', 'v21_3', [
+        { resourceId: '/code_versions', methods: ['get'] },
+        { resourceId: '/code_versions/*', methods: ['patch'] },
+      ]);
+
+      expect(settings._v).toBe('21.3');
+      expect(settings.clients[0].resources.map((resource) => resource.resource_id))
+        .toEqual(['/code_versions', '/code_versions/*']);
+    });
+  });
+
+  describe('resource IDs', () => {
+    it('should extract the resource path from request URLs', () => {
+      expect(getOCAPIRequestPath(`${BASE_URL}/code_versions?select=(**)`)).toBe('/code_versions');
+      expect(getOCAPIRequestPath('https://example.com/other')).toBeUndefined();
+    });
+
+    it('should match known path templates', () => {
+      const templates = ['/system_object_definitions/{object_type}', '/system_object_definition_search'];
+
+      expect(toOCAPIResourceId('/system_object_definitions/Product', templates)).toBe('/system_object_definitions/*');
+      expect(toOCAPIResourceId('/system_object_definition_search', templates)).toBe('/system_object_definition_search');
+    });
+
+    it('should replace every second segment of unknown paths', () => {
+      expect(toOCAPIResourceId('/sites/RefArch/customers/00001/addresses'))
+        .toBe('/sites/*/customers/*/addresses');
+    });
+  });
+
+  describe('OCAPIFaultError', () => {
+    const httpError = new HttpRequestError('Request failed: 403 Forbidden - {}', 'auth', {
+      method: 'GET',
+      url: `${BASE_URL}/code_versions`,
+      status: 403,
+      attempts: 1,
+    });
+    const fault = { type: 'ClientAccessForbiddenException', message: 'Access forbidden' };
+
+    it('should describe the fault with its remediation', () => {
+      const remediation = getOCAPIRemediation(fault, createRequest({ url: `${BASE_URL}/code_versions` }));
+      const error = new OCAPIFaultError(httpError, fault, remediation);
+
+      expect(error).toBeInstanceOf(HttpRequestError);
+      expect(error.message).toBe('ClientAccessForbiddenException (403): Access forbidden');
+      expect(error.describe()).toContain('(auth) ClientAccessForbiddenException (403): Access forbidden');
+      expect(error.describe()).toContain('"resource_id": "/code_versions"');
+      expect(error.getDetails()).toMatchObject({ kind: 'auth', status: 403, fault, remediation });
+    });
+
+    it('should be created by OCAPI clients for fault responses', () => {
+      const client = new OCAPIAuthClient({
+        hostname: 'zzxy-001.dx.commercecloud.salesforce.com',
+        clientId: 'test-client-id',
+        clientSecret: 'test-client-secret',
+      });
+      const response = new Response(null, { status: 403, statusText: 'Forbidden' });
+      const url = `${BASE_URL}/code_versions/version1`;
+
+      const error = (client as any).createResponseError(response, faultBody(fault.type, fault.message), 'PATCH', url, 1, false);
+
+      expect(error).toBeInstanceOf(OCAPIFaultError);
+      expect(error.remediation.settings.clients[0].resources[0]).toMatchObject({
+        resource_id: '/code_versions/*',
+        methods: ['patch'],
+      });
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for pagination utilities
+ * Tests page fetching, result merging and pagination option handling
+ */
+
+import {
+  fetchAllPages,
+  getPageParamNames,
+  getPaginationOptions,
+  MAX_PAGINATED_RESULTS,
+  PageRequest,
+} from '../src/utils/pagination.js';
+import { ValidationError } from '../src/utils/validator.js';
+
+/** Page fetcher over a list of numbered hits, as returned by OCAPI search requests */
+function createSearchPages(total: number, maxPageSize = 200) {
+  return jest.fn(async ({ start, count }: PageRequest) => {
+    const size = Math.max(0, Math.min(count, maxPageSize, total - start));
+    return {
+      count: size,
+      hits: Array.from({ length: size }, (_, index) => start + index),
+      start,
+      total,
+      next: start + size < total ? { start: start + size, count } : undefined,
+    };
+  });
+}
+
+describe('pagination', () => {
+  describe('fetchAllPages', () => {
+    it('should fetch the remaining pages by total and merge the hits', async () => {
+      const fetchPage = createSearchPages(45);
+
+      const result = await fetchAllPages(fetchPage, { start: 0, count: 20 }, { all: true });
+
+      expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([
+        { start: 0, count: 20 },
+        { start: 20, count: 20 },
+        { start: 40, count: 5 },
+      ]);
+      expect(result.hits).toEqual(Array.from({ length: 45 }, (_, index) => index));
+      expect(result.count).toBe(45);
+      expect(result.next).toBeUndefined();
+      expect(result.pagination).toEqual({ start: 0, returned: 45, total: 45, pages: 3, truncated: false });
+    });
+
+    it('should use the page size returned by the API', async () => {
+      const fetchPage = createSearchPages(25, 10);
+
+      const result = await fetchAllPages(fetchPage, { start: 0, count: 200 }, { all: true });
+
+      expect(fetchPage).toHaveBeenCalledTimes(3);
+      expect(result.hits).toHaveLength(25);
+    });
+
+    it('should stop at maxResults and report truncation', async () => {
+      const fetchPage = createSearchPages(100);
+
+      const result = await fetchAllPages(fetchPage, { start: 10, count: 20 }, { maxResults: 30 });
+
+      expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([
+        { start: 10, count: 20 },
+        { start: 30, count: 10 },
+      ]);
+      expect(result.hits).toHaveLength(30);
+      expect(result.pagination).toEqual({ start: 10, returned: 30, total: 100, pages: 2, truncated: true });
+    });
+
+    it('should never aggregate more than MAX_PAGINATED_RESULTS', async () => {
+      const fetchPage = createSearchPages(MAX_PAGINATED_RESULTS * 2);
+
+      const options = { maxResults: MAX_PAGINATED_RESULTS * 2 };
+      const result = await fetchAllPages(fetchPage, { start: 0, count: 200 }, options);
+
+      expect(result.hits).toHaveLength(MAX_PAGINATED_RESULTS);
+      expect(result.pagination.truncated).toBe(true);
+    });
+
+    it('should limit the number of concurrent page requests', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const searchPages = createSearchPages(100);
+      const fetchPage = async (page: PageRequest) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        return searchPages(page);
+      };
+
+      const result = await fetchAllPages(fetchPage, { start: 0, count: 10 }, { all: true, concurrency: 3 });
+
+      expect(result.hits).toEqual(Array.from({ length: 100 }, (_, index) => index));
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should follow next links when no total is returned', async () => {
+      const pages: Record<number, any> = {
+        0: { data: ['a', 'b'], next: '/sites/RefArch/catalogs?start=2&count=2' },
+        2: { data: ['c', 'd'], next: { start: 4, count: 2 } },
+        4: { data: ['e'] },
+      };
+      const fetchPage = jest.fn(async ({ start }: PageRequest) => pages[start]);
+
+      const result = await fetchAllPages(fetchPage, { start: 0, count: 2 }, { all: true });
+
+      expect(fetchPage.mock.calls.map(([page]) => page.start)).toEqual([0, 2, 4]);
+      expect(result.data).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(result.pagination).toEqual({ start: 0, returned: 5, total: undefined, pages: 3, truncated: false });
+    });
+
+    it('should use offset and limit for SCAPI responses', async () => {
+      const fetchPage = jest.fn(async ({ start, count }: PageRequest) => ({
+        data: Array.from({ length: Math.min(count, 5 - start) }, (_, index) => start + index),
+        limit: count,
+        offset: start,
+        total: 5,
+      }));
+
+      const result = await fetchAllPages(fetchPage, { start: 0, count: 2 }, { all: true }, { start: 'offset', count: 'limit' });
+
+      expect(result.data).toEqual([0, 1, 2, 3, 4]);
+      expect(result.limit).toBe(5);
+      expect(result.count).toBeUndefined();
+    });
+
+    it('should propagate page errors', async () => {
+      const fetchPage = jest.fn()
+        .mockResolvedValueOnce({ hits: [1], total: 3 })
+        .mockRejectedValueOnce(new Error('Access denied'));
+
+      await expect(fetchAllPages(fetchPage, { start: 0, count: 1 }, { all: true })).rejects.toThrow('Access denied');
+    });
+  });
+
+  describe('getPageParamNames', () => {
+    const param = (name: string) => ({ name, description: name, type: 'number' as const, required: false });
+
+    it('should detect OCAPI and SCAPI paging parameters', () => {
+      expect(getPageParamNames({ parameters: [param('start'), param('count')] })).toEqual({ start: 'start', count: 'count' });
+      expect(getPageParamNames({ parameters: [param('offset'), param('limit')] }))
+        .toEqual({ start: 'offset', count: 'limit' });
+    });
+
+    it('should return undefined for endpoints without paging parameters', () => {
+      expect(getPageParamNames({ parameters: [param('count')] })).toBeUndefined();
+    });
+  });
+
+  describe('getPaginationOptions', () => {
+    it('should return options only when pagination is requested', () => {
+      expect(getPaginationOptions({ count: 10 })).toBeUndefined();
+      expect(getPaginationOptions({ all: false })).toBeUndefined();
+      expect(getPaginationOptions({ all: true })).toEqual({ all: true });
+      expect(getPaginationOptions({ maxResults: 500 })).toEqual({ all: false, maxResults: 500 });
+    });
+
+    it('should reject invalid maxResults values', () => {
+      expect(() => getPaginationOptions({ maxResults: 0 })).toThrow(ValidationError);
+      expect(() => getPaginationOptions({ maxResults: 1.5 })).toThrow('maxResults must be a positive integer');
+    });
+  });
+});
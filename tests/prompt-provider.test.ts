@@ -0,0 +1,140 @@
+/**
+ * Tests for PromptProvider
+ * Tests prompt listing, argument validation and embedded resource rendering
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PromptProvider } from '../src/core/prompt-provider.js';
+import { DocumentationResourceProvider } from '../src/core/resource-provider.js';
+
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    })),
+  },
+}));
+
+jest.mock('../src/utils/utils.js', () => ({
+  getCurrentDate: jest.fn(() => '20250115'),
+}));
+
+describe('PromptProvider', () => {
+  let mockResourceProvider: { readResource: jest.Mock };
+  let provider: PromptProvider;
+
+  const createProvider = (canAccessLogs: boolean): PromptProvider =>
+    new PromptProvider(mockResourceProvider as unknown as DocumentationResourceProvider, { canAccessLogs });
+
+  beforeEach(() => {
+    mockResourceProvider = {
+      readResource: jest.fn(async (uri: string) => ({
+        contents: [{ uri, mimeType: 'text/markdown', text: `content of ${uri}` }],
+      })),
+    };
+    provider = createProvider(true);
+  });
+
+  const expectInvalidParams = async (promise: Promise<unknown>, message: string): Promise<void> => {
+    await expect(promise).rejects.toBeInstanceOf(McpError);
+    await expect(promise).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(promise).rejects.toThrow(message);
+  };
+
+  describe('listPrompts', () => {
+    it('should list all prompts when logs are available', () => {
+      expect(provider.listPrompts().map(prompt => prompt.name)).toEqual([
+        'triage_errors',
+        'scaffold_sfra_controller',
+        'write_ocapi_hook',
+        'debug_job',
+      ]);
+    });
+
+    it('should hide log-based prompts without log access', () => {
+      expect(createProvider(false).listPrompts().map(prompt => prompt.name)).toEqual([
+        'scaffold_sfra_controller',
+        'write_ocapi_hook',
+      ]);
+    });
+
+    it('should describe arguments with their required flag', () => {
+      const scaffold = provider.listPrompts().find(prompt => prompt.name === 'scaffold_sfra_controller')!;
+
+      expect(scaffold.arguments).toContainEqual(expect.objectContaining({ name: 'controllerName', required: true }));
+      expect(scaffold.arguments).toContainEqual(expect.objectContaining({ name: 'routes', required: false }));
+    });
+  });
+
+  describe('getPrompt', () => {
+    it('should render instructions followed by embedded resources', async () => {
+      const result = await provider.getPrompt('scaffold_sfra_controller', {
+        controllerName: 'Wishlist',
+        routes: 'Show, Add',
+      });
+
+      expect(result.messages).toHaveLength(3);
+      expect(result.messages[0].content).toMatchObject({ type: 'text' });
+      const { text } = result.messages[0].content as { text: string };
+      expect(text).toContain('app_custom/cartridge/controllers/Wishlist.js');
+      expect(text).toContain('`Show`, `Add`');
+      expect(result.messages.slice(1).map(message => message.content)).toEqual([
+        {
+          type: 'resource',
+          resource: {
+            uri: 'best-practice://sfra_controllers',
+            mimeType: 'text/markdown',
+            text: 'content of best-practice://sfra_controllers',
+          },
+        },
+        {
+          type: 'resource',
+          resource: { uri: 'sfra://class/server', mimeType: 'text/markdown', text: 'content of sfra://class/server' },
+        },
+      ]);
+    });
+
+    it('should apply defaults including the current date', async () => {
+      const result = await provider.getPrompt('triage_errors');
+      const { text } = result.messages[0].content as { text: string };
+
+      expect(text).toContain('summarize_logs` with date "20250115"');
+      expect(text).toContain('limit 20');
+    });
+
+    it('should embed the hook guide matching the api type', async () => {
+      await provider.getPrompt('write_ocapi_hook', { requirement: 'validate basket', apiType: 'scapi' });
+
+      expect(mockResourceProvider.readResource).toHaveBeenCalledWith('best-practice://scapi_hooks');
+    });
+
+    it('should reject missing required arguments', async () => {
+      await expectInvalidParams(
+        provider.getPrompt('debug_job', {}),
+        'Missing required argument "jobName" for prompt debug_job',
+      );
+    });
+
+    it('should reject values outside the allowed enum', async () => {
+      await expectInvalidParams(
+        provider.getPrompt('write_ocapi_hook', { requirement: 'x', apiType: 'graphql' }),
+        'must be one of: ocapi, scapi',
+      );
+    });
+
+    it('should reject values that do not match the pattern', async () => {
+      await expectInvalidParams(
+        provider.getPrompt('triage_errors', { date: '2025-01-15' }),
+        'Invalid value for argument "date"',
+      );
+    });
+
+    it('should reject unknown prompts and prompts without the required capability', async () => {
+      await expectInvalidParams(provider.getPrompt('unknown'), 'Unknown prompt: unknown');
+      await expectInvalidParams(createProvider(false).getPrompt('debug_job', { jobName: 'a' }), 'Unknown prompt');
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for the client-side rate limiter
+ * Tests token bucket refill, pausing and per-host sharing
+ */
+
+import { getHostRateLimiter, resetHostRateLimiters, TokenBucket } from '../src/utils/rate-limiter.js';
+
+describe('rate limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetHostRateLimiters();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** Track whether a promise has settled without awaiting it */
+  const track = (promise: Promise<void>) => {
+    const state = { done: false };
+    promise.then(() => { state.done = true; });
+    return state;
+  };
+
+  describe('TokenBucket', () => {
+    it('should allow a burst of requests and then wait for refills', async () => {
+      const bucket = new TokenBucket(2);
+      await bucket.acquire();
+      await bucket.acquire();
+
+      const third = track(bucket.acquire());
+      await jest.advanceTimersByTimeAsync(400);
+      expect(third.done).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(third.done).toBe(true);
+    });
+
+    it('should hold requests while paused', async () => {
+      const bucket = new TokenBucket(10);
+      bucket.pauseUntil(Date.now() + 2000);
+
+      const request = track(bucket.acquire());
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(request.done).toBe(false);
+
+      await jest.advanceTimersByTimeAsync(1);
+      expect(request.done).toBe(true);
+    });
+  });
+
+  describe('getHostRateLimiter', () => {
+    it('should share one bucket per host', () => {
+      const bucket = getHostRateLimiter('zzxy-001.dx.commercecloud.salesforce.com', 10);
+
+      expect(getHostRateLimiter('zzxy-001.dx.commercecloud.salesforce.com', 5)).toBe(bucket);
+      expect(getHostRateLimiter('kv7kzm78.api.commercecloud.salesforce.com', 10)).not.toBe(bucket);
+    });
+  });
+});
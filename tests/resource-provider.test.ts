@@ -0,0 +1,159 @@
+/**
+ * Tests for DocumentationResourceProvider
+ * Tests resource listing and URI resolution against mocked documentation clients
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  DocumentationResourceProvider,
+  DOCUMENTATION_RESOURCE_TEMPLATES,
+} from '../src/core/resource-provider.js';
+
+const mockDocsClient = {
+  getAvailableClasses: jest.fn(),
+  getClassDocumentation: jest.fn(),
+};
+
+const mockSFRAClient = {
+  getAvailableDocuments: jest.fn(),
+  getSFRADocument: jest.fn(),
+};
+
+const mockBestPracticesClient = {
+  getAvailableGuides: jest.fn(),
+  getBestPracticeGuide: jest.fn(),
+};
+
+jest.mock('../src/clients/docs-client.js', () => ({
+  SFCCDocumentationClient: jest.fn(() => mockDocsClient),
+}));
+
+jest.mock('../src/clients/sfra-client.js', () => ({
+  SFRAClient: jest.fn(() => mockSFRAClient),
+}));
+
+jest.mock('../src/clients/best-practices-client.js', () => ({
+  SFCCBestPracticesClient: jest.fn(() => mockBestPracticesClient),
+}));
+
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    })),
+  },
+}));
+
+describe('DocumentationResourceProvider', () => {
+  let provider: DocumentationResourceProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new DocumentationResourceProvider();
+  });
+
+  const expectInvalidParams = async (uri: string, message: string): Promise<void> => {
+    const promise = provider.readResource(uri);
+    await expect(promise).rejects.toBeInstanceOf(McpError);
+    await expect(promise).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(promise).rejects.toThrow(message);
+  };
+
+  describe('listResources', () => {
+    it('should list guides, SFRA documents and classes with their URIs', async () => {
+      mockDocsClient.getAvailableClasses.mockResolvedValue(['dw.catalog.Product']);
+      mockSFRAClient.getAvailableDocuments.mockResolvedValue([
+        { name: 'cart', title: 'Cart Model', description: 'Cart model docs', type: 'model' },
+      ]);
+      mockBestPracticesClient.getAvailableGuides.mockResolvedValue([
+        { name: 'security', title: 'Security', description: 'Security guide' },
+      ]);
+
+      const resources = await provider.listResources();
+
+      expect(resources.map(resource => resource.uri)).toEqual([
+        'best-practice://security',
+        'sfra://model/cart',
+        'sfcc://class/dw.catalog.Product',
+      ]);
+      expect(resources.every(resource => resource.mimeType === 'text/markdown')).toBe(true);
+      expect(resources[1]).toMatchObject({ name: 'cart', title: 'Cart Model' });
+    });
+  });
+
+  describe('listResourceTemplates', () => {
+    it('should return the documentation URI templates', () => {
+      expect(provider.listResourceTemplates()).toBe(DOCUMENTATION_RESOURCE_TEMPLATES);
+      expect(DOCUMENTATION_RESOURCE_TEMPLATES.map(template => template.uriTemplate)).toEqual([
+        'sfcc://class/{className}',
+        'sfra://{type}/{name}',
+        'best-practice://{guideName}',
+      ]);
+    });
+  });
+
+  describe('readResource', () => {
+    it('should read SFCC class documentation', async () => {
+      mockDocsClient.getClassDocumentation.mockResolvedValue('# Class Product');
+
+      const result = await provider.readResource('sfcc://class/dw.catalog.Product');
+
+      expect(mockDocsClient.getClassDocumentation).toHaveBeenCalledWith('dw.catalog.Product');
+      expect(result.contents).toEqual([
+        { uri: 'sfcc://class/dw.catalog.Product', mimeType: 'text/markdown', text: '# Class Product' },
+      ]);
+    });
+
+    it('should read SFRA documents when the type matches', async () => {
+      mockSFRAClient.getSFRADocument.mockResolvedValue({ type: 'model', content: '# Cart' });
+
+      const result = await provider.readResource('sfra://model/cart');
+
+      expect(mockSFRAClient.getSFRADocument).toHaveBeenCalledWith('cart');
+      expect(result.contents[0].text).toBe('# Cart');
+    });
+
+    it('should treat SFRA documents with a different type as not found', async () => {
+      mockSFRAClient.getSFRADocument.mockResolvedValue({ type: 'model', content: '# Cart' });
+
+      await expectInvalidParams('sfra://class/cart', 'Resource not found: sfra://class/cart');
+    });
+
+    it('should read best practice guides', async () => {
+      mockBestPracticesClient.getBestPracticeGuide.mockResolvedValue({ content: '# Security' });
+
+      const result = await provider.readResource('best-practice://security');
+
+      expect(mockBestPracticesClient.getBestPracticeGuide).toHaveBeenCalledWith('security');
+      expect(result.contents[0].text).toBe('# Security');
+    });
+
+    it('should decode percent-encoded segments', async () => {
+      mockDocsClient.getClassDocumentation.mockResolvedValue('# Class');
+
+      await provider.readResource('sfcc://class/dw%2Ecatalog%2EProduct');
+
+      expect(mockDocsClient.getClassDocumentation).toHaveBeenCalledWith('dw.catalog.Product');
+    });
+
+    it('should reject missing documents', async () => {
+      mockDocsClient.getClassDocumentation.mockResolvedValue(null);
+
+      await expectInvalidParams('sfcc://class/dw.Nope', 'Resource not found');
+    });
+
+    it('should reject malformed URIs', async () => {
+      await expectInvalidParams('not-a-uri', 'Invalid resource URI');
+      await expectInvalidParams('sfcc://method/foo', 'Invalid SFCC class resource URI');
+      await expectInvalidParams('sfra://cart', 'Invalid SFRA resource URI');
+      await expectInvalidParams('best-practice://a/b', 'Invalid best practice resource URI');
+    });
+
+    it('should reject unsupported schemes', async () => {
+      await expectInvalidParams('file:///etc/passwd', 'Unsupported resource scheme: file');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for SCAPIAuthClient
+ * Tests scoped Account Manager authentication and URL building for SCAPI
+ */
+
+import { SCAPIAuthClient } from '../src/clients/base/scapi-auth-client.js';
+import { TokenManager } from '../src/clients/base/oauth-token.js';
+import { SCAPIConfig, OAuthTokenResponse } from '../src/types/types.js';
+import { buildSCAPIBaseUrl, getSCAPITenantId } from '../src/utils/scapi-url-builder.js';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+// Mock Logger
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      log: jest.fn(),
+      info: jest.fn(),
+    })),
+  },
+}));
+
+describe('SCAPI URL building', () => {
+  const config: SCAPIConfig = {
+    hostname: 'zzxy-001.dx.commercecloud.salesforce.com',
+    clientId: 'client',
+    clientSecret: 'secret',
+    shortCode: 'kv7kzm78',
+    organizationId: 'f_ecom_zzxy_001',
+  };
+
+  it('should build the short code host for live instances', () => {
+    expect(buildSCAPIBaseUrl(config)).toBe('https://kv7kzm78.api.commercecloud.salesforce.com');
+  });
+
+  it('should use the mock server for localhost', () => {
+    expect(buildSCAPIBaseUrl({ ...config, hostname: 'localhost:3000', shortCode: undefined }))
+      .toBe('http://localhost:3000');
+  });
+
+  it('should require a short code for live instances', () => {
+    expect(() => buildSCAPIBaseUrl({ ...config, shortCode: undefined })).toThrow('require a short code');
+  });
+
+  it('should derive the tenant ID from the organization ID', () => {
+    expect(getSCAPITenantId('f_ecom_zzxy_001')).toBe('zzxy_001');
+    expect(getSCAPITenantId('zzxy_001')).toBe('zzxy_001');
+  });
+});
+
+describe('SCAPIAuthClient', () => {
+  let client: SCAPIAuthClient;
+  let mockFetch: jest.MockedFunction<typeof fetch>;
+  const tokenManager = TokenManager.getInstance();
+
+  const config: SCAPIConfig = {
+    hostname: 'zzxy-001.dx.commercecloud.salesforce.com',
+    clientId: 'test-client-id',
+    clientSecret: 'test-client-secret',
+    shortCode: 'kv7kzm78',
+    organizationId: 'f_ecom_zzxy_001',
+  };
+
+  const tokenResponse: OAuthTokenResponse = {
+    access_token: 'scoped-token',
+    token_type: 'bearer',
+    expires_in: 1800,
+  };
+
+  const jsonResponse = (body: unknown): Response => ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as Response);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokenManager.clearAllTokens();
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+    client = new SCAPIAuthClient(config, ['sfcc.products', 'sfcc.orders']);
+  });
+
+  afterEach(() => {
+    tokenManager.clearAllTokens();
+  });
+
+  it('should request the tenant scope and sorted API scopes', () => {
+    expect(client.getScope()).toBe('SALESFORCE_COMMERCE_API:zzxy_001 sfcc.orders sfcc.products');
+  });
+
+  it('should require an organization ID', () => {
+    expect(() => new SCAPIAuthClient({ ...config, organizationId: undefined }, ['sfcc.products']))
+      .toThrow('require an organization ID');
+  });
+
+  it('should obtain a scoped token and call the SCAPI host', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(tokenResponse))
+      .mockResolvedValueOnce(jsonResponse({ id: 'PROD-1' }));
+
+    const result = await client.request('GET', '/product/products/v1/organizations/f_ecom_zzxy_001/products/PROD-1');
+
+    expect(result).toEqual({ id: 'PROD-1' });
+    const [authUrl, authOptions] = mockFetch.mock.calls[0];
+    expect(authUrl).toBe('https://account.demandware.com/dwsso/oauth2/access_token');
+    expect(new URLSearchParams(authOptions!.body as string).get('scope'))
+      .toBe('SALESFORCE_COMMERCE_API:zzxy_001 sfcc.orders sfcc.products');
+    expect(new URLSearchParams(authOptions!.body as string).get('grant_type')).toBe('client_credentials');
+
+    const [url, options] = mockFetch.mock.calls[1];
+    expect(url).toBe('https://kv7kzm78.api.commercecloud.salesforce.com/product/products/v1/organizations/f_ecom_zzxy_001/products/PROD-1');
+    expect((options!.headers as Record<string, string>).Authorization).toBe('Bearer scoped-token');
+  });
+
+  it('should cache tokens separately from unscoped OCAPI tokens', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(tokenResponse))
+      .mockResolvedValue(jsonResponse({}));
+
+    await client.request('GET', '/a');
+    await client.request('GET', '/b');
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(tokenManager.getValidToken(config.hostname, config.clientId, client.getScope())).toBe('scoped-token');
+    expect(tokenManager.getValidToken(config.hostname, config.clientId)).toBeNull();
+  });
+
+  it('should surface Account Manager errors', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      text: async () => 'invalid_scope',
+    } as Response);
+
+    await expect(client.request('GET', '/a')).rejects.toThrow(
+      'Failed to get SCAPI access token: Error: OAuth authentication failed: 400 Bad Request - invalid_scope',
+    );
+  });
+
+  it('should reject unsupported methods', async () => {
+    await expect(client.request('TRACE', '/a')).rejects.toThrow('Unsupported HTTP method: TRACE');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests for secret providers
+ * Tests reference detection, the built-in providers and that secrets never appear in errors
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getSecretProviderSchemes,
+  isSecretReference,
+  registerSecretProvider,
+  resolveSecret,
+  SecretResolutionError,
+} from '../src/config/secret-providers.js';
+
+const isWindows = process.platform === 'win32';
+
+describe('secret providers', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'secret-providers-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.SFCC_TEST_SECRET;
+  });
+
+  describe('isSecretReference', () => {
+    it('should only treat registered schemes as references', () => {
+      expect(getSecretProviderSchemes()).toEqual(expect.arrayContaining(['env', 'file', 'cmd', 'keychain']));
+      expect(isSecretReference('env:SFCC_TEST_SECRET')).toBe(true);
+      expect(isSecretReference('plain-password')).toBe(false);
+      expect(isSecretReference('pass:word')).toBe(false);
+      expect(isSecretReference(':env')).toBe(false);
+    });
+  });
+
+  describe('resolveSecret', () => {
+    it('should return plaintext values unchanged', () => {
+      expect(resolveSecret('plain-password', 'password')).toBe('plain-password');
+    });
+
+    it('should resolve environment variables', () => {
+      process.env.SFCC_TEST_SECRET = 's3cr3t';
+
+      expect(resolveSecret('env:SFCC_TEST_SECRET', 'client-secret')).toBe('s3cr3t');
+    });
+
+    it('should report unset environment variables', () => {
+      expect(() => resolveSecret('env:SFCC_TEST_SECRET', 'client-secret')).toThrow(
+        'Failed to resolve "client-secret" from env provider: environment variable SFCC_TEST_SECRET is not set',
+      );
+    });
+
+    it('should read files without the trailing newline', () => {
+      const path = join(dir, 'secret');
+      writeFileSync(path, 's3cr3t\n');
+
+      expect(resolveSecret(`file:${path}`, 'password')).toBe('s3cr3t');
+      expect(() => resolveSecret(`file:${join(dir, 'missing')}`, 'password')).toThrow(SecretResolutionError);
+    });
+
+    (isWindows ? it.skip : it)('should use the first line of command output', () => {
+      expect(resolveSecret('cmd:printf "s3cr3t\\nurl: example.com\\n"', 'password')).toBe('s3cr3t');
+    });
+
+    (isWindows ? it.skip : it)('should not include command output in errors', () => {
+      let message = '';
+      try {
+        resolveSecret('cmd:echo s3cr3t; echo "not in store" >&2; exit 3', 'password');
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toBe('Failed to resolve "password" from cmd provider: command exited with status 3 (not in store)');
+      expect(message).not.toContain('s3cr3t');
+    });
+
+    it('should reject empty secrets', () => {
+      process.env.SFCC_TEST_SECRET = '';
+      const path = join(dir, 'empty');
+      writeFileSync(path, '\n');
+
+      expect(() => resolveSecret('env:SFCC_TEST_SECRET', 'password')).toThrow(SecretResolutionError);
+      expect(() => resolveSecret(`file:${path}`, 'password')).toThrow('the secret is empty');
+    });
+  });
+
+  describe('registerSecretProvider', () => {
+    it('should resolve references with custom providers', () => {
+      const resolve = jest.fn(() => 'vault-secret');
+      registerSecretProvider({ scheme: 'vault', resolve });
+
+      expect(isSecretReference('vault:sfcc/dev#client-secret')).toBe(true);
+      expect(resolveSecret('vault:sfcc/dev#client-secret', 'client-secret')).toBe('vault-secret');
+      expect(resolve).toHaveBeenCalledWith('sfcc/dev#client-secret');
+    });
+
+    it('should reject invalid schemes', () => {
+      expect(() => registerSecretProvider({ scheme: 'Bad Scheme', resolve: () => '' })).toThrow('Invalid secret provider scheme');
+    });
+  });
+});
@@ -195,6 +195,55 @@ class MockLogGenerator {
         });
     }
 
+    generateCategoryLogs() {
+        // Other log families (quota, API deprecation, service, security, sql) written by the platform
+        const baseTime = new Date();
+        const timestamps = [1000, 2000, 3000, 4000].map(offset =>
+            this.formatLogTimestamp(new Date(baseTime.getTime() + offset))
+        );
+        const thread = 'PipelineCallServlet|1645761595|Sites-RefArchGlobal-Site';
+
+        const categoryEntries = {
+            quota: [
+                `[${timestamps[0]} GMT] WARN ${thread}|Search-Show|PipelineCall|nYJXtqnEfz quota [] Quota api.dw.util.Collection@SF (enforced, limit 20000): warn threshold exceeded 1 time(s), max actual was 18500, current location: request/site Sites-RefArchGlobal-Site/top pipeline Search-Show`,
+                `[${timestamps[1]} GMT] ERROR ${thread}|Search-Show|PipelineCall|V5YDtxRLpL quota [] Quota api.dw.util.Collection@SF (enforced, limit 20000): limit exceeded 1 time(s), max actual was 24310, current location: request/site Sites-RefArchGlobal-Site/top pipeline Search-Show`,
+                `[${timestamps[2]} GMT] WARN ${thread}|Cart-Show|PipelineCall|Qq38CuNXpX quota [] Quota api.jsStringLength@SF (internal, limit 1000000): warn threshold exceeded 2 time(s), max actual was 650000, current location: request/site Sites-RefArchGlobal-Site/top pipeline Cart-Show`
+            ],
+            'api-deprecation': [
+                `[${timestamps[0]} GMT] WARN ${thread}|Product-Show|PipelineCall|nYJXtqnEfz api-deprecation [] Deprecated API dw.catalog.Product.getAvailabilityModel(ProductInventoryList) called by app_storefront_base/cartridge/scripts/helpers/productHelpers.js:120`,
+                `[${timestamps[1]} GMT] WARN ${thread}|Product-Show|PipelineCall|V5YDtxRLpL api-deprecation [] Deprecated API dw.catalog.Product.getAvailabilityModel(ProductInventoryList) called by app_storefront_base/cartridge/scripts/helpers/productHelpers.js:120`,
+                `[${timestamps[2]} GMT] WARN ${thread}|Cart-Show|PipelineCall|Qq38CuNXpX api-deprecation [] Deprecated API dw.order.LineItemCtnr.getAllProductQuantities() called by int_custom/cartridge/scripts/cart/cartHelpers.js:45`
+            ],
+            service: [
+                `[${timestamps[0]} GMT] INFO ${thread}|CheckoutServices-PlaceOrder|PipelineCall|nYJXtqnEfz service.payment.adyen.authorize.COMM [] Request: POST https://checkout-test.adyen.com/v71/payments`,
+                `[${timestamps[1]} GMT] ERROR ${thread}|CheckoutServices-PlaceOrder|PipelineCall|nYJXtqnEfz service.payment.adyen.authorize.HEAD [] Call failed: SocketTimeoutException: Read timed out after 10000ms`,
+                `[${timestamps[2]} GMT] INFO ${thread}|CheckoutServices-PlaceOrder|PipelineCall|V5YDtxRLpL service.tax.avalara.calculate.HEAD [] Call succeeded in 312ms`
+            ],
+            security: [
+                `[${timestamps[3]} GMT] WARN ${thread}|Account-Login|PipelineCall|Qq38CuNXpX security [] Customer login failed for login 'jane.doe@example.com': invalid credentials`
+            ],
+            sql: [
+                `[${timestamps[3]} GMT] WARN SystemJobThread|1581553813|sfcc-catalog-import|ImportCatalogStep sql [] Slow query (2350 ms): SELECT * FROM product WHERE site_id = ?`
+            ]
+        };
+
+        for (const [category, entries] of Object.entries(categoryEntries)) {
+            const file = path.join(this.logsDir, `${category}-blade-${this.dateString}-${this.timeString}.log`);
+            fs.writeFileSync(file, entries.join('\n') + '\n');
+            console.log(`📄 Created ${category} log: ${file}`);
+        }
+
+        // Custom log written by Logger.getLogger('payments', 'checkout.payment') with its own file prefix
+        const customEntries = [
+            `[${timestamps[0]} GMT] WARN ${thread}|CheckoutServices-PlaceOrder|PipelineCall|nYJXtqnEfz custom.checkout.payment [] Authorization retry 1/3 in int_adyen/cartridge/scripts/hooks/payment/authorize.js:88`,
+            `[${timestamps[1]} GMT] ERROR ${thread}|CheckoutServices-PlaceOrder|PipelineCall|nYJXtqnEfz custom.checkout.payment [] Authorization failed after 3 retries`,
+            '\tat int_adyen/cartridge/scripts/hooks/payment/authorize.js:102'
+        ];
+        const customFile = path.join(this.logsDir, `custom-payments-blade-appserver-${this.dateString}.log`);
+        fs.writeFileSync(customFile, customEntries.join('\n') + '\n');
+        console.log(`📄 Created custom log: ${customFile}`);
+    }
+
     run() {
         console.log('🚀 Starting mock log generation...');
         
@@ -208,6 +257,7 @@ class MockLogGenerator {
         this.generateWarnLogs();
         this.generateInfoLogs();
         this.generateDebugLogs();
+        this.generateCategoryLogs();
         this.generateJobLogs();
 
         console.log('✅ Mock log generation completed!');
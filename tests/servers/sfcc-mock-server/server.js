@@ -15,6 +15,7 @@
  *   --dev                  Enable development mode with verbose logging
  *   --no-webdav            Disable WebDAV functionality
  *   --no-ocapi             Disable OCAPI functionality
+ *   --no-scapi             Disable SCAPI (SLAS and Shopper API) functionality
  *   --no-cors              Disable CORS headers
  *   --mock-data <path>     Custom path to mock data directory
  *   --help                 Show this help message
@@ -121,6 +122,20 @@ class SFCCMockServer {
             console.log(`   Client Secret: ${this.config.validCredentials.clientSecret}`);
         }
 
+        if (this.config.features.scapi) {
+            const slas = this.config.slasCredentials;
+            console.log('');
+            console.log('🛒 SCAPI Shopper Endpoints:');
+            console.log(`   SLAS: ${this.config.getServerUrl()}/shopper/auth/v1/organizations/{organizationId}/oauth2/token`);
+            console.log(`   Products: ${this.config.getServerUrl()}/product/shopper-products/v1/organizations/{organizationId}/products/{id}`);
+            console.log(`   Baskets: ${this.config.getServerUrl()}/checkout/shopper-baskets/v1/organizations/{organizationId}/baskets`);
+            console.log('');
+            console.log('🔑 SLAS Test Credentials:');
+            console.log(`   SLAS Client ID: ${slas.clientId}`);
+            console.log(`   SLAS Client Secret: ${slas.clientSecret}`);
+            console.log(`   Shopper Login: ${slas.shopperLogin} / ${slas.shopperPassword}`);
+        }
+
         if (this.config.isDevMode) {
             console.log('');
             console.log('🔧 Development mode enabled - verbose logging active');
@@ -163,6 +178,9 @@ function parseArgs() {
             case '--no-ocapi':
                 options.enableOcapi = false;
                 break;
+            case '--no-scapi':
+                options.enableScapi = false;
+                break;
             case '--no-cors':
                 options.enableCors = false;
                 break;
@@ -227,6 +245,7 @@ function printHelp() {
     console.log('  --dev                  Enable development mode with verbose logging');
     console.log('  --no-webdav            Disable WebDAV functionality');
     console.log('  --no-ocapi             Disable OCAPI functionality');
+    console.log('  --no-scapi             Disable SCAPI (SLAS and Shopper API) functionality');
     console.log('  --no-cors              Disable CORS headers');
     console.log('  --enable-random-errors Enable random 500 errors (1% chance) for error handling testing');
     console.log('  --mock-data <path>     Custom path to mock data directory');
@@ -11,6 +11,7 @@ const { createRequestLogger, createResponseLogger, createErrorLogger } = require
 const AuthenticationManager = require('./middleware/auth');
 const WebDAVRouteHandler = require('./routes/webdav');
 const OCAPIRouteHandler = require('./routes/ocapi');
+const SCAPIRouteHandler = require('./routes/scapi');
 
 class SFCCMockApp {
     constructor(config) {
@@ -85,6 +86,17 @@ class SFCCMockApp {
             }
         }
 
+        // SCAPI routes (if enabled) - registered before OCAPI because the OCAPI
+        // authentication middleware is mounted at the root path
+        if (this.config.features.scapi) {
+            const scapiHandler = new SCAPIRouteHandler(this.config);
+            this.app.use(scapiHandler.getRouter());
+
+            if (this.config.isDevMode) {
+                console.log('✅ SCAPI routes enabled');
+            }
+        }
+
         // OCAPI routes (if enabled)
         if (this.config.features.ocapi) {
             const ocapiHandler = new OCAPIRouteHandler(this.config, this.authManager);
@@ -152,6 +164,14 @@ class SFCCMockApp {
             };
         }
 
+        if (this.config.features.scapi) {
+            endpoints.scapi = {
+                slas: `${baseUrl}/shopper/auth/v1/organizations/{organizationId}/oauth2/token`,
+                shopperProducts: `${baseUrl}/product/shopper-products/v1/organizations/{organizationId}/products/{id}`,
+                shopperBaskets: `${baseUrl}/checkout/shopper-baskets/v1/organizations/{organizationId}/baskets`
+            };
+        }
+
         return endpoints;
     }
 
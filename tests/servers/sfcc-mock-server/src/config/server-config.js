@@ -26,11 +26,20 @@ class ServerConfig {
             username: 'test-user',
             password: 'test-password'
         };
+
+        // SLAS - Mock shopper login client and registered shopper for Shopper API testing
+        this.slasCredentials = {
+            clientId: 'test-slas-client-id',
+            clientSecret: 'test-slas-client-secret',
+            shopperLogin: 'shopper@example.com',
+            shopperPassword: 'test-shopper-password'
+        };
         
         // Features toggle
         this.features = {
             webdav: options.enableWebdav !== false, // enabled by default
             ocapi: options.enableOcapi !== false,   // enabled by default
+            scapi: options.enableScapi !== false,   // enabled by default
             cors: options.enableCors !== false,     // enabled by default
             logging: options.enableLogging !== false, // enabled by default
             randomErrors: options.enableRandomErrors === true // disabled by default for reliable tests
@@ -60,6 +69,16 @@ class ServerConfig {
         };
     }
 
+    /**
+     * Get SCAPI configuration
+     */
+    getScapiConfig() {
+        return {
+            mockDataPath: require('path').join(this.mockDataPath, 'scapi'),
+            enabled: this.features.scapi
+        };
+    }
+
     /**
      * Get full server URL
      */
@@ -115,6 +134,7 @@ class ServerConfig {
             endpoints: {
                 ...(this.features.webdav && { webdav: this.getWebdavLogsUrl() }),
                 ...(this.features.ocapi && { ocapi: this.getOcapiBaseUrl() }),
+                ...(this.features.scapi && { scapi: this.getServerUrl() }),
                 health: `${this.getServerUrl()}/health`
             }
         };
@@ -0,0 +1,51 @@
+/**
+ * SCAPI Route Handler
+ *
+ * Lightweight orchestrator for the SCAPI (Salesforce Commerce API) mock endpoints:
+ * SLAS shopper authentication and the Shopper Products, Search and Baskets APIs.
+ */
+
+const express = require('express');
+const MockDataLoader = require('../utils/mock-data-loader');
+
+// Import modular handlers
+const SLASHandler = require('./scapi/slas-handler');
+const ShopperProductsHandler = require('./scapi/shopper-products-handler');
+const ShopperBasketsHandler = require('./scapi/shopper-baskets-handler');
+
+class SCAPIRouteHandler {
+    constructor(config) {
+        this.config = config;
+        this.dataLoader = new MockDataLoader(config.mockDataPath);
+        this.router = express.Router();
+        this.setupRoutes();
+    }
+
+    setupRoutes() {
+        // Initialize modular handlers
+        const slasHandler = new SLASHandler(this.config);
+        const productsHandler = new ShopperProductsHandler(this.config, this.dataLoader);
+        const basketsHandler = new ShopperBasketsHandler(this.config, productsHandler);
+
+        // SLAS routes (no authentication required)
+        this.router.use('/', slasHandler.getRouter());
+
+        // Shopper API routes require a SLAS shopper token; mounted per API family so the
+        // shopper authentication does not apply to other routes
+        const requireShopperAuth = slasHandler.requireShopperAuth();
+        this.router.use('/product/shopper-products', requireShopperAuth);
+        this.router.use('/search/shopper-search', requireShopperAuth);
+        this.router.use('/checkout/shopper-baskets', requireShopperAuth);
+        this.router.use('/', productsHandler.getRouter());
+        this.router.use('/', basketsHandler.getRouter());
+    }
+
+    /**
+     * Get the configured router
+     */
+    getRouter() {
+        return this.router;
+    }
+}
+
+module.exports = SCAPIRouteHandler;
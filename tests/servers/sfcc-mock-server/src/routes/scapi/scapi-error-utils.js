@@ -0,0 +1,54 @@
+/**
+ * SCAPI Error Utilities
+ *
+ * Utilities for generating error responses that match the SCAPI problem details
+ * format ({ type, title, detail }) and the SLAS OAuth error format.
+ */
+
+const ERROR_TYPE_BASE = 'https://api.commercecloud.salesforce.com/documentation/error/v1/errors';
+
+class SCAPIErrorUtils {
+    /**
+     * Send a SCAPI problem details error
+     */
+    static sendError(res, statusCode, type, title, detail) {
+        return res.status(statusCode).json({
+            type: `${ERROR_TYPE_BASE}/${type}`,
+            title: title,
+            detail: detail
+        });
+    }
+
+    /**
+     * Send a SLAS OAuth error (token, login and authorize endpoints)
+     */
+    static sendOAuthError(res, statusCode, error, description) {
+        return res.status(statusCode).json({
+            status_code: String(statusCode),
+            error: error,
+            message: description
+        });
+    }
+
+    /**
+     * Send 401 Unauthorized for missing or invalid shopper tokens
+     */
+    static sendUnauthorized(res, detail) {
+        return this.sendError(res, 401, 'unauthorized', 'Unauthorized', detail);
+    }
+
+    /**
+     * Send 400 Bad Request for missing required parameters
+     */
+    static sendMissingParameter(res, parameterName) {
+        return this.sendError(
+            res,
+            400,
+            'missing-parameter',
+            'Missing Parameter',
+            `The required parameter '${parameterName}' is missing.`
+        );
+    }
+}
+
+module.exports = SCAPIErrorUtils;
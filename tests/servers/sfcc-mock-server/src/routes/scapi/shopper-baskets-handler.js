@@ -0,0 +1,136 @@
+/**
+ * Shopper Baskets Handler
+ *
+ * Handles the SCAPI Shopper Baskets endpoints with in-memory baskets. Baskets belong to
+ * the shopper (customer ID of the SLAS token) that created them, so guest and registered
+ * shopper sessions cannot see each other's baskets.
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const SCAPIErrorUtils = require('./scapi-error-utils');
+
+const BASKETS_BASE_PATH = '/checkout/shopper-baskets/v1/organizations/:organizationId/baskets';
+
+class ShopperBasketsHandler {
+    constructor(config, productsHandler) {
+        this.config = config;
+        this.productsHandler = productsHandler;
+        this.baskets = new Map();
+        this.router = express.Router();
+        this.setupRoutes();
+    }
+
+    setupRoutes() {
+        this.router.post(BASKETS_BASE_PATH, this.handleCreateBasket.bind(this));
+        this.router.get(`${BASKETS_BASE_PATH}/:basketId`, this.handleGetBasket.bind(this));
+        this.router.post(`${BASKETS_BASE_PATH}/:basketId/items`, this.handleAddItems.bind(this));
+    }
+
+    /**
+     * Handle create basket
+     */
+    async handleCreateBasket(req, res) {
+        if (!req.query.siteId) {
+            return SCAPIErrorUtils.sendMissingParameter(res, 'siteId');
+        }
+
+        const basket = {
+            basketId: crypto.randomBytes(13).toString('hex'),
+            currency: (req.body && req.body.currency) || 'USD',
+            creationDate: new Date().toISOString(),
+            customerInfo: {
+                customerId: req.shopper.customerId
+            },
+            productItems: [],
+            productSubTotal: 0,
+            productTotal: 0,
+            orderTotal: 0
+        };
+        this.baskets.set(basket.basketId, basket);
+
+        res.status(200).json(basket);
+    }
+
+    /**
+     * Handle get basket
+     */
+    async handleGetBasket(req, res) {
+        const basket = this.findShopperBasket(req, res);
+        if (basket) {
+            res.json(basket);
+        }
+    }
+
+    /**
+     * Handle add items (the request body is an array of product items)
+     */
+    async handleAddItems(req, res) {
+        const basket = this.findShopperBasket(req, res);
+        if (!basket) {
+            return;
+        }
+
+        if (!Array.isArray(req.body) || req.body.length === 0) {
+            return SCAPIErrorUtils.sendError(res, 400, 'invalid-request-body', 'Invalid Request Body',
+                'The request body must be a non-empty array of product items.');
+        }
+
+        for (const item of req.body) {
+            const product = this.productsHandler.findProduct(item.productId);
+            if (!product) {
+                return SCAPIErrorUtils.sendError(res, 400, 'product-item-not-available', 'Product Item Not Available',
+                    `No product with ID '${item.productId}' could be found.`);
+            }
+            if (!product.inventory.orderable) {
+                return SCAPIErrorUtils.sendError(res, 400, 'product-item-not-available', 'Product Item Not Available',
+                    `The product '${item.productId}' is not available for order.`);
+            }
+
+            const quantity = item.quantity || 1;
+            basket.productItems.push({
+                itemId: crypto.randomBytes(13).toString('hex'),
+                productId: product.id,
+                productName: product.name,
+                quantity: quantity,
+                basePrice: product.price,
+                price: product.price * quantity
+            });
+        }
+
+        const total = basket.productItems.reduce((sum, item) => sum + item.price, 0);
+        basket.productSubTotal = total;
+        basket.productTotal = total;
+        basket.orderTotal = total;
+
+        res.json(basket);
+    }
+
+    /**
+     * Find a basket owned by the current shopper, sending a 404 otherwise
+     */
+    findShopperBasket(req, res) {
+        if (!req.query.siteId) {
+            SCAPIErrorUtils.sendMissingParameter(res, 'siteId');
+            return null;
+        }
+
+        const basket = this.baskets.get(req.params.basketId);
+        if (!basket || basket.customerInfo.customerId !== req.shopper.customerId) {
+            SCAPIErrorUtils.sendError(res, 404, 'basket-not-found', 'Basket Not Found',
+                `No basket with ID '${req.params.basketId}' could be found.`);
+            return null;
+        }
+
+        return basket;
+    }
+
+    /**
+     * Get the configured router
+     */
+    getRouter() {
+        return this.router;
+    }
+}
+
+module.exports = ShopperBasketsHandler;
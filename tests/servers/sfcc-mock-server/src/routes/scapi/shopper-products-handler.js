@@ -0,0 +1,105 @@
+/**
+ * Shopper Products Handler
+ *
+ * Handles the SCAPI Shopper Products and Shopper Search endpoints using the
+ * products from mock-data/scapi/shopper-products.json.
+ */
+
+const express = require('express');
+const SCAPIErrorUtils = require('./scapi-error-utils');
+
+class ShopperProductsHandler {
+    constructor(config, dataLoader) {
+        this.config = config;
+        this.dataLoader = dataLoader;
+        this.router = express.Router();
+        this.setupRoutes();
+    }
+
+    setupRoutes() {
+        this.router.get('/product/shopper-products/v1/organizations/:organizationId/products/:productId',
+            this.handleGetProduct.bind(this)
+        );
+
+        this.router.get('/search/shopper-search/v1/organizations/:organizationId/product-search',
+            this.handleProductSearch.bind(this)
+        );
+    }
+
+    /**
+     * Get the mock catalog (shared with the baskets handler for prices)
+     */
+    getProducts() {
+        const data = this.dataLoader.loadScapiData('shopper-products.json', { products: [] });
+        return data.products;
+    }
+
+    /**
+     * Find a product by ID
+     */
+    findProduct(productId) {
+        return this.getProducts().find(product => product.id === productId);
+    }
+
+    /**
+     * Handle get product
+     */
+    async handleGetProduct(req, res) {
+        if (!req.query.siteId) {
+            return SCAPIErrorUtils.sendMissingParameter(res, 'siteId');
+        }
+
+        const product = this.findProduct(req.params.productId);
+        if (!product) {
+            return SCAPIErrorUtils.sendError(
+                res,
+                404,
+                'product-not-found',
+                'Product Not Found',
+                `No product with ID '${req.params.productId}' could be found.`
+            );
+        }
+
+        res.json(product);
+    }
+
+    /**
+     * Handle product search (matches the search phrase against product ID and name)
+     */
+    async handleProductSearch(req, res) {
+        const { siteId, q } = req.query;
+        if (!siteId) {
+            return SCAPIErrorUtils.sendMissingParameter(res, 'siteId');
+        }
+
+        const limit = parseInt(req.query.limit) || 25;
+        const offset = parseInt(req.query.offset) || 0;
+        const phrase = (q || '').toLowerCase();
+        const matches = this.getProducts().filter(product =>
+            !phrase || product.id.toLowerCase().includes(phrase) || product.name.toLowerCase().includes(phrase)
+        );
+
+        res.json({
+            limit: limit,
+            offset: offset,
+            total: matches.length,
+            query: q || '',
+            hits: matches.slice(offset, offset + limit).map(product => ({
+                productId: product.id,
+                productName: product.name,
+                price: product.price,
+                currency: product.currency,
+                orderable: product.inventory.orderable
+            }))
+        });
+    }
+
+    /**
+     * Get the configured router
+     */
+    getRouter() {
+        return this.router;
+    }
+}
+
+module.exports = ShopperProductsHandler;
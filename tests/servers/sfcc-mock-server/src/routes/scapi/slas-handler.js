@@ -0,0 +1,233 @@
+/**
+ * SLAS Handler
+ *
+ * Simulates the Shopper Login and API Access Service (SLAS) for Shopper API testing:
+ * guest tokens via client credentials (private clients) or the guest PKCE authorization
+ * flow (public clients), registered shopper login with PKCE, and refresh tokens.
+ * Sessions are kept in memory and shopper tokens are validated by requireShopperAuth().
+ */
+
+const crypto = require('crypto');
+const express = require('express');
+const SCAPIErrorUtils = require('./scapi-error-utils');
+
+const SLAS_BASE_PATH = '/shopper/auth/v1/organizations/:organizationId/oauth2';
+const ACCESS_TOKEN_TTL_SECONDS = 1800;
+const REGISTERED_CUSTOMER_ID = 'abMockRegisteredCustomer';
+
+class SLASHandler {
+    constructor(config) {
+        this.config = config;
+        this.slasCredentials = config.slasCredentials;
+        this.authorizationCodes = new Map();
+        this.refreshTokens = new Map();
+        this.accessTokens = new Map();
+        this.router = express.Router();
+        this.setupRoutes();
+    }
+
+    setupRoutes() {
+        this.router.get(`${SLAS_BASE_PATH}/authorize`, this.handleAuthorize.bind(this));
+        this.router.post(`${SLAS_BASE_PATH}/login`, this.handleLogin.bind(this));
+        this.router.post(`${SLAS_BASE_PATH}/token`, this.handleToken.bind(this));
+    }
+
+    /**
+     * Handle guest authorization (public clients): redirect with an authorization code
+     */
+    handleAuthorize(req, res) {
+        const { client_id, redirect_uri, code_challenge, hint, channel_id } = req.query;
+
+        if (client_id !== this.slasCredentials.clientId) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_client', 'Unknown client_id');
+        }
+        if (hint !== 'guest') {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_request', 'Only hint=guest is supported by the mock server');
+        }
+        if (!redirect_uri || !code_challenge) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_request', 'redirect_uri and code_challenge are required');
+        }
+
+        const customerId = `abMockGuest${crypto.randomBytes(6).toString('hex')}`;
+        this.redirectWithCode(res, redirect_uri, { codeChallenge: code_challenge, customerId, siteId: channel_id, isGuest: true });
+    }
+
+    /**
+     * Handle registered shopper login: validate the shopper credentials and redirect with a code
+     */
+    handleLogin(req, res) {
+        const [login, password] = this.parseBasicAuth(req);
+        const { client_id, redirect_uri, code_challenge, channel_id } = req.body;
+
+        if (client_id !== this.slasCredentials.clientId) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_client', 'Unknown client_id');
+        }
+        if (login !== this.slasCredentials.shopperLogin || password !== this.slasCredentials.shopperPassword) {
+            return SCAPIErrorUtils.sendOAuthError(res, 401, 'unauthorized', 'Invalid shopper credentials');
+        }
+        if (!redirect_uri || !code_challenge) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_request', 'redirect_uri and code_challenge are required');
+        }
+
+        this.redirectWithCode(res, redirect_uri, {
+            codeChallenge: code_challenge,
+            customerId: REGISTERED_CUSTOMER_ID,
+            siteId: channel_id,
+            isGuest: false
+        });
+    }
+
+    /**
+     * Handle token requests for all supported grant types
+     */
+    handleToken(req, res) {
+        const { grant_type, channel_id } = req.body;
+        const clientAuth = this.parseBasicAuth(req);
+        const clientId = clientAuth[0] || req.body.client_id;
+
+        if (clientId !== this.slasCredentials.clientId) {
+            return SCAPIErrorUtils.sendOAuthError(res, 401, 'invalid_client', 'Unknown client_id');
+        }
+        if (clientAuth.length && clientAuth[1] !== this.slasCredentials.clientSecret) {
+            return SCAPIErrorUtils.sendOAuthError(res, 401, 'invalid_client', 'Client authentication failed');
+        }
+
+        switch (grant_type) {
+            case 'client_credentials':
+                if (!clientAuth.length) {
+                    return SCAPIErrorUtils.sendOAuthError(res, 401, 'invalid_client', 'client_credentials requires a private client');
+                }
+                return res.json(this.issueTokens({
+                    customerId: `abMockGuest${crypto.randomBytes(6).toString('hex')}`,
+                    usid: crypto.randomUUID(),
+                    siteId: channel_id,
+                    isGuest: true
+                }));
+            case 'authorization_code_pkce':
+                return this.handleAuthorizationCodeGrant(req, res);
+            case 'refresh_token':
+                return this.handleRefreshTokenGrant(req, res);
+            default:
+                return SCAPIErrorUtils.sendOAuthError(res, 400, 'unsupported_grant_type', `Unsupported grant_type: ${grant_type}`);
+        }
+    }
+
+    /**
+     * Exchange an authorization code after verifying the PKCE code verifier
+     */
+    handleAuthorizationCodeGrant(req, res) {
+        const { code, code_verifier } = req.body;
+        const session = this.authorizationCodes.get(code);
+        this.authorizationCodes.delete(code);
+
+        if (!session) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_grant', 'Invalid or already used authorization code');
+        }
+
+        const challenge = crypto.createHash('sha256').update(code_verifier || '').digest('base64url');
+        if (challenge !== session.codeChallenge) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_grant', 'PKCE verification failed');
+        }
+
+        res.json(this.issueTokens(session));
+    }
+
+    /**
+     * Issue new tokens for a refresh token (refresh tokens are single-use)
+     */
+    handleRefreshTokenGrant(req, res) {
+        const session = this.refreshTokens.get(req.body.refresh_token);
+        this.refreshTokens.delete(req.body.refresh_token);
+
+        if (!session) {
+            return SCAPIErrorUtils.sendOAuthError(res, 400, 'invalid_grant', 'Invalid refresh token');
+        }
+
+        res.json(this.issueTokens(session));
+    }
+
+    /**
+     * Middleware to require a valid shopper access token
+     */
+    requireShopperAuth() {
+        return (req, res, next) => {
+            const authHeader = req.headers.authorization;
+
+            if (!authHeader || !authHeader.startsWith('Bearer ')) {
+                return SCAPIErrorUtils.sendUnauthorized(res, 'Missing or invalid authorization header');
+            }
+
+            const session = this.accessTokens.get(authHeader.substring(7));
+            if (!session || session.expiresAt <= Date.now()) {
+                return SCAPIErrorUtils.sendUnauthorized(res, 'The shopper access token is invalid or expired');
+            }
+
+            req.shopper = session;
+            next();
+        };
+    }
+
+    /**
+     * Store an authorization code for the session and redirect to the redirect URI
+     */
+    redirectWithCode(res, redirectUri, session) {
+        const code = crypto.randomBytes(16).toString('hex');
+        const usid = crypto.randomUUID();
+        this.authorizationCodes.set(code, { ...session, usid });
+
+        const location = new URL(redirectUri);
+        location.searchParams.set('code', code);
+        location.searchParams.set('usid', usid);
+        res.redirect(303, location.toString());
+    }
+
+    /**
+     * Issue an access token and refresh token for a shopper session
+     */
+    issueTokens(session) {
+        const accessToken = `mock_shopper_token_${crypto.randomBytes(12).toString('hex')}`;
+        const refreshToken = `mock_refresh_token_${crypto.randomBytes(12).toString('hex')}`;
+        const shopperSession = {
+            customerId: session.customerId,
+            usid: session.usid,
+            siteId: session.siteId,
+            isGuest: session.isGuest
+        };
+
+        this.accessTokens.set(accessToken, { ...shopperSession, expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000 });
+        this.refreshTokens.set(refreshToken, shopperSession);
+
+        return {
+            access_token: accessToken,
+            token_type: 'BEARER',
+            expires_in: ACCESS_TOKEN_TTL_SECONDS,
+            refresh_token: refreshToken,
+            usid: session.usid,
+            customer_id: session.customerId,
+            idp_access_token: null
+        };
+    }
+
+    /**
+     * Parse a Basic authorization header into [user, password] (empty array when absent)
+     */
+    parseBasicAuth(req) {
+        const authHeader = req.headers.authorization;
+        if (!authHeader || !authHeader.startsWith('Basic ')) {
+            return [];
+        }
+
+        const decoded = Buffer.from(authHeader.substring(6), 'base64').toString('utf8');
+        const separator = decoded.indexOf(':');
+        return separator === -1 ? [decoded, ''] : [decoded.slice(0, separator), decoded.slice(separator + 1)];
+    }
+
+    /**
+     * Get the configured router
+     */
+    getRouter() {
+        return this.router;
+    }
+}
+
+module.exports = SLASHandler;
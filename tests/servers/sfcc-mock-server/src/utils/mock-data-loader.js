@@ -51,6 +51,13 @@ class MockDataLoader {
         return this.loadData(path.join('ocapi', filename), fallbackData);
     }
 
+    /**
+     * Load mock data from SCAPI subdirectory
+     */
+    loadScapiData(filename, fallbackData = null) {
+        return this.loadData(path.join('scapi', filename), fallbackData);
+    }
+
     /**
      * Check if a file exists
      */
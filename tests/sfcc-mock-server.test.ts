@@ -1,5 +1,20 @@
 import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
 import { SFCCMockServerManager, withSFCCMockServer } from './servers/sfcc-mock-server-manager';
+import { SLASAuthClient } from '../src/clients/base/slas-auth-client.js';
+import { TokenManager } from '../src/clients/base/oauth-token.js';
+import { SLASConfig } from '../src/types/types.js';
+
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      log: jest.fn(),
+      info: jest.fn(),
+    })),
+  },
+}));
 
 /**
  * Integration tests for the Unified SFCC Mock Server
@@ -355,6 +370,108 @@ describe('Unified SFCC Mock Server Integration', () => {
     });
   });
 
+  describe('SLAS and Shopper API Functionality', () => {
+    const slasConfig: SLASConfig = {
+      hostname: 'localhost:3002',
+      organizationId: 'f_ecom_zzzz_001',
+      clientId: 'test-slas-client-id',
+      clientSecret: 'test-slas-client-secret',
+      siteId: 'RefArch',
+      shopperLogin: 'shopper@example.com',
+      shopperPassword: 'test-shopper-password',
+    };
+    const organizationPath = '/organizations/f_ecom_zzzz_001';
+
+    beforeEach(() => {
+      TokenManager.getInstance().clearAllTokens();
+    });
+
+    test('should search products as a guest of a private client', async () => {
+      if (!await serverManager.isServerAvailable()) {
+        console.warn('⚠️  Skipping test - SFCC mock server not available');
+        return;
+      }
+
+      const client = new SLASAuthClient(slasConfig, 'guest');
+      const result = await client.request<any>(
+        'GET',
+        `/search/shopper-search/v1${organizationPath}/product-search?siteId=RefArch&q=shirt`,
+      );
+
+      expect(result.total).toBe(1);
+      expect(result.hits[0].productId).toBe('25592581M');
+      expect(client.getCustomerId()).toEqual(expect.any(String));
+    });
+
+    test('should authorize guests of public clients with PKCE', async () => {
+      if (!await serverManager.isServerAvailable()) {
+        console.warn('⚠️  Skipping test - SFCC mock server not available');
+        return;
+      }
+
+      const client = new SLASAuthClient({ ...slasConfig, clientSecret: undefined }, 'guest');
+      const product = await client.request<any>(
+        'GET',
+        `/product/shopper-products/v1${organizationPath}/products/25519318M?siteId=RefArch`,
+      );
+
+      expect(product.id).toBe('25519318M');
+    });
+
+    test('should manage a registered shopper basket', async () => {
+      if (!await serverManager.isServerAvailable()) {
+        console.warn('⚠️  Skipping test - SFCC mock server not available');
+        return;
+      }
+
+      const client = new SLASAuthClient(slasConfig, 'registered');
+      const basketsPath = `/checkout/shopper-baskets/v1${organizationPath}/baskets`;
+
+      const basket = await client.request<any>('POST', `${basketsPath}?siteId=RefArch`, { currency: 'USD' });
+      expect(basket.customerInfo.customerId).toBe(client.getCustomerId());
+
+      const updated = await client.request<any>(
+        'POST',
+        `${basketsPath}/${basket.basketId}/items?siteId=RefArch`,
+        [{ productId: '25592581M', quantity: 2 }],
+      );
+      expect(updated.productItems).toHaveLength(1);
+      expect(updated.productTotal).toBeCloseTo(99.98);
+
+      const fetched = await client.request<any>('GET', `${basketsPath}/${basket.basketId}?siteId=RefArch`);
+      expect(fetched.productItems[0].quantity).toBe(2);
+
+      // Baskets are only visible to the shopper that created them
+      const guest = new SLASAuthClient(slasConfig, 'guest');
+      await expect(guest.request('GET', `${basketsPath}/${basket.basketId}?siteId=RefArch`)).rejects.toThrow('404');
+    });
+
+    test('should reject invalid shopper credentials', async () => {
+      if (!await serverManager.isServerAvailable()) {
+        console.warn('⚠️  Skipping test - SFCC mock server not available');
+        return;
+      }
+
+      const client = new SLASAuthClient({ ...slasConfig, shopperPassword: 'wrong-password' }, 'registered');
+
+      await expect(client.request('GET', `/product/shopper-products/v1${organizationPath}/products/25519318M?siteId=RefArch`))
+        .rejects.toThrow('Shopper login failed: 401');
+    });
+
+    test('should reject Shopper API requests without a shopper token', async () => {
+      if (!await serverManager.isServerAvailable()) {
+        console.warn('⚠️  Skipping test - SFCC mock server not available');
+        return;
+      }
+
+      const response = await fetch(
+        `${serverManager.getServerUrl()}/product/shopper-products/v1${organizationPath}/products/25519318M?siteId=RefArch`,
+      );
+
+      expect(response.status).toBe(401);
+    });
+  });
+
   describe('CORS and Cross-Origin Support', () => {
     test('should include CORS headers', async () => {
       if (!await serverManager.isServerAvailable()) {
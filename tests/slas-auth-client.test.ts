@@ -0,0 +1,215 @@
+/**
+ * Tests for SLASAuthClient
+ * Tests guest and registered shopper token flows for the SCAPI Shopper APIs
+ */
+
+import { createHash } from 'crypto';
+import { SLASAuthClient } from '../src/clients/base/slas-auth-client.js';
+import { TokenManager } from '../src/clients/base/oauth-token.js';
+import { SLASConfig, SLASTokenResponse } from '../src/types/types.js';
+import { buildSLASUrl } from '../src/utils/scapi-url-builder.js';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+// Mock Logger
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      log: jest.fn(),
+      info: jest.fn(),
+    })),
+  },
+}));
+
+describe('SLASAuthClient', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>;
+  const tokenManager = TokenManager.getInstance();
+
+  const publicConfig: SLASConfig = {
+    hostname: 'zzxy-001.dx.commercecloud.salesforce.com',
+    shortCode: 'kv7kzm78',
+    organizationId: 'f_ecom_zzxy_001',
+    clientId: 'slas-client',
+    redirectUri: 'http://localhost:3000/callback',
+    siteId: 'RefArch',
+    shopperLogin: 'shopper@example.com',
+    shopperPassword: 'shopper-password',
+  };
+
+  const privateConfig: SLASConfig = { ...publicConfig, clientSecret: 'slas-secret' };
+
+  const tokenResponse = (overrides: Partial<SLASTokenResponse> = {}): SLASTokenResponse => ({
+    access_token: 'shopper-token',
+    token_type: 'BEARER',
+    expires_in: 1800,
+    refresh_token: 'refresh-1',
+    usid: 'usid-1',
+    customer_id: 'customer-1',
+    ...overrides,
+  });
+
+  const jsonResponse = (body: unknown): Response => ({
+    ok: true,
+    status: 200,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as Response);
+
+  const redirectResponse = (location: string): Response => ({
+    ok: false,
+    status: 303,
+    statusText: 'See Other',
+    headers: new Headers({ location }),
+    text: async () => '',
+  } as Response);
+
+  const formBody = (callIndex: number): URLSearchParams =>
+    new URLSearchParams(mockFetch.mock.calls[callIndex][1]!.body as string);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tokenManager.clearAllTokens();
+    mockFetch = fetch as jest.MockedFunction<typeof fetch>;
+  });
+
+  afterEach(() => {
+    tokenManager.clearAllTokens();
+  });
+
+  it('should build SLAS URLs on the SCAPI host', () => {
+    expect(buildSLASUrl(publicConfig, 'token')).toBe(
+      'https://kv7kzm78.api.commercecloud.salesforce.com/shopper/auth/v1/organizations/f_ecom_zzxy_001/oauth2/token',
+    );
+  });
+
+  it('should require shopper credentials for registered shoppers', () => {
+    expect(() => new SLASAuthClient({ ...publicConfig, shopperPassword: undefined }, 'registered'))
+      .toThrow('require shopper credentials');
+  });
+
+  it('should use client credentials for guests of private clients', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(tokenResponse()))
+      .mockResolvedValueOnce(jsonResponse({ id: 'PROD-1' }));
+    const client = new SLASAuthClient(privateConfig, 'guest');
+
+    await client.request('GET', '/product/shopper-products/v1/organizations/f_ecom_zzxy_001/products/PROD-1');
+
+    const [tokenUrl, tokenOptions] = mockFetch.mock.calls[0];
+    expect(tokenUrl).toBe(buildSLASUrl(privateConfig, 'token'));
+    expect((tokenOptions!.headers as Record<string, string>).Authorization)
+      .toBe(`Basic ${Buffer.from('slas-client:slas-secret').toString('base64')}`);
+    expect(formBody(0).get('grant_type')).toBe('client_credentials');
+    expect(formBody(0).get('channel_id')).toBe('RefArch');
+    expect((mockFetch.mock.calls[1][1]!.headers as Record<string, string>).Authorization).toBe('Bearer shopper-token');
+  });
+
+  it('should authorize guests of public clients with PKCE', async () => {
+    mockFetch
+      .mockResolvedValueOnce(redirectResponse('http://localhost:3000/callback?code=guest-code&usid=usid-1'))
+      .mockResolvedValueOnce(jsonResponse(tokenResponse()))
+      .mockResolvedValueOnce(jsonResponse({}));
+    const client = new SLASAuthClient(publicConfig, 'guest');
+
+    await client.request('GET', '/a');
+
+    const authorizeUrl = new URL(mockFetch.mock.calls[0][0] as string);
+    expect(authorizeUrl.pathname).toBe('/shopper/auth/v1/organizations/f_ecom_zzxy_001/oauth2/authorize');
+    expect(authorizeUrl.searchParams.get('hint')).toBe('guest');
+    expect(mockFetch.mock.calls[0][1]!.redirect).toBe('manual');
+
+    const tokenParams = formBody(1);
+    expect(tokenParams.get('grant_type')).toBe('authorization_code_pkce');
+    expect(tokenParams.get('code')).toBe('guest-code');
+    expect(tokenParams.get('usid')).toBe('usid-1');
+    expect(tokenParams.get('client_id')).toBe('slas-client');
+    expect(createHash('sha256').update(tokenParams.get('code_verifier')!).digest('base64url'))
+      .toBe(authorizeUrl.searchParams.get('code_challenge'));
+    expect((mockFetch.mock.calls[1][1]!.headers as Record<string, string>).Authorization).toBeUndefined();
+  });
+
+  it('should log in registered shoppers with their credentials', async () => {
+    mockFetch
+      .mockResolvedValueOnce(redirectResponse('http://localhost:3000/callback?code=login-code&usid=usid-2'))
+      .mockResolvedValueOnce(jsonResponse(tokenResponse({ customer_id: 'registered-1' })))
+      .mockResolvedValueOnce(jsonResponse({}));
+    const client = new SLASAuthClient(privateConfig, 'registered');
+
+    await client.request('GET', '/a');
+
+    const [loginUrl, loginOptions] = mockFetch.mock.calls[0];
+    expect(loginUrl).toBe(buildSLASUrl(privateConfig, 'login'));
+    expect((loginOptions!.headers as Record<string, string>).Authorization)
+      .toBe(`Basic ${Buffer.from('shopper@example.com:shopper-password').toString('base64')}`);
+    expect(formBody(0).get('code_challenge')).toEqual(expect.any(String));
+    expect(formBody(1).get('code')).toBe('login-code');
+    expect((mockFetch.mock.calls[1][1]!.headers as Record<string, string>).Authorization)
+      .toBe(`Basic ${Buffer.from('slas-client:slas-secret').toString('base64')}`);
+    expect(client.getCustomerId()).toBe('registered-1');
+  });
+
+  it('should surface failed shopper logins', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      statusText: 'Unauthorized',
+      headers: new Headers(),
+      text: async () => 'invalid credentials',
+    } as Response);
+    const client = new SLASAuthClient(publicConfig, 'registered');
+
+    await expect(client.request('GET', '/a')).rejects.toThrow(
+      'Failed to get SLAS registered shopper token: Error: Shopper login failed: 401 Unauthorized - invalid credentials',
+    );
+  });
+
+  it('should cache tokens per site and shopper type', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(tokenResponse()))
+      .mockResolvedValue(jsonResponse({}));
+    const client = new SLASAuthClient(privateConfig, 'guest');
+
+    await client.request('GET', '/a');
+    await client.request('GET', '/b');
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(tokenManager.getValidToken(privateConfig.hostname, 'slas-client', 'slas:RefArch:guest')).toBe('shopper-token');
+    expect(tokenManager.getValidToken(privateConfig.hostname, 'slas-client', 'slas:RefArch:registered')).toBeNull();
+  });
+
+  it('should renew expired tokens with the refresh token', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(tokenResponse({ expires_in: 30 })))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce(jsonResponse(tokenResponse({ access_token: 'refreshed-token' })))
+      .mockResolvedValueOnce(jsonResponse({}));
+    const client = new SLASAuthClient(privateConfig, 'guest');
+
+    await client.request('GET', '/a');
+    await client.request('GET', '/b');
+
+    expect(formBody(2).get('grant_type')).toBe('refresh_token');
+    expect(formBody(2).get('refresh_token')).toBe('refresh-1');
+    expect((mockFetch.mock.calls[3][1]!.headers as Record<string, string>).Authorization).toBe('Bearer refreshed-token');
+  });
+
+  it('should log in again when the refresh token is rejected', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(tokenResponse({ expires_in: 30 })))
+      .mockResolvedValueOnce(jsonResponse({}))
+      .mockResolvedValueOnce({ ok: false, status: 400, statusText: 'Bad Request', text: async () => 'invalid_grant' } as Response)
+      .mockResolvedValueOnce(jsonResponse(tokenResponse({ access_token: 'new-token' })))
+      .mockResolvedValueOnce(jsonResponse({}));
+    const client = new SLASAuthClient(privateConfig, 'guest');
+
+    await client.request('GET', '/a');
+    await client.request('GET', '/b');
+
+    expect(formBody(3).get('grant_type')).toBe('client_credentials');
+    expect((mockFetch.mock.calls[4][1]!.headers as Record<string, string>).Authorization).toBe('Bearer new-token');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for TokenStore
+ * Tests encryption, expiry eviction and permission checks of the on-disk token store
+ */
+
+import { chmodSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { TokenStore, TokenStoreError } from '../src/clients/base/token-store.js';
+
+const isWindows = process.platform === 'win32';
+
+describe('TokenStore', () => {
+  let dir: string;
+  let storePath: string;
+
+  const token = (expiresInMs: number) => ({ accessToken: 'secret-token', tokenType: 'Bearer', expiresAt: Date.now() + expiresInMs });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'token-store-test-'));
+    storePath = join(dir, 'cache', 'tokens.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist tokens across store instances', () => {
+    new TokenStore(storePath).update(tokens => {
+      tokens['host:client'] = token(3600000);
+    });
+
+    expect(new TokenStore(storePath).read()).toEqual({ 'host:client': expect.objectContaining({ accessToken: 'secret-token' }) });
+  });
+
+  it('should encrypt the tokens', () => {
+    new TokenStore(storePath).update(tokens => {
+      tokens['host:client'] = token(3600000);
+    });
+
+    const contents = readFileSync(storePath, 'utf8');
+    expect(contents).not.toContain('secret-token');
+    expect(contents).not.toContain('host:client');
+  });
+
+  (isWindows ? it.skip : it)('should create the store and key file with owner-only permissions', () => {
+    new TokenStore(storePath).update(tokens => {
+      tokens['host:client'] = token(3600000);
+    });
+
+    expect(statSync(storePath).mode & 0o777).toBe(0o600);
+    expect(statSync(`${storePath}.key`).mode & 0o777).toBe(0o600);
+  });
+
+  it('should evict expired tokens', () => {
+    const store = new TokenStore(storePath);
+    store.update(tokens => {
+      tokens['host:expired'] = token(-1000);
+      tokens['host:valid'] = token(3600000);
+    });
+
+    expect(Object.keys(store.read())).toEqual(['host:valid']);
+  });
+
+  it('should keep tokens written by other stores when updating', () => {
+    new TokenStore(storePath).update(tokens => {
+      tokens['host:first'] = token(3600000);
+    });
+    new TokenStore(storePath).update(tokens => {
+      tokens['host:second'] = token(3600000);
+    });
+
+    expect(Object.keys(new TokenStore(storePath).read()).sort()).toEqual(['host:first', 'host:second']);
+  });
+
+  it('should treat stores encrypted with another key as empty', () => {
+    new TokenStore(storePath, { passphrase: 'first' }).update(tokens => {
+      tokens['host:client'] = token(3600000);
+    });
+
+    expect(new TokenStore(storePath, { passphrase: 'second' }).read()).toEqual({});
+    expect(Object.keys(new TokenStore(storePath, { passphrase: 'first' }).read())).toEqual(['host:client']);
+  });
+
+  (isWindows ? it.skip : it)('should refuse store and key files accessible by other users', () => {
+    new TokenStore(storePath).update(tokens => {
+      tokens['host:client'] = token(3600000);
+    });
+
+    chmodSync(storePath, 0o644);
+    expect(() => new TokenStore(storePath)).toThrow(TokenStoreError);
+    expect(() => new TokenStore(storePath)).toThrow('chmod 600');
+
+    chmodSync(storePath, 0o600);
+    chmodSync(`${storePath}.key`, 0o640);
+    expect(() => new TokenStore(storePath)).toThrow(TokenStoreError);
+  });
+
+  it('should reject invalid key files', () => {
+    new TokenStore(storePath);
+    writeFileSync(`${storePath}.key`, 'not-a-key', { mode: 0o600 });
+
+    expect(() => new TokenStore(storePath)).toThrow('does not contain a valid key');
+  });
+
+  it('should delete the store file on clear', () => {
+    const store = new TokenStore(storePath);
+    store.update(tokens => {
+      tokens['host:client'] = token(3600000);
+    });
+
+    store.clear();
+
+    expect(existsSync(storePath)).toBe(false);
+    expect(store.read()).toEqual({});
+  });
+});
@@ -1,5 +1,6 @@
 import {
   getCurrentDate,
+  getDatesInRange,
   formatBytes,
   parseLogEntries,
   extractUniqueErrors,
@@ -49,6 +50,17 @@ describe('utils.ts', () => {
     });
   });
 
+  describe('getDatesInRange', () => {
+    it('should return every GMT date touched by the range', () => {
+      expect(getDatesInRange(new Date('2025-08-15T23:50:00Z'), new Date('2025-08-16T00:10:00Z')))
+        .toEqual(['20250815', '20250816']);
+      expect(getDatesInRange(new Date('2025-02-28T12:00:00Z'), new Date('2025-03-01T00:00:00Z')))
+        .toEqual(['20250228', '20250301']);
+      expect(getDatesInRange(new Date('2025-08-15T10:00:00Z'), new Date('2025-08-15T11:00:00Z')))
+        .toEqual(['20250815']);
+    });
+  });
+
   describe('formatBytes', () => {
     it('should format zero bytes', () => {
       expect(formatBytes(0)).toBe('0 Bytes');
@@ -0,0 +1,208 @@
+/**
+ * Tests for WriteGuard
+ * Tests read-only gating and the confirmation token flow for mutating tools
+ */
+
+import { WriteGuard, isMutatingEndpoint, CONFIRMATION_TOKEN_ARGUMENT } from '../src/core/write-guard.js';
+import { HandlerError } from '../src/core/handlers/base-handler.js';
+import { SFCCConfig } from '../src/types/types.js';
+
+jest.mock('../src/utils/logger.js', () => ({
+  Logger: {
+    getChildLogger: jest.fn(() => ({
+      debug: jest.fn(),
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+    })),
+  },
+}));
+
+const MUTATING = new Set(['activate_code_version', 'update_product']);
+
+const tool = (name: string) => ({
+  name,
+  description: name,
+  inputSchema: { type: 'object', properties: { id: { type: 'string' } } },
+});
+
+describe('isMutatingEndpoint', () => {
+  it('should treat GET endpoints as read-only', () => {
+    expect(isMutatingEndpoint({ method: 'GET' })).toBe(false);
+  });
+
+  it('should treat other methods as mutating unless flagged read-only', () => {
+    expect(isMutatingEndpoint({ method: 'PATCH' })).toBe(true);
+    expect(isMutatingEndpoint({ method: 'POST' })).toBe(true);
+    expect(isMutatingEndpoint({ method: 'POST', readOnly: true })).toBe(false);
+  });
+});
+
+describe('WriteGuard', () => {
+  let guard: WriteGuard;
+  const config: SFCCConfig = { hostname: 'sandbox.demandware.net', clientId: 'id', clientSecret: 'secret' };
+
+  beforeEach(() => {
+    guard = new WriteGuard(name => MUTATING.has(name));
+  });
+
+  const issueToken = (args: Record<string, unknown>, targetConfig: SFCCConfig = config): string => {
+    const decision = guard.check('activate_code_version', args, targetConfig);
+    expect(decision.action).toBe('confirm');
+    const body = JSON.parse((decision as any).result.content[0].text);
+    return body.confirmationToken;
+  };
+
+  describe('filterToolDefinitions', () => {
+    it('should add the confirmation argument to mutating tools only', () => {
+      const tools = guard.filterToolDefinitions([tool('get_code_versions'), tool('activate_code_version')], config);
+
+      expect(tools.map(t => t.name)).toEqual(['get_code_versions', 'activate_code_version']);
+      expect(tools[0].inputSchema.properties).not.toHaveProperty(CONFIRMATION_TOKEN_ARGUMENT);
+      expect(tools[1].inputSchema.properties).toHaveProperty(CONFIRMATION_TOKEN_ARGUMENT);
+    });
+
+    it('should hide mutating tools when every instance is read-only', () => {
+      const tools = guard.filterToolDefinitions(
+        [tool('get_code_versions'), tool('activate_code_version')],
+        { ...config, readOnly: true },
+      );
+
+      expect(tools.map(t => t.name)).toEqual(['get_code_versions']);
+    });
+
+    it('should keep mutating tools when another instance is writable', () => {
+      const multiInstance: SFCCConfig = {
+        ...config,
+        readOnly: true,
+        instanceName: 'production',
+        instances: { sandbox: { ...config, instanceName: 'sandbox' } },
+      };
+
+      expect(guard.isAvailable('activate_code_version', multiInstance)).toBe(true);
+    });
+  });
+
+  describe('check', () => {
+    it('should pass non-mutating tools through unchanged', () => {
+      const args = { limit: 5 };
+
+      expect(guard.check('get_code_versions', args, { ...config, readOnly: true })).toEqual({
+        action: 'execute',
+        args,
+      });
+    });
+
+    it('should reject mutating tools on read-only instances', () => {
+      expect(() => guard.check('activate_code_version', { codeVersionId: 'v1' }, { ...config, readOnly: true }))
+        .toThrow(HandlerError);
+      expect(() => guard.check('activate_code_version', { codeVersionId: 'v1' }, { ...config, readOnly: true }))
+        .toThrow('is disabled because instance "default" is read-only');
+    });
+
+    it('should reject mutating tools when the selected instance is read-only', () => {
+      const multiInstance: SFCCConfig = {
+        ...config,
+        instanceName: 'sandbox',
+        instances: { production: { ...config, instanceName: 'production', readOnly: true } },
+      };
+
+      expect(() => guard.check('activate_code_version', { instance: 'production' }, multiInstance))
+        .toThrow('instance "production" is read-only');
+      expect(guard.check('activate_code_version', {}, multiInstance).action).toBe('confirm');
+    });
+
+    it('should require confirmation before executing', () => {
+      const decision = guard.check('activate_code_version', { codeVersionId: 'v1' }, config);
+
+      expect(decision.action).toBe('confirm');
+      const body = JSON.parse((decision as any).result.content[0].text);
+      expect(body).toMatchObject({
+        confirmationRequired: true,
+        tool: 'activate_code_version',
+        instance: 'default',
+        arguments: { codeVersionId: 'v1' },
+      });
+      expect(body.confirmationToken).toEqual(expect.any(String));
+    });
+
+    it('should execute with a valid token and strip it from the arguments', () => {
+      const token = issueToken({ codeVersionId: 'v1' });
+
+      const decision = guard.check(
+        'activate_code_version',
+        { codeVersionId: 'v1', [CONFIRMATION_TOKEN_ARGUMENT]: token },
+        config,
+      );
+
+      expect(decision).toEqual({ action: 'execute', args: { codeVersionId: 'v1' } });
+    });
+
+    it('should only accept a token once', () => {
+      const token = issueToken({ codeVersionId: 'v1' });
+      const args = { codeVersionId: 'v1', [CONFIRMATION_TOKEN_ARGUMENT]: token };
+
+      guard.check('activate_code_version', args, config);
+
+      expect(() => guard.check('activate_code_version', args, config)).toThrow('Invalid or expired confirmation token');
+    });
+
+    it('should reject tokens issued for different arguments', () => {
+      const token = issueToken({ codeVersionId: 'v1' });
+
+      expect(() => guard.check(
+        'activate_code_version',
+        { codeVersionId: 'v2', [CONFIRMATION_TOKEN_ARGUMENT]: token },
+        config,
+      )).toThrow('was issued for different arguments or a different instance');
+    });
+
+    it('should only accept a token in the session it was issued to', () => {
+      const decision = guard.check('activate_code_version', { codeVersionId: 'v1' }, config, 'session-a');
+      const token = JSON.parse((decision as any).result.content[0].text).confirmationToken;
+      const args = { codeVersionId: 'v1', [CONFIRMATION_TOKEN_ARGUMENT]: token };
+
+      expect(() => guard.check('activate_code_version', args, config, 'session-b'))
+        .toThrow('was issued to another session');
+      expect(() => guard.check('activate_code_version', args, config))
+        .toThrow('Invalid or expired confirmation token');
+
+      const stdioToken = issueToken({ codeVersionId: 'v1' });
+      expect(() => guard.check(
+        'activate_code_version',
+        { codeVersionId: 'v1', [CONFIRMATION_TOKEN_ARGUMENT]: stdioToken },
+        config,
+        'session-a',
+      )).toThrow('was issued to another session');
+    });
+
+    it('should discard the tokens of a closed session', () => {
+      const decision = guard.check('activate_code_version', { codeVersionId: 'v1' }, config, 'session-a');
+      const token = JSON.parse((decision as any).result.content[0].text).confirmationToken;
+
+      guard.clearSession('session-a');
+
+      expect(() => guard.check(
+        'activate_code_version',
+        { codeVersionId: 'v1', [CONFIRMATION_TOKEN_ARGUMENT]: token },
+        config,
+        'session-a',
+      )).toThrow('Invalid or expired confirmation token');
+    });
+
+    it('should reject expired tokens', () => {
+      const now = Date.now();
+      const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const token = issueToken({ codeVersionId: 'v1' });
+
+      dateSpy.mockReturnValue(now + 5 * 60 * 1000 + 1);
+
+      expect(() => guard.check(
+        'activate_code_version',
+        { codeVersionId: 'v1', [CONFIRMATION_TOKEN_ARGUMENT]: token },
+        config,
+      )).toThrow('Invalid or expired confirmation token');
+      dateSpy.mockRestore();
+    });
+  });
+});